@@ -4,18 +4,53 @@ import { CoordinateTransformer } from "./modules/CoordinateTransformer";
 import { ViewportState } from "./modules/ViewportState";
 import { AnimationController } from "./modules/AnimationController";
 import { HitTester, HitResult, HitTestOptions, HitTestRectOptions, HitItem } from "./modules/HitTester";
-import { DEFAULT_VALUES } from "./constants";
-import { validateCoords, validateScale } from "./utils/validateConfig";
+import { Minimap } from "./modules/Minimap";
+import { ItemEvents } from "./modules/ItemEvents";
+import { ItemDrag, type DragRegistration } from "./modules/ItemDrag";
+import { Cursor } from "./modules/Cursor";
+import { Marquee, marqueeBox } from "./modules/Marquee";
+import { Selection } from "./modules/Selection";
+import { ToolStack } from "./modules/ToolStack";
+import { chainCaptures, snapToCell, type PointerCapture } from "./modules/GestureProcessor";
+import { DEFAULT_VALUES, MARQUEE_STYLE } from "./constants";
+import {
+    validateCoords,
+    validateEasing,
+    validateFollowOptions,
+    validateOverlayOptions,
+    validateRotation,
+    validateScale,
+    validateScaleRange,
+    validateTool,
+    validateViewState,
+} from "./utils/validateConfig";
 import { fitScale } from "./utils/fitScale";
 import { snapCenterToGrid } from "./utils/viewport";
+import { hexAt, hexCenter, hexCorners } from "./utils/hex";
+import { translatedFields } from "./utils/moveItem";
+import { wrapCoords } from "./utils/wrap";
 import {
+    AnimateOptions,
+    Easing,
     Bounds,
     Coords,
     CanvasTileEngineConfig,
     FitBoundsOptions,
     FitBoundsResult,
+    FlyToOptions,
+    FollowOptions,
+    MinimapOptions,
+    OverlayHandle,
+    OverlayOptions,
     ReducedMotionSetting,
+    SetViewStateOptions,
+    Tool,
+    ViewState,
+    ViewStateInput,
+    ZoomLevels,
     onClickCallback,
+    onDoubleClickCallback,
+    onLongPressCallback,
     onRightClickCallback,
     onDrawCallback,
     onHoverCallback,
@@ -24,6 +59,14 @@ import {
     onMouseUpCallback,
     onMouseLeaveCallback,
     onWheelCallback,
+    onItemEventCallback,
+    ItemEventHandlers,
+    onItemDragCallback,
+    ItemDragHandlers,
+    DraggableDrawOptions,
+    onMarqueeCallback,
+    MarqueeBox,
+    MarqueeOptions,
     Circle,
     ImageItem,
     Text,
@@ -31,6 +74,7 @@ import {
     Line,
     LineStyle,
     PathItem,
+    HexItem,
     IRenderer,
     IImageLoader,
     DrawHandle,
@@ -41,11 +85,15 @@ import {
     TextDrawOptions,
     LineDrawOptions,
     PathDrawOptions,
+    HexDrawOptions,
     ImageDrawOptions,
     StaticDrawOptions,
+    ScaleRange,
     StyleOf,
     VisibleOf,
     InteractiveOf,
+    CursorOf,
+    CursorOptions,
     ShapeDecorationStyle,
     TextDecorationStyle,
     LineDecorationStyle,
@@ -62,10 +110,28 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
     private coordinateTransformer: CoordinateTransformer;
     private renderer: IRenderer<TMount, TImage>;
     private animationController: AnimationController;
-    private hitTester = new HitTester(() => this.camera.scale);
+    private hitTester = new HitTester(
+        () => this.camera.scale,
+        () => this.camera,
+        () => this.config.get().wrap,
+    );
     /** Registrations tracked by user-facing id (static draws: their cacheKey). */
     private drawIds = new Map<string, { handle: DrawHandle; cacheKey?: string }>();
     private drawIdByHandle = new Map<symbol, string>();
+    /** Drag behavior of the active follow; undefined while not following. */
+    private followBreak?: Pick<FollowOptions, "breakOnDrag" | "onBreak">;
+    /** subscribeViewState listeners, called after every camera change. */
+    private viewStateListeners = new Set<(state: ViewState) => void>();
+    /** Live minimaps, told to repaint after every render. */
+    private minimaps = new Set<Minimap>();
+    /** Item-level dispatch of the pointer callbacks. */
+    private itemEvents: ItemEvents<TImage>;
+    /** Drags draggable items, claiming their presses from the camera. */
+    private itemDrag: ItemDrag<TImage>;
+    /** Canvas cursor from hover hits and gesture state (`eventHandlers.cursor`). */
+    private cursor: Cursor;
+    /** Interaction tools (`setTool`), seeing input before the camera. */
+    private tools: ToolStack<TImage>;
 
     public canvasWrapper: TMount;
     /**
@@ -83,6 +149,13 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
         return this.renderer.getImageLoader();
     }
 
+    /**
+     * Selected item ids, keyed through `selection.idOf` over item `data`.
+     * Draw calls with a `selectedStyle` highlight the selected items, and
+     * every change re-renders. See {@link Selection}.
+     */
+    public readonly selection = new Selection(() => this.render());
+
     /**
      * Callback when center coordinates change (pan or zoom).
      * @param coords - Center world coordinates: `{ x, y }`
@@ -102,6 +175,7 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
      * @param coords - World coordinates: `raw` (exact), `snapped` (floored to tile)
      * @param mouse - Canvas-relative position: `raw` (exact), `snapped` (tile-aligned)
      * @param client - Viewport position: `raw` (exact), `snapped` (tile-aligned)
+     * @param pointer - Device: `pointerType`, `pressure`, `tiltX`/`tiltY`, `pointerId` and modifier keys
      * @example
      * ```ts
      * engine.onClick = (coords, mouse, client) => {
@@ -114,7 +188,52 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
     }
     public set onClick(cb: onClickCallback | undefined) {
         this._onClick = cb;
-        this.renderer.onClick = cb;
+    }
+
+    private _onDoubleClick?: onDoubleClickCallback;
+
+    /**
+     * Callback on the second click of a double-click (or tap of a double-tap),
+     * fired after that click's `onClick`. Requires `eventHandlers.doubleClick`.
+     * @param coords - World coordinates: `raw` (exact), `snapped` (floored to tile)
+     * @param mouse - Canvas-relative position: `raw` (exact), `snapped` (tile-aligned)
+     * @param client - Viewport position: `raw` (exact), `snapped` (tile-aligned)
+     * @param pointer - Device: `pointerType`, `pressure`, `tiltX`/`tiltY`, `pointerId` and modifier keys
+     * @example
+     * ```ts
+     * engine.onDoubleClick = (coords) => {
+     *     openTileEditor(coords.snapped.x, coords.snapped.y);
+     * };
+     * ```
+     */
+    public get onDoubleClick(): onDoubleClickCallback | undefined {
+        return this._onDoubleClick;
+    }
+    public set onDoubleClick(cb: onDoubleClickCallback | undefined) {
+        this._onDoubleClick = cb;
+    }
+
+    private _onLongPress?: onLongPressCallback;
+
+    /**
+     * Callback when a press is held still (mouse or touch). The release that
+     * ends it does not fire `onClick`. Requires `eventHandlers.longPress`.
+     * @param coords - World coordinates: `raw` (exact), `snapped` (floored to tile)
+     * @param mouse - Canvas-relative position: `raw` (exact), `snapped` (tile-aligned)
+     * @param client - Viewport position: `raw` (exact), `snapped` (tile-aligned)
+     * @param pointer - Device: `pointerType`, `pressure`, `tiltX`/`tiltY`, `pointerId` and modifier keys
+     * @example
+     * ```ts
+     * engine.onLongPress = (coords, mouse, client) => {
+     *     showContextMenu(client.raw.x, client.raw.y, coords.snapped);
+     * };
+     * ```
+     */
+    public get onLongPress(): onLongPressCallback | undefined {
+        return this._onLongPress;
+    }
+    public set onLongPress(cb: onLongPressCallback | undefined) {
+        this._onLongPress = cb;
     }
 
     private _onRightClick?: onRightClickCallback;
@@ -124,6 +243,7 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
      * @param coords - World coordinates: `raw` (exact), `snapped` (floored to tile)
      * @param mouse - Canvas-relative position: `raw` (exact), `snapped` (tile-aligned)
      * @param client - Viewport position: `raw` (exact), `snapped` (tile-aligned)
+     * @param pointer - Device: `pointerType`, `pressure`, `tiltX`/`tiltY`, `pointerId` and modifier keys
      * @example
      * ```ts
      * engine.onRightClick = (coords) => {
@@ -136,7 +256,6 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
     }
     public set onRightClick(cb: onRightClickCallback | undefined) {
         this._onRightClick = cb;
-        this.renderer.onRightClick = cb;
     }
 
     private _onHover?: onHoverCallback;
@@ -146,6 +265,7 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
      * @param coords - World coordinates: `raw` (exact), `snapped` (floored to tile)
      * @param mouse - Canvas-relative position: `raw` (exact), `snapped` (tile-aligned)
      * @param client - Viewport position: `raw` (exact), `snapped` (tile-aligned)
+     * @param pointer - Device: `pointerType`, `pressure`, `tiltX`/`tiltY`, `pointerId` and modifier keys
      * @example
      * ```ts
      * engine.onHover = (coords) => {
@@ -158,7 +278,6 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
     }
     public set onHover(cb: onHoverCallback | undefined) {
         this._onHover = cb;
-        this.renderer.onHover = cb;
     }
 
     private _onMouseDown?: onMouseDownCallback;
@@ -168,6 +287,7 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
      * @param coords - World coordinates: `raw` (exact), `snapped` (floored to tile)
      * @param mouse - Canvas-relative position: `raw` (exact), `snapped` (tile-aligned)
      * @param client - Viewport position: `raw` (exact), `snapped` (tile-aligned)
+     * @param pointer - Device: `pointerType`, `pressure`, `tiltX`/`tiltY`, `pointerId` and modifier keys
      * @example
      * ```ts
      * engine.onMouseDown = (coords) => {
@@ -180,7 +300,6 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
     }
     public set onMouseDown(cb: onMouseDownCallback | undefined) {
         this._onMouseDown = cb;
-        this.renderer.onMouseDown = cb;
     }
 
     private _onMouseUp?: onMouseUpCallback;
@@ -190,6 +309,7 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
      * @param coords - World coordinates: `raw` (exact), `snapped` (floored to tile)
      * @param mouse - Canvas-relative position: `raw` (exact), `snapped` (tile-aligned)
      * @param client - Viewport position: `raw` (exact), `snapped` (tile-aligned)
+     * @param pointer - Device: `pointerType`, `pressure`, `tiltX`/`tiltY`, `pointerId` and modifier keys
      * @example
      * ```ts
      * engine.onMouseUp = (coords) => {
@@ -202,7 +322,6 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
     }
     public set onMouseUp(cb: onMouseUpCallback | undefined) {
         this._onMouseUp = cb;
-        this.renderer.onMouseUp = cb;
     }
 
     private _onMouseLeave?: onMouseLeaveCallback;
@@ -212,6 +331,7 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
      * @param coords - World coordinates: `raw` (exact), `snapped` (floored to tile)
      * @param mouse - Canvas-relative position: `raw` (exact), `snapped` (tile-aligned)
      * @param client - Viewport position: `raw` (exact), `snapped` (tile-aligned)
+     * @param pointer - Device: `pointerType`, `pressure`, `tiltX`/`tiltY`, `pointerId` and modifier keys
      * @example
      * ```ts
      * engine.onMouseLeave = () => {
@@ -224,7 +344,6 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
     }
     public set onMouseLeave(cb: onMouseLeaveCallback | undefined) {
         this._onMouseLeave = cb;
-        this.renderer.onMouseLeave = cb;
     }
 
     private _onDraw?: onDrawCallback;
@@ -317,6 +436,109 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
         this.renderer.onWheel = cb;
     }
 
+    /**
+     * Callback when an item is clicked or tapped: the topmost hit-tested
+     * item under the pointer, as `hitTestFirst` would return it, followed by
+     * the `onClick` payloads. Requires `eventHandlers.click`. Items kept out
+     * of hit testing (`hitTest: false`, `interactiveOf`, `visibleOf`, scale
+     * ranges) never receive item events; the pointer reaches the item below.
+     * Draw calls take the same handlers in their options, for their own
+     * items only; those run first.
+     * @param hit - The item hit: `item`, `kind`, `layer`, `handle`, `index`, `data`
+     * @example
+     * ```ts
+     * engine.onItemClick = (hit) => {
+     *     if (hit.handle === unitsHandle) {
+     *         selectUnit(hit.data);
+     *     }
+     * };
+     * ```
+     */
+    public onItemClick?: onItemEventCallback<TImage>;
+
+    /** Callback when an item is right-clicked. Requires `eventHandlers.rightClick`. See {@link onItemClick}. */
+    public onItemRightClick?: onItemEventCallback<TImage>;
+
+    /**
+     * Callback when the pointer moves onto an item. Requires
+     * `eventHandlers.hover`. Moving from one item straight onto another fires
+     * `onItemLeave` for the first, then `onItemEnter` for the second.
+     * See {@link onItemClick}.
+     * @example
+     * ```ts
+     * engine.onItemEnter = (hit) => showTooltip(hit.data);
+     * engine.onItemLeave = () => hideTooltip();
+     * ```
+     */
+    public onItemEnter?: onItemEventCallback<TImage>;
+
+    /**
+     * Callback when the pointer moves off an item — onto another item, empty
+     * space, or out of the canvas. Requires `eventHandlers.hover`.
+     * See {@link onItemEnter}.
+     */
+    public onItemLeave?: onItemEventCallback<TImage>;
+
+    /** Callback when a mouse button or touch goes down on an item. See {@link onItemClick}. */
+    public onItemDown?: onItemEventCallback<TImage>;
+
+    /** Callback when a mouse button or touch is released over an item. See {@link onItemClick}. */
+    public onItemUp?: onItemEventCallback<TImage>;
+
+    /**
+     * Callback when a draggable item (a draw call with `draggable`) starts
+     * moving: the first pointer move after pressing it. Draw calls take the
+     * same handler in their options, for their own items; those run first.
+     * @param hit - The item being dragged
+     * @param drag - `start` and snapped `position` of the item's anchor, `delta`, the pointer `coords`
+     * @example
+     * ```ts
+     * engine.drawRect(furniture, 2, { draggable: { snap: "cell" } });
+     * engine.onItemDragEnd = (hit, drag) => {
+     *     if (!drag.cancelled) {
+     *         saveLayout(hit.data, drag.position);
+     *     }
+     * };
+     * ```
+     */
+    public onItemDragStart?: onItemDragCallback<TImage>;
+
+    /** Callback on every pointer move of an item drag. See {@link onItemDragStart}. */
+    public onItemDragMove?: onItemDragCallback<TImage>;
+
+    /**
+     * Callback when an item drag ends. On a drop the item has already moved
+     * to `drag.position`; `drag.cancelled` is `true` when the pointer left the
+     * canvas or a pinch began, and the item stayed put. See {@link onItemDragStart}.
+     */
+    public onItemDragEnd?: onItemDragCallback<TImage>;
+
+    /**
+     * Callback on every pointer move of a marquee selection
+     * (`eventHandlers.marquee`), with the items the box covers so far — for
+     * live highlighting.
+     * @param hits - Items in the box, as `hitTestRect` orders them
+     * @param marquee - The box `bounds` (world, `coords.raw` space) and the `operation` the modifier keys ask for
+     * @example
+     * ```ts
+     * engine.setEventHandlers({ marquee: { modifier: "shift", mode: "contain" } });
+     * engine.onMarqueeEnd = (hits, { operation, cancelled }) => {
+     *     if (cancelled) return;
+     *     const ids = hits.map((hit) => hit.data as string);
+     *     if (operation === "replace") selected.clear();
+     *     for (const id of ids) operation === "subtract" ? selected.delete(id) : selected.add(id);
+     * };
+     * ```
+     */
+    public onMarqueeChange?: onMarqueeCallback<TImage>;
+
+    /**
+     * Callback when a marquee selection is released, with the items it
+     * selects. `marquee.cancelled` is `true` (and `hits` empty) when the
+     * pointer left the canvas or a pinch began. See {@link onMarqueeChange}.
+     */
+    public onMarqueeEnd?: onMarqueeCallback<TImage>;
+
     /**
      * @param canvasWrapper Canvas wrapper element containing a canvas child.
      * @param config Initial engine configuration.
@@ -357,8 +579,11 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
             this.config.get().maxScale,
             this.viewport,
         );
+        this.camera.setRotation(this.config.get().rotation);
+        this.camera.setProjection(this.config.get().projection);
+        this.camera.setZoomLevels(this.config.get().zoomLevels);
 
-        this.coordinateTransformer = new CoordinateTransformer(this.camera);
+        this.coordinateTransformer = new CoordinateTransformer(this.camera, this.viewport);
 
         // Initialize animation controller
         this.animationController = new AnimationController(
@@ -378,11 +603,132 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
             transformer: this.coordinateTransformer,
         });
 
-        // Connect camera change callback from renderer to engine
-        this.renderer.onCameraChange = () => this.handleCameraChange();
+        // Connect camera change callback from renderer to engine. The renderer
+        // reports only user input (drag, wheel, pinch, keys), which takes
+        // the camera back from a flight.
+        this.renderer.onCameraChange = () => {
+            this.animationController.cancelFly();
+            this.handleCameraChange();
+        };
+        this.renderer.onDragStart = () => this.handleDragStart();
+        this.cursor = new Cursor({
+            options: () => {
+                const options = this.config.get().eventHandlers.cursor as Required<CursorOptions> | false;
+                // The active tool's cursor stands in for the idle one
+                const toolCursor = this.tools.active?.cursor;
+                return options && toolCursor ? { ...options, idle: toolCursor } : options;
+            },
+            hitAt: (point) => this.hitTestFirst(point),
+            cursorOf: (handle) => this.hitTester.cursorOf(handle),
+            anyCursors: () => this.hitTester.hasCursors(),
+            apply: (cursor) => this.renderer.setCursor?.(cursor),
+        });
+
+        // Pointer callbacks are routed through the engine so item events can
+        // follow each one: the item's handlers see the event first, as a DOM
+        // target does before its ancestors.
+        this.itemEvents = new ItemEvents<TImage>(
+            (point) => this.hitTestFirst(point),
+            (handle) => this.hitTester.eventsOf(handle) as ItemEventHandlers<TImage> | undefined,
+            () => this.hitTester.hasEvents(),
+            this,
+        );
+        this.renderer.onClick = (coords, mouse, client, pointer) => {
+            this.itemEvents.click(coords, mouse, client, pointer);
+            this._onClick?.(coords, mouse, client, pointer);
+        };
+        this.renderer.onDoubleClick = (coords, mouse, client, pointer) =>
+            this._onDoubleClick?.(coords, mouse, client, pointer);
+        this.renderer.onLongPress = (coords, mouse, client, pointer) =>
+            this._onLongPress?.(coords, mouse, client, pointer);
+        this.renderer.onRightClick = (coords, mouse, client, pointer) => {
+            this.itemEvents.rightClick(coords, mouse, client, pointer);
+            this._onRightClick?.(coords, mouse, client, pointer);
+        };
+        this.renderer.onHover = (coords, mouse, client, pointer) => {
+            this.itemEvents.hover(coords, mouse, client, pointer);
+            this._onHover?.(coords, mouse, client, pointer);
+        };
+        this.renderer.onMouseDown = (coords, mouse, client, pointer) => {
+            this.itemEvents.down(coords, mouse, client, pointer);
+            this._onMouseDown?.(coords, mouse, client, pointer);
+        };
+        this.renderer.onMouseUp = (coords, mouse, client, pointer) => {
+            this.cursor.release(coords.raw);
+            this.itemEvents.up(coords, mouse, client, pointer);
+            this._onMouseUp?.(coords, mouse, client, pointer);
+        };
+        this.renderer.onMouseLeave = (coords, mouse, client, pointer) => {
+            this.cursor.leave();
+            this.itemEvents.leave(coords, mouse, client, pointer);
+            this._onMouseLeave?.(coords, mouse, client, pointer);
+        };
+        this.itemDrag = new ItemDrag<TImage>(
+            {
+                hitAt: (point) => this.hitTestFirst(point),
+                registrationOf: (handle) => this.hitTester.dragOf(handle),
+                anyDraggable: () => this.hitTester.hasDrag(),
+                snapToCell: (position) => this.cellCenterAt(position),
+                wrapPosition: (position) => this.wrapItemPosition(position),
+                drawGhost: (hit, item) => this.drawGhost(hit, item),
+                removeGhost: (handle) => this.renderer.getDrawAPI().removeDrawHandle(handle),
+                moveItem: (hit, delta) => {
+                    const registration = this.hitTester.dragOf(hit.handle);
+                    if (registration?.move) {
+                        registration.move(hit.item, delta);
+                    } else {
+                        Object.assign(hit.item, translatedFields(hit.item, delta));
+                    }
+                    this.hitTester.invalidate(hit.handle);
+                    registration?.redraw();
+                },
+                render: () => this.render(),
+                dragChange: (dragging) => this.cursor.drag(dragging),
+            },
+            this,
+        );
+        const marquee = new Marquee<TImage>(
+            {
+                options: () => this.config.get().eventHandlers.marquee as MarqueeOptions | false,
+                boxBetween: (from, to) => this.marqueeBoxBetween(from, to),
+                hitTestBox: (box, options) => this.hitTestMarqueeBox(box, options),
+                drawBox: (box, options) => this.drawMarqueeBox(box, options),
+                removeBox: (handle) => this.renderer.getDrawAPI().removeDrawHandle(handle),
+                render: () => this.render(),
+            },
+            this,
+        );
+        this.tools = new ToolStack<TImage>({
+            context: {
+                hitTestRect: (bounds, options) => this.hitTestRect(bounds, options),
+                cellAt: (pixel) => {
+                    const { grid, wrap } = this.config.get();
+                    const world = this.coordinateTransformer.screenToWorld(pixel.x, pixel.y);
+                    return snapToCell(wrapCoords(world, wrap), grid);
+                },
+                boxBetween: (from, to) => this.marqueeBoxBetween(from, to),
+                hitTestBox: (box, options) => this.hitTestMarqueeBox(box, options),
+                selection: this.selection,
+                drawBox: (box, style) => this.drawMarqueeBox(box, { style: { ...MARQUEE_STYLE, ...style } }),
+                removeBox: (handle) => this.renderer.getDrawAPI().removeDrawHandle(handle),
+                render: () => this.render(),
+            },
+            hitAt: (point) => this.hitTestFirst(point),
+            change: () => this.cursor.update(),
+        });
+        // The cursor follows every hover, whether or not `eventHandlers.hover` is on
+        const cursorTracking: PointerCapture = {
+            claim: () => false,
+            move: () => {},
+            release: () => {},
+            hover: (point) => this.cursor.hover(point.coords.raw),
+        };
+        // Draggable items win a press, then the active tool; the marquee gets the rest
+        this.renderer.pointerCapture = chainCaptures(this.itemDrag, this.tools, marquee, cursorTracking);
 
         // Setup event handling (includes resize/responsive watchers)
         this.renderer.setupEvents();
+        this.cursor.update();
 
         // Apply initial bounds if provided
         if (config.bounds) {
@@ -394,26 +740,108 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
 
     /** Tear down listeners and observers. */
     destroy() {
+        this.tools.set(null);
         this.animationController.cancelAll();
         this.renderer.destroy();
         this.hitTester.clear();
         this.drawIds.clear();
         this.drawIdByHandle.clear();
+        this.viewStateListeners.clear();
+        this.selection.destroy();
+        for (const minimap of [...this.minimaps]) {
+            minimap.destroy();
+        }
     }
 
     /** Render a frame using the active renderer. */
     render() {
         this.renderer.render();
+        for (const minimap of this.minimaps) {
+            minimap._notifyChange();
+        }
+    }
+
+    /**
+     * Create an overview inset: a downscaled view of selected layers with
+     * the current viewport outlined, whose clicks and drags move this
+     * engine's camera. The minimap repaints through its `subscribe`
+     * listeners after every render; see {@link Minimap} for wiring it to a
+     * surface, or use the React and React Native `<Minimap>` components.
+     * @param options `size`, and optionally the world `bounds` shown (default:
+     * the camera bounds), `layers`, `backgroundColor`, `viewportStyle`,
+     * `interactive` and `durationMs`.
+     * @returns The minimap; call `destroy()` when done with it.
+     * @throws {ConfigValidationError} If an option is invalid or there is no finite world area to show.
+     * @throws {Error} If the renderer cannot paint minimaps.
+     * @example
+     * ```ts
+     * const minimap = engine.createMinimap({ size: { width: 200, height: 150 }, layers: [0] });
+     * ```
+     */
+    createMinimap(options: MinimapOptions): Minimap {
+        const renderer = this.renderer;
+        if (!renderer.renderMinimap) {
+            throw new Error("[CanvasTileEngine] This renderer does not support minimaps");
+        }
+        const minimap: Minimap = new Minimap(
+            this,
+            (target, frame) => renderer.renderMinimap?.(target, frame),
+            options,
+            () => this.minimaps.delete(minimap),
+        );
+        this.minimaps.add(minimap);
+        return minimap;
+    }
+
+    /**
+     * Pin a DOM element to a world position: popups, rich tooltips, inputs.
+     * The renderer moves the element into a layer above the canvas and
+     * repositions it on every render, so it follows pans, zooms and
+     * rotations; it is hidden while its world point is off-screen. The
+     * layer lets pointer input through to the canvas, the element itself
+     * does not.
+     * @param element Element to place; it is moved into the overlay layer.
+     * @param options World `x`/`y` (item space: integers are cell centers),
+     * and optionally `anchor` (default `"center"`), `offsetPx` and
+     * `scaleWithZoom`.
+     * @returns Handle to move (`update`) or `remove` the overlay.
+     * @throws {ConfigValidationError} If an option is invalid.
+     * @throws {Error} If the renderer cannot host overlays.
+     * @example
+     * ```ts
+     * const popup = engine.addOverlay(popupElement, { x: 12, y: 4, anchor: "bottom", offsetPx: { x: 0, y: -8 } });
+     * popup.update({ x: 13 });
+     * popup.remove();
+     * ```
+     */
+    addOverlay(element: HTMLElement, options: OverlayOptions): OverlayHandle {
+        const renderer = this.renderer;
+        if (!renderer.addOverlay) {
+            throw new Error("[CanvasTileEngine] This renderer does not support overlays");
+        }
+        validateCoords(options?.x, options?.y);
+        validateOverlayOptions(options);
+        const overlay = renderer.addOverlay(element, options);
+        return {
+            update: (next) => {
+                validateOverlayOptions(next);
+                overlay.update(next);
+            },
+            remove: () => overlay.remove(),
+        };
     }
 
     /**
      * Manually update canvas size (e.g., user-driven select). Keeps view centered.
      * @param width New canvas width in pixels.
      * @param height New canvas height in pixels.
-     * @param durationMs Animation duration in ms (default 500). Use 0 for instant resize.
+     * @param durationMs Animation duration in ms (default 500), or an options
+     * object with `durationMs`, `easing` (default linear) and `onComplete`. Use 0 for instant resize.
      * @param onComplete Optional callback fired when resize animation completes.
+     * @throws {ConfigValidationError} If the easing is invalid.
      */
-    resize(width: number, height: number, durationMs: number = 500, onComplete?: () => void) {
+    resize(width: number, height: number, durationMs: number | AnimateOptions = 500, onComplete?: () => void) {
+        const animation = this.resolveAnimateOptions(durationMs, onComplete);
         if (this.config.get().responsive) {
             console.warn(
                 "Canvas Tile Engine: resize() is disabled when responsive mode is enabled. " +
@@ -424,7 +852,7 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
         // onResize is not fired here: the setter mirrors it into the renderer,
         // whose resizeWithAnimation completion already invokes it once before
         // this onComplete runs.
-        this.renderer.resizeWithAnimation(width, height, durationMs, onComplete);
+        this.renderer.resizeWithAnimation(width, height, animation.durationMs, animation.onComplete, animation.easing);
     }
 
     /**
@@ -451,6 +879,7 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
      */
     setScale(newScale: number) {
         validateScale(newScale);
+        this.animationController.cancelFly();
         const prevScale = this.camera.scale;
         const size = this.viewport.getSize();
         // Restore the center after the scale change: camera.setScale alone
@@ -466,47 +895,99 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
      * Smoothly animate the canvas scale to a target value over the given duration.
      * The zoom is anchored at the viewport center, matching zoomIn/zoomOut.
      * @param targetScale The desired scale value, clamped to min/max bounds.
-     * @param durationMs Animation duration in milliseconds (default: 500ms). Set to 0 for instant change.
+     * @param durationMs Animation duration in milliseconds (default: 500ms), or
+     * an options object with `durationMs`, `easing` and `onComplete`. Set to 0 for instant change.
      * @param onComplete Optional callback fired when animation completes.
-     * @throws {ConfigValidationError} If scale is not a positive finite number.
+     * @throws {ConfigValidationError} If scale is not a positive finite number or the easing is invalid.
+     * @example
+     * ```ts
+     * engine.goScale(4, { easing: "easeOutCubic" });
+     * engine.goScale(4, { easing: { type: "spring", stiffness: 300, damping: 20 } });
+     * ```
      */
-    goScale(targetScale: number, durationMs: number = 500, onComplete?: () => void) {
+    goScale(targetScale: number, durationMs: number | AnimateOptions = 500, onComplete?: () => void) {
         validateScale(targetScale);
+        const animation = this.resolveAnimateOptions(durationMs, onComplete);
         // Pre-clamp so the animation runs toward the effective value instead
         // of saturating at the limit partway through the duration.
         const clamped = Math.min(this.camera.maxScale, Math.max(this.camera.minScale, targetScale));
         this.animationController.animateZoomTo(
             clamped,
-            durationMs,
+            animation.durationMs,
             (prevScale) => this.notifyZoomIfChanged(prevScale),
-            onComplete,
+            animation.onComplete,
+            animation.easing,
         );
     }
 
     /**
-     * Zoom in by a given factor, centered on the viewport.
+     * Zoom in by a given factor, centered on the viewport. With `zoomLevels`
+     * set, lands on the level nearest the result, and at least one level up.
      * @param factor Zoom multiplier (default: 1.5). Higher values zoom in more.
      */
     zoomIn(factor: number = 1.5) {
+        this.animationController.cancelFly();
         const size = this.viewport.getSize();
         const prevScale = this.camera.scale;
-        this.camera.zoomByFactor(factor, size.width / 2, size.height / 2);
+        this.camera.stepZoom(factor, size.width / 2, size.height / 2);
         this.notifyZoomIfChanged(prevScale);
         this.handleCameraChange();
     }
 
     /**
-     * Zoom out by a given factor, centered on the viewport.
+     * Zoom out by a given factor, centered on the viewport. With `zoomLevels`
+     * set, lands on the level nearest the result, and at least one level down.
      * @param factor Zoom multiplier (default: 1.5). Higher values zoom out more.
      */
     zoomOut(factor: number = 1.5) {
+        this.animationController.cancelFly();
         const size = this.viewport.getSize();
         const prevScale = this.camera.scale;
-        this.camera.zoomByFactor(1 / factor, size.width / 2, size.height / 2);
+        this.camera.stepZoom(1 / factor, size.width / 2, size.height / 2);
         this.notifyZoomIfChanged(prevScale);
         this.handleCameraChange();
     }
 
+    /**
+     * Current view rotation.
+     * @returns Angle in degrees, positive clockwise, normalized into [0, 360).
+     */
+    getRotation(): number {
+        return this.camera.rotation;
+    }
+
+    /**
+     * Rotate the view instantly around the viewport center. The world center
+     * stays put; event coordinates, hit testing, visible bounds and culling
+     * all follow the rotated view.
+     * @param degrees Angle in degrees, positive clockwise. Any finite value is accepted and normalized into [0, 360).
+     * @throws {ConfigValidationError} If the angle is not a finite number.
+     * @example
+     * ```ts
+     * // Face "north-east" up
+     * engine.setRotation(-45);
+     * ```
+     */
+    setRotation(degrees: number) {
+        validateRotation(degrees);
+        this.animationController.cancelRotate();
+        this.camera.setRotation(degrees);
+        this.handleCameraChange();
+    }
+
+    /**
+     * Smoothly animate the view rotation to a target angle, turning the
+     * shorter way around.
+     * @param degrees Target angle in degrees, positive clockwise.
+     * @param durationMs Animation duration in milliseconds (default: 500ms). Set to 0 for instant change.
+     * @param onComplete Optional callback fired when animation completes.
+     * @throws {ConfigValidationError} If the angle is not a finite number.
+     */
+    goRotation(degrees: number, durationMs: number = 500, onComplete?: () => void) {
+        validateRotation(degrees);
+        this.animationController.animateRotateTo(degrees, durationMs, onComplete);
+    }
+
     /**
      * Update the minimum and maximum scale limits at runtime.
      * The current scale is clamped into the new range immediately.
@@ -529,6 +1010,23 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
         this.handleCameraChange();
     }
 
+    /**
+     * Replace the discrete zoom stops at runtime. The current scale stays
+     * as it is until the next wheel, pinch or `zoomIn`/`zoomOut`.
+     * @param zoomLevels Level list (e.g. `[1, 2, 4, 8]`), `"integers"`,
+     * `"powers-of-two"`, or `false` for continuous zoom.
+     * @throws {ConfigValidationError} If the levels are invalid.
+     * @example
+     * ```ts
+     * // Pixel art: only whole pixels per tile
+     * engine.setZoomLevels("integers");
+     * ```
+     */
+    setZoomLevels(zoomLevels: ZoomLevels | false) {
+        this.config.updateZoomLevels(zoomLevels);
+        this.camera.setZoomLevels(this.config.get().zoomLevels);
+    }
+
     /**
      * Replace the reduced-motion preference at runtime.
      *
@@ -583,6 +1081,7 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
         return {
             ...base,
             scale: this.camera.scale,
+            rotation: this.camera.rotation,
             size: { ...size },
         };
     }
@@ -614,6 +1113,94 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
         return this.camera.getVisibleBounds(size.width, size.height);
     }
 
+    /**
+     * Serializable snapshot of the current view: center, scale, rotation and
+     * the viewport size it was taken at. Round-trips through JSON and
+     * {@link setViewState}, e.g. for shareable links or session restore.
+     * @returns The view state, e.g. `{ center: { x: 12, y: 4 }, scale: 32, rotation: 0, size: { width: 800, height: 600 } }`.
+     */
+    getViewState(): ViewState {
+        const size = this.viewport.getSize();
+        return {
+            center: this.camera.getCenter(size.width, size.height),
+            scale: this.camera.scale,
+            rotation: this.camera.rotation,
+            size: { width: size.width, height: size.height },
+        };
+    }
+
+    /**
+     * Restore a view taken with {@link getViewState}. Instant by default;
+     * pass `durationMs` to animate. The scale is clamped to the scale limits
+     * and the center to `bounds`, like every other camera change. A missing
+     * `rotation` leaves the rotation as it is.
+     * @param state View to restore: `center` and `scale`, optionally `rotation` and `size`.
+     * @param options `durationMs` (default 0), `easing`, `onComplete`, and
+     * `match`: keep the exact `"scale"` (default) or the visible `"extent"`
+     * when this viewport's size differs from the state's.
+     * @throws {ConfigValidationError} If a field is invalid, `match` is unknown, or `"extent"` has no `size`.
+     * @example
+     * ```ts
+     * const saved = JSON.stringify(engine.getViewState());
+     * // Later, possibly on a phone: show the same area
+     * engine.setViewState(JSON.parse(saved), { match: "extent", durationMs: 400 });
+     * ```
+     */
+    setViewState(state: ViewStateInput, options: SetViewStateOptions = {}) {
+        validateViewState(state, options.match);
+        const animation = this.resolveAnimateOptions({ ...options, durationMs: options.durationMs ?? 0 });
+        const duration = this.config.effectiveDuration(animation.durationMs);
+        const size = this.viewport.getSize();
+        let scale = state.scale;
+        if (options.match === "extent" && state.size) {
+            scale *= Math.min(size.width / state.size.width, size.height / state.size.height);
+        }
+        this.unfollow();
+
+        // Rotation animates beside the center/scale transition on the same
+        // easing; under a spring the two settle on different frames, so
+        // onComplete waits for both.
+        const rotating = state.rotation !== undefined && duration > 0;
+        let pending = rotating ? 2 : 1;
+        const settle = () => {
+            pending--;
+            if (pending === 0) {
+                animation.onComplete?.();
+            }
+        };
+        if (state.rotation !== undefined) {
+            if (rotating) {
+                this.animationController.animateRotateTo(state.rotation, duration, settle, animation.easing);
+            } else {
+                this.animationController.cancelRotate();
+                this.camera.setRotation(state.rotation);
+            }
+        }
+        this.transitionTo(
+            { x: state.center.x, y: state.center.y },
+            Math.min(this.camera.maxScale, Math.max(this.camera.minScale, scale)),
+            duration,
+            animation.easing,
+            settle,
+        );
+    }
+
+    /**
+     * Listen for view changes: called with the new {@link getViewState} after
+     * every camera change (gestures, programmatic moves, every animation
+     * frame). Unlike `onCoordsChange`, any number of listeners can attach,
+     * so helpers such as `syncViewStateWithUrl` never take the app's
+     * callback slot.
+     * @param listener Receives the view state.
+     * @returns Unsubscribe function.
+     */
+    subscribeViewState(listener: (state: ViewState) => void): () => void {
+        this.viewStateListeners.add(listener);
+        return () => {
+            this.viewStateListeners.delete(listener);
+        };
+    }
+
     /**
      * Move the view center to new world coordinates instantly.
      * @param newCenter The new center coordinates.
@@ -621,6 +1208,8 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
      */
     setCenter(newCenter: Coords) {
         validateCoords(newCenter.x, newCenter.y);
+        this.unfollow();
+        this.animationController.cancelFly();
         const size = this.viewport.getSize();
         this.camera.setCenter(newCenter, size.width, size.height);
         this.handleCameraChange();
@@ -630,13 +1219,113 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
      * Smoothly animate the view center to target world coordinates over the given duration.
      * @param x Target world x.
      * @param y Target world y.
-     * @param durationMs Animation duration in milliseconds (default: 500ms). Set to 0 for instant move.
+     * @param durationMs Animation duration in milliseconds (default: 500ms), or
+     * an options object with `durationMs`, `easing` and `onComplete`. Set to 0 for instant move.
      * @param onComplete Optional callback fired when animation completes.
-     * @throws {ConfigValidationError} If coordinates are not finite numbers.
+     * @throws {ConfigValidationError} If coordinates are not finite numbers or the easing is invalid.
+     * @example
+     * ```ts
+     * engine.goCenter(10, 20, { durationMs: 800, easing: "easeOutCubic" });
+     *
+     * // A spring can be retargeted mid-flight; it keeps its momentum
+     * engine.goCenter(10, 20, { easing: { type: "spring" } });
+     * engine.goCenter(40, 20, { easing: { type: "spring" } });
+     * ```
      */
-    goCenter(x: number, y: number, durationMs: number = 500, onComplete?: () => void) {
+    goCenter(x: number, y: number, durationMs: number | AnimateOptions = 500, onComplete?: () => void) {
         validateCoords(x, y);
-        this.animationController.animateMoveTo(x, y, durationMs, onComplete);
+        const animation = this.resolveAnimateOptions(durationMs, onComplete);
+        this.unfollow();
+        this.animationController.animateMoveTo(x, y, animation.durationMs, animation.onComplete, animation.easing);
+    }
+
+    /**
+     * Fly to a center and scale along a zoom-out/zoom-in path (van Wijk &
+     * Nuij), the way map apps jump between distant places: the view pulls
+     * back while travelling and settles in on arrival, instead of the fast
+     * smear of separate `goCenter` + `goScale` animations.
+     *
+     * Any user gesture that moves the camera (drag, wheel, pinch, keys)
+     * cancels the flight where it is; so does any programmatic center or
+     * scale change (`setCenter`, `goCenter`, `setScale`, `goScale`,
+     * `zoomIn`/`zoomOut`, `fitBounds`, another `flyTo`). Reduced motion
+     * lands instantly.
+     * @param options `center` and `scale` to land on (each defaults to the
+     * current value), `durationMs` (default derived from the distance; 0 =
+     * instant) and `onComplete`.
+     * @throws {ConfigValidationError} If the center is not finite or the scale not positive.
+     * @example
+     * ```ts
+     * engine.flyTo({ center: { x: 4200, y: -1800 }, scale: 32 });
+     * ```
+     */
+    flyTo(options: FlyToOptions) {
+        const size = this.viewport.getSize();
+        const center = options.center ?? this.camera.getCenter(size.width, size.height);
+        validateCoords(center.x, center.y);
+        const targetScale = options.scale ?? this.camera.scale;
+        validateScale(targetScale);
+        this.unfollow();
+        // Pre-clamp so the flight lands on the effective scale instead of
+        // saturating at the limit before the end.
+        const clamped = Math.min(this.camera.maxScale, Math.max(this.camera.minScale, targetScale));
+        this.animationController.animateFlyTo(
+            center.x,
+            center.y,
+            clamped,
+            options.durationMs,
+            (prevScale) => this.notifyZoomIfChanged(prevScale),
+            options.onComplete,
+        );
+    }
+
+    /**
+     * Keep the camera on a moving target (a player sprite, a vehicle) every
+     * frame until {@link unfollow}. Replaces any active follow.
+     *
+     * The camera pans through the same path as a drag, so `setBounds`
+     * clamping applies, and zooming or rotating while following keeps the
+     * target in place. `setCenter`, `goCenter` and `fitBounds` end the follow,
+     * since they ask for a different view.
+     * @param getTarget Returns the world position to track, read once per
+     * frame. Return `null`/`undefined` to hold the camera still for a frame.
+     * @param options `deadzone` (screen px box the target may roam freely in),
+     * `smoothing` (0..1 per-frame catch-up, default 1 = locked), `lookaheadMs`,
+     * and `breakOnDrag` (default true) with its `onBreak` callback.
+     * @throws {ConfigValidationError} If an option is out of range.
+     * @example
+     * ```ts
+     * engine.follow(() => player.position, {
+     *     deadzone: { width: 120, height: 80 },
+     *     smoothing: 0.15,
+     *     lookaheadMs: 250,
+     * });
+     * ```
+     */
+    follow(getTarget: () => Coords | null | undefined, options: FollowOptions = {}) {
+        validateFollowOptions(getTarget, options);
+        this.unfollow();
+        this.followBreak = { breakOnDrag: options.breakOnDrag ?? true, onBreak: options.onBreak };
+        this.animationController.startFollow(getTarget, options);
+        // Headless: startFollow placed the camera once and returned.
+        if (!this.animationController.isFollowing()) {
+            this.followBreak = undefined;
+        }
+    }
+
+    /**
+     * Stop following, leaving the camera where it is. No-op when not following.
+     */
+    unfollow() {
+        this.animationController.cancelFollow();
+        this.followBreak = undefined;
+    }
+
+    /**
+     * Whether a {@link follow} is active.
+     */
+    isFollowing(): boolean {
+        return this.animationController.isFollowing();
     }
 
     /**
@@ -647,12 +1336,12 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
      * @param bounds Rectangle to fit. Every edge must be finite.
      * @param options `padding` in world units (default 0) or `paddingPx` in
      * screen pixels (wins over `padding`), `durationMs` (default 500,
-     * 0 = instant), and `onComplete`.
+     * 0 = instant), `easing` and `onComplete`.
      * @returns The scale the fit targets and whether the whole rectangle
      * actually ends up visible — `fitted: false` means `minScale` floored the
      * fit, so the view shows less than was asked for.
      * @throws {ConfigValidationError} If an edge is not finite, min >= max on
-     * an axis, or a padding value is negative.
+     * an axis, a padding value is negative, or the easing is invalid.
      * @example
      * ```ts
      * // Show a whole 32x32 board with one cell of margin. Bounds are an
@@ -673,7 +1362,16 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
      * ```
      */
     fitBounds(bounds: Bounds, options: FitBoundsOptions = {}): FitBoundsResult {
-        const { padding = 0, paddingPx, durationMs = DEFAULT_VALUES.ANIMATION_DURATION_MS, onComplete } = options;
+        const {
+            padding = 0,
+            paddingPx,
+            durationMs = DEFAULT_VALUES.ANIMATION_DURATION_MS,
+            easing,
+            onComplete,
+        } = options;
+        if (easing !== undefined) {
+            validateEasing(easing);
+        }
         // Resolved once: this same number picks the branch below AND is what
         // the animation controller receives, so reduced motion cannot make
         // the two disagree.
@@ -684,6 +1382,7 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
         // scale a caller derives from fitScale() is exactly the scale this
         // method targets before clamping.
         const rawScale = fitScale(bounds, size, { padding, paddingPx });
+        this.unfollow();
         const targetScale = Math.min(this.camera.maxScale, Math.max(this.camera.minScale, rawScale));
         // Clamping up (minScale) means the area no longer fits; clamping down
         // (maxScale) still shows all of it, just with room to spare. Both
@@ -694,8 +1393,18 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
             y: (bounds.minY + bounds.maxY) / 2,
         };
 
+        this.transitionTo(center, targetScale, duration, easing, onComplete);
+        return result;
+    }
+
+    /**
+     * Move to a center and an already-clamped scale together, instantly when
+     * `duration` (already reduced-motion resolved) is 0. Shared by fitBounds
+     * and setViewState.
+     */
+    private transitionTo(center: Coords, scale: number, duration: number, easing?: Easing, onComplete?: () => void) {
         if (duration <= 0) {
-            // An instant fit has to win. This branch writes the camera
+            // An instant change has to win. This branch writes the camera
             // directly instead of going through the AnimationController, so
             // unlike goCenter/goScale (whose animate* calls cancel first) it
             // has to cancel for itself: a move or zoom animation still in
@@ -703,28 +1412,31 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
             // values on the next frame and drags the view back off target.
             this.animationController.cancelMove();
             this.animationController.cancelZoom();
+            this.animationController.cancelFly();
+            const size = this.viewport.getSize();
             const prevScale = this.camera.scale;
-            this.camera.setScale(targetScale);
+            this.camera.setScale(scale);
             // Center after the scale change so the final center is exact
             // regardless of how the scale change shifted the view.
             this.camera.setCenter(center, size.width, size.height);
             this.notifyZoomIfChanged(prevScale);
             this.handleCameraChange();
             onComplete?.();
-            return result;
+            return;
         }
 
         // Concurrent move and zoom animations cooperate: the zoom step
         // re-reads the (moving) center every frame. onComplete rides on the
-        // zoom animation; both share the same duration.
-        this.animationController.animateMoveTo(center.x, center.y, duration);
+        // zoom animation; both share the same duration and easing (two
+        // springs with the same settings settle together closely enough).
+        this.animationController.animateMoveTo(center.x, center.y, duration, undefined, easing);
         this.animationController.animateZoomTo(
-            targetScale,
+            scale,
             duration,
             (prevScale) => this.notifyZoomIfChanged(prevScale),
             onComplete,
+            easing,
         );
-        return result;
     }
 
     /**
@@ -745,6 +1457,59 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
      */
     setEventHandlers(handlers: Partial<EventHandlers>) {
         this.config.updateEventHandlers(handlers);
+        this.cursor.update();
+    }
+
+    /**
+     * Switch the interaction tool: the active tool sees pointer, wheel and
+     * key input before the camera, and may claim presses from drag-to-pan.
+     * Replaces any tools pushed with `pushTool`; `null` goes back to the
+     * plain camera controls. See `panTool`, `paintCellsTool` and `selectTool`
+     * for the built-in ones.
+     * @param tool The tool to activate, or `null` for none.
+     * @throws {ConfigValidationError} If the tool has no string `name`.
+     * @example
+     * ```ts
+     * engine.setTool(paintCellsTool({ onPaint: (cell) => walls.add(`${cell.x},${cell.y}`) }));
+     * // Back to panning
+     * engine.setTool(panTool());
+     * ```
+     */
+    setTool(tool: Tool<TImage> | null) {
+        if (tool !== null) {
+            validateTool(tool);
+        }
+        this.tools.set(tool);
+    }
+
+    /**
+     * Activate a tool on top of the current one until `popTool`, e.g. pan
+     * while Space is held. The covered tool is deactivated meanwhile.
+     * @param tool The tool to activate.
+     * @throws {ConfigValidationError} If the tool has no string `name`.
+     * @example
+     * ```ts
+     * const pan = panTool();
+     * window.addEventListener("keydown", (e) => e.code === "Space" && !e.repeat && engine.pushTool(pan));
+     * window.addEventListener("keyup", (e) => e.code === "Space" && engine.popTool());
+     * ```
+     */
+    pushTool(tool: Tool<TImage>) {
+        validateTool(tool);
+        this.tools.push(tool);
+    }
+
+    /**
+     * Remove the tool on top, reactivating the one below it.
+     * @returns The removed tool, or `undefined` when no tool was active.
+     */
+    popTool(): Tool<TImage> | undefined {
+        return this.tools.pop();
+    }
+
+    /** The active interaction tool, or `undefined` with none set. */
+    getTool(): Tool<TImage> | undefined {
+        return this.tools.active;
     }
 
     /**
@@ -823,6 +1588,136 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
         }
     }
 
+    /**
+     * The validated `minScale`/`maxScale`/`scaleFade` of a draw call's
+     * options, or `undefined` when it has no scale limit.
+     */
+    private scaleRangeOf(options: ScaleRange | undefined): ScaleRange | undefined {
+        if (!options || (options.minScale === undefined && options.maxScale === undefined)) {
+            return undefined;
+        }
+        const range = { minScale: options.minScale, maxScale: options.maxScale, scaleFade: options.scaleFade };
+        validateScaleRange(range);
+        return range;
+    }
+
+    /** A draw call's drag settings, or `undefined` when it is not draggable. */
+    private dragRegistrationOf<T>(
+        options: DraggableDrawOptions<TImage, T> | undefined,
+        redraw: () => void,
+        custom?: Pick<DragRegistration, "anchorOf" | "move">,
+    ): DragRegistration | undefined {
+        if (!options?.draggable) {
+            return undefined;
+        }
+        const { snap, ghost = true } = options.draggable === true ? {} : options.draggable;
+        const { onItemDragStart, onItemDragMove, onItemDragEnd } = options;
+        return {
+            snap,
+            ghost,
+            redraw,
+            handlers: { onItemDragStart, onItemDragMove, onItemDragEnd } as ItemDragHandlers,
+            ...custom,
+        };
+    }
+
+    /** The `"cell"` drag snap: the center of the cell (or hex) under an item-space point. */
+    private cellCenterAt(position: Coords): Coords {
+        const { grid } = this.config.get();
+        if (grid.type === "hex") {
+            return hexCenter(hexAt(position, grid), grid);
+        }
+        return { x: Math.round(position.x), y: Math.round(position.y) };
+    }
+
+    /**
+     * An item-space position moved by whole periods into the canonical copy
+     * of a wrapped world, which is laid out in corner space.
+     */
+    private wrapItemPosition(position: Coords): Coords {
+        const { wrap } = this.config.get();
+        const offset = DEFAULT_VALUES.CELL_CENTER_OFFSET;
+        const shift = (value: number, period: number | undefined) =>
+            period ? value - Math.floor((value + offset) / period) * period : value;
+        return { x: shift(position.x, wrap.x), y: shift(position.y, wrap.y) };
+    }
+
+    /**
+     * Paint a translucent copy of a dragged item straight through the
+     * renderer: the ghost is not hit-testable and carries no decoration.
+     */
+    private drawGhost(hit: HitResult<TImage>, item: HitItem): DrawHandle {
+        const api = this.renderer.getDrawAPI();
+        const options = { opacity: DEFAULT_VALUES.DRAG_GHOST_OPACITY };
+        switch (hit.kind) {
+            case "rect":
+                return api.drawRect(item as Rect, hit.layer, options);
+            case "circle":
+                return api.drawCircle(item as Circle, hit.layer, options);
+            case "image":
+                return api.drawImage(item as ImageItem<TImage>, hit.layer, options);
+            case "line":
+                return api.drawLine(item as Line, this.hitTester.styleOf(hit.handle), hit.layer, options);
+            case "path":
+                return api.drawPath([item as PathItem], hit.layer, options);
+        }
+    }
+
+    /** Paint the marquee box over every layer: a closed path around `bounds`, shifted into item space. */
+    private drawMarqueeBox(box: MarqueeBox, options: MarqueeOptions): DrawHandle {
+        // The world quad under the dragged screen rectangle: drawn through
+        // the view transform, it lands back on that rectangle
+        const offset = DEFAULT_VALUES.CELL_CENTER_OFFSET;
+        const item: PathItem = {
+            points: box.corners.map((c) => ({ x: c.x - offset, y: c.y - offset })),
+            closed: true,
+            style: options.style,
+        };
+        return this.renderer.getDrawAPI().drawPath([item], DEFAULT_VALUES.MARQUEE_LAYER);
+    }
+
+    /** The marquee box between two canvas pixels, with the live camera and wrap. */
+    private marqueeBoxBetween(from: Coords, to: Coords): MarqueeBox {
+        return marqueeBox(from, to, (x, y) => this.coordinateTransformer.screenToWorld(x, y), this.config.get().wrap);
+    }
+
+    /** Items in a marquee box's world quad, like `hitTestRect` over a box. */
+    private hitTestMarqueeBox(box: MarqueeBox, opts?: HitTestRectOptions): HitResult<TImage>[] {
+        const offset = DEFAULT_VALUES.CELL_CENTER_OFFSET;
+        const quad = box.corners.map((c) => ({ x: c.x - offset, y: c.y - offset }));
+        return this.hitTester.hitTestQuad(quad, opts) as HitResult<TImage>[];
+    }
+
+    /**
+     * The item event handlers in a draw call's options, or `undefined` when
+     * it has none.
+     */
+    private itemHandlersOf<T>(options: ItemEventHandlers<TImage, T> | undefined): ItemEventHandlers | undefined {
+        if (!options) {
+            return undefined;
+        }
+        const { onItemClick, onItemRightClick, onItemEnter, onItemLeave, onItemDown, onItemUp } = options;
+        if (!onItemClick && !onItemRightClick && !onItemEnter && !onItemLeave && !onItemDown && !onItemUp) {
+            return undefined;
+        }
+        return { onItemClick, onItemRightClick, onItemEnter, onItemLeave, onItemDown, onItemUp } as ItemEventHandlers;
+    }
+
+    /**
+     * A draw call's `styleOf` with its `selectedStyle` overlaid on the items
+     * `selection` holds — read at paint time, so selection changes only
+     * repaint.
+     */
+    private selectedStyleOf<TItem extends { data?: unknown }, TStyle extends object>(
+        styleOf: StyleOf<TItem, TStyle> | undefined,
+        selectedStyle: TStyle | undefined,
+    ): StyleOf<TItem, TStyle> | undefined {
+        if (!selectedStyle) {
+            return styleOf;
+        }
+        return (item) => this.selection.decorate(item.data, styleOf?.(item), selectedStyle);
+    }
+
     /**
      * Draw one or many rectangles in world space.
      * Supports rotation via the `rotate` property (degrees, positive = clockwise).
@@ -834,23 +1729,38 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
      * re-registering — mutate your state and call `render()`), `visibleOf`
      * (per-item show/hide, same live-read model; a hidden item neither paints
      * nor hit-tests), and `interactiveOf` (per-item hit-test opt-out).
+     * `minScale`/`maxScale` (with an optional `scaleFade` cross-fade) limit
+     * the registration to a zoom range, as on every non-static draw method;
+     * see {@link ScaleRange}.
      */
     drawRect<TData = unknown>(
         items: Rect<TData> | Array<Rect<TData>>,
         layer: number = 1,
         options?: RectDrawOptions<TData>,
     ): DrawHandle {
+        const scaleRange = this.scaleRangeOf(options);
         this.replacePreviousDraw(options?.id);
         // TData only narrows the callback's item type for callers; renderers
         // hand back items from this same registration, so widening is safe.
-        const handle = this.renderer.getDrawAPI().drawRect(items, layer, {
-            styleOf: options?.styleOf as StyleOf<Rect, ShapeDecorationStyle> | undefined,
+        const paint = {
+            ...scaleRange,
+            styleOf: this.selectedStyleOf(
+                options?.styleOf as StyleOf<Rect, ShapeDecorationStyle> | undefined,
+                options?.selectedStyle,
+            ),
             visibleOf: options?.visibleOf as VisibleOf<Rect> | undefined,
-        });
+        };
+        const handle = this.renderer.getDrawAPI().drawRect(items, layer, paint);
         if (options?.hitTest !== false) {
             this.hitTester.register(handle, "rect", items, layer, {
                 visibleOf: options?.visibleOf as VisibleOf<HitItem> | undefined,
                 interactiveOf: options?.interactiveOf as InteractiveOf<HitItem> | undefined,
+                cursorOf: options?.cursorOf as CursorOf<HitItem> | undefined,
+                scaleRange,
+                events: this.itemHandlersOf(options),
+                drag: this.dragRegistrationOf(options, () =>
+                    this.renderer.getDrawAPI().drawRect(items, layer, { ...paint, replace: handle }),
+                ),
             });
         }
         this.trackDrawId(options?.id, handle);
@@ -964,16 +1874,28 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
         layer: number = 1,
         options?: LineDrawOptions<TData>,
     ): DrawHandle {
+        const scaleRange = this.scaleRangeOf(options);
         this.replacePreviousDraw(options?.id);
-        const handle = this.renderer.getDrawAPI().drawLine(items, style, layer, {
-            styleOf: options?.styleOf as StyleOf<Line, LineDecorationStyle> | undefined,
+        const paint = {
+            ...scaleRange,
+            styleOf: this.selectedStyleOf(
+                options?.styleOf as StyleOf<Line, LineDecorationStyle> | undefined,
+                options?.selectedStyle,
+            ),
             visibleOf: options?.visibleOf as VisibleOf<Line> | undefined,
-        });
+        };
+        const handle = this.renderer.getDrawAPI().drawLine(items, style, layer, paint);
         if (options?.hitTest !== false) {
             this.hitTester.register(handle, "line", items, layer, {
                 style,
                 visibleOf: options?.visibleOf as VisibleOf<HitItem> | undefined,
                 interactiveOf: options?.interactiveOf as InteractiveOf<HitItem> | undefined,
+                cursorOf: options?.cursorOf as CursorOf<HitItem> | undefined,
+                scaleRange,
+                events: this.itemHandlersOf(options),
+                drag: this.dragRegistrationOf(options, () =>
+                    this.renderer.getDrawAPI().drawLine(items, style, layer, { ...paint, replace: handle }),
+                ),
             });
         }
         this.trackDrawId(options?.id, handle);
@@ -996,15 +1918,27 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
         layer: number = 1,
         options?: CircleDrawOptions<TData>,
     ): DrawHandle {
+        const scaleRange = this.scaleRangeOf(options);
         this.replacePreviousDraw(options?.id);
-        const handle = this.renderer.getDrawAPI().drawCircle(items, layer, {
-            styleOf: options?.styleOf as StyleOf<Circle, ShapeDecorationStyle> | undefined,
+        const paint = {
+            ...scaleRange,
+            styleOf: this.selectedStyleOf(
+                options?.styleOf as StyleOf<Circle, ShapeDecorationStyle> | undefined,
+                options?.selectedStyle,
+            ),
             visibleOf: options?.visibleOf as VisibleOf<Circle> | undefined,
-        });
+        };
+        const handle = this.renderer.getDrawAPI().drawCircle(items, layer, paint);
         if (options?.hitTest !== false) {
             this.hitTester.register(handle, "circle", items, layer, {
                 visibleOf: options?.visibleOf as VisibleOf<HitItem> | undefined,
                 interactiveOf: options?.interactiveOf as InteractiveOf<HitItem> | undefined,
+                cursorOf: options?.cursorOf as CursorOf<HitItem> | undefined,
+                scaleRange,
+                events: this.itemHandlersOf(options),
+                drag: this.dragRegistrationOf(options, () =>
+                    this.renderer.getDrawAPI().drawCircle(items, layer, { ...paint, replace: handle }),
+                ),
             });
         }
         this.trackDrawId(options?.id, handle);
@@ -1042,9 +1976,14 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
         layer: number = 2,
         options?: TextDrawOptions<TData>,
     ): DrawHandle {
+        const scaleRange = this.scaleRangeOf(options);
         this.replacePreviousDraw(options?.id);
         const handle = this.renderer.getDrawAPI().drawText(items, layer, {
-            styleOf: options?.styleOf as StyleOf<Text, TextDecorationStyle> | undefined,
+            ...scaleRange,
+            styleOf: this.selectedStyleOf(
+                options?.styleOf as StyleOf<Text, TextDecorationStyle> | undefined,
+                options?.selectedStyle,
+            ),
             visibleOf: options?.visibleOf as VisibleOf<Text> | undefined,
         });
         this.trackDrawId(options?.id, handle);
@@ -1084,22 +2023,143 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
         layer: number = 1,
         options?: PathDrawOptions<TData>,
     ): DrawHandle {
+        return this.registerPaths(items, layer, options);
+    }
+
+    /** `drawPath`, with the drag overrides `drawHex` needs. */
+    private registerPaths<TData>(
+        items: PathItem<TData> | Array<PathItem<TData>>,
+        layer: number,
+        options: PathDrawOptions<TData> | undefined,
+        drag?: Pick<DragRegistration, "anchorOf" | "move">,
+    ): DrawHandle {
+        const scaleRange = this.scaleRangeOf(options);
         this.replacePreviousDraw(options?.id);
         const list = Array.isArray(items) ? items : [items];
-        const handle = this.renderer.getDrawAPI().drawPath(list, layer, {
-            styleOf: options?.styleOf as StyleOf<PathItem, PathDecorationStyle> | undefined,
+        const paint = {
+            ...scaleRange,
+            styleOf: this.selectedStyleOf(
+                options?.styleOf as StyleOf<PathItem, PathDecorationStyle> | undefined,
+                options?.selectedStyle,
+            ),
             visibleOf: options?.visibleOf as VisibleOf<PathItem> | undefined,
-        });
+        };
+        const handle = this.renderer.getDrawAPI().drawPath(list, layer, paint);
         if (options?.hitTest !== false) {
             this.hitTester.register(handle, "path", list, layer, {
                 visibleOf: options?.visibleOf as VisibleOf<HitItem> | undefined,
                 interactiveOf: options?.interactiveOf as InteractiveOf<HitItem> | undefined,
+                cursorOf: options?.cursorOf as CursorOf<HitItem> | undefined,
+                scaleRange,
+                events: this.itemHandlersOf(options),
+                drag: this.dragRegistrationOf(
+                    options,
+                    () => this.renderer.getDrawAPI().drawPath(list, layer, { ...paint, replace: handle }),
+                    drag,
+                ),
             });
         }
         this.trackDrawId(options?.id, handle);
         return handle;
     }
 
+    /**
+     * Fill and/or outline hex cells — the hex-grid counterpart of
+     * `drawRect`. Needs `grid: { type: "hex" }` in the config; item `x`/`y`
+     * are hex coordinates in the grid's system, the same values event
+     * `coords.snapped` reports.
+     *
+     * Hexes are drawn and hit-tested as closed paths, so styling follows
+     * `drawPath` (`cornerRadius` rounds the corners). Hit results carry the
+     * generated path as `item`; its `data` and `index` are the hex's.
+     * Draggable hexes move from hex to hex: the drag anchor is the hex
+     * center, every drop snaps to a hex center, and the dropped hex item's
+     * `x`/`y` are set to the hex it landed on.
+     *
+     * @param items Hex item(s).
+     * @param layer Layer order.
+     * @param options Optional `id`: re-registering with the same id replaces
+     * the previous registration instead of accumulating alongside it.
+     * @throws {Error} If the grid is not a hex grid.
+     * @example
+     * ```ts
+     * engine.onClick = (coords) => {
+     *     engine.drawHex({ x: coords.snapped.x, y: coords.snapped.y, style: { fillStyle: "#f59e0b" } }, 1, {
+     *         id: "selected-hex",
+     *     });
+     *     engine.render();
+     * };
+     * ```
+     */
+    drawHex<TData = unknown>(
+        items: HexItem<TData> | Array<HexItem<TData>>,
+        layer: number = 1,
+        options?: HexDrawOptions<TData>,
+    ): DrawHandle {
+        const { grid } = this.config.get();
+        if (grid.type !== "hex") {
+            throw new Error('[CanvasTileEngine] drawHex needs a hex grid: set grid: { type: "hex" } in the config');
+        }
+        const list = Array.isArray(items) ? items : [items];
+        // Callbacks are written against hex items; map each generated path back
+        const hexOf = new Map<PathItem<TData>, HexItem<TData>>();
+        const paths = list.map((hex) => {
+            const path: PathItem<TData> = {
+                points: hexCorners(hex, grid, hex.size ?? 1),
+                closed: true,
+                style: hex.style,
+                data: hex.data,
+            };
+            hexOf.set(path, hex);
+            return path;
+        });
+        const styleOf = options?.styleOf;
+        const visibleOf = options?.visibleOf;
+        const interactiveOf = options?.interactiveOf;
+        const cursorOf = options?.cursorOf;
+        // Hexes land on hexes: every drop snaps to a hex center, after the caller's own snap
+        const draggable = options?.draggable === true ? {} : options?.draggable;
+        const snap = draggable ? draggable.snap : undefined;
+        const hexDrag: Pick<DragRegistration, "anchorOf" | "move"> = {
+            anchorOf: (path) => hexCenter(hexOf.get(path as PathItem<TData>)!, grid),
+            move: (path, delta) => {
+                const hex = hexOf.get(path as PathItem<TData>)!;
+                const center = hexCenter(hex, grid);
+                const landed = hexAt({ x: center.x + delta.x, y: center.y + delta.y }, grid);
+                hex.x = landed.x;
+                hex.y = landed.y;
+                (path as PathItem<TData>).points = hexCorners(hex, grid, hex.size ?? 1);
+            },
+        };
+        return this.registerPaths(
+            paths,
+            layer,
+            {
+                id: options?.id,
+                hitTest: options?.hitTest,
+                minScale: options?.minScale,
+                maxScale: options?.maxScale,
+                scaleFade: options?.scaleFade,
+                styleOf: styleOf && ((path) => styleOf(hexOf.get(path)!)),
+                // Paths carry the hex's `data`, so selection resolves the same
+                selectedStyle: options?.selectedStyle,
+                visibleOf: visibleOf && ((path) => visibleOf(hexOf.get(path)!)),
+                interactiveOf: interactiveOf && ((path) => interactiveOf(hexOf.get(path)!)),
+                cursorOf: cursorOf && ((path) => cursorOf(hexOf.get(path)!)),
+                // Hits report the generated path (kind "path"); `data` is the hex's
+                ...this.itemHandlersOf(options),
+                draggable: draggable && {
+                    ...draggable,
+                    snap: (position) => this.cellCenterAt(typeof snap === "function" ? snap(position) : position),
+                },
+                onItemDragStart: options?.onItemDragStart,
+                onItemDragMove: options?.onItemDragMove,
+                onItemDragEnd: options?.onItemDragEnd,
+            },
+            hexDrag,
+        );
+    }
+
     /**
      * Draw one or many images scaled in world units.
      * Supports rotation via the `rotate` property (degrees, positive = clockwise).
@@ -1117,14 +2177,23 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
         layer: number = 1,
         options?: ImageDrawOptions<TImage, TData>,
     ): DrawHandle {
+        const scaleRange = this.scaleRangeOf(options);
         this.replacePreviousDraw(options?.id);
-        const handle = this.renderer.getDrawAPI().drawImage(items, layer, {
+        const paint = {
+            ...scaleRange,
             visibleOf: options?.visibleOf as VisibleOf<ImageItem<TImage>> | undefined,
-        });
+        };
+        const handle = this.renderer.getDrawAPI().drawImage(items, layer, paint);
         if (options?.hitTest !== false) {
             this.hitTester.register(handle, "image", items, layer, {
                 visibleOf: options?.visibleOf as VisibleOf<HitItem> | undefined,
                 interactiveOf: options?.interactiveOf as InteractiveOf<HitItem> | undefined,
+                cursorOf: options?.cursorOf as CursorOf<HitItem> | undefined,
+                scaleRange,
+                events: this.itemHandlersOf(options),
+                drag: this.dragRegistrationOf(options, () =>
+                    this.renderer.getDrawAPI().drawImage(items, layer, { ...paint, replace: handle }),
+                ),
             });
         }
         this.trackDrawId(options?.id, handle);
@@ -1132,7 +2201,8 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
     }
 
     /**
-     * Draw grid lines at specified cell size.
+     * Draw grid lines at specified cell size. On a hex grid every hex is
+     * outlined instead and `cellSize` is ignored.
      * @param cellSize Size of each grid cell in world units.
      * @param options Optional `id`: re-registering with the same id replaces
      * the previous registration instead of accumulating alongside it.
@@ -1148,8 +2218,11 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
         layer: number = 0,
         options?: DrawOptions,
     ): DrawHandle {
+        const scaleRange = this.scaleRangeOf(options);
         this.replacePreviousDraw(options?.id);
-        const handle = this.renderer.getDrawAPI().drawGridLines(cellSize, { lineWidth, strokeStyle }, layer);
+        const handle = this.renderer
+            .getDrawAPI()
+            .drawGridLines(cellSize, { lineWidth, strokeStyle }, layer, scaleRange);
         this.trackDrawId(options?.id, handle);
         return handle;
     }
@@ -1179,8 +2252,9 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
         layer: number = 1,
         options?: DrawOptions,
     ): DrawHandle {
+        const scaleRange = this.scaleRangeOf(options);
         this.replacePreviousDraw(options?.id);
-        const handle = this.renderer.getDrawAPI().addDrawFunction(fn, layer);
+        const handle = this.renderer.getDrawAPI().addDrawFunction(fn, layer, scaleRange);
         this.trackDrawId(options?.id, handle);
         return handle;
     }
@@ -1221,6 +2295,28 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
         }
     }
 
+    /**
+     * Show a whole layer only within a zoom range — level of detail for
+     * everything drawn on it, on top of each registration's own
+     * `minScale`/`maxScale`. Outside the range the layer is skipped in
+     * rendering and hit testing; `scaleFade` cross-fades it at the
+     * thresholds. The limit belongs to the layer, so it survives
+     * `clearLayer`/`clearAll`. Call `render()` to apply it, as after a draw call.
+     * @param layer Layer index.
+     * @param range Scale range, or `undefined` to show the layer at every scale.
+     * @throws {ConfigValidationError} If the range is invalid.
+     * @example
+     * ```ts
+     * // Building outlines and labels only once zoomed in past 24 px per cell
+     * engine.setLayerScaleRange(3, { minScale: 24, scaleFade: 8 });
+     * ```
+     */
+    setLayerScaleRange(layer: number, range: ScaleRange | undefined) {
+        const resolved = this.scaleRangeOf(range);
+        this.renderer.getDrawAPI().setLayerScaleRange(layer, resolved);
+        this.hitTester.setLayerScaleRange(layer, resolved);
+    }
+
     /**
      * Clear all draw callbacks from all layers.
      * Useful for complete scene reset.
@@ -1250,6 +2346,8 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
      * handled internally.
      *
      * Text, grid lines, and custom draw functions never enter hit testing.
+     * On a wrapped world (`config.wrap`) the point may lie in any copy of
+     * the world; items are found in their canonical copy.
      * Like rendering, results reflect item positions as of the draw call:
      * mutating an item's position requires re-registration (style mutation
      * is fine).
@@ -1346,6 +2444,23 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
 
     // ─── Internal ───────────────────────────────
 
+    /**
+     * Normalize the `durationMs | options` argument of the animated camera
+     * methods; a positional `onComplete` only applies to the number form.
+     * @throws {ConfigValidationError} If the easing is invalid.
+     */
+    private resolveAnimateOptions(durationMs: number | AnimateOptions, onComplete?: () => void) {
+        const options: AnimateOptions = typeof durationMs === "object" ? durationMs : { durationMs, onComplete };
+        if (options.easing !== undefined) {
+            validateEasing(options.easing);
+        }
+        return {
+            durationMs: options.durationMs ?? DEFAULT_VALUES.ANIMATION_DURATION_MS,
+            easing: options.easing,
+            onComplete: options.onComplete,
+        };
+    }
+
     /**
      * Fire onZoom for programmatic zoom changes (setScale/zoomIn/zoomOut),
      * matching the wheel/pinch paths which notify via the GestureProcessor.
@@ -1357,10 +2472,27 @@ export class CanvasTileEngine<TMount = HTMLDivElement, TImage = HTMLImageElement
         }
     }
 
+    /** A user drag started: show the panning cursor and end the follow when it allows breaking. */
+    private handleDragStart() {
+        this.cursor.pan();
+        const followBreak = this.followBreak;
+        if (!followBreak?.breakOnDrag) {
+            return;
+        }
+        this.unfollow();
+        followBreak.onBreak?.();
+    }
+
     private handleCameraChange() {
         if (this.onCoordsChange) {
             this.onCoordsChange(this.getCenter());
         }
+        if (this.viewStateListeners.size > 0) {
+            const state = this.getViewState();
+            for (const listener of this.viewStateListeners) {
+                listener(state);
+            }
+        }
         this.render();
     }
 }
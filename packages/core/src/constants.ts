@@ -21,6 +21,99 @@ export const DEFAULT_VALUES = {
 
     /** Zoom sensitivity factor */
     ZOOM_SENSITIVITY: 0.001,
+
+    /** Ctrl+wheel (trackpad pinch) delta multiplier outside the "zoom" wheel mode; pinch deltas are much finer than wheel notches */
+    PINCH_WHEEL_DELTA_MULTIPLIER: 10,
+
+    /** Pixels per line of a line-mode wheel delta, when the wheel pans */
+    WHEEL_LINE_HEIGHT_PX: 16,
+
+    /** Longest gap (ms) between the two clicks of a double-click */
+    DOUBLE_CLICK_INTERVAL_MS: 300,
+
+    /** Farthest (screen px) the second click of a double-click may land from the first */
+    DOUBLE_CLICK_TOLERANCE_PX: 10,
+
+    /** Zoom multiplier of a double-tap (and, inverted, a two-finger tap) */
+    DOUBLE_CLICK_ZOOM_FACTOR: 2,
+
+    /** Longest (ms) both fingers of a two-finger tap may stay down */
+    TWO_FINGER_TAP_MS: 250,
+
+    /** How long (ms) a press must be held to fire onLongPress */
+    LONG_PRESS_DELAY_MS: 500,
+
+    /** Movement (screen px) that cancels a long press */
+    LONG_PRESS_TOLERANCE_PX: 10,
+
+    /** Canvas cursor over empty space, when the engine manages the cursor */
+    CURSOR_IDLE: "default",
+
+    /** Canvas cursor while a drag pans the camera */
+    CURSOR_PANNING: "grabbing",
+
+    /** Canvas cursor while an item is dragged */
+    CURSOR_DRAGGING: "grabbing",
+
+    /** Opacity of the translucent copy previewing where a dragged item lands */
+    DRAG_GHOST_OPACITY: 0.5,
+
+    /** Layer the marquee box is drawn on, above any content layer */
+    MARQUEE_LAYER: Number.MAX_SAFE_INTEGER,
+
+    /** Wheel delta (px) to accumulate before stepping one zoom level, when zoomLevels is set */
+    ZOOM_LEVEL_WHEEL_DELTA: 50,
+
+    /** Fraction of the fling velocity lost per 60 Hz frame during kinetic panning */
+    INERTIA_FRICTION: 0.05,
+
+    /** Rubber-band resistance: initial drag-to-overscroll ratio past a limit */
+    RUBBER_BAND_RESISTANCE: 0.55,
+
+    /** Screen pixels a rubber-band drag can approach (never reach) past the bounds */
+    RUBBER_BAND_MAX_OVERSCROLL_PX: 160,
+
+    /** Factor a rubber-band pinch can approach (never reach) past minScale/maxScale */
+    RUBBER_BAND_MAX_OVERSCALE: 1.5,
+
+    /** flyTo path curvature (van Wijk & Nuij rho); larger values zoom out further */
+    FLY_CURVATURE: Math.SQRT2,
+
+    /** Default flyTo duration per unit of path length, in milliseconds */
+    FLY_DURATION_PER_UNIT_MS: 1000,
+
+    /** Default spring stiffness for `easing: { type: "spring" }` animations */
+    SPRING_STIFFNESS: 170,
+
+    /** Default spring damping; with the default stiffness the spring is critically damped */
+    SPRING_DAMPING: 26,
+
+    /** Screen pixels panned per keyboard key press */
+    KEYBOARD_PAN_STEP: 64,
+
+    /** Zoom multiplier per keyboard key press */
+    KEYBOARD_ZOOM_FACTOR: 1.5,
+
+    /** Diamond height-to-width ratio of an isometric projection (2:1 dimetric) */
+    ISOMETRIC_TILE_RATIO: 0.5,
+} as const;
+
+/** Default appearance of the marquee selection box. */
+export const MARQUEE_STYLE = {
+    fillStyle: "rgba(59, 130, 246, 0.15)",
+    strokeStyle: "rgba(59, 130, 246, 0.9)",
+    lineWidthPx: 1,
+} as const;
+
+/** Default key bindings for keyboard navigation, matched against `KeyboardEvent.key`. */
+export const KEYBOARD_BINDINGS = {
+    panUp: ["ArrowUp", "w"],
+    panDown: ["ArrowDown", "s"],
+    panLeft: ["ArrowLeft", "a"],
+    panRight: ["ArrowRight", "d"],
+    zoomIn: ["+", "="],
+    zoomOut: ["-", "_"],
+    reset: ["Home"],
 } as const;
 
 export const SCALE_LIMITS = {
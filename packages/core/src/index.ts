@@ -27,6 +27,26 @@ export {
     type OutlineItem,
 } from "./utils/itemBounds";
 export { resolveOrigin, computeOriginOffset, type Origin, type RawOrigin } from "./utils/origin";
+export { rotateAround, rotatedHalfExtents } from "./utils/viewport";
+export {
+    isIsometric,
+    projectionMatrix,
+    viewMatrix,
+    invertMatrix,
+    transformAround,
+    viewToScreenAround,
+    screenToViewAround,
+    viewHalfExtents,
+    depthSorted,
+    type ViewMatrix,
+} from "./utils/projection";
+export { hexToAxial, axialToHex, hexCenter, hexAt, hexCorners, hexNeighbors, hexDistance } from "./utils/hex";
+export { wrapCoords, wrapCopies } from "./utils/wrap";
+export { inScaleRange, scaleRangeOpacity } from "./utils/scaleRange";
+export { EASINGS } from "./utils/easing";
+export { syncViewStateWithUrl, formatViewState, parseViewState, type ViewStateUrlOptions } from "./utils/viewStateUrl";
+export { linkCameras } from "./utils/linkCameras";
+export { panTool, paintCellsTool, selectTool } from "./utils/tools";
 export { flattenPathCommands, pathCommandsBounds, type Subpath } from "./utils/flattenPath";
 export type { CornerArc } from "./utils/pathCorners";
 // Additional core modules
@@ -36,9 +56,21 @@ export { CoordinateTransformer } from "./modules/CoordinateTransformer";
 export { SpatialIndex } from "./modules/SpatialIndex";
 export type { HitResult, HitTestOptions, HitTestRectOptions, HitKind } from "./modules/HitTester";
 export { GestureProcessor } from "./modules/GestureProcessor";
-export type { NormalizedPointer, NormalizedPinch, ProcessedCoords, CanvasBounds } from "./modules/GestureProcessor";
+export type {
+    NormalizedPointer,
+    NormalizedPinch,
+    ProcessedCoords,
+    CanvasBounds,
+    PointerCapture,
+    PointerModifiers,
+} from "./modules/GestureProcessor";
+export type { WheelInput } from "./utils/wheel";
 export { AnimationController } from "./modules/AnimationController";
+export { Minimap } from "./modules/Minimap";
+export type { MinimapHost } from "./modules/Minimap";
 export { SpriteSheet } from "./modules/SpriteSheet";
 export type { SpriteSheetOptions } from "./modules/SpriteSheet";
+export { Selection } from "./modules/Selection";
+export type { SelectionChange, SelectionListener } from "./modules/Selection";
 export { SpriteAnimator } from "./modules/SpriteAnimator";
 export type { SpriteAnimation } from "./modules/SpriteAnimator";
@@ -1,7 +1,11 @@
-import { Coords, MotionPolicy } from "../types";
+import { Coords, Easing, FollowOptions, MotionPolicy, SpringEasing } from "../types";
 import { ICamera } from "./Camera";
 import { ViewportState } from "./ViewportState";
 import { DEFAULT_VALUES } from "../constants";
+import { worldToScreen } from "../utils/viewport";
+import { viewToScreenAround } from "../utils/projection";
+import { flyPath } from "../utils/flyPath";
+import { isSpring, isSpringAtRest, resolveEasing, SpringState, stepSpring } from "../utils/easing";
 
 /**
  * Whether frame scheduling is available. Headless environments (e.g. the
@@ -12,6 +16,30 @@ function canAnimate(): boolean {
     return typeof requestAnimationFrame === "function";
 }
 
+// Follow smoothing is expressed per frame at this rate, so the trailing
+// distance does not depend on the display's refresh rate.
+const FOLLOW_REFERENCE_FRAME_MS = 1000 / 60;
+
+// Spring rest thresholds. Moves and resizes settle within a tenth of a pixel;
+// zoom springs run on log(scale), where 1e-4 is a 0.01% scale difference.
+const SPRING_PRECISION_PX = 0.1;
+const SPRING_PRECISION_LOG_SCALE = 1e-4;
+const SPRING_PRECISION_DEGREES = 0.01;
+
+/**
+ * How far (px) a screen offset reaches past a centered deadzone of the given
+ * half-extent, signed; `0` while inside it.
+ */
+function pastDeadzone(offset: number, halfExtent: number): number {
+    if (offset > halfExtent) {
+        return offset - halfExtent;
+    }
+    if (offset < -halfExtent) {
+        return offset + halfExtent;
+    }
+    return 0;
+}
+
 /**
  * Manages smooth animations for camera movements, zooming, and canvas resizing.
  * Handles animation frame scheduling and cleanup.
@@ -20,6 +48,14 @@ export class AnimationController {
     private moveAnimationId?: number;
     private zoomAnimationId?: number;
     private resizeAnimationId?: number;
+    private rotateAnimationId?: number;
+    private followAnimationId?: number;
+    private flyAnimationId?: number;
+    // Spring state of the running move/zoom/resize, kept so a retarget can
+    // carry the velocity over; undefined while that animation is a curve.
+    private moveSpring?: SpringState[];
+    private zoomSpring?: SpringState[];
+    private resizeSpring?: SpringState[];
 
     constructor(
         private camera: ICamera,
@@ -40,15 +76,22 @@ export class AnimationController {
      * @param targetY Target world y coordinate.
      * @param durationMs Animation duration in milliseconds (default: 500ms). Set to 0 for instant move.
      * @param onComplete Optional callback fired when animation completes.
+     * @param easing Curve or spring (default: ease-in-out). A spring retargets
+     * a running spring move without losing its velocity.
      */
     animateMoveTo(
         targetX: number,
         targetY: number,
         durationMs: number = DEFAULT_VALUES.ANIMATION_DURATION_MS,
         onComplete?: () => void,
+        easing?: Easing,
     ) {
-        // Cancel any existing move animation
+        // Only a running spring has momentum to carry; read it before
+        // cancelling, which drops it.
+        const carried = this.moveAnimationId !== undefined ? this.moveSpring : undefined;
+        // Cancel any existing move animation, and a flight it would fight
         this.cancelMove();
+        this.cancelFly();
 
         // Reduced motion collapses the duration to 0 — including one the
         // caller passed explicitly, which is the point of the preference.
@@ -67,6 +110,30 @@ export class AnimationController {
 
         const size = this.viewport.getSize();
         const start = this.camera.getCenter(size.width, size.height);
+
+        if (isSpring(easing)) {
+            const states = [
+                { value: start.x, velocity: carried?.[0].velocity ?? 0 },
+                { value: start.y, velocity: carried?.[1].velocity ?? 0 },
+            ];
+            this.moveSpring = states;
+            this.runSpring(
+                states,
+                [targetX, targetY],
+                easing,
+                SPRING_PRECISION_PX / this.camera.scale,
+                ([x, y]) => {
+                    const size = this.viewport.getSize();
+                    this.camera.setCenter({ x, y }, size.width, size.height);
+                    this.onAnimationFrame();
+                },
+                (id) => (this.moveAnimationId = id),
+                onComplete,
+            );
+            return;
+        }
+
+        const ease = resolveEasing(easing, "easeInOut");
         const startTime = performance.now();
 
         const step = (currentTime: number) => {
@@ -74,9 +141,8 @@ export class AnimationController {
             // Flipping the preference mid-flight ends the animation on its
             // target rather than freezing it partway.
             const progress = this.motion.getReducedMotion() ? 1 : Math.min(1, elapsed / duration);
-
-            // Easing function (ease-in-out)
-            const eased = progress < 0.5 ? 2 * progress * progress : 1 - Math.pow(-2 * progress + 2, 2) / 2;
+            // The last frame lands on the target whatever a custom curve returns
+            const eased = progress < 1 ? ease(progress) : 1;
 
             const currentX = start.x + (targetX - start.x) * eased;
             const currentY = start.y + (targetY - start.y) * eased;
@@ -103,15 +169,22 @@ export class AnimationController {
      * @param durationMs Animation duration in milliseconds (default: 500ms). Set to 0 for instant change.
      * @param onZoomFrame Optional callback fired after each scale step with the scale before the step, for zoom-change notifications.
      * @param onComplete Optional callback fired when animation completes.
+     * @param easing Curve or spring (default: ease-in-out). A spring runs on
+     * log(scale) and retargets a running spring zoom without losing its velocity.
      */
     animateZoomTo(
         targetScale: number,
         durationMs: number = DEFAULT_VALUES.ANIMATION_DURATION_MS,
         onZoomFrame?: (prevScale: number) => void,
         onComplete?: () => void,
+        easing?: Easing,
     ) {
-        // Cancel any existing zoom animation
+        // Only a running spring has momentum to carry; read it before
+        // cancelling, which drops it.
+        const carried = this.zoomAnimationId !== undefined ? this.zoomSpring : undefined;
+        // Cancel any existing zoom animation, and a flight it would fight
         this.cancelZoom();
+        this.cancelFly();
 
         // Re-center after setScale because the camera anchors scale changes at
         // the top-left corner. Reading the center each frame (instead of
@@ -136,6 +209,25 @@ export class AnimationController {
         }
 
         const startScale = this.camera.scale;
+
+        if (isSpring(easing)) {
+            // Log space keeps the zoom speed perceptually uniform, like the
+            // geometric interpolation below.
+            const states = [{ value: Math.log(startScale), velocity: carried?.[0].velocity ?? 0 }];
+            this.zoomSpring = states;
+            this.runSpring(
+                states,
+                [Math.log(targetScale)],
+                easing,
+                SPRING_PRECISION_LOG_SCALE,
+                ([logScale], settled) => applyScale(settled ? targetScale : Math.exp(logScale)),
+                (id) => (this.zoomAnimationId = id),
+                onComplete,
+            );
+            return;
+        }
+
+        const ease = resolveEasing(easing, "easeInOut");
         const startTime = performance.now();
 
         const step = (currentTime: number) => {
@@ -143,9 +235,8 @@ export class AnimationController {
             // Flipping the preference mid-flight ends the animation on its
             // target rather than freezing it partway.
             const progress = this.motion.getReducedMotion() ? 1 : Math.min(1, elapsed / duration);
-
-            // Easing function (ease-in-out)
-            const eased = progress < 0.5 ? 2 * progress * progress : 1 - Math.pow(-2 * progress + 2, 2) / 2;
+            // The last frame lands on the target whatever a custom curve returns
+            const eased = progress < 1 ? ease(progress) : 1;
 
             // Geometric interpolation: zoom speed is perceptually uniform
             // (linear interpolation front-loads the zoom-in half).
@@ -162,6 +253,160 @@ export class AnimationController {
         this.zoomAnimationId = requestAnimationFrame(step);
     }
 
+    /**
+     * Fly the camera to a target center and scale along a zoom-out/zoom-in
+     * path (van Wijk & Nuij), so long jumps stay legible. Position and scale
+     * move together on one curve; a concurrent move or zoom animation is
+     * cancelled rather than left to fight it.
+     * @param targetX Target world x coordinate.
+     * @param targetY Target world y coordinate.
+     * @param targetScale Target scale. Callers should pre-clamp it to the camera's limits.
+     * @param durationMs Animation duration in ms. Omit to derive it from the path length, so
+     * longer jumps take longer. Set to 0 for an instant jump.
+     * @param onZoomFrame Optional callback fired after each step with the scale before the step.
+     * @param onComplete Optional callback fired when the flight lands.
+     */
+    animateFlyTo(
+        targetX: number,
+        targetY: number,
+        targetScale: number,
+        durationMs?: number,
+        onZoomFrame?: (prevScale: number) => void,
+        onComplete?: () => void,
+    ) {
+        this.cancelFly();
+        this.cancelMove();
+        this.cancelZoom();
+
+        const size = this.viewport.getSize();
+        const start = this.camera.getCenter(size.width, size.height);
+        const path = flyPath(
+            { center: start, width: size.width / this.camera.scale },
+            { center: { x: targetX, y: targetY }, width: size.width / targetScale },
+            DEFAULT_VALUES.FLY_CURVATURE,
+        );
+
+        const apply = (center: Coords, scale: number) => {
+            const size = this.viewport.getSize();
+            const prevScale = this.camera.scale;
+            this.camera.setScale(scale);
+            this.camera.setCenter(center, size.width, size.height);
+            onZoomFrame?.(prevScale);
+            this.onAnimationFrame();
+        };
+
+        const duration = this.motion.effectiveDuration(
+            durationMs ??
+                Math.max(DEFAULT_VALUES.ANIMATION_DURATION_MS, path.length * DEFAULT_VALUES.FLY_DURATION_PER_UNIT_MS),
+        );
+
+        // Instant jump if duration is 0/negative or frames can't be scheduled
+        if (duration <= 0 || !canAnimate()) {
+            apply({ x: targetX, y: targetY }, targetScale);
+            onComplete?.();
+            return;
+        }
+
+        const startTime = performance.now();
+
+        const step = (currentTime: number) => {
+            const elapsed = currentTime - startTime;
+            // Flipping the preference mid-flight lands on the target rather
+            // than freezing partway.
+            const progress = this.motion.getReducedMotion() ? 1 : Math.min(1, elapsed / duration);
+
+            // Easing function (ease-in-out)
+            const eased = progress < 0.5 ? 2 * progress * progress : 1 - Math.pow(-2 * progress + 2, 2) / 2;
+
+            if (progress < 1) {
+                const view = path.at(eased);
+                apply(view.center, this.viewport.getSize().width / view.width);
+                this.flyAnimationId = requestAnimationFrame(step);
+            } else {
+                // Land exactly, free of the path's floating-point drift.
+                apply({ x: targetX, y: targetY }, targetScale);
+                this.flyAnimationId = undefined;
+                onComplete?.();
+            }
+        };
+
+        this.flyAnimationId = requestAnimationFrame(step);
+    }
+
+    /**
+     * Smoothly animate the view rotation to a target angle along the shorter
+     * way around (350° to 10° turns 20°, not 340°). The camera rotates around
+     * the viewport center, so the world center stays put.
+     * @param targetDegrees Target angle in degrees, positive clockwise.
+     * @param durationMs Animation duration in milliseconds (default: 500ms). Set to 0 for instant change.
+     * @param onComplete Optional callback fired when animation completes.
+     * @param easing Curve or spring (default: ease-in-out), so a rotation can
+     * land together with a move and zoom sharing it.
+     */
+    animateRotateTo(
+        targetDegrees: number,
+        durationMs: number = DEFAULT_VALUES.ANIMATION_DURATION_MS,
+        onComplete?: () => void,
+        easing?: Easing,
+    ) {
+        // Cancel any existing rotate animation
+        this.cancelRotate();
+
+        const duration = this.motion.effectiveDuration(durationMs);
+
+        // Instant change if duration is 0/negative or frames can't be scheduled
+        if (duration <= 0 || !canAnimate()) {
+            this.camera.setRotation(targetDegrees);
+            this.onAnimationFrame();
+            onComplete?.();
+            return;
+        }
+
+        const start = this.camera.rotation ?? 0;
+        // Signed shortest delta in (-180, 180]
+        const delta = ((((targetDegrees - start) % 360) + 540) % 360) - 180;
+
+        if (isSpring(easing)) {
+            this.runSpring(
+                [{ value: start, velocity: 0 }],
+                [start + delta],
+                easing,
+                SPRING_PRECISION_DEGREES,
+                ([degrees]) => {
+                    this.camera.setRotation(degrees!);
+                    this.onAnimationFrame();
+                },
+                (id) => (this.rotateAnimationId = id),
+                onComplete,
+            );
+            return;
+        }
+
+        const ease = resolveEasing(easing, "easeInOut");
+        const startTime = performance.now();
+
+        const step = (currentTime: number) => {
+            const elapsed = currentTime - startTime;
+            // Flipping the preference mid-flight ends the animation on its
+            // target rather than freezing it partway.
+            const progress = this.motion.getReducedMotion() ? 1 : Math.min(1, elapsed / duration);
+            // The last frame lands on the target whatever a custom curve returns
+            const eased = progress < 1 ? ease(progress) : 1;
+
+            this.camera.setRotation(start + delta * eased);
+            this.onAnimationFrame();
+
+            if (progress < 1) {
+                this.rotateAnimationId = requestAnimationFrame(step);
+            } else {
+                this.rotateAnimationId = undefined;
+                onComplete?.();
+            }
+        };
+
+        this.rotateAnimationId = requestAnimationFrame(step);
+    }
+
     /**
      * Smoothly animate canvas size change while keeping view centered.
      * @param targetWidth New canvas width in pixels.
@@ -169,6 +414,7 @@ export class AnimationController {
      * @param durationMs Animation duration in milliseconds (default: 500ms). Set to 0 for instant resize.
      * @param onApplySize Callback to apply the new size (updates wrapper, canvas, renderer).
      * @param onComplete Optional callback fired when animation completes.
+     * @param easing Curve or spring (default: linear).
      */
     animateResize(
         targetWidth: number,
@@ -176,11 +422,15 @@ export class AnimationController {
         durationMs: number = DEFAULT_VALUES.ANIMATION_DURATION_MS,
         onApplySize: (width: number, height: number, center: Coords) => void,
         onComplete?: () => void,
+        easing?: Easing,
     ) {
         if (targetWidth <= 0 || targetHeight <= 0) {
             return;
         }
 
+        // Only a running spring has momentum to carry; read it before
+        // cancelling, which drops it.
+        const carried = this.resizeAnimationId !== undefined ? this.resizeSpring : undefined;
         // Cancel any existing resize animation
         this.cancelResize();
 
@@ -196,6 +446,26 @@ export class AnimationController {
             return;
         }
 
+        if (isSpring(easing)) {
+            const states = [
+                { value: prev.width, velocity: carried?.[0].velocity ?? 0 },
+                { value: prev.height, velocity: carried?.[1].velocity ?? 0 },
+            ];
+            this.resizeSpring = states;
+            this.runSpring(
+                states,
+                [targetWidth, targetHeight],
+                easing,
+                SPRING_PRECISION_PX,
+                // An overshooting spring must not collapse the canvas
+                ([w, h]) => onApplySize(Math.max(1, w), Math.max(1, h), center),
+                (id) => (this.resizeAnimationId = id),
+                onComplete,
+            );
+            return;
+        }
+
+        const ease = resolveEasing(easing, "linear");
         const startW = prev.width;
         const startH = prev.height;
         const deltaW = targetWidth - prev.width;
@@ -207,9 +477,10 @@ export class AnimationController {
             // Flipping the preference mid-flight ends the animation on its
             // target rather than freezing it partway.
             const progress = this.motion.getReducedMotion() ? 1 : Math.min(1, elapsed / duration);
+            const eased = progress < 1 ? ease(progress) : 1;
 
-            const nextW = startW + deltaW * progress;
-            const nextH = startH + deltaH * progress;
+            const nextW = startW + deltaW * eased;
+            const nextH = startH + deltaH * eased;
 
             onApplySize(nextW, nextH, center);
 
@@ -224,6 +495,136 @@ export class AnimationController {
         this.resizeAnimationId = requestAnimationFrame(step);
     }
 
+    /**
+     * Keep the camera tracking a moving target every frame until cancelled.
+     *
+     * Movement goes through `camera.pan` in screen pixels, so bounds clamping
+     * applies and a rotated view follows along its screen axes. Runs until
+     * {@link cancelFollow}; the target getter is read once per frame.
+     * @param getTarget Returns the world position to track, or
+     * `null`/`undefined` to hold the camera still for that frame.
+     * @param options Deadzone, smoothing and lookahead (see `FollowOptions`).
+     * Expected pre-validated; `breakOnDrag`/`onBreak` are the engine's concern.
+     */
+    startFollow(getTarget: () => Coords | null | undefined, options: FollowOptions = {}) {
+        this.cancelFollow();
+
+        const halfWidth = (options.deadzone?.width ?? 0) / 2;
+        const halfHeight = (options.deadzone?.height ?? 0) / 2;
+        const smoothing = options.smoothing ?? 1;
+        const lookaheadMs = options.lookaheadMs ?? 0;
+        let previous: { target: Coords; time: number } | undefined;
+
+        const step = (time: number, dt: number) => {
+            const target = getTarget();
+            if (!target) {
+                previous = undefined;
+                return;
+            }
+
+            // Lookahead extrapolates along the target's velocity since the
+            // previous frame; the first frame has none yet.
+            let aim = target;
+            if (lookaheadMs > 0 && previous && time > previous.time) {
+                const elapsed = time - previous.time;
+                aim = {
+                    x: target.x + ((target.x - previous.target.x) / elapsed) * lookaheadMs,
+                    y: target.y + ((target.y - previous.target.y) / elapsed) * lookaheadMs,
+                };
+            }
+            previous = { target: { x: target.x, y: target.y }, time };
+
+            const size = this.viewport.getSize();
+            const pivot = { x: size.width / 2, y: size.height / 2 };
+            const view = worldToScreen(aim, { x: this.camera.x, y: this.camera.y, scale: this.camera.scale });
+            const screen = viewToScreenAround(view, pivot, this.camera.rotation ?? 0, this.camera.projection);
+            const overX = pastDeadzone(screen.x - pivot.x, halfWidth);
+            const overY = pastDeadzone(screen.y - pivot.y, halfHeight);
+            if (overX === 0 && overY === 0) {
+                return;
+            }
+
+            // Reduced motion drops the easing and locks on, like the other
+            // animations land instantly.
+            const catchUp =
+                this.motion.getReducedMotion() || smoothing >= 1
+                    ? 1
+                    : 1 - Math.pow(1 - smoothing, dt / FOLLOW_REFERENCE_FRAME_MS);
+            const before = { x: this.camera.x, y: this.camera.y };
+            this.camera.pan(-overX * catchUp, -overY * catchUp);
+            if (this.camera.x !== before.x || this.camera.y !== before.y) {
+                this.onAnimationFrame();
+            }
+        };
+
+        // Headless: place the camera once, nothing can run per frame.
+        if (!canAnimate()) {
+            step(performance.now(), FOLLOW_REFERENCE_FRAME_MS);
+            return;
+        }
+
+        let lastTime = performance.now();
+        const frame = (currentTime: number) => {
+            const dt = Math.max(0, currentTime - lastTime);
+            lastTime = currentTime;
+            // Scheduled before stepping so a getter that calls cancelFollow
+            // (e.g. via engine.unfollow) cancels the next frame for real.
+            this.followAnimationId = requestAnimationFrame(frame);
+            step(currentTime, dt);
+        };
+        this.followAnimationId = requestAnimationFrame(frame);
+    }
+
+    /**
+     * Drive values toward their targets with spring physics, one frame at a
+     * time, until every value settles; the final frame lands exactly.
+     * @param states Per-value position and velocity, advanced in place.
+     * @param targets Rest positions, one per state.
+     * @param spring Stiffness and damping.
+     * @param precision Rest threshold, in the values' units.
+     * @param apply Writes one frame of values; `settled` on the final frame.
+     * @param setId Stores the pending frame id (undefined once settled).
+     * @param onComplete Optional callback fired when the spring settles.
+     */
+    private runSpring(
+        states: SpringState[],
+        targets: number[],
+        spring: SpringEasing,
+        precision: number,
+        apply: (values: number[], settled: boolean) => void,
+        setId: (id: number | undefined) => void,
+        onComplete?: () => void,
+    ) {
+        let lastTime = performance.now();
+
+        const step = (currentTime: number) => {
+            const dt = Math.max(0, currentTime - lastTime);
+            lastTime = currentTime;
+            for (let i = 0; i < states.length; i++) {
+                stepSpring(states[i]!, targets[i]!, dt, spring);
+            }
+            // Flipping the preference mid-flight lands on the target rather
+            // than letting the spring play out.
+            const settled =
+                this.motion.getReducedMotion() ||
+                states.every((state, i) => isSpringAtRest(state, targets[i]!, precision));
+
+            if (settled) {
+                apply(targets, true);
+                setId(undefined);
+                onComplete?.();
+            } else {
+                apply(
+                    states.map((state) => state.value),
+                    false,
+                );
+                setId(requestAnimationFrame(step));
+            }
+        };
+
+        setId(requestAnimationFrame(step));
+    }
+
     /**
      * Cancel the current move animation if running.
      */
@@ -232,6 +633,7 @@ export class AnimationController {
             cancelAnimationFrame(this.moveAnimationId);
             this.moveAnimationId = undefined;
         }
+        this.moveSpring = undefined;
     }
 
     /**
@@ -242,6 +644,7 @@ export class AnimationController {
             cancelAnimationFrame(this.zoomAnimationId);
             this.zoomAnimationId = undefined;
         }
+        this.zoomSpring = undefined;
     }
 
     /**
@@ -252,6 +655,44 @@ export class AnimationController {
             cancelAnimationFrame(this.resizeAnimationId);
             this.resizeAnimationId = undefined;
         }
+        this.resizeSpring = undefined;
+    }
+
+    /**
+     * Cancel the current rotate animation if running.
+     */
+    cancelRotate() {
+        if (this.rotateAnimationId !== undefined) {
+            cancelAnimationFrame(this.rotateAnimationId);
+            this.rotateAnimationId = undefined;
+        }
+    }
+
+    /**
+     * Cancel the current flight if running, leaving the camera mid-path.
+     */
+    cancelFly() {
+        if (this.flyAnimationId !== undefined) {
+            cancelAnimationFrame(this.flyAnimationId);
+            this.flyAnimationId = undefined;
+        }
+    }
+
+    /**
+     * Stop tracking the follow target, leaving the camera where it is.
+     */
+    cancelFollow() {
+        if (this.followAnimationId !== undefined) {
+            cancelAnimationFrame(this.followAnimationId);
+            this.followAnimationId = undefined;
+        }
+    }
+
+    /**
+     * Whether a follow is active.
+     */
+    isFollowing(): boolean {
+        return this.followAnimationId !== undefined;
     }
 
     /**
@@ -261,6 +702,9 @@ export class AnimationController {
         this.cancelMove();
         this.cancelZoom();
         this.cancelResize();
+        this.cancelRotate();
+        this.cancelFollow();
+        this.cancelFly();
     }
 
     /**
@@ -270,7 +714,9 @@ export class AnimationController {
         return (
             this.moveAnimationId !== undefined ||
             this.zoomAnimationId !== undefined ||
-            this.resizeAnimationId !== undefined
+            this.resizeAnimationId !== undefined ||
+            this.rotateAnimationId !== undefined ||
+            this.flyAnimationId !== undefined
         );
     }
 }
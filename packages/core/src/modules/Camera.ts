@@ -1,5 +1,8 @@
-import { Coords } from "../types";
-import { computePan, computeZoom } from "../utils/viewport";
+import { Coords, Projection, RubberBandOptions, ZoomLevels } from "../types";
+import { computePan, computeZoom, normalizeDegrees } from "../utils/viewport";
+import { invertMatrix, screenToViewAround, transformAround, viewHalfExtents, viewMatrix } from "../utils/projection";
+import { stretchOverscroll } from "../utils/rubberBand";
+import { nearestZoomLevel, nextZoomLevel } from "../utils/zoomLevels";
 import { DEFAULT_VALUES } from "../constants";
 import { ViewportState } from "./ViewportState";
 
@@ -13,6 +16,17 @@ export interface ICamera {
     readonly y: number;
     /** Current zoom scale. */
     readonly scale: number;
+    /**
+     * View rotation in degrees, positive clockwise, pivoting on the viewport
+     * center. Optional so axis-aligned camera stand-ins stay valid; a missing
+     * value means 0.
+     */
+    readonly rotation?: number;
+    /**
+     * Grid projection, applied before the rotation around the same pivot.
+     * Optional like `rotation`; a missing value means orthogonal.
+     */
+    readonly projection?: Projection;
 
     /**
      * Pan the camera by screen-space deltas.
@@ -75,11 +89,62 @@ export interface ICamera {
      */
     setScaleLimits(minScale: number, maxScale: number): void;
 
+    /**
+     * Set the view rotation around the viewport center.
+     * @param degrees Angle in degrees, positive clockwise. Normalized into [0, 360).
+     */
+    setRotation(degrees: number): void;
+
+    /**
+     * Zoom by a factor around a screen point like {@link zoomByFactor}, but
+     * land on a zoom level when levels are set, moving at least one level in
+     * the factor's direction (zoom buttons, keyboard). Optional so camera
+     * stand-ins without zoom levels stay valid.
+     * @param factor Scale multiplier (>1 zooms in, <1 zooms out).
+     * @param centerX Anchor X relative to the viewport.
+     * @param centerY Anchor Y relative to the viewport.
+     */
+    stepZoom?(factor: number, centerX: number, centerY: number): void;
+
+    /**
+     * Suspend the hard limits for a gesture that may stretch past them
+     * (rubber-band overscroll), or restore them. Optional so camera
+     * stand-ins without limits stay valid.
+     * @param options Resolved rubber-band settings, or `undefined` to clamp
+     * back into the limits at once.
+     */
+    setElastic?(options?: Required<RubberBandOptions>): void;
+
+    /**
+     * Where the hard limits would put the current view: the scale clamped
+     * around a screen anchor, then the position clamped to the bounds.
+     * Optional like {@link setElastic}.
+     * @param anchorX Zoom anchor X relative to the viewport.
+     * @param anchorY Zoom anchor Y relative to the viewport.
+     * @param snapToLevel Also snap the scale to the nearest zoom level.
+     * @returns Resting center (world) and scale.
+     */
+    getRestingView?(anchorX: number, anchorY: number, snapToLevel?: boolean): { center: Coords; scale: number };
+
+    /**
+     * Run `fn` with the camera showing another view, then put the real view
+     * back. Optional like {@link setElastic}; renderers need it to paint a
+     * minimap through the scene's own draw callbacks.
+     * @param view Top-left, scale and rotation to show.
+     * @param fn Work to run while the view is borrowed.
+     * @returns Whatever `fn` returns.
+     */
+    withView?<T>(
+        view: { x: number; y: number; scale: number; rotation: number; projection?: Projection },
+        fn: () => T,
+    ): T;
+
     /**
      * Get the visible world coordinate bounds of the viewport.
      * @param canvasWidth Canvas width in pixels.
      * @param canvasHeight Canvas height in pixels.
      * @returns Visible bounds with min/max coordinates (floored/ceiled to cell boundaries).
+     * When the view is rotated this is the axis-aligned box around the rotated viewport.
      */
     getVisibleBounds(
         canvasWidth: number,
@@ -102,6 +167,8 @@ export class Camera implements ICamera {
     private _scale: number;
     private _minScale: number;
     private _maxScale: number;
+    private _rotation = 0;
+    private _projection: Projection = { type: "orthogonal" };
     private bounds?: {
         minX: number;
         maxX: number;
@@ -109,6 +176,10 @@ export class Camera implements ICamera {
         maxY: number;
     };
     private viewport?: ViewportState;
+    private elastic?: Required<RubberBandOptions>;
+    private zoomLevels: ZoomLevels | false = false;
+    // Wheel delta gathered toward the next zoom-level step (signed px)
+    private wheelDelta = 0;
 
     constructor(initialTopLeft: Coords, scale = 1, minScale = 0.1, maxScale = 10, viewport?: ViewportState) {
         this._x = initialTopLeft.x + DEFAULT_VALUES.CELL_CENTER_OFFSET; // Center of the pixel
@@ -131,19 +202,137 @@ export class Camera implements ICamera {
         }
     }
 
+    /**
+     * Set the discrete zoom stops wheel zoom and {@link stepZoom} land on.
+     * The current scale is left as it is until the next zoom.
+     * @param levels Sorted level list, level rule, or `false` for continuous zoom.
+     */
+    setZoomLevels(levels: ZoomLevels | false) {
+        this.zoomLevels = levels;
+        this.wheelDelta = 0;
+    }
+
     private clampToBounds() {
-        if (!this.bounds || !this.viewport) {
+        // Elastic mode lets the view sit past the bounds until it is restored
+        if (this.elastic) {
             return;
         }
+        const bounded = this.boundedTopLeft(this._x, this._y, this._scale);
+        this._x = bounded.x;
+        this._y = bounded.y;
+    }
+
+    /**
+     * The top-left the bounds allow for a given top-left and scale; the input
+     * unchanged when there are no bounds.
+     */
+    private boundedTopLeft(x: number, y: number, scale: number): Coords {
+        if (!this.bounds || !this.viewport) {
+            return { x, y };
+        }
 
         const { width: viewportWidth, height: viewportHeight } = this.viewport.getSize();
 
         // Calculate viewport size in world units
-        const viewWidthWorld = viewportWidth / this._scale;
-        const viewHeightWorld = viewportHeight / this._scale;
+        const halfWidthWorld = viewportWidth / (2 * scale);
+        const halfHeightWorld = viewportHeight / (2 * scale);
+
+        // A rotated or projected viewport covers its axis-aligned enclosing
+        // box, so that box is what has to stay inside the bounds. Unrotated
+        // and orthogonal, it is the viewport.
+        const extent = viewHalfExtents(halfWidthWorld, halfHeightWorld, this._rotation, this._projection);
+        const offsetX = extent.x - halfWidthWorld;
+        const offsetY = extent.y - halfHeightWorld;
+
+        return {
+            x: this.clampAxis(x - offsetX, extent.x * 2, this.bounds.minX, this.bounds.maxX) + offsetX,
+            y: this.clampAxis(y - offsetY, extent.y * 2, this.bounds.minY, this.bounds.maxY) + offsetY,
+        };
+    }
+
+    private clampScale(scale: number): number {
+        return Math.min(this._maxScale, Math.max(this._minScale, scale));
+    }
+
+    /**
+     * How far (screen px, signed per axis) the current view sits past the
+     * bounds; zero on an axis within them.
+     */
+    private overscroll(): Coords {
+        const bounded = this.boundedTopLeft(this._x, this._y, this._scale);
+        return { x: (this._x - bounded.x) * this._scale, y: (this._y - bounded.y) * this._scale };
+    }
+
+    /**
+     * Move the top-left to `x`/`y` in elastic mode: the part of the move past
+     * the bounds is resisted, continuing from the overscroll `before` (px)
+     * the view had prior to the change.
+     */
+    private stretchTo(x: number, y: number, before: Coords) {
+        const { resistance, maxOverscrollPx } = this.elastic!;
+        const bounded = this.boundedTopLeft(x, y, this._scale);
+        const overX = stretchOverscroll(before.x, (x - bounded.x) * this._scale, maxOverscrollPx, resistance);
+        const overY = stretchOverscroll(before.y, (y - bounded.y) * this._scale, maxOverscrollPx, resistance);
+        this._x = bounded.x + overX / this._scale;
+        this._y = bounded.y + overY / this._scale;
+    }
+
+    /**
+     * Suspend the hard limits while a gesture may stretch past them. While
+     * elastic, `pan` and `zoomByFactor` are resisted past the bounds and
+     * scale limits instead of stopping at them, `setScale` writes the exact
+     * scale, and nothing clamps the position.
+     * @param options Resolved rubber-band settings, or `undefined` to restore
+     * the hard limits; the view is clamped back at once, scaling around the
+     * viewport center. Animate to {@link getRestingView} first for a
+     * spring-back.
+     */
+    setElastic(options?: Required<RubberBandOptions>) {
+        const wasElastic = this.elastic !== undefined;
+        this.elastic = options;
+        if (options || !wasElastic) {
+            return;
+        }
+        const { width, height } = this.viewport?.getSize() ?? { width: 0, height: 0 };
+        const resting = this.restingTopLeft(width / 2, height / 2);
+        this._x = resting.x;
+        this._y = resting.y;
+        this._scale = resting.scale;
+    }
+
+    /**
+     * Where the hard limits would put the current view: the scale clamped
+     * around a screen anchor, then the position clamped to the bounds.
+     * @param anchorX Zoom anchor X relative to the viewport.
+     * @param anchorY Zoom anchor Y relative to the viewport.
+     * @param snapToLevel Also snap the scale to the nearest zoom level (a
+     * pinch settling), rather than only clamping it.
+     * @returns Resting center (world) and scale.
+     */
+    getRestingView(anchorX: number, anchorY: number, snapToLevel = false): { center: Coords; scale: number } {
+        const resting = this.restingTopLeft(anchorX, anchorY, snapToLevel);
+        const { width, height } = this.viewport?.getSize() ?? { width: 0, height: 0 };
+        return {
+            center: {
+                x: resting.x + width / (2 * resting.scale) - DEFAULT_VALUES.CELL_CENTER_OFFSET,
+                y: resting.y + height / (2 * resting.scale) - DEFAULT_VALUES.CELL_CENTER_OFFSET,
+            },
+            scale: resting.scale,
+        };
+    }
 
-        this._x = this.clampAxis(this._x, viewWidthWorld, this.bounds.minX, this.bounds.maxX);
-        this._y = this.clampAxis(this._y, viewHeightWorld, this.bounds.minY, this.bounds.maxY);
+    private restingTopLeft(anchorX: number, anchorY: number, snapToLevel = false): Coords & { scale: number } {
+        const scale =
+            snapToLevel && this.zoomLevels
+                ? nearestZoomLevel(this.zoomLevels, this._scale, this._minScale, this._maxScale)
+                : this.clampScale(this._scale);
+        const anchor = this.toViewSpace(anchorX, anchorY);
+        const bounded = this.boundedTopLeft(
+            this._x + anchor.x * (1 / this._scale - 1 / scale),
+            this._y + anchor.y * (1 / this._scale - 1 / scale),
+            scale,
+        );
+        return { ...bounded, scale };
     }
 
     /**
@@ -168,6 +357,42 @@ export class Camera implements ICamera {
         return value;
     }
 
+    /**
+     * Run `fn` with the camera showing another view, then put the real view
+     * back. The borrowed view skips the scale limits and bounds: it is only
+     * ever read (by draw callbacks), never interacted with.
+     * @param view Top-left, scale and rotation to show, and optionally a
+     * projection (the camera's own when omitted).
+     * @param fn Work to run while the view is borrowed.
+     * @returns Whatever `fn` returns.
+     */
+    withView<T>(
+        view: { x: number; y: number; scale: number; rotation: number; projection?: Projection },
+        fn: () => T,
+    ): T {
+        const saved = {
+            x: this._x,
+            y: this._y,
+            scale: this._scale,
+            rotation: this._rotation,
+            projection: this._projection,
+        };
+        this._x = view.x;
+        this._y = view.y;
+        this._scale = view.scale;
+        this._rotation = view.rotation;
+        this._projection = view.projection ?? this._projection;
+        try {
+            return fn();
+        } finally {
+            this._x = saved.x;
+            this._y = saved.y;
+            this._scale = saved.scale;
+            this._rotation = saved.rotation;
+            this._projection = saved.projection;
+        }
+    }
+
     get x(): number {
         return this._x;
     }
@@ -180,6 +405,14 @@ export class Camera implements ICamera {
         return this._scale;
     }
 
+    get rotation(): number {
+        return this._rotation;
+    }
+
+    get projection(): Projection {
+        return this._projection;
+    }
+
     get minScale(): number {
         return this._minScale;
     }
@@ -193,7 +426,7 @@ export class Camera implements ICamera {
      * @param newScale The desired scale value.
      */
     setScale(newScale: number) {
-        this._scale = Math.min(this._maxScale, Math.max(this._minScale, newScale));
+        this._scale = this.elastic ? newScale : this.clampScale(newScale);
         this.clampToBounds();
     }
 
@@ -212,22 +445,53 @@ export class Camera implements ICamera {
         }
     }
 
+    /**
+     * Set the view rotation around the viewport center. The camera's x/y keep
+     * describing the unrotated view, so the world center stays put.
+     * @param degrees Angle in degrees, positive clockwise.
+     */
+    setRotation(degrees: number) {
+        this._rotation = normalizeDegrees(degrees);
+        this.clampToBounds();
+    }
+
+    /**
+     * Set the grid projection. Like the rotation it pivots on the viewport
+     * center, so x/y and the world center stay put.
+     * @param projection Orthogonal or isometric projection.
+     */
+    setProjection(projection: Projection) {
+        this._projection = projection;
+        this.clampToBounds();
+    }
+
     pan(deltaScreenX: number, deltaScreenY: number) {
-        const next = computePan({ x: this._x, y: this._y }, this._scale, deltaScreenX, deltaScreenY);
+        // Screen deltas are rotated and projected; the top-left moves in view space.
+        const delta = transformAround(
+            { x: deltaScreenX, y: deltaScreenY },
+            { x: 0, y: 0 },
+            invertMatrix(viewMatrix(this._rotation, this._projection)),
+        );
+        const next = computePan({ x: this._x, y: this._y }, this._scale, delta.x, delta.y);
+        if (this.elastic) {
+            this.stretchTo(next.x, next.y, this.overscroll());
+            return;
+        }
         this._x = next.x;
         this._y = next.y;
         this.clampToBounds();
     }
 
     zoom(mouseX: number, mouseY: number, deltaY: number, canvasRect: DOMRect) {
-        // Mouse position relative to canvas
-        const mx = mouseX - canvasRect.left;
-        const my = mouseY - canvasRect.top;
-
-        const next = computeZoom({ x: this._x, y: this._y }, this._scale, deltaY, this.minScale, this.maxScale, {
-            x: mx,
-            y: my,
-        });
+        if (this.zoomLevels) {
+            this.wheelToLevel(this.zoomLevels, mouseX - canvasRect.left, mouseY - canvasRect.top, deltaY);
+            return;
+        }
+
+        // Mouse position relative to canvas, in unrotated view space
+        const anchor = this.toViewSpace(mouseX - canvasRect.left, mouseY - canvasRect.top);
+
+        const next = computeZoom({ x: this._x, y: this._y }, this._scale, deltaY, this.minScale, this.maxScale, anchor);
         this._x = next.topLeft.x;
         this._y = next.topLeft.y;
         this._scale = next.scale;
@@ -241,18 +505,93 @@ export class Camera implements ICamera {
      * @param centerY Center Y in screen coordinates.
      */
     zoomByFactor(factor: number, centerX: number, centerY: number) {
-        const newScale = Math.min(this.maxScale, Math.max(this.minScale, this._scale * factor));
+        const newScale = this.elastic ? this.stretchScale(this._scale * factor) : this.clampScale(this._scale * factor);
+        this.zoomAround(newScale, centerX, centerY);
+    }
+
+    /**
+     * Zoom by a factor around a screen point, landing on a zoom level when
+     * levels are set: the level nearest the factor's target, or the next one
+     * in its direction when that would not move. Without levels this is
+     * {@link zoomByFactor}.
+     * @param factor Scale multiplier (>1 zooms in, <1 zooms out).
+     * @param centerX Anchor X relative to the viewport.
+     * @param centerY Anchor Y relative to the viewport.
+     */
+    stepZoom(factor: number, centerX: number, centerY: number) {
+        if (!this.zoomLevels || factor === 1) {
+            this.zoomByFactor(factor, centerX, centerY);
+            return;
+        }
+        const direction = factor > 1 ? 1 : -1;
+        let target = nearestZoomLevel(this.zoomLevels, this._scale * factor, this._minScale, this._maxScale);
+        if ((target - this._scale) * direction <= 0) {
+            target = nextZoomLevel(this.zoomLevels, this._scale, direction, this._minScale, this._maxScale);
+        }
+        this.zoomAround(target, centerX, centerY);
+    }
+
+    /**
+     * Gather wheel delta and step one zoom level once it adds up to a notch.
+     * A reversal starts over, so a trackpad's tail of small deltas cannot
+     * step back the way the user just came.
+     */
+    private wheelToLevel(levels: ZoomLevels, anchorX: number, anchorY: number, deltaY: number) {
+        const limited = Math.min(Math.max(deltaY, DEFAULT_VALUES.MIN_WHEEL_DELTA), DEFAULT_VALUES.MAX_WHEEL_DELTA);
+        if (limited * this.wheelDelta < 0) {
+            this.wheelDelta = 0;
+        }
+        this.wheelDelta += limited;
+        if (Math.abs(this.wheelDelta) < DEFAULT_VALUES.ZOOM_LEVEL_WHEEL_DELTA) {
+            return;
+        }
+        // Scrolling down (positive delta) zooms out, as in continuous mode
+        const direction = this.wheelDelta > 0 ? -1 : 1;
+        this.wheelDelta = 0;
+        this.zoomAround(
+            nextZoomLevel(levels, this._scale, direction, this._minScale, this._maxScale),
+            anchorX,
+            anchorY,
+        );
+    }
+
+    /**
+     * Change to `newScale` keeping the screen point under the anchor fixed;
+     * resisted past the bounds while elastic.
+     */
+    private zoomAround(newScale: number, centerX: number, centerY: number) {
         if (newScale === this._scale) {
             return;
         }
 
         // Adjust top-left to keep the pinch center stationary
-        this._x = this._x + centerX * (1 / this._scale - 1 / newScale);
-        this._y = this._y + centerY * (1 / this._scale - 1 / newScale);
+        const anchor = this.toViewSpace(centerX, centerY);
+        const x = this._x + anchor.x * (1 / this._scale - 1 / newScale);
+        const y = this._y + anchor.y * (1 / this._scale - 1 / newScale);
+        if (this.elastic) {
+            const before = this.overscroll();
+            this._scale = newScale;
+            this.stretchTo(x, y, before);
+            return;
+        }
+        this._x = x;
+        this._y = y;
         this._scale = newScale;
         this.clampToBounds();
     }
 
+    /**
+     * Resist a scale past the limits, in log space so zooming in and out
+     * past them feel alike.
+     */
+    private stretchScale(target: number): number {
+        const { resistance, maxOverscale } = this.elastic!;
+        const overBefore = Math.log(this._scale / this.clampScale(this._scale));
+        const limit = this.clampScale(target);
+        const over = stretchOverscroll(overBefore, Math.log(target / limit), Math.log(maxOverscale), resistance);
+        return limit * Math.exp(over);
+    }
+
     getCenter(canvasWidth: number, canvasHeight: number): Coords {
         return {
             x: this._x + canvasWidth / (2 * this._scale) - 0.5,
@@ -281,10 +620,15 @@ export class Camera implements ICamera {
         minY: number;
         maxY: number;
     } {
-        const rawMinX = this._x - DEFAULT_VALUES.CELL_CENTER_OFFSET;
-        const rawMinY = this._y - DEFAULT_VALUES.CELL_CENTER_OFFSET;
-        const rawMaxX = rawMinX + canvasWidth / this._scale;
-        const rawMaxY = rawMinY + canvasHeight / this._scale;
+        const halfWidth = canvasWidth / (2 * this._scale);
+        const halfHeight = canvasHeight / (2 * this._scale);
+        const centerX = this._x - DEFAULT_VALUES.CELL_CENTER_OFFSET + halfWidth;
+        const centerY = this._y - DEFAULT_VALUES.CELL_CENTER_OFFSET + halfHeight;
+        const extent = viewHalfExtents(halfWidth, halfHeight, this._rotation, this._projection);
+        const rawMinX = centerX - extent.x;
+        const rawMinY = centerY - extent.y;
+        const rawMaxX = centerX + extent.x;
+        const rawMaxY = centerY + extent.y;
 
         return {
             minX: Math.floor(rawMinX),
@@ -293,4 +637,22 @@ export class Camera implements ICamera {
             maxY: Math.ceil(rawMaxY),
         };
     }
+
+    /**
+     * Undo the view rotation and projection for a canvas-relative point,
+     * pivoting on the viewport center. Zoom anchors are applied in this
+     * view space.
+     */
+    private toViewSpace(screenX: number, screenY: number): Coords {
+        if (!this.viewport) {
+            return { x: screenX, y: screenY };
+        }
+        const { width, height } = this.viewport.getSize();
+        return screenToViewAround(
+            { x: screenX, y: screenY },
+            { x: width / 2, y: height / 2 },
+            this._rotation,
+            this._projection,
+        );
+    }
 }
@@ -1,13 +1,215 @@
-import { CanvasTileEngineConfig, EventHandlers, MotionPolicy, ReducedMotionSetting, ZoomMode } from "../types";
-import { SCALE_LIMITS, SIZE_LIMITS, RENDER_DEFAULTS } from "../constants";
-import { validateConfig, validateBounds, validateScaleLimits, validateReducedMotion } from "../utils/validateConfig";
+import {
+    CanvasTileEngineConfig,
+    CursorOptions,
+    DoubleClickOptions,
+    EventHandlers,
+    GridLayout,
+    InertiaOptions,
+    KeyboardAction,
+    KeyboardOptions,
+    LongPressOptions,
+    MarqueeOptions,
+    MotionPolicy,
+    Projection,
+    ReducedMotionSetting,
+    RubberBandOptions,
+    ZoomLevels,
+    ZoomMode,
+    ZoomOptions,
+} from "../types";
+import {
+    DEFAULT_VALUES,
+    KEYBOARD_BINDINGS,
+    MARQUEE_STYLE,
+    SCALE_LIMITS,
+    SIZE_LIMITS,
+    RENDER_DEFAULTS,
+} from "../constants";
+import { normalizeDegrees } from "../utils/viewport";
+import {
+    validateConfig,
+    validateBounds,
+    validateScaleLimits,
+    validateReducedMotion,
+    validateCursor,
+    validateDoubleClick,
+    validateInertia,
+    validateKeyboard,
+    validateLongPress,
+    validateMarquee,
+    validateRubberBand,
+    validateZoom,
+    validateZoomLevels,
+} from "../utils/validateConfig";
 
-/** Normalize the zoom setting so consumers only see a mode or `false` (`true` means `"pointer"`). */
-function normalizeZoom(zoom: boolean | ZoomMode | undefined): ZoomMode | false {
-    if (zoom === true) {
-        return "pointer";
+/**
+ * Normalize the zoom setting so consumers only see resolved options or
+ * `false` (`true` means the defaults, a mode means that anchor).
+ */
+function normalizeZoom(zoom: boolean | ZoomMode | ZoomOptions | undefined): Required<ZoomOptions> | false {
+    if (!zoom) {
+        return false;
+    }
+    const options = zoom === true ? {} : typeof zoom === "string" ? { anchor: zoom } : zoom;
+    return Object.freeze({ anchor: options.anchor ?? "pointer", wheel: options.wheel ?? "zoom" });
+}
+
+/**
+ * Normalize zoom stops so consumers only see a rule, a sorted duplicate-free
+ * frozen list, or `false`.
+ */
+function normalizeZoomLevels(zoomLevels: ZoomLevels | false | undefined): ZoomLevels | false {
+    if (!zoomLevels || typeof zoomLevels === "string") {
+        return zoomLevels || false;
+    }
+    return Object.freeze([...new Set(zoomLevels)].sort((a, b) => a - b));
+}
+
+/**
+ * Normalize the projection so consumers only see a frozen orthogonal
+ * projection, or an isometric one with its tile ratio filled in.
+ */
+function normalizeProjection(projection: Projection | undefined): Projection {
+    if (projection?.type !== "isometric") {
+        return Object.freeze({ type: "orthogonal" });
+    }
+    return Object.freeze({
+        type: "isometric",
+        tileRatio: projection.tileRatio ?? DEFAULT_VALUES.ISOMETRIC_TILE_RATIO,
+    });
+}
+
+/**
+ * Normalize the grid layout so consumers only see a frozen square grid, or
+ * a hex one with its orientation and coordinate system filled in.
+ */
+function normalizeGrid(grid: GridLayout | undefined): GridLayout {
+    if (grid?.type !== "hex") {
+        return Object.freeze({ type: "square" });
+    }
+    return Object.freeze({
+        type: "hex",
+        orientation: grid.orientation ?? "pointy",
+        coordinates: grid.coordinates ?? "axial",
+    });
+}
+
+/**
+ * Normalize the double-click setting so consumers only see resolved options
+ * or `false` (`true` means the defaults, without double-tap zoom).
+ */
+function normalizeDoubleClick(
+    doubleClick: boolean | DoubleClickOptions | undefined,
+): Required<DoubleClickOptions> | false {
+    if (!doubleClick) {
+        return false;
+    }
+    const options = doubleClick === true ? {} : doubleClick;
+    return Object.freeze({
+        intervalMs: options.intervalMs ?? DEFAULT_VALUES.DOUBLE_CLICK_INTERVAL_MS,
+        tolerancePx: options.tolerancePx ?? DEFAULT_VALUES.DOUBLE_CLICK_TOLERANCE_PX,
+        zoom: options.zoom ?? false,
+        zoomFactor: options.zoomFactor ?? DEFAULT_VALUES.DOUBLE_CLICK_ZOOM_FACTOR,
+    });
+}
+
+/**
+ * Normalize the long-press setting so consumers only see resolved options or
+ * `false` (`true` means the defaults).
+ */
+function normalizeLongPress(longPress: boolean | LongPressOptions | undefined): Required<LongPressOptions> | false {
+    if (!longPress) {
+        return false;
+    }
+    const options = longPress === true ? {} : longPress;
+    return Object.freeze({
+        delayMs: options.delayMs ?? DEFAULT_VALUES.LONG_PRESS_DELAY_MS,
+        tolerancePx: options.tolerancePx ?? DEFAULT_VALUES.LONG_PRESS_TOLERANCE_PX,
+    });
+}
+
+/**
+ * Normalize the cursor setting so consumers only see resolved options or
+ * `false` (`true` means the defaults).
+ */
+function normalizeCursor(cursor: boolean | CursorOptions | undefined): Required<CursorOptions> | false {
+    if (!cursor) {
+        return false;
+    }
+    const options = cursor === true ? {} : cursor;
+    return Object.freeze({
+        idle: options.idle ?? DEFAULT_VALUES.CURSOR_IDLE,
+        panning: options.panning ?? DEFAULT_VALUES.CURSOR_PANNING,
+        dragging: options.dragging ?? DEFAULT_VALUES.CURSOR_DRAGGING,
+    });
+}
+
+/**
+ * Normalize the inertia setting so consumers only see resolved options or
+ * `false` (`true` means the default friction).
+ */
+function normalizeInertia(inertia: boolean | InertiaOptions | undefined): Required<InertiaOptions> | false {
+    if (!inertia) {
+        return false;
     }
-    return zoom || false;
+    const friction = inertia === true ? undefined : inertia.friction;
+    return Object.freeze({ friction: friction ?? DEFAULT_VALUES.INERTIA_FRICTION });
+}
+
+/**
+ * Normalize the rubber-band setting so consumers only see resolved options
+ * or `false` (`true` means the defaults).
+ */
+function normalizeRubberBand(rubberBand: boolean | RubberBandOptions | undefined): Required<RubberBandOptions> | false {
+    if (!rubberBand) {
+        return false;
+    }
+    const options = rubberBand === true ? {} : rubberBand;
+    return Object.freeze({
+        resistance: options.resistance ?? DEFAULT_VALUES.RUBBER_BAND_RESISTANCE,
+        maxOverscrollPx: options.maxOverscrollPx ?? DEFAULT_VALUES.RUBBER_BAND_MAX_OVERSCROLL_PX,
+        maxOverscale: options.maxOverscale ?? DEFAULT_VALUES.RUBBER_BAND_MAX_OVERSCALE,
+    });
+}
+
+/**
+ * Normalize the keyboard setting so consumers only see resolved options or
+ * `false`: step, factor and every action's bindings filled in. `home` stays
+ * optional, meaning "the view the engine was created with".
+ */
+function normalizeKeyboard(keyboard: boolean | KeyboardOptions | undefined): KeyboardOptions | false {
+    if (!keyboard) {
+        return false;
+    }
+    const options = keyboard === true ? {} : keyboard;
+    const bindings = {} as Record<KeyboardAction, string[]>;
+    for (const action of Object.keys(KEYBOARD_BINDINGS) as KeyboardAction[]) {
+        bindings[action] = Object.freeze([...(options.bindings?.[action] ?? KEYBOARD_BINDINGS[action])]) as string[];
+    }
+    return Object.freeze({
+        panStep: options.panStep ?? DEFAULT_VALUES.KEYBOARD_PAN_STEP,
+        zoomFactor: options.zoomFactor ?? DEFAULT_VALUES.KEYBOARD_ZOOM_FACTOR,
+        ...(options.home ? { home: Object.freeze({ ...options.home }) } : {}),
+        bindings: Object.freeze(bindings),
+    });
+}
+
+/**
+ * Normalize the marquee setting so consumers only see resolved options or
+ * `false`: modifier, mode and every style field filled in. `layer` stays
+ * optional, meaning "every layer".
+ */
+function normalizeMarquee(marquee: boolean | MarqueeOptions | undefined): MarqueeOptions | false {
+    if (!marquee) {
+        return false;
+    }
+    const options = marquee === true ? {} : marquee;
+    return Object.freeze({
+        modifier: options.modifier ?? "shift",
+        mode: options.mode ?? "intersect",
+        ...(options.layer !== undefined ? { layer: options.layer } : {}),
+        style: Object.freeze({ ...MARQUEE_STYLE, ...options.style }),
+    });
 }
 
 /**
@@ -30,7 +232,13 @@ export function normalizeConfig(config: CanvasTileEngineConfig): Readonly<Requir
         scale: config.scale,
         minScale: config.minScale ?? config.scale * SCALE_LIMITS.MIN_SCALE_MULTIPLIER,
         maxScale: config.maxScale ?? config.scale * SCALE_LIMITS.MAX_SCALE_MULTIPLIER,
+        zoomLevels: normalizeZoomLevels(config.zoomLevels),
         gridAligned: config.gridAligned ?? false,
+        rotation: normalizeDegrees(config.rotation ?? 0),
+        projection: normalizeProjection(config.projection),
+        grid: normalizeGrid(config.grid),
+
+        wrap: Object.freeze({ ...config.wrap }),
 
         size: Object.freeze({
             width: config.size.width,
@@ -49,7 +257,14 @@ export function normalizeConfig(config: CanvasTileEngineConfig): Readonly<Requir
             click: config.eventHandlers?.click ?? false,
             rightClick: config.eventHandlers?.rightClick ?? false,
             hover: config.eventHandlers?.hover ?? false,
+            doubleClick: normalizeDoubleClick(config.eventHandlers?.doubleClick),
+            longPress: normalizeLongPress(config.eventHandlers?.longPress),
             drag: config.eventHandlers?.drag ?? false,
+            inertia: normalizeInertia(config.eventHandlers?.inertia),
+            rubberBand: normalizeRubberBand(config.eventHandlers?.rubberBand),
+            keyboard: normalizeKeyboard(config.eventHandlers?.keyboard),
+            cursor: normalizeCursor(config.eventHandlers?.cursor),
+            marquee: normalizeMarquee(config.eventHandlers?.marquee),
             zoom: normalizeZoom(config.eventHandlers?.zoom),
             resize: config.eventHandlers?.resize ?? false,
         }),
@@ -147,8 +362,34 @@ export class Config implements MotionPolicy {
     /**
      * Update event handlers at runtime.
      * @param handlers Partial event handlers to update.
+     * @throws {ConfigValidationError} If the zoom, double-click, long-press, inertia, rubber-band, keyboard,
+     * cursor or marquee setting is invalid.
      */
     updateEventHandlers(handlers: Partial<EventHandlers>) {
+        if (handlers.zoom !== undefined) {
+            validateZoom(handlers.zoom);
+        }
+        if (handlers.doubleClick !== undefined) {
+            validateDoubleClick(handlers.doubleClick);
+        }
+        if (handlers.longPress !== undefined) {
+            validateLongPress(handlers.longPress);
+        }
+        if (handlers.inertia !== undefined) {
+            validateInertia(handlers.inertia);
+        }
+        if (handlers.rubberBand !== undefined) {
+            validateRubberBand(handlers.rubberBand);
+        }
+        if (handlers.keyboard !== undefined) {
+            validateKeyboard(handlers.keyboard);
+        }
+        if (handlers.cursor !== undefined) {
+            validateCursor(handlers.cursor);
+        }
+        if (handlers.marquee !== undefined) {
+            validateMarquee(handlers.marquee);
+        }
         const merged = {
             ...this.config.eventHandlers,
             ...handlers,
@@ -156,6 +397,27 @@ export class Config implements MotionPolicy {
         if ("zoom" in handlers) {
             merged.zoom = normalizeZoom(handlers.zoom);
         }
+        if ("doubleClick" in handlers) {
+            merged.doubleClick = normalizeDoubleClick(handlers.doubleClick);
+        }
+        if ("longPress" in handlers) {
+            merged.longPress = normalizeLongPress(handlers.longPress);
+        }
+        if ("inertia" in handlers) {
+            merged.inertia = normalizeInertia(handlers.inertia);
+        }
+        if ("rubberBand" in handlers) {
+            merged.rubberBand = normalizeRubberBand(handlers.rubberBand);
+        }
+        if ("keyboard" in handlers) {
+            merged.keyboard = normalizeKeyboard(handlers.keyboard);
+        }
+        if ("cursor" in handlers) {
+            merged.cursor = normalizeCursor(handlers.cursor);
+        }
+        if ("marquee" in handlers) {
+            merged.marquee = normalizeMarquee(handlers.marquee);
+        }
         this.config = Object.freeze({
             ...this.config,
             eventHandlers: Object.freeze(merged),
@@ -178,13 +440,27 @@ export class Config implements MotionPolicy {
         });
     }
 
+    /**
+     * Update zoom stops at runtime.
+     * @param zoomLevels Level list, level rule, or `false` for continuous zoom.
+     * @throws {ConfigValidationError} If the levels are invalid.
+     */
+    updateZoomLevels(zoomLevels: ZoomLevels | false) {
+        validateZoomLevels(zoomLevels);
+
+        this.config = Object.freeze({
+            ...this.config,
+            zoomLevels: normalizeZoomLevels(zoomLevels),
+        });
+    }
+
     /**
      * Update map bounds at runtime.
      * @param bounds New boundary limits. Use Infinity/-Infinity to remove limits on specific axes.
      * @throws {ConfigValidationError} If bounds are invalid.
      */
     updateBounds(bounds: { minX: number; maxX: number; minY: number; maxY: number }) {
-        validateBounds(bounds);
+        validateBounds(bounds, this.config.wrap);
 
         this.config = Object.freeze({
             ...this.config,
@@ -1,27 +1,42 @@
 import type { Coords } from "../types";
 import { ICamera } from "./Camera";
 import { screenToWorld, worldToScreen } from "../utils/viewport";
+import { isIsometric, screenToViewAround, viewToScreenAround } from "../utils/projection";
+import type { ViewportState } from "./ViewportState";
 
 /**
  * Transforms coordinates between world space and screen space using the active camera.
+ *
+ * Two pixel spaces exist once the camera is rotated or projected: *screen*
+ * space is what the user sees (pointer positions, overlays), *view* space is
+ * the same viewport as square cells, before the projection and rotation are
+ * applied. Renderers draw world content in view space under a transformed
+ * context; everything facing the user goes through screen space. With no
+ * rotation and an orthogonal projection the two are identical.
  */
 export class CoordinateTransformer {
     /**
      * @param camera Camera providing origin and scaling for transformations.
+     * @param viewport Viewport whose center is the rotation and projection
+     * pivot. Without one the transformer stays axis-aligned and orthogonal.
      */
-    constructor(private camera: ICamera) {}
+    constructor(
+        private camera: ICamera,
+        private viewport?: ViewportState,
+    ) {}
 
     /**
-     * Convert a world grid coordinate to screen pixels, accounting for camera offset and scale.
+     * Convert a world grid coordinate to screen pixels, accounting for camera offset, scale, projection and rotation.
      * @param worldX Grid X in world space (tile index).
      * @param worldY Grid Y in world space (tile index).
      * @returns Screen-space coordinates in pixels. e.g., (e.g. `{ x: 100.5, y: 200.5 }`).
      */
     worldToScreen(worldX: number, worldY: number): Coords {
-        return worldToScreen(
-            { x: worldX, y: worldY },
-            { x: this.camera.x, y: this.camera.y, scale: this.camera.scale },
-        );
+        const view = this.worldToView(worldX, worldY);
+        if (!this.transformed()) {
+            return view;
+        }
+        return viewToScreenAround(view, this.pivot(), this.camera.rotation ?? 0, this.camera.projection);
     }
 
     /**
@@ -31,9 +46,48 @@ export class CoordinateTransformer {
      * @returns World-space grid coordinates. (e.g. `{ x: 10, y: 20 }`).
      */
     screenToWorld(screenX: number, screenY: number): Coords {
-        return screenToWorld(
+        if (!this.transformed()) {
+            return this.viewToWorld(screenX, screenY);
+        }
+        const view = screenToViewAround(
             { x: screenX, y: screenY },
+            this.pivot(),
+            this.camera.rotation ?? 0,
+            this.camera.projection,
+        );
+        return this.viewToWorld(view.x, view.y);
+    }
+
+    /**
+     * Convert a world grid coordinate to view pixels (offset and scale only, no projection or rotation).
+     * @param worldX Grid X in world space (tile index).
+     * @param worldY Grid Y in world space (tile index).
+     * @returns View-space coordinates in pixels.
+     */
+    worldToView(worldX: number, worldY: number): Coords {
+        return worldToScreen(
+            { x: worldX, y: worldY },
             { x: this.camera.x, y: this.camera.y, scale: this.camera.scale },
         );
     }
+
+    /**
+     * Convert view pixels back to world space grid coordinates.
+     * @param viewX X coordinate in view space (pixels).
+     * @param viewY Y coordinate in view space (pixels).
+     * @returns World-space grid coordinates.
+     */
+    viewToWorld(viewX: number, viewY: number): Coords {
+        return screenToWorld({ x: viewX, y: viewY }, { x: this.camera.x, y: this.camera.y, scale: this.camera.scale });
+    }
+
+    /** Whether screen and view space differ: a viewport pivot plus a rotation or projection. */
+    private transformed(): boolean {
+        return this.viewport !== undefined && (!!this.camera.rotation || isIsometric(this.camera.projection));
+    }
+
+    private pivot(): Coords {
+        const { width, height } = this.viewport!.getSize();
+        return { x: width / 2, y: height / 2 };
+    }
 }
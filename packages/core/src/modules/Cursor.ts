@@ -0,0 +1,104 @@
+import type { Coords, CursorOptions, DrawHandle } from "../types";
+import type { HitItem, HitResult } from "./HitTester";
+
+/** What cursor management needs from the engine. @internal */
+export interface CursorHost {
+    /** Resolved cursor options, or `false` while the engine leaves the cursor alone. */
+    options(): Required<CursorOptions> | false;
+    /** Topmost hit at a corner-space point (`coords.raw`). */
+    hitAt(point: Coords): HitResult | undefined;
+    /** `cursorOf` passed to a draw call. */
+    cursorOf(handle: DrawHandle): ((item: HitItem) => string | undefined) | undefined;
+    /** Whether any draw call has a `cursorOf`. */
+    anyCursors(): boolean;
+    /** Show a CSS cursor over the canvas; `""` hands it back to the stylesheet. */
+    apply(cursor: string): void;
+}
+
+/**
+ * Picks the canvas cursor: the hovered item's `cursorOf` result or the idle
+ * cursor, overridden by the panning and dragging cursors while those
+ * gestures run. The host is only told about changes, and nothing is
+ * hit-tested while no draw call has a `cursorOf`.
+ * @internal
+ */
+export class Cursor {
+    /** Cursor of the item under the pointer, if it has one. */
+    private hovered?: string;
+    /** Last pointer position seen (corner space), to re-test once a drag drops. */
+    private point?: Coords;
+    private panning = false;
+    private dragging = false;
+    private applied?: string;
+
+    constructor(private host: CursorHost) {}
+
+    /** The pointer moved to `point` (corner space) with no gesture running. */
+    hover(point: Coords): void {
+        this.point = point;
+        this.hovered = this.itemCursorAt(point);
+        this.update();
+    }
+
+    /** A drag started panning the camera; it ends at {@link release} or {@link leave}. */
+    pan(): void {
+        this.panning = true;
+        this.update();
+    }
+
+    /** An item drag started or ended. */
+    drag(dragging: boolean): void {
+        this.dragging = dragging;
+        if (!dragging && this.point) {
+            // The dropped item may now sit under the pointer
+            this.hovered = this.itemCursorAt(this.point);
+        }
+        this.update();
+    }
+
+    /** The pointer was released at `point` (corner space). */
+    release(point: Coords): void {
+        this.panning = false;
+        this.hover(point);
+    }
+
+    /** The pointer left the canvas. */
+    leave(): void {
+        this.point = undefined;
+        this.hovered = undefined;
+        this.panning = false;
+        this.update();
+    }
+
+    /**
+     * Apply the cursor for the current state. Also called when the options
+     * change: turning them off hands the cursor back to the stylesheet once.
+     */
+    update(): void {
+        const options = this.host.options();
+        if (!options) {
+            if (this.applied !== undefined) {
+                this.applied = undefined;
+                this.host.apply("");
+            }
+            return;
+        }
+        const cursor = this.dragging
+            ? options.dragging
+            : this.panning
+              ? options.panning
+              : (this.hovered ?? options.idle);
+        if (cursor !== this.applied) {
+            this.applied = cursor;
+            this.host.apply(cursor);
+        }
+    }
+
+    private itemCursorAt(point: Coords): string | undefined {
+        if (!this.host.options() || !this.host.anyCursors()) {
+            return undefined;
+        }
+        const hit = this.host.hitAt(point);
+        return hit && this.host.cursorOf(hit.handle)?.(hit.item);
+    }
+}
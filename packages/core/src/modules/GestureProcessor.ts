@@ -1,6 +1,12 @@
 import {
     Coords,
+    DoubleClickOptions,
+    GridLayout,
+    KeyboardAction,
+    KeyboardOptions,
     onClickCallback,
+    onDoubleClickCallback,
+    onLongPressCallback,
     onRightClickCallback,
     onHoverCallback,
     onMouseDownCallback,
@@ -8,16 +14,50 @@ import {
     onMouseUpCallback,
     onWheelCallback,
     onZoomCallback,
+    PointerInfo,
+    PointerType,
+    WheelInfo,
+    ZoomMode,
+    ZoomOptions,
 } from "../types";
-import { DEFAULT_VALUES } from "../constants";
+import { DEFAULT_VALUES, KEYBOARD_BINDINGS } from "../constants";
 import { ICamera } from "./Camera";
 import { Config } from "./Config";
 import { CoordinateTransformer } from "./CoordinateTransformer";
+import { isSpringAtRest, stepSpring } from "../utils/easing";
+import { hexAt, hexCenter } from "../utils/hex";
+import { wrapCoords } from "../utils/wrap";
+import { wheelSource, type WheelBurst, type WheelInput } from "../utils/wheel";
 
 // Below this pinch distance (px) the scale factor is degenerate: two fingers
 // nearly on the same point would divide by ~0 and snap the zoom to its limit.
 const MIN_PINCH_DISTANCE = 1;
 
+// Only pointer movement this recent (ms) counts toward the fling velocity, so
+// a drag that paused before the pointer lifted does not fling.
+const FLING_VELOCITY_WINDOW_MS = 100;
+// Fling speed (px/ms) below which kinetic panning comes to rest.
+const MIN_FLING_SPEED = 0.02;
+// Inertia friction is expressed per frame at this rate, so the glide distance
+// does not depend on the display's refresh rate.
+const FLING_REFERENCE_FRAME_MS = 1000 / 60;
+// Spring-back progress (0..1) within this of the end counts as settled.
+const SPRING_BACK_PRECISION = 1e-3;
+
+/** A timestamped pointer position (client px): a tap, or the start of a two-finger tap. */
+interface TapSample {
+    x: number;
+    y: number;
+    time: number;
+}
+
+/** A timestamped drag position (client px) used to measure release velocity. */
+interface DragSample {
+    x: number;
+    y: number;
+    time: number;
+}
+
 /**
  * Normalized pointer input - renderer-agnostic format.
  * All coordinates should be canvas-relative.
@@ -31,8 +71,41 @@ export interface NormalizedPointer {
     clientX: number;
     /** Y position relative to viewport (for callbacks) */
     clientY: number;
+    /** Modifier keys held, when the platform reports them. */
+    modifiers?: PointerModifiers;
+    /** `PointerEvent.pointerId`, when the platform reports it. */
+    pointerId?: number;
+    /**
+     * Input device. When unreported, pointers passed to the touch handlers
+     * are `"touch"` and all others `"mouse"`.
+     */
+    pointerType?: PointerType;
+    /** Normalized pressure in `[0, 1]`, when the platform reports it. */
+    pressure?: number;
+    /** Pen tilt in degrees, when the platform reports it. */
+    tiltX?: number;
+    /** Pen tilt in degrees, when the platform reports it. */
+    tiltY?: number;
+}
+
+/**
+ * Modifier keys held during a pointer event, mirroring the `MouseEvent`
+ * fields. Touch input and non-DOM renderers report none held.
+ */
+export interface PointerModifiers {
+    shiftKey: boolean;
+    altKey: boolean;
+    ctrlKey: boolean;
+    metaKey: boolean;
 }
 
+const NO_MODIFIERS: PointerModifiers = Object.freeze({
+    shiftKey: false,
+    altKey: false,
+    ctrlKey: false,
+    metaKey: false,
+});
+
 /**
  * Normalized multi-pointer input for pinch gestures.
  */
@@ -51,6 +124,12 @@ export interface ProcessedCoords {
         raw: Coords;
         snapped: Coords;
     };
+    /**
+     * The world position before wrapping (corner space). On a wrapped world
+     * it keeps counting past the seam, so the difference between two events
+     * is the distance the pointer swept.
+     */
+    world: Coords;
     mouse: {
         raw: Coords;
         snapped: Coords;
@@ -59,6 +138,91 @@ export interface ProcessedCoords {
         raw: Coords;
         snapped: Coords;
     };
+    /** The device payload passed to the pointer callbacks. */
+    info: PointerInfo;
+}
+
+/**
+ * Takes a single-pointer drag away from the camera. Offered every press
+ * (mouse or one finger) after `onMouseDown`; a claimed press never pans, and
+ * the capture receives the moves and the release instead. Item dragging
+ * claims presses on draggable items this way, and marquee selection the
+ * presses item dragging leaves.
+ *
+ * The optional hooks let a capture see the rest of the input before the
+ * camera does, as interaction tools need.
+ */
+export interface PointerCapture {
+    /** Return `true` to claim the gesture starting at `point`. */
+    claim(point: ProcessedCoords, modifiers: PointerModifiers): boolean;
+    /** The pointer moved during a claimed gesture. */
+    move(point: ProcessedCoords, modifiers: PointerModifiers): void;
+    /**
+     * The claimed gesture ended: released at `point`, or `cancelled` when the
+     * pointer left the canvas or a second finger turned it into a pinch.
+     */
+    release(point: ProcessedCoords | undefined, cancelled: boolean): void;
+    /** The pointer moved with no gesture running, whether or not `eventHandlers.hover` is on. */
+    hover?(point: ProcessedCoords): void;
+    /** The pointer left the canvas. */
+    leave?(): void;
+    /** A wheel event; return `true` to consume it before zoom and scroll panning. */
+    wheel?(point: ProcessedCoords, wheel: WheelInfo): boolean;
+    /** A key press (`KeyboardEvent.key`); return `true` to consume it before keyboard navigation. */
+    keyDown?(key: string): boolean;
+}
+
+/**
+ * One capture offering each press to `captures` in order: the first to claim
+ * it receives the gesture. Hover and leave reach every capture; wheel and
+ * key input stop at the first that consumes it.
+ * @internal
+ */
+export function chainCaptures(...captures: PointerCapture[]): PointerCapture {
+    let active: PointerCapture | undefined;
+    return {
+        claim: (point, modifiers) => {
+            active = captures.find((capture) => capture.claim(point, modifiers));
+            return active !== undefined;
+        },
+        move: (point, modifiers) => active?.move(point, modifiers),
+        release: (point, cancelled) => {
+            const capture = active;
+            active = undefined;
+            capture?.release(point, cancelled);
+        },
+        hover: (point) => {
+            for (const capture of captures) {
+                capture.hover?.(point);
+            }
+        },
+        leave: () => {
+            for (const capture of captures) {
+                capture.leave?.();
+            }
+        },
+        wheel: (point, wheel) => captures.some((capture) => capture.wheel?.(point, wheel) === true),
+        keyDown: (key) => captures.some((capture) => capture.keyDown?.(key) === true),
+    };
+}
+
+/**
+ * The cell (square or hex) under a corner-space world point: what
+ * `coords.snapped` reports.
+ * @internal
+ */
+export function snapToCell(world: Coords, grid: GridLayout): Coords {
+    if (grid.type === "hex") {
+        // Raw coords are offset by half a cell from item space, where hex centers live
+        return hexAt(
+            {
+                x: world.x - DEFAULT_VALUES.CELL_CENTER_OFFSET,
+                y: world.y - DEFAULT_VALUES.CELL_CENTER_OFFSET,
+            },
+            grid,
+        );
+    }
+    return { x: Math.floor(world.x), y: Math.floor(world.y) };
 }
 
 /**
@@ -83,6 +247,7 @@ export interface CanvasBounds {
 export class GestureProcessor {
     // Gesture state
     private isDragging = false;
+    private isCaptured = false;
     private shouldPreventClick = false;
     private lastPos = { x: 0, y: 0 };
 
@@ -91,8 +256,47 @@ export class GestureProcessor {
     private lastPinchDistance = 0;
     private lastPinchCenter = { x: 0, y: 0 };
 
+    // Wheel state: the device of the current scroll burst, and the running
+    // scale of a Safari pinch (`gesture*` events) while one is in progress
+    private wheelBurst?: WheelBurst;
+    private gestureScale?: number;
+
+    // Kinetic panning state
+    private dragSamples: DragSample[] = [];
+    private inertiaFrameId?: number;
+
+    // Settling state: whether the camera is elastic for a gesture, the last
+    // pinch anchor (canvas px; set once a pinch zoomed, which makes the settle
+    // snap to a zoom level) and the spring-back frame
+    private stretching = false;
+    private pinchAnchor?: Coords;
+    private springBackFrameId?: number;
+
+    // Keyboard reset target when `keyboard.home` is not configured
+    private initialView: { center: Coords; scale: number };
+
+    // Double-click state: the last tap that could start a double, and the
+    // two-finger tap in progress (its pinch start; cleared once it moves)
+    private lastTap?: TapSample;
+    private twoFingerTap?: TapSample & { distance: number; rest?: Coords };
+
+    // Long-press state: the pending timer, where the press started and the
+    // latest pointer, and whether it fired (its release is then no click)
+    private longPressTimer?: ReturnType<typeof setTimeout>;
+    private longPressOrigin?: NormalizedPointer;
+    private longPressPointer?: NormalizedPointer;
+    private longPressFired = false;
+
+    // Device reported for pointers that carry no `pointerType`: whichever
+    // family of handlers (pointer or touch) ran last
+    private inputType: PointerType = "mouse";
+
     // User callbacks
     public onClick?: onClickCallback;
+    /** Fired on the second click of a double-click (or tap of a double-tap), after its `onClick`. */
+    public onDoubleClick?: onDoubleClickCallback;
+    /** Fired when a press is held still for `eventHandlers.longPress.delayMs`. */
+    public onLongPress?: onLongPressCallback;
     public onRightClick?: onRightClickCallback;
     public onHover?: onHoverCallback;
     public onMouseDown?: onMouseDownCallback;
@@ -100,6 +304,10 @@ export class GestureProcessor {
     public onMouseLeave?: onMouseLeaveCallback;
     public onZoom?: onZoomCallback;
     public onWheel?: onWheelCallback;
+    /** Fired once per gesture when a drag first moves the camera. */
+    public onDragStart?: () => void;
+    /** Claims presses before the camera sees them; see {@link PointerCapture}. */
+    public pointerCapture?: PointerCapture;
 
     constructor(
         private camera: ICamera,
@@ -107,21 +315,41 @@ export class GestureProcessor {
         private transformer: CoordinateTransformer,
         private canvasBoundsGetter: () => CanvasBounds,
         private onCameraChange: () => void,
-    ) {}
+    ) {
+        // Constructed during engine init, before any user input: the camera
+        // still shows the configured initial view.
+        const { width, height } = this.config.get().size;
+        this.initialView = { center: this.camera.getCenter(width, height), scale: this.camera.scale };
+    }
 
     /**
      * Process pointer coordinates into world/screen coords for callbacks.
+     * On a hex grid `snapped` is the hex under the pointer and the snapped
+     * screen positions are that hex's center. On a wrapped world the world
+     * coords are reported in the canonical copy, while the screen positions
+     * stay where the pointer is.
      */
     private processCoords(pointer: NormalizedPointer): ProcessedCoords {
         const world = this.transformer.screenToWorld(pointer.x, pointer.y);
-        const screen = this.transformer.worldToScreen(Math.floor(world.x), Math.floor(world.y));
+        const { grid, wrap } = this.config.get();
+        const cell = snapToCell(world, grid);
+        let screen: Coords;
+        if (grid.type === "hex") {
+            const center = hexCenter(cell, grid);
+            screen = this.transformer.worldToScreen(center.x, center.y);
+        } else {
+            screen = this.transformer.worldToScreen(cell.x, cell.y);
+        }
+        const canonical = wrapCoords(world, wrap);
         const bounds = this.canvasBoundsGetter();
+        const modifiers = pointer.modifiers ?? NO_MODIFIERS;
 
         return {
             coords: {
-                raw: world,
-                snapped: { x: Math.floor(world.x), y: Math.floor(world.y) },
+                raw: canonical,
+                snapped: snapToCell(canonical, grid),
             },
+            world,
             mouse: {
                 raw: { x: pointer.x, y: pointer.y },
                 snapped: { x: screen.x, y: screen.y },
@@ -133,6 +361,17 @@ export class GestureProcessor {
                     y: screen.y + bounds.top,
                 },
             },
+            info: {
+                pointerId: pointer.pointerId ?? 0,
+                pointerType: pointer.pointerType ?? this.inputType,
+                pressure: pointer.pressure ?? 0.5,
+                tiltX: pointer.tiltX ?? 0,
+                tiltY: pointer.tiltY ?? 0,
+                shiftKey: modifiers.shiftKey,
+                altKey: modifiers.altKey,
+                ctrlKey: modifiers.ctrlKey,
+                metaKey: modifiers.metaKey,
+            },
         };
     }
 
@@ -141,7 +380,7 @@ export class GestureProcessor {
      * processed after the zoom is applied, so they reflect the new camera
      * state (matching onZoom, which reports the new scale).
      */
-    private notifyWheel(pointer: NormalizedPointer, deltaY: number, source: "wheel" | "pinch"): void {
+    private notifyWheel(pointer: NormalizedPointer, deltaY: number, source: WheelInfo["source"]): void {
         if (!this.onWheel || deltaY === 0) {
             return;
         }
@@ -172,6 +411,258 @@ export class GestureProcessor {
         };
     }
 
+    // ─── Kinetic Panning ───────────────────────────────
+
+    /**
+     * Start tracking drag positions from a fresh anchor.
+     */
+    private beginDragSamples(clientX: number, clientY: number): void {
+        this.dragSamples = [{ x: clientX, y: clientY, time: performance.now() }];
+    }
+
+    /**
+     * Record a drag position, keeping only the samples inside the velocity window.
+     */
+    private recordDragSample(clientX: number, clientY: number): void {
+        const time = performance.now();
+        this.dragSamples.push({ x: clientX, y: clientY, time });
+        while (this.dragSamples.length > 2 && time - this.dragSamples[0].time > FLING_VELOCITY_WINDOW_MS) {
+            this.dragSamples.shift();
+        }
+    }
+
+    /**
+     * The drag has ended: fling the camera at the release velocity when
+     * inertia is enabled. Velocity is measured up to the release moment, so a
+     * pointer that came to rest before lifting does not fling.
+     */
+    private releaseDrag(): void {
+        const samples = this.dragSamples;
+        this.dragSamples = [];
+
+        // A view stretched past its limits (or pinched off a zoom level)
+        // springs back instead of flinging
+        if (this.settleView()) {
+            return;
+        }
+
+        const inertia = this.config.get().eventHandlers.inertia;
+        // Headless environments have no frame scheduling; there is nothing to glide.
+        if (!inertia || this.config.getReducedMotion() || typeof requestAnimationFrame !== "function") {
+            return;
+        }
+
+        const now = performance.now();
+        const recent = samples.filter((sample) => now - sample.time <= FLING_VELOCITY_WINDOW_MS);
+        if (recent.length < 2) {
+            return;
+        }
+        const first = recent[0];
+        const last = recent[recent.length - 1];
+        const elapsed = now - first.time;
+        if (elapsed <= 0) {
+            return;
+        }
+        const velocityX = (last.x - first.x) / elapsed;
+        const velocityY = (last.y - first.y) / elapsed;
+        if (Math.hypot(velocityX, velocityY) < MIN_FLING_SPEED) {
+            return;
+        }
+        // Config normalizes `true` into resolved options; the fallback keeps the type honest.
+        const friction = inertia === true ? undefined : inertia.friction;
+        this.startInertia(velocityX, velocityY, friction ?? DEFAULT_VALUES.INERTIA_FRICTION);
+    }
+
+    /**
+     * Pan by the decaying fling velocity every frame until it comes to rest.
+     *
+     * Camera bounds are honored by `camera.pan` itself; a frame where the
+     * camera could not move at all means the fling hit an edge, so it ends
+     * there instead of spinning against it. Any other camera writer (a
+     * programmatic move, a wheel zoom, a resize) takes precedence: if the
+     * camera is not where the previous frame left it, the fling yields.
+     */
+    private startInertia(velocityX: number, velocityY: number, friction: number): void {
+        this.stopInertia();
+
+        let vx = velocityX;
+        let vy = velocityY;
+        let lastTime = performance.now();
+        let expected = { x: this.camera.x, y: this.camera.y };
+
+        const step = (time: number) => {
+            if (this.config.getReducedMotion() || this.camera.x !== expected.x || this.camera.y !== expected.y) {
+                this.inertiaFrameId = undefined;
+                return;
+            }
+
+            const dt = Math.max(0, time - lastTime);
+            lastTime = time;
+            const decay = Math.pow(1 - friction, dt / FLING_REFERENCE_FRAME_MS);
+            vx *= decay;
+            vy *= decay;
+
+            const before = { x: this.camera.x, y: this.camera.y };
+            this.camera.pan(vx * dt, vy * dt);
+            expected = { x: this.camera.x, y: this.camera.y };
+            const moved = expected.x !== before.x || expected.y !== before.y;
+            if (moved) {
+                this.onCameraChange();
+            }
+
+            if (Math.hypot(vx, vy) < MIN_FLING_SPEED || (!moved && dt > 0)) {
+                this.inertiaFrameId = undefined;
+                return;
+            }
+            this.inertiaFrameId = requestAnimationFrame(step);
+        };
+
+        this.inertiaFrameId = requestAnimationFrame(step);
+    }
+
+    /**
+     * Stop an in-flight fling or rubber-band spring-back, leaving the camera
+     * where it is. Called on every new pointer down, which catches a
+     * springing view where it is; renderers also call it on destroy.
+     */
+    stopInertia(): void {
+        if (this.inertiaFrameId !== undefined) {
+            cancelAnimationFrame(this.inertiaFrameId);
+            this.inertiaFrameId = undefined;
+        }
+        if (this.springBackFrameId !== undefined) {
+            cancelAnimationFrame(this.springBackFrameId);
+            this.springBackFrameId = undefined;
+        }
+    }
+
+    /**
+     * Stop everything still scheduled: a fling, a spring-back and a pending
+     * long press. Renderers call it on destroy.
+     */
+    destroy(): void {
+        this.stopInertia();
+        this.cancelLongPress();
+    }
+
+    // ─── Rubber Band & Zoom-Level Settling ───────────────────────────────
+
+    /**
+     * A drag or pinch is starting: let the camera stretch past its limits
+     * when rubber-banding is on. A view caught mid spring-back is already
+     * elastic and carries on from where it is.
+     */
+    private beginStretch(): void {
+        const rubberBand = this.config.get().eventHandlers.rubberBand;
+        if (!rubberBand || !this.camera.setElastic || !this.camera.getRestingView) {
+            return;
+        }
+        // Config normalizes `true` into resolved options; the fallbacks keep the type honest.
+        const options = rubberBand === true ? {} : rubberBand;
+        this.camera.setElastic({
+            resistance: options.resistance ?? DEFAULT_VALUES.RUBBER_BAND_RESISTANCE,
+            maxOverscrollPx: options.maxOverscrollPx ?? DEFAULT_VALUES.RUBBER_BAND_MAX_OVERSCROLL_PX,
+            maxOverscale: options.maxOverscale ?? DEFAULT_VALUES.RUBBER_BAND_MAX_OVERSCALE,
+        });
+        this.stretching = true;
+    }
+
+    /**
+     * The gesture has ended: bring a stretched view back inside the limits,
+     * and a pinched one onto the nearest zoom level around the pinch anchor.
+     * Springs back when frames can be scheduled and motion is allowed, and
+     * snaps back otherwise. An interrupted settle resumes on the next release.
+     * @returns Whether the view was off its resting view (and is now returning).
+     */
+    private settleView(): boolean {
+        if ((!this.stretching && !this.pinchAnchor) || !this.camera.getRestingView) {
+            return false;
+        }
+        const bounds = this.canvasBoundsGetter();
+        const anchor = this.pinchAnchor ?? { x: bounds.width / 2, y: bounds.height / 2 };
+        const resting = this.camera.getRestingView(anchor.x, anchor.y, this.pinchAnchor !== undefined);
+        const start = { center: this.camera.getCenter(bounds.width, bounds.height), scale: this.camera.scale };
+
+        if (
+            resting.scale === start.scale &&
+            Math.abs(resting.center.x - start.center.x) * start.scale < 0.01 &&
+            Math.abs(resting.center.y - start.center.y) * start.scale < 0.01
+        ) {
+            this.endSettle();
+            return false;
+        }
+
+        if (this.config.getReducedMotion() || typeof requestAnimationFrame !== "function") {
+            this.applyView(resting.center, resting.scale, bounds);
+            this.endSettle();
+            return true;
+        }
+
+        // One critically damped spring drives the progress; center and
+        // log-scale follow it together, so a zoom and a pan overshoot settle
+        // as one motion.
+        const progress = { value: 0, velocity: 0 };
+        const spring = { type: "spring" as const };
+        let lastTime = performance.now();
+        let expected = { x: this.camera.x, y: this.camera.y, scale: this.camera.scale };
+
+        const step = (time: number) => {
+            // Another camera writer (a programmatic move, a resize) wins
+            if (this.camera.x !== expected.x || this.camera.y !== expected.y || this.camera.scale !== expected.scale) {
+                this.springBackFrameId = undefined;
+                this.endSettle();
+                return;
+            }
+
+            const dt = Math.max(0, time - lastTime);
+            lastTime = time;
+            stepSpring(progress, 1, dt, spring);
+            const settled = this.config.getReducedMotion() || isSpringAtRest(progress, 1, SPRING_BACK_PRECISION);
+            const t = settled ? 1 : progress.value;
+            const bounds = this.canvasBoundsGetter();
+            this.applyView(
+                {
+                    x: start.center.x + (resting.center.x - start.center.x) * t,
+                    y: start.center.y + (resting.center.y - start.center.y) * t,
+                },
+                start.scale * Math.pow(resting.scale / start.scale, t),
+                bounds,
+            );
+            expected = { x: this.camera.x, y: this.camera.y, scale: this.camera.scale };
+
+            if (settled) {
+                this.springBackFrameId = undefined;
+                this.endSettle();
+                return;
+            }
+            this.springBackFrameId = requestAnimationFrame(step);
+        };
+
+        this.springBackFrameId = requestAnimationFrame(step);
+        return true;
+    }
+
+    /** Restore the hard limits once the view is back inside them. */
+    private endSettle(): void {
+        this.stretching = false;
+        this.pinchAnchor = undefined;
+        this.camera.setElastic?.(undefined);
+    }
+
+    /**
+     * Write a view to the (elastic) camera and notify, with onZoom when the
+     * scale changed.
+     */
+    private applyView(center: Coords, scale: number, bounds: CanvasBounds): void {
+        const prevScale = this.camera.scale;
+        this.camera.setScale(scale);
+        this.camera.setCenter(center, bounds.width, bounds.height);
+        if (this.onZoom && this.camera.scale !== prevScale) {
+            this.onZoom(this.camera.scale);
+        }
+        this.onCameraChange();
+    }
+
     // ─── Single Pointer Handlers ───────────────────────────────
 
     handleClick = (pointer: NormalizedPointer): void => {
@@ -179,80 +670,151 @@ export class GestureProcessor {
             this.shouldPreventClick = false;
             return;
         }
-        if (!this.config.get().eventHandlers.click || !this.onClick) {
-            return;
-        }
-        const { coords, mouse, client } = this.processCoords(pointer);
-        this.onClick(coords, mouse, client);
+        this.tap(pointer);
     };
 
     handleRightClick = (pointer: NormalizedPointer): void => {
         if (!this.config.get().eventHandlers.rightClick || !this.onRightClick) {
             return;
         }
-        const { coords, mouse, client } = this.processCoords(pointer);
-        this.onRightClick(coords, mouse, client);
+        const { coords, mouse, client, info } = this.processCoords(pointer);
+        this.onRightClick(coords, mouse, client, info);
     };
 
     handlePointerDown = (pointer: NormalizedPointer): void => {
+        this.inputType = "mouse";
+        this.stopInertia();
+        this.startLongPress(pointer);
+
         if (this.onMouseDown) {
-            const { coords, mouse, client } = this.processCoords(pointer);
-            this.onMouseDown(coords, mouse, client);
+            const { coords, mouse, client, info } = this.processCoords(pointer);
+            this.onMouseDown(coords, mouse, client, info);
+        }
+
+        if (this.capture(pointer)) {
+            return;
         }
 
         if (!this.config.get().eventHandlers.drag) {
+            // A spring-back this press interrupted still has to finish
+            this.settleView();
             return;
         }
 
+        this.beginStretch();
         this.isDragging = true;
         this.shouldPreventClick = false;
         this.lastPos = { x: pointer.clientX, y: pointer.clientY };
+        this.beginDragSamples(pointer.clientX, pointer.clientY);
     };
 
     handlePointerMove = (pointer: NormalizedPointer): void => {
+        this.inputType = "mouse";
+        this.moveLongPress(pointer);
+        if (this.isCaptured) {
+            this.moveCaptured(pointer);
+            return;
+        }
         if (!this.isDragging) {
-            if (this.onHover && this.config.get().eventHandlers.hover) {
-                const { coords, mouse, client } = this.processCoords(pointer);
-                this.onHover(coords, mouse, client);
+            const hover = this.config.get().eventHandlers.hover ? this.onHover : undefined;
+            if (hover || this.pointerCapture?.hover) {
+                const point = this.processCoords(pointer);
+                this.pointerCapture?.hover?.(point);
+                hover?.(point.coords, point.mouse, point.client, point.info);
             }
             return;
         }
 
         const dx = pointer.clientX - this.lastPos.x;
         const dy = pointer.clientY - this.lastPos.y;
-        if (dx !== 0 || dy !== 0) {
+        if ((dx !== 0 || dy !== 0) && !this.shouldPreventClick) {
             this.shouldPreventClick = true;
+            this.onDragStart?.();
         }
         this.camera.pan(dx, dy);
         this.lastPos = { x: pointer.clientX, y: pointer.clientY };
+        this.recordDragSample(pointer.clientX, pointer.clientY);
         this.onCameraChange();
     };
 
     handlePointerUp = (pointer: NormalizedPointer): void => {
+        this.inputType = "mouse";
+        this.cancelLongPress();
         if (this.onMouseUp) {
-            const { coords, mouse, client } = this.processCoords(pointer);
-            this.onMouseUp(coords, mouse, client);
+            const { coords, mouse, client, info } = this.processCoords(pointer);
+            this.onMouseUp(coords, mouse, client, info);
         }
 
-        this.isDragging = false;
+        this.releaseCapture(pointer, false);
+        if (this.isDragging) {
+            this.isDragging = false;
+            this.releaseDrag();
+        }
     };
 
     handlePointerLeave = (pointer: NormalizedPointer): void => {
+        this.inputType = "mouse";
+        this.cancelLongPress();
         if (this.onMouseLeave) {
-            const { coords, mouse, client } = this.processCoords(pointer);
-            this.onMouseLeave(coords, mouse, client);
+            const { coords, mouse, client, info } = this.processCoords(pointer);
+            this.onMouseLeave(coords, mouse, client, info);
         }
 
-        this.isDragging = false;
+        this.releaseCapture(pointer, true);
+        this.pointerCapture?.leave?.();
+        if (this.isDragging) {
+            this.isDragging = false;
+            this.releaseDrag();
+        }
     };
 
+    /** Offer a press to the pointer capture; `true` when it took the gesture. */
+    private capture(pointer: NormalizedPointer): boolean {
+        if (!this.pointerCapture?.claim(this.processCoords(pointer), pointer.modifiers ?? NO_MODIFIERS)) {
+            return false;
+        }
+        this.isCaptured = true;
+        this.shouldPreventClick = false;
+        this.lastPos = { x: pointer.clientX, y: pointer.clientY };
+        // A spring-back this press interrupted still has to finish
+        this.settleView();
+        return true;
+    }
+
+    private moveCaptured(pointer: NormalizedPointer): void {
+        // Like a camera drag, a captured gesture that moved is not a click
+        if (pointer.clientX !== this.lastPos.x || pointer.clientY !== this.lastPos.y) {
+            this.shouldPreventClick = true;
+        }
+        this.lastPos = { x: pointer.clientX, y: pointer.clientY };
+        this.pointerCapture?.move(this.processCoords(pointer), pointer.modifiers ?? NO_MODIFIERS);
+    }
+
+    private releaseCapture(pointer: NormalizedPointer | undefined, cancelled: boolean): void {
+        if (!this.isCaptured) {
+            return;
+        }
+        this.isCaptured = false;
+        this.pointerCapture?.release(pointer && this.processCoords(pointer), cancelled);
+    }
+
     // ─── Touch Handlers ───────────────────────────────
 
     handleTouchStart = (pointers: NormalizedPointer[]): void => {
+        this.inputType = "touch";
+        this.stopInertia();
         const eventHandlers = this.config.get().eventHandlers;
+        if (pointers.length === 1) {
+            this.startLongPress(pointers[0]);
+        } else {
+            this.cancelLongPress();
+        }
 
         // Handle pinch-to-zoom (2 fingers)
         if (pointers.length === 2 && eventHandlers.zoom) {
+            this.releaseCapture(undefined, true);
+            this.beginTwoFingerTap(pointers[0], pointers[1]);
+            this.beginStretch();
             this.isPinching = true;
             this.isDragging = false;
             this.shouldPreventClick = true;
@@ -268,39 +830,51 @@ export class GestureProcessor {
 
         // Fire onMouseDown callback for touch
         if (this.onMouseDown) {
-            const { coords, mouse, client } = this.processCoords(pointer);
-            this.onMouseDown(coords, mouse, client);
+            const { coords, mouse, client, info } = this.processCoords(pointer);
+            this.onMouseDown(coords, mouse, client, info);
+        }
+
+        if (this.capture(pointer)) {
+            return;
         }
 
         // Handle single finger drag
         if (!eventHandlers.drag) {
+            // A spring-back this touch interrupted still has to finish
+            this.settleView();
             return;
         }
+        this.beginStretch();
         this.isDragging = true;
         this.isPinching = false;
         this.shouldPreventClick = false;
         this.lastPos = { x: pointer.clientX, y: pointer.clientY };
+        this.beginDragSamples(pointer.clientX, pointer.clientY);
     };
 
     handleTouchMove = (pointers: NormalizedPointer[]): void => {
+        this.inputType = "touch";
         // Handle pinch-to-zoom
         if (this.isPinching && pointers.length === 2) {
             const currentDistance = this.getPointerDistance(pointers[0], pointers[1]);
             const currentCenter = this.getPointerCenter(pointers[0], pointers[1]);
             const bounds = this.canvasBoundsGetter();
+            this.moveTwoFingerTap(currentCenter, currentDistance);
 
             // Calculate zoom factor from pinch distance change
             const scaleFactor =
                 this.lastPinchDistance >= MIN_PINCH_DISTANCE ? currentDistance / this.lastPinchDistance : 1;
 
             // Zoom anchor relative to canvas: pinch midpoint, or canvas center in "center" mode
-            const centerMode = this.config.get().eventHandlers.zoom === "center";
+            const zoom = this.zoomOptions();
+            const centerMode = zoom !== false && zoom.anchor === "center";
             const centerX = centerMode ? bounds.width / 2 : currentCenter.x - bounds.left;
             const centerY = centerMode ? bounds.height / 2 : currentCenter.y - bounds.top;
 
-            // Apply zoom
+            // Apply zoom; the settle on release scales around the last anchor
             const prevScale = this.camera.scale;
             this.camera.zoomByFactor(scaleFactor, centerX, centerY);
+            this.pinchAnchor = { x: centerX, y: centerY };
 
             // Also pan if pinch center moved. Skipped in "center" mode: fingers
             // never move symmetrically, so following the midpoint would drift
@@ -344,11 +918,18 @@ export class GestureProcessor {
         }
 
         const pointer = pointers[0];
+        this.moveLongPress(pointer);
+        this.moveTwoFingerTapRest(pointer);
+
+        if (this.isCaptured) {
+            this.moveCaptured(pointer);
+            return;
+        }
 
         // Fire onHover callback for touch move
         if (this.onHover && this.config.get().eventHandlers.hover) {
-            const { coords, mouse, client } = this.processCoords(pointer);
-            this.onHover(coords, mouse, client);
+            const { coords, mouse, client, info } = this.processCoords(pointer);
+            this.onHover(coords, mouse, client, info);
         }
 
         // Handle single finger drag
@@ -357,15 +938,19 @@ export class GestureProcessor {
         }
         const dx = pointer.clientX - this.lastPos.x;
         const dy = pointer.clientY - this.lastPos.y;
-        if (dx !== 0 || dy !== 0) {
+        if ((dx !== 0 || dy !== 0) && !this.shouldPreventClick) {
             this.shouldPreventClick = true;
+            this.onDragStart?.();
         }
         this.camera.pan(dx, dy);
         this.lastPos = { x: pointer.clientX, y: pointer.clientY };
+        this.recordDragSample(pointer.clientX, pointer.clientY);
         this.onCameraChange();
     };
 
     handleTouchEnd = (remainingPointers: NormalizedPointer[], changedPointer?: NormalizedPointer): void => {
+        this.inputType = "touch";
+        this.cancelLongPress();
         // If we still have 2 fingers, stay in pinch mode
         if (remainingPointers.length >= 2 && this.isPinching) {
             this.lastPinchDistance = this.getPointerDistance(remainingPointers[0], remainingPointers[1]);
@@ -376,54 +961,472 @@ export class GestureProcessor {
         // If we have 1 finger left after pinching, switch to drag mode
         if (remainingPointers.length === 1 && this.isPinching) {
             this.isPinching = false;
+            if (this.twoFingerTap) {
+                this.twoFingerTap.rest = { x: remainingPointers[0].clientX, y: remainingPointers[0].clientY };
+            }
             if (this.config.get().eventHandlers.drag) {
                 this.isDragging = true;
                 const pointer = remainingPointers[0];
                 this.lastPos = { x: pointer.clientX, y: pointer.clientY };
+                this.beginDragSamples(pointer.clientX, pointer.clientY);
             }
             return;
         }
 
         // Fire onMouseUp for touch end
         if (changedPointer && this.onMouseUp) {
-            const { coords, mouse, client } = this.processCoords(changedPointer);
-            this.onMouseUp(coords, mouse, client);
+            const { coords, mouse, client, info } = this.processCoords(changedPointer);
+            this.onMouseUp(coords, mouse, client, info);
         }
 
         // Fire onClick for tap gesture (touch end without drag)
-        if (changedPointer && !this.shouldPreventClick && this.config.get().eventHandlers.click && this.onClick) {
-            const { coords, mouse, client } = this.processCoords(changedPointer);
-            this.onClick(coords, mouse, client);
+        if (changedPointer && !this.shouldPreventClick) {
+            this.tap(changedPointer);
         }
+        this.endTwoFingerTap();
 
         // All fingers lifted
+        this.releaseCapture(changedPointer, false);
+        const wasDragging = this.isDragging;
         this.isDragging = false;
         this.isPinching = false;
         this.shouldPreventClick = false;
+        if (wasDragging) {
+            this.releaseDrag();
+        } else {
+            this.settleView();
+        }
+    };
+
+    // ─── Taps, Double Taps & Long Press ───────────────────────────────
+
+    /**
+     * A click or tap landed: fire `onClick`, then `onDoubleClick` when it
+     * completes a double. The release of a fired long press is no tap.
+     */
+    private tap(pointer: NormalizedPointer): void {
+        if (this.longPressFired) {
+            this.longPressFired = false;
+            return;
+        }
+        const eventHandlers = this.config.get().eventHandlers;
+        if (eventHandlers.click && this.onClick) {
+            const { coords, mouse, client, info } = this.processCoords(pointer);
+            this.onClick(coords, mouse, client, info);
+        }
+
+        const doubleClick = this.doubleClickOptions();
+        if (!doubleClick) {
+            this.lastTap = undefined;
+            return;
+        }
+        const now = performance.now();
+        const last = this.lastTap;
+        if (
+            !last ||
+            now - last.time > doubleClick.intervalMs ||
+            Math.hypot(pointer.clientX - last.x, pointer.clientY - last.y) > doubleClick.tolerancePx
+        ) {
+            this.lastTap = { x: pointer.clientX, y: pointer.clientY, time: now };
+            return;
+        }
+        // A third click starts a new double instead of completing another
+        this.lastTap = undefined;
+        if (this.onDoubleClick) {
+            const { coords, mouse, client, info } = this.processCoords(pointer);
+            this.onDoubleClick(coords, mouse, client, info);
+        }
+        if (doubleClick.zoom) {
+            this.tapZoom(doubleClick.zoomFactor, pointer.clientX, pointer.clientY);
+        }
+    }
+
+    /** Resolved double-click options, or `false` while double-click is off. */
+    private doubleClickOptions(): Required<DoubleClickOptions> | false {
+        const doubleClick = this.config.get().eventHandlers.doubleClick;
+        if (!doubleClick) {
+            return false;
+        }
+        // Config normalizes `true` into resolved options; the fallbacks keep the type honest.
+        const options = doubleClick === true ? {} : doubleClick;
+        return {
+            intervalMs: options.intervalMs ?? DEFAULT_VALUES.DOUBLE_CLICK_INTERVAL_MS,
+            tolerancePx: options.tolerancePx ?? DEFAULT_VALUES.DOUBLE_CLICK_TOLERANCE_PX,
+            zoom: options.zoom ?? false,
+            zoomFactor: options.zoomFactor ?? DEFAULT_VALUES.DOUBLE_CLICK_ZOOM_FACTOR,
+        };
+    }
+
+    /**
+     * Zoom by `factor` for a tap gesture, anchored at the tap (client px) or
+     * the canvas center in `"center"` zoom mode, like a pinch.
+     */
+    private tapZoom(factor: number, clientX: number, clientY: number): void {
+        const bounds = this.canvasBoundsGetter();
+        const zoom = this.zoomOptions();
+        const centerMode = zoom !== false && zoom.anchor === "center";
+        const prevScale = this.camera.scale;
+        this.stopInertia();
+        this.zoomStep(
+            factor,
+            centerMode ? bounds.width / 2 : clientX - bounds.left,
+            centerMode ? bounds.height / 2 : clientY - bounds.top,
+        );
+        if (this.onZoom && this.camera.scale !== prevScale) {
+            this.onZoom(this.camera.scale);
+        }
+        this.onCameraChange();
+    }
+
+    /** Two fingers just landed: they may be a two-finger tap (zoom out). */
+    private beginTwoFingerTap(p1: NormalizedPointer, p2: NormalizedPointer): void {
+        const doubleClick = this.doubleClickOptions();
+        if (!doubleClick || !doubleClick.zoom) {
+            this.twoFingerTap = undefined;
+            return;
+        }
+        const center = this.getPointerCenter(p1, p2);
+        this.twoFingerTap = {
+            x: center.x,
+            y: center.y,
+            time: performance.now(),
+            distance: this.getPointerDistance(p1, p2),
+        };
+    }
+
+    /** A pinch moved: past the tolerance it is a pinch, not a tap. */
+    private moveTwoFingerTap(center: Coords, distance: number): void {
+        const tap = this.twoFingerTap;
+        const doubleClick = this.doubleClickOptions();
+        if (!tap || !doubleClick) {
+            return;
+        }
+        if (
+            Math.hypot(center.x - tap.x, center.y - tap.y) > doubleClick.tolerancePx ||
+            Math.abs(distance - tap.distance) > doubleClick.tolerancePx
+        ) {
+            this.twoFingerTap = undefined;
+        }
+    }
+
+    /** The finger left after the first lift moved: past the tolerance, no tap. */
+    private moveTwoFingerTapRest(pointer: NormalizedPointer): void {
+        const rest = this.twoFingerTap?.rest;
+        const doubleClick = this.doubleClickOptions();
+        if (!rest || !doubleClick) {
+            return;
+        }
+        if (Math.hypot(pointer.clientX - rest.x, pointer.clientY - rest.y) > doubleClick.tolerancePx) {
+            this.twoFingerTap = undefined;
+        }
+    }
+
+    /** All fingers lifted: a quick, still two-finger touch zooms out. */
+    private endTwoFingerTap(): void {
+        const tap = this.twoFingerTap;
+        this.twoFingerTap = undefined;
+        const doubleClick = this.doubleClickOptions();
+        if (!tap || !doubleClick || performance.now() - tap.time > DEFAULT_VALUES.TWO_FINGER_TAP_MS) {
+            return;
+        }
+        this.lastTap = undefined;
+        this.tapZoom(1 / doubleClick.zoomFactor, tap.x, tap.y);
+    }
+
+    /** A press began: arm the long-press timer when long press is on. */
+    private startLongPress(pointer: NormalizedPointer): void {
+        this.cancelLongPress();
+        this.longPressFired = false;
+        const longPress = this.config.get().eventHandlers.longPress;
+        if (!longPress || !this.onLongPress) {
+            return;
+        }
+        // Config normalizes `true` into resolved options; the fallback keeps the type honest.
+        const delayMs = (longPress === true ? undefined : longPress.delayMs) ?? DEFAULT_VALUES.LONG_PRESS_DELAY_MS;
+        this.longPressOrigin = pointer;
+        this.longPressPointer = pointer;
+        this.longPressTimer = setTimeout(() => {
+            this.longPressTimer = undefined;
+            const latest = this.longPressPointer ?? pointer;
+            this.longPressFired = true;
+            if (this.onLongPress) {
+                const { coords, mouse, client, info } = this.processCoords(latest);
+                this.onLongPress(coords, mouse, client, info);
+            }
+        }, delayMs);
+    }
+
+    /** The pressed pointer moved: past the tolerance, it is no long press. */
+    private moveLongPress(pointer: NormalizedPointer): void {
+        const origin = this.longPressOrigin;
+        if (this.longPressTimer === undefined || !origin) {
+            return;
+        }
+        const longPress = this.config.get().eventHandlers.longPress;
+        const tolerancePx =
+            (longPress && longPress !== true ? longPress.tolerancePx : undefined) ??
+            DEFAULT_VALUES.LONG_PRESS_TOLERANCE_PX;
+        if (Math.hypot(pointer.clientX - origin.clientX, pointer.clientY - origin.clientY) > tolerancePx) {
+            this.cancelLongPress();
+            return;
+        }
+        this.longPressPointer = pointer;
+    }
+
+    private cancelLongPress(): void {
+        if (this.longPressTimer !== undefined) {
+            clearTimeout(this.longPressTimer);
+            this.longPressTimer = undefined;
+        }
+        this.longPressOrigin = undefined;
+        this.longPressPointer = undefined;
+    }
+
+    // ─── Keyboard Handler ───────────────────────────────
+
+    /**
+     * Resolve a `KeyboardEvent.key` to the action bound to it. Single letters
+     * match case-insensitively, so Shift and Caps Lock do not break WASD.
+     */
+    private keyboardAction(options: KeyboardOptions, key: string): KeyboardAction | undefined {
+        const normalize = (k: string) => (k.length === 1 ? k.toLowerCase() : k);
+        const pressed = normalize(key);
+        for (const action of Object.keys(KEYBOARD_BINDINGS) as KeyboardAction[]) {
+            const keys = options.bindings?.[action] ?? KEYBOARD_BINDINGS[action];
+            if (keys.some((k) => normalize(k) === pressed)) {
+                return action;
+            }
+        }
+        return undefined;
+    }
+
+    /** Zoom like `zoomIn()` / `zoomOut()`, landing on zoom levels when set. */
+    private zoomStep(factor: number, centerX: number, centerY: number): void {
+        if (this.camera.stepZoom) {
+            this.camera.stepZoom(factor, centerX, centerY);
+        } else {
+            this.camera.zoomByFactor(factor, centerX, centerY);
+        }
+    }
+
+    /**
+     * Apply keyboard navigation for a key press. Pans move along the screen
+     * axes (so they follow a rotated view), zooms anchor at the viewport
+     * center like `zoomIn()` / `zoomOut()`, and reset jumps to
+     * `keyboard.home` or the initial view without animating.
+     *
+     * Renderers are expected to filter out presses with Ctrl, Meta or Alt
+     * held, which belong to the browser. A pointer capture sees the key
+     * first and may consume it.
+     * @param key The `KeyboardEvent.key` value.
+     * @returns `true` when the key was handled, so the renderer can prevent
+     * the browser default (page scrolling on arrows and Home).
+     */
+    handleKeyDown = (key: string): boolean => {
+        if (this.pointerCapture?.keyDown?.(key)) {
+            return true;
+        }
+        const keyboard = this.config.get().eventHandlers.keyboard;
+        if (!keyboard) {
+            return false;
+        }
+        // Config normalizes `true` into resolved options; the fallback keeps the type honest.
+        const options: KeyboardOptions = keyboard === true ? {} : keyboard;
+        const action = this.keyboardAction(options, key);
+        if (!action) {
+            return false;
+        }
+
+        this.stopInertia();
+        const step = options.panStep ?? DEFAULT_VALUES.KEYBOARD_PAN_STEP;
+        const factor = options.zoomFactor ?? DEFAULT_VALUES.KEYBOARD_ZOOM_FACTOR;
+        const bounds = this.canvasBoundsGetter();
+        const prevScale = this.camera.scale;
+
+        // Panning drags the content: to look further right, the world moves left.
+        switch (action) {
+            case "panUp":
+                this.camera.pan(0, step);
+                break;
+            case "panDown":
+                this.camera.pan(0, -step);
+                break;
+            case "panLeft":
+                this.camera.pan(step, 0);
+                break;
+            case "panRight":
+                this.camera.pan(-step, 0);
+                break;
+            case "zoomIn":
+                this.zoomStep(factor, bounds.width / 2, bounds.height / 2);
+                break;
+            case "zoomOut":
+                this.zoomStep(1 / factor, bounds.width / 2, bounds.height / 2);
+                break;
+            case "reset": {
+                const center = options.home ?? this.initialView.center;
+                const scale = options.home ? (options.home.scale ?? this.camera.scale) : this.initialView.scale;
+                this.camera.setScale(scale);
+                this.camera.setCenter({ x: center.x, y: center.y }, bounds.width, bounds.height);
+                break;
+            }
+        }
+
+        if (this.onZoom && this.camera.scale !== prevScale) {
+            this.onZoom(this.camera.scale);
+        }
+        this.onCameraChange();
+        return true;
     };
 
     // ─── Wheel Zoom Handler ───────────────────────────────
 
-    handleWheel = (pointer: NormalizedPointer, deltaY: number): void => {
-        const zoom = this.config.get().eventHandlers.zoom;
+    /**
+     * Handle a wheel event: zoom, or pan in the `"auto"` and `"pan"` wheel
+     * modes. A pointer capture sees the event first and may consume it.
+     * @param pointer The pointer position.
+     * @param deltaY Vertical wheel delta.
+     * @param input The wheel event fields, for device detection. Without
+     * them the event counts as a mouse wheel.
+     * @returns Whether the event was consumed; when not, the renderer leaves
+     * it to the page.
+     */
+    handleWheel = (pointer: NormalizedPointer, deltaY: number, input?: WheelInput): boolean => {
+        const source = input ? this.classifyWheel(input) : "wheel";
+        const wheel: WheelInfo = { deltaY, direction: deltaY < 0 ? "in" : "out", source };
+        if (this.pointerCapture?.wheel?.(this.processCoords(pointer), wheel)) {
+            return true;
+        }
+        const zoom = this.zoomOptions();
         if (!zoom) {
-            return;
+            return false;
+        }
+        if (source === "pinch" && this.gestureScale !== undefined) {
+            // Already zooming through the gesture events; a Ctrl+wheel twin
+            // of the same pinch would zoom twice
+            return true;
+        }
+        const pans = zoom.wheel === "pan" ? source !== "pinch" : zoom.wheel === "auto" && source === "trackpad";
+        if (pans) {
+            return this.wheelPan(input?.deltaX ?? 0, deltaY, input?.deltaMode ?? 0);
         }
+        // Outside the legacy "zoom" mode pinches zoom at gesture speed
+        const multiplier =
+            source === "pinch" && zoom.wheel !== "zoom" ? DEFAULT_VALUES.PINCH_WHEEL_DELTA_MULTIPLIER : 1;
+        this.wheelZoom(pointer, deltaY * multiplier, source, zoom.anchor);
+        return true;
+    };
+
+    /**
+     * Start a Safari trackpad pinch (`gesturestart`). Claimed only outside
+     * the `"zoom"` wheel mode.
+     * @returns Whether the pinch was claimed.
+     */
+    handleGestureStart = (): boolean => {
+        const zoom = this.zoomOptions();
+        if (!zoom || zoom.wheel === "zoom") {
+            return false;
+        }
+        this.stopInertia();
+        this.gestureScale = 1;
+        return true;
+    };
+
+    /**
+     * Zoom by a Safari trackpad pinch step (`gesturechange`).
+     * @param pointer The pinch position.
+     * @param scale `GestureEvent.scale`: the pinch's scale since it started.
+     * @returns Whether the pinch is claimed.
+     */
+    handleGestureChange = (pointer: NormalizedPointer, scale: number): boolean => {
+        const zoom = this.zoomOptions();
+        if (this.gestureScale === undefined || !zoom) {
+            return false;
+        }
+        if (!(scale > 0)) {
+            return true;
+        }
+        const factor = scale / this.gestureScale;
+        this.gestureScale = scale;
+        // The wheel delta producing the same zoom factor, as for touch pinches
+        this.wheelZoom(
+            pointer,
+            factor === 1 ? 0 : -Math.log(factor) / DEFAULT_VALUES.ZOOM_SENSITIVITY,
+            "pinch",
+            zoom.anchor,
+        );
+        return true;
+    };
+
+    /**
+     * End a Safari trackpad pinch (`gestureend`).
+     * @returns Whether a claimed pinch ended.
+     */
+    handleGestureEnd = (): boolean => {
+        const claimed = this.gestureScale !== undefined;
+        this.gestureScale = undefined;
+        return claimed;
+    };
+
+    /** Classify a wheel event's device, remembering it for the rest of the scroll burst. */
+    private classifyWheel(input: WheelInput): WheelInfo["source"] {
+        const now = performance.now();
+        const source = wheelSource(input, now, this.wheelBurst);
+        if (source !== "pinch") {
+            this.wheelBurst = { source, time: now };
+        }
+        return source;
+    }
+
+    private wheelZoom(pointer: NormalizedPointer, deltaY: number, source: WheelInfo["source"], anchorMode: ZoomMode) {
         const bounds = this.canvasBoundsGetter();
         const anchor =
-            zoom === "center"
+            anchorMode === "center"
                 ? { x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 }
                 : { x: pointer.clientX, y: pointer.clientY };
         const prevScale = this.camera.scale;
         this.camera.zoom(anchor.x, anchor.y, deltaY, bounds as DOMRect);
-        this.notifyWheel(pointer, deltaY, "wheel");
+        this.notifyWheel(pointer, deltaY, source);
         // Scrolling on at a scale limit leaves the scale untouched: report it
         // as onWheel only, so onZoom keeps meaning "the zoom level changed".
         if (this.onZoom && this.camera.scale !== prevScale) {
             this.onZoom(this.camera.scale);
         }
         this.onCameraChange();
-    };
+    }
+
+    /**
+     * Pan by a scroll, the content following the fingers like a drag.
+     * Scroll pans are drags, so they need `drag` enabled.
+     */
+    private wheelPan(deltaX: number, deltaY: number, deltaMode: number): boolean {
+        if (!this.config.get().eventHandlers.drag) {
+            return false;
+        }
+        this.stopInertia();
+        const unit =
+            deltaMode === 1
+                ? DEFAULT_VALUES.WHEEL_LINE_HEIGHT_PX
+                : deltaMode === 2
+                  ? this.canvasBoundsGetter().height
+                  : 1;
+        if (deltaX !== 0 || deltaY !== 0) {
+            this.camera.pan(-deltaX * unit, -deltaY * unit);
+            this.onCameraChange();
+        }
+        return true;
+    }
+
+    /** The zoom setting as resolved options, or `false` while zoom is off. */
+    private zoomOptions(): Required<ZoomOptions> | false {
+        const zoom = this.config.get().eventHandlers.zoom;
+        if (!zoom) {
+            return false;
+        }
+        // Config normalizes every form into resolved options; the fallback keeps the type honest.
+        const options: ZoomOptions = zoom === true ? {} : typeof zoom === "string" ? { anchor: zoom } : zoom;
+        return { anchor: options.anchor ?? "pointer", wheel: options.wheel ?? "zoom" };
+    }
 
     // ─── State Queries ───────────────────────────────
 
@@ -431,7 +1434,17 @@ export class GestureProcessor {
         return this.isDragging;
     }
 
+    /** Whether a pointer capture holds the current gesture. */
+    get captured(): boolean {
+        return this.isCaptured;
+    }
+
     get pinching(): boolean {
         return this.isPinching;
     }
+
+    /** Whether a kinetic pan is still gliding after a drag release. */
+    get flinging(): boolean {
+        return this.inertiaFrameId !== undefined;
+    }
 }
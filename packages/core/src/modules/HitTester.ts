@@ -1,10 +1,27 @@
-import { Circle, Coords, DrawHandle, ImageItem, Line, LineStyle, PathCommand, PathItem, Rect } from "../types";
+import {
+    Circle,
+    Coords,
+    DrawHandle,
+    ImageItem,
+    ItemEventHandlers,
+    Line,
+    LineStyle,
+    PathCommand,
+    PathItem,
+    Projection,
+    Rect,
+    ScaleRange,
+    WorldWrap,
+} from "../types";
 import {
     distanceToPolyline,
+    pointInConvex,
     pointInRect,
     pointInRing,
     pointInRings,
+    ringIntersectsConvex,
     ringIntersectsRect,
+    segmentIntersectsConvex,
     segmentIntersectsRect,
     type RectRegion,
 } from "../utils/pathGeometry";
@@ -13,7 +30,19 @@ import { ARC_SEGMENT_LENGTH, roundedPolyline, roundedRing } from "../utils/pathF
 import { overlayLineStyle, resolveCornerRadiusPx, resolveLineWidthPx } from "../utils/strokeStyle";
 import { resolveSizeWorld } from "../utils/itemSize";
 import { resolveOrigin, computeOriginOffset } from "../utils/origin";
+import {
+    invertMatrix,
+    isIsometric,
+    projectionMatrix,
+    transformAround,
+    viewMatrix,
+    type ViewMatrix,
+} from "../utils/projection";
+import { wrapCopies } from "../utils/wrap";
+import { inScaleRange } from "../utils/scaleRange";
+import { DEFAULT_VALUES } from "../constants";
 import { SpatialIndex } from "./SpatialIndex";
+import type { DragRegistration } from "./ItemDrag";
 
 /** Primitive kinds that participate in hit testing. */
 export type HitKind = "rect" | "circle" | "image" | "path" | "line";
@@ -30,6 +59,8 @@ export type HitResult<TImage = unknown, TData = unknown> = {
     handle: DrawHandle;
     /** Position of the item inside its draw call's items array. */
     index: number;
+    /** The item's `data`, lifted out for convenience. */
+    data?: TData;
 };
 
 export type HitTestOptions = {
@@ -87,6 +118,15 @@ type HitEntry = {
     /** Per-item hit-test opt-out, evaluated live at query time. A hidden
      * item (`visibleOf` false) never hits regardless of this callback. */
     interactiveOf?: (item: HitItem) => boolean | undefined;
+    /** Per-item hover cursor, read by the engine for the topmost hit. */
+    cursorOf?: (item: HitItem) => string | undefined;
+    /** Zoom range the registration shows in; outside it nothing hits. */
+    scaleRange?: ScaleRange;
+    /** Item event handlers of the draw call, dispatched by the engine for
+     * hits on this entry. Stored here so they go away with the entry. */
+    events?: ItemEventHandlers;
+    /** Drag settings of a draggable draw call; see `ItemDrag`. */
+    drag?: DragRegistration;
     /** Lazy R-Tree over item anchors, built on the first query of a large entry. */
     index?: SpatialIndex<BoxedItem> | null;
     /** Item object -> position in `items`, built alongside the lazy index. */
@@ -106,7 +146,8 @@ const MIN_STROKE_HIT_WIDTH_PX = 8;
  *
  * Maintained by the engine's draw delegations, so no renderer participates.
  * Geometry mirrors the renderers' drawing math (origin anchoring, image
- * aspect fit, rotation) in world units. Like rendering itself, results
+ * aspect fit, rotation, upright images and depth order under an isometric
+ * projection) in world units. Like rendering itself, results
  * reflect item positions as of the draw call - mutating positions requires
  * re-registration.
  *
@@ -115,6 +156,9 @@ const MIN_STROKE_HIT_WIDTH_PX = 8;
  * `[k, k+1]` there - so the engine shifts by the cell-center offset before
  * calling in (see `CanvasTileEngine.rawToItemSpace`).
  *
+ * On a wrapped world every query also probes the neighboring copies, so
+ * items overhanging the seam hit from either side.
+ *
  * Only `layer` and `padding` (world units) are read here; `paddingPx` is an
  * engine-level convenience that `CanvasTileEngine` converts with the current
  * scale and folds into `padding` before delegating (this module is
@@ -123,6 +167,7 @@ const MIN_STROKE_HIT_WIDTH_PX = 8;
  */
 export class HitTester {
     private entries = new Map<symbol, HitEntry>();
+    private layerScaleRanges = new Map<number, ScaleRange>();
     private nextSeq = 0;
 
     /**
@@ -130,7 +175,17 @@ export class HitTester {
      * scale-free, but screen-pixel style values (`lineWidthPx`, future
      * `sizePx`) must resolve against the current scale at query time.
      */
-    constructor(private getScale: () => number = () => 1) {}
+    constructor(
+        private getScale: () => number = () => 1,
+        /**
+         * Live view accessor. Under an isometric projection images stand
+         * upright at their anchor and anchored items paint back to front by
+         * row, so both their hit boxes and their hit order depend on it.
+         */
+        private getView: () => { rotation?: number; projection?: Projection } = () => ({}),
+        /** World periods (`config.wrap`); nothing wraps when empty. */
+        private getWrap: () => WorldWrap = () => ({}),
+    ) {}
 
     register(
         handle: DrawHandle,
@@ -142,6 +197,10 @@ export class HitTester {
             ignoreSizePx?: boolean;
             visibleOf?: (item: HitItem) => boolean | undefined;
             interactiveOf?: (item: HitItem) => boolean | undefined;
+            cursorOf?: (item: HitItem) => string | undefined;
+            scaleRange?: ScaleRange;
+            events?: ItemEventHandlers;
+            drag?: DragRegistration;
         },
     ): void {
         const list = Array.isArray(items) ? items : [items];
@@ -172,9 +231,84 @@ export class HitTester {
             style: opts?.style,
             visibleOf: opts?.visibleOf,
             interactiveOf: opts?.interactiveOf,
+            cursorOf: opts?.cursorOf,
+            scaleRange: opts?.scaleRange,
+            events: opts?.events,
+            drag: opts?.drag,
         });
     }
 
+    /** Whether any draw call registered item event handlers. */
+    hasEvents(): boolean {
+        for (const entry of this.entries.values()) {
+            if (entry.events) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /** Item event handlers registered with a draw call, if any. */
+    eventsOf(handle: DrawHandle): ItemEventHandlers | undefined {
+        return this.entries.get(handle.id)?.events;
+    }
+
+    /** Whether any draw call sets per-item cursors. */
+    hasCursors(): boolean {
+        for (const entry of this.entries.values()) {
+            if (entry.cursorOf) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /** Per-item cursor callback registered with a draw call, if any. */
+    cursorOf(handle: DrawHandle): ((item: HitItem) => string | undefined) | undefined {
+        return this.entries.get(handle.id)?.cursorOf;
+    }
+
+    /** Whether any draw call is draggable. */
+    hasDrag(): boolean {
+        for (const entry of this.entries.values()) {
+            if (entry.drag) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /** Drag settings registered with a draw call, if it is draggable. */
+    dragOf(handle: DrawHandle): DragRegistration | undefined {
+        return this.entries.get(handle.id)?.drag;
+    }
+
+    /** Call-level stroke style of a line draw call. */
+    styleOf(handle: DrawHandle): LineStyle | undefined {
+        return this.entries.get(handle.id)?.style;
+    }
+
+    /**
+     * A draw call's items moved in place (item dragging): drop its spatial
+     * index so the next query rebuilds it from the new positions.
+     */
+    invalidate(handle: DrawHandle): void {
+        const entry = this.entries.get(handle.id);
+        if (entry) {
+            entry.index = undefined;
+            entry.indexMap = undefined;
+        }
+    }
+
+    /** Limit a whole layer to a zoom range; `undefined` removes the limit. Survives `clearLayer`. */
+    setLayerScaleRange(layer: number, range: ScaleRange | undefined): void {
+        if (range) {
+            this.layerScaleRanges.set(layer, range);
+        } else {
+            this.layerScaleRanges.delete(layer);
+        }
+    }
+
     remove(handle: DrawHandle): void {
         this.entries.delete(handle.id);
     }
@@ -193,64 +327,55 @@ export class HitTester {
 
     /** All items under `point` (world coords), highest visual priority first. */
     hitTest<TData = unknown>(point: Coords, opts?: HitTestOptions): HitResult<unknown, TData>[] {
-        const results: Array<HitResult & { seq: number }> = [];
+        const results: Array<HitResult & { seq: number; depth: number }> = [];
         const padding = Math.max(0, opts?.padding ?? 0);
+        const add = this.hitCollector(results, this.depthFn());
+
+        for (const shift of this.wrapShifts(point, point)) {
+            // The point as seen from the copy shifted by `shift`, in canonical coordinates
+            const probe = { x: point.x - shift.x, y: point.y - shift.y };
+            for (const entry of this.entries.values()) {
+                if ((opts?.layer !== undefined && entry.layer !== opts.layer) || !this.inScale(entry)) {
+                    continue;
+                }
 
-        for (const entry of this.entries.values()) {
-            if (opts?.layer !== undefined && entry.layer !== opts.layer) {
-                continue;
-            }
-
-            // Paths and lines have no single anchor point for the R-Tree;
-            // they always linear-scan (typically few, geometry-heavy items).
-            const indexable = entry.kind !== "path" && entry.kind !== "line";
-
-            if (indexable && entry.items.length > SPATIAL_INDEX_THRESHOLD) {
-                this.ensureIndex(entry);
-                // The index stores anchor-centered boxes; origin modes shift the
-                // drawn box by up to half a cell (or half the item size), so pad
-                // the query enough to never miss an edge candidate. sizePx
-                // extents are scale-dependent (they grow as the camera zooms
-                // out), so they join the pad at query time, never cached.
-                const sizePxPad = entry.ignoreSizePx ? 0 : entry.maxSizePx / this.getScale();
-                const pad = 0.5 + entry.maxSize + sizePxPad + padding;
-                const candidates = entry.index!.query(point.x - pad, point.y - pad, point.x + pad, point.y + pad);
-                for (const item of candidates) {
-                    if (!this.testItem(point, item, entry, padding)) {
-                        continue;
+                // Paths and lines have no single anchor point for the R-Tree;
+                // they always linear-scan (typically few, geometry-heavy items).
+                const indexable = entry.kind !== "path" && entry.kind !== "line";
+
+                if (indexable && entry.items.length > SPATIAL_INDEX_THRESHOLD) {
+                    this.ensureIndex(entry);
+                    // The index stores anchor-centered boxes; origin modes shift the
+                    // drawn box by up to half a cell (or half the item size), so pad
+                    // the query enough to never miss an edge candidate. sizePx
+                    // extents are scale-dependent (they grow as the camera zooms
+                    // out), so they join the pad at query time, never cached.
+                    // Upright images reach further along the world axes than their
+                    // own size, by the inverse projection's stretch.
+                    const sizePxPad = entry.ignoreSizePx ? 0 : entry.maxSizePx / this.getScale();
+                    const pad = (0.5 + entry.maxSize + sizePxPad + padding) * this.uprightSpread(entry.kind);
+                    const candidates = entry.index!.query(probe.x - pad, probe.y - pad, probe.x + pad, probe.y + pad);
+                    for (const item of candidates) {
+                        if (this.testItem(probe, item, entry, padding)) {
+                            add(item, entry, entry.indexMap!.get(item)!);
+                        }
                     }
-                    results.push({
-                        item,
-                        kind: entry.kind,
-                        layer: entry.layer,
-                        handle: entry.handle,
-                        index: entry.indexMap!.get(item)!,
-                        seq: entry.seq,
-                    });
-                }
-            } else {
-                for (let i = 0; i < entry.items.length; i++) {
-                    const item = entry.items[i];
-                    if (!this.testItem(point, item, entry, padding)) {
-                        continue;
+                } else {
+                    for (let i = 0; i < entry.items.length; i++) {
+                        if (this.testItem(probe, entry.items[i], entry, padding)) {
+                            add(entry.items[i], entry, i);
+                        }
                     }
-                    results.push({
-                        item,
-                        kind: entry.kind,
-                        layer: entry.layer,
-                        handle: entry.handle,
-                        index: i,
-                        seq: entry.seq,
-                    });
                 }
             }
         }
 
         // Visual priority: higher layer first; within a layer, later
-        // registration first; within a draw call, later item first.
-        results.sort((a, b) => b.layer - a.layer || b.seq - a.seq || b.index - a.index);
+        // registration first; within a draw call, nearer row first (isometric
+        // only), then later item first.
+        results.sort((a, b) => b.layer - a.layer || b.seq - a.seq || b.depth - a.depth || b.index - a.index);
         // TData is caller-asserted: the registry stores items as unknown-data.
-        return results.map(({ seq: _seq, ...hit }) => hit) as HitResult<unknown, TData>[];
+        return results.map(({ seq: _seq, depth: _depth, ...hit }) => hit) as HitResult<unknown, TData>[];
     }
 
     /** The topmost item under `point`, or undefined. */
@@ -258,6 +383,61 @@ export class HitTester {
         return this.hitTest<TData>(point, opts)[0];
     }
 
+    /** Whether the entry and its layer show at the current scale. */
+    private inScale(entry: HitEntry): boolean {
+        const scale = this.getScale();
+        return inScaleRange(scale, entry.scaleRange) && inScaleRange(scale, this.layerScaleRanges.get(entry.layer));
+    }
+
+    /**
+     * Offsets of the world copies a query spanning `min`..`max` (item space)
+     * can touch, padded by a period so items overhanging the seam from the
+     * next copy are found too. `[{ x: 0, y: 0 }]` when nothing wraps.
+     */
+    private wrapShifts(min: Coords, max: Coords): Coords[] {
+        const wrap = this.getWrap();
+        const padX = wrap.x ?? 0;
+        const padY = wrap.y ?? 0;
+        // Copies are laid out in the corner space of event coords
+        return wrapCopies(
+            {
+                minX: min.x + DEFAULT_VALUES.CELL_CENTER_OFFSET - padX,
+                minY: min.y + DEFAULT_VALUES.CELL_CENTER_OFFSET - padY,
+                maxX: max.x + DEFAULT_VALUES.CELL_CENTER_OFFSET + padX,
+                maxY: max.y + DEFAULT_VALUES.CELL_CENTER_OFFSET + padY,
+            },
+            wrap,
+        );
+    }
+
+    /**
+     * A function adding one hit to `results`. Each item is added once, since
+     * an item wider than the wrap period can match under two copies.
+     */
+    private hitCollector(
+        results: Array<HitResult & { seq: number; depth: number }>,
+        depthOf: (item: HitItem, kind: HitKind) => number,
+    ): (item: HitItem, entry: HitEntry, index: number) => void {
+        const seen = new Set<string>();
+        return (item, entry, index) => {
+            const key = `${entry.seq}:${index}`;
+            if (seen.has(key)) {
+                return;
+            }
+            seen.add(key);
+            results.push({
+                item,
+                kind: entry.kind,
+                layer: entry.layer,
+                handle: entry.handle,
+                index,
+                data: item.data,
+                seq: entry.seq,
+                depth: depthOf(item, entry.kind),
+            });
+        };
+    }
+
     private ensureIndex(entry: HitEntry): void {
         if (entry.index !== undefined) {
             return;
@@ -437,81 +617,154 @@ export class HitTester {
      */
     hitTestRect<TData = unknown>(rect: RectRegion, opts?: HitTestRectOptions): HitResult<unknown, TData>[] {
         const mode = opts?.mode ?? "intersect";
-        const results: Array<HitResult & { seq: number }> = [];
+        return this.hitTestRegion<TData>(rect, opts, (shift) => {
+            const region = {
+                minX: rect.minX - shift.x,
+                minY: rect.minY - shift.y,
+                maxX: rect.maxX - shift.x,
+                maxY: rect.maxY - shift.y,
+            };
+            return (item, entry) => this.testItemRect(region, item, entry, mode);
+        });
+    }
 
-        for (const entry of this.entries.values()) {
-            if (opts?.layer !== undefined && entry.layer !== opts.layer) {
-                continue;
-            }
+    /**
+     * {@link hitTestRect} over a convex world quad rather than an
+     * axis-aligned box: the region a screen rectangle covers once the view
+     * is rotated or projected.
+     * @param corners The quad in world space (item space), in ring order.
+     */
+    hitTestQuad<TData = unknown>(corners: Coords[], opts?: HitTestRectOptions): HitResult<unknown, TData>[] {
+        const mode = opts?.mode ?? "intersect";
+        const xs = corners.map((c) => c.x);
+        const ys = corners.map((c) => c.y);
+        const bounds = { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+        return this.hitTestRegion<TData>(bounds, opts, (shift) => {
+            const quad = corners.map((c) => ({ x: c.x - shift.x, y: c.y - shift.y }));
+            return (item, entry) => this.testItemQuad(quad, item, entry, mode);
+        });
+    }
 
-            const indexable = entry.kind !== "path" && entry.kind !== "line";
-            if (indexable && entry.items.length > SPATIAL_INDEX_THRESHOLD) {
-                this.ensureIndex(entry);
-                // Same conservative anchor padding as the point query.
-                const pad = 0.5 + entry.maxSize + (entry.ignoreSizePx ? 0 : entry.maxSizePx / this.getScale());
-                const candidates = entry.index!.query(
-                    rect.minX - pad,
-                    rect.minY - pad,
-                    rect.maxX + pad,
-                    rect.maxY + pad,
-                );
-                for (const item of candidates) {
-                    if (!this.testItemRect(rect, item, entry, mode)) {
-                        continue;
-                    }
-                    results.push({
-                        item,
-                        kind: entry.kind,
-                        layer: entry.layer,
-                        handle: entry.handle,
-                        index: entry.indexMap!.get(item)!,
-                        seq: entry.seq,
-                    });
+    /**
+     * The region query loop shared by {@link hitTestRect} and
+     * {@link hitTestQuad}: `testAt(shift)` gives the item test for the world
+     * copy at `shift`, and candidates come from `bounds` (the region's world
+     * box) moved by the same shift.
+     */
+    private hitTestRegion<TData>(
+        bounds: RectRegion,
+        opts: HitTestRectOptions | undefined,
+        testAt: (shift: Coords) => (item: HitItem, entry: HitEntry) => boolean,
+    ): HitResult<unknown, TData>[] {
+        const results: Array<HitResult & { seq: number; depth: number }> = [];
+        const add = this.hitCollector(results, this.depthFn());
+
+        for (const shift of this.wrapShifts({ x: bounds.minX, y: bounds.minY }, { x: bounds.maxX, y: bounds.maxY })) {
+            const test = testAt(shift);
+            for (const entry of this.entries.values()) {
+                if ((opts?.layer !== undefined && entry.layer !== opts.layer) || !this.inScale(entry)) {
+                    continue;
                 }
-            } else {
-                for (let i = 0; i < entry.items.length; i++) {
-                    const item = entry.items[i];
-                    if (!this.testItemRect(rect, item, entry, mode)) {
-                        continue;
+
+                const indexable = entry.kind !== "path" && entry.kind !== "line";
+                if (indexable && entry.items.length > SPATIAL_INDEX_THRESHOLD) {
+                    this.ensureIndex(entry);
+                    // Same conservative anchor padding as the point query.
+                    const pad =
+                        (0.5 + entry.maxSize + (entry.ignoreSizePx ? 0 : entry.maxSizePx / this.getScale())) *
+                        this.uprightSpread(entry.kind);
+                    const candidates = entry.index!.query(
+                        bounds.minX - shift.x - pad,
+                        bounds.minY - shift.y - pad,
+                        bounds.maxX - shift.x + pad,
+                        bounds.maxY - shift.y + pad,
+                    );
+                    for (const item of candidates) {
+                        if (test(item, entry)) {
+                            add(item, entry, entry.indexMap!.get(item)!);
+                        }
+                    }
+                } else {
+                    for (let i = 0; i < entry.items.length; i++) {
+                        if (test(entry.items[i], entry)) {
+                            add(entry.items[i], entry, i);
+                        }
                     }
-                    results.push({
-                        item,
-                        kind: entry.kind,
-                        layer: entry.layer,
-                        handle: entry.handle,
-                        index: i,
-                        seq: entry.seq,
-                    });
                 }
             }
         }
 
-        results.sort((a, b) => b.layer - a.layer || b.seq - a.seq || b.index - a.index);
-        return results.map(({ seq: _seq, ...hit }) => hit) as HitResult<unknown, TData>[];
+        results.sort((a, b) => b.layer - a.layer || b.seq - a.seq || b.depth - a.depth || b.index - a.index);
+        return results.map(({ seq: _seq, depth: _depth, ...hit }) => hit) as HitResult<unknown, TData>[];
     }
 
-    /** Corners of the drawn box in world space, rotation applied. */
+    /** Corners of the drawn box in world space, rotation (and upright projection) applied. */
     private boxCorners(item: BoxedItem, kind: HitKind, useSizePx: boolean): Coords[] {
         const box = this.boxFor(item, kind, useSizePx);
-        const corners = [
+        let corners = [
             { x: box.left, y: box.top },
             { x: box.left + box.w, y: box.top },
             { x: box.left + box.w, y: box.top + box.h },
             { x: box.left, y: box.top + box.h },
         ];
         const rotate = (item as Rect).rotate ?? 0;
-        if (rotate === 0) {
+        if (rotate !== 0) {
+            const cx = box.left + box.w / 2;
+            const cy = box.top + box.h / 2;
+            const rad = (rotate * Math.PI) / 180;
+            const cos = Math.cos(rad);
+            const sin = Math.sin(rad);
+            corners = corners.map((c) => ({
+                x: cx + (c.x - cx) * cos - (c.y - cy) * sin,
+                y: cy + (c.x - cx) * sin + (c.y - cy) * cos,
+            }));
+        }
+        const upright = this.uprightMatrix(kind);
+        if (!upright) {
             return corners;
         }
-        const cx = box.left + box.w / 2;
-        const cy = box.top + box.h / 2;
-        const rad = (rotate * Math.PI) / 180;
-        const cos = Math.cos(rad);
-        const sin = Math.sin(rad);
-        return corners.map((c) => ({
-            x: cx + (c.x - cx) * cos - (c.y - cy) * sin,
-            y: cy + (c.x - cx) * sin + (c.y - cy) * cos,
-        }));
+        // The upright box is drawn unprojected at the anchor: take it back
+        // into the world through the inverse projection.
+        const inverse = invertMatrix(upright);
+        return corners.map((c) => transformAround(c, item, inverse));
+    }
+
+    /**
+     * The projection an upright image's box is compared in: present only for
+     * images under an isometric projection.
+     */
+    private uprightMatrix(kind: HitKind): ViewMatrix | null {
+        const { projection } = this.getView();
+        return kind === "image" && isIsometric(projection) ? projectionMatrix(projection) : null;
+    }
+
+    /** How much further than its own size an item of `kind` can reach along a world axis. */
+    private uprightSpread(kind: HitKind): number {
+        const upright = this.uprightMatrix(kind);
+        if (!upright) {
+            return 1;
+        }
+        const inverse = invertMatrix(upright);
+        return Math.max(Math.abs(inverse.a) + Math.abs(inverse.c), Math.abs(inverse.b) + Math.abs(inverse.d));
+    }
+
+    /**
+     * Screen-row depth of anchored items, matching the renderers' painter's
+     * order under an isometric projection; a constant otherwise.
+     */
+    private depthFn(): (item: HitItem, kind: HitKind) => number {
+        const { rotation, projection } = this.getView();
+        if (!isIsometric(projection)) {
+            return () => 0;
+        }
+        const { b, d } = viewMatrix(rotation ?? 0, projection);
+        return (item, kind) => {
+            if (kind === "path" || kind === "line") {
+                return 0;
+            }
+            const anchored = item as BoxedItem;
+            return b * anchored.x + d * anchored.y;
+        };
     }
 
     /** The path's world geometry as flattened subpaths (shared with testPath). */
@@ -609,6 +862,64 @@ export class HitTester {
         return ringIntersectsRect(corners, rect) || pointInRing({ x: rect.minX, y: rect.minY }, corners);
     }
 
+    /** {@link testItemRect} against a convex world quad. */
+    private testItemQuad(quad: Coords[], item: HitItem, entry: HitEntry, mode: "intersect" | "contain"): boolean {
+        if (!this.itemHittable(item, entry)) {
+            return false;
+        }
+        const kind = entry.kind;
+
+        if (kind === "line") {
+            const line = item as Line;
+            if (mode === "contain") {
+                return pointInConvex(line.from, quad) && pointInConvex(line.to, quad);
+            }
+            return segmentIntersectsConvex(line.from, line.to, quad);
+        }
+
+        if (kind === "path") {
+            const pathItem = item as PathItem;
+            const subpaths = this.pathSubpaths(pathItem);
+            if (subpaths.length === 0) {
+                return false;
+            }
+            if (mode === "contain") {
+                return subpaths.every((sub) => sub.points.every((p) => pointInConvex(p, quad)));
+            }
+            const filled = pathItem.style?.fillStyle !== undefined;
+            for (const sub of subpaths) {
+                if (ringIntersectsConvex(sub.points, quad, sub.closed || filled)) {
+                    return true;
+                }
+            }
+            return (
+                filled &&
+                pointInRings(
+                    quad[0],
+                    subpaths.map((sub) => sub.points),
+                    pathItem.fillRule,
+                )
+            );
+        }
+
+        if (kind === "circle") {
+            const box = this.boxFor(item as BoxedItem, kind, !entry.ignoreSizePx);
+            const center = { x: box.left + box.w / 2, y: box.top + box.h / 2 };
+            const r = box.w / 2;
+            const edge = distanceToPolyline(center, quad, true);
+            if (mode === "contain") {
+                return pointInConvex(center, quad) && edge >= r;
+            }
+            return pointInConvex(center, quad) || edge <= r;
+        }
+
+        const corners = this.boxCorners(item as BoxedItem, kind, !entry.ignoreSizePx);
+        if (mode === "contain") {
+            return corners.every((c) => pointInConvex(c, quad));
+        }
+        return ringIntersectsConvex(corners, quad) || pointInRing(quad[0], corners);
+    }
+
     private testItem(point: Coords, item: HitItem, entry: HitEntry, padding: number): boolean {
         if (!this.itemHittable(item, entry)) {
             return false;
@@ -636,8 +947,12 @@ export class HitTester {
             return dx * dx + dy * dy <= r * r;
         }
 
-        let px = point.x;
-        let py = point.y;
+        // Upright images are drawn unprojected at their anchor; project the
+        // point into that frame before the box test.
+        const upright = this.uprightMatrix(kind);
+        const local = upright ? transformAround(point, item as BoxedItem, upright) : point;
+        let px = local.x;
+        let py = local.y;
 
         // Rects and images rotate around the box center; inverse-rotate the point
         const rotate = (item as Rect).rotate ?? 0;
@@ -647,8 +962,8 @@ export class HitTester {
             const rad = (-rotate * Math.PI) / 180;
             const cos = Math.cos(rad);
             const sin = Math.sin(rad);
-            const dx = point.x - cx;
-            const dy = point.y - cy;
+            const dx = local.x - cx;
+            const dy = local.y - cy;
             px = cx + dx * cos - dy * sin;
             py = cy + dx * sin + dy * cos;
         }
@@ -0,0 +1,161 @@
+import type { Coords, DraggableOptions, DrawHandle, ItemDragHandlers, ItemDragInfo } from "../types";
+import { itemAnchor, translatedFields } from "../utils/moveItem";
+import type { PointerCapture, ProcessedCoords } from "./GestureProcessor";
+import type { HitItem, HitResult } from "./HitTester";
+
+/** A draggable registration, as stored with its hit-test entry. @internal */
+export interface DragRegistration {
+    snap?: DraggableOptions["snap"];
+    ghost: boolean;
+    handlers: ItemDragHandlers;
+    /** Re-register the draw call with the renderer in place, once its items moved. */
+    redraw: () => void;
+    /** The item's anchor, when not `itemAnchor`'s: a hex's center rather than its first corner. */
+    anchorOf?: (item: HitItem) => Coords | null;
+    /** Move the item in place, when translating its geometry is not enough: a hex also changes cell. */
+    move?: (item: HitItem, delta: Coords) => void;
+}
+
+/** What item dragging needs from the engine. @internal */
+export interface ItemDragHost<TImage> {
+    /** Topmost hit at a corner-space point (`coords.raw`). */
+    hitAt(point: Coords): HitResult<TImage> | undefined;
+    registrationOf(handle: DrawHandle): DragRegistration | undefined;
+    /** Whether any registration is draggable. */
+    anyDraggable(): boolean;
+    /** The `"cell"` snap: the center of the cell (or hex) under an item-space point. */
+    snapToCell(position: Coords): Coords;
+    /** An item-space position moved into the canonical copy of a wrapped world. */
+    wrapPosition(position: Coords): Coords;
+    /** Paint a translucent copy of a hit's item; removed with `removeGhost`. */
+    drawGhost(hit: HitResult<TImage>, item: HitItem): DrawHandle;
+    removeGhost(handle: DrawHandle): void;
+    /** Move a hit's item in place and re-index it for hit testing. */
+    moveItem(hit: HitResult<TImage>, delta: Coords): void;
+    render(): void;
+    /** A drag started (at its first move) or ended. */
+    dragChange(dragging: boolean): void;
+}
+
+type DragState<TImage> = {
+    hit: HitResult<TImage>;
+    registration: DragRegistration;
+    /** Item anchor at the press. */
+    start: Coords;
+    /** Unwrapped pointer (`ProcessedCoords.world`) at the press. */
+    pointer: Coords;
+    position: Coords;
+    coords: ItemDragInfo["coords"];
+    moved: boolean;
+    ghost?: DrawHandle;
+};
+
+/**
+ * Drags draggable items: claims presses on them from the camera, previews the
+ * drop with a ghost, and moves the item at the drop. The drag starts at the
+ * first move, so a press and release in place stays a click.
+ * @internal
+ */
+export class ItemDrag<TImage = unknown> implements PointerCapture {
+    private state?: DragState<TImage>;
+
+    constructor(
+        private host: ItemDragHost<TImage>,
+        /** Engine-level handlers, read live. */
+        private engineHandlers: ItemDragHandlers<TImage>,
+    ) {}
+
+    claim(point: ProcessedCoords): boolean {
+        if (!this.host.anyDraggable()) {
+            return false;
+        }
+        const hit = this.host.hitAt(point.coords.raw);
+        const registration = hit && this.host.registrationOf(hit.handle);
+        const start = hit && (registration?.anchorOf ?? itemAnchor)(hit.item);
+        if (!hit || !registration || !start) {
+            return false;
+        }
+        this.state = {
+            hit,
+            registration,
+            start,
+            pointer: point.world,
+            position: start,
+            coords: point.coords,
+            moved: false,
+        };
+        return true;
+    }
+
+    move(point: ProcessedCoords): void {
+        const state = this.state;
+        if (!state) {
+            return;
+        }
+        // Unwrapped, so a drag across a wrapped world's seam moves the item
+        // the distance swept rather than back across the world
+        const unsnapped = {
+            x: state.start.x + point.world.x - state.pointer.x,
+            y: state.start.y + point.world.y - state.pointer.y,
+        };
+        const { snap } = state.registration;
+        const position = snap === "cell" ? this.host.snapToCell(unsnapped) : snap ? snap(unsnapped) : unsnapped;
+        const landed = position.x !== state.position.x || position.y !== state.position.y;
+        state.position = position;
+        state.coords = point.coords;
+
+        if (!state.moved) {
+            state.moved = true;
+            this.host.dragChange(true);
+            this.fire("onItemDragStart", state, false);
+        }
+        if (state.registration.ghost && (landed || !state.ghost)) {
+            this.clearGhost(state);
+            const delta = this.deltaOf(state);
+            const moved = { ...state.hit.item, ...translatedFields(state.hit.item, delta) } as HitItem;
+            state.ghost = this.host.drawGhost(state.hit, moved);
+            this.host.render();
+        }
+        this.fire("onItemDragMove", state, false);
+    }
+
+    release(_point: ProcessedCoords | undefined, cancelled: boolean): void {
+        const state = this.state;
+        this.state = undefined;
+        if (!state?.moved) {
+            return;
+        }
+        this.clearGhost(state);
+        state.position = cancelled ? state.start : this.host.wrapPosition(state.position);
+        const delta = this.deltaOf(state);
+        if (delta.x !== 0 || delta.y !== 0) {
+            this.host.moveItem(state.hit, delta);
+        }
+        this.host.render();
+        this.host.dragChange(false);
+        this.fire("onItemDragEnd", state, cancelled);
+    }
+
+    private deltaOf(state: DragState<TImage>): Coords {
+        return { x: state.position.x - state.start.x, y: state.position.y - state.start.y };
+    }
+
+    private clearGhost(state: DragState<TImage>) {
+        if (state.ghost) {
+            this.host.removeGhost(state.ghost);
+            state.ghost = undefined;
+        }
+    }
+
+    private fire(event: keyof ItemDragHandlers, state: DragState<TImage>, cancelled: boolean) {
+        const info: ItemDragInfo = {
+            start: state.start,
+            position: state.position,
+            delta: this.deltaOf(state),
+            coords: state.coords,
+            cancelled,
+        };
+        (state.registration.handlers as ItemDragHandlers<TImage>)[event]?.(state.hit, info);
+        this.engineHandlers[event]?.(state.hit, info);
+    }
+}
@@ -0,0 +1,112 @@
+import type { Coords, DrawHandle, ItemEventHandlers, PointerInfo } from "../types";
+import type { HitResult } from "./HitTester";
+
+type PointerPayload = { raw: Coords; snapped: Coords };
+
+type ItemEvent = keyof ItemEventHandlers;
+
+/**
+ * Turns pointer callbacks into item events. Each event is hit-tested at its
+ * world position and dispatched to the hit draw call's handlers, then the
+ * engine's. Hover is diffed into enter/leave pairs against the item the
+ * previous hover found.
+ *
+ * Nothing is hit-tested while no handler could receive the event, so
+ * pointer callbacks cost what they did before for apps without item events.
+ * @internal
+ */
+export class ItemEvents<TImage = unknown> {
+    private hovered?: HitResult<TImage>;
+
+    constructor(
+        /** Topmost hit at a corner-space point (`coords.raw`). */
+        private hitAt: (point: Coords) => HitResult<TImage> | undefined,
+        /** Handlers passed to a draw call. */
+        private handlersOf: (handle: DrawHandle) => ItemEventHandlers<TImage> | undefined,
+        /** Whether any draw call has handlers. */
+        private anyDrawHandlers: () => boolean,
+        /** Engine-level handlers, read live. */
+        private engineHandlers: ItemEventHandlers<TImage>,
+    ) {}
+
+    click = (coords: PointerPayload, mouse: PointerPayload, client: PointerPayload, pointer: PointerInfo): void => {
+        this.dispatch("onItemClick", coords, mouse, client, pointer);
+    };
+
+    rightClick = (
+        coords: PointerPayload,
+        mouse: PointerPayload,
+        client: PointerPayload,
+        pointer: PointerInfo,
+    ): void => {
+        this.dispatch("onItemRightClick", coords, mouse, client, pointer);
+    };
+
+    down = (coords: PointerPayload, mouse: PointerPayload, client: PointerPayload, pointer: PointerInfo): void => {
+        this.dispatch("onItemDown", coords, mouse, client, pointer);
+    };
+
+    up = (coords: PointerPayload, mouse: PointerPayload, client: PointerPayload, pointer: PointerInfo): void => {
+        this.dispatch("onItemUp", coords, mouse, client, pointer);
+    };
+
+    hover = (coords: PointerPayload, mouse: PointerPayload, client: PointerPayload, pointer: PointerInfo): void => {
+        // A hovered item still needs its leave even if its handlers are gone
+        if (!this.hovered && !this.listening("onItemEnter") && !this.listening("onItemLeave")) {
+            return;
+        }
+        const hit = this.hitAt(coords.raw);
+        const previous = this.hovered;
+        this.hovered = hit;
+        if (previous && hit && previous.handle.id === hit.handle.id && previous.index === hit.index) {
+            return;
+        }
+        if (previous) {
+            this.fire("onItemLeave", previous, coords, mouse, client, pointer);
+        }
+        if (hit) {
+            this.fire("onItemEnter", hit, coords, mouse, client, pointer);
+        }
+    };
+
+    /** The pointer left the canvas: the hovered item, if any, is left too. */
+    leave = (coords: PointerPayload, mouse: PointerPayload, client: PointerPayload, pointer: PointerInfo): void => {
+        const previous = this.hovered;
+        this.hovered = undefined;
+        if (previous) {
+            this.fire("onItemLeave", previous, coords, mouse, client, pointer);
+        }
+    };
+
+    private listening(event: ItemEvent): boolean {
+        return this.engineHandlers[event] !== undefined || this.anyDrawHandlers();
+    }
+
+    private dispatch(
+        event: ItemEvent,
+        coords: PointerPayload,
+        mouse: PointerPayload,
+        client: PointerPayload,
+        pointer: PointerInfo,
+    ) {
+        if (!this.listening(event)) {
+            return;
+        }
+        const hit = this.hitAt(coords.raw);
+        if (hit) {
+            this.fire(event, hit, coords, mouse, client, pointer);
+        }
+    }
+
+    private fire(
+        event: ItemEvent,
+        hit: HitResult<TImage>,
+        coords: PointerPayload,
+        mouse: PointerPayload,
+        client: PointerPayload,
+        pointer: PointerInfo,
+    ) {
+        this.handlersOf(hit.handle)?.[event]?.(hit, coords, mouse, client, pointer);
+        this.engineHandlers[event]?.(hit, coords, mouse, client, pointer);
+    }
+}
@@ -0,0 +1,193 @@
+import type {
+    Coords,
+    DrawHandle,
+    MarqueeBox,
+    MarqueeInfo,
+    MarqueeOperation,
+    MarqueeOptions,
+    ModifierKey,
+    onMarqueeCallback,
+    WorldWrap,
+} from "../types";
+import type { PointerCapture, PointerModifiers, ProcessedCoords } from "./GestureProcessor";
+import type { HitResult } from "./HitTester";
+
+/** What marquee selection needs from the engine. @internal */
+export interface MarqueeHost<TImage> {
+    /** Resolved marquee options, or `false` while marquee selection is off. */
+    options(): MarqueeOptions | false;
+    /** The box between two canvas pixels (`mouse.raw` space), as {@link marqueeBox} builds it. */
+    boxBetween(from: Coords, to: Coords): MarqueeBox;
+    /** Items in the box's world quad, with the marquee's mode and layer. */
+    hitTestBox(box: MarqueeBox, options: MarqueeOptions): HitResult<TImage>[];
+    /** Paint the box; removed with `removeBox`. */
+    drawBox(box: MarqueeBox, options: MarqueeOptions): DrawHandle;
+    removeBox(handle: DrawHandle): void;
+    render(): void;
+}
+
+/** Marquee callbacks, as the engine exposes them. @internal */
+export interface MarqueeHandlers<TImage> {
+    onMarqueeChange?: onMarqueeCallback<TImage>;
+    onMarqueeEnd?: onMarqueeCallback<TImage>;
+}
+
+const MODIFIER_FIELDS = {
+    shift: "shiftKey",
+    alt: "altKey",
+    ctrl: "ctrlKey",
+    meta: "metaKey",
+} as const satisfies Record<ModifierKey, keyof PointerModifiers>;
+
+/**
+ * How a marquee combines with the selection, from the modifier keys held
+ * besides `trigger` (the key that started it): Alt subtracts, Shift, Ctrl or
+ * Meta add, none replaces.
+ */
+export function marqueeOperation(modifiers: PointerModifiers, trigger: ModifierKey | "none"): MarqueeOperation {
+    const held = (key: ModifierKey) => key !== trigger && modifiers[MODIFIER_FIELDS[key]];
+    if (held("alt")) {
+        return "subtract";
+    }
+    return held("shift") || held("ctrl") || held("meta") ? "add" : "replace";
+}
+
+/**
+ * The box a marquee sweeps between two canvas pixels: the screen rectangle
+ * and, through `screenToWorld` (unwrapped), the world quad under it. On a
+ * wrapped world the quad is moved by whole periods so the min corner of its
+ * bounds lies in the canonical copy: a box swept across the seam extends
+ * past it rather than flipping to the rest of the world, and the hit test
+ * probes the neighboring copy for the items beyond.
+ */
+export function marqueeBox(
+    from: Coords,
+    to: Coords,
+    screenToWorld: (x: number, y: number) => Coords,
+    wrap: WorldWrap,
+): MarqueeBox {
+    const screen = {
+        minX: Math.min(from.x, to.x),
+        minY: Math.min(from.y, to.y),
+        maxX: Math.max(from.x, to.x),
+        maxY: Math.max(from.y, to.y),
+    };
+    const quad = [
+        screenToWorld(screen.minX, screen.minY),
+        screenToWorld(screen.maxX, screen.minY),
+        screenToWorld(screen.maxX, screen.maxY),
+        screenToWorld(screen.minX, screen.maxY),
+    ];
+    const minX = Math.min(...quad.map((c) => c.x));
+    const minY = Math.min(...quad.map((c) => c.y));
+    const shiftX = wrap.x ? Math.floor(minX / wrap.x) * wrap.x : 0;
+    const shiftY = wrap.y ? Math.floor(minY / wrap.y) * wrap.y : 0;
+    const corners = quad.map((c) => ({ x: c.x - shiftX, y: c.y - shiftY }));
+    return {
+        screen,
+        corners,
+        bounds: {
+            minX: minX - shiftX,
+            minY: minY - shiftY,
+            maxX: Math.max(...corners.map((c) => c.x)),
+            maxY: Math.max(...corners.map((c) => c.y)),
+        },
+    };
+}
+
+type MarqueeState = {
+    options: MarqueeOptions;
+    /** Pointer pixel (`mouse.raw`) at the press. */
+    start: Coords;
+    box: MarqueeBox;
+    operation: MarqueeOperation;
+    moved: boolean;
+    handle?: DrawHandle;
+};
+
+/**
+ * Marquee selection: claims presses with the configured modifier held (or
+ * every press, with `"none"`) from the camera, draws the box while the
+ * pointer moves and reports the items it covers. Like item dragging, it
+ * starts at the first move, so a press and release in place stays a click.
+ * @internal
+ */
+export class Marquee<TImage = unknown> implements PointerCapture {
+    private state?: MarqueeState;
+
+    constructor(
+        private host: MarqueeHost<TImage>,
+        /** Engine-level handlers, read live. */
+        private engineHandlers: MarqueeHandlers<TImage>,
+    ) {}
+
+    claim(point: ProcessedCoords, modifiers: PointerModifiers): boolean {
+        const options = this.host.options();
+        if (!options) {
+            return false;
+        }
+        const trigger = options.modifier ?? "shift";
+        if (trigger !== "none" && !modifiers[MODIFIER_FIELDS[trigger]]) {
+            return false;
+        }
+        const start = point.mouse.raw;
+        this.state = {
+            options,
+            start,
+            box: this.host.boxBetween(start, start),
+            operation: marqueeOperation(modifiers, trigger),
+            moved: false,
+        };
+        return true;
+    }
+
+    move(point: ProcessedCoords, modifiers: PointerModifiers): void {
+        const state = this.state;
+        if (!state) {
+            return;
+        }
+        state.box = this.host.boxBetween(state.start, point.mouse.raw);
+        // Modifiers are read live: pressing Alt mid-drag switches to subtract
+        state.operation = marqueeOperation(modifiers, state.options.modifier ?? "shift");
+        state.moved = true;
+
+        this.clearBox(state);
+        state.handle = this.host.drawBox(state.box, state.options);
+        this.host.render();
+
+        const onChange = this.engineHandlers.onMarqueeChange;
+        if (onChange) {
+            onChange(this.host.hitTestBox(state.box, state.options), this.infoOf(state, false));
+        }
+    }
+
+    release(_point: ProcessedCoords | undefined, cancelled: boolean): void {
+        const state = this.state;
+        this.state = undefined;
+        if (!state?.moved) {
+            return;
+        }
+        this.clearBox(state);
+        this.host.render();
+        const hits = cancelled ? [] : this.host.hitTestBox(state.box, state.options);
+        this.engineHandlers.onMarqueeEnd?.(hits, this.infoOf(state, cancelled));
+    }
+
+    private infoOf(state: MarqueeState, cancelled: boolean): MarqueeInfo {
+        const { screen, corners, bounds } = state.box;
+        return {
+            screen: { ...screen },
+            corners: corners.map((c) => ({ ...c })),
+            bounds: { ...bounds },
+            operation: state.operation,
+            cancelled,
+        };
+    }
+
+    private clearBox(state: MarqueeState) {
+        if (state.handle) {
+            this.host.removeBox(state.handle);
+            state.handle = undefined;
+        }
+    }
+}
@@ -0,0 +1,301 @@
+import type {
+    Bounds,
+    CanvasTileEngineConfig,
+    Coords,
+    MinimapFrame,
+    MinimapOptions,
+    MinimapViewportStyle,
+    SetViewStateOptions,
+    ViewState,
+    ViewStateInput,
+} from "../types";
+import { fitScale } from "../utils/fitScale";
+import { configError, validateMinimapOptions } from "../utils/validateConfig";
+import { screenToViewAround } from "../utils/projection";
+
+/** The engine surface a minimap reads and drives. */
+export interface MinimapHost {
+    getViewState(): ViewState;
+    setViewState(state: ViewStateInput, options?: SetViewStateOptions): void;
+    getConfig(): Required<CanvasTileEngineConfig>;
+}
+
+const DEFAULT_VIEWPORT_STYLE: Required<MinimapViewportStyle> = {
+    fillStyle: "rgba(255, 255, 255, 0.25)",
+    strokeStyle: "#ff3b30",
+    lineWidth: 2,
+};
+
+const isFiniteArea = (bounds: Bounds) => [bounds.minX, bounds.maxX, bounds.minY, bounds.maxY].every(Number.isFinite);
+
+/**
+ * An overview inset for an engine: a downscaled view of selected layers
+ * with the main viewport outlined, whose clicks and drags move the main
+ * camera. Created with `engine.createMinimap(options)`.
+ *
+ * Platform-free: it computes what to paint and turns pointer positions into
+ * camera moves. The host paints it onto a surface with {@link render} and
+ * forwards pointer input in minimap pixels; the React and React Native
+ * `<Minimap>` components do both.
+ * @example
+ * ```ts
+ * const minimap = engine.createMinimap({ size: { width: 200, height: 150 }, layers: [0, 1] });
+ * const canvas = document.querySelector<HTMLCanvasElement>("#minimap")!;
+ * minimap.subscribe(() => minimap.render(canvas));
+ * minimap.render(canvas);
+ * canvas.addEventListener("pointerdown", (e) => {
+ *     canvas.setPointerCapture(e.pointerId);
+ *     minimap.pointerDown(e.offsetX, e.offsetY);
+ * });
+ * canvas.addEventListener("pointermove", (e) => minimap.pointerMove(e.offsetX, e.offsetY));
+ * canvas.addEventListener("pointerup", () => minimap.pointerUp());
+ * ```
+ */
+export class Minimap {
+    private options: MinimapOptions;
+    private listeners = new Set<() => void>();
+    /** Last finite world area, kept while the camera bounds are unbounded. */
+    private area: Bounds;
+    /** Offset from the pointer's world position to the main center while dragging. */
+    private grab?: Coords;
+    private destroyed = false;
+
+    /**
+     * @param host Engine whose camera the minimap shows and moves.
+     * @param paint Renderer hook painting a frame onto a target surface.
+     * @param options Minimap options.
+     * @param onDestroy Called once by {@link destroy}, so the engine stops notifying.
+     * @throws {ConfigValidationError} If an option is invalid or no finite world area is available.
+     */
+    constructor(
+        private host: MinimapHost,
+        private paint: (target: unknown, frame: MinimapFrame) => void,
+        options: MinimapOptions,
+        private onDestroy?: () => void,
+    ) {
+        validateMinimapOptions(options);
+        this.options = { ...options };
+        this.area = this.resolveArea();
+    }
+
+    /**
+     * Everything a renderer needs to paint the current frame.
+     * @returns The minimap's view, layers, background and the main viewport outline.
+     */
+    getFrame(): MinimapFrame {
+        const view = this.getView();
+        const main = this.host.getViewState();
+        const halfW = main.size.width / 2;
+        const halfH = main.size.height / 2;
+        // Screen corners of the main viewport, clockwise from the top-left,
+        // taken back through the main rotation and projection into world
+        // space. The minimap itself always shows the world top-down.
+        const projection = this.host.getConfig().projection;
+        const corners = [
+            { x: -halfW, y: -halfH },
+            { x: halfW, y: -halfH },
+            { x: halfW, y: halfH },
+            { x: -halfW, y: halfH },
+        ].map((offset) => {
+            const view = screenToViewAround(offset, { x: 0, y: 0 }, main.rotation, projection);
+            return this.toMinimap({
+                x: main.center.x + view.x / main.scale,
+                y: main.center.y + view.y / main.scale,
+            });
+        });
+        return {
+            view,
+            layers: this.options.layers,
+            backgroundColor: this.options.backgroundColor ?? this.host.getConfig().backgroundColor,
+            viewport: corners,
+            viewportStyle: { ...DEFAULT_VIEWPORT_STYLE, ...this.options.viewportStyle },
+        };
+    }
+
+    /**
+     * Paint the current frame onto a surface.
+     * @param target The renderer's surface kind: an `HTMLCanvasElement` for
+     * the canvas renderer, an `SkCanvas` for Skia.
+     */
+    render(target: unknown) {
+        if (this.destroyed) {
+            return;
+        }
+        this.paint(target, this.getFrame());
+    }
+
+    /**
+     * Convert minimap pixels to world coordinates.
+     * @param x Minimap X in pixels.
+     * @param y Minimap Y in pixels.
+     * @returns World coordinates.
+     */
+    toWorld(x: number, y: number): Coords {
+        const { center, scale, size } = this.getView();
+        return {
+            x: center.x + (x - size.width / 2) / scale,
+            y: center.y + (y - size.height / 2) / scale,
+        };
+    }
+
+    /**
+     * Convert world coordinates to minimap pixels.
+     * @param world World coordinates.
+     * @returns Minimap pixels.
+     */
+    toMinimap(world: Coords): Coords {
+        const { center, scale, size } = this.getView();
+        return {
+            x: (world.x - center.x) * scale + size.width / 2,
+            y: (world.y - center.y) * scale + size.height / 2,
+        };
+    }
+
+    /**
+     * Start a press at minimap pixels. Inside the viewport outline it grabs
+     * the view, so dragging moves it without a jump; outside it first
+     * recenters the main camera on the pressed point.
+     * @param x Minimap X in pixels.
+     * @param y Minimap Y in pixels.
+     * @returns Whether the press was taken (`false` while `interactive` is off).
+     */
+    pointerDown(x: number, y: number): boolean {
+        if (this.destroyed || this.options.interactive === false) {
+            return false;
+        }
+        const world = this.toWorld(x, y);
+        const main = this.host.getViewState();
+        if (this.insideViewport(x, y)) {
+            this.grab = { x: main.center.x - world.x, y: main.center.y - world.y };
+            return true;
+        }
+        this.grab = { x: 0, y: 0 };
+        this.host.setViewState({ center: world, scale: main.scale }, { durationMs: this.options.durationMs ?? 0 });
+        return true;
+    }
+
+    /**
+     * Drag to minimap pixels: the main camera follows instantly.
+     * @param x Minimap X in pixels.
+     * @param y Minimap Y in pixels.
+     */
+    pointerMove(x: number, y: number) {
+        if (!this.grab) {
+            return;
+        }
+        const world = this.toWorld(x, y);
+        this.host.setViewState({
+            center: { x: world.x + this.grab.x, y: world.y + this.grab.y },
+            scale: this.host.getViewState().scale,
+        });
+    }
+
+    /** End the press. */
+    pointerUp() {
+        this.grab = undefined;
+    }
+
+    /** Whether a press is in progress. */
+    isDragging(): boolean {
+        return this.grab !== undefined;
+    }
+
+    /**
+     * Listen for repaint requests: called after every engine render (camera
+     * moves, content changes) and option change.
+     * @param listener Repaint callback, typically `() => minimap.render(target)`.
+     * @returns Unsubscribe function.
+     */
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Change options at runtime; omitted fields keep their values.
+     * @param options Options to change.
+     * @throws {ConfigValidationError} If an option is invalid.
+     */
+    setOptions(options: Partial<MinimapOptions>) {
+        validateMinimapOptions(options);
+        this.options = { ...this.options, ...options };
+        // Also when cleared: the camera bounds must then be finite
+        if ("bounds" in options) {
+            this.area = this.resolveArea();
+        }
+        if (this.options.interactive === false) {
+            this.grab = undefined;
+        }
+        this._notifyChange();
+    }
+
+    /** Detach from the engine. Idempotent. */
+    destroy() {
+        if (this.destroyed) {
+            return;
+        }
+        this.destroyed = true;
+        this.grab = undefined;
+        this.listeners.clear();
+        this.onDestroy?.();
+    }
+
+    /** @internal Called by the engine after each render. */
+    _notifyChange() {
+        for (const listener of this.listeners) {
+            listener();
+        }
+    }
+
+    /** The minimap's own view: its world area fitted into its size, north up. */
+    private getView(): ViewState {
+        const area = this.currentArea();
+        const size = this.options.size;
+        return {
+            center: { x: (area.minX + area.maxX) / 2, y: (area.minY + area.maxY) / 2 },
+            scale: fitScale(area, size),
+            rotation: 0,
+            size: { width: size.width, height: size.height },
+        };
+    }
+
+    /** The explicit `bounds`, else the camera bounds when finite, else the last finite area. */
+    private currentArea(): Bounds {
+        if (this.options.bounds) {
+            return this.options.bounds;
+        }
+        const bounds = this.host.getConfig().bounds;
+        if (isFiniteArea(bounds)) {
+            this.area = bounds;
+        }
+        return this.area;
+    }
+
+    private resolveArea(): Bounds {
+        const area = this.options.bounds ?? this.host.getConfig().bounds;
+        if (!isFiniteArea(area)) {
+            throw configError("minimap needs a finite world area: pass `bounds` or set finite camera bounds");
+        }
+        return area;
+    }
+
+    /** Whether minimap pixels fall inside the (convex) viewport outline. */
+    private insideViewport(x: number, y: number): boolean {
+        const corners = this.getFrame().viewport;
+        let sign = 0;
+        for (let i = 0; i < corners.length; i++) {
+            const a = corners[i];
+            const b = corners[(i + 1) % corners.length];
+            const cross = (b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x);
+            if (cross !== 0) {
+                if (sign !== 0 && Math.sign(cross) !== sign) {
+                    return false;
+                }
+                sign = Math.sign(cross);
+            }
+        }
+        return true;
+    }
+}
@@ -0,0 +1,186 @@
+import type { MarqueeOperation } from "../types";
+
+/** What changed in a {@link Selection} update. */
+export interface SelectionChange<TId = unknown> {
+    /** The selection after the update. */
+    ids: ReadonlySet<TId>;
+    /** Ids that were not selected before, in the order they were added. */
+    added: TId[];
+    /** Ids that are no longer selected. */
+    removed: TId[];
+}
+
+/** Listener for {@link Selection.subscribe}. */
+export type SelectionListener<TId = unknown> = (change: SelectionChange<TId>) => void;
+
+/**
+ * The engine's selection model, `engine.selection`: a set of ids taken from
+ * items' `data` through {@link Selection.idOf}. Draw calls with a
+ * `selectedStyle` overlay it on selected items at paint time, so changing
+ * the selection repaints without re-registering anything.
+ *
+ * Every change re-renders the engine and notifies subscribers once; calls
+ * that change nothing (selecting an already selected id) do neither. `ids`
+ * is replaced, never mutated, so a snapshot stays valid after later changes.
+ *
+ * @example
+ * ```ts
+ * engine.selection.idOf = (data) => (data as Unit).id;
+ * engine.drawRect(units, 1, { selectedStyle: { strokeStyle: "#f59e0b", lineWidthPx: 2 } });
+ *
+ * engine.onMarqueeEnd = (hits, marquee) => engine.selection.apply(hits, marquee.operation);
+ * engine.selection.subscribe(({ ids }) => updateToolbar(ids.size));
+ * ```
+ */
+export class Selection<TId = unknown> {
+    /**
+     * Maps an item's `data` to its selection id; `undefined` marks the item
+     * as not selectable. Defaults to the `data` value itself, which suits
+     * primitive ids (`data: "tower-3"`); return a field for object data.
+     */
+    idOf: (data: unknown) => TId | undefined = (data) => data as TId | undefined;
+
+    private current: ReadonlySet<TId> = new Set();
+    private listeners = new Set<SelectionListener<TId>>();
+
+    constructor(
+        /** Called after every change; the engine re-renders. */
+        private onChange: () => void,
+    ) {}
+
+    /** The selected ids. Replaced on every change, so it is safe to keep. */
+    get ids(): ReadonlySet<TId> {
+        return this.current;
+    }
+
+    /** Number of selected ids. */
+    get size(): number {
+        return this.current.size;
+    }
+
+    /** Whether `id` is selected. */
+    has(id: TId): boolean {
+        return this.current.has(id);
+    }
+
+    /** Whether an item with this `data` is selected, through {@link idOf}. */
+    isSelected(data: unknown): boolean {
+        if (data === undefined || this.current.size === 0) {
+            return false;
+        }
+        const id = this.idOf(data);
+        return id !== undefined && this.current.has(id);
+    }
+
+    /** Add ids to the selection. */
+    select(...ids: TId[]): void {
+        const next = new Set(this.current);
+        for (const id of ids) {
+            next.add(id);
+        }
+        this.commit(next);
+    }
+
+    /** Remove ids from the selection. */
+    deselect(...ids: TId[]): void {
+        const next = new Set(this.current);
+        for (const id of ids) {
+            next.delete(id);
+        }
+        this.commit(next);
+    }
+
+    /** Flip each id: selected ids are removed, the others added. */
+    toggle(...ids: TId[]): void {
+        const next = new Set(this.current);
+        for (const id of ids) {
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+        }
+        this.commit(next);
+    }
+
+    /** Replace the selection with exactly `ids`. */
+    set(ids: Iterable<TId>): void {
+        this.commit(new Set(ids));
+    }
+
+    /** Deselect everything. */
+    clear(): void {
+        this.commit(new Set());
+    }
+
+    /**
+     * Combine hit results into the selection — the ids of their `data`,
+     * through {@link idOf}; hits without an id are skipped. `operation`
+     * follows the marquee's: `"replace"` (default) selects exactly the hits,
+     * `"add"` adds them, `"subtract"` removes them.
+     */
+    apply(hits: ReadonlyArray<{ data?: unknown }>, operation: MarqueeOperation = "replace"): void {
+        const ids: TId[] = [];
+        for (const hit of hits) {
+            const id = hit.data === undefined ? undefined : this.idOf(hit.data);
+            if (id !== undefined) {
+                ids.push(id);
+            }
+        }
+        if (operation === "add") {
+            this.select(...ids);
+        } else if (operation === "subtract") {
+            this.deselect(...ids);
+        } else {
+            this.set(ids);
+        }
+    }
+
+    /**
+     * `base` with `selectedStyle` overlaid when the item with this `data` is
+     * selected — what the `selectedStyle` draw option does, for callers that
+     * compose their own `styleOf`.
+     */
+    decorate<TStyle extends object>(
+        data: unknown,
+        base: TStyle | undefined,
+        selectedStyle: TStyle | undefined,
+    ): TStyle | undefined {
+        if (!selectedStyle || !this.isSelected(data)) {
+            return base;
+        }
+        return base ? { ...base, ...selectedStyle } : selectedStyle;
+    }
+
+    /**
+     * Listen for selection changes.
+     * @param listener Receives the new ids and what was added and removed.
+     * @returns Unsubscribe function.
+     */
+    subscribe(listener: SelectionListener<TId>): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /** Drop every listener and stop re-rendering. @internal */
+    destroy(): void {
+        this.listeners.clear();
+        this.onChange = () => {};
+    }
+
+    private commit(next: Set<TId>) {
+        const added = [...next].filter((id) => !this.current.has(id));
+        const removed = [...this.current].filter((id) => !next.has(id));
+        if (added.length === 0 && removed.length === 0) {
+            return;
+        }
+        this.current = next;
+        this.onChange();
+        const change: SelectionChange<TId> = { ids: next, added, removed };
+        for (const listener of this.listeners) {
+            listener(change);
+        }
+    }
+}
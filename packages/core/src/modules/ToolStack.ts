@@ -0,0 +1,146 @@
+import type { Coords, Tool, ToolContext, ToolInputEvent, ToolPointerEvent, WheelInfo } from "../types";
+import type { PointerCapture, ProcessedCoords } from "./GestureProcessor";
+import type { HitResult } from "./HitTester";
+
+/** What the tool stack needs from the engine. @internal */
+export interface ToolStackHost<TImage> {
+    /** Handed to every tool call. */
+    context: ToolContext<TImage>;
+    /** Topmost hit at a corner-space point (`coords.raw`). */
+    hitAt(point: Coords): HitResult<TImage> | undefined;
+    /** The active tool changed. */
+    change(): void;
+}
+
+type Gesture<TImage> = {
+    tool: Tool<TImage>;
+    /** Latest pointer, for a release that reports none. */
+    last: ProcessedCoords;
+};
+
+/**
+ * Interaction tools: a stack whose top tool is active and sees input before
+ * the camera, through the pointer capture chain. `set` replaces the stack,
+ * `push` covers the active tool for a while (hold Space to pan) and `pop`
+ * uncovers it. A gesture ends with the tool that claimed it: switching tools
+ * mid-gesture cancels it.
+ * @internal
+ */
+export class ToolStack<TImage = unknown> implements PointerCapture {
+    private stack: Tool<TImage>[] = [];
+    private gesture?: Gesture<TImage>;
+
+    constructor(private host: ToolStackHost<TImage>) {}
+
+    /** The tool on top of the stack. */
+    get active(): Tool<TImage> | undefined {
+        return this.stack[this.stack.length - 1];
+    }
+
+    /** Replace the whole stack with `tool`, or empty it with `null`. */
+    set(tool: Tool<TImage> | null): void {
+        this.switch(() => {
+            this.stack = tool ? [tool] : [];
+        });
+    }
+
+    push(tool: Tool<TImage>): void {
+        this.switch(() => this.stack.push(tool));
+    }
+
+    /** Remove the active tool; the one below becomes active. */
+    pop(): Tool<TImage> | undefined {
+        const top = this.active;
+        this.switch(() => this.stack.pop());
+        return top;
+    }
+
+    claim(point: ProcessedCoords): boolean {
+        const tool = this.active;
+        if (tool?.onPointerDown?.(this.pointerEvent(point, true), this.host.context) !== true) {
+            return false;
+        }
+        this.gesture = { tool, last: point };
+        return true;
+    }
+
+    move(point: ProcessedCoords): void {
+        const gesture = this.gesture;
+        if (!gesture) {
+            return;
+        }
+        gesture.last = point;
+        gesture.tool.onPointerMove?.(this.pointerEvent(point, true), this.host.context);
+    }
+
+    release(point: ProcessedCoords | undefined, cancelled: boolean): void {
+        const gesture = this.gesture;
+        this.gesture = undefined;
+        if (!gesture) {
+            return;
+        }
+        if (cancelled) {
+            gesture.tool.onPointerCancel?.(this.host.context);
+        } else {
+            gesture.tool.onPointerUp?.(this.pointerEvent(point ?? gesture.last, false), this.host.context);
+        }
+    }
+
+    hover(point: ProcessedCoords): void {
+        this.active?.onPointerMove?.(this.pointerEvent(point, false), this.host.context);
+    }
+
+    leave(): void {
+        this.active?.onPointerLeave?.(this.host.context);
+    }
+
+    wheel(point: ProcessedCoords, wheel: WheelInfo): boolean {
+        return this.active?.onWheel?.(Object.assign(this.inputEvent(point), { wheel }), this.host.context) === true;
+    }
+
+    keyDown(key: string): boolean {
+        return this.active?.onKeyDown?.({ key }, this.host.context) === true;
+    }
+
+    /** Run a stack change, cancelling the gesture and telling the tools when the active one changes. */
+    private switch(change: () => void) {
+        const before = this.active;
+        change();
+        const after = this.active;
+        if (after === before) {
+            return;
+        }
+        const gesture = this.gesture;
+        if (gesture) {
+            this.gesture = undefined;
+            gesture.tool.onPointerCancel?.(this.host.context);
+        }
+        before?.deactivate?.(this.host.context);
+        after?.activate?.(this.host.context);
+        this.host.change();
+    }
+
+    private pointerEvent(point: ProcessedCoords, pressed: boolean): ToolPointerEvent<TImage> {
+        return Object.assign(this.inputEvent(point), { pressed });
+    }
+
+    private inputEvent(point: ProcessedCoords): ToolInputEvent<TImage> {
+        const host = this.host;
+        let tested = false;
+        let hit: HitResult<TImage> | undefined;
+        return {
+            coords: point.coords,
+            world: point.world,
+            mouse: point.mouse,
+            client: point.client,
+            pointer: point.info,
+            get hit() {
+                if (!tested) {
+                    tested = true;
+                    hit = host.hitAt(point.coords.raw);
+                }
+                return hit;
+            },
+        };
+    }
+}
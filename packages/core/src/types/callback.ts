@@ -1,5 +1,6 @@
-import { Coords, DrawTransform } from ".";
+import { Bounds, Coords, DrawTransform } from ".";
 import { CanvasTileEngineConfig } from "./config";
+import type { HitResult } from "../modules/HitTester";
 
 /**
  * Post-frame draw hook. Mirrors the `addDrawFunction` callback signature:
@@ -14,6 +15,30 @@ export type onDrawCallback = (
     transform: DrawTransform,
 ) => void;
 
+/** Input device of a pointer callback, named as in the Pointer Events API. */
+export type PointerType = "mouse" | "pen" | "touch";
+
+/**
+ * The device behind a pointer callback: which pointer, what kind, stylus
+ * pressure and tilt, and the modifier keys held. Fields a platform does not
+ * report hold the Pointer Events defaults noted below.
+ */
+export interface PointerInfo {
+    /** Stable while the pointer is down; tells simultaneous touches apart. `0` when unreported. */
+    pointerId: number;
+    pointerType: PointerType;
+    /** Normalized pressure in `[0, 1]`. `0.5` when unreported, as for a mouse with a button down. */
+    pressure: number;
+    /** Pen tilt toward +x (right), in degrees `[-90, 90]`. `0` when unreported. */
+    tiltX: number;
+    /** Pen tilt toward +y (down), in degrees `[-90, 90]`. `0` when unreported. */
+    tiltY: number;
+    shiftKey: boolean;
+    altKey: boolean;
+    ctrlKey: boolean;
+    metaKey: boolean;
+}
+
 type MouseEventCallback = (
     coords: {
         raw: Coords;
@@ -27,10 +52,15 @@ type MouseEventCallback = (
         raw: Coords;
         snapped: Coords;
     },
+    pointer: PointerInfo,
 ) => void;
 
 export type onClickCallback = MouseEventCallback;
 
+export type onDoubleClickCallback = MouseEventCallback;
+
+export type onLongPressCallback = MouseEventCallback;
+
 export type onHoverCallback = MouseEventCallback;
 
 export type onMouseDownCallback = MouseEventCallback;
@@ -39,6 +69,143 @@ export type onMouseUpCallback = MouseEventCallback;
 
 export type onMouseLeaveCallback = MouseEventCallback;
 
+/**
+ * Fired for a pointer interaction with a hit-tested item: the topmost item
+ * under the pointer (what `hitTestFirst` returns), followed by the usual
+ * coordinate and device payloads of the pointer event.
+ */
+export type onItemEventCallback<TImage = unknown, TData = unknown> = (
+    hit: HitResult<TImage, TData>,
+    coords: {
+        raw: Coords;
+        snapped: Coords;
+    },
+    mouse: {
+        raw: Coords;
+        snapped: Coords;
+    },
+    client: {
+        raw: Coords;
+        snapped: Coords;
+    },
+    pointer: PointerInfo,
+) => void;
+
+/**
+ * Item-level pointer events, set on the engine (every item) or passed to a
+ * draw call (only that call's items). Each event is hit-tested like
+ * `hitTestFirst`, so items kept out by `hitTest: false`, `interactiveOf`,
+ * `visibleOf` or a scale range never receive them and the pointer reaches
+ * the item below instead. A draw call's handler runs before the engine's.
+ */
+export interface ItemEventHandlers<TImage = unknown, TData = unknown> {
+    /** A click or tap on the item. Requires `eventHandlers.click`. */
+    onItemClick?: onItemEventCallback<TImage, TData>;
+    /** A right-click on the item. Requires `eventHandlers.rightClick`. */
+    onItemRightClick?: onItemEventCallback<TImage, TData>;
+    /** The pointer moved onto the item. Requires `eventHandlers.hover`. */
+    onItemEnter?: onItemEventCallback<TImage, TData>;
+    /**
+     * The pointer moved off the item — onto another item, empty space, or
+     * out of the canvas. Requires `eventHandlers.hover`.
+     */
+    onItemLeave?: onItemEventCallback<TImage, TData>;
+    /** A mouse button or touch went down on the item. */
+    onItemDown?: onItemEventCallback<TImage, TData>;
+    /** A mouse button or touch was released over the item. */
+    onItemUp?: onItemEventCallback<TImage, TData>;
+}
+
+/**
+ * Progress of an item drag. Positions are the item's anchor in item space
+ * (integers are cell centers): `x`/`y` for rects, circles and images, `from`
+ * for lines, the first point for paths, and the center for hexes.
+ */
+export interface ItemDragInfo {
+    /** The anchor when the drag started. */
+    start: Coords;
+    /** Where the anchor lands if the item is dropped now, after snapping. */
+    position: Coords;
+    /** `position - start`: how far the item moves. */
+    delta: Coords;
+    /** The pointer, as in the pointer callbacks. */
+    coords: {
+        raw: Coords;
+        snapped: Coords;
+    };
+    /**
+     * `onItemDragEnd` only: `true` when the drag was abandoned — the pointer
+     * left the canvas or a second finger started a pinch — and the item
+     * stayed where it was.
+     */
+    cancelled: boolean;
+}
+
+export type onItemDragCallback<TImage = unknown, TData = unknown> = (
+    hit: HitResult<TImage, TData>,
+    drag: ItemDragInfo,
+) => void;
+
+/**
+ * Drag lifecycle of draggable items (see `DraggableOptions`), set on the
+ * engine (every draggable item) or passed to a draw call (only that call's
+ * items). A draw call's handler runs before the engine's.
+ */
+export interface ItemDragHandlers<TImage = unknown, TData = unknown> {
+    /** The pointer first moved after pressing a draggable item. */
+    onItemDragStart?: onItemDragCallback<TImage, TData>;
+    /** The pointer moved during the drag. */
+    onItemDragMove?: onItemDragCallback<TImage, TData>;
+    /**
+     * The item was dropped — already moved to `drag.position`, and hit
+     * testing updated — or the drag was cancelled.
+     */
+    onItemDragEnd?: onItemDragCallback<TImage, TData>;
+}
+
+/**
+ * How a marquee combines with an existing selection, from the modifier keys
+ * held besides the one that started it: Alt subtracts, Shift, Ctrl or Meta
+ * add, none replaces. The engine only reports it; applying it is up to you.
+ */
+export type MarqueeOperation = "replace" | "add" | "subtract";
+
+/**
+ * A box dragged out on screen — by the marquee, or a tool through
+ * `ToolContext.boxBetween` — and the part of the world it covers. With no
+ * rotation and an orthogonal projection that is the box `bounds`; otherwise
+ * it is the rotated rectangle or parallelogram `corners`, and hit tests
+ * follow the quad rather than `bounds`.
+ */
+export interface MarqueeBox {
+    /** The dragged rectangle in canvas pixels (`mouse.raw` space), corners sorted. */
+    screen: Bounds;
+    /**
+     * The world quad under `screen` (`coords.raw` space): the points under
+     * its top-left, top-right, bottom-right and bottom-left corners.
+     */
+    corners: Coords[];
+    /**
+     * The world box around `corners`. On a wrapped world its min corner lies
+     * in the canonical copy (the quad is moved with it); a box swept across
+     * the seam extends past it, and its hit test still finds the items on
+     * both sides.
+     */
+    bounds: Bounds;
+}
+
+/** The marquee box, passed to `onMarqueeChange` and `onMarqueeEnd`. */
+export interface MarqueeInfo extends MarqueeBox {
+    operation: MarqueeOperation;
+    /**
+     * `onMarqueeEnd` only: `true` when the marquee was abandoned — the pointer
+     * left the canvas or a second finger started a pinch. `hits` is then empty.
+     */
+    cancelled: boolean;
+}
+
+export type onMarqueeCallback<TImage = unknown> = (hits: HitResult<TImage>[], marquee: MarqueeInfo) => void;
+
 export type onRightClickCallback = MouseEventCallback;
 
 export type onZoomCallback = (scale: number) => void;
@@ -55,8 +222,12 @@ export interface WheelInfo {
     deltaY: number;
     /** Zoom direction implied by the gesture. */
     direction: "in" | "out";
-    /** Input source: mouse wheel or two-finger pinch. */
-    source: "wheel" | "pinch";
+    /**
+     * Input source: `"wheel"` for a mouse wheel, `"trackpad"` for a
+     * two-finger trackpad scroll (zooms only in the `"zoom"` wheel mode),
+     * `"pinch"` for a touch or trackpad pinch.
+     */
+    source: "wheel" | "trackpad" | "pinch";
 }
 
 /**
@@ -17,9 +17,9 @@ export type AccessibilityConfig = {
      * `engine.setReducedMotion(false)`), never a per-call duration.
      *
      * Scope is the engine's own camera animation: `goCenter`, `goScale`,
-     * `fitBounds` and `resize`. `SpriteAnimator` and anything the app draws
-     * itself are out of scope — call `animator.stop()` yourself if you need
-     * WCAG SC 2.2.2.
+     * `goRotation`, `flyTo`, `fitBounds` and `resize`. `SpriteAnimator` and
+     * anything the app draws itself are out of scope — call `animator.stop()`
+     * yourself if you need WCAG SC 2.2.2.
      *
      * This field reports the preference **as configured**, so a persisted
      * snapshot never turns "follow the OS" into a permanent choice. For the
@@ -44,7 +44,49 @@ export type CanvasTileEngineConfig = {
     scale: number;
     maxScale?: number;
     minScale?: number;
+    /**
+     * Discrete zoom stops. Wheel, pinch, keyboard zoom and
+     * `zoomIn`/`zoomOut` land on these scales instead of arbitrary ones: a
+     * wheel notch or a zoom call steps to the next level, and a pinch zooms
+     * freely then settles on the nearest level when the fingers lift.
+     * Levels outside `minScale`/`maxScale` are never used. Programmatic
+     * `setScale`/`goScale`/`fitBounds` stay exact. Default `false`
+     * (continuous zoom).
+     */
+    zoomLevels?: ZoomLevels | false;
     backgroundColor?: string;
+    /**
+     * Initial view rotation in degrees, positive clockwise, pivoting on the
+     * viewport center. Default `0`. Change it at runtime with
+     * `engine.setRotation()` / `engine.goRotation()`; `getConfig().rotation`
+     * reports the live angle, normalized into [0, 360).
+     */
+    rotation?: number;
+    /**
+     * How the world grid is laid out on screen. Default
+     * `{ type: "orthogonal" }` (square cells). `{ type: "isometric" }` draws
+     * each cell as a diamond, the x axis running down-right and the y axis
+     * down-left; `scale` is then the diamond width in pixels. Event
+     * coordinates, hit testing, culling, grid lines and the coordinate
+     * overlay all work in the projected view. Set once at creation.
+     */
+    projection?: Projection;
+    /**
+     * Cell shape. Default `{ type: "square" }`. `{ type: "hex" }` lays the
+     * world out as hexagons one world unit across: event `coords.snapped`
+     * reports hex coordinates, `drawGridLines` outlines hexes and
+     * `drawHex` fills them. Set once at creation.
+     */
+    grid?: GridLayout;
+    /**
+     * Repeat the world endlessly along an axis, like the east-west seam of a
+     * world map. `{ x: 360 }` makes world x `0` and `360` the same place:
+     * registered content is drawn once per repetition across the view,
+     * panning never runs out, and event coords and `hitTest` report
+     * positions in the canonical range `[0, x)`. Default `{}` (no wrap).
+     * A wrapped axis cannot also have finite `bounds`. Set once at creation.
+     */
+    wrap?: WorldWrap;
     /**
      * When true, the initial center snaps to the nearest grid-aligned value
      * for pixel-perfect alignment: half-integers (x.5) for even tile counts,
@@ -111,6 +153,64 @@ export type CanvasTileEngineConfig = {
     };
 };
 
+/**
+ * Zoom stops for {@link CanvasTileEngineConfig.zoomLevels}:
+ * - an explicit list of scales, e.g. `[1, 2, 3, 4, 6, 8]`;
+ * - `"integers"` — 1, 2, 3, … (whole screen pixels per tile, for pixel art);
+ * - `"powers-of-two"` — …, 0.25, 0.5, 1, 2, 4, ….
+ */
+export type ZoomLevels = readonly number[] | "integers" | "powers-of-two";
+
+/**
+ * Grid projection for {@link CanvasTileEngineConfig.projection}:
+ * - `{ type: "orthogonal" }` — square cells, the world axes along the screen axes;
+ * - `{ type: "isometric", tileRatio }` — diamond cells `tileRatio` times as
+ *   tall as they are wide. The default `0.5` is the common 2:1 dimetric
+ *   "isometric" of pixel-art games; `Math.tan(Math.PI / 6)` (≈ 0.577) is
+ *   true isometric.
+ *
+ * Under an isometric projection images, sprites and text stay upright (they
+ * are not flattened into the diamond) and are drawn back to front by row
+ * within each draw call.
+ */
+export type Projection = { type: "orthogonal" } | { type: "isometric"; tileRatio?: number };
+
+/**
+ * Cell shape for {@link CanvasTileEngineConfig.grid}:
+ * - `{ type: "square" }` — unit squares centered on integer coordinates;
+ * - `{ type: "hex", orientation, coordinates }` — hexagons, see {@link HexLayout}.
+ */
+export type GridLayout = { type: "square" } | ({ type: "hex" } & HexLayout);
+
+/**
+ * How hexes are shaped and addressed. Hex `{ x: 0, y: 0 }` is centered on
+ * world `(0, 0)`, and a hex is one world unit across its flat sides.
+ *
+ * - `orientation`: `"pointy"` (default) puts a corner at the top and lines
+ *   hexes up in rows; `"flat"` puts a flat side at the top and lines them
+ *   up in columns.
+ * - `coordinates`: `"axial"` (default) addresses hexes as `{ x: q, y: r }`,
+ *   the system neighbor and distance math is simplest in. `"odd"` and
+ *   `"even"` are offset coordinates `{ x: column, y: row }`, with the odd or
+ *   even rows (pointy) or columns (flat) pushed half a hex along — the
+ *   layout of a rectangular board.
+ */
+export type HexLayout = {
+    orientation?: "pointy" | "flat";
+    coordinates?: "axial" | "odd" | "even";
+};
+
+/**
+ * World periods for {@link CanvasTileEngineConfig.wrap}, in world units
+ * (cells). The canonical copy of the world spans `[0, x)` by `[0, y)` in the
+ * corner space of event `coords.raw`, so cells `0` to `x - 1`; an axis left
+ * out does not wrap.
+ */
+export type WorldWrap = {
+    x?: number;
+    y?: number;
+};
+
 /**
  * Anchor point for zoom interactions (wheel and pinch):
  * - `"pointer"` — zoom toward the mouse cursor / pinch midpoint.
@@ -118,12 +218,219 @@ export type CanvasTileEngineConfig = {
  */
 export type ZoomMode = "pointer" | "center";
 
+/**
+ * What wheel input does, for {@link ZoomOptions.wheel}:
+ * - `"zoom"` — every wheel event zooms, mouse wheels and trackpad scrolls alike.
+ * - `"auto"` — mouse wheels zoom, two-finger trackpad scrolls pan, trackpad
+ *   pinches (Ctrl+wheel, Safari `gesture*` events) zoom.
+ * - `"pan"` — mouse wheels and trackpad scrolls pan; only pinches zoom.
+ *
+ * Trackpads and mouse wheels both arrive as `wheel` events, so `"auto"` tells
+ * them apart heuristically (delta mode, legacy `wheelDeltaY`, horizontal
+ * delta, delta size) and keeps a classification for the rest of a scroll
+ * burst. Scroll pans require `drag`; without it they are left to the page.
+ */
+export type WheelMode = "zoom" | "auto" | "pan";
+
+/**
+ * Zoom options for {@link EventHandlers.zoom}.
+ */
+export type ZoomOptions = {
+    /** Zoom anchor. Default `"pointer"`. */
+    anchor?: ZoomMode;
+    /** What wheel input does. Default `"zoom"`. */
+    wheel?: WheelMode;
+};
+
+/**
+ * Kinetic panning after a drag is released. The camera keeps moving at the
+ * release velocity and slows down until it stops.
+ */
+export type InertiaOptions = {
+    /**
+     * Fraction of the fling velocity lost per 60 Hz frame, in `(0, 1]`.
+     * Lower values glide further; `1` stops dead. Default `0.05`.
+     */
+    friction?: number;
+};
+
+/**
+ * Rubber-band overscroll. Drags may pull the view past the camera bounds and
+ * pinches past `minScale`/`maxScale`, against increasing resistance; on
+ * release the view springs back inside the limits.
+ */
+export type RubberBandOptions = {
+    /**
+     * How much of the pull shows just past a limit, in `(0, 1]`. Lower
+     * values resist more. Default `0.55`.
+     */
+    resistance?: number;
+    /**
+     * Screen pixels a drag can approach, but never reach, past the bounds.
+     * Default `160`.
+     */
+    maxOverscrollPx?: number;
+    /**
+     * Factor (> 1) a pinch can approach, but never reach, past `maxScale`
+     * (or below `minScale`). Default `1.5`.
+     */
+    maxOverscale?: number;
+};
+
+/** An action the keyboard can trigger when `eventHandlers.keyboard` is on. */
+export type KeyboardAction = "panUp" | "panDown" | "panLeft" | "panRight" | "zoomIn" | "zoomOut" | "reset";
+
+/**
+ * Keyboard navigation. Keys are matched against `KeyboardEvent.key`; single
+ * letters match case-insensitively, so `"w"` also covers Shift+W and Caps Lock.
+ */
+export type KeyboardOptions = {
+    /** Screen pixels panned per key press. Default `64`. */
+    panStep?: number;
+    /** Zoom multiplier per key press, greater than 1. Default `1.5`, matching `zoomIn()` / `zoomOut()`. */
+    zoomFactor?: number;
+    /**
+     * Where the reset key returns to: a world center and optionally a scale.
+     * Default: the view the engine was created with.
+     */
+    home?: { x: number; y: number; scale?: number };
+    /**
+     * Keys per action. An entry replaces that action's defaults; an empty
+     * array unbinds it. Defaults: arrows and WASD pan, `+`/`=` zoom in,
+     * `-`/`_` zoom out, Home resets.
+     */
+    bindings?: Partial<Record<KeyboardAction, string[]>>;
+};
+
+/** A modifier key, as `MouseEvent.shiftKey`, `altKey`, `ctrlKey` and `metaKey` report it. */
+export type ModifierKey = "shift" | "alt" | "ctrl" | "meta";
+
+/** Appearance of the marquee box. Widths are screen pixels. */
+export type MarqueeStyle = {
+    fillStyle?: string;
+    strokeStyle?: string;
+    lineWidthPx?: number;
+};
+
+/**
+ * Marquee (rubber-band) selection. A drag that starts off any draggable item
+ * draws a selection box instead of panning, and `onMarqueeChange` /
+ * `onMarqueeEnd` report the items it covers, as `hitTestRect` finds them.
+ */
+export type MarqueeOptions = {
+    /**
+     * Key that turns a drag into a marquee; drags without it still pan.
+     * `"none"` makes every drag a marquee — the selection-tool mode, and the
+     * only one touch input can use. Default `"shift"`.
+     */
+    modifier?: ModifierKey | "none";
+    /** `"intersect"` (default): any overlap selects. `"contain"`: only items fully inside. */
+    mode?: "intersect" | "contain";
+    /** Only select items drawn on this layer. */
+    layer?: number;
+    /** Box appearance. Default: translucent blue fill, 1 px blue outline. */
+    style?: MarqueeStyle;
+};
+
+/**
+ * Double-click and double-tap detection. Two clicks or taps count as one
+ * double when the second lands within `intervalMs` and `tolerancePx` of the
+ * first; each still fires `onClick`.
+ */
+export type DoubleClickOptions = {
+    /** Longest gap between the two clicks, in milliseconds. Default `300`. */
+    intervalMs?: number;
+    /** Farthest the second click may land from the first, in screen pixels. Default `10`. */
+    tolerancePx?: number;
+    /**
+     * Built-in zoom: a double-click or double-tap zooms in by `zoomFactor`,
+     * and a two-finger tap zooms out (touch, with pinch `zoom` on). Anchored
+     * like the other zoom gestures and landing on `zoomLevels` when set.
+     * Default `false`.
+     */
+    zoom?: boolean;
+    /** Zoom multiplier per double-tap, greater than 1. Default `2`. */
+    zoomFactor?: number;
+};
+
+/**
+ * Long-press detection: a press held still for `delayMs` fires
+ * `onLongPress`, and its release no longer counts as a click.
+ */
+export type LongPressOptions = {
+    /** How long the press must be held, in milliseconds. Default `500`. */
+    delayMs?: number;
+    /** Movement (screen pixels) that cancels the press. Default `10`. */
+    tolerancePx?: number;
+};
+
+/**
+ * Canvas cursors the engine shows while `eventHandlers.cursor` is on, as
+ * CSS cursor values. Over an item whose draw call has a `cursorOf`, the
+ * item's cursor replaces `idle`.
+ */
+export type CursorOptions = {
+    /** Over empty space or items without a cursor. Default `"default"`. */
+    idle?: string;
+    /** While a drag pans the camera. Default `"grabbing"`. */
+    panning?: string;
+    /** While an item is dragged (see `draggable`). Default `"grabbing"`. */
+    dragging?: string;
+};
+
 export type EventHandlers = {
     click?: boolean;
     rightClick?: boolean;
     hover?: boolean;
+    /**
+     * Double-click / double-tap: `true` uses the defaults. Options tune the
+     * timing and opt into double-tap zoom. The config snapshot holds resolved
+     * options or `false`.
+     */
+    doubleClick?: boolean | DoubleClickOptions;
+    /**
+     * Long press (mouse or touch): `true` uses the defaults. The config
+     * snapshot holds resolved options or `false`.
+     */
+    longPress?: boolean | LongPressOptions;
     drag?: boolean;
-    /** Zoom behavior: `false` disables zoom, `true` is shorthand for `"pointer"`. */
-    zoom?: boolean | ZoomMode;
+    /**
+     * Keep panning after a drag is released (requires `drag`). `true` uses the
+     * default friction. A new pointer down stops the fling, camera bounds end
+     * it at the edge, and reduced motion disables it.
+     */
+    inertia?: boolean | InertiaOptions;
+    /**
+     * Soft limits (requires `drag` or `zoom`): drags stretch past the camera
+     * bounds and pinches past the scale limits with increasing resistance,
+     * then spring back on release. `true` uses the defaults. Reduced motion
+     * snaps back instead of springing.
+     */
+    rubberBand?: boolean | RubberBandOptions;
+    /**
+     * Keyboard pan/zoom/reset while the canvas has focus (browser renderers).
+     * Enabling it at creation makes the canvas focusable (`tabIndex = 0`).
+     * Key presses with Ctrl, Meta or Alt held are left to the browser.
+     */
+    keyboard?: boolean | KeyboardOptions;
+    /**
+     * Let the engine manage the canvas cursor (browser renderers): `true`
+     * uses the defaults. Item cursors from `cursorOf` follow the pointer
+     * whether or not `hover` is on. The config snapshot holds resolved
+     * options or `false`; with `false` the engine never touches the cursor.
+     */
+    cursor?: boolean | CursorOptions;
+    /**
+     * Marquee selection: `true` uses the defaults (Shift+drag). Works with
+     * `drag` on or off. The config snapshot holds resolved options or `false`.
+     */
+    marquee?: boolean | MarqueeOptions;
+    /**
+     * Zoom behavior: `false` disables zoom, `true` is shorthand for
+     * `"pointer"`, and a mode is shorthand for `{ anchor: mode }`. Options
+     * also choose what wheel input does (see {@link WheelMode}). The config
+     * snapshot always holds resolved options or `false`.
+     */
+    zoom?: boolean | ZoomMode | ZoomOptions;
     resize?: boolean;
 };
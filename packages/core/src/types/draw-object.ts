@@ -262,3 +262,26 @@ export type PathItem<TData = unknown> = {
      */
     data?: TData;
 };
+
+/**
+ * One filled and/or outlined hex cell for `drawHex` — the hex-grid
+ * counterpart of a `Rect`. `x`/`y` are hex coordinates in the grid's
+ * configured system (axial `q`/`r`, or offset column/row), the same values
+ * event `coords.snapped` reports.
+ */
+export type HexItem<TData = unknown> = {
+    x: number;
+    y: number;
+    /**
+     * Fraction of the cell the hex covers, in `(0, 1]`. Default `1` fills the
+     * cell edge to edge; smaller values leave a gap to the neighbors.
+     */
+    size?: number;
+    style?: PathStyle;
+    /**
+     * Arbitrary app data attached to the item. Never read by the engine or
+     * renderers; carried through so `hitTest` results can identify the item
+     * without relying on array positions.
+     */
+    data?: TData;
+};
@@ -1,10 +1,15 @@
 import { Config } from "../modules/Config";
 import { CoordinateTransformer } from "../modules/CoordinateTransformer";
 import { ViewportState } from "../modules/ViewportState";
+import type { PointerCapture } from "../modules/GestureProcessor";
 import {
+    ItemDragHandlers,
+    ItemEventHandlers,
     onClickCallback,
+    onDoubleClickCallback,
     onDrawCallback,
     onHoverCallback,
+    onLongPressCallback,
     onMouseDownCallback,
     onMouseLeaveCallback,
     onMouseUpCallback,
@@ -12,8 +17,8 @@ import {
     onWheelCallback,
     onZoomCallback,
 } from "./callback";
-import { Circle, DrawObject, ImageItem, Line, PathItem, PathStyle, Rect, Text } from "./draw-object";
-import { CanvasTileEngineConfig } from "./config";
+import { Circle, DrawObject, HexItem, ImageItem, Line, PathItem, PathStyle, Rect, Text } from "./draw-object";
+import { CanvasTileEngineConfig, Projection } from "./config";
 
 export type Coords = {
     x: number;
@@ -71,6 +76,46 @@ export interface Bounds {
     maxY: number;
 }
 
+/** Named easing curves for camera animations. */
+export type EasingName =
+    | "linear"
+    | "easeIn"
+    | "easeOut"
+    | "easeInOut"
+    | "easeInCubic"
+    | "easeOutCubic"
+    | "easeInOutCubic";
+
+/** Custom easing: maps progress in [0, 1] to eased progress (0 at 0, 1 at 1). */
+export type EasingFunction = (t: number) => number;
+
+/**
+ * Spring physics instead of a fixed-length curve. The animation runs until
+ * the spring settles, so `durationMs` is ignored (except 0, which is still
+ * instant). Retargeting a running spring keeps its velocity, so a new
+ * `goCenter` mid-flight bends the motion instead of restarting it.
+ */
+export interface SpringEasing {
+    type: "spring";
+    /** Pull toward the target; higher is snappier. Default 170. */
+    stiffness?: number;
+    /** Resistance to motion; lower overshoots more. Default 26 (critically damped at the default stiffness). */
+    damping?: number;
+}
+
+/** How a camera animation moves from start to target. */
+export type Easing = EasingName | EasingFunction | SpringEasing;
+
+/** Options for animated camera methods (`goCenter`, `goScale`, `resize`). */
+export interface AnimateOptions {
+    /** Animation duration in ms (default 500, 0 for `setViewState`). Use 0 for an instant change. */
+    durationMs?: number;
+    /** Easing preset, custom function or spring. Default `"easeInOut"` (`"linear"` for `resize`). */
+    easing?: Easing;
+    /** Fired when the animation completes (synchronously when instant). */
+    onComplete?: () => void;
+}
+
 /** Options for the engine's `fitBounds` method. */
 export interface FitBoundsOptions {
     /**
@@ -89,6 +134,8 @@ export interface FitBoundsOptions {
     paddingPx?: number;
     /** Animation duration in ms (default 500). Use 0 for an instant jump. */
     durationMs?: number;
+    /** Easing preset, custom function or spring. Default `"easeInOut"`. */
+    easing?: Easing;
     /** Fired when the fit completes (synchronously when instant). */
     onComplete?: () => void;
 }
@@ -109,6 +156,194 @@ export interface FitBoundsResult {
     fitted: boolean;
 }
 
+/** Options for the engine's `flyTo` method. */
+export interface FlyToOptions {
+    /** World center to land on. Default: the current center. */
+    center?: Coords;
+    /** Scale to land on, clamped to `minScale`/`maxScale`. Default: the current scale. */
+    scale?: number;
+    /**
+     * Flight duration in ms. Omit to derive it from the path length (at
+     * least 500), so longer jumps take longer. Use 0 for an instant jump.
+     */
+    durationMs?: number;
+    /** Fired when the flight lands (synchronously when instant). Not fired when the flight is cancelled. */
+    onComplete?: () => void;
+}
+
+/**
+ * A serializable snapshot of the camera: everything needed to show the same
+ * view again, e.g. from a shared link. Plain JSON-safe numbers only.
+ */
+export interface ViewState {
+    /** World point at the viewport center. */
+    center: Coords;
+    /** Pixels per world unit. */
+    scale: number;
+    /** View rotation in degrees, positive clockwise, in [0, 360). */
+    rotation: number;
+    /** Viewport size in px when the state was taken; lets a smaller or larger viewport show the same area. */
+    size: { width: number; height: number };
+}
+
+/** A view to restore: {@link ViewState} with `rotation` and `size` optional. */
+export type ViewStateInput = Pick<ViewState, "center" | "scale"> & Partial<Pick<ViewState, "rotation" | "size">>;
+
+/** Options for the engine's `setViewState` method. */
+export interface SetViewStateOptions extends AnimateOptions {
+    /**
+     * What to keep when the viewport size differs from the state's `size`:
+     * - `"scale"` (default) — the exact scale; a smaller viewport shows less.
+     * - `"extent"` — the visible world area; the scale changes so everything
+     *   the state's viewport showed stays visible. Needs `size`.
+     */
+    match?: "scale" | "extent";
+}
+
+/**
+ * The view-state surface of an engine, which helpers such as
+ * `syncViewStateWithUrl` and `linkCameras` work through. Engines and the
+ * React engine handles both fit it.
+ */
+export interface ViewStateTarget {
+    getViewState(): ViewState;
+    setViewState(state: ViewStateInput, options?: SetViewStateOptions): void;
+    subscribeViewState(listener: (state: ViewState) => void): () => void;
+}
+
+/**
+ * What `linkCameras` keeps in lockstep:
+ * - `"center"` — the center; each engine keeps its own scale.
+ * - `"center+scale"` — center and scale: every engine shows the same view.
+ * - `"offset"` — the center offsets and scale ratios the engines had when linked.
+ */
+export type CameraLinkMode = "center" | "center+scale" | "offset";
+
+/** Options for `linkCameras`. */
+export interface LinkCamerasOptions {
+    /** What to keep in lockstep. Default `"center+scale"`. */
+    mode?: CameraLinkMode;
+}
+
+/** How a minimap outlines the main viewport. */
+export interface MinimapViewportStyle {
+    /** Fill inside the outline. Default `"rgba(255, 255, 255, 0.25)"`. */
+    fillStyle?: string;
+    /** Outline color. Default `"#ff3b30"`. */
+    strokeStyle?: string;
+    /** Outline width in minimap pixels. Default `2`. */
+    lineWidth?: number;
+}
+
+/** Options for the engine's `createMinimap` method. */
+export interface MinimapOptions {
+    /** Minimap size in pixels. */
+    size: { width: number; height: number };
+    /**
+     * World area the minimap shows, fitted into `size`. Default: the
+     * camera `bounds`; required when those are unbounded.
+     */
+    bounds?: Bounds;
+    /** Layers to paint, e.g. `[0, 1]` for the terrain without markers. Default: every layer. */
+    layers?: readonly number[];
+    /** Minimap background. Default: the engine's `backgroundColor`. */
+    backgroundColor?: string;
+    /** How the main viewport is outlined. */
+    viewportStyle?: MinimapViewportStyle;
+    /** Whether clicks and drags move the main camera. Default `true`. */
+    interactive?: boolean;
+    /**
+     * Animation in ms when a press outside the viewport outline recenters
+     * the main camera. Default `0` (jump). Dragging always moves instantly.
+     */
+    durationMs?: number;
+}
+
+/** Everything a renderer needs to paint one minimap frame. */
+export interface MinimapFrame {
+    /** The view the minimap shows: its world area fitted into its size, never rotated. */
+    view: ViewState;
+    /** Layers to paint; `undefined` paints every layer. */
+    layers?: readonly number[];
+    backgroundColor: string;
+    /**
+     * Corners of the main viewport in minimap pixels, clockwise from the
+     * top-left. A rotated main view gives a rotated quad.
+     */
+    viewport: Coords[];
+    viewportStyle: Required<MinimapViewportStyle>;
+}
+
+/**
+ * Point of an overlay element placed on its world position: `"center"`, the
+ * middle of an edge (`"bottom"` rests the element on the point, like a map
+ * pin or a popup above a marker) or a corner.
+ */
+export type OverlayAnchor =
+    | "center"
+    | "top"
+    | "bottom"
+    | "left"
+    | "right"
+    | "top-left"
+    | "top-right"
+    | "bottom-left"
+    | "bottom-right";
+
+/** Options for the engine's `addOverlay` method. */
+export interface OverlayOptions {
+    /** World X in item space (integers are cell centers, like draw items). */
+    x: number;
+    /** World Y in item space. */
+    y: number;
+    /** Point of the element placed on `x`/`y`. Default `"center"`. */
+    anchor?: OverlayAnchor;
+    /** Screen-pixel nudge applied after anchoring, e.g. `{ x: 0, y: -8 }`. Default none. */
+    offsetPx?: Coords;
+    /**
+     * Scale the element with the camera zoom: `true` shows it at its own
+     * size at the config's initial `scale`, a number at that scale. Default
+     * `false`: the element keeps its screen size.
+     */
+    scaleWithZoom?: boolean | number;
+}
+
+/** An element placed with `addOverlay`. */
+export interface OverlayHandle {
+    /**
+     * Move or re-anchor the overlay; omitted fields keep their values.
+     * @throws {ConfigValidationError} If an option is invalid.
+     */
+    update(options: Partial<OverlayOptions>): void;
+    /** Take the element out of the overlay layer. */
+    remove(): void;
+}
+
+/** Options for the engine's `follow` method. */
+export interface FollowOptions {
+    /**
+     * Screen-pixel box centered in the viewport inside which the target may
+     * move without the camera following. Default `{ width: 0, height: 0 }`:
+     * the target stays centered.
+     */
+    deadzone?: { width: number; height: number };
+    /**
+     * Fraction of the remaining offset the camera closes per 60 Hz frame, in
+     * `(0, 1]`. `1` (default) locks onto the target; lower values trail
+     * behind it smoothly. Treated as `1` under reduced motion.
+     */
+    smoothing?: number;
+    /**
+     * Aim where the target will be this many ms from now at its current
+     * velocity, so a moving target has room ahead of it. Default `0`.
+     */
+    lookaheadMs?: number;
+    /** End the follow when the user starts dragging the map. Default `true`. */
+    breakOnDrag?: boolean;
+    /** Fired when a drag ends the follow (not on `unfollow()` or a replacing `follow()`). */
+    onBreak?: () => void;
+}
+
 export interface ViewportBounds {
     left: number;
     top: number;
@@ -144,7 +379,13 @@ export interface IRenderer<TMount = HTMLDivElement, TImage = HTMLImageElement> {
      * controller's motion policy; a renderer that animates by other means must
      * consult `deps.config.getReducedMotion()` itself.
      */
-    resizeWithAnimation(width: number, height: number, durationMs: number, onComplete?: () => void): void;
+    resizeWithAnimation(
+        width: number,
+        height: number,
+        durationMs: number,
+        onComplete?: () => void,
+        easing?: Easing,
+    ): void;
     destroy(): void;
 
     // ─── Draw API ───
@@ -158,6 +399,8 @@ export interface IRenderer<TMount = HTMLDivElement, TImage = HTMLImageElement> {
 
     // ─── Event Callbacks ───
     onClick?: onClickCallback;
+    onDoubleClick?: onDoubleClickCallback;
+    onLongPress?: onLongPressCallback;
     onRightClick?: onRightClickCallback;
     onHover?: onHoverCallback;
     onMouseDown?: onMouseDownCallback;
@@ -167,13 +410,50 @@ export interface IRenderer<TMount = HTMLDivElement, TImage = HTMLImageElement> {
     onWheel?: onWheelCallback;
     onResize?: () => void;
     onCameraChange?: () => void;
+    /**
+     * Engine hook, like `onCameraChange`: fired once per gesture when a
+     * pointer or touch drag actually starts panning the camera.
+     */
+    onDragStart?: () => void;
+    /**
+     * Engine hook: claims pointer drags from the camera (item dragging).
+     * Forward it to the renderer's `GestureProcessor.pointerCapture`.
+     */
+    pointerCapture?: PointerCapture;
     onDraw?: onDrawCallback;
+
+    // ─── Cursor ───
+    /**
+     * Show `cursor` (a CSS cursor value) over the drawing surface. Called by
+     * the engine while `eventHandlers.cursor` is on, only when the cursor
+     * changes. Optional: a renderer without a pointer cursor leaves it out.
+     */
+    setCursor?(cursor: string): void;
+
+    // ─── Overlays ───
+    /**
+     * Place `element` in a layer above the drawing surface, pinned to a world
+     * position and repositioned on every render. Receives validated options.
+     * Optional: a renderer without a DOM cannot host overlays.
+     */
+    addOverlay?(element: unknown, options: OverlayOptions): OverlayHandle;
+
+    // ─── Minimap ───
+    /**
+     * Paint a minimap frame onto `target`: the background, the frame's
+     * layers seen from `frame.view`, then the main viewport outline.
+     * `target` is the renderer's own surface kind (an `HTMLCanvasElement`
+     * for the canvas and WebGL renderers, an `SkCanvas` for Skia). Optional: a
+     * renderer without it cannot back a minimap.
+     */
+    renderMinimap?(target: unknown, frame: MinimapFrame): void;
 }
 
 export interface IDrawAPI<TImage = HTMLImageElement> {
     addDrawFunction(
         fn: (ctx: unknown, coords: Coords, config: Required<CanvasTileEngineConfig>, transform: DrawTransform) => void,
         layer?: number,
+        options?: ScaleRange,
     ): DrawHandle;
     drawRect(
         items: Rect | Rect[],
@@ -209,7 +489,12 @@ export interface IDrawAPI<TImage = HTMLImageElement> {
         layer?: number,
         options?: RendererDrawOptions<PathItem, PathDecorationStyle>,
     ): DrawHandle;
-    drawGridLines(cellSize: number, style: { lineWidth: number; strokeStyle: string }, layer?: number): DrawHandle;
+    drawGridLines(
+        cellSize: number,
+        style: { lineWidth: number; strokeStyle: string },
+        layer?: number,
+        options?: ScaleRange,
+    ): DrawHandle;
     drawStaticRect(items: Rect[], cacheKey: string, layer?: number): DrawHandle;
     drawStaticCircle(items: Circle[], cacheKey: string, layer?: number): DrawHandle;
     drawStaticImage(items: ImageItem<TImage>[], cacheKey: string, layer?: number): DrawHandle;
@@ -217,6 +502,9 @@ export interface IDrawAPI<TImage = HTMLImageElement> {
     clearLayer(layer: number): void;
     clearAll(): void;
     clearStaticCache(cacheKey?: string): void;
+    /** Show a whole layer only within `range` (on top of each registration's
+     * own range); `undefined` removes the limit. Kept across `clearLayer`. */
+    setLayerScaleRange(layer: number, range: ScaleRange | undefined): void;
 }
 
 export interface DrawHandle {
@@ -233,6 +521,10 @@ export interface DrawHandle {
  *
  * Identify items through `item.data` (the same convention as `hitTest`
  * results); most items should return `undefined`.
+ *
+ * For selection highlighting there is a declarative shortcut: the
+ * `selectedStyle` draw option overlays its fields on every item whose `data`
+ * is selected in `engine.selection`, on top of whatever `styleOf` returns.
  */
 export type StyleOf<TItem, TStyle> = (item: TItem) => TStyle | undefined;
 
@@ -257,23 +549,64 @@ export type VisibleOf<TItem> = (item: TItem) => boolean | undefined;
  */
 export type InteractiveOf<TItem> = (item: TItem) => boolean | undefined;
 
+/**
+ * Per-item hover cursor. Runs on hover for the topmost hit: return a CSS
+ * cursor value (`"pointer"`, `"move"`, …) to show over the item, or
+ * `undefined` for the idle cursor. Needs `eventHandlers.cursor`;
+ * renderers without a pointer cursor ignore it.
+ */
+export type CursorOf<TItem> = (item: TItem) => string | undefined;
+
 /**
  * Paint-time options the engine threads into a renderer's `IDrawAPI` draw
  * methods. Only `styleOf` and `visibleOf` reach renderers — registration
- * concerns (`id`) and hit-test concerns (`interactiveOf`) are resolved in
- * the engine.
+ * concerns (`id`) and hit-test concerns (`interactiveOf`, `cursorOf`) are
+ * resolved in the engine.
  */
-export interface RendererDrawOptions<TItem, TStyle> {
+export interface RendererDrawOptions<TItem, TStyle> extends ScaleRange {
     styleOf?: StyleOf<TItem, TStyle>;
     visibleOf?: VisibleOf<TItem>;
+    /** Opacity (0..1) of the whole registration, on top of any scale-range
+     * fade. Set by the engine for the item drag ghost. */
+    opacity?: number;
+    /** Register in place of this handle, keeping its draw order and id (the
+     * same handle is returned). Set by the engine to refresh a registration
+     * whose items moved in place, so culling sees the new positions. */
+    replace?: DrawHandle;
 }
 
 /**
  * Paint-time options for `drawImage` — images carry no `style`, so only
- * `visibleOf` reaches renderers.
+ * `visibleOf` and the scale range reach renderers.
  */
-export interface RendererImageDrawOptions<TImage> {
+export interface RendererImageDrawOptions<TImage> extends ScaleRange {
     visibleOf?: VisibleOf<ImageItem<TImage>>;
+    /** See {@link RendererDrawOptions.opacity}. */
+    opacity?: number;
+    /** See {@link RendererDrawOptions.replace}. */
+    replace?: DrawHandle;
+}
+
+/**
+ * Zoom range in which a registration (or a whole layer) is shown — level of
+ * detail without per-item `visibleOf` callbacks. Outside the range the
+ * renderer skips the registration's callback entirely and its items do not
+ * hit-test.
+ */
+export interface ScaleRange {
+    /** Smallest camera scale (px per world unit) at which the content shows. */
+    minScale?: number;
+    /** Largest camera scale at which the content shows. */
+    maxScale?: number;
+    /**
+     * Width of a cross-fade band centered on each threshold, in scale units:
+     * opacity ramps from 0 at `minScale - scaleFade / 2` to 1 at
+     * `minScale + scaleFade / 2` (and back down around `maxScale`). A coarse
+     * layer with `maxScale: 20` and a detail layer with `minScale: 20` and the
+     * same fade blend into each other. Hit testing follows the hard
+     * thresholds. Default `0` (no fade).
+     */
+    scaleFade?: number;
 }
 
 /** Decoration fields for `Rect`/`Circle` — the full shape style (stroke width
@@ -300,7 +633,7 @@ export type PathDecorationStyle = Omit<PathStyle, "lineWidth" | "lineWidthPx" |
 /**
  * Options accepted by the engine draw helpers (`drawRect`, `drawCircle`, ...).
  */
-export interface DrawOptions {
+export interface DrawOptions extends ScaleRange {
     /**
      * Stable identity for this registration. Calling any draw method again
      * with the same id atomically replaces the previous registration: the old
@@ -323,6 +656,37 @@ export interface DrawOptions {
     hitTest?: boolean;
 }
 
+/**
+ * How a draggable registration's items move. Pressing one claims the pointer:
+ * the camera does not pan, a translucent ghost previews the drop position
+ * while the item stays put, and at the drop the engine moves the item (its
+ * position fields are updated in place) and re-indexes it for hit testing.
+ */
+export interface DraggableOptions {
+    /**
+     * Snap the item's anchor (see `ItemDragInfo`) while dragging:
+     * `"cell"` to cell centers (hex centers on a hex grid), or a function
+     * mapping the unsnapped anchor to the snapped one, in item space.
+     * Default: no snapping; `drawHex` items always snap to hex centers.
+     */
+    snap?: "cell" | ((position: Coords) => Coords);
+    /**
+     * Preview the drop position with a translucent copy of the item.
+     * Default `true`; with `false`, preview from `onItemDragMove` yourself.
+     */
+    ghost?: boolean;
+}
+
+/** Options shared by the draw methods whose items can be dragged. */
+export interface DraggableDrawOptions<TImage = unknown, TData = unknown> extends ItemDragHandlers<TImage, TData> {
+    /**
+     * Let the user move these items with the pointer: `true` for the
+     * defaults, or {@link DraggableOptions}. Items kept out of hit testing
+     * cannot be picked up. Default `false`.
+     */
+    draggable?: boolean | DraggableOptions;
+}
+
 /** Options for the static draw helpers (`drawStaticRect`, ...). Their
  * `cacheKey` already plays the registration-id role, so only the hit-test
  * opt-out applies. */
@@ -333,23 +697,33 @@ export interface StaticDrawOptions {
 }
 
 /** Options for {@link CanvasTileEngine.drawRect}. */
-export interface RectDrawOptions<TData = unknown> extends DrawOptions {
+export interface RectDrawOptions<TData = unknown>
+    extends DrawOptions, ItemEventHandlers<unknown, TData>, DraggableDrawOptions<unknown, TData> {
     /** Paint-time decoration; see {@link StyleOf}. */
     styleOf?: StyleOf<Rect<TData>, ShapeDecorationStyle>;
+    /** Selection highlight, overlaid on top of `styleOf`; see {@link StyleOf}. */
+    selectedStyle?: ShapeDecorationStyle;
     /** Per-item visibility; see {@link VisibleOf}. */
     visibleOf?: VisibleOf<Rect<TData>>;
     /** Per-item hit-test opt-out; see {@link InteractiveOf}. */
     interactiveOf?: InteractiveOf<Rect<TData>>;
+    /** Per-item hover cursor; see {@link CursorOf}. */
+    cursorOf?: CursorOf<Rect<TData>>;
 }
 
 /** Options for {@link CanvasTileEngine.drawCircle}. */
-export interface CircleDrawOptions<TData = unknown> extends DrawOptions {
+export interface CircleDrawOptions<TData = unknown>
+    extends DrawOptions, ItemEventHandlers<unknown, TData>, DraggableDrawOptions<unknown, TData> {
     /** Paint-time decoration; see {@link StyleOf}. */
     styleOf?: StyleOf<Circle<TData>, ShapeDecorationStyle>;
+    /** Selection highlight, overlaid on top of `styleOf`; see {@link StyleOf}. */
+    selectedStyle?: ShapeDecorationStyle;
     /** Per-item visibility; see {@link VisibleOf}. */
     visibleOf?: VisibleOf<Circle<TData>>;
     /** Per-item hit-test opt-out; see {@link InteractiveOf}. */
     interactiveOf?: InteractiveOf<Circle<TData>>;
+    /** Per-item hover cursor; see {@link CursorOf}. */
+    cursorOf?: CursorOf<Circle<TData>>;
 }
 
 /** Options for {@link CanvasTileEngine.drawText}. Text never enters hit
@@ -357,6 +731,8 @@ export interface CircleDrawOptions<TData = unknown> extends DrawOptions {
 export interface TextDrawOptions<TData = unknown> extends DrawOptions {
     /** Paint-time decoration; see {@link StyleOf}. */
     styleOf?: StyleOf<Text<TData>, TextDecorationStyle>;
+    /** Selection highlight, overlaid on top of `styleOf`; see {@link StyleOf}. */
+    selectedStyle?: TextDecorationStyle;
     /** Per-item visibility; see {@link VisibleOf}. */
     visibleOf?: VisibleOf<Text<TData>>;
 }
@@ -366,27 +742,36 @@ export interface TextDrawOptions<TData = unknown> extends DrawOptions {
  * call-level `style` per item, which also makes it the way to give individual
  * lines their own color.
  */
-export interface LineDrawOptions<TData = unknown> extends DrawOptions {
+export interface LineDrawOptions<TData = unknown>
+    extends DrawOptions, ItemEventHandlers<unknown, TData>, DraggableDrawOptions<unknown, TData> {
     /** Paint-time decoration; see {@link StyleOf}. */
     styleOf?: StyleOf<Line<TData>, LineDecorationStyle>;
+    /** Selection highlight, overlaid on top of `styleOf`; see {@link StyleOf}. */
+    selectedStyle?: LineDecorationStyle;
     /** Per-item visibility; see {@link VisibleOf}. */
     visibleOf?: VisibleOf<Line<TData>>;
     /** Per-item hit-test opt-out; see {@link InteractiveOf}. */
     interactiveOf?: InteractiveOf<Line<TData>>;
+    /** Per-item hover cursor; see {@link CursorOf}. */
+    cursorOf?: CursorOf<Line<TData>>;
 }
 
 /** Options for {@link CanvasTileEngine.drawImage}. Images carry no `style`,
  * so there is no `styleOf` — appearance changes go through item fields like
  * `opacity` (read live at paint time; mutate + `render()`). */
-export interface ImageDrawOptions<TImage = unknown, TData = unknown> extends DrawOptions {
+export interface ImageDrawOptions<TImage = unknown, TData = unknown>
+    extends DrawOptions, ItemEventHandlers<TImage, TData>, DraggableDrawOptions<TImage, TData> {
     /** Per-item visibility; see {@link VisibleOf}. */
     visibleOf?: VisibleOf<ImageItem<TImage, TData>>;
     /** Per-item hit-test opt-out; see {@link InteractiveOf}. */
     interactiveOf?: InteractiveOf<ImageItem<TImage, TData>>;
+    /** Per-item hover cursor; see {@link CursorOf}. */
+    cursorOf?: CursorOf<ImageItem<TImage, TData>>;
 }
 
 /** Options for {@link CanvasTileEngine.drawPath}. */
-export interface PathDrawOptions<TData = unknown> extends DrawOptions {
+export interface PathDrawOptions<TData = unknown>
+    extends DrawOptions, ItemEventHandlers<unknown, TData>, DraggableDrawOptions<unknown, TData> {
     /**
      * Paint-time decoration; see {@link StyleOf}. Note: hit testing keeps the
      * registration-time semantics — decorating an unfilled path with a
@@ -394,10 +779,34 @@ export interface PathDrawOptions<TData = unknown> extends DrawOptions {
      * stroke to interior.
      */
     styleOf?: StyleOf<PathItem<TData>, PathDecorationStyle>;
+    /** Selection highlight, overlaid on top of `styleOf`; see {@link StyleOf}. */
+    selectedStyle?: PathDecorationStyle;
     /** Per-item visibility; see {@link VisibleOf}. */
     visibleOf?: VisibleOf<PathItem<TData>>;
     /** Per-item hit-test opt-out; see {@link InteractiveOf}. */
     interactiveOf?: InteractiveOf<PathItem<TData>>;
+    /** Per-item hover cursor; see {@link CursorOf}. */
+    cursorOf?: CursorOf<PathItem<TData>>;
+}
+
+/**
+ * Options for {@link CanvasTileEngine.drawHex}. Dragged hexes always land
+ * on a hex: the drop snaps to the nearest hex center (after a `snap`
+ * function, if given), the drag anchor is the hex center, and the dropped
+ * hex item's `x`/`y` become the hex it landed on.
+ */
+export interface HexDrawOptions<TData = unknown>
+    extends DrawOptions, ItemEventHandlers<unknown, TData>, DraggableDrawOptions<unknown, TData> {
+    /** Paint-time decoration; see {@link StyleOf}. Same hit-test caveat as {@link PathDrawOptions.styleOf}. */
+    styleOf?: StyleOf<HexItem<TData>, PathDecorationStyle>;
+    /** Selection highlight, overlaid on top of `styleOf`; see {@link StyleOf}. */
+    selectedStyle?: PathDecorationStyle;
+    /** Per-item visibility; see {@link VisibleOf}. */
+    visibleOf?: VisibleOf<HexItem<TData>>;
+    /** Per-item hit-test opt-out; see {@link InteractiveOf}. */
+    interactiveOf?: InteractiveOf<HexItem<TData>>;
+    /** Per-item hover cursor; see {@link CursorOf}. */
+    cursorOf?: CursorOf<HexItem<TData>>;
 }
 
 /**
@@ -438,19 +847,30 @@ export interface ICamera {
     readonly x: number;
     readonly y: number;
     readonly scale: number;
+    /** View rotation in degrees, positive clockwise around the viewport center. Missing means 0. */
+    readonly rotation?: number;
+    /** Grid projection, applied before the rotation. Missing means orthogonal. */
+    readonly projection?: Projection;
 
     pan(dx: number, dy: number): void;
     zoom(screenX: number, screenY: number, deltaY: number, bounds: ViewportBounds): void;
     zoomByFactor(factor: number, centerX: number, centerY: number): void;
     setScale(scale: number): void;
     setScaleLimits(minScale: number, maxScale: number): void;
+    setRotation(degrees: number): void;
     setCenter(center: Coords, viewportWidth: number, viewportHeight: number): void;
     getCenter(viewportWidth: number, viewportHeight: number): Coords;
     getVisibleBounds(viewportWidth: number, viewportHeight: number): Bounds;
     setBounds(bounds: Bounds): void;
     adjustForResize(dw: number, dh: number): void;
+    /** Run `fn` with the camera showing another view, then restore it (used to paint minimaps). */
+    withView?<T>(
+        view: { x: number; y: number; scale: number; rotation: number; projection?: Projection },
+        fn: () => T,
+    ): T;
 }
 
 export * from "./callback";
 export * from "./config";
 export * from "./draw-object";
+export * from "./tool";
@@ -0,0 +1,144 @@
+import { Bounds, Coords, DrawHandle } from ".";
+import { MarqueeBox, PointerInfo, WheelInfo } from "./callback";
+import { MarqueeOptions, MarqueeStyle } from "./config";
+import type { HitResult, HitTestRectOptions } from "../modules/HitTester";
+import type { Selection } from "../modules/Selection";
+
+/**
+ * Pointer position of a tool event, in the same payloads as the pointer
+ * callbacks, plus the item under it.
+ */
+export interface ToolInputEvent<TImage = unknown> {
+    /** World position: `raw` exact, `snapped` the cell (or hex) under the pointer. */
+    coords: { raw: Coords; snapped: Coords };
+    /**
+     * World position before wrapping. On a wrapped world it keeps counting
+     * past the seam, so the difference between two events is the distance
+     * the pointer swept. Equal to `coords.raw` when nothing wraps.
+     */
+    world: Coords;
+    /** Canvas-relative pixels. */
+    mouse: { raw: Coords; snapped: Coords };
+    /** Viewport-relative pixels. */
+    client: { raw: Coords; snapped: Coords };
+    /** Device and modifier keys. */
+    pointer: PointerInfo;
+    /**
+     * The topmost item under the pointer, as `hitTestFirst` finds it.
+     * Hit-tested on first read, so tools that never look pay nothing.
+     */
+    readonly hit: HitResult<TImage> | undefined;
+}
+
+/** A press, move or release delivered to a {@link Tool}. */
+export interface ToolPointerEvent<TImage = unknown> extends ToolInputEvent<TImage> {
+    /**
+     * Whether the event belongs to a gesture the tool claimed. Moves with it
+     * `false` are hovers between gestures (mouse and pen only).
+     */
+    pressed: boolean;
+}
+
+/** A wheel or trackpad scroll delivered to a {@link Tool}. */
+export interface ToolWheelEvent<TImage = unknown> extends ToolInputEvent<TImage> {
+    wheel: WheelInfo;
+}
+
+/**
+ * A key press delivered to a {@link Tool}. Presses with Ctrl, Meta or Alt
+ * held belong to the browser and never reach tools.
+ */
+export interface ToolKeyEvent {
+    /** The `KeyboardEvent.key` value. */
+    key: string;
+}
+
+/** What a {@link Tool} can do to the engine it runs on. */
+export interface ToolContext<TImage = unknown> {
+    /** Items in a world box (`coords.raw` space), as `engine.hitTestRect` finds them. */
+    hitTestRect(bounds: Bounds, options?: HitTestRectOptions): HitResult<TImage>[];
+    /** The cell (or hex) under a canvas-relative pixel (`mouse.raw` space), as `coords.snapped` reports it. */
+    cellAt(pixel: Coords): Coords;
+    /**
+     * The box between two canvas-relative pixels (`mouse.raw` space), built
+     * like the marquee's: the screen rectangle and the world quad under it.
+     */
+    boxBetween(from: Coords, to: Coords): MarqueeBox;
+    /** Items in a box's world quad, with `hitTestRect`'s options and order. */
+    hitTestBox(box: MarqueeBox, options?: HitTestRectOptions): HitResult<TImage>[];
+    /** The engine's selection model. */
+    readonly selection: Selection;
+    /**
+     * Paint a box over every layer, like the marquee's; remove it with {@link removeBox}.
+     * `style` overlays the marquee's default look (translucent blue fill, 1 px blue outline).
+     */
+    drawBox(box: MarqueeBox, style?: MarqueeStyle): DrawHandle;
+    removeBox(handle: DrawHandle): void;
+    render(): void;
+}
+
+/**
+ * An interaction mode, set with `engine.setTool`. The active tool sees
+ * pointer, wheel and key input before the camera does: a press it claims
+ * never pans, and wheel or key input it consumes never zooms or navigates.
+ * Every handler is optional; a tool without handlers leaves the camera
+ * controls as they are.
+ *
+ * Draggable items still win presses on them, whatever the tool.
+ */
+export interface Tool<TImage = unknown> {
+    /** Name for toolbars and logs, e.g. `"paint"`. */
+    readonly name: string;
+    /**
+     * CSS cursor shown over empty space while the tool is active, in place
+     * of `eventHandlers.cursor.idle`. Needs `eventHandlers.cursor` on.
+     */
+    cursor?: string;
+    /** The tool became active: set, or uncovered by `popTool`. */
+    activate?(context: ToolContext<TImage>): void;
+    /** The tool stopped being active: replaced, covered by `pushTool`, popped, or the engine was destroyed. */
+    deactivate?(context: ToolContext<TImage>): void;
+    /**
+     * A press (primary button, pen contact or one finger). Return `true` to
+     * claim the gesture: its moves and release come to this tool and the
+     * camera does not pan. Otherwise the press is left to the camera.
+     */
+    onPointerDown?(event: ToolPointerEvent<TImage>, context: ToolContext<TImage>): boolean | void;
+    /** The pointer moved: during a claimed gesture (`event.pressed`), or hovering. */
+    onPointerMove?(event: ToolPointerEvent<TImage>, context: ToolContext<TImage>): void;
+    /** A claimed gesture was released. */
+    onPointerUp?(event: ToolPointerEvent<TImage>, context: ToolContext<TImage>): void;
+    /**
+     * A claimed gesture was cut short: the pointer left the canvas, a second
+     * finger started a pinch, or the tool was switched mid-gesture.
+     */
+    onPointerCancel?(context: ToolContext<TImage>): void;
+    /** The pointer left the canvas. */
+    onPointerLeave?(context: ToolContext<TImage>): void;
+    /** A wheel event. Return `true` to consume it: no zoom or scroll pan follows. */
+    onWheel?(event: ToolWheelEvent<TImage>, context: ToolContext<TImage>): boolean | void;
+    /**
+     * A key press while the canvas has focus. Return `true` to consume it:
+     * keyboard navigation skips it and the browser default is prevented.
+     */
+    onKeyDown?(event: ToolKeyEvent, context: ToolContext<TImage>): boolean | void;
+}
+
+/** Options for `paintCellsTool`. */
+export interface PaintCellsToolOptions<TImage = unknown> {
+    /**
+     * Called once per cell (or hex) a stroke crosses, in stroke order. A
+     * fast stroke still paints every cell between two pointer events.
+     */
+    onPaint: (cell: Coords, event: ToolPointerEvent<TImage>) => void;
+    /** Called when a stroke ends, with every cell it painted. */
+    onStrokeEnd?: (cells: Coords[]) => void;
+    /** Cursor while the tool is active. Default `"crosshair"`. */
+    cursor?: string;
+}
+
+/**
+ * Options for `selectTool`: the marquee options without `modifier`, since
+ * every drag draws a box.
+ */
+export type SelectToolOptions = Omit<MarqueeOptions, "modifier">;
@@ -0,0 +1,70 @@
+import { DEFAULT_VALUES } from "../constants";
+import type { Easing, EasingFunction, EasingName, SpringEasing } from "../types";
+
+/** Named easing curves, each mapping progress in [0, 1] to eased progress. */
+export const EASINGS: Readonly<Record<EasingName, EasingFunction>> = Object.freeze({
+    linear: (t: number) => t,
+    easeIn: (t: number) => t * t,
+    easeOut: (t: number) => 1 - (1 - t) * (1 - t),
+    easeInOut: (t: number) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+    easeInCubic: (t: number) => t * t * t,
+    easeOutCubic: (t: number) => 1 - Math.pow(1 - t, 3),
+    easeInOutCubic: (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+});
+
+/** Whether an easing option selects spring physics rather than a curve. */
+export function isSpring(easing: Easing | undefined): easing is SpringEasing {
+    return typeof easing === "object" && easing !== null && easing.type === "spring";
+}
+
+/**
+ * Resolve a curve easing (preset name or custom function) to a function.
+ * @param easing Preset name or `(t) => number`; omitted means `fallback`.
+ * @param fallback Preset used when `easing` is omitted.
+ * @returns The easing function.
+ */
+export function resolveEasing(easing: EasingName | EasingFunction | undefined, fallback: EasingName): EasingFunction {
+    if (typeof easing === "function") {
+        return easing;
+    }
+    return EASINGS[easing ?? fallback];
+}
+
+/** One spring-driven value: where it is and how fast it moves (units per second). */
+export interface SpringState {
+    value: number;
+    velocity: number;
+}
+
+// Integration sub-step: small enough to stay stable at stiff settings even
+// when a frame is late.
+const SPRING_MAX_STEP_S = 1 / 240;
+
+/**
+ * Advance a damped spring (unit mass) toward `target` by `dtMs`, in place.
+ * Semi-implicit Euler, sub-stepped so a long frame cannot blow it up.
+ * @param state Value and velocity to advance.
+ * @param target Rest position.
+ * @param dtMs Elapsed time in milliseconds.
+ * @param spring Stiffness and damping; defaults fill the gaps.
+ */
+export function stepSpring(state: SpringState, target: number, dtMs: number, spring: SpringEasing) {
+    const stiffness = spring.stiffness ?? DEFAULT_VALUES.SPRING_STIFFNESS;
+    const damping = spring.damping ?? DEFAULT_VALUES.SPRING_DAMPING;
+    let remaining = dtMs / 1000;
+    while (remaining > 0) {
+        const dt = Math.min(remaining, SPRING_MAX_STEP_S);
+        const acceleration = -stiffness * (state.value - target) - damping * state.velocity;
+        state.velocity += acceleration * dt;
+        state.value += state.velocity * dt;
+        remaining -= dt;
+    }
+}
+
+/**
+ * Whether a spring has settled: within `precision` of its target and moving
+ * less than `precision` per 60 Hz frame.
+ */
+export function isSpringAtRest(state: SpringState, target: number, precision: number): boolean {
+    return Math.abs(state.value - target) <= precision && Math.abs(state.velocity) <= precision * 60;
+}
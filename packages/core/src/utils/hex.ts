@@ -0,0 +1,128 @@
+import type { Coords, HexLayout } from "../types";
+
+const SQRT3 = Math.sqrt(3);
+
+/** The six axial steps to a hex's neighbors, clockwise from east (pointy) or south-east (flat). */
+const AXIAL_DIRECTIONS: readonly Coords[] = [
+    { x: 1, y: 0 },
+    { x: 0, y: 1 },
+    { x: -1, y: 1 },
+    { x: -1, y: 0 },
+    { x: 0, y: -1 },
+    { x: 1, y: -1 },
+];
+
+function isPointy(layout: HexLayout): boolean {
+    return (layout.orientation ?? "pointy") === "pointy";
+}
+
+/**
+ * Hex coordinates in `layout`'s system to axial `{ x: q, y: r }`. Axial
+ * input passes through.
+ */
+export function hexToAxial(hex: Coords, layout: HexLayout = {}): Coords {
+    const coordinates = layout.coordinates ?? "axial";
+    if (coordinates === "axial") {
+        return { x: hex.x, y: hex.y };
+    }
+    // `& 1` is 1 for odd values, negative ones included
+    const sign = coordinates === "odd" ? -1 : 1;
+    if (isPointy(layout)) {
+        return { x: hex.x - (hex.y + sign * (hex.y & 1)) / 2, y: hex.y };
+    }
+    return { x: hex.x, y: hex.y - (hex.x + sign * (hex.x & 1)) / 2 };
+}
+
+/** Inverse of {@link hexToAxial}: axial `{ x: q, y: r }` to `layout`'s system. */
+export function axialToHex(axial: Coords, layout: HexLayout = {}): Coords {
+    const coordinates = layout.coordinates ?? "axial";
+    if (coordinates === "axial") {
+        return { x: axial.x, y: axial.y };
+    }
+    const sign = coordinates === "odd" ? -1 : 1;
+    if (isPointy(layout)) {
+        return { x: axial.x + (axial.y + sign * (axial.y & 1)) / 2, y: axial.y };
+    }
+    return { x: axial.x, y: axial.y + (axial.x + sign * (axial.x & 1)) / 2 };
+}
+
+/**
+ * World position (item space: where a `Rect` at that point would be
+ * centered) of a hex's center. Hexes are one world unit across their flat
+ * sides, so pointy rows sit `√3/2` apart and flat columns likewise.
+ */
+export function hexCenter(hex: Coords, layout: HexLayout = {}): Coords {
+    const { x: q, y: r } = hexToAxial(hex, layout);
+    if (isPointy(layout)) {
+        return { x: q + r / 2, y: (r * SQRT3) / 2 };
+    }
+    return { x: (q * SQRT3) / 2, y: r + q / 2 };
+}
+
+/** The hex containing a world point (item space), in `layout`'s system. */
+export function hexAt(point: Coords, layout: HexLayout = {}): Coords {
+    let q: number;
+    let r: number;
+    if (isPointy(layout)) {
+        r = (point.y * 2) / SQRT3;
+        q = point.x - r / 2;
+    } else {
+        q = (point.x * 2) / SQRT3;
+        r = point.y - q / 2;
+    }
+    return axialToHex(roundAxial(q, r), layout);
+}
+
+/**
+ * The six corners of a hex in world units (item space), clockwise on the
+ * y-down screen. `size` shrinks the hex around its center, `1` being a
+ * full cell.
+ */
+export function hexCorners(hex: Coords, layout: HexLayout = {}, size: number = 1): Coords[] {
+    const center = hexCenter(hex, layout);
+    const radius = size / SQRT3;
+    const start = isPointy(layout) ? -30 : 0;
+    const corners: Coords[] = [];
+    for (let i = 0; i < 6; i++) {
+        const rad = (start + 60 * i) * (Math.PI / 180);
+        corners.push({ x: center.x + radius * Math.cos(rad), y: center.y + radius * Math.sin(rad) });
+    }
+    return corners;
+}
+
+/** The six hexes sharing a side with `hex`, clockwise, in `layout`'s system. */
+export function hexNeighbors(hex: Coords, layout: HexLayout = {}): Coords[] {
+    const axial = hexToAxial(hex, layout);
+    return AXIAL_DIRECTIONS.map((d) => axialToHex({ x: axial.x + d.x, y: axial.y + d.y }, layout));
+}
+
+/** Number of steps between two hexes, moving one neighbor at a time. */
+export function hexDistance(a: Coords, b: Coords, layout: HexLayout = {}): number {
+    const p = hexToAxial(a, layout);
+    const q = hexToAxial(b, layout);
+    const dq = p.x - q.x;
+    const dr = p.y - q.y;
+    return (Math.abs(dq) + Math.abs(dr) + Math.abs(dq + dr)) / 2;
+}
+
+/**
+ * Round fractional axial coordinates to the nearest hex: round all three
+ * cube coordinates, then rebuild the one that moved most from the other two
+ * so they still sum to zero.
+ */
+function roundAxial(q: number, r: number): Coords {
+    const s = -q - r;
+    let rq = Math.round(q);
+    let rr = Math.round(r);
+    const rs = Math.round(s);
+    const dq = Math.abs(rq - q);
+    const dr = Math.abs(rr - r);
+    const ds = Math.abs(rs - s);
+    if (dq > dr && dq > ds) {
+        rq = -rr - rs;
+    } else if (dr > ds) {
+        rr = -rq - rs;
+    }
+    // `+ 0` turns a rounded -0 into 0
+    return { x: rq + 0, y: rr + 0 };
+}
@@ -0,0 +1,81 @@
+import type { LinkCamerasOptions, ViewState, ViewStateTarget } from "../types";
+import { validateLinkCameras } from "./validateConfig";
+
+type LinkArgs = [...targets: ViewStateTarget[], options: LinkCamerasOptions] | ViewStateTarget[];
+
+const isTarget = (arg: ViewStateTarget | LinkCamerasOptions): arg is ViewStateTarget =>
+    typeof (arg as ViewStateTarget).subscribeViewState === "function";
+
+/**
+ * Move the cameras of several engines in lockstep, e.g. for side-by-side
+ * before/after maps. Whichever engine moves (gesture, animation or
+ * programmatic call) leads, and the others follow it instantly.
+ *
+ * In `"center"` and `"center+scale"` mode the other engines jump to the
+ * first engine's view when linked. `"offset"` keeps the views as they are and
+ * preserves their differences from then on. Rotation is not linked. Each
+ * engine still clamps to its own scale limits and bounds.
+ * @param args Two or more engines (or React engine handles, once `isReady`),
+ * optionally followed by options.
+ * @returns Unlink function: the engines move independently again.
+ * @throws {ConfigValidationError} If fewer than two engines are given or the mode is unknown.
+ * @example
+ * ```ts
+ * const unlink = linkCameras(before, after, { mode: "center+scale" });
+ * // Later
+ * unlink();
+ * ```
+ */
+export function linkCameras(...args: LinkArgs): () => void {
+    const all: Array<ViewStateTarget | LinkCamerasOptions> = args;
+    const last = all[all.length - 1];
+    const options: LinkCamerasOptions = last && !isTarget(last) ? last : {};
+    const targets = all.filter(isTarget);
+    validateLinkCameras(targets.length, options.mode);
+    const mode = options.mode ?? "center+scale";
+
+    // Views when linked, the reference "offset" mode keeps
+    const linked = targets.map((target) => target.getViewState());
+    // Set while the leader's view is pushed to the others, so their own
+    // change notifications do not echo back into another round.
+    let syncing = false;
+
+    const propagate = (from: number, state: ViewState) => {
+        if (syncing) {
+            return;
+        }
+        syncing = true;
+        try {
+            targets.forEach((target, i) => {
+                if (i === from) {
+                    return;
+                }
+                if (mode === "offset") {
+                    target.setViewState({
+                        center: {
+                            x: state.center.x + linked[i].center.x - linked[from].center.x,
+                            y: state.center.y + linked[i].center.y - linked[from].center.y,
+                        },
+                        scale: (state.scale * linked[i].scale) / linked[from].scale,
+                    });
+                } else {
+                    target.setViewState({
+                        center: state.center,
+                        scale: mode === "center" ? target.getViewState().scale : state.scale,
+                    });
+                }
+            });
+        } finally {
+            syncing = false;
+        }
+    };
+
+    if (mode !== "offset") {
+        propagate(0, linked[0]);
+    }
+    const unsubscribes = targets.map((target, i) => target.subscribeViewState((state) => propagate(i, state)));
+
+    return () => {
+        unsubscribes.forEach((unsubscribe) => unsubscribe());
+    };
+}
@@ -0,0 +1,78 @@
+import type { Coords, PathCommand } from "../types";
+import type { AnchoredItem, BoundedItem, EndpointItem, OutlineItem } from "./itemBounds";
+
+/**
+ * The point an item is positioned by: `x`/`y` of anchored items, `from` of
+ * a line, the first point (or first command endpoint) of a path. Null when
+ * the item carries no geometry.
+ */
+export function itemAnchor(item: BoundedItem): Coords | null {
+    const endpoints = item as Partial<EndpointItem>;
+    if (endpoints.from && endpoints.to) {
+        return { x: endpoints.from.x, y: endpoints.from.y };
+    }
+
+    const outline = item as OutlineItem;
+    if (outline.commands !== undefined) {
+        const first = outline.commands.find((command) => command.type !== "closePath");
+        return first && "x" in first ? { x: first.x, y: first.y } : null;
+    }
+    if (outline.points !== undefined) {
+        return outline.points.length > 0 ? { x: outline.points[0].x, y: outline.points[0].y } : null;
+    }
+
+    const anchored = item as AnchoredItem;
+    if (typeof anchored.x !== "number" || typeof anchored.y !== "number") {
+        return null;
+    }
+    return { x: anchored.x, y: anchored.y };
+}
+
+function translateCommand(command: PathCommand, dx: number, dy: number): PathCommand {
+    switch (command.type) {
+        case "closePath":
+            return command;
+        case "quadraticCurveTo":
+            return { ...command, cpx: command.cpx + dx, cpy: command.cpy + dy, x: command.x + dx, y: command.y + dy };
+        case "bezierCurveTo":
+            return {
+                ...command,
+                cp1x: command.cp1x + dx,
+                cp1y: command.cp1y + dy,
+                cp2x: command.cp2x + dx,
+                cp2y: command.cp2y + dy,
+                x: command.x + dx,
+                y: command.y + dy,
+            };
+        default:
+            return { ...command, x: command.x + dx, y: command.y + dy };
+    }
+}
+
+/**
+ * The geometry fields of `item` moved by `delta`, as a partial item: spread
+ * it over a copy for a moved clone, or `Object.assign` it onto the item to
+ * move it in place. Fields are replaced, never mutated, so arrays shared with
+ * other items are left alone.
+ */
+export function translatedFields(item: BoundedItem, delta: Coords): Partial<AnchoredItem & EndpointItem & OutlineItem> {
+    const { x: dx, y: dy } = delta;
+    const endpoints = item as Partial<EndpointItem>;
+    if (endpoints.from && endpoints.to) {
+        return {
+            from: { x: endpoints.from.x + dx, y: endpoints.from.y + dy },
+            to: { x: endpoints.to.x + dx, y: endpoints.to.y + dy },
+        };
+    }
+
+    const outline = item as OutlineItem;
+    if (outline.commands !== undefined) {
+        return { commands: outline.commands.map((command) => translateCommand(command, dx, dy)) };
+    }
+    if (outline.points !== undefined) {
+        return { points: outline.points.map((p) => ({ x: p.x + dx, y: p.y + dy })) };
+    }
+
+    const anchored = item as AnchoredItem;
+    return { x: anchored.x + dx, y: anchored.y + dy };
+}
@@ -161,3 +161,85 @@ export function ringIntersectsRect(ring: Coords[], r: RectRegion, closed: boolea
     }
     return false;
 }
+
+/**
+ * Whether `p` lies in the convex polygon `ring` (implicitly closed, wound
+ * either way; edges included): `p` is on the same side of every edge.
+ */
+export function pointInConvex(p: Coords, ring: Coords[]): boolean {
+    let side = 0;
+    for (let i = 0; i < ring.length; i++) {
+        const a = ring[i];
+        const b = ring[(i + 1) % ring.length];
+        const cross = Math.sign((b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x));
+        if (cross === 0) {
+            continue;
+        }
+        // The side of the first edge is the inside; any other is out
+        if (side !== 0 && cross !== side) {
+            return false;
+        }
+        side = cross;
+    }
+    // All on one line (a ring with no area): inside only on its outline
+    return side !== 0 || distanceToPolyline(p, ring, true) === 0;
+}
+
+/** Whether the segment `a`-`b` touches the convex polygon `ring` (endpoints and edges included). */
+export function segmentIntersectsConvex(a: Coords, b: Coords, ring: Coords[]): boolean {
+    if (pointInConvex(a, ring) || pointInConvex(b, ring)) {
+        return true;
+    }
+    // Cyrus-Beck: segmentIntersectsRect's clipping, against each edge's
+    // half-plane. The ring's winding tells which side is inward.
+    let area = 0;
+    for (let i = 0; i < ring.length; i++) {
+        const p = ring[i];
+        const q = ring[(i + 1) % ring.length];
+        area += p.x * q.y - q.x * p.y;
+    }
+    const inward = area < 0 ? -1 : 1;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    let t0 = 0;
+    let t1 = 1;
+    for (let i = 0; i < ring.length; i++) {
+        const p = ring[i];
+        const q = ring[(i + 1) % ring.length];
+        const ex = q.x - p.x;
+        const ey = q.y - p.y;
+        // a + t·d is inside this edge while num + t·den >= 0
+        const num = inward * (ex * (a.y - p.y) - ey * (a.x - p.x));
+        const den = inward * (ex * dy - ey * dx);
+        if (den === 0) {
+            if (num < 0) {
+                return false;
+            }
+            continue;
+        }
+        const t = -num / den;
+        if (den > 0) {
+            t0 = Math.max(t0, t);
+        } else {
+            t1 = Math.min(t1, t);
+        }
+        if (t0 > t1) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/** {@link ringIntersectsRect} against a convex polygon rather than a rectangle. */
+export function ringIntersectsConvex(ring: Coords[], region: Coords[], closed: boolean = true): boolean {
+    if (ring.length === 1) {
+        return pointInConvex(ring[0], region);
+    }
+    const last = closed ? ring.length : ring.length - 1;
+    for (let i = 0; i < last; i++) {
+        if (segmentIntersectsConvex(ring[i], ring[(i + 1) % ring.length], region)) {
+            return true;
+        }
+    }
+    return false;
+}
@@ -0,0 +1,126 @@
+import type { Coords, Projection } from "../types";
+import { DEFAULT_VALUES } from "../constants";
+import { rotateAround, rotatedHalfExtents } from "./viewport";
+
+/**
+ * A 2x2 linear map in Canvas2D `transform(a, b, c, d, 0, 0)` order:
+ * `x' = a·x + c·y`, `y' = b·x + d·y`.
+ */
+export interface ViewMatrix {
+    a: number;
+    b: number;
+    c: number;
+    d: number;
+}
+
+/** Whether a projection draws diamonds rather than square cells. Missing means orthogonal. */
+export function isIsometric(projection?: Projection): projection is { type: "isometric"; tileRatio?: number } {
+    return projection?.type === "isometric";
+}
+
+/**
+ * The projection as a map from view pixels (square cells, `scale` px per
+ * world unit) to projected pixels, both relative to the same pivot. The
+ * isometric map sends a cell's x edge to the diamond's down-right edge and
+ * its y edge to the down-left one, so a diamond is exactly `scale` px wide.
+ */
+export function projectionMatrix(projection?: Projection): ViewMatrix {
+    if (!isIsometric(projection)) {
+        return { a: 1, b: 0, c: 0, d: 1 };
+    }
+    const ratio = projection.tileRatio ?? DEFAULT_VALUES.ISOMETRIC_TILE_RATIO;
+    return { a: 0.5, b: ratio / 2, c: -0.5, d: ratio / 2 };
+}
+
+/** `m` after `n`: the map applying `n` first, then `m`. */
+function multiply(m: ViewMatrix, n: ViewMatrix): ViewMatrix {
+    return {
+        a: m.a * n.a + m.c * n.b,
+        b: m.b * n.a + m.d * n.b,
+        c: m.a * n.c + m.c * n.d,
+        d: m.b * n.c + m.d * n.d,
+    };
+}
+
+/**
+ * The full view-to-screen map around the viewport center: the projection
+ * first, then the view rotation (degrees, positive clockwise).
+ */
+export function viewMatrix(degrees: number, projection?: Projection): ViewMatrix {
+    const rad = degrees * (Math.PI / 180);
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    return multiply({ a: cos, b: sin, c: -sin, d: cos }, projectionMatrix(projection));
+}
+
+/** The inverse map; view matrices are never singular. */
+export function invertMatrix(m: ViewMatrix): ViewMatrix {
+    const det = m.a * m.d - m.b * m.c;
+    return { a: m.d / det, b: -m.b / det, c: -m.c / det, d: m.a / det };
+}
+
+/** Apply `m` to a point relative to `pivot`. */
+export function transformAround(point: Coords, pivot: Coords, m: ViewMatrix): Coords {
+    const dx = point.x - pivot.x;
+    const dy = point.y - pivot.y;
+    return { x: pivot.x + m.a * dx + m.c * dy, y: pivot.y + m.b * dx + m.d * dy };
+}
+
+/**
+ * View pixels to screen pixels around `pivot` (the viewport center):
+ * projected, then rotated. Orthogonal views only rotate, exactly as
+ * {@link rotateAround}.
+ */
+export function viewToScreenAround(point: Coords, pivot: Coords, degrees: number, projection?: Projection): Coords {
+    if (!isIsometric(projection)) {
+        return rotateAround(point, pivot, degrees);
+    }
+    return transformAround(point, pivot, viewMatrix(degrees, projection));
+}
+
+/** Inverse of {@link viewToScreenAround}. */
+export function screenToViewAround(point: Coords, pivot: Coords, degrees: number, projection?: Projection): Coords {
+    if (!isIsometric(projection)) {
+        return rotateAround(point, pivot, -degrees);
+    }
+    return transformAround(point, pivot, invertMatrix(viewMatrix(degrees, projection)));
+}
+
+/**
+ * Half-extents, in view units, of the axis-aligned box enclosing what a
+ * `halfWidth` x `halfHeight` screen rectangle covers once taken back through
+ * the view matrix. The projected counterpart of {@link rotatedHalfExtents}:
+ * culling, bounds clamping and grid lines work on this world-aligned region.
+ */
+export function viewHalfExtents(
+    halfWidth: number,
+    halfHeight: number,
+    degrees: number,
+    projection?: Projection,
+): { x: number; y: number } {
+    if (!isIsometric(projection)) {
+        return rotatedHalfExtents(halfWidth, halfHeight, degrees);
+    }
+    const inverse = invertMatrix(viewMatrix(degrees, projection));
+    return {
+        x: Math.abs(inverse.a) * halfWidth + Math.abs(inverse.c) * halfHeight,
+        y: Math.abs(inverse.b) * halfWidth + Math.abs(inverse.d) * halfHeight,
+    };
+}
+
+/**
+ * Items in painter's order for an isometric view: back to front by the
+ * screen row of their anchor, ties kept in draw-call order. Orthogonal views
+ * get the list back untouched.
+ */
+export function depthSorted<T extends Coords>(
+    items: readonly T[],
+    degrees: number,
+    projection?: Projection,
+): readonly T[] {
+    if (!isIsometric(projection)) {
+        return items;
+    }
+    const { b, d } = viewMatrix(degrees, projection);
+    return [...items].sort((p, q) => b * p.x + d * p.y - (b * q.x + d * q.y));
+}
@@ -0,0 +1,48 @@
+/**
+ * Rubber-band curve: how far content shows past a limit when pulled `distance`
+ * past it. Starts 1:`resistance` and flattens out toward `limit`, which it
+ * never reaches (the curve iOS scroll views use).
+ * @param distance Unresisted distance past the limit (>= 0).
+ * @param limit Asymptotic maximum overscroll.
+ * @param resistance Initial slope in (0, 1]; lower resists more.
+ * @returns Resisted distance past the limit, in [0, limit).
+ */
+export function rubberBand(distance: number, limit: number, resistance: number): number {
+    return limit * (1 - 1 / ((distance * resistance) / limit + 1));
+}
+
+/** Inverse of {@link rubberBand}: the unresisted pull that shows `shown` past the limit. */
+function unrubberBand(shown: number, limit: number, resistance: number): number {
+    const clamped = Math.min(shown, limit * (1 - Number.EPSILON));
+    return ((limit / resistance) * clamped) / (limit - clamped);
+}
+
+/**
+ * Move an overscroll value toward `target` with rubber-band resistance.
+ *
+ * Overscrolls are signed distances past a limit (0 = within it). Pulling
+ * further out is resisted along the rubber-band curve, continuing from where
+ * `current` already sits on it; moving back toward the limit is not.
+ * @param current Overscroll shown now.
+ * @param target Overscroll the move would reach without resistance.
+ * @param limit Asymptotic maximum overscroll.
+ * @param resistance Initial slope in (0, 1].
+ * @returns The overscroll to show.
+ */
+export function stretchOverscroll(current: number, target: number, limit: number, resistance: number): number {
+    if (target === 0) {
+        return 0;
+    }
+    const sign = Math.sign(target);
+    // Crossing into overscroll (or over to the other side): only the part
+    // past the limit counts, starting from the bottom of the curve.
+    if (Math.sign(current) !== sign) {
+        return sign * rubberBand(Math.abs(target), limit, resistance);
+    }
+    const from = Math.abs(current);
+    const to = Math.abs(target);
+    if (to <= from) {
+        return target;
+    }
+    return sign * rubberBand(unrubberBand(from, limit, resistance) + (to - from), limit, resistance);
+}
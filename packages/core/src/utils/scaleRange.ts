@@ -0,0 +1,45 @@
+import type { ScaleRange } from "../types";
+
+/**
+ * Whether `scale` lies inside `range` (inclusive, hard thresholds — the
+ * cross-fade band does not widen it). Hit testing uses this.
+ * @param scale Camera scale.
+ * @param range Scale range; no range or empty range always passes.
+ */
+export function inScaleRange(scale: number, range: ScaleRange | undefined): boolean {
+    if (!range) {
+        return true;
+    }
+    return scale >= (range.minScale ?? 0) && scale <= (range.maxScale ?? Infinity);
+}
+
+/**
+ * Paint opacity of content limited to `range` at `scale`: `1` inside the
+ * range, `0` outside it, and a linear ramp across the `scaleFade` band
+ * centered on each threshold. Renderers skip content at `0`.
+ * @param scale Camera scale.
+ * @param range Scale range; no range or empty range is always `1`.
+ */
+export function scaleRangeOpacity(scale: number, range: ScaleRange | undefined): number {
+    if (!range) {
+        return 1;
+    }
+    const { minScale, maxScale } = range;
+    const fade = range.scaleFade ?? 0;
+    let opacity = 1;
+    if (minScale !== undefined) {
+        opacity = Math.min(opacity, ramp(scale - minScale, fade));
+    }
+    if (maxScale !== undefined) {
+        opacity = Math.min(opacity, ramp(maxScale - scale, fade));
+    }
+    return opacity;
+}
+
+/** 0..1 for a signed distance inside a threshold, ramping over `fade` centered on it. */
+function ramp(inside: number, fade: number): number {
+    if (fade <= 0) {
+        return inside >= 0 ? 1 : 0;
+    }
+    return Math.max(0, Math.min(1, inside / fade + 0.5));
+}
@@ -0,0 +1,159 @@
+import type {
+    Coords,
+    DrawHandle,
+    MarqueeBox,
+    MarqueeOperation,
+    PaintCellsToolOptions,
+    SelectToolOptions,
+    Tool,
+    ToolContext,
+    ToolPointerEvent,
+} from "../types";
+import { marqueeOperation } from "../modules/Marquee";
+import { validatePaintCellsToolOptions, validateSelectToolOptions } from "./validateConfig";
+
+// Spacing (canvas px) of the points sampled between two pointer events of a
+// paint stroke, so a fast stroke leaves no gaps between the cells it crosses.
+const PAINT_SAMPLE_STEP_PX = 2;
+
+/**
+ * The plain camera mode: claims nothing, so drags pan the camera (with
+ * `eventHandlers.drag`), and shows a grab cursor.
+ * @example
+ * ```ts
+ * engine.setTool(panTool());
+ * ```
+ */
+export function panTool<TImage = unknown>(): Tool<TImage> {
+    return { name: "pan", cursor: "grab" };
+}
+
+/**
+ * Paints cells by dragging: every press claims the gesture from the camera
+ * and `onPaint` runs once for each cell (or hex) the stroke crosses. Cells
+ * are the `coords.snapped` values of the pointer callbacks.
+ * @param options `onPaint`, plus optional `onStrokeEnd` and `cursor`.
+ * @throws {ConfigValidationError} If `onPaint` is not a function.
+ * @example
+ * ```ts
+ * engine.setTool(
+ *     paintCellsTool({
+ *         onPaint: (cell, event) => (event.pointer.altKey ? walls.delete(key(cell)) : walls.add(key(cell))),
+ *         onStrokeEnd: () => save(walls),
+ *     }),
+ * );
+ * ```
+ */
+export function paintCellsTool<TImage = unknown>(options: PaintCellsToolOptions<TImage>): Tool<TImage> {
+    validatePaintCellsToolOptions(options);
+    let stroke: { cells: Coords[]; painted: Set<string>; pixel: Coords } | undefined;
+
+    const paint = (cell: Coords, event: ToolPointerEvent<TImage>) => {
+        const key = `${cell.x},${cell.y}`;
+        if (stroke && !stroke.painted.has(key)) {
+            stroke.painted.add(key);
+            stroke.cells.push(cell);
+            options.onPaint(cell, event);
+        }
+    };
+    const end = () => {
+        const cells = stroke?.cells;
+        stroke = undefined;
+        if (cells) {
+            options.onStrokeEnd?.(cells);
+        }
+    };
+
+    return {
+        name: "paint-cells",
+        cursor: options.cursor ?? "crosshair",
+        onPointerDown(event) {
+            stroke = { cells: [], painted: new Set(), pixel: event.mouse.raw };
+            paint(event.coords.snapped, event);
+            return true;
+        },
+        onPointerMove(event, context) {
+            if (!stroke || !event.pressed) {
+                return;
+            }
+            // Walk the segment since the last event on screen, where a
+            // wrapped world has no seam
+            const from = stroke.pixel;
+            const to = event.mouse.raw;
+            const steps = Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / PAINT_SAMPLE_STEP_PX);
+            for (let i = 1; i < steps; i++) {
+                const t = i / steps;
+                paint(context.cellAt({ x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t }), event);
+            }
+            paint(event.coords.snapped, event);
+            stroke.pixel = to;
+        },
+        onPointerUp: end,
+        onPointerCancel: end,
+    };
+}
+
+/**
+ * Selects by clicking and box-dragging, reading the modifier keys like
+ * marquee selection: a click selects the item under it (or clears the
+ * selection on empty space), a drag selects the items in the box. Shift,
+ * Ctrl or Meta add to the selection and Alt subtracts. Changes go to
+ * `engine.selection`.
+ * @param options Box `mode`, `layer` and `style`, as for `eventHandlers.marquee`.
+ * @throws {ConfigValidationError} If an option is invalid.
+ * @example
+ * ```ts
+ * engine.selection.idOf = (data) => (data as Unit).id;
+ * engine.setTool(selectTool({ mode: "contain", layer: 2 }));
+ * ```
+ */
+export function selectTool<TImage = unknown>(options: SelectToolOptions = {}): Tool<TImage> {
+    validateSelectToolOptions(options);
+    // `area` is set once the pointer moves: a drag, not a click
+    let box: { start: Coords; operation: MarqueeOperation; area?: MarqueeBox; handle?: DrawHandle } | undefined;
+
+    const clear = (context: ToolContext<TImage>) => {
+        const handle = box?.handle;
+        box = undefined;
+        if (handle) {
+            context.removeBox(handle);
+            context.render();
+        }
+    };
+
+    return {
+        name: "select",
+        onPointerDown(event) {
+            box = { start: event.mouse.raw, operation: marqueeOperation(event.pointer, "none") };
+            return true;
+        },
+        onPointerMove(event, context) {
+            if (!box || !event.pressed) {
+                return;
+            }
+            box.area = context.boxBetween(box.start, event.mouse.raw);
+            box.operation = marqueeOperation(event.pointer, "none");
+            if (box.handle) {
+                context.removeBox(box.handle);
+            }
+            box.handle = context.drawBox(box.area, options.style);
+            context.render();
+        },
+        onPointerUp(event, context) {
+            if (!box) {
+                return;
+            }
+            const { area, operation } = box;
+            clear(context);
+            if (area) {
+                context.selection.apply(context.hitTestBox(area, options), operation);
+                return;
+            }
+            const hit = event.hit;
+            const selectable = hit && (options.layer === undefined || hit.layer === options.layer);
+            context.selection.apply(selectable ? [hit] : [], marqueeOperation(event.pointer, "none"));
+        },
+        onPointerCancel: clear,
+        deactivate: clear,
+    };
+}
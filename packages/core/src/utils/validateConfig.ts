@@ -1,4 +1,26 @@
-import { CanvasTileEngineConfig } from "../types";
+import {
+    CanvasTileEngineConfig,
+    CursorOptions,
+    DoubleClickOptions,
+    FollowOptions,
+    GridLayout,
+    InertiaOptions,
+    KeyboardOptions,
+    LongPressOptions,
+    MarqueeOptions,
+    MinimapOptions,
+    OverlayOptions,
+    PaintCellsToolOptions,
+    Projection,
+    RubberBandOptions,
+    ScaleRange,
+    SelectToolOptions,
+    ViewStateInput,
+    WorldWrap,
+    ZoomMode,
+    ZoomOptions,
+} from "../types";
+import { EASINGS } from "./easing";
 
 /**
  * Creates a validation error with descriptive message.
@@ -56,6 +78,26 @@ export function validateConfig(config: CanvasTileEngineConfig): void {
         throw configError(`scale (${config.scale}) cannot be greater than maxScale (${config.maxScale})`);
     }
 
+    if (config.rotation !== undefined) {
+        validateRotation(config.rotation);
+    }
+
+    if (config.zoomLevels !== undefined) {
+        validateZoomLevels(config.zoomLevels);
+    }
+
+    if (config.projection !== undefined) {
+        validateProjection(config.projection);
+    }
+
+    if (config.grid !== undefined) {
+        validateGrid(config.grid);
+    }
+
+    if (config.wrap !== undefined) {
+        validateWrap(config.wrap);
+    }
+
     // Size validation
     if (!config.size || typeof config.size !== "object") {
         throw configError("size is required and must be an object");
@@ -113,9 +155,29 @@ export function validateConfig(config: CanvasTileEngineConfig): void {
     }
 
     // Event handler validation
-    const zoom = config.eventHandlers?.zoom;
-    if (zoom !== undefined && typeof zoom !== "boolean" && zoom !== "pointer" && zoom !== "center") {
-        throw configError(`eventHandlers.zoom must be a boolean, "pointer" or "center", got ${zoom}`);
+    if (config.eventHandlers?.zoom !== undefined) {
+        validateZoom(config.eventHandlers.zoom);
+    }
+    if (config.eventHandlers?.doubleClick !== undefined) {
+        validateDoubleClick(config.eventHandlers.doubleClick);
+    }
+    if (config.eventHandlers?.longPress !== undefined) {
+        validateLongPress(config.eventHandlers.longPress);
+    }
+    if (config.eventHandlers?.inertia !== undefined) {
+        validateInertia(config.eventHandlers.inertia);
+    }
+    if (config.eventHandlers?.rubberBand !== undefined) {
+        validateRubberBand(config.eventHandlers.rubberBand);
+    }
+    if (config.eventHandlers?.keyboard !== undefined) {
+        validateKeyboard(config.eventHandlers.keyboard);
+    }
+    if (config.eventHandlers?.cursor !== undefined) {
+        validateCursor(config.eventHandlers.cursor);
+    }
+    if (config.eventHandlers?.marquee !== undefined) {
+        validateMarquee(config.eventHandlers.marquee);
     }
 
     // Accessibility validation
@@ -125,7 +187,7 @@ export function validateConfig(config: CanvasTileEngineConfig): void {
 
     // Bounds validation
     if (config.bounds) {
-        validateBounds(config.bounds);
+        validateBounds(config.bounds, config.wrap);
     }
 }
 
@@ -143,9 +205,13 @@ export function validateReducedMotion(value: unknown): void {
 /**
  * Validates bounds object for setBounds method.
  * @param bounds The bounds to validate.
- * @throws {ConfigValidationError} If bounds are invalid.
+ * @param wrap The world wrap, if any: a wrapped axis has no edge to stop at.
+ * @throws {ConfigValidationError} If bounds are invalid or limit a wrapped axis.
  */
-export function validateBounds(bounds: { minX: number; maxX: number; minY: number; maxY: number }): void {
+export function validateBounds(
+    bounds: { minX: number; maxX: number; minY: number; maxY: number },
+    wrap?: WorldWrap,
+): void {
     const { minX, maxX, minY, maxY } = bounds;
 
     if (typeof minX !== "number" || typeof maxX !== "number") {
@@ -165,6 +231,13 @@ export function validateBounds(bounds: { minX: number; maxX: number; minY: numbe
     if (!(minY < maxY)) {
         throw configError(`bounds.minY (${minY}) must be less than bounds.maxY (${maxY})`);
     }
+
+    if (wrap?.x !== undefined && (Number.isFinite(minX) || Number.isFinite(maxX))) {
+        throw configError("bounds.minX and bounds.maxX must be infinite while wrap.x is set");
+    }
+    if (wrap?.y !== undefined && (Number.isFinite(minY) || Number.isFinite(maxY))) {
+        throw configError("bounds.minY and bounds.maxY must be infinite while wrap.y is set");
+    }
 }
 
 /**
@@ -235,6 +308,112 @@ export function validateScale(scale: number): void {
     }
 }
 
+/**
+ * Validates a draw registration's or layer's scale range.
+ * @param range The range to validate.
+ * @throws {ConfigValidationError} If a limit is not a positive finite number,
+ * the limits are inverted, or the fade width is negative.
+ */
+export function validateScaleRange(range: ScaleRange): void {
+    for (const name of ["minScale", "maxScale"] as const) {
+        const value = range[name];
+        if (value !== undefined && (typeof value !== "number" || !Number.isFinite(value) || value <= 0)) {
+            throw configError(`${name} must be a positive finite number, got ${value}`);
+        }
+    }
+    if (range.minScale !== undefined && range.maxScale !== undefined && range.minScale > range.maxScale) {
+        throw configError(`minScale (${range.minScale}) cannot be greater than maxScale (${range.maxScale})`);
+    }
+    const fade = range.scaleFade;
+    if (fade !== undefined && (typeof fade !== "number" || !Number.isFinite(fade) || fade < 0)) {
+        throw configError(`scaleFade must be a non-negative finite number, got ${fade}`);
+    }
+}
+
+/**
+ * Validates zoom stops: `false`, a level rule, or a non-empty list of
+ * positive finite scales.
+ * @param zoomLevels Value to validate.
+ * @throws {ConfigValidationError} If the value is not one of those.
+ */
+export function validateZoomLevels(zoomLevels: unknown): void {
+    if (zoomLevels === false || zoomLevels === "integers" || zoomLevels === "powers-of-two") {
+        return;
+    }
+    if (!Array.isArray(zoomLevels)) {
+        throw configError(
+            `zoomLevels must be false, "integers", "powers-of-two" or an array of scales, got ${String(zoomLevels)}`,
+        );
+    }
+    if (zoomLevels.length === 0) {
+        throw configError("zoomLevels must not be an empty array");
+    }
+    for (const level of zoomLevels) {
+        if (typeof level !== "number" || !Number.isFinite(level) || level <= 0) {
+            throw configError(`zoomLevels entries must be positive finite numbers, got ${level}`);
+        }
+    }
+}
+
+/**
+ * Validates a grid projection: orthogonal, or isometric with an optional
+ * positive finite tile ratio.
+ * @param projection Value to validate.
+ * @throws {ConfigValidationError} If the type is unknown or the tile ratio is invalid.
+ */
+export function validateProjection(projection: unknown): void {
+    const type = (projection as Projection | null)?.type;
+    if (type !== "orthogonal" && type !== "isometric") {
+        throw configError(`projection.type must be "orthogonal" or "isometric", got ${String(type)}`);
+    }
+    const tileRatio = (projection as { tileRatio?: unknown }).tileRatio;
+    if (type === "isometric" && tileRatio !== undefined) {
+        if (typeof tileRatio !== "number" || !Number.isFinite(tileRatio) || tileRatio <= 0) {
+            throw configError(`projection.tileRatio must be a positive finite number, got ${String(tileRatio)}`);
+        }
+    }
+}
+
+/**
+ * Validates a grid layout: square, or hex with a known orientation and
+ * coordinate system.
+ * @param grid Value to validate.
+ * @throws {ConfigValidationError} If the type, orientation or coordinate system is unknown.
+ */
+export function validateGrid(grid: unknown): void {
+    const type = (grid as GridLayout | null)?.type;
+    if (type !== "square" && type !== "hex") {
+        throw configError(`grid.type must be "square" or "hex", got ${String(type)}`);
+    }
+    if (type === "square") {
+        return;
+    }
+    const { orientation, coordinates } = grid as { orientation?: unknown; coordinates?: unknown };
+    if (orientation !== undefined && orientation !== "pointy" && orientation !== "flat") {
+        throw configError(`grid.orientation must be "pointy" or "flat", got ${String(orientation)}`);
+    }
+    if (coordinates !== undefined && coordinates !== "axial" && coordinates !== "odd" && coordinates !== "even") {
+        throw configError(`grid.coordinates must be "axial", "odd" or "even", got ${String(coordinates)}`);
+    }
+}
+
+/**
+ * Validates a world wrap: each given period a positive finite number.
+ * @param wrap Value to validate.
+ * @throws {ConfigValidationError} If wrap is not an object or a period is invalid.
+ */
+export function validateWrap(wrap: unknown): void {
+    if (!wrap || typeof wrap !== "object") {
+        throw configError(`wrap must be an object, got ${String(wrap)}`);
+    }
+    for (const axis of ["x", "y"] as const) {
+        const period = (wrap as WorldWrap)[axis];
+        if (period !== undefined && (typeof period !== "number" || !Number.isFinite(period) || period <= 0)) {
+            throw configError(`wrap.${axis} must be a positive finite number, got ${String(period)}`);
+        }
+    }
+}
+
 /**
  * Validates scale limits for setScaleLimits method.
  * @param minScale Minimum scale.
@@ -258,3 +437,485 @@ export function validateScaleLimits(minScale: number, maxScale: number): void {
         throw configError(`minScale (${minScale}) cannot be greater than maxScale (${maxScale})`);
     }
 }
+
+/**
+ * Validates the zoom setting for the config and setEventHandlers.
+ * @param zoom `true`/`false`, a zoom anchor, or zoom options.
+ * @throws {ConfigValidationError} If the value or any of its options is invalid.
+ */
+export function validateZoom(zoom: boolean | ZoomMode | ZoomOptions): void {
+    if (typeof zoom === "boolean" || zoom === "pointer" || zoom === "center") {
+        return;
+    }
+    if (typeof zoom !== "object" || zoom === null) {
+        throw configError(
+            `eventHandlers.zoom must be a boolean, "pointer", "center" or an options object, got ${zoom}`,
+        );
+    }
+    const { anchor, wheel } = zoom;
+    if (anchor !== undefined && anchor !== "pointer" && anchor !== "center") {
+        throw configError(`eventHandlers.zoom.anchor must be "pointer" or "center", got ${anchor}`);
+    }
+    if (wheel !== undefined && wheel !== "zoom" && wheel !== "auto" && wheel !== "pan") {
+        throw configError(`eventHandlers.zoom.wheel must be "zoom", "auto" or "pan", got ${wheel}`);
+    }
+}
+
+/**
+ * Validates the double-click setting for the config and setEventHandlers.
+ * @param doubleClick `true`/`false`, or double-click options.
+ * @throws {ConfigValidationError} If the value or any of its options is invalid.
+ */
+export function validateDoubleClick(doubleClick: boolean | DoubleClickOptions): void {
+    if (typeof doubleClick === "boolean") {
+        return;
+    }
+    if (typeof doubleClick !== "object" || doubleClick === null) {
+        throw configError(`eventHandlers.doubleClick must be a boolean or an options object, got ${doubleClick}`);
+    }
+    const { intervalMs, tolerancePx, zoom, zoomFactor } = doubleClick;
+    if (
+        intervalMs !== undefined &&
+        (typeof intervalMs !== "number" || !Number.isFinite(intervalMs) || intervalMs <= 0)
+    ) {
+        throw configError(`eventHandlers.doubleClick.intervalMs must be a positive finite number, got ${intervalMs}`);
+    }
+    if (
+        tolerancePx !== undefined &&
+        (typeof tolerancePx !== "number" || !Number.isFinite(tolerancePx) || tolerancePx < 0)
+    ) {
+        throw configError(
+            `eventHandlers.doubleClick.tolerancePx must be a non-negative finite number, got ${tolerancePx}`,
+        );
+    }
+    if (zoom !== undefined && typeof zoom !== "boolean") {
+        throw configError(`eventHandlers.doubleClick.zoom must be a boolean, got ${zoom}`);
+    }
+    if (
+        zoomFactor !== undefined &&
+        (typeof zoomFactor !== "number" || !Number.isFinite(zoomFactor) || zoomFactor <= 1)
+    ) {
+        throw configError(
+            `eventHandlers.doubleClick.zoomFactor must be a finite number greater than 1, got ${zoomFactor}`,
+        );
+    }
+}
+
+/**
+ * Validates the long-press setting for the config and setEventHandlers.
+ * @param longPress `true`/`false`, or long-press options.
+ * @throws {ConfigValidationError} If the value or any of its options is invalid.
+ */
+export function validateLongPress(longPress: boolean | LongPressOptions): void {
+    if (typeof longPress === "boolean") {
+        return;
+    }
+    if (typeof longPress !== "object" || longPress === null) {
+        throw configError(`eventHandlers.longPress must be a boolean or an options object, got ${longPress}`);
+    }
+    const { delayMs, tolerancePx } = longPress;
+    if (delayMs !== undefined && (typeof delayMs !== "number" || !Number.isFinite(delayMs) || delayMs <= 0)) {
+        throw configError(`eventHandlers.longPress.delayMs must be a positive finite number, got ${delayMs}`);
+    }
+    if (
+        tolerancePx !== undefined &&
+        (typeof tolerancePx !== "number" || !Number.isFinite(tolerancePx) || tolerancePx < 0)
+    ) {
+        throw configError(
+            `eventHandlers.longPress.tolerancePx must be a non-negative finite number, got ${tolerancePx}`,
+        );
+    }
+}
+
+/**
+ * Validates the kinetic panning setting for the config and setEventHandlers.
+ * @param inertia `true`/`false`, or options whose friction lies in `(0, 1]`.
+ * @throws {ConfigValidationError} If the value or its friction is invalid.
+ */
+export function validateInertia(inertia: boolean | InertiaOptions): void {
+    if (typeof inertia === "boolean") {
+        return;
+    }
+    if (typeof inertia !== "object" || inertia === null) {
+        throw configError(`eventHandlers.inertia must be a boolean or an options object, got ${inertia}`);
+    }
+    const friction = inertia.friction;
+    if (
+        friction !== undefined &&
+        (typeof friction !== "number" || !Number.isFinite(friction) || friction <= 0 || friction > 1)
+    ) {
+        throw configError(`eventHandlers.inertia.friction must be a number in (0, 1], got ${friction}`);
+    }
+}
+
+/**
+ * Validates the rubber-band overscroll setting for the config and setEventHandlers.
+ * @param rubberBand `true`/`false`, or rubber-band options.
+ * @throws {ConfigValidationError} If the value or any of its options is invalid.
+ */
+export function validateRubberBand(rubberBand: boolean | RubberBandOptions): void {
+    if (typeof rubberBand === "boolean") {
+        return;
+    }
+    if (typeof rubberBand !== "object" || rubberBand === null) {
+        throw configError(`eventHandlers.rubberBand must be a boolean or an options object, got ${rubberBand}`);
+    }
+    const { resistance, maxOverscrollPx, maxOverscale } = rubberBand;
+    if (
+        resistance !== undefined &&
+        (typeof resistance !== "number" || !Number.isFinite(resistance) || resistance <= 0 || resistance > 1)
+    ) {
+        throw configError(`eventHandlers.rubberBand.resistance must be a number in (0, 1], got ${resistance}`);
+    }
+    if (
+        maxOverscrollPx !== undefined &&
+        (typeof maxOverscrollPx !== "number" || !Number.isFinite(maxOverscrollPx) || maxOverscrollPx <= 0)
+    ) {
+        throw configError(
+            `eventHandlers.rubberBand.maxOverscrollPx must be a positive finite number, got ${maxOverscrollPx}`,
+        );
+    }
+    if (
+        maxOverscale !== undefined &&
+        (typeof maxOverscale !== "number" || !Number.isFinite(maxOverscale) || maxOverscale <= 1)
+    ) {
+        throw configError(`eventHandlers.rubberBand.maxOverscale must be a finite number above 1, got ${maxOverscale}`);
+    }
+}
+
+/**
+ * Validates the keyboard navigation setting for the config and setEventHandlers.
+ * @param keyboard `true`/`false`, or keyboard options.
+ * @throws {ConfigValidationError} If the value or any of its options is invalid.
+ */
+export function validateKeyboard(keyboard: boolean | KeyboardOptions): void {
+    if (typeof keyboard === "boolean") {
+        return;
+    }
+    if (typeof keyboard !== "object" || keyboard === null) {
+        throw configError(`eventHandlers.keyboard must be a boolean or an options object, got ${keyboard}`);
+    }
+    const { panStep, zoomFactor, home, bindings } = keyboard;
+    if (panStep !== undefined && (typeof panStep !== "number" || !Number.isFinite(panStep) || panStep <= 0)) {
+        throw configError(`eventHandlers.keyboard.panStep must be a positive finite number, got ${panStep}`);
+    }
+    if (
+        zoomFactor !== undefined &&
+        (typeof zoomFactor !== "number" || !Number.isFinite(zoomFactor) || zoomFactor <= 1)
+    ) {
+        throw configError(
+            `eventHandlers.keyboard.zoomFactor must be a finite number greater than 1, got ${zoomFactor}`,
+        );
+    }
+    if (home !== undefined) {
+        if (typeof home !== "object" || home === null) {
+            throw configError(`eventHandlers.keyboard.home must be an object, got ${home}`);
+        }
+        if (!Number.isFinite(home.x) || !Number.isFinite(home.y)) {
+            throw configError(`eventHandlers.keyboard.home x and y must be finite numbers, got ${home.x}, ${home.y}`);
+        }
+        if (home.scale !== undefined && (!Number.isFinite(home.scale) || home.scale <= 0)) {
+            throw configError(`eventHandlers.keyboard.home.scale must be positive, got ${home.scale}`);
+        }
+    }
+    if (bindings !== undefined) {
+        for (const [action, keys] of Object.entries(bindings)) {
+            if (!Array.isArray(keys) || keys.some((key) => typeof key !== "string" || key === "")) {
+                throw configError(`eventHandlers.keyboard.bindings.${action} must be an array of key names`);
+            }
+        }
+    }
+}
+
+/**
+ * Validates the cursor setting for the config and setEventHandlers.
+ * @param cursor `true`/`false`, or cursor options.
+ * @throws {ConfigValidationError} If the value or any of its cursors is not a string.
+ */
+export function validateCursor(cursor: boolean | CursorOptions): void {
+    if (typeof cursor === "boolean") {
+        return;
+    }
+    if (typeof cursor !== "object" || cursor === null) {
+        throw configError(`eventHandlers.cursor must be a boolean or an options object, got ${cursor}`);
+    }
+    for (const state of ["idle", "panning", "dragging"] as const) {
+        const value = cursor[state];
+        if (value !== undefined && typeof value !== "string") {
+            throw configError(`eventHandlers.cursor.${state} must be a CSS cursor string, got ${value}`);
+        }
+    }
+}
+
+/**
+ * Validates the marquee selection setting for the config and setEventHandlers.
+ * @param marquee `true`/`false`, or marquee options.
+ * @throws {ConfigValidationError} If the value or any of its options is invalid.
+ */
+export function validateMarquee(marquee: boolean | MarqueeOptions): void {
+    if (typeof marquee === "boolean") {
+        return;
+    }
+    if (typeof marquee !== "object" || marquee === null) {
+        throw configError(`eventHandlers.marquee must be a boolean or an options object, got ${marquee}`);
+    }
+    const { modifier, mode, layer, style } = marquee;
+    if (modifier !== undefined && !["shift", "alt", "ctrl", "meta", "none"].includes(modifier)) {
+        throw configError(
+            `eventHandlers.marquee.modifier must be "shift", "alt", "ctrl", "meta" or "none", got ${modifier}`,
+        );
+    }
+    if (mode !== undefined && mode !== "intersect" && mode !== "contain") {
+        throw configError(`eventHandlers.marquee.mode must be "intersect" or "contain", got ${mode}`);
+    }
+    if (layer !== undefined && !Number.isFinite(layer)) {
+        throw configError(`eventHandlers.marquee.layer must be a finite number, got ${layer}`);
+    }
+    const width = style?.lineWidthPx;
+    if (width !== undefined && (typeof width !== "number" || !Number.isFinite(width) || width < 0)) {
+        throw configError(`eventHandlers.marquee.style.lineWidthPx must be a non-negative finite number, got ${width}`);
+    }
+}
+
+/**
+ * Validates arguments for the follow method.
+ * @param getTarget The target getter.
+ * @param options Follow options.
+ * @throws {ConfigValidationError} If the getter is not a function or an option is out of range.
+ */
+export function validateFollowOptions(getTarget: unknown, options: FollowOptions): void {
+    if (typeof getTarget !== "function") {
+        throw configError(`follow target must be a function returning coordinates, got ${typeof getTarget}`);
+    }
+    const { deadzone, smoothing, lookaheadMs } = options;
+    if (deadzone !== undefined) {
+        for (const [name, value] of [
+            ["width", deadzone.width],
+            ["height", deadzone.height],
+        ] as const) {
+            if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+                throw configError(`follow deadzone.${name} must be a non-negative finite number, got ${value}`);
+            }
+        }
+    }
+    if (
+        smoothing !== undefined &&
+        (typeof smoothing !== "number" || !Number.isFinite(smoothing) || smoothing <= 0 || smoothing > 1)
+    ) {
+        throw configError(`follow smoothing must be a number in (0, 1], got ${smoothing}`);
+    }
+    if (
+        lookaheadMs !== undefined &&
+        (typeof lookaheadMs !== "number" || !Number.isFinite(lookaheadMs) || lookaheadMs < 0)
+    ) {
+        throw configError(`follow lookaheadMs must be a non-negative finite number, got ${lookaheadMs}`);
+    }
+}
+
+/**
+ * Validates a rotation angle for the config and setRotation/goRotation.
+ * @param degrees Angle in degrees; any finite value is accepted and normalized by the camera.
+ * @throws {ConfigValidationError} If the angle is not a finite number.
+ */
+export function validateRotation(degrees: number): void {
+    if (typeof degrees !== "number" || !Number.isFinite(degrees)) {
+        throw configError(`rotation must be a finite number, got ${degrees}`);
+    }
+}
+
+/**
+ * Validates arguments for the setViewState method.
+ * @param state View to restore.
+ * @param match How a differing viewport size is handled.
+ * @throws {ConfigValidationError} If a field is missing or invalid, or `match: "extent"` has no `size` to match.
+ */
+export function validateViewState(state: ViewStateInput, match: unknown): void {
+    if (typeof state !== "object" || state === null || typeof state.center !== "object" || state.center === null) {
+        throw configError("view state must be an object with a center");
+    }
+    validateCoords(state.center.x, state.center.y);
+    validateScale(state.scale);
+    if (state.rotation !== undefined) {
+        validateRotation(state.rotation);
+    }
+    if (state.size !== undefined) {
+        for (const name of ["width", "height"] as const) {
+            const value = state.size?.[name];
+            if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+                throw configError(`view state size.${name} must be a positive finite number, got ${value}`);
+            }
+        }
+    }
+    if (match !== undefined && match !== "scale" && match !== "extent") {
+        throw configError(`setViewState match must be "scale" or "extent", got ${String(match)}`);
+    }
+    if (match === "extent" && state.size === undefined) {
+        throw configError('setViewState match "extent" needs the view state\'s size');
+    }
+}
+
+/**
+ * Validates minimap options. Only the fields present are checked, so it
+ * serves both `createMinimap` and `Minimap.setOptions`.
+ * @param options Minimap options as passed by the caller.
+ * @throws {ConfigValidationError} If a field is invalid or `bounds` are not finite.
+ */
+export function validateMinimapOptions(options: Partial<MinimapOptions>): void {
+    if (options.size !== undefined) {
+        for (const axis of ["width", "height"] as const) {
+            const value = options.size?.[axis];
+            if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+                throw configError(`minimap size.${axis} must be a positive finite number, got ${value}`);
+            }
+        }
+    }
+    if (options.bounds !== undefined) {
+        validateBounds(options.bounds);
+        const { minX, maxX, minY, maxY } = options.bounds;
+        if (![minX, maxX, minY, maxY].every(Number.isFinite)) {
+            throw configError("minimap bounds must be finite");
+        }
+    }
+    if (options.layers !== undefined) {
+        if (!Array.isArray(options.layers) || !options.layers.every((layer) => Number.isFinite(layer))) {
+            throw configError("minimap layers must be an array of layer numbers");
+        }
+    }
+    const lineWidth = options.viewportStyle?.lineWidth;
+    if (lineWidth !== undefined && (!Number.isFinite(lineWidth) || lineWidth < 0)) {
+        throw configError(`minimap viewportStyle.lineWidth must be a non-negative finite number, got ${lineWidth}`);
+    }
+    if (options.durationMs !== undefined && (!Number.isFinite(options.durationMs) || options.durationMs < 0)) {
+        throw configError(`minimap durationMs must be a non-negative finite number, got ${options.durationMs}`);
+    }
+}
+
+const OVERLAY_ANCHORS = [
+    "center",
+    "top",
+    "bottom",
+    "left",
+    "right",
+    "top-left",
+    "top-right",
+    "bottom-left",
+    "bottom-right",
+] as const;
+
+/**
+ * Validates overlay options. Only the fields present are checked, so it
+ * serves both `addOverlay` and `OverlayHandle.update`.
+ * @param options Overlay options as passed by the caller.
+ * @throws {ConfigValidationError} If a field is invalid.
+ */
+export function validateOverlayOptions(options: Partial<OverlayOptions>): void {
+    for (const axis of ["x", "y"] as const) {
+        const value = options[axis];
+        if (value !== undefined && (typeof value !== "number" || !Number.isFinite(value))) {
+            throw configError(`overlay ${axis} must be a finite number, got ${value}`);
+        }
+    }
+    if (options.anchor !== undefined && !(OVERLAY_ANCHORS as readonly string[]).includes(options.anchor)) {
+        throw configError(`overlay anchor must be one of ${OVERLAY_ANCHORS.join(", ")}, got ${options.anchor}`);
+    }
+    const offset = options.offsetPx;
+    if (offset !== undefined && (!Number.isFinite(offset?.x) || !Number.isFinite(offset?.y))) {
+        throw configError("overlay offsetPx must have finite x and y");
+    }
+    const scale = options.scaleWithZoom;
+    if (
+        scale !== undefined &&
+        typeof scale !== "boolean" &&
+        (typeof scale !== "number" || !Number.isFinite(scale) || scale <= 0)
+    ) {
+        throw configError(`overlay scaleWithZoom must be a boolean or a positive finite scale, got ${scale}`);
+    }
+}
+
+/**
+ * Validates a tool passed to setTool or pushTool.
+ * @param tool The tool as passed by the caller.
+ * @throws {ConfigValidationError} If it is not an object with a string `name`.
+ */
+export function validateTool(tool: unknown): void {
+    if (typeof tool !== "object" || tool === null || typeof (tool as { name?: unknown }).name !== "string") {
+        throw configError(`a tool must be an object with a string name, got ${String(tool)}`);
+    }
+}
+
+/**
+ * Validates paintCellsTool options.
+ * @param options Options as passed by the caller.
+ * @throws {ConfigValidationError} If `onPaint` or `onStrokeEnd` is not a function.
+ */
+export function validatePaintCellsToolOptions(options: PaintCellsToolOptions<unknown>): void {
+    if (typeof options?.onPaint !== "function") {
+        throw configError("paintCellsTool onPaint must be a function");
+    }
+    if (options.onStrokeEnd !== undefined && typeof options.onStrokeEnd !== "function") {
+        throw configError("paintCellsTool onStrokeEnd must be a function");
+    }
+}
+
+/**
+ * Validates selectTool options.
+ * @param options Options as passed by the caller.
+ * @throws {ConfigValidationError} If the mode, layer or box line width is invalid.
+ */
+export function validateSelectToolOptions(options: SelectToolOptions): void {
+    const { mode, layer, style } = options;
+    if (mode !== undefined && mode !== "intersect" && mode !== "contain") {
+        throw configError(`selectTool mode must be "intersect" or "contain", got ${mode}`);
+    }
+    if (layer !== undefined && !Number.isFinite(layer)) {
+        throw configError(`selectTool layer must be a finite number, got ${layer}`);
+    }
+    const width = style?.lineWidthPx;
+    if (width !== undefined && (typeof width !== "number" || !Number.isFinite(width) || width < 0)) {
+        throw configError(`selectTool style.lineWidthPx must be a non-negative finite number, got ${width}`);
+    }
+}
+
+/**
+ * Validates arguments for linkCameras.
+ * @param count Number of engines to link.
+ * @param mode The `mode` option as passed by the caller.
+ * @throws {ConfigValidationError} If fewer than two engines are given or the mode is unknown.
+ */
+export function validateLinkCameras(count: number, mode: unknown): void {
+    if (count < 2) {
+        throw configError(`linkCameras needs at least two engines, got ${count}`);
+    }
+    if (mode !== undefined && mode !== "center" && mode !== "center+scale" && mode !== "offset") {
+        throw configError(`linkCameras mode must be "center", "center+scale" or "offset", got ${String(mode)}`);
+    }
+}
+
+/**
+ * Validates an animation easing: a preset name, a function, or a spring.
+ * @param easing The `easing` option as passed by the caller.
+ * @throws {ConfigValidationError} If the preset is unknown or a spring parameter is not positive.
+ */
+export function validateEasing(easing: unknown): void {
+    if (typeof easing === "function") {
+        return;
+    }
+    if (typeof easing === "string") {
+        if (!Object.hasOwn(EASINGS, easing)) {
+            throw configError(`easing must be one of ${Object.keys(EASINGS).join(", ")}, got "${easing}"`);
+        }
+        return;
+    }
+    if (typeof easing !== "object" || easing === null || (easing as { type?: unknown }).type !== "spring") {
+        throw configError(`easing must be a preset name, a function or { type: "spring" }, got ${String(easing)}`);
+    }
+    const { stiffness, damping } = easing as { stiffness?: unknown; damping?: unknown };
+    for (const [name, value] of [
+        ["stiffness", stiffness],
+        ["damping", damping],
+    ] as const) {
+        if (value !== undefined && (typeof value !== "number" || !Number.isFinite(value) || value <= 0)) {
+            throw configError(`spring ${name} must be a positive finite number, got ${value}`);
+        }
+    }
+}
@@ -0,0 +1,203 @@
+import type { ViewState, ViewStateInput, ViewStateTarget } from "../types";
+
+/** Options for {@link syncViewStateWithUrl}. */
+export interface ViewStateUrlOptions {
+    /** Where the state lives: `"hash"` (`#view=…`, default) or `"query"` (`?view=…`). */
+    mode?: "hash" | "query";
+    /** Parameter name. Default `"view"`. Other parameters in the hash or query are kept. */
+    param?: string;
+    /** Quiet time in ms after the last view change before the URL is written. Default `300`. */
+    debounceMs?: number;
+    /**
+     * `"replace"` (default) rewrites the current history entry, so the URL
+     * always shows the view without filling the history. `"push"` adds an
+     * entry per settled view, so back/forward steps through past views.
+     */
+    history?: "replace" | "push";
+    /** Apply the view found in the URL when syncing starts. Default `true`. */
+    restore?: boolean;
+    /**
+     * Keep the visible area instead of the scale: the viewport size is
+     * written too, and views are restored with `match: "extent"`, so a link
+     * from a desktop shows the same area on a phone. Default `false`.
+     */
+    matchExtent?: boolean;
+    /** Animation in ms when back/forward or a hash edit changes the view. Default `0` (instant). */
+    navigationDurationMs?: number;
+}
+
+const DEFAULT_PARAM = "view";
+const DEFAULT_DEBOUNCE_MS = 300;
+
+// World coordinates keep a thousandth of a unit; scales keep six significant
+// digits, since they span orders of magnitude.
+const formatCoord = (value: number) => String(Number(value.toFixed(3)));
+const formatScale = (value: number) => String(Number(value.toPrecision(6)));
+
+/**
+ * Encode a view state as a compact URL value: `x,y,scale`, then `,rotation`
+ * when rotated, and `,rotation,width,height` when the size is included.
+ * @param state View state, e.g. from `engine.getViewState()`.
+ * @param options `includeSize` writes the viewport size (for `match: "extent"`).
+ * @returns The encoded value, e.g. `"12.5,-3,32"`.
+ */
+export function formatViewState(state: ViewState, options: { includeSize?: boolean } = {}): string {
+    const fields = [formatCoord(state.center.x), formatCoord(state.center.y), formatScale(state.scale)];
+    if (state.rotation !== 0 || options.includeSize) {
+        fields.push(String(Number(state.rotation.toFixed(2))));
+    }
+    if (options.includeSize) {
+        fields.push(String(Math.round(state.size.width)), String(Math.round(state.size.height)));
+    }
+    return fields.join(",");
+}
+
+/**
+ * Decode a value written by {@link formatViewState}.
+ * @param value Encoded view state.
+ * @returns The view to restore, or `undefined` when the value is malformed
+ * (a hand-edited or truncated link is ignored rather than thrown on).
+ */
+export function parseViewState(value: string): ViewStateInput | undefined {
+    const fields = value.split(",").map(Number);
+    if (![3, 4, 6].includes(fields.length) || !fields.every(Number.isFinite)) {
+        return undefined;
+    }
+    const [x, y, scale, rotation, width, height] = fields;
+    if (scale <= 0 || (fields.length === 6 && (width <= 0 || height <= 0))) {
+        return undefined;
+    }
+    return {
+        center: { x, y },
+        scale,
+        ...(rotation !== undefined && { rotation }),
+        ...(width !== undefined && { size: { width, height } }),
+    };
+}
+
+function readParam(mode: "hash" | "query", param: string): string | null {
+    const raw = mode === "hash" ? window.location.hash.slice(1) : window.location.search.slice(1);
+    return new URLSearchParams(raw).get(param);
+}
+
+function writeParam(mode: "hash" | "query", param: string, value: string, method: "replace" | "push") {
+    const url = new URL(window.location.href);
+    const params = new URLSearchParams(mode === "hash" ? url.hash.slice(1) : url.search.slice(1));
+    params.set(param, value);
+    // Commas are legal in both parts of a URL; keep the value readable.
+    const serialized = params.toString().replace(/%2C/gi, ",");
+    if (mode === "hash") {
+        url.hash = serialized;
+    } else {
+        url.search = serialized;
+    }
+    if (method === "push") {
+        window.history.pushState(window.history.state, "", url.href);
+    } else {
+        window.history.replaceState(window.history.state, "", url.href);
+    }
+}
+
+/**
+ * Keep the view in the page URL, for shareable links: restore the view
+ * found there on start, write the view back (debounced) as it changes, and
+ * follow back/forward navigation and hand-edited hashes.
+ *
+ * Browser only; without `window` it does nothing. Writes go through
+ * `history.replaceState`/`pushState`, so they never trigger a reload or a
+ * `hashchange` of their own.
+ * @param target The engine (or a React engine handle) to sync.
+ * @param options Where and how to store the view.
+ * @returns Stop function: detaches every listener and writes a pending change at once.
+ * @example
+ * ```ts
+ * const stop = syncViewStateWithUrl(engine, { history: "push" });
+ * // Later
+ * stop();
+ * ```
+ */
+export function syncViewStateWithUrl(target: ViewStateTarget, options: ViewStateUrlOptions = {}): () => void {
+    if (typeof window === "undefined" || !window.history) {
+        return () => {};
+    }
+    const mode = options.mode ?? "hash";
+    const param = options.param ?? DEFAULT_PARAM;
+    const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+    const method = options.history ?? "replace";
+    const navigationDurationMs = options.navigationDurationMs ?? 0;
+
+    // The URL value last applied or written: a hashchange that repeats it
+    // (back/forward fires popstate and hashchange together) is ignored.
+    let current = readParam(mode, param);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // While a URL view is being applied, its camera changes are not written back
+    let applying = false;
+    let applyingTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const apply = (state: ViewStateInput, durationMs: number) => {
+        clearTimeout(timer);
+        timer = undefined;
+        clearTimeout(applyingTimer);
+        applying = true;
+        target.setViewState(state, { durationMs, match: options.matchExtent && state.size ? "extent" : "scale" });
+        if (durationMs <= 0) {
+            applying = false;
+        } else {
+            // The animation has landed (or was interrupted) by then
+            applyingTimer = setTimeout(() => {
+                applying = false;
+            }, durationMs);
+        }
+    };
+
+    const flush = () => {
+        clearTimeout(timer);
+        timer = undefined;
+        const value = formatViewState(target.getViewState(), { includeSize: options.matchExtent });
+        if (value === current) {
+            return;
+        }
+        current = value;
+        writeParam(mode, param, value, method);
+    };
+
+    const restoreFromUrl = current === null ? undefined : parseViewState(current);
+    if ((options.restore ?? true) && restoreFromUrl) {
+        apply(restoreFromUrl, 0);
+    }
+    // Where back navigation lands when an entry carries no view (the page as
+    // first loaded, before any view was pushed)
+    const initial = target.getViewState();
+
+    const unsubscribe = target.subscribeViewState(() => {
+        if (applying) {
+            return;
+        }
+        clearTimeout(timer);
+        timer = setTimeout(flush, debounceMs);
+    });
+
+    const onNavigate = () => {
+        const value = readParam(mode, param);
+        if (value === current) {
+            return;
+        }
+        current = value;
+        const state = value === null ? initial : parseViewState(value);
+        if (state) {
+            apply(state, navigationDurationMs);
+        }
+    };
+    window.addEventListener("popstate", onNavigate);
+    window.addEventListener("hashchange", onNavigate);
+
+    return () => {
+        unsubscribe();
+        window.removeEventListener("popstate", onNavigate);
+        window.removeEventListener("hashchange", onNavigate);
+        clearTimeout(applyingTimer);
+        if (timer !== undefined) {
+            flush();
+        }
+    };
+}
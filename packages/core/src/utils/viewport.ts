@@ -60,3 +60,41 @@ export function worldToScreen(world: Coords, cam: { x: number; y: number; scale:
 export function screenToWorld(screen: Coords, cam: { x: number; y: number; scale: number }): Coords {
     return { x: cam.x + screen.x / cam.scale, y: cam.y + screen.y / cam.scale };
 }
+
+/**
+ * Rotate a screen point around a pivot. Angles are in degrees, positive
+ * clockwise on the y-down screen — the same convention as item `rotate` and
+ * `CanvasRenderingContext2D.rotate`.
+ */
+export function rotateAround(point: Coords, pivot: Coords, degrees: number): Coords {
+    if (!degrees) {
+        return point;
+    }
+    const rad = degrees * (Math.PI / 180);
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    const dx = point.x - pivot.x;
+    const dy = point.y - pivot.y;
+    return { x: pivot.x + dx * cos - dy * sin, y: pivot.y + dx * sin + dy * cos };
+}
+
+/**
+ * Half-extents of the axis-aligned box enclosing a `halfWidth` x `halfHeight`
+ * rectangle rotated by `degrees`. Used to turn a rotated viewport into the
+ * world-aligned region that culling, bounds clamping and grid lines work on.
+ */
+export function rotatedHalfExtents(halfWidth: number, halfHeight: number, degrees: number): { x: number; y: number } {
+    if (!degrees) {
+        return { x: halfWidth, y: halfHeight };
+    }
+    const rad = degrees * (Math.PI / 180);
+    const cos = Math.abs(Math.cos(rad));
+    const sin = Math.abs(Math.sin(rad));
+    return { x: halfWidth * cos + halfHeight * sin, y: halfWidth * sin + halfHeight * cos };
+}
+
+/** Normalize an angle in degrees into [0, 360). */
+export function normalizeDegrees(degrees: number): number {
+    const wrapped = degrees % 360;
+    return wrapped < 0 ? wrapped + 360 : wrapped + 0;
+}
@@ -0,0 +1,59 @@
+import type { WheelInfo } from "../types";
+
+// Wheel events this close together (ms) belong to one scroll burst and keep
+// its device: a trackpad fling starts small and speeds up, a mouse wheel spun
+// fast reports fractional deltas on some platforms.
+const WHEEL_BURST_GAP_MS = 150;
+// Pixel-mode deltas at least this large with no legacy wheelDelta to go by
+// are taken as mouse wheel notches; trackpads scroll in small steps.
+const MIN_NOTCH_DELTA = 50;
+
+/**
+ * Normalized wheel input - renderer-agnostic format, mirroring the
+ * `WheelEvent` fields device detection reads.
+ */
+export interface WheelInput {
+    deltaX: number;
+    deltaY: number;
+    /** `WheelEvent.deltaMode`: 0 pixels, 1 lines, 2 pages. */
+    deltaMode: number;
+    ctrlKey: boolean;
+    /** Legacy `WheelEvent.wheelDeltaY` (Chromium, WebKit), when present. */
+    wheelDeltaY?: number;
+}
+
+/** The device a scroll burst was classified as, and when it last scrolled. */
+export interface WheelBurst {
+    source: WheelInfo["source"];
+    time: number;
+}
+
+/**
+ * The device a wheel event most likely came from. Ctrl+wheel is a trackpad
+ * pinch (browsers synthesize it so) or a deliberate Ctrl+scroll zoom; both
+ * zoom, so both report `"pinch"`. Otherwise an event within a scroll burst
+ * keeps the burst's device, and a new burst is classified from, in order:
+ * line/page delta mode (mouse), the legacy `wheelDeltaY` (a trackpad reports
+ * exactly -3 × `deltaY`), a horizontal delta (trackpad), and delta size.
+ * @param input The wheel event fields.
+ * @param now Event time in ms.
+ * @param burst The previous non-pinch classification, if any.
+ */
+export function wheelSource(input: WheelInput, now: number, burst?: WheelBurst): WheelInfo["source"] {
+    if (input.ctrlKey) {
+        return "pinch";
+    }
+    if (burst && now - burst.time < WHEEL_BURST_GAP_MS) {
+        return burst.source;
+    }
+    if (input.deltaMode) {
+        return "wheel";
+    }
+    if (input.wheelDeltaY) {
+        return Math.abs(input.wheelDeltaY + 3 * input.deltaY) <= 1 ? "trackpad" : "wheel";
+    }
+    if (input.deltaX) {
+        return "trackpad";
+    }
+    return Math.abs(input.deltaY) >= MIN_NOTCH_DELTA ? "wheel" : "trackpad";
+}
@@ -0,0 +1,54 @@
+import type { Bounds, Coords, WorldWrap } from "../types";
+
+/** `value` moved into `[0, period)` by whole periods. */
+function wrapValue(value: number, period: number): number {
+    const wrapped = value - Math.floor(value / period) * period;
+    // Float noise can round a value just below zero up to the period itself
+    return wrapped >= period ? 0 : wrapped;
+}
+
+/**
+ * A corner-space point (event `coords.raw`) moved into the canonical copy
+ * of a wrapped world, `[0, wrap.x)` by `[0, wrap.y)`. Axes that do not wrap
+ * pass through.
+ * @param point Corner-space world coordinates.
+ * @param wrap World periods (`config.wrap`).
+ */
+export function wrapCoords(point: Coords, wrap: WorldWrap): Coords {
+    return {
+        x: wrap.x ? wrapValue(point.x, wrap.x) : point.x,
+        y: wrap.y ? wrapValue(point.y, wrap.y) : point.y,
+    };
+}
+
+/** Offsets of the periods along one axis whose `[k·period, (k+1)·period)` span touches `[min, max]`. */
+function periodOffsets(min: number, max: number, period: number | undefined): number[] {
+    if (!period) {
+        return [0];
+    }
+    const offsets: number[] = [];
+    for (let k = Math.floor(min / period); k * period <= max; k++) {
+        offsets.push(k * period);
+    }
+    return offsets;
+}
+
+/**
+ * The copies of a wrapped world that overlap `bounds`, as world offsets:
+ * canonical content at `p` shows up at `p + offset` for each. A world that
+ * does not wrap has the single offset `{ x: 0, y: 0 }`.
+ * @param bounds Corner-space rectangle, e.g. the culled viewport
+ * (`getViewportBounds`).
+ * @param wrap World periods (`config.wrap`).
+ */
+export function wrapCopies(bounds: Bounds, wrap: WorldWrap): Coords[] {
+    const xs = periodOffsets(bounds.minX, bounds.maxX, wrap.x);
+    const ys = periodOffsets(bounds.minY, bounds.maxY, wrap.y);
+    const copies: Coords[] = [];
+    for (const y of ys) {
+        for (const x of xs) {
+            copies.push({ x, y });
+        }
+    }
+    return copies;
+}
@@ -0,0 +1,85 @@
+import type { ZoomLevels } from "../types";
+
+// Scales this close (relative) to a level count as on it, so float noise
+// from anchored zooms never makes a step skip or repeat a level.
+const LEVEL_TOLERANCE = 1e-9;
+
+/** The largest level at or below `scale`, if any. */
+function levelAtOrBelow(levels: ZoomLevels, scale: number): number | undefined {
+    const s = scale * (1 + LEVEL_TOLERANCE);
+    if (levels === "powers-of-two") {
+        return Math.pow(2, Math.floor(Math.log2(s)));
+    }
+    if (levels === "integers") {
+        return s >= 1 ? Math.floor(s) : undefined;
+    }
+    let found: number | undefined;
+    for (const level of levels) {
+        if (level > s) {
+            break;
+        }
+        found = level;
+    }
+    return found;
+}
+
+/** The smallest level at or above `scale`, if any. */
+function levelAtOrAbove(levels: ZoomLevels, scale: number): number | undefined {
+    const s = scale * (1 - LEVEL_TOLERANCE);
+    if (levels === "powers-of-two") {
+        return Math.pow(2, Math.ceil(Math.log2(s)));
+    }
+    if (levels === "integers") {
+        return Math.max(1, Math.ceil(s));
+    }
+    return levels.find((level) => level >= s);
+}
+
+const within = (level: number | undefined, minScale: number, maxScale: number) =>
+    level !== undefined && level >= minScale * (1 - LEVEL_TOLERANCE) && level <= maxScale * (1 + LEVEL_TOLERANCE)
+        ? level
+        : undefined;
+
+/**
+ * The zoom level nearest to `scale` within the scale limits. Distance is
+ * measured in log space, so 3 sits nearer 4 than 2, as it looks on screen.
+ * @param levels Sorted level list or level rule.
+ * @param scale Scale to snap.
+ * @param minScale Lower scale limit.
+ * @param maxScale Upper scale limit.
+ * @returns The nearest level, or `scale` clamped into the limits when no
+ * level lies within them.
+ */
+export function nearestZoomLevel(levels: ZoomLevels, scale: number, minScale: number, maxScale: number): number {
+    const clamped = Math.min(maxScale, Math.max(minScale, scale));
+    const below = within(levelAtOrBelow(levels, clamped), minScale, maxScale);
+    const above = within(levelAtOrAbove(levels, clamped), minScale, maxScale);
+    if (below === undefined || above === undefined) {
+        return below ?? above ?? clamped;
+    }
+    return Math.log(clamped / below) <= Math.log(above / clamped) ? below : above;
+}
+
+/**
+ * The next zoom level past `scale` in a direction, within the scale limits.
+ * @param levels Sorted level list or level rule.
+ * @param scale Current scale.
+ * @param direction `1` to zoom in, `-1` to zoom out.
+ * @param minScale Lower scale limit.
+ * @param maxScale Upper scale limit.
+ * @returns The next level, or `scale` clamped into the limits when there
+ * is none further that way (the view is at the last level in range).
+ */
+export function nextZoomLevel(
+    levels: ZoomLevels,
+    scale: number,
+    direction: 1 | -1,
+    minScale: number,
+    maxScale: number,
+): number {
+    const next =
+        direction > 0
+            ? levelAtOrAbove(levels, scale * (1 + 2 * LEVEL_TOLERANCE))
+            : levelAtOrBelow(levels, scale * (1 - 2 * LEVEL_TOLERANCE));
+    return within(next, minScale, maxScale) ?? Math.min(maxScale, Math.max(minScale, scale));
+}
@@ -1,6 +1,6 @@
 import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
 import { AnimationController } from "../../src/modules/AnimationController";
-import { ICamera } from "../../src/modules/Camera";
+import { Camera, ICamera } from "../../src/modules/Camera";
 import { ViewportState } from "../../src/modules/ViewportState";
 import { Coords, MotionPolicy } from "../../src/types";
 
@@ -36,6 +36,7 @@ describe("AnimationController", () => {
                 currentScale = Math.min(10, Math.max(0.1, newScale));
             }),
             setScaleLimits: vi.fn(),
+            setRotation: vi.fn(),
             getVisibleBounds: vi.fn(() => ({ minX: 0, maxX: 100, minY: 0, maxY: 100 })),
         };
 
@@ -348,6 +349,301 @@ describe("AnimationController", () => {
         });
     });
 
+    describe("animateFlyTo", () => {
+        let camera: Camera;
+        let flyer: AnimationController;
+        const center = () => camera.getCenter(800, 600);
+
+        beforeEach(() => {
+            camera = new Camera({ x: 0, y: 0 }, 10, 0.01, 100, viewport);
+            camera.setCenter({ x: 0, y: 0 }, 800, 600);
+            flyer = new AnimationController(camera, viewport, onAnimationFrame, motion);
+        });
+
+        it("zooms out mid-flight and lands exactly on the target", () => {
+            const onComplete = vi.fn();
+            flyer.animateFlyTo(5000, 0, 20, 1000, undefined, onComplete);
+
+            vi.advanceTimersByTime(500);
+            expect(camera.scale).toBeLessThan(10);
+            expect(center().x).toBeGreaterThan(0);
+            expect(center().x).toBeLessThan(5000);
+            expect(onComplete).not.toHaveBeenCalled();
+
+            vi.advanceTimersByTime(600);
+            expect(center().x).toBeCloseTo(5000);
+            expect(center().y).toBeCloseTo(0);
+            expect(camera.scale).toBe(20);
+            expect(onComplete).toHaveBeenCalledTimes(1);
+            expect(flyer.isAnimating()).toBe(false);
+        });
+
+        it("derives the duration from the distance when none is given", () => {
+            flyer.animateFlyTo(100000, 0, 10);
+            vi.advanceTimersByTime(500);
+            // A long jump flies for well over the 500ms minimum.
+            expect(flyer.isAnimating()).toBe(true);
+        });
+
+        it("reports each scale step through onZoomFrame", () => {
+            const onZoomFrame = vi.fn();
+            flyer.animateFlyTo(1000, 0, 10, 200, onZoomFrame);
+            vi.advanceTimersByTime(300);
+            expect(onZoomFrame).toHaveBeenCalled();
+            expect(onZoomFrame.mock.calls[0][0]).toBe(10);
+        });
+
+        it("lands instantly under reduced motion", () => {
+            reducedMotion = true;
+            const onComplete = vi.fn();
+            flyer.animateFlyTo(1000, 50, 5, 1000, undefined, onComplete);
+
+            expect(center().x).toBeCloseTo(1000);
+            expect(center().y).toBeCloseTo(50);
+            expect(camera.scale).toBe(5);
+            expect(onComplete).toHaveBeenCalled();
+        });
+
+        it("stays where it is when cancelled", () => {
+            const onComplete = vi.fn();
+            flyer.animateFlyTo(5000, 0, 20, 1000, undefined, onComplete);
+            vi.advanceTimersByTime(300);
+            const stopped = center();
+
+            flyer.cancelFly();
+            vi.advanceTimersByTime(1000);
+
+            expect(center()).toEqual(stopped);
+            expect(onComplete).not.toHaveBeenCalled();
+        });
+
+        it("is cancelled by a move or zoom animation instead of fighting it", () => {
+            flyer.animateFlyTo(5000, 0, 20, 1000);
+            flyer.animateMoveTo(10, 10, 100);
+            vi.advanceTimersByTime(1100);
+            expect(center().x).toBeCloseTo(10);
+            expect(center().y).toBeCloseTo(10);
+        });
+    });
+
+    describe("easing", () => {
+        let camera: Camera;
+        let eased: AnimationController;
+        const center = () => camera.getCenter(800, 600);
+
+        beforeEach(() => {
+            camera = new Camera({ x: 0, y: 0 }, 10, 0.01, 100, viewport);
+            camera.setCenter({ x: 0, y: 0 }, 800, 600);
+            eased = new AnimationController(camera, viewport, onAnimationFrame, motion);
+        });
+
+        it("follows a named preset", () => {
+            eased.animateMoveTo(100, 0, 480, undefined, "linear");
+            vi.advanceTimersByTime(240);
+            // Linear is halfway at half time, give or take one frame
+            expect(center().x).toBeGreaterThan(45);
+            expect(center().x).toBeLessThan(55);
+        });
+
+        it("follows a custom function and still lands on the target", () => {
+            // A curve that never reaches 1 on its own
+            eased.animateMoveTo(100, 0, 480, undefined, (t) => t * 0.5);
+            vi.advanceTimersByTime(240);
+            expect(center().x).toBeLessThan(30);
+            vi.advanceTimersByTime(300);
+            expect(center().x).toBeCloseTo(100);
+        });
+
+        it("eases zoom and resize too", () => {
+            eased.animateZoomTo(20, 480, undefined, undefined, "easeIn");
+            vi.advanceTimersByTime(240);
+            // easeIn is slow at first: under a quarter of the way in log space
+            expect(Math.log(camera.scale / 10) / Math.log(2)).toBeLessThan(0.3);
+
+            const onApplySize = vi.fn();
+            eased.animateResize(1000, 600, 480, onApplySize, undefined, "easeOut");
+            vi.advanceTimersByTime(240);
+            // easeOut is fast at first: past the halfway width already
+            expect(onApplySize.mock.lastCall![0]).toBeGreaterThan(900);
+        });
+
+        it("settles a spring move on the target and completes", () => {
+            const onComplete = vi.fn();
+            eased.animateMoveTo(100, 50, 500, onComplete, { type: "spring" });
+            vi.advanceTimersByTime(100);
+            expect(center().x).toBeGreaterThan(0);
+            expect(onComplete).not.toHaveBeenCalled();
+
+            vi.advanceTimersByTime(3000);
+            expect(center().x).toBe(100);
+            expect(center().y).toBe(50);
+            expect(onComplete).toHaveBeenCalledTimes(1);
+            expect(eased.isAnimating()).toBe(false);
+        });
+
+        it("keeps a spring's momentum when retargeted mid-flight", () => {
+            eased.animateMoveTo(100, 0, 500, undefined, { type: "spring" });
+            vi.advanceTimersByTime(160);
+            const before = center().x;
+
+            // Retarget backwards: a restarted animation would start from
+            // rest; the carried velocity keeps the camera moving forward.
+            eased.animateMoveTo(0, 0, 500, undefined, { type: "spring" });
+            vi.advanceTimersByTime(32);
+            const after = center().x;
+            expect(after).toBeGreaterThan(before);
+            // No jump: one or two frames of motion, not a teleport
+            expect(after - before).toBeLessThan(20);
+
+            vi.advanceTimersByTime(3000);
+            expect(center().x).toBe(0);
+        });
+
+        it("settles a spring zoom exactly on the target scale", () => {
+            const onZoomFrame = vi.fn();
+            eased.animateZoomTo(40, 500, onZoomFrame, undefined, { type: "spring", stiffness: 300, damping: 20 });
+            vi.advanceTimersByTime(3000);
+            expect(camera.scale).toBe(40);
+            expect(onZoomFrame).toHaveBeenCalled();
+        });
+
+        it("lands a spring instantly under reduced motion", () => {
+            reducedMotion = true;
+            eased.animateMoveTo(100, 50, 500, undefined, { type: "spring" });
+            expect(center().x).toBeCloseTo(100);
+            expect(eased.isAnimating()).toBe(false);
+        });
+
+        it("lands a running spring when reduced motion turns on", () => {
+            eased.animateMoveTo(100, 50, 500, undefined, { type: "spring" });
+            vi.advanceTimersByTime(50);
+            reducedMotion = true;
+            vi.advanceTimersByTime(20);
+            expect(center().x).toBe(100);
+            expect(eased.isAnimating()).toBe(false);
+        });
+
+        it("stops a spring when cancelled", () => {
+            eased.animateMoveTo(100, 0, 500, undefined, { type: "spring" });
+            vi.advanceTimersByTime(100);
+            eased.cancelMove();
+            const stopped = center();
+            vi.advanceTimersByTime(1000);
+            expect(center()).toEqual(stopped);
+        });
+    });
+
+    describe("startFollow", () => {
+        // A real camera, so pans move the view and the follow can be read
+        // back through getCenter.
+        let camera: Camera;
+        let follower: AnimationController;
+        const center = () => camera.getCenter(800, 600);
+
+        beforeEach(() => {
+            camera = new Camera({ x: 0, y: 0 }, 10, 1, 100, viewport);
+            camera.setCenter({ x: 0, y: 0 }, 800, 600);
+            follower = new AnimationController(camera, viewport, onAnimationFrame, motion);
+        });
+
+        it("locks onto the target each frame by default", () => {
+            let target = { x: 10, y: -4 };
+            follower.startFollow(() => target);
+
+            vi.advanceTimersByTime(16);
+            expect(center().x).toBeCloseTo(10);
+            expect(center().y).toBeCloseTo(-4);
+
+            target = { x: 12, y: -4 };
+            vi.advanceTimersByTime(16);
+            expect(center().x).toBeCloseTo(12);
+            expect(onAnimationFrame).toHaveBeenCalledTimes(2);
+            expect(follower.isFollowing()).toBe(true);
+        });
+
+        it("lets the target roam inside the deadzone and pushes at its edge", () => {
+            let target = { x: 5, y: 0 };
+            follower.startFollow(() => target, { deadzone: { width: 200, height: 200 } });
+
+            // 50px from center, inside the 100px half-width.
+            vi.advanceTimersByTime(16);
+            expect(center().x).toBeCloseTo(0);
+            expect(onAnimationFrame).not.toHaveBeenCalled();
+
+            // 150px from center: the camera moves until the target sits on the edge.
+            target = { x: 15, y: 0 };
+            vi.advanceTimersByTime(16);
+            expect(center().x).toBeCloseTo(5);
+        });
+
+        it("trails the target with smoothing", () => {
+            follower.startFollow(() => ({ x: 10, y: 0 }), { smoothing: 0.5 });
+
+            vi.advanceTimersByTime(16);
+            const first = center().x;
+            expect(first).toBeGreaterThan(0);
+            expect(first).toBeLessThan(10);
+
+            vi.advanceTimersByTime(16);
+            expect(center().x).toBeGreaterThan(first);
+            expect(center().x).toBeLessThan(10);
+        });
+
+        it("locks on despite smoothing under reduced motion", () => {
+            reducedMotion = true;
+            follower.startFollow(() => ({ x: 10, y: 0 }), { smoothing: 0.1 });
+
+            vi.advanceTimersByTime(16);
+            expect(center().x).toBeCloseTo(10);
+        });
+
+        it("aims ahead of a moving target with lookahead", () => {
+            let x = 0;
+            follower.startFollow(() => ({ x: (x += 1), y: 0 }), { lookaheadMs: 160 });
+
+            vi.advanceTimersByTime(16);
+            expect(center().x).toBeCloseTo(1);
+            // 1 world unit per 16ms frame, 160ms ahead = 10 units past the target.
+            vi.advanceTimersByTime(16);
+            expect(center().x).toBeCloseTo(12);
+        });
+
+        it("holds still while the getter returns nothing", () => {
+            follower.startFollow(() => null);
+            vi.advanceTimersByTime(100);
+            expect(center()).toEqual({ x: 0, y: 0 });
+            expect(follower.isFollowing()).toBe(true);
+        });
+
+        it("still clamps to camera bounds", () => {
+            camera.setBounds({ minX: -50, maxX: 50, minY: -50, maxY: 50 });
+            follower.startFollow(() => ({ x: 1000, y: 0 }));
+
+            vi.advanceTimersByTime(16);
+            // 800px at scale 10 shows 80 units, so the center stops 40 short of maxX.
+            expect(center().x).toBeCloseTo(50 - 40 - 0.5);
+        });
+
+        it("stops on cancelFollow and on cancelAll", () => {
+            follower.startFollow(() => ({ x: 10, y: 0 }));
+            follower.cancelFollow();
+            vi.advanceTimersByTime(100);
+            expect(center().x).toBeCloseTo(0);
+            expect(follower.isFollowing()).toBe(false);
+
+            follower.startFollow(() => ({ x: 10, y: 0 }));
+            follower.cancelAll();
+            expect(follower.isFollowing()).toBe(false);
+        });
+
+        it("places the camera once when frames cannot be scheduled", () => {
+            vi.unstubAllGlobals();
+            follower.startFollow(() => ({ x: 10, y: 0 }));
+            expect(center().x).toBeCloseTo(10);
+            expect(follower.isFollowing()).toBe(false);
+        });
+    });
+
     describe("without requestAnimationFrame (headless environments)", () => {
         beforeEach(() => {
             // Node has no requestAnimationFrame; drop the stub to simulate it.
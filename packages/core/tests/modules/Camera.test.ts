@@ -1,6 +1,7 @@
 import { describe, expect, it, beforeEach } from "vitest";
 import { Camera } from "../../src/modules/Camera";
 import { ViewportState } from "../../src/modules/ViewportState";
+import { CoordinateTransformer } from "../../src/modules/CoordinateTransformer";
 import { DEFAULT_VALUES } from "../../src/constants";
 
 describe("Camera", () => {
@@ -278,4 +279,275 @@ describe("Camera", () => {
             expect(center.y).toBeCloseTo(50 - OFFSET, 1);
         });
     });
+
+    describe("zoom levels", () => {
+        const canvasRect = { left: 0, top: 0, width: 800, height: 600 } as DOMRect;
+
+        it("steps one level once the wheel adds up to a notch", () => {
+            const camera = new Camera({ x: 0, y: 0 }, 2, 0.5, 8);
+            camera.setZoomLevels("integers");
+
+            camera.zoom(400, 300, -30, canvasRect);
+            expect(camera.scale).toBe(2);
+            camera.zoom(400, 300, -30, canvasRect);
+            expect(camera.scale).toBe(3);
+
+            // A full notch steps exactly one level, never more
+            camera.zoom(400, 300, 100, canvasRect);
+            expect(camera.scale).toBe(2);
+        });
+
+        it("starts over when the wheel reverses", () => {
+            const camera = new Camera({ x: 0, y: 0 }, 2, 0.5, 8);
+            camera.setZoomLevels("integers");
+
+            camera.zoom(400, 300, -40, canvasRect);
+            camera.zoom(400, 300, 40, canvasRect);
+            expect(camera.scale).toBe(2);
+            camera.zoom(400, 300, 40, canvasRect);
+            expect(camera.scale).toBe(1);
+        });
+
+        it("keeps the point under the cursor fixed on a wheel step", () => {
+            const camera = new Camera({ x: 0, y: 0 }, 1, 0.5, 8);
+            camera.setZoomLevels("powers-of-two");
+            const transformer = new CoordinateTransformer(camera);
+            const before = transformer.screenToWorld(200, 150);
+
+            camera.zoom(200, 150, -100, canvasRect);
+
+            expect(camera.scale).toBe(2);
+            const after = transformer.screenToWorld(200, 150);
+            expect(after.x).toBeCloseTo(before.x);
+            expect(after.y).toBeCloseTo(before.y);
+        });
+
+        it("lands stepZoom on the level nearest the factor's target", () => {
+            const camera = new Camera({ x: 0, y: 0 }, 1, 0.5, 16);
+            camera.setZoomLevels("powers-of-two");
+            camera.stepZoom(3.5, 400, 300);
+            expect(camera.scale).toBe(4);
+        });
+
+        it("moves stepZoom at least one level when the factor is small", () => {
+            const camera = new Camera({ x: 0, y: 0 }, 2, 0.5, 16);
+            camera.setZoomLevels("powers-of-two");
+            camera.stepZoom(1.1, 400, 300);
+            expect(camera.scale).toBe(4);
+            camera.stepZoom(1 / 1.1, 400, 300);
+            expect(camera.scale).toBe(2);
+        });
+
+        it("zooms freely once the levels are cleared", () => {
+            const camera = new Camera({ x: 0, y: 0 }, 2, 0.5, 16);
+            camera.setZoomLevels("integers");
+            camera.setZoomLevels(false);
+            camera.stepZoom(1.1, 400, 300);
+            expect(camera.scale).toBeCloseTo(2.2);
+        });
+
+        it("snaps the resting view only when asked", () => {
+            const viewport = new ViewportState(800, 600);
+            const camera = new Camera({ x: 0, y: 0 }, 2.8, 0.5, 16, viewport);
+            camera.setZoomLevels("integers");
+            expect(camera.getRestingView(400, 300).scale).toBe(2.8);
+            expect(camera.getRestingView(400, 300, true).scale).toBe(3);
+        });
+    });
+
+    describe("elastic (rubber-band) mode", () => {
+        const RUBBER_BAND = { resistance: 0.5, maxOverscrollPx: 100, maxOverscale: 1.5 };
+        let viewport: ViewportState;
+        let camera: Camera;
+
+        beforeEach(() => {
+            viewport = new ViewportState(800, 600);
+            // Bounds leave 200 world units of travel on x: top-left x in [0, 200]
+            camera = new Camera({ x: 0, y: 0 }, 1, 0.5, 2, viewport);
+            camera.setBounds({ minX: 0, maxX: 1000, minY: 0, maxY: 1000 });
+            camera.setCenter({ x: 500, y: 500 }, 800, 600);
+        });
+
+        it("lets a pan stretch past the bounds with resistance", () => {
+            camera.setElastic(RUBBER_BAND);
+            // 100px of travel to the right edge, then 200px past it
+            camera.pan(-300, 0);
+            const past = camera.x - 200;
+            expect(past).toBeGreaterThan(0);
+            expect(past).toBeLessThan(RUBBER_BAND.maxOverscrollPx);
+            expect(past).toBeLessThan(200 * RUBBER_BAND.resistance);
+        });
+
+        it("returns toward the bounds without resistance", () => {
+            camera.setElastic(RUBBER_BAND);
+            camera.pan(-300, 0);
+            const stretched = camera.x;
+            camera.pan(10, 0);
+            expect(camera.x).toBeCloseTo(stretched - 10);
+        });
+
+        it("pans unresisted inside the bounds", () => {
+            camera.setElastic(RUBBER_BAND);
+            const x = camera.x;
+            camera.pan(-50, 0);
+            expect(camera.x).toBeCloseTo(x + 50);
+        });
+
+        it("lets a pinch stretch past maxScale, approaching maxOverscale", () => {
+            camera.setElastic(RUBBER_BAND);
+            camera.zoomByFactor(4, 400, 300);
+            expect(camera.scale).toBeGreaterThan(2);
+            expect(camera.scale).toBeLessThan(2 * RUBBER_BAND.maxOverscale);
+        });
+
+        it("reports the resting view the limits would settle on", () => {
+            camera.setElastic(RUBBER_BAND);
+            camera.zoomByFactor(4, 400, 300);
+            camera.pan(-2000, 0);
+
+            const resting = camera.getRestingView(400, 300);
+            expect(resting.scale).toBe(2);
+            // At scale 2 the 800px viewport spans 400 world units: center x <= 1000 - 200
+            expect(resting.center.x).toBeCloseTo(800 - DEFAULT_VALUES.CELL_CENTER_OFFSET);
+        });
+
+        it("clamps back into the limits when elastic mode ends", () => {
+            camera.setElastic(RUBBER_BAND);
+            camera.zoomByFactor(4, 400, 300);
+            camera.pan(-2000, 0);
+
+            camera.setElastic(undefined);
+            expect(camera.scale).toBe(2);
+            expect(camera.x).toBeCloseTo(600);
+        });
+
+        it("keeps the hard limits when never made elastic", () => {
+            camera.pan(-300, 0);
+            expect(camera.x).toBe(200);
+            camera.zoomByFactor(4, 400, 300);
+            expect(camera.scale).toBe(2);
+        });
+    });
+
+    describe("rotation", () => {
+        let viewport: ViewportState;
+
+        beforeEach(() => {
+            viewport = new ViewportState(800, 600);
+        });
+
+        it("defaults to 0 and normalizes into [0, 360)", () => {
+            const camera = new Camera({ x: 0, y: 0 }, 1, 0.1, 10, viewport);
+            expect(camera.rotation).toBe(0);
+            camera.setRotation(-90);
+            expect(camera.rotation).toBe(270);
+            camera.setRotation(450);
+            expect(camera.rotation).toBe(90);
+        });
+
+        it("keeps the world center when rotating", () => {
+            const camera = new Camera({ x: 10, y: 20 }, 2, 0.1, 10, viewport);
+            const before = camera.getCenter(800, 600);
+            camera.setRotation(37);
+            expect(camera.getCenter(800, 600)).toEqual(before);
+        });
+
+        it("pans along the rotated screen axes", () => {
+            const camera = new Camera({ x: 0, y: 0 }, 1, 0.1, 10, viewport);
+            camera.setRotation(90);
+            // Rotated 90° clockwise, world +y points screen-left: dragging
+            // right pulls the content toward world -y, so the camera moves +y.
+            camera.pan(100, 0);
+            expect(camera.x).toBeCloseTo(0.5, 6);
+            expect(camera.y).toBeCloseTo(0.5 + 100, 6);
+        });
+
+        it("keeps the zoom anchor stationary on screen", () => {
+            const camera = new Camera({ x: 0, y: 0 }, 1, 0.1, 10, viewport);
+            camera.setRotation(30);
+            const transformer = new CoordinateTransformer(camera, viewport);
+            const anchor = { x: 100, y: 50 };
+            const before = transformer.screenToWorld(anchor.x, anchor.y);
+            camera.zoomByFactor(2, anchor.x, anchor.y);
+            const after = transformer.screenToWorld(anchor.x, anchor.y);
+            expect(after.x).toBeCloseTo(before.x, 6);
+            expect(after.y).toBeCloseTo(before.y, 6);
+        });
+
+        it("reports the axis-aligned box around the rotated viewport as visible bounds", () => {
+            const camera = new Camera({ x: 0, y: 0 }, 1, 0.1, 10, viewport);
+            const unrotated = camera.getVisibleBounds(800, 600);
+            camera.setRotation(90);
+            const rotated = camera.getVisibleBounds(800, 600);
+            // Quarter turn: the 800x600 view covers 600x800 world units.
+            expect(rotated.maxX - rotated.minX).toBe(600);
+            expect(rotated.maxY - rotated.minY).toBe(800);
+            expect((rotated.minX + rotated.maxX) / 2).toBe((unrotated.minX + unrotated.maxX) / 2);
+        });
+
+        it("clamps the rotated view box into the bounds", () => {
+            const camera = new Camera({ x: 500, y: 500 }, 1, 0.1, 10, viewport);
+            camera.setRotation(45);
+            camera.setBounds({ minX: 0, maxX: 2000, minY: 0, maxY: 2000 });
+            camera.pan(100000, 100000);
+            const bounds = camera.getVisibleBounds(800, 600);
+            expect(bounds.minX).toBeGreaterThanOrEqual(-1);
+            expect(bounds.minY).toBeGreaterThanOrEqual(-1);
+        });
+    });
+
+    describe("isometric projection", () => {
+        let viewport: ViewportState;
+
+        beforeEach(() => {
+            viewport = new ViewportState(800, 600);
+        });
+
+        it("pans along the diamond axes", () => {
+            const camera = new Camera({ x: 0, y: 0 }, 1, 0.1, 10, viewport);
+            camera.setProjection({ type: "isometric", tileRatio: 0.5 });
+            // At scale 1 a diamond is 0.5px tall: dragging down by that steps one cell back on both axes
+            camera.pan(0, 0.5);
+            expect(camera.x).toBeCloseTo(0.5 - 1, 6);
+            expect(camera.y).toBeCloseTo(0.5 - 1, 6);
+        });
+
+        it("reports the box around the projected viewport as visible bounds", () => {
+            const camera = new Camera({ x: 0, y: 0 }, 1, 0.1, 10, viewport);
+            camera.setProjection({ type: "isometric", tileRatio: 0.5 });
+            const bounds = camera.getVisibleBounds(800, 600);
+            // 400 half-width + 2 x 300 half-height on each axis
+            expect(bounds.maxX - bounds.minX).toBe(2000);
+            expect(bounds.maxY - bounds.minY).toBe(2000);
+        });
+    });
+
+    describe("withView", () => {
+        it("shows the borrowed view during the callback and restores the real one", () => {
+            const camera = new Camera({ x: 10, y: 20 }, 4);
+            camera.setRotation(45);
+
+            const seen = camera.withView({ x: -5, y: 3, scale: 0.5, rotation: 0 }, () => [
+                camera.x,
+                camera.y,
+                camera.scale,
+                camera.rotation,
+            ]);
+
+            expect(seen).toEqual([-5, 3, 0.5, 0]);
+            expect(camera.x).toBe(10 + DEFAULT_VALUES.CELL_CENTER_OFFSET);
+            expect(camera.scale).toBe(4);
+            expect(camera.rotation).toBe(45);
+        });
+
+        it("restores the view when the callback throws", () => {
+            const camera = new Camera({ x: 0, y: 0 }, 2);
+            expect(() =>
+                camera.withView({ x: 9, y: 9, scale: 8, rotation: 0 }, () => {
+                    throw new Error("boom");
+                }),
+            ).toThrow("boom");
+            expect(camera.scale).toBe(2);
+        });
+    });
 });
@@ -1,7 +1,10 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { CanvasTileEngine } from "../../src/CanvasTileEngine";
 import { fitScale } from "../../src/utils/fitScale";
-import type { CanvasTileEngineConfig, Coords, IRenderer } from "../../src/types";
+import { selectTool } from "../../src/utils/tools";
+import { wrapCoords } from "../../src/utils/wrap";
+import type { CanvasTileEngineConfig, Coords, IRenderer, PointerInfo } from "../../src/types";
+import type { HitResult } from "../../src/modules/HitTester";
 
 type Mount = Record<string, never>;
 
@@ -134,6 +137,43 @@ describe("CanvasTileEngine", () => {
         });
     });
 
+    describe("zoomLevels", () => {
+        it("snaps zoomIn/zoomOut to the configured levels", () => {
+            const stepped = createEngine({ ...baseConfig, maxScale: 8, zoomLevels: [0.5, 1, 2, 4, 8] });
+            stepped.onZoom = onZoom;
+
+            stepped.zoomIn(); // 1.5 is nearer 2 than 1
+            expect(stepped.getScale()).toBe(2);
+            stepped.zoomIn(3); // 6 is nearer 8 than 4
+            expect(stepped.getScale()).toBe(8);
+            stepped.zoomOut(1.1); // too small to reach 4: still one level down
+            expect(stepped.getScale()).toBe(4);
+            expect(onZoom).toHaveBeenLastCalledWith(4);
+        });
+
+        it("leaves setScale exact", () => {
+            const stepped = createEngine({ ...baseConfig, zoomLevels: "integers" });
+            stepped.setScale(1.5);
+            expect(stepped.getScale()).toBe(1.5);
+        });
+
+        it("replaces the levels at runtime", () => {
+            engine.setZoomLevels("powers-of-two");
+            expect(engine.getConfig().zoomLevels).toBe("powers-of-two");
+            engine.zoomOut(1.2);
+            expect(engine.getScale()).toBe(0.5);
+
+            engine.setZoomLevels(false);
+            engine.zoomIn(1.2);
+            expect(engine.getScale()).toBeCloseTo(0.6);
+        });
+
+        it("rejects invalid levels", () => {
+            expect(() => engine.setZoomLevels([])).toThrow();
+            expect(() => createEngine({ ...baseConfig, zoomLevels: [-1] })).toThrow();
+        });
+    });
+
     describe("setScaleLimits", () => {
         it("updates the limits used by zoom clamping", () => {
             engine.setScaleLimits(0.5, 4);
@@ -187,6 +227,206 @@ describe("CanvasTileEngine", () => {
             expect(() => engine.setCenter({ x: NaN, y: 0 })).toThrow();
             expect(() => engine.goCenter(0, Infinity)).toThrow();
         });
+
+        it("goCenter and goScale accept an options object with easing", () => {
+            const onCenter = vi.fn();
+            const onScale = vi.fn();
+            engine.goCenter(10, 20, { durationMs: 0, easing: "easeOutCubic", onComplete: onCenter });
+            engine.goScale(1.5, { easing: { type: "spring", stiffness: 300 }, onComplete: onScale });
+            expect(engine.getCenter()).toEqual({ x: 10, y: 20 });
+            expect(engine.getScale()).toBe(1.5);
+            expect(onCenter).toHaveBeenCalled();
+            expect(onScale).toHaveBeenCalled();
+        });
+
+        it("rejects an invalid easing before moving", () => {
+            engine.setCenter({ x: 1, y: 1 });
+            expect(() => engine.goCenter(10, 20, { easing: "bounce" as never })).toThrow("easing must be one of");
+            expect(() => engine.goScale(2, { easing: { type: "spring", damping: 0 } })).toThrow(
+                "spring damping must be a positive finite number",
+            );
+            expect(() => engine.fitBounds({ minX: 0, maxX: 10, minY: 0, maxY: 10 }, { easing: 5 as never })).toThrow();
+            expect(engine.getCenter()).toEqual({ x: 1, y: 1 });
+        });
+    });
+
+    describe("rotation API (getRotation / setRotation / goRotation)", () => {
+        it("starts from config.rotation, normalized", () => {
+            const e = createEngine({ ...baseConfig, rotation: -45 });
+            expect(e.getRotation()).toBe(315);
+            expect(e.getConfig().rotation).toBe(315);
+        });
+
+        it("setRotation rotates around the center and fires onCoordsChange", () => {
+            engine.setCenter({ x: 25, y: 40 });
+            onCoordsChange.mockClear();
+            engine.setRotation(90);
+            expect(engine.getRotation()).toBe(90);
+            expect(engine.getCenter()).toEqual({ x: 25, y: 40 });
+            expect(onCoordsChange).toHaveBeenCalledWith({ x: 25, y: 40 });
+        });
+
+        // Node has no requestAnimationFrame, so goRotation completes instantly.
+        it("goRotation reaches the target angle", () => {
+            const onComplete = vi.fn();
+            engine.goRotation(-30, 500, onComplete);
+            expect(engine.getRotation()).toBe(330);
+            expect(onComplete).toHaveBeenCalled();
+        });
+
+        it("getVisibleBounds grows to cover the rotated view", () => {
+            const before = engine.getVisibleBounds();
+            engine.setRotation(90);
+            const after = engine.getVisibleBounds();
+            expect(after.maxX - after.minX).toBe(before.maxY - before.minY);
+            expect(after.maxY - after.minY).toBe(before.maxX - before.minX);
+        });
+
+        it("rejects non-finite angles", () => {
+            expect(() => engine.setRotation(NaN)).toThrow();
+            expect(() => engine.goRotation(Infinity)).toThrow();
+            expect(() => createEngine({ ...baseConfig, rotation: NaN })).toThrow();
+        });
+    });
+
+    describe("follow / unfollow / flyTo", () => {
+        let renderer: IRenderer<Mount>;
+        let followEngine: CanvasTileEngine<Mount>;
+
+        beforeEach(() => {
+            vi.useFakeTimers();
+            let frameId = 0;
+            const frameTimers = new Map<number, ReturnType<typeof setTimeout>>();
+            vi.stubGlobal("requestAnimationFrame", (cb: FrameRequestCallback) => {
+                const id = ++frameId;
+                frameTimers.set(
+                    id,
+                    setTimeout(() => {
+                        frameTimers.delete(id);
+                        cb(performance.now());
+                    }, 16),
+                );
+                return id;
+            });
+            vi.stubGlobal("cancelAnimationFrame", (id: number) => {
+                clearTimeout(frameTimers.get(id));
+                frameTimers.delete(id);
+            });
+            renderer = createMockRenderer();
+            followEngine = new CanvasTileEngine<Mount>({}, baseConfig, renderer);
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+            vi.unstubAllGlobals();
+        });
+
+        it("tracks the target every frame until unfollow", () => {
+            const target = { x: 10, y: 20 };
+            followEngine.follow(() => target);
+            expect(followEngine.isFollowing()).toBe(true);
+
+            vi.advanceTimersByTime(16);
+            expect(followEngine.getCenter()).toEqual({ x: 10, y: 20 });
+
+            followEngine.unfollow();
+            target.x = 30;
+            vi.advanceTimersByTime(100);
+            expect(followEngine.getCenter().x).toBeCloseTo(10);
+            expect(followEngine.isFollowing()).toBe(false);
+        });
+
+        it("breaks on a user drag by default and reports it", () => {
+            const onBreak = vi.fn();
+            followEngine.follow(() => ({ x: 10, y: 20 }), { onBreak });
+
+            renderer.onDragStart?.();
+
+            expect(followEngine.isFollowing()).toBe(false);
+            expect(onBreak).toHaveBeenCalledTimes(1);
+        });
+
+        it("keeps following through a drag when breakOnDrag is false", () => {
+            const onBreak = vi.fn();
+            followEngine.follow(() => ({ x: 10, y: 20 }), { breakOnDrag: false, onBreak });
+
+            renderer.onDragStart?.();
+
+            expect(followEngine.isFollowing()).toBe(true);
+            expect(onBreak).not.toHaveBeenCalled();
+        });
+
+        it("ends when the app asks for another view", () => {
+            followEngine.follow(() => ({ x: 10, y: 20 }));
+            followEngine.setCenter({ x: 0, y: 0 });
+            expect(followEngine.isFollowing()).toBe(false);
+
+            followEngine.follow(() => ({ x: 10, y: 20 }));
+            followEngine.goCenter(0, 0);
+            expect(followEngine.isFollowing()).toBe(false);
+
+            followEngine.follow(() => ({ x: 10, y: 20 }));
+            followEngine.fitBounds({ minX: 0, maxX: 10, minY: 0, maxY: 10 });
+            expect(followEngine.isFollowing()).toBe(false);
+        });
+
+        it("keeps following through zoom and rotation", () => {
+            followEngine.follow(() => ({ x: 10, y: 20 }));
+            followEngine.zoomIn();
+            followEngine.setRotation(45);
+            vi.advanceTimersByTime(16);
+
+            expect(followEngine.isFollowing()).toBe(true);
+            expect(followEngine.getCenter().x).toBeCloseTo(10);
+            expect(followEngine.getCenter().y).toBeCloseTo(20);
+        });
+
+        it("flyTo is cancelled by a user gesture and by programmatic moves", () => {
+            const onComplete = vi.fn();
+            followEngine.flyTo({ center: { x: 5000, y: 0 }, scale: 2, durationMs: 1000, onComplete });
+            vi.advanceTimersByTime(200);
+
+            renderer.onCameraChange?.();
+            const stopped = followEngine.getCenter();
+            vi.advanceTimersByTime(1000);
+            expect(followEngine.getCenter()).toEqual(stopped);
+            expect(onComplete).not.toHaveBeenCalled();
+
+            followEngine.flyTo({ center: { x: 5000, y: 0 }, durationMs: 1000 });
+            vi.advanceTimersByTime(200);
+            followEngine.setCenter({ x: 1, y: 2 });
+            vi.advanceTimersByTime(1000);
+            expect(followEngine.getCenter()).toEqual({ x: 1, y: 2 });
+        });
+
+        it("flyTo lands on the target, clamps the scale and reports zoom changes", () => {
+            const onFlyZoom = vi.fn();
+            followEngine.onZoom = onFlyZoom;
+            followEngine.flyTo({ center: { x: 300, y: -200 }, scale: 50, durationMs: 400 });
+            vi.advanceTimersByTime(500);
+
+            expect(followEngine.getCenter().x).toBeCloseTo(300);
+            expect(followEngine.getCenter().y).toBeCloseTo(-200);
+            expect(followEngine.getScale()).toBe(2);
+            expect(onFlyZoom).toHaveBeenLastCalledWith(2);
+        });
+
+        it("flyTo ends an active follow", () => {
+            followEngine.follow(() => ({ x: 10, y: 20 }));
+            followEngine.flyTo({ center: { x: 0, y: 0 } });
+            expect(followEngine.isFollowing()).toBe(false);
+        });
+
+        it("rejects invalid options without touching an active follow", () => {
+            followEngine.follow(() => ({ x: 10, y: 20 }));
+
+            expect(() => followEngine.follow(() => ({ x: 0, y: 0 }), { smoothing: 0 })).toThrow(/smoothing/);
+            expect(() => followEngine.follow(() => ({ x: 0, y: 0 }), { deadzone: { width: -1, height: 0 } })).toThrow(
+                /deadzone.width/,
+            );
+            expect(() => followEngine.follow(() => ({ x: 0, y: 0 }), { lookaheadMs: NaN })).toThrow(/lookaheadMs/);
+            expect(followEngine.isFollowing()).toBe(true);
+        });
     });
 
     describe("fitBounds", () => {
@@ -358,6 +598,160 @@ describe("CanvasTileEngine", () => {
         });
     });
 
+    describe("view state (getViewState / setViewState / subscribeViewState)", () => {
+        const wideLimits: CanvasTileEngineConfig = { ...baseConfig, minScale: 0.01, maxScale: 1000 };
+
+        it("round-trips through JSON", () => {
+            const a = createEngine(wideLimits);
+            a.setCenter({ x: 12, y: -4 });
+            a.setScale(32);
+            a.setRotation(30);
+            const saved = JSON.parse(JSON.stringify(a.getViewState()));
+
+            const b = createEngine(wideLimits);
+            b.setViewState(saved);
+            const restored = b.getViewState();
+            expect(restored.scale).toBe(32);
+            expect(restored.rotation).toBe(30);
+            expect(restored.center.x).toBeCloseTo(12);
+            expect(restored.center.y).toBeCloseTo(-4);
+            expect(restored.size).toEqual({ width: 800, height: 600 });
+        });
+
+        it("keeps the rotation when the state has none", () => {
+            const e = createEngine(wideLimits);
+            e.setRotation(45);
+            e.setViewState({ center: { x: 1, y: 2 }, scale: 4 });
+            expect(e.getRotation()).toBe(45);
+        });
+
+        it('match: "extent" scales so the same world area stays visible', () => {
+            const e = createEngine(wideLimits);
+            // Taken on a 400x300 viewport at scale 10: 40x30 world units visible.
+            e.setViewState(
+                { center: { x: 0, y: 0 }, scale: 10, size: { width: 400, height: 300 } },
+                { match: "extent" },
+            );
+            expect(e.getScale()).toBe(20);
+        });
+
+        it('match: "extent" keeps the whole area visible when the aspect differs', () => {
+            const e = createEngine(wideLimits);
+            e.setViewState(
+                { center: { x: 0, y: 0 }, scale: 10, size: { width: 400, height: 600 } },
+                { match: "extent" },
+            );
+            // min(800 / 400, 600 / 600) = 1
+            expect(e.getScale()).toBe(10);
+        });
+
+        it("clamps the scale to the scale limits", () => {
+            engine.setViewState({ center: { x: 0, y: 0 }, scale: 50 });
+            expect(engine.getScale()).toBe(2);
+        });
+
+        it("stops following", () => {
+            const e = createEngine(wideLimits);
+            e.follow(() => ({ x: 0, y: 0 }));
+            e.setViewState({ center: { x: 5, y: 5 }, scale: 2 });
+            expect(e.isFollowing()).toBe(false);
+        });
+
+        it("calls onComplete on the instant path", () => {
+            const onComplete = vi.fn();
+            engine.setViewState({ center: { x: 5, y: 5 }, scale: 2 }, { onComplete });
+            expect(onComplete).toHaveBeenCalledTimes(1);
+        });
+
+        describe("animated rotation", () => {
+            // Frames run by hand, 16 ms apart
+            const frames = new Map<number, FrameRequestCallback>();
+            let nextFrameId = 1;
+            let now = 0;
+            const runFrames = (count: number) => {
+                for (let i = 0; i < count && frames.size > 0; i++) {
+                    now += 16;
+                    const queued = [...frames];
+                    frames.clear();
+                    for (const [, frame] of queued) {
+                        frame(now);
+                    }
+                }
+            };
+
+            beforeEach(() => {
+                frames.clear();
+                vi.stubGlobal("requestAnimationFrame", (cb: FrameRequestCallback) => {
+                    frames.set(nextFrameId, cb);
+                    return nextFrameId++;
+                });
+                vi.stubGlobal("cancelAnimationFrame", (id: number) => frames.delete(id));
+                now = performance.now();
+            });
+
+            afterEach(() => {
+                vi.unstubAllGlobals();
+            });
+
+            it("follows the easing of the center and scale", () => {
+                const e = createEngine(wideLimits);
+                e.setViewState(
+                    { center: { x: 0, y: 0 }, scale: 1, rotation: 90 },
+                    { durationMs: 500, easing: "linear" },
+                );
+                runFrames(8);
+                // Linear: about a quarter of the way after 128 ms (ease-in-out would be near 3°)
+                expect(e.getRotation()).toBeGreaterThan(15);
+                expect(e.getRotation()).toBeLessThan(30);
+            });
+
+            it("calls onComplete once, after rotation, center and scale all settle on a spring", () => {
+                const e = createEngine(wideLimits);
+                const landed: Array<{ rotation: number; scale: number }> = [];
+                const onComplete = vi.fn(() => landed.push({ rotation: e.getRotation(), scale: e.getScale() }));
+                e.setViewState(
+                    { center: { x: 5, y: 5 }, scale: 4, rotation: 170 },
+                    { durationMs: 500, easing: { type: "spring", stiffness: 120, damping: 14 }, onComplete },
+                );
+                runFrames(1000);
+
+                expect(frames.size).toBe(0);
+                expect(onComplete).toHaveBeenCalledTimes(1);
+                expect(landed).toEqual([{ rotation: 170, scale: 4 }]);
+            });
+        });
+
+        it("rejects invalid states and options", () => {
+            expect(() => engine.setViewState({ center: { x: NaN, y: 0 }, scale: 1 })).toThrow();
+            expect(() => engine.setViewState({ center: { x: 0, y: 0 }, scale: 0 })).toThrow();
+            expect(() => engine.setViewState({ center: { x: 0, y: 0 }, scale: 1, rotation: Infinity })).toThrow();
+            expect(() =>
+                engine.setViewState({ center: { x: 0, y: 0 }, scale: 1, size: { width: 0, height: 10 } }),
+            ).toThrow(/size.width/);
+            expect(() => engine.setViewState({ center: { x: 0, y: 0 }, scale: 1 }, { match: "extent" })).toThrow(
+                /extent/,
+            );
+        });
+
+        it("subscribeViewState notifies every listener until unsubscribed", () => {
+            const first = vi.fn();
+            const second = vi.fn();
+            const unsubscribe = engine.subscribeViewState(first);
+            engine.subscribeViewState(second);
+
+            engine.setCenter({ x: 3, y: 4 });
+            expect(first).toHaveBeenCalledTimes(1);
+            expect(second).toHaveBeenCalledTimes(1);
+            expect(first.mock.calls[0][0].center.x).toBeCloseTo(3);
+
+            unsubscribe();
+            engine.setScale(1.5);
+            expect(first).toHaveBeenCalledTimes(1);
+            expect(second).toHaveBeenCalledTimes(2);
+            expect(second.mock.calls[1][0].scale).toBe(1.5);
+        });
+    });
+
     describe("setBounds", () => {
         it("fires onCoordsChange since bounds can clamp the camera", () => {
             // Engine starts centered at (0, 0); these bounds force a clamp.
@@ -402,6 +796,14 @@ describe("CanvasTileEngine", () => {
             e.resize(400, 300, 0, () => order.push("onComplete"));
             expect(order).toEqual(["onResize", "onComplete"]);
         });
+
+        it("forwards the options form, easing included", () => {
+            const renderer = createMockRenderer();
+            const e = new CanvasTileEngine<Mount>({}, baseConfig, renderer);
+            const onComplete = vi.fn();
+            e.resize(400, 300, { durationMs: 250, easing: "easeOut", onComplete });
+            expect(renderer.resizeWithAnimation).toHaveBeenCalledWith(400, 300, 250, onComplete, "easeOut");
+        });
     });
 
     describe("gridAligned initial center snapping", () => {
@@ -804,6 +1206,38 @@ describe("CanvasTileEngine", () => {
             expect(e.hitTestFirst({ x: 2.5, y: 2.5 })).toBeDefined();
         });
 
+        it("overlays selectedStyle on items selected through their data, on top of styleOf", () => {
+            const { e, drawAPI } = createEngineWithDrawAPI();
+            e.selection.idOf = (data) => (data as { id: string }).id;
+            const items = [
+                { x: 0, y: 0, size: 1, data: { id: "a" } },
+                { x: 1, y: 0, size: 1, data: { id: "b" } },
+            ];
+            e.drawRect(items, 1, {
+                styleOf: () => ({ fillStyle: "#000", strokeStyle: "#111" }),
+                selectedStyle: { strokeStyle: "#f00" },
+            });
+            const { styleOf } = drawAPI.drawRect.mock.calls[0][2] as {
+                styleOf: (item: (typeof items)[number]) => unknown;
+            };
+
+            e.selection.select("b");
+
+            expect(styleOf(items[0])).toEqual({ fillStyle: "#000", strokeStyle: "#111" });
+            expect(styleOf(items[1])).toEqual({ fillStyle: "#000", strokeStyle: "#f00" });
+        });
+
+        it("re-renders on every selection change", () => {
+            const { e } = createEngineWithDrawAPI();
+            const render = vi.spyOn(e, "render");
+
+            e.selection.select("a");
+            e.selection.select("a");
+            e.selection.clear();
+
+            expect(render).toHaveBeenCalledTimes(2);
+        });
+
         it("composes with id-based replace", () => {
             const { e, drawAPI } = createEngineWithDrawAPI();
             const first = e.drawRect({ x: 2, y: 2, size: 1 }, 1, { id: "tiles", styleOf: () => undefined });
@@ -979,6 +1413,945 @@ describe("CanvasTileEngine", () => {
         });
     });
 
+    describe("drawHex", () => {
+        // Zoomed in so the minimum stroke tap width stays well inside a hex
+        const hexConfig: CanvasTileEngineConfig = { ...baseConfig, scale: 100, maxScale: 100, grid: { type: "hex" } };
+
+        function createHexEngine(config: CanvasTileEngineConfig = hexConfig) {
+            const drawAPI = {
+                drawPath: vi.fn((_items: unknown, layer: number = 1, _options?: unknown) => ({
+                    id: Symbol("path"),
+                    layer,
+                })),
+                removeDrawHandle: vi.fn(),
+                clearLayer: vi.fn(),
+                clearAll: vi.fn(),
+                clearStaticCache: vi.fn(),
+            };
+            const renderer = createMockRenderer();
+            (renderer.getDrawAPI as ReturnType<typeof vi.fn>).mockReturnValue(drawAPI);
+            return { e: new CanvasTileEngine<Mount>({}, config, renderer), drawAPI };
+        }
+
+        it("draws hexes as closed paths and hit-tests their area", () => {
+            const { e, drawAPI } = createHexEngine();
+            e.drawHex([{ x: 1, y: 0, style: { fillStyle: "#f00" }, data: "a" }], 1);
+
+            const [paths] = drawAPI.drawPath.mock.calls[0] as unknown as [Array<Record<string, unknown>>];
+            expect(paths[0]).toMatchObject({ closed: true, style: { fillStyle: "#f00" }, data: "a" });
+            expect(paths[0].points).toHaveLength(6);
+
+            // Raw coords sit half a cell off item space: hex (1, 0) spans item x [0.5, 1.5]
+            expect(e.hitTestFirst({ x: 1.95, y: 0.5 })).toMatchObject({ index: 0, item: { data: "a" } });
+            expect(e.hitTestFirst({ x: 2.05, y: 0.5 })).toBeUndefined();
+        });
+
+        it("hands hex items, not the generated paths, to per-item callbacks", () => {
+            const { e, drawAPI } = createHexEngine();
+            const hexes = [
+                { x: 0, y: 0 },
+                { x: 1, y: 0 },
+            ];
+            e.drawHex(hexes, 1, { visibleOf: (hex) => hex.x !== 1 });
+
+            const [paths, , options] = drawAPI.drawPath.mock.calls[0] as unknown as [
+                unknown[],
+                number,
+                { visibleOf: (path: unknown) => boolean },
+            ];
+            expect(paths.map((path) => options.visibleOf(path))).toEqual([true, false]);
+            expect(e.hitTestFirst({ x: 1.5, y: 0.5 })).toBeUndefined();
+        });
+
+        it("highlights selected hexes through their data", () => {
+            const { e, drawAPI } = createHexEngine();
+            e.drawHex(
+                [
+                    { x: 0, y: 0, data: "a" },
+                    { x: 1, y: 0, data: "b" },
+                ],
+                1,
+                { selectedStyle: { strokeStyle: "#f00" } },
+            );
+            const [paths, , options] = drawAPI.drawPath.mock.calls[0] as unknown as [
+                unknown[],
+                number,
+                { styleOf: (path: unknown) => unknown },
+            ];
+
+            e.selection.select("a");
+
+            expect(paths.map((path) => options.styleOf(path))).toEqual([{ strokeStyle: "#f00" }, undefined]);
+        });
+
+        it("throws on a square grid", () => {
+            const { e } = createHexEngine(baseConfig);
+            expect(() => e.drawHex({ x: 0, y: 0 })).toThrow(/hex grid/);
+        });
+    });
+
+    describe("scale ranges (minScale / maxScale)", () => {
+        function createEngineWithDrawAPI() {
+            let seq = 0;
+            const drawAPI = {
+                drawRect: vi.fn((_items: unknown, layer: number = 1, _options?: unknown) => ({
+                    id: Symbol(`rect-${seq++}`),
+                    layer,
+                })),
+                drawGridLines: vi.fn((_size: number, _style: unknown, layer: number = 0, _options?: unknown) => ({
+                    id: Symbol(`grid-${seq++}`),
+                    layer,
+                })),
+                setLayerScaleRange: vi.fn(),
+                removeDrawHandle: vi.fn(),
+                clearLayer: vi.fn(),
+                clearAll: vi.fn(),
+                clearStaticCache: vi.fn(),
+            };
+            const renderer = createMockRenderer();
+            (renderer.getDrawAPI as ReturnType<typeof vi.fn>).mockReturnValue(drawAPI);
+            return { e: new CanvasTileEngine<Mount>({}, baseConfig, renderer), drawAPI };
+        }
+
+        it("forwards the range to the renderer", () => {
+            const { e, drawAPI } = createEngineWithDrawAPI();
+
+            e.drawRect({ x: 1, y: 1 }, 1, { minScale: 1.5, scaleFade: 0.2 });
+            e.drawGridLines(1, 1, "black", 0, { maxScale: 1.2 });
+
+            expect(drawAPI.drawRect.mock.calls[0][2]).toEqual({ minScale: 1.5, scaleFade: 0.2 });
+            expect(drawAPI.drawGridLines.mock.calls[0][3]).toEqual({ maxScale: 1.2 });
+        });
+
+        it("keeps items out of hit testing outside the range", () => {
+            const { e } = createEngineWithDrawAPI();
+            e.drawRect({ x: 2, y: 2 }, 1, { minScale: 1.5 });
+
+            expect(e.hitTestFirst({ x: 2.5, y: 2.5 })).toBeUndefined();
+            e.setScale(1.5);
+            expect(e.hitTestFirst({ x: 2.5, y: 2.5 })).toBeDefined();
+        });
+
+        it("limits whole layers, in rendering and hit testing", () => {
+            const { e, drawAPI } = createEngineWithDrawAPI();
+            e.drawRect({ x: 2, y: 2 }, 3);
+
+            e.setLayerScaleRange(3, { maxScale: 0.8 });
+            expect(drawAPI.setLayerScaleRange).toHaveBeenLastCalledWith(3, { maxScale: 0.8 });
+            expect(e.hitTestFirst({ x: 2.5, y: 2.5 })).toBeUndefined();
+
+            e.setLayerScaleRange(3, undefined);
+            expect(drawAPI.setLayerScaleRange).toHaveBeenLastCalledWith(3, undefined);
+            expect(e.hitTestFirst({ x: 2.5, y: 2.5 })).toBeDefined();
+        });
+
+        it("rejects an invalid range without replacing the previous registration", () => {
+            const { e, drawAPI } = createEngineWithDrawAPI();
+            e.drawRect({ x: 2, y: 2 }, 1, { id: "detail" });
+
+            expect(() => e.drawRect({ x: 2, y: 2 }, 1, { id: "detail", minScale: 4, maxScale: 2 })).toThrow(
+                "minScale (4) cannot be greater than maxScale (2)",
+            );
+            expect(() => e.setLayerScaleRange(1, { minScale: -1 })).toThrow(
+                "minScale must be a positive finite number",
+            );
+            expect(drawAPI.removeDrawHandle).not.toHaveBeenCalled();
+            expect(e.hitTestFirst({ x: 2.5, y: 2.5 })).toBeDefined();
+        });
+    });
+
+    describe("item events", () => {
+        type PointerCallback = (coords: Pointer, mouse: Pointer, client: Pointer, info: PointerInfo) => void;
+        type Pointer = { raw: Coords; snapped: Coords };
+
+        const PEN: PointerInfo = {
+            pointerId: 3,
+            pointerType: "pen",
+            pressure: 0.6,
+            tiltX: 10,
+            tiltY: 0,
+            shiftKey: false,
+            altKey: false,
+            ctrlKey: false,
+            metaKey: false,
+        };
+
+        function createEngineWithPointer() {
+            let seq = 0;
+            const drawAPI = {
+                drawRect: vi.fn((_items: unknown, layer: number = 1, _options?: unknown) => ({
+                    id: Symbol(`rect-${seq++}`),
+                    layer,
+                })),
+                removeDrawHandle: vi.fn(),
+                clearLayer: vi.fn(),
+                clearAll: vi.fn(),
+                clearStaticCache: vi.fn(),
+            };
+            const renderer = createMockRenderer();
+            (renderer.getDrawAPI as ReturnType<typeof vi.fn>).mockReturnValue(drawAPI);
+            const e = new CanvasTileEngine<Mount>({}, baseConfig, renderer);
+            // The engine routes the pointer callbacks through itself; drive them as the renderer would
+            const pointer = renderer as unknown as Record<string, PointerCallback>;
+            const at = (x: number, y: number): Pointer => ({
+                raw: { x, y },
+                snapped: { x: Math.floor(x), y: Math.floor(y) },
+            });
+            const fire = (event: string, x: number, y: number, info = PEN) =>
+                pointer[event](at(x, y), at(0, 0), at(0, 0), info);
+            return { e, fire };
+        }
+
+        it("fires the draw call's handler, then the engine's, with the hit", () => {
+            const { e, fire } = createEngineWithPointer();
+            const order: string[] = [];
+            const tile = { x: 2, y: 2, data: { id: "castle" } };
+            const handle = e.drawRect(tile, 1, { onItemClick: () => order.push("draw") });
+            e.onItemClick = (hit, _coords, _mouse, _client, info) => {
+                order.push("engine");
+                expect(info).toBe(PEN);
+                expect(hit.item).toBe(tile);
+                expect(hit.handle).toBe(handle);
+                expect(hit.data).toEqual({ id: "castle" });
+            };
+            const onClick = vi.fn();
+            e.onClick = onClick;
+
+            fire("onClick", 2.5, 2.5);
+            expect(order).toEqual(["draw", "engine"]);
+            expect(onClick).toHaveBeenCalledTimes(1);
+            expect(onClick.mock.calls[0][3]).toBe(PEN);
+
+            // Empty space: the plain callback still fires, item events do not
+            fire("onClick", 9.5, 9.5);
+            expect(order).toEqual(["draw", "engine"]);
+            expect(onClick).toHaveBeenCalledTimes(2);
+        });
+
+        it("forwards double-clicks and long presses to the engine callbacks", () => {
+            const { e, fire } = createEngineWithPointer();
+            const onDoubleClick = vi.fn();
+            const onLongPress = vi.fn();
+            e.onDoubleClick = onDoubleClick;
+            e.onLongPress = onLongPress;
+
+            fire("onDoubleClick", 2.5, 2.5);
+            fire("onLongPress", 3.5, 1.5);
+
+            expect(onDoubleClick.mock.calls[0][0].snapped).toEqual({ x: 2, y: 2 });
+            expect(onLongPress.mock.calls[0][0].snapped).toEqual({ x: 3, y: 1 });
+        });
+
+        it("only calls a draw call's handlers for its own items", () => {
+            const { e, fire } = createEngineWithPointer();
+            const onA = vi.fn();
+            const onB = vi.fn();
+            e.drawRect({ x: 0, y: 0 }, 1, { onItemDown: onA });
+            e.drawRect({ x: 4, y: 4 }, 1, { onItemDown: onB });
+
+            fire("onMouseDown", 4.5, 4.5);
+            expect(onA).not.toHaveBeenCalled();
+            expect(onB).toHaveBeenCalledTimes(1);
+        });
+
+        it("diffs hover into enter/leave pairs, and leaves when the pointer leaves the canvas", () => {
+            const { e, fire } = createEngineWithPointer();
+            const log: string[] = [];
+            e.drawRect(
+                [
+                    { x: 0, y: 0 },
+                    { x: 1, y: 0 },
+                ],
+                1,
+                {
+                    onItemEnter: (hit) => log.push(`enter ${hit.index}`),
+                    onItemLeave: (hit) => log.push(`leave ${hit.index}`),
+                },
+            );
+
+            fire("onHover", 0.2, 0.5);
+            fire("onHover", 0.8, 0.5);
+            fire("onHover", 1.5, 0.5);
+            fire("onHover", 5.5, 5.5);
+            fire("onHover", 1.5, 0.5);
+            fire("onMouseLeave", 1.5, 0.5);
+            expect(log).toEqual(["enter 0", "leave 0", "enter 1", "leave 1", "enter 1", "leave 1"]);
+        });
+
+        it("skips items kept out of hit testing; the item below receives the event", () => {
+            const { e, fire } = createEngineWithPointer();
+            const onBelow = vi.fn();
+            const onAbove = vi.fn();
+            e.drawRect({ x: 0, y: 0 }, 1, { onItemClick: onBelow });
+            e.drawRect({ x: 0, y: 0 }, 2, { onItemClick: onAbove, interactiveOf: () => false });
+            e.drawRect({ x: 0, y: 0 }, 3, { onItemClick: onAbove, hitTest: false });
+
+            fire("onClick", 0.5, 0.5);
+            expect(onAbove).not.toHaveBeenCalled();
+            expect(onBelow).toHaveBeenCalledTimes(1);
+        });
+
+        it("drops a registration's handlers with the registration", () => {
+            const { e, fire } = createEngineWithPointer();
+            const onItemClick = vi.fn();
+            const handle = e.drawRect({ x: 0, y: 0 }, 1, { onItemClick });
+            e.removeDrawHandle(handle);
+
+            fire("onClick", 0.5, 0.5);
+            expect(onItemClick).not.toHaveBeenCalled();
+        });
+    });
+
+    type Pointer = { raw: Coords; snapped: Coords };
+    type Modifiers = { shiftKey: boolean; altKey: boolean; ctrlKey: boolean; metaKey: boolean };
+    type Point = { coords: Pointer; world: Coords };
+    type Capture = {
+        claim(point: Point, modifiers?: Modifiers): boolean;
+        move(point: Point, modifiers?: Modifiers): void;
+        release(point: Point | undefined, cancelled: boolean): void;
+    };
+
+    function createEngineWithCapture(config: CanvasTileEngineConfig = baseConfig) {
+        let seq = 0;
+        const drawAPI = {
+            drawRect: vi.fn((_items: unknown, layer: number = 1, options?: { replace?: unknown }) => {
+                return options?.replace ?? { id: Symbol(`rect-${seq++}`), layer };
+            }),
+            drawPath: vi.fn((_items: { points: Coords[] }[], layer: number = 1) => ({
+                id: Symbol(`path-${seq++}`),
+                layer,
+            })),
+            removeDrawHandle: vi.fn(),
+            clearLayer: vi.fn(),
+            clearAll: vi.fn(),
+            clearStaticCache: vi.fn(),
+        };
+        const renderer = createMockRenderer();
+        (renderer.getDrawAPI as ReturnType<typeof vi.fn>).mockReturnValue(drawAPI);
+        const e = new CanvasTileEngine<Mount>({}, config, renderer);
+        // Drive the capture the engine installed, as the gesture processor would
+        const capture = (renderer as unknown as { pointerCapture: Capture }).pointerCapture;
+        const { transformer } = (renderer.init as ReturnType<typeof vi.fn>).mock.calls[0][0];
+        // The pointer at unwrapped world (x, y), reported in the canonical copy like the gesture processor does
+        const at = (x: number, y: number) => {
+            const raw = wrapCoords({ x, y }, config.wrap ?? {});
+            return {
+                coords: { raw, snapped: { x: Math.floor(raw.x), y: Math.floor(raw.y) } },
+                world: { x, y },
+                // worldToScreen takes item space, half a cell behind coords
+                mouse: { raw: transformer.worldToScreen(x - 0.5, y - 0.5) },
+            };
+        };
+        return { e, drawAPI, capture, at, transformer };
+    }
+
+    describe("item dragging", () => {
+        it("only claims presses on draggable items", () => {
+            const { e, capture, at } = createEngineWithCapture();
+            e.drawRect({ x: 0, y: 0 }, 1);
+            e.drawRect({ x: 4, y: 4 }, 1, { draggable: true });
+
+            expect(capture.claim(at(0.5, 0.5))).toBe(false);
+            expect(capture.claim(at(9.5, 9.5))).toBe(false);
+            expect(capture.claim(at(4.5, 4.5))).toBe(true);
+        });
+
+        it("previews with a ghost, then moves the item and re-registers it in place at the drop", () => {
+            const { e, drawAPI, capture, at } = createEngineWithCapture();
+            const seat = { x: 2, y: 2, data: "A1" };
+            const log: string[] = [];
+            const handle = e.drawRect(seat, 1, {
+                draggable: { snap: "cell" },
+                onItemDragStart: (hit) => log.push(`start ${hit.data}`),
+                onItemDragMove: (_hit, drag) => log.push(`move ${drag.position.x},${drag.position.y}`),
+                onItemDragEnd: (_hit, drag) => log.push(`end ${drag.delta.x},${drag.delta.y} ${drag.cancelled}`),
+            });
+
+            capture.claim(at(2.5, 2.5));
+            capture.move(at(3.2, 2.6));
+            capture.move(at(5.4, 4.4));
+
+            // The ghost draws at the snapped drop position; the item has not moved yet
+            const ghostCall = drawAPI.drawRect.mock.calls.at(-1)!;
+            expect(ghostCall[0]).toEqual({ x: 5, y: 4, data: "A1" });
+            expect(ghostCall[2]).toEqual({ opacity: 0.5 });
+            expect(seat).toEqual({ x: 2, y: 2, data: "A1" });
+
+            capture.release(at(5.4, 4.4), false);
+            expect(seat).toEqual({ x: 5, y: 4, data: "A1" });
+            expect(drawAPI.removeDrawHandle).toHaveBeenCalledTimes(2); // both ghosts
+            expect(drawAPI.drawRect.mock.calls.at(-1)![2]).toEqual(expect.objectContaining({ replace: handle }));
+            expect(e.hitTestFirst({ x: 5.5, y: 4.5 })?.item).toBe(seat);
+            expect(e.hitTestFirst({ x: 2.5, y: 2.5 })).toBeUndefined();
+            expect(log).toEqual(["start A1", "move 3,2", "move 5,4", "end 3,2 false"]);
+        });
+
+        it("leaves the item in place when the drag is cancelled or never moved", () => {
+            const { e, capture, at } = createEngineWithCapture();
+            const seat = { x: 2, y: 2 };
+            const onItemDragEnd = vi.fn();
+            e.onItemDragEnd = onItemDragEnd;
+            e.drawRect(seat, 1, { draggable: { ghost: false } });
+
+            capture.claim(at(2.5, 2.5));
+            capture.release(at(2.5, 2.5), false);
+            expect(onItemDragEnd).not.toHaveBeenCalled();
+
+            capture.claim(at(2.5, 2.5));
+            capture.move(at(6.5, 2.5));
+            capture.release(undefined, true);
+            expect(seat).toEqual({ x: 2, y: 2 });
+            expect(onItemDragEnd).toHaveBeenCalledWith(
+                expect.objectContaining({ item: seat }),
+                expect.objectContaining({ position: { x: 2, y: 2 }, cancelled: true }),
+            );
+        });
+
+        it("snaps through a custom function", () => {
+            const { e, capture, at } = createEngineWithCapture();
+            const seat = { x: 0, y: 0 };
+            e.drawRect(seat, 1, {
+                draggable: { ghost: false, snap: (p) => ({ x: Math.round(p.x / 2) * 2, y: 0 }) },
+            });
+
+            capture.claim(at(0.5, 0.5));
+            capture.move(at(3.6, 2.5));
+            capture.release(at(3.6, 2.5), false);
+            expect(seat).toEqual({ x: 4, y: 0 });
+        });
+
+        it("drags hexes by their center from hex to hex, updating the hex item", () => {
+            const { e, drawAPI, capture, at } = createEngineWithCapture({
+                ...baseConfig,
+                scale: 100,
+                maxScale: 100,
+                grid: { type: "hex" },
+            });
+            const hex = { x: 1, y: 0, style: { fillStyle: "#f00" }, data: "h" };
+            const onItemDragEnd = vi.fn();
+            e.drawHex(hex, 1, { draggable: true, onItemDragEnd });
+
+            // Pointy axial hexes: hex (q, 0) is centered on item-space (q, 0)
+            capture.claim(at(1.5, 0.5));
+            capture.move(at(3.7, 0.6));
+            // The ghost is the hex outline snapped onto hex (3, 0)
+            const [ghost] = drawAPI.drawPath.mock.calls.at(-1)! as unknown as [Array<{ points: Coords[] }>];
+            const ghostCenter = ghost[0].points.reduce((sum, p) => ({ x: sum.x + p.x / 6, y: sum.y + p.y / 6 }), {
+                x: 0,
+                y: 0,
+            });
+            expect(ghostCenter.x).toBeCloseTo(3);
+            expect(ghostCenter.y).toBeCloseTo(0);
+
+            capture.release(at(3.7, 0.6), false);
+            expect(hex).toMatchObject({ x: 3, y: 0 });
+            expect(onItemDragEnd).toHaveBeenCalledWith(
+                expect.objectContaining({ data: "h" }),
+                expect.objectContaining({ start: { x: 1, y: 0 }, position: { x: 3, y: 0 } }),
+            );
+            expect(e.hitTestFirst({ x: 3.5, y: 0.5 })?.data).toBe("h");
+            expect(e.hitTestFirst({ x: 1.5, y: 0.5 })).toBeUndefined();
+        });
+
+        it("moves across a wrapped world's seam by the distance swept, dropping in the canonical copy", () => {
+            const { e, drawAPI, capture, at } = createEngineWithCapture({ ...baseConfig, wrap: { x: 100 } });
+            const seat = { x: 98, y: 2 };
+            const onItemDragEnd = vi.fn();
+            e.drawRect(seat, 1, { draggable: { snap: "cell" }, onItemDragEnd });
+
+            capture.claim(at(98.5, 2.5));
+            capture.move(at(101.4, 2.5));
+            // The ghost follows the pointer past the seam
+            expect(drawAPI.drawRect.mock.calls.at(-1)![0]).toEqual({ x: 101, y: 2 });
+
+            capture.release(at(101.4, 2.5), false);
+            expect(seat).toEqual({ x: 1, y: 2 });
+            expect(onItemDragEnd).toHaveBeenCalledWith(
+                expect.anything(),
+                expect.objectContaining({ start: { x: 98, y: 2 }, position: { x: 1, y: 2 } }),
+            );
+            expect(e.hitTestFirst({ x: 1.5, y: 2.5 })?.item).toBe(seat);
+        });
+    });
+
+    describe("cursor", () => {
+        // No `hover`: the cursor follows the pointer without it
+        const cursors: CanvasTileEngineConfig = {
+            ...baseConfig,
+            eventHandlers: { drag: true, cursor: { idle: "grab" } },
+        };
+
+        function createEngineWithCursor(config: CanvasTileEngineConfig = cursors) {
+            const setCursor = vi.fn();
+            let seq = 0;
+            const drawAPI = {
+                drawRect: vi.fn((_items: unknown, layer: number = 1, options?: { replace?: unknown }) => {
+                    return options?.replace ?? { id: Symbol(`rect-${seq++}`), layer };
+                }),
+                removeDrawHandle: vi.fn(),
+            };
+            const renderer = { ...createMockRenderer(), setCursor };
+            (renderer.getDrawAPI as ReturnType<typeof vi.fn>).mockReturnValue(drawAPI);
+            const e = new CanvasTileEngine<Mount>({}, config, renderer);
+            const pointer = renderer as unknown as Record<string, (coords: Pointer) => void>;
+            const at = (x: number, y: number) => ({
+                coords: { raw: { x, y }, snapped: { x: Math.floor(x), y: Math.floor(y) } },
+                world: { x, y },
+            });
+            const fire = (event: string, x: number, y: number) => pointer[event](at(x, y).coords);
+            const capture = (renderer as unknown as { pointerCapture: Capture & { hover(point: Point): void } })
+                .pointerCapture;
+            const hover = (x: number, y: number) => capture.hover(at(x, y));
+            return { e, renderer, setCursor, fire, hover, capture, at };
+        }
+
+        it("leaves the cursor alone unless enabled", () => {
+            const { e, setCursor, hover } = createEngineWithCursor({ ...baseConfig, eventHandlers: { hover: true } });
+            e.drawRect({ x: 0, y: 0 }, 1, { cursorOf: () => "pointer" });
+
+            hover(0.5, 0.5);
+            expect(setCursor).not.toHaveBeenCalled();
+        });
+
+        it("shows the topmost hit's cursorOf on hover, and the idle cursor elsewhere", () => {
+            const { e, setCursor, fire, hover } = createEngineWithCursor();
+            expect(setCursor).toHaveBeenLastCalledWith("grab");
+            e.drawRect({ x: 0, y: 0 }, 1, { cursorOf: () => "pointer" });
+            e.drawRect({ x: 0, y: 0, data: "locked" }, 2, {
+                cursorOf: (item) => (item.data === "locked" ? "not-allowed" : undefined),
+            });
+            e.drawRect({ x: 2, y: 0 }, 1, { cursorOf: () => undefined });
+
+            hover(0.5, 0.5);
+            expect(setCursor).toHaveBeenLastCalledWith("not-allowed");
+            hover(2.5, 0.5);
+            expect(setCursor).toHaveBeenLastCalledWith("grab");
+            hover(0.5, 0.5);
+            fire("onMouseLeave", 0.5, 0.5);
+            expect(setCursor).toHaveBeenLastCalledWith("grab");
+
+            // Only changes reach the renderer
+            setCursor.mockClear();
+            hover(5.5, 5.5);
+            expect(setCursor).not.toHaveBeenCalled();
+        });
+
+        it("shows the panning cursor from drag start to release", () => {
+            const { e, renderer, setCursor, fire } = createEngineWithCursor();
+            e.drawRect({ x: 0, y: 0 }, 1, { cursorOf: () => "pointer" });
+
+            renderer.onDragStart?.();
+            expect(setCursor).toHaveBeenLastCalledWith("grabbing");
+            fire("onMouseUp", 0.5, 0.5);
+            expect(setCursor).toHaveBeenLastCalledWith("pointer");
+        });
+
+        it("shows the dragging cursor while an item is dragged", () => {
+            const { e, setCursor, fire, hover, capture, at } = createEngineWithCursor({
+                ...cursors,
+                eventHandlers: { cursor: { dragging: "move" } },
+            });
+            e.drawRect({ x: 0, y: 0 }, 1, { draggable: { ghost: false }, cursorOf: () => "grab" });
+
+            hover(0.5, 0.5);
+            capture.claim(at(0.5, 0.5));
+            capture.move(at(3.5, 0.5));
+            expect(setCursor).toHaveBeenLastCalledWith("move");
+            fire("onMouseUp", 3.5, 0.5);
+            capture.release(at(3.5, 0.5), false);
+            // Re-tested at the drop: the moved item is under the pointer
+            expect(setCursor).toHaveBeenLastCalledWith("grab");
+        });
+
+        it("hands the cursor back when turned off at runtime", () => {
+            const { e, setCursor } = createEngineWithCursor();
+            e.setEventHandlers({ cursor: false });
+            expect(setCursor).toHaveBeenLastCalledWith("");
+        });
+    });
+
+    describe("addOverlay", () => {
+        function createEngineWithOverlays() {
+            const overlay = { update: vi.fn(), remove: vi.fn() };
+            const addOverlay = vi.fn(() => overlay);
+            const e = new CanvasTileEngine<Mount>({}, baseConfig, { ...createMockRenderer(), addOverlay });
+            return { e, addOverlay, overlay };
+        }
+        const element = {} as HTMLElement;
+
+        it("throws when the renderer does not support overlays", () => {
+            expect(() => engine.addOverlay(element, { x: 0, y: 0 })).toThrow(/does not support overlays/);
+        });
+
+        it("hands the element and options to the renderer", () => {
+            const { e, addOverlay, overlay } = createEngineWithOverlays();
+            const options = { x: 3, y: 4, anchor: "bottom" as const, offsetPx: { x: 0, y: -8 } };
+
+            const handle = e.addOverlay(element, options);
+            expect(addOverlay).toHaveBeenCalledWith(element, options);
+            handle.update({ x: 5 });
+            expect(overlay.update).toHaveBeenCalledWith({ x: 5 });
+            handle.remove();
+            expect(overlay.remove).toHaveBeenCalled();
+        });
+
+        it("validates options on add and update", () => {
+            const { e, addOverlay, overlay } = createEngineWithOverlays();
+
+            expect(() => e.addOverlay(element, { x: Number.NaN, y: 0 })).toThrow();
+            expect(() => e.addOverlay(element, { x: 0, y: 0, anchor: "middle" as never })).toThrow(/anchor/);
+            expect(() => e.addOverlay(element, { x: 0, y: 0, scaleWithZoom: 0 })).toThrow(/scaleWithZoom/);
+            expect(addOverlay).not.toHaveBeenCalled();
+
+            const handle = e.addOverlay(element, { x: 0, y: 0 });
+            expect(() => handle.update({ offsetPx: { x: Infinity, y: 0 } })).toThrow(/offsetPx/);
+            expect(overlay.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("marquee selection", () => {
+        const keys = (held: Partial<Modifiers> = {}): Modifiers => ({
+            shiftKey: false,
+            altKey: false,
+            ctrlKey: false,
+            metaKey: false,
+            ...held,
+        });
+        const marqueeConfig = (marquee: CanvasTileEngineConfig["eventHandlers"]) => ({
+            ...baseConfig,
+            eventHandlers: { ...baseConfig.eventHandlers, ...marquee },
+        });
+
+        it("claims presses only with the configured modifier held, and only when enabled", () => {
+            const off = createEngineWithCapture();
+            expect(off.capture.claim(off.at(0.5, 0.5), keys({ shiftKey: true }))).toBe(false);
+
+            const { e, capture, at } = createEngineWithCapture(marqueeConfig({ marquee: true }));
+            expect(capture.claim(at(0.5, 0.5), keys())).toBe(false);
+            expect(capture.claim(at(0.5, 0.5), keys({ shiftKey: true }))).toBe(true);
+            capture.release(at(0.5, 0.5), false);
+
+            e.setEventHandlers({ marquee: { modifier: "none" } });
+            expect(capture.claim(at(0.5, 0.5), keys())).toBe(true);
+        });
+
+        it("draws the box and reports live and final hits", () => {
+            const { e, drawAPI, capture, at } = createEngineWithCapture(
+                marqueeConfig({ marquee: { modifier: "none", mode: "contain" } }),
+            );
+            e.drawRect(
+                [
+                    { x: 1, y: 1, data: "a" },
+                    { x: 3, y: 1, data: "b" },
+                    { x: 8, y: 8, data: "c" },
+                ],
+                1,
+            );
+            const onMarqueeChange = vi.fn();
+            const onMarqueeEnd = vi.fn();
+            e.onMarqueeChange = onMarqueeChange;
+            e.onMarqueeEnd = onMarqueeEnd;
+
+            capture.claim(at(4.2, 0.8), keys());
+            capture.move(at(3.5, 2.2), keys()); // "b" only half inside
+            expect(onMarqueeChange.mock.calls[0][0].map((hit: HitResult) => hit.data)).toEqual([]);
+            capture.move(at(0.8, 2.2), keys());
+            expect(onMarqueeChange.mock.calls[1][0].map((hit: HitResult) => hit.data)).toEqual(["b", "a"]);
+
+            // The box is a closed path in item space, on top of every layer
+            const [[box], layer] = drawAPI.drawPath.mock.calls.at(-1)!;
+            expect(layer).toBe(Number.MAX_SAFE_INTEGER);
+            expect(box.points[0].x).toBeCloseTo(0.3);
+            expect(box.points[2].y).toBeCloseTo(1.7);
+
+            capture.release(at(0.8, 2.2), false);
+            expect(drawAPI.removeDrawHandle).toHaveBeenCalledTimes(2);
+            const [hits, marquee] = onMarqueeEnd.mock.calls[0];
+            expect(hits.map((hit: HitResult) => hit.data)).toEqual(["b", "a"]);
+            expect(marquee.bounds).toEqual({
+                minX: expect.closeTo(0.8),
+                minY: expect.closeTo(0.8),
+                maxX: expect.closeTo(4.2),
+                maxY: expect.closeTo(2.2),
+            });
+            expect(marquee).toMatchObject({ operation: "replace", cancelled: false });
+        });
+
+        it("draws and hit-tests the dragged screen rectangle under rotation", () => {
+            const { e, drawAPI, capture, at, transformer } = createEngineWithCapture(
+                marqueeConfig({ marquee: { modifier: "none", mode: "contain" } }),
+            );
+            e.setRotation(45);
+            const pixel = (x: number, y: number) => {
+                const world = transformer.screenToWorld(x, y);
+                return at(world.x, world.y);
+            };
+            // Item-space position under a screen pixel
+            const itemAt = (x: number, y: number) => {
+                const world = transformer.screenToWorld(x, y);
+                return { x: world.x - 0.5, y: world.y - 0.5 };
+            };
+            // The 40 px square from (400, 300) covers a world diamond: its
+            // center is in, the corner of the diamond's world box is not
+            const topLeft = transformer.screenToWorld(400, 300);
+            const bottomLeft = transformer.screenToWorld(400, 340);
+            e.drawRect(
+                [
+                    { ...itemAt(420, 320), size: 0.5, data: "inside" },
+                    {
+                        x: Math.min(topLeft.x, bottomLeft.x) - 0.5 + 0.3,
+                        y: Math.min(topLeft.y, bottomLeft.y) - 0.5 + 0.3,
+                        size: 0.5,
+                        data: "beside",
+                    },
+                ],
+                1,
+            );
+            const onMarqueeEnd = vi.fn();
+            e.onMarqueeEnd = onMarqueeEnd;
+
+            capture.claim(pixel(440, 340), keys());
+            capture.move(pixel(400, 300), keys());
+
+            const [[box]] = drawAPI.drawPath.mock.calls.at(-1)!;
+            const drawn = box.points.map((p: Coords) => transformer.worldToScreen(p.x, p.y));
+            const expected = [
+                { x: 400, y: 300 },
+                { x: 440, y: 300 },
+                { x: 440, y: 340 },
+                { x: 400, y: 340 },
+            ];
+            drawn.forEach((p: Coords, i: number) => {
+                expect(p.x).toBeCloseTo(expected[i].x);
+                expect(p.y).toBeCloseTo(expected[i].y);
+            });
+
+            capture.release(pixel(400, 300), false);
+            const [hits, marquee] = onMarqueeEnd.mock.calls[0];
+            expect(hits.map((hit: HitResult) => hit.data)).toEqual(["inside"]);
+            // A world box would have taken both
+            expect(e.hitTestRect(marquee.bounds, { mode: "contain" })).toHaveLength(2);
+            expect(marquee.screen.minX).toBeCloseTo(400);
+            expect(marquee.screen.maxY).toBeCloseTo(340);
+            expect(marquee.corners).toHaveLength(4);
+        });
+
+        it("reads the operation from the other modifiers, live", () => {
+            const { e, capture, at } = createEngineWithCapture(marqueeConfig({ marquee: true }));
+            const operations: string[] = [];
+            e.onMarqueeChange = (_hits, marquee) => operations.push(marquee.operation);
+
+            capture.claim(at(0, 0), keys({ shiftKey: true }));
+            capture.move(at(1, 1), keys({ shiftKey: true }));
+            capture.move(at(2, 2), keys({ shiftKey: true, metaKey: true }));
+            capture.move(at(3, 3), keys({ shiftKey: true, altKey: true }));
+            expect(operations).toEqual(["replace", "add", "subtract"]);
+        });
+
+        it("selects the strip swept across a wrapped world's seam, not the rest of the world", () => {
+            const { e, capture, at } = createEngineWithCapture({
+                ...marqueeConfig({ marquee: { modifier: "none", mode: "contain" } }),
+                wrap: { x: 100 },
+            });
+            e.drawRect(
+                [
+                    { x: 97, y: 1, data: "west" },
+                    { x: 2, y: 1, data: "east" },
+                    { x: 50, y: 1, data: "middle" },
+                ],
+                1,
+            );
+            const onMarqueeEnd = vi.fn();
+            e.onMarqueeEnd = onMarqueeEnd;
+
+            // From x = 95 eastward across the seam to x = 105, canonical 5
+            capture.claim(at(95, 0), keys());
+            capture.move(at(105, 3), keys());
+            capture.release(at(105, 3), false);
+
+            const [hits, marquee] = onMarqueeEnd.mock.calls[0];
+            expect(hits.map((hit: HitResult) => hit.data).sort()).toEqual(["east", "west"]);
+            expect(marquee.bounds).toEqual({ minX: 95, minY: 0, maxX: 105, maxY: 3 });
+
+            // Swept from the far copy, the box still starts in the canonical one
+            onMarqueeEnd.mockClear();
+            capture.claim(at(-3, 0), keys());
+            capture.move(at(-5.5, 3), keys());
+            capture.release(at(-5.5, 3), false);
+            expect(onMarqueeEnd.mock.calls[0][1].bounds).toEqual({ minX: 94.5, minY: 0, maxX: 97, maxY: 3 });
+        });
+
+        it("reports a cancelled marquee with no hits, and a press in place as nothing", () => {
+            const { e, capture, at } = createEngineWithCapture(marqueeConfig({ marquee: { modifier: "none" } }));
+            e.drawRect({ x: 1, y: 1 }, 1);
+            const onMarqueeEnd = vi.fn();
+            e.onMarqueeEnd = onMarqueeEnd;
+
+            capture.claim(at(1.5, 1.5), keys());
+            capture.release(at(1.5, 1.5), false);
+            expect(onMarqueeEnd).not.toHaveBeenCalled();
+
+            capture.claim(at(0, 0), keys());
+            capture.move(at(3, 3), keys());
+            capture.release(undefined, true);
+            expect(onMarqueeEnd).toHaveBeenCalledWith([], expect.objectContaining({ cancelled: true }));
+        });
+
+        it("leaves presses on draggable items to item dragging", () => {
+            const { e, capture, at } = createEngineWithCapture(marqueeConfig({ marquee: { modifier: "none" } }));
+            const seat = { x: 2, y: 2 };
+            e.drawRect(seat, 1, { draggable: { ghost: false } });
+            const onMarqueeEnd = vi.fn();
+            e.onMarqueeEnd = onMarqueeEnd;
+
+            capture.claim(at(2.5, 2.5), keys());
+            capture.move(at(4.5, 2.5), keys());
+            capture.release(at(4.5, 2.5), false);
+            expect(seat).toEqual({ x: 4, y: 2 });
+            expect(onMarqueeEnd).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("tools", () => {
+        const NO_KEYS = { shiftKey: false, altKey: false, ctrlKey: false, metaKey: false };
+        type ToolCapture = Capture & { hover(point: unknown): void; keyDown(key: string): boolean };
+        /** A full processed point at world (x, y), 1 px per unit. */
+        const point = (x: number, y: number) => ({
+            coords: { raw: { x, y }, snapped: { x: Math.floor(x), y: Math.floor(y) } },
+            world: { x, y },
+            mouse: { raw: { x, y }, snapped: { x: Math.floor(x), y: Math.floor(y) } },
+            client: { raw: { x, y }, snapped: { x: Math.floor(x), y: Math.floor(y) } },
+            info: { ...NO_KEYS, pointerId: 1, pointerType: "mouse" as const, pressure: 0.5, tiltX: 0, tiltY: 0 },
+        });
+
+        it("offers presses to the active tool after draggable items, before the marquee", () => {
+            const { e, capture } = createEngineWithCapture({
+                ...baseConfig,
+                eventHandlers: { marquee: { modifier: "none" } },
+            });
+            e.drawRect({ x: 4, y: 4 }, 1, { draggable: true });
+            e.drawRect({ x: 0, y: 0, data: "crate" }, 1);
+            const events: Array<{ pressed: boolean; data: unknown }> = [];
+            const record = (event: { pressed: boolean; hit?: { data?: unknown } }) =>
+                events.push({ pressed: event.pressed, data: event.hit?.data });
+            e.setTool({ name: "probe", onPointerDown: (event) => record(event) === 1, onPointerMove: record });
+
+            // Declined: the marquee takes it
+            capture.claim(point(0.5, 0.5), NO_KEYS);
+            capture.release(point(0.5, 0.5), false);
+            expect(events).toEqual([{ pressed: true, data: "crate" }]);
+
+            const onPointerUp = vi.fn();
+            e.setTool({ name: "paint", onPointerDown: () => true, onPointerMove: record, onPointerUp });
+            expect(capture.claim(point(4.5, 4.5), NO_KEYS)).toBe(true);
+            capture.release(point(4.5, 4.5), false);
+            expect(onPointerUp).not.toHaveBeenCalled();
+
+            events.length = 0;
+            expect(capture.claim(point(0.5, 0.5), NO_KEYS)).toBe(true);
+            capture.move(point(1.5, 0.5), NO_KEYS);
+            capture.release(undefined, false);
+            expect(events).toEqual([{ pressed: true, data: undefined }]);
+            // A release without a position reports the last one
+            expect(onPointerUp).toHaveBeenCalledWith(
+                expect.objectContaining({ pressed: false, coords: point(1.5, 0.5).coords }),
+                expect.any(Object),
+            );
+        });
+
+        it("routes hovers, wheel and keys to the active tool", () => {
+            const { e, capture } = createEngineWithCapture();
+            const tool = {
+                name: "measure",
+                onPointerMove: vi.fn(),
+                onKeyDown: vi.fn(({ key }: { key: string }) => key === "Escape"),
+            };
+            const tools = capture as unknown as ToolCapture;
+            expect(tools.keyDown("Escape")).toBe(false);
+
+            e.setTool(tool);
+            tools.hover(point(2.5, 3.5));
+            expect(tool.onPointerMove).toHaveBeenCalledWith(
+                expect.objectContaining({ pressed: false, coords: point(2.5, 3.5).coords }),
+                expect.any(Object),
+            );
+            expect(tools.keyDown("Escape")).toBe(true);
+            expect(tools.keyDown("a")).toBe(false);
+        });
+
+        it("stacks tools: push covers the active one, pop uncovers it, and switching cancels a gesture", () => {
+            const { e, capture } = createEngineWithCapture();
+            const log: string[] = [];
+            const tool = (name: string) => ({
+                name,
+                activate: () => log.push(`+${name}`),
+                deactivate: () => log.push(`-${name}`),
+                onPointerDown: () => true,
+                onPointerCancel: () => log.push(`cancel ${name}`),
+            });
+            const select = tool("select");
+            const pan = tool("pan");
+
+            e.setTool(select);
+            e.pushTool(pan);
+            expect(e.getTool()).toBe(pan);
+            capture.claim(point(0.5, 0.5), NO_KEYS);
+            expect(e.popTool()).toBe(pan);
+            expect(e.getTool()).toBe(select);
+            e.setTool(null);
+            expect(e.getTool()).toBeUndefined();
+            expect(log).toEqual(["+select", "-select", "+pan", "cancel pan", "-pan", "+select", "-select"]);
+
+            // Re-setting the active tool changes nothing
+            log.length = 0;
+            e.setTool(select);
+            e.setTool(select);
+            e.destroy();
+            expect(log).toEqual(["+select", "-select"]);
+        });
+
+        it("shows the tool cursor in place of the idle one", () => {
+            const setCursor = vi.fn();
+            const renderer = { ...createMockRenderer(), setCursor };
+            const e = new CanvasTileEngine<Mount>({}, { ...baseConfig, eventHandlers: { cursor: true } }, renderer);
+
+            e.setTool({ name: "paint", cursor: "crosshair" });
+            expect(setCursor).toHaveBeenLastCalledWith("crosshair");
+            e.setTool(null);
+            expect(setCursor).toHaveBeenLastCalledWith("default");
+        });
+
+        it("draws the selectTool box in the marquee's default style, overlaid by a partial one", () => {
+            const { e, drawAPI, capture } = createEngineWithCapture();
+            const boxStyle = () => (drawAPI.drawPath.mock.calls.at(-1)![0] as unknown as [{ style: unknown }])[0].style;
+
+            e.setTool(selectTool());
+            capture.claim(point(0.5, 0.5), NO_KEYS);
+            capture.move(point(3.5, 2.5), NO_KEYS);
+            expect(boxStyle()).toEqual({
+                fillStyle: "rgba(59, 130, 246, 0.15)",
+                strokeStyle: "rgba(59, 130, 246, 0.9)",
+                lineWidthPx: 1,
+            });
+            capture.release(point(3.5, 2.5), false);
+
+            e.setTool(selectTool({ style: { lineWidthPx: 2 } }));
+            capture.claim(point(0.5, 0.5), NO_KEYS);
+            capture.move(point(3.5, 2.5), NO_KEYS);
+            expect(boxStyle()).toEqual({
+                fillStyle: "rgba(59, 130, 246, 0.15)",
+                strokeStyle: "rgba(59, 130, 246, 0.9)",
+                lineWidthPx: 2,
+            });
+        });
+
+        it("rejects tools without a name", () => {
+            const { e } = createEngineWithCapture();
+            expect(() => e.setTool({} as never)).toThrow(/tool/);
+            expect(() => e.pushTool(undefined as never)).toThrow(/tool/);
+        });
+    });
+
     describe("reduced motion", () => {
         const reduced: CanvasTileEngineConfig = {
             ...baseConfig,
@@ -1066,7 +2439,7 @@ describe("CanvasTileEngine", () => {
 
             e.resize(1000, 800, 500);
 
-            expect(renderer.resizeWithAnimation).toHaveBeenCalledWith(1000, 800, 500, undefined);
+            expect(renderer.resizeWithAnimation).toHaveBeenCalledWith(1000, 800, 500, undefined, undefined);
         });
 
         // The regression guard for pull-based detection: on React Native
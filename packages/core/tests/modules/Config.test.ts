@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { Config, normalizeConfig } from "../../src/modules/Config";
-import { SCALE_LIMITS, SIZE_LIMITS, RENDER_DEFAULTS } from "../../src/constants";
+import { SCALE_LIMITS, SIZE_LIMITS, RENDER_DEFAULTS, DEFAULT_VALUES } from "../../src/constants";
 
 describe("Config", () => {
     const minimalConfig = {
@@ -137,30 +137,49 @@ describe("Config", () => {
             const result = config.get();
             expect(result.eventHandlers.click).toBe(true);
             expect(result.eventHandlers.drag).toBe(true);
-            expect(result.eventHandlers.zoom).toBe("pointer");
+            expect(result.eventHandlers.zoom).toEqual({ anchor: "pointer", wheel: "zoom" });
             expect(result.eventHandlers.hover).toBe(false);
         });
 
-        it('normalizes zoom: true to "pointer"', () => {
+        it('normalizes zoom: true to the "pointer" anchor and "zoom" wheel mode', () => {
             const config = new Config({
                 ...minimalConfig,
                 eventHandlers: { zoom: true },
             });
-            expect(config.get().eventHandlers.zoom).toBe("pointer");
+            expect(config.get().eventHandlers.zoom).toEqual({ anchor: "pointer", wheel: "zoom" });
         });
 
-        it("keeps explicit zoom modes as-is", () => {
+        it("normalizes explicit zoom modes into the anchor", () => {
             const pointerConfig = new Config({
                 ...minimalConfig,
                 eventHandlers: { zoom: "pointer" },
             });
-            expect(pointerConfig.get().eventHandlers.zoom).toBe("pointer");
+            expect(pointerConfig.get().eventHandlers.zoom).toEqual({ anchor: "pointer", wheel: "zoom" });
 
             const centerConfig = new Config({
                 ...minimalConfig,
                 eventHandlers: { zoom: "center" },
             });
-            expect(centerConfig.get().eventHandlers.zoom).toBe("center");
+            expect(centerConfig.get().eventHandlers.zoom).toEqual({ anchor: "center", wheel: "zoom" });
+        });
+
+        it("fills in zoom options", () => {
+            const config = new Config({
+                ...minimalConfig,
+                eventHandlers: { zoom: { wheel: "auto" } },
+            });
+            expect(config.get().eventHandlers.zoom).toEqual({ anchor: "pointer", wheel: "auto" });
+            expect(Object.isFrozen(config.get().eventHandlers.zoom)).toBe(true);
+        });
+
+        it("throws on invalid zoom options", () => {
+            expect(
+                () =>
+                    new Config({
+                        ...minimalConfig,
+                        eventHandlers: { zoom: { wheel: "scroll" as "auto" } },
+                    }),
+            ).toThrow('eventHandlers.zoom.wheel must be "zoom", "auto" or "pan", got scroll');
         });
 
         it("throws on invalid zoom mode", () => {
@@ -173,6 +192,167 @@ describe("Config", () => {
             ).toThrow(/eventHandlers.zoom/);
         });
 
+        it("normalizes inertia into resolved options or false", () => {
+            expect(new Config(minimalConfig).get().eventHandlers.inertia).toBe(false);
+            expect(
+                new Config({ ...minimalConfig, eventHandlers: { inertia: true } }).get().eventHandlers.inertia,
+            ).toEqual({ friction: 0.05 });
+            expect(
+                new Config({ ...minimalConfig, eventHandlers: { inertia: { friction: 0.2 } } }).get().eventHandlers
+                    .inertia,
+            ).toEqual({ friction: 0.2 });
+        });
+
+        it("normalizes rubberBand into resolved options or false", () => {
+            expect(new Config(minimalConfig).get().eventHandlers.rubberBand).toBe(false);
+            expect(
+                new Config({ ...minimalConfig, eventHandlers: { rubberBand: true } }).get().eventHandlers.rubberBand,
+            ).toEqual({ resistance: 0.55, maxOverscrollPx: 160, maxOverscale: 1.5 });
+            expect(
+                new Config({ ...minimalConfig, eventHandlers: { rubberBand: { resistance: 0.3 } } }).get().eventHandlers
+                    .rubberBand,
+            ).toEqual({ resistance: 0.3, maxOverscrollPx: 160, maxOverscale: 1.5 });
+        });
+
+        it("throws on invalid rubberBand options", () => {
+            expect(() => new Config({ ...minimalConfig, eventHandlers: { rubberBand: { resistance: 0 } } })).toThrow(
+                /eventHandlers.rubberBand.resistance/,
+            );
+            expect(
+                () => new Config({ ...minimalConfig, eventHandlers: { rubberBand: { maxOverscrollPx: -1 } } }),
+            ).toThrow(/eventHandlers.rubberBand.maxOverscrollPx/);
+            expect(() => new Config({ ...minimalConfig, eventHandlers: { rubberBand: { maxOverscale: 1 } } })).toThrow(
+                /eventHandlers.rubberBand.maxOverscale/,
+            );
+            expect(() => new Config(minimalConfig).updateEventHandlers({ rubberBand: "yes" as never })).toThrow(
+                /eventHandlers.rubberBand must be a boolean/,
+            );
+        });
+
+        it("normalizes doubleClick and longPress into resolved options or false", () => {
+            const defaults = new Config(minimalConfig).get().eventHandlers;
+            expect(defaults.doubleClick).toBe(false);
+            expect(defaults.longPress).toBe(false);
+
+            const handlers = new Config({
+                ...minimalConfig,
+                eventHandlers: { doubleClick: { zoom: true }, longPress: true },
+            }).get().eventHandlers;
+            expect(handlers.doubleClick).toEqual({ intervalMs: 300, tolerancePx: 10, zoom: true, zoomFactor: 2 });
+            expect(handlers.longPress).toEqual({ delayMs: 500, tolerancePx: 10 });
+        });
+
+        it("throws on invalid doubleClick and longPress options", () => {
+            expect(() => new Config({ ...minimalConfig, eventHandlers: { doubleClick: { intervalMs: 0 } } })).toThrow(
+                /eventHandlers.doubleClick.intervalMs/,
+            );
+            expect(() => new Config({ ...minimalConfig, eventHandlers: { doubleClick: { zoomFactor: 1 } } })).toThrow(
+                /eventHandlers.doubleClick.zoomFactor/,
+            );
+            expect(() => new Config({ ...minimalConfig, eventHandlers: { longPress: { tolerancePx: -1 } } })).toThrow(
+                /eventHandlers.longPress.tolerancePx/,
+            );
+            expect(() => new Config(minimalConfig).updateEventHandlers({ longPress: { delayMs: NaN } })).toThrow(
+                /eventHandlers.longPress.delayMs/,
+            );
+        });
+
+        it("normalizes cursor into resolved options or false", () => {
+            expect(new Config(minimalConfig).get().eventHandlers.cursor).toBe(false);
+
+            const config = new Config({ ...minimalConfig, eventHandlers: { cursor: { idle: "grab" } } });
+            expect(config.get().eventHandlers.cursor).toEqual({
+                idle: "grab",
+                panning: "grabbing",
+                dragging: "grabbing",
+            });
+
+            config.updateEventHandlers({ cursor: true });
+            expect(config.get().eventHandlers.cursor).toEqual({
+                idle: "default",
+                panning: "grabbing",
+                dragging: "grabbing",
+            });
+        });
+
+        it("throws on invalid cursor options", () => {
+            expect(() => new Config({ ...minimalConfig, eventHandlers: { cursor: { idle: 1 as never } } })).toThrow(
+                /eventHandlers.cursor.idle/,
+            );
+            expect(() => new Config(minimalConfig).updateEventHandlers({ cursor: "pointer" as never })).toThrow(
+                /eventHandlers.cursor must be a boolean/,
+            );
+        });
+
+        it("normalizes keyboard into resolved options or false", () => {
+            expect(new Config(minimalConfig).get().eventHandlers.keyboard).toBe(false);
+
+            const keyboard = new Config({
+                ...minimalConfig,
+                eventHandlers: { keyboard: { panStep: 10, bindings: { reset: ["r"] } } },
+            }).get().eventHandlers.keyboard;
+            expect(keyboard).toMatchObject({ panStep: 10, zoomFactor: 1.5 });
+            expect(keyboard && keyboard !== true && keyboard.bindings?.reset).toEqual(["r"]);
+            expect(keyboard && keyboard !== true && keyboard.bindings?.panUp).toEqual(["ArrowUp", "w"]);
+        });
+
+        it("throws on invalid keyboard options", () => {
+            expect(() => new Config({ ...minimalConfig, eventHandlers: { keyboard: { panStep: 0 } } })).toThrow(
+                /eventHandlers.keyboard.panStep/,
+            );
+            expect(() => new Config({ ...minimalConfig, eventHandlers: { keyboard: { zoomFactor: 0.5 } } })).toThrow(
+                /eventHandlers.keyboard.zoomFactor/,
+            );
+            expect(
+                () =>
+                    new Config({
+                        ...minimalConfig,
+                        eventHandlers: { keyboard: { bindings: { zoomIn: "+" as unknown as string[] } } },
+                    }),
+            ).toThrow(/eventHandlers.keyboard.bindings.zoomIn/);
+        });
+
+        it("normalizes marquee into resolved options or false", () => {
+            expect(new Config(minimalConfig).get().eventHandlers.marquee).toBe(false);
+            expect(
+                new Config({ ...minimalConfig, eventHandlers: { marquee: true } }).get().eventHandlers.marquee,
+            ).toEqual({
+                modifier: "shift",
+                mode: "intersect",
+                style: {
+                    fillStyle: "rgba(59, 130, 246, 0.15)",
+                    strokeStyle: "rgba(59, 130, 246, 0.9)",
+                    lineWidthPx: 1,
+                },
+            });
+
+            const config = new Config(minimalConfig);
+            config.updateEventHandlers({ marquee: { modifier: "none", layer: 2, style: { lineWidthPx: 2 } } });
+            expect(config.get().eventHandlers.marquee).toMatchObject({
+                modifier: "none",
+                layer: 2,
+                style: { lineWidthPx: 2, strokeStyle: "rgba(59, 130, 246, 0.9)" },
+            });
+        });
+
+        it("throws on invalid marquee options", () => {
+            expect(
+                () => new Config({ ...minimalConfig, eventHandlers: { marquee: { modifier: "cmd" as never } } }),
+            ).toThrow(/eventHandlers.marquee.modifier/);
+            expect(() =>
+                new Config(minimalConfig).updateEventHandlers({ marquee: { mode: "inside" as never } }),
+            ).toThrow(/eventHandlers.marquee.mode/);
+            expect(
+                () => new Config({ ...minimalConfig, eventHandlers: { marquee: { style: { lineWidthPx: -1 } } } }),
+            ).toThrow(/eventHandlers.marquee.style.lineWidthPx/);
+        });
+
+        it("throws on invalid inertia friction", () => {
+            expect(() => new Config({ ...minimalConfig, eventHandlers: { inertia: { friction: -0.1 } } })).toThrow(
+                /eventHandlers.inertia.friction/,
+            );
+        });
+
         it("applies default bounds as infinity", () => {
             const config = new Config(minimalConfig);
             const result = config.get();
@@ -280,19 +460,40 @@ describe("Config", () => {
             const result = config.get();
             expect(result.eventHandlers.click).toBe(true);
             expect(result.eventHandlers.drag).toBe(true);
-            expect(result.eventHandlers.zoom).toBe("pointer");
+            expect(result.eventHandlers.zoom).toEqual({ anchor: "pointer", wheel: "zoom" });
         });
 
         it("normalizes zoom when updated at runtime", () => {
             const config = new Config(minimalConfig);
             config.updateEventHandlers({ zoom: true });
-            expect(config.get().eventHandlers.zoom).toBe("pointer");
+            expect(config.get().eventHandlers.zoom).toEqual({ anchor: "pointer", wheel: "zoom" });
 
             config.updateEventHandlers({ zoom: "center" });
-            expect(config.get().eventHandlers.zoom).toBe("center");
+            expect(config.get().eventHandlers.zoom).toEqual({ anchor: "center", wheel: "zoom" });
+
+            config.updateEventHandlers({ zoom: { anchor: "center", wheel: "pan" } });
+            expect(config.get().eventHandlers.zoom).toEqual({ anchor: "center", wheel: "pan" });
 
             config.updateEventHandlers({ zoom: false });
             expect(config.get().eventHandlers.zoom).toBe(false);
+
+            expect(() => config.updateEventHandlers({ zoom: "middle" as "center" })).toThrow(
+                'eventHandlers.zoom must be a boolean, "pointer", "center" or an options object, got middle',
+            );
+        });
+
+        it("normalizes and validates inertia when updated at runtime", () => {
+            const config = new Config(minimalConfig);
+            config.updateEventHandlers({ inertia: true });
+            expect(config.get().eventHandlers.inertia).toEqual({ friction: 0.05 });
+
+            config.updateEventHandlers({ inertia: false });
+            expect(config.get().eventHandlers.inertia).toBe(false);
+
+            expect(() => config.updateEventHandlers({ inertia: { friction: 2 } })).toThrow(
+                /eventHandlers.inertia.friction/,
+            );
+            expect(config.get().eventHandlers.inertia).toBe(false);
         });
 
         it("can disable event handlers", () => {
@@ -373,6 +574,110 @@ describe("Config", () => {
         });
     });
 
+    describe("updateZoomLevels", () => {
+        it("defaults to continuous zoom", () => {
+            expect(new Config(minimalConfig).get().zoomLevels).toBe(false);
+        });
+
+        it("normalizes a level list into a sorted, duplicate-free copy", () => {
+            const levels = [4, 1, 2, 1];
+            const config = new Config({ ...minimalConfig, zoomLevels: levels });
+            expect(config.get().zoomLevels).toEqual([1, 2, 4]);
+            expect(levels).toEqual([4, 1, 2, 1]);
+        });
+
+        it("replaces the levels at runtime", () => {
+            const config = new Config({ ...minimalConfig, zoomLevels: [1, 2] });
+            config.updateZoomLevels("powers-of-two");
+            expect(config.get().zoomLevels).toBe("powers-of-two");
+            config.updateZoomLevels(false);
+            expect(config.get().zoomLevels).toBe(false);
+        });
+
+        it("throws on invalid levels", () => {
+            expect(() => new Config({ ...minimalConfig, zoomLevels: [] })).toThrow(/zoomLevels must not be an empty/);
+            expect(() => new Config({ ...minimalConfig, zoomLevels: [1, 0] })).toThrow(/zoomLevels entries/);
+            expect(() => new Config({ ...minimalConfig, zoomLevels: [1, NaN] })).toThrow(/zoomLevels entries/);
+            expect(() => new Config(minimalConfig).updateZoomLevels("halves" as never)).toThrow(
+                /zoomLevels must be false/,
+            );
+        });
+    });
+
+    describe("projection", () => {
+        it("defaults to orthogonal and fills in the isometric tile ratio", () => {
+            expect(new Config(minimalConfig).get().projection).toEqual({ type: "orthogonal" });
+            expect(new Config({ ...minimalConfig, projection: { type: "isometric" } }).get().projection).toEqual({
+                type: "isometric",
+                tileRatio: DEFAULT_VALUES.ISOMETRIC_TILE_RATIO,
+            });
+        });
+
+        it("throws on invalid projections", () => {
+            expect(() => new Config({ ...minimalConfig, projection: { type: "hex" } as never })).toThrow(
+                /projection.type must be/,
+            );
+            expect(() => new Config({ ...minimalConfig, projection: { type: "isometric", tileRatio: 0 } })).toThrow(
+                /tileRatio must be a positive/,
+            );
+        });
+    });
+
+    describe("grid", () => {
+        it("defaults to square and fills in the hex layout", () => {
+            expect(new Config(minimalConfig).get().grid).toEqual({ type: "square" });
+            expect(new Config({ ...minimalConfig, grid: { type: "hex" } }).get().grid).toEqual({
+                type: "hex",
+                orientation: "pointy",
+                coordinates: "axial",
+            });
+            expect(
+                new Config({ ...minimalConfig, grid: { type: "hex", orientation: "flat", coordinates: "odd" } }).get()
+                    .grid,
+            ).toEqual({ type: "hex", orientation: "flat", coordinates: "odd" });
+        });
+
+        it("throws on invalid grids", () => {
+            expect(() => new Config({ ...minimalConfig, grid: { type: "triangle" } as never })).toThrow(
+                /grid.type must be/,
+            );
+            expect(
+                () => new Config({ ...minimalConfig, grid: { type: "hex", orientation: "round" } as never }),
+            ).toThrow(/grid.orientation must be/);
+            expect(() => new Config({ ...minimalConfig, grid: { type: "hex", coordinates: "cube" } as never })).toThrow(
+                /grid.coordinates must be/,
+            );
+        });
+    });
+
+    describe("wrap", () => {
+        it("defaults to no wrap and copies the periods", () => {
+            expect(new Config(minimalConfig).get().wrap).toEqual({});
+            const wrap = { x: 360 };
+            const config = new Config({ ...minimalConfig, wrap });
+            expect(config.get().wrap).toEqual({ x: 360 });
+            expect(Object.isFrozen(config.get().wrap)).toBe(true);
+            expect(Object.isFrozen(wrap)).toBe(false);
+        });
+
+        it("throws on invalid periods", () => {
+            expect(() => new Config({ ...minimalConfig, wrap: { x: 0 } })).toThrow(/wrap.x must be a positive/);
+            expect(() => new Config({ ...minimalConfig, wrap: { y: Infinity } })).toThrow(/wrap.y must be a positive/);
+        });
+
+        it("rejects finite bounds on a wrapped axis, at creation and at runtime", () => {
+            const bounds = { minX: 0, maxX: 360, minY: -Infinity, maxY: Infinity };
+            expect(() => new Config({ ...minimalConfig, wrap: { x: 360 }, bounds })).toThrow(
+                /bounds.minX and bounds.maxX must be infinite while wrap.x is set/,
+            );
+
+            const config = new Config({ ...minimalConfig, wrap: { x: 360 } });
+            expect(() => config.updateBounds(bounds)).toThrow(/wrap.x is set/);
+            // The other axis can still be bounded
+            expect(() => config.updateBounds({ minX: -Infinity, maxX: Infinity, minY: -90, maxY: 90 })).not.toThrow();
+        });
+    });
+
     describe("immutable snapshots", () => {
         it("returns a frozen snapshot from get()", () => {
             const config = new Config(minimalConfig);
@@ -1,15 +1,25 @@
 import { describe, expect, it } from "vitest";
 import { CoordinateTransformer } from "../../src/modules/CoordinateTransformer";
 import { ICamera } from "../../src/modules/Camera";
+import type { Projection } from "../../src/types";
 import { DEFAULT_VALUES } from "../../src/constants";
+import { ViewportState } from "../../src/modules/ViewportState";
 
 const OFFSET = DEFAULT_VALUES.CELL_CENTER_OFFSET;
 
 describe("CoordinateTransformer", () => {
-    const createMockCamera = (x: number, y: number, scale: number): ICamera => ({
+    const createMockCamera = (
+        x: number,
+        y: number,
+        scale: number,
+        rotation?: number,
+        projection?: Projection,
+    ): ICamera => ({
         x,
         y,
         scale,
+        rotation,
+        projection,
         pan: () => {},
         zoom: () => {},
         getCenter: () => ({ x: 0, y: 0 }),
@@ -18,6 +28,7 @@ describe("CoordinateTransformer", () => {
         zoomByFactor: () => {},
         setScale: () => {},
         setScaleLimits: () => {},
+        setRotation: () => {},
         getVisibleBounds: () => ({ minX: 0, maxX: 100, minY: 0, maxY: 100 }),
     });
 
@@ -145,4 +156,78 @@ describe("CoordinateTransformer", () => {
             expect(backToScreen.y).toBeCloseTo(originalScreen.y + OFFSET * scale);
         });
     });
+
+    describe("rotation", () => {
+        const viewport = new ViewportState(200, 100);
+
+        it("matches the axis-aligned mapping when the rotation is 0", () => {
+            const camera = createMockCamera(10, 20, 2, 0);
+            const rotated = new CoordinateTransformer(camera, viewport);
+            const plain = new CoordinateTransformer(camera);
+            expect(rotated.worldToScreen(13, 27)).toEqual(plain.worldToScreen(13, 27));
+            expect(rotated.screenToWorld(40, 60)).toEqual(plain.screenToWorld(40, 60));
+        });
+
+        it("rotates screen positions around the viewport center", () => {
+            const camera = createMockCamera(0, 0, 10, 90);
+            const transformer = new CoordinateTransformer(camera, viewport);
+            // View space (105, 50) is 5px right of the center (100, 50);
+            // a quarter turn clockwise puts it 5px below.
+            const screen = transformer.worldToScreen(10, 4.5);
+            expect(screen.x).toBeCloseTo(100);
+            expect(screen.y).toBeCloseTo(55);
+            expect(transformer.worldToView(10, 4.5)).toEqual({ x: 105, y: 50 });
+        });
+
+        it("screenToWorld inverts worldToScreen up to the cell-center offset", () => {
+            const camera = createMockCamera(3, -4, 1.5, 33);
+            const transformer = new CoordinateTransformer(camera, viewport);
+            const screen = transformer.worldToScreen(7, 9);
+            const world = transformer.screenToWorld(screen.x, screen.y);
+            expect(world.x).toBeCloseTo(7 + OFFSET);
+            expect(world.y).toBeCloseTo(9 + OFFSET);
+        });
+
+        it("stays axis-aligned without a viewport", () => {
+            const camera = createMockCamera(0, 0, 10, 90);
+            const transformer = new CoordinateTransformer(camera);
+            expect(transformer.worldToScreen(10, 5)).toEqual(transformer.worldToView(10, 5));
+        });
+    });
+
+    describe("isometric projection", () => {
+        const viewport = new ViewportState(200, 100);
+        const isometric: Projection = { type: "isometric", tileRatio: 0.5 };
+
+        it("sends the x axis down-right and the y axis down-left, around the viewport center", () => {
+            const camera = createMockCamera(0, 0, 10, 0, isometric);
+            const transformer = new CoordinateTransformer(camera, viewport);
+            // View (105, 50) is 5px along x from the center: half right, a quarter down
+            const alongX = transformer.worldToScreen(10, 4.5);
+            expect(alongX.x).toBeCloseTo(102.5);
+            expect(alongX.y).toBeCloseTo(51.25);
+            const alongY = transformer.worldToScreen(9.5, 5);
+            expect(alongY.x).toBeCloseTo(97.5);
+            expect(alongY.y).toBeCloseTo(51.25);
+            // View space stays square
+            expect(transformer.worldToView(10, 4.5)).toEqual({ x: 105, y: 50 });
+        });
+
+        it("keeps the world center on the viewport center", () => {
+            const camera = createMockCamera(0, 0, 10, 0, isometric);
+            const transformer = new CoordinateTransformer(camera, viewport);
+            const center = transformer.screenToWorld(100, 50);
+            expect(center.x).toBeCloseTo(10);
+            expect(center.y).toBeCloseTo(5);
+        });
+
+        it("screenToWorld inverts worldToScreen with a rotation on top", () => {
+            const camera = createMockCamera(3, -4, 1.5, 33, { type: "isometric", tileRatio: 0.6 });
+            const transformer = new CoordinateTransformer(camera, viewport);
+            const screen = transformer.worldToScreen(7, 9);
+            const world = transformer.screenToWorld(screen.x, screen.y);
+            expect(world.x).toBeCloseTo(7 + OFFSET);
+            expect(world.y).toBeCloseTo(9 + OFFSET);
+        });
+    });
 });
@@ -1,8 +1,10 @@
-import { describe, expect, it, vi, beforeEach } from "vitest";
-import { GestureProcessor, NormalizedPointer, CanvasBounds } from "../../src/modules/GestureProcessor";
-import { ICamera } from "../../src/modules/Camera";
+import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
+import { GestureProcessor, NormalizedPointer, CanvasBounds, chainCaptures } from "../../src/modules/GestureProcessor";
+import { Camera, ICamera } from "../../src/modules/Camera";
 import { Config } from "../../src/modules/Config";
 import { CoordinateTransformer } from "../../src/modules/CoordinateTransformer";
+import { ViewportState } from "../../src/modules/ViewportState";
+import type { DoubleClickOptions, KeyboardOptions, LongPressOptions } from "../../src/types";
 
 describe("GestureProcessor", () => {
     let mockCamera: ICamera;
@@ -56,6 +58,7 @@ describe("GestureProcessor", () => {
             adjustForResize: vi.fn(),
             setScale: vi.fn(),
             setScaleLimits: vi.fn(),
+            setRotation: vi.fn(),
             getVisibleBounds: vi.fn(() => ({ minX: 0, maxX: 100, minY: 0, maxY: 100 })),
         };
 
@@ -99,9 +102,60 @@ describe("GestureProcessor", () => {
                 expect.objectContaining({ raw: expect.any(Object) as unknown, snapped: expect.any(Object) as unknown }),
                 expect.objectContaining({ raw: expect.any(Object) as unknown, snapped: expect.any(Object) as unknown }),
                 expect.objectContaining({ raw: expect.any(Object) as unknown, snapped: expect.any(Object) as unknown }),
+                {
+                    pointerId: 0,
+                    pointerType: "mouse",
+                    pressure: 0.5,
+                    tiltX: 0,
+                    tiltY: 0,
+                    shiftKey: false,
+                    altKey: false,
+                    ctrlKey: false,
+                    metaKey: false,
+                },
             );
         });
 
+        it("reports the pointer's device fields and modifiers", () => {
+            const onMouseDown = vi.fn();
+            processor.onMouseDown = onMouseDown;
+
+            processor.handlePointerDown({
+                ...createPointer(100, 100),
+                pointerId: 7,
+                pointerType: "pen",
+                pressure: 0.8,
+                tiltX: 30,
+                tiltY: -15,
+                modifiers: { shiftKey: true, altKey: false, ctrlKey: false, metaKey: true },
+            });
+
+            expect(onMouseDown.mock.calls[0][3]).toEqual({
+                pointerId: 7,
+                pointerType: "pen",
+                pressure: 0.8,
+                tiltX: 30,
+                tiltY: -15,
+                shiftKey: true,
+                altKey: false,
+                ctrlKey: false,
+                metaKey: true,
+            });
+        });
+
+        it("defaults the pointer type to touch for the touch handlers, including the tap", () => {
+            const onMouseDown = vi.fn();
+            const onClick = vi.fn();
+            processor.onMouseDown = onMouseDown;
+            processor.onClick = onClick;
+
+            processor.handleTouchStart([createPointer(100, 100)]);
+            processor.handleTouchEnd([], createPointer(100, 100));
+
+            expect(onMouseDown.mock.calls[0][3].pointerType).toBe("touch");
+            expect(onClick.mock.calls[0][3].pointerType).toBe("touch");
+        });
+
         it("does not call onClick when click is disabled", () => {
             const onClick = vi.fn();
             processor.onClick = onClick;
@@ -112,6 +166,84 @@ describe("GestureProcessor", () => {
             expect(onClick).not.toHaveBeenCalled();
         });
 
+        it("snaps to square cells, or to the hex under the pointer on a hex grid", () => {
+            const onClick = vi.fn();
+            processor.onClick = onClick;
+            // Scale 1 at the origin: pointer pixels are raw world coords, half a cell off item space
+            processor.handleClick(createPointer(1.6, 0.4));
+            expect(onClick.mock.calls[0][0]).toEqual({ raw: { x: 1.6, y: 0.4 }, snapped: { x: 1, y: 0 } });
+
+            const hexConfig = new Config({
+                scale: 1,
+                size: { width: 800, height: 600 },
+                grid: { type: "hex" },
+                eventHandlers: { click: true },
+            });
+            const hexProcessor = new GestureProcessor(
+                mockCamera,
+                hexConfig,
+                transformer,
+                () => canvasBounds,
+                onCameraChange,
+            );
+            hexProcessor.onClick = onClick;
+            // Item-space (0.6, 0.8) lies in hex (0, 1), centered at (0.5, √3/2)
+            hexProcessor.handleClick(createPointer(1.1, 1.3));
+            const [coords, mouse] = onClick.mock.calls[1];
+            expect(coords.snapped).toEqual({ x: 0, y: 1 });
+            expect(mouse.snapped.x).toBeCloseTo(1);
+            expect(mouse.snapped.y).toBeCloseTo(0.5 + Math.sqrt(3) / 2);
+        });
+
+        it("reports world coords in the canonical copy of a wrapped world", () => {
+            const wrapConfig = new Config({
+                scale: 1,
+                size: { width: 800, height: 600 },
+                wrap: { x: 10 },
+                eventHandlers: { click: true },
+            });
+            const wrapProcessor = new GestureProcessor(
+                mockCamera,
+                wrapConfig,
+                transformer,
+                () => canvasBounds,
+                onCameraChange,
+            );
+            const onClick = vi.fn();
+            wrapProcessor.onClick = onClick;
+            wrapProcessor.handleClick(createPointer(23.5, 4.5));
+
+            const [coords, mouse] = onClick.mock.calls[0];
+            expect(coords).toEqual({ raw: { x: 3.5, y: 4.5 }, snapped: { x: 3, y: 4 } });
+            // The screen position stays under the pointer, in the copy it was over
+            expect(mouse.snapped).toEqual({ x: 23.5, y: 4.5 });
+        });
+
+        it("hands pointer captures the unwrapped world position too, continuous across the seam", () => {
+            const wrapConfig = new Config({
+                scale: 1,
+                size: { width: 800, height: 600 },
+                wrap: { x: 10 },
+                eventHandlers: { drag: true },
+            });
+            const wrapProcessor = new GestureProcessor(
+                mockCamera,
+                wrapConfig,
+                transformer,
+                () => canvasBounds,
+                onCameraChange,
+            );
+            const move = vi.fn();
+            wrapProcessor.pointerCapture = { claim: () => true, move, release: vi.fn() };
+
+            wrapProcessor.handlePointerDown(createPointer(9.5, 4.5));
+            wrapProcessor.handlePointerMove(createPointer(11.5, 4.5));
+
+            const [point] = move.mock.calls[0];
+            expect(point.coords.raw).toEqual({ x: 1.5, y: 4.5 });
+            expect(point.world).toEqual({ x: 11.5, y: 4.5 });
+        });
+
         it("does not call onClick when callback is not set", () => {
             // No callback set
             expect(() => processor.handleClick(createPointer(100, 100))).not.toThrow();
@@ -221,6 +353,24 @@ describe("GestureProcessor", () => {
 
             expect(panMock).not.toHaveBeenCalled();
         });
+
+        it("fires onDragStart once, on the first move that pans", () => {
+            const onDragStart = vi.fn();
+            processor.onDragStart = onDragStart;
+
+            processor.handlePointerDown(createPointer(100, 100));
+            processor.handlePointerMove(createPointer(100, 100));
+            expect(onDragStart).not.toHaveBeenCalled();
+
+            processor.handlePointerMove(createPointer(110, 100));
+            processor.handlePointerMove(createPointer(120, 100));
+            expect(onDragStart).toHaveBeenCalledTimes(1);
+
+            processor.handlePointerUp(createPointer(120, 100));
+            processor.handleTouchStart([createPointer(100, 100)]);
+            processor.handleTouchMove([createPointer(100, 120)]);
+            expect(onDragStart).toHaveBeenCalledTimes(2);
+        });
     });
 
     describe("handlePointerLeave", () => {
@@ -240,6 +390,185 @@ describe("GestureProcessor", () => {
         });
     });
 
+    describe("pointer capture", () => {
+        function capture(claims: boolean) {
+            const pointerCapture = {
+                claim: vi.fn(() => claims),
+                move: vi.fn(),
+                release: vi.fn(),
+            };
+            processor.pointerCapture = pointerCapture;
+            return pointerCapture;
+        }
+
+        it("hands a claimed mouse drag to the capture instead of the camera", () => {
+            const pointerCapture = capture(true);
+            const onHover = vi.fn();
+            const onClick = vi.fn();
+            processor.onHover = onHover;
+            processor.onClick = onClick;
+
+            processor.handlePointerDown(createPointer(100, 100));
+            processor.handlePointerMove(createPointer(120, 110));
+            processor.handlePointerUp(createPointer(120, 110));
+            processor.handleClick(createPointer(120, 110));
+
+            expect(pointerCapture.claim).toHaveBeenCalledTimes(1);
+            expect(pointerCapture.move).toHaveBeenCalledWith(
+                expect.objectContaining({ mouse: expect.any(Object) }),
+                expect.any(Object),
+            );
+            expect(pointerCapture.release).toHaveBeenCalledWith(expect.any(Object), false);
+            expect(panMock).not.toHaveBeenCalled();
+            expect(onHover).not.toHaveBeenCalled();
+            // A captured drag that moved is no click, like a camera drag
+            expect(onClick).not.toHaveBeenCalled();
+            expect(processor.captured).toBe(false);
+        });
+
+        it("still clicks when a claimed press does not move", () => {
+            capture(true);
+            const onClick = vi.fn();
+            processor.onClick = onClick;
+
+            processor.handlePointerDown(createPointer(100, 100));
+            processor.handlePointerUp(createPointer(100, 100));
+            processor.handleClick(createPointer(100, 100));
+
+            expect(onClick).toHaveBeenCalledTimes(1);
+        });
+
+        it("pans as usual when the capture declines", () => {
+            const pointerCapture = capture(false);
+
+            processor.handlePointerDown(createPointer(100, 100));
+            processor.handlePointerMove(createPointer(120, 110));
+
+            expect(pointerCapture.move).not.toHaveBeenCalled();
+            expect(panMock).toHaveBeenCalledWith(20, 10);
+        });
+
+        it("claims even with camera drag disabled", () => {
+            const pointerCapture = capture(true);
+            config.updateEventHandlers({ drag: false });
+
+            processor.handlePointerDown(createPointer(100, 100));
+            processor.handlePointerMove(createPointer(120, 110));
+
+            expect(pointerCapture.move).toHaveBeenCalledTimes(1);
+        });
+
+        it("passes the modifier keys held, or none", () => {
+            const pointerCapture = capture(true);
+            const shift = { shiftKey: true, altKey: false, ctrlKey: false, metaKey: false };
+
+            processor.handlePointerDown({ ...createPointer(100, 100), modifiers: shift });
+            processor.handlePointerMove(createPointer(120, 110));
+
+            expect(pointerCapture.claim).toHaveBeenCalledWith(expect.any(Object), shift);
+            expect(pointerCapture.move).toHaveBeenCalledWith(expect.any(Object), { ...shift, shiftKey: false });
+        });
+
+        it("chains captures: the first to claim a press gets the gesture", () => {
+            const first = { claim: vi.fn(() => false), move: vi.fn(), release: vi.fn() };
+            const second = { claim: vi.fn(() => true), move: vi.fn(), release: vi.fn() };
+            processor.pointerCapture = chainCaptures(first, second);
+
+            processor.handlePointerDown(createPointer(100, 100));
+            processor.handlePointerMove(createPointer(120, 110));
+            processor.handlePointerUp(createPointer(120, 110));
+
+            expect(first.move).not.toHaveBeenCalled();
+            expect(second.move).toHaveBeenCalledTimes(1);
+            expect(second.release).toHaveBeenCalledWith(expect.any(Object), false);
+            expect(panMock).not.toHaveBeenCalled();
+        });
+
+        it("cancels when the pointer leaves or a pinch begins", () => {
+            const pointerCapture = capture(true);
+
+            processor.handlePointerDown(createPointer(100, 100));
+            processor.handlePointerLeave(createPointer(900, 100));
+            expect(pointerCapture.release).toHaveBeenLastCalledWith(expect.any(Object), true);
+
+            processor.handleTouchStart([createPointer(100, 100)]);
+            processor.handleTouchMove([createPointer(110, 100)]);
+            processor.handleTouchStart([createPointer(110, 100), createPointer(200, 200)]);
+            expect(pointerCapture.release).toHaveBeenLastCalledWith(undefined, true);
+            expect(pointerCapture.release).toHaveBeenCalledTimes(2);
+            expect(processor.pinching).toBe(true);
+        });
+
+        it("releases a one-finger capture when the finger lifts", () => {
+            const pointerCapture = capture(true);
+            const onClick = vi.fn();
+            processor.onClick = onClick;
+
+            processor.handleTouchStart([createPointer(100, 100)]);
+            processor.handleTouchMove([createPointer(110, 100)]);
+            processor.handleTouchEnd([], createPointer(110, 100));
+
+            expect(pointerCapture.move).toHaveBeenCalledTimes(1);
+            expect(pointerCapture.release).toHaveBeenCalledWith(expect.any(Object), false);
+            expect(panMock).not.toHaveBeenCalled();
+            expect(onClick).not.toHaveBeenCalled();
+        });
+
+        it("shows hovers and leaves to the capture, even with hover callbacks off", () => {
+            const pointerCapture = { ...capture(false), hover: vi.fn(), leave: vi.fn() };
+            processor.pointerCapture = pointerCapture;
+            config.updateEventHandlers({ hover: false });
+
+            processor.handlePointerMove(createPointer(120, 110));
+            expect(pointerCapture.hover).toHaveBeenCalledWith(
+                expect.objectContaining({ mouse: expect.objectContaining({ raw: { x: 120, y: 110 } }) }),
+            );
+
+            // No hovers while the camera drags
+            processor.handlePointerDown(createPointer(100, 100));
+            processor.handlePointerMove(createPointer(130, 110));
+            expect(pointerCapture.hover).toHaveBeenCalledTimes(1);
+
+            processor.handlePointerLeave(createPointer(900, 100));
+            expect(pointerCapture.leave).toHaveBeenCalledTimes(1);
+        });
+
+        it("lets the capture consume wheel and key input before the camera", () => {
+            const wheel = vi.fn(() => true);
+            const keyDown = vi.fn((key: string) => key === "Escape");
+            processor.pointerCapture = { ...capture(false), wheel, keyDown };
+            config.updateEventHandlers({ keyboard: true });
+
+            expect(processor.handleWheel(createPointer(100, 100), -100)).toBe(true);
+            expect(wheel).toHaveBeenCalledWith(expect.any(Object), { deltaY: -100, direction: "in", source: "wheel" });
+            expect(zoomMock).not.toHaveBeenCalled();
+
+            expect(processor.handleKeyDown("Escape")).toBe(true);
+            expect(processor.handleKeyDown("ArrowUp")).toBe(true);
+            expect(keyDown).toHaveBeenCalledTimes(2);
+            // Only the unconsumed key navigates
+            expect(panMock).toHaveBeenCalledTimes(1);
+        });
+
+        it("chains hover to every capture, and wheel and keys to the first that consumes them", () => {
+            const first = { claim: vi.fn(() => false), move: vi.fn(), release: vi.fn(), hover: vi.fn() };
+            const second = { ...first, hover: vi.fn(), keyDown: vi.fn(() => true), wheel: vi.fn(() => false) };
+            const third = { ...first, hover: vi.fn(), keyDown: vi.fn(() => true) };
+            processor.pointerCapture = chainCaptures(first, second, third);
+
+            processor.handlePointerMove(createPointer(120, 110));
+            expect(first.hover).toHaveBeenCalledTimes(1);
+            expect(second.hover).toHaveBeenCalledTimes(1);
+
+            expect(processor.handleKeyDown("x")).toBe(true);
+            expect(third.keyDown).not.toHaveBeenCalled();
+
+            processor.handleWheel(createPointer(100, 100), -100);
+            expect(second.wheel).toHaveBeenCalledTimes(1);
+            expect(zoomMock).toHaveBeenCalledTimes(1);
+        });
+    });
+
     describe("handleWheel", () => {
         it("zooms camera on wheel event", () => {
             processor.handleWheel(createPointer(100, 100, 100, 100), -50);
@@ -411,6 +740,105 @@ describe("GestureProcessor", () => {
         });
     });
 
+    describe("wheel modes", () => {
+        const mouseWheel = { deltaX: 0, deltaY: 100, deltaMode: 0, ctrlKey: false, wheelDeltaY: -120 };
+        const trackpad = { deltaX: 3, deltaY: 4, deltaMode: 0, ctrlKey: false, wheelDeltaY: -12 };
+        const pinch = { deltaX: 0, deltaY: -2, deltaMode: 0, ctrlKey: true };
+
+        it('zooms on every wheel event in "zoom" mode, reporting the device', () => {
+            const onWheel = vi.fn();
+            processor.onWheel = onWheel;
+
+            expect(processor.handleWheel(createPointer(100, 100), trackpad.deltaY, trackpad)).toBe(true);
+
+            expect(zoomMock).toHaveBeenCalledWith(100, 100, 4, canvasBounds);
+            expect(panMock).not.toHaveBeenCalled();
+            expect(onWheel).toHaveBeenCalledWith(
+                expect.anything(),
+                expect.anything(),
+                expect.anything(),
+                expect.objectContaining({ source: "trackpad" }),
+            );
+        });
+
+        it('pans on trackpad scrolls and zooms on mouse wheels in "auto" mode', () => {
+            config.updateEventHandlers({ zoom: { wheel: "auto" } });
+
+            processor.handleWheel(createPointer(100, 100), trackpad.deltaY, trackpad);
+            expect(panMock).toHaveBeenCalledWith(-3, -4);
+            expect(zoomMock).not.toHaveBeenCalled();
+            expect(onCameraChange).toHaveBeenCalled();
+
+            const wheelProcessor = new GestureProcessor(mockCamera, config, transformer, () => canvasBounds, vi.fn());
+            wheelProcessor.handleWheel(createPointer(100, 100), mouseWheel.deltaY, mouseWheel);
+            expect(zoomMock).toHaveBeenCalledWith(100, 100, 100, canvasBounds);
+        });
+
+        it('zooms on Ctrl+wheel pinches at gesture speed outside "zoom" mode', () => {
+            config.updateEventHandlers({ zoom: { wheel: "pan" } });
+            const onWheel = vi.fn();
+            processor.onWheel = onWheel;
+
+            processor.handleWheel(createPointer(100, 100), pinch.deltaY, pinch);
+
+            expect(zoomMock).toHaveBeenCalledWith(100, 100, -20, canvasBounds);
+            expect(onWheel).toHaveBeenCalledWith(
+                expect.anything(),
+                expect.anything(),
+                expect.anything(),
+                expect.objectContaining({ source: "pinch", deltaY: -20 }),
+            );
+        });
+
+        it('pans on mouse wheels in "pan" mode, converting line deltas to pixels', () => {
+            config.updateEventHandlers({ zoom: { wheel: "pan" } });
+
+            processor.handleWheel(createPointer(100, 100), 3, { ...mouseWheel, deltaY: 3, deltaMode: 1 });
+
+            expect(panMock).toHaveBeenCalledWith(expect.any(Number), -48);
+            expect(zoomMock).not.toHaveBeenCalled();
+        });
+
+        it("leaves scroll pans to the page without drag", () => {
+            config.updateEventHandlers({ zoom: { wheel: "pan" }, drag: false });
+
+            expect(processor.handleWheel(createPointer(100, 100), trackpad.deltaY, trackpad)).toBe(false);
+
+            expect(panMock).not.toHaveBeenCalled();
+        });
+
+        it("does not consume wheel events while zoom is disabled", () => {
+            config.updateEventHandlers({ zoom: false });
+
+            expect(processor.handleWheel(createPointer(100, 100), -50)).toBe(false);
+        });
+
+        it("zooms by Safari gesture scale steps and swallows their Ctrl+wheel twins", () => {
+            config.updateEventHandlers({ zoom: { wheel: "auto" } });
+            const onWheel = vi.fn();
+            processor.onWheel = onWheel;
+
+            expect(processor.handleGestureStart()).toBe(true);
+            expect(processor.handleGestureChange(createPointer(100, 100), 2)).toBe(true);
+            expect(processor.handleWheel(createPointer(100, 100), pinch.deltaY, pinch)).toBe(true);
+            expect(processor.handleGestureChange(createPointer(100, 100), 4)).toBe(true);
+            expect(processor.handleGestureEnd()).toBe(true);
+
+            expect(zoomMock).toHaveBeenCalledTimes(2);
+            // Each step is the wheel delta of its own factor (×2, then ×2 again)
+            for (const [, , , wheel] of onWheel.mock.calls as [unknown, unknown, unknown, { deltaY: number }][]) {
+                expect(Math.exp(-wheel.deltaY * 0.001)).toBeCloseTo(2);
+            }
+        });
+
+        it('leaves Safari gestures to the page in "zoom" mode', () => {
+            expect(processor.handleGestureStart()).toBe(false);
+            expect(processor.handleGestureChange(createPointer(100, 100), 2)).toBe(false);
+            expect(processor.handleGestureEnd()).toBe(false);
+            expect(zoomMock).not.toHaveBeenCalled();
+        });
+    });
+
     describe("touch handlers", () => {
         describe("handleTouchStart", () => {
             it("starts drag mode with single finger", () => {
@@ -572,6 +1000,712 @@ describe("GestureProcessor", () => {
         });
     });
 
+    describe("kinetic panning (inertia)", () => {
+        // A camera whose position actually moves, so the fling can tell an
+        // edge (no movement) and a foreign camera write apart from its own pans.
+        let camX: number;
+        let camY: number;
+        let flingPan: ReturnType<typeof vi.fn<(dx: number, dy: number) => void>>;
+        let flingCamera: ICamera;
+        let reducedMotion: boolean;
+
+        const makeProcessor = (inertia: boolean | { friction?: number }) => {
+            const cfg = new Config({
+                scale: 1,
+                size: { width: 800, height: 600 },
+                eventHandlers: { drag: true, inertia },
+            });
+            reducedMotion = false;
+            vi.spyOn(cfg, "getReducedMotion").mockImplementation(() => reducedMotion);
+            return new GestureProcessor(
+                flingCamera,
+                cfg,
+                new CoordinateTransformer(flingCamera),
+                () => canvasBounds,
+                onCameraChange,
+            );
+        };
+
+        // Drag 10px right every 16ms, then release at the last position.
+        const fling = (target: GestureProcessor, steps = 5) => {
+            target.handlePointerDown(createPointer(100, 100));
+            for (let i = 1; i <= steps; i++) {
+                vi.advanceTimersByTime(16);
+                target.handlePointerMove(createPointer(100 + i * 10, 100));
+            }
+            target.handlePointerUp(createPointer(100 + steps * 10, 100));
+        };
+
+        beforeEach(() => {
+            vi.useFakeTimers();
+            camX = 0;
+            camY = 0;
+            flingPan = vi.fn((dx: number, dy: number) => {
+                camX -= dx;
+                camY -= dy;
+            });
+            flingCamera = {
+                ...mockCamera,
+                get x() {
+                    return camX;
+                },
+                get y() {
+                    return camY;
+                },
+                get scale() {
+                    return 1;
+                },
+                pan: flingPan,
+            };
+
+            let frameId = 0;
+            const frameTimers = new Map<number, ReturnType<typeof setTimeout>>();
+            vi.stubGlobal("requestAnimationFrame", (cb: FrameRequestCallback) => {
+                const id = ++frameId;
+                frameTimers.set(
+                    id,
+                    setTimeout(() => {
+                        frameTimers.delete(id);
+                        cb(performance.now());
+                    }, 16),
+                );
+                return id;
+            });
+            vi.stubGlobal("cancelAnimationFrame", (id: number) => {
+                const timer = frameTimers.get(id);
+                if (timer !== undefined) {
+                    clearTimeout(timer);
+                    frameTimers.delete(id);
+                }
+            });
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+            vi.unstubAllGlobals();
+        });
+
+        it("is off by default: the camera stops when the drag is released", () => {
+            const target = makeProcessor(false);
+            fling(target);
+            const pansDuringDrag = flingPan.mock.calls.length;
+
+            vi.advanceTimersByTime(1000);
+
+            expect(flingPan).toHaveBeenCalledTimes(pansDuringDrag);
+            expect(target.flinging).toBe(false);
+        });
+
+        it("keeps panning in the release direction and decays to rest", () => {
+            const target = makeProcessor(true);
+            fling(target);
+            const xAtRelease = camX;
+            expect(target.flinging).toBe(true);
+
+            vi.advanceTimersByTime(16);
+            const firstStep = xAtRelease - camX;
+            vi.advanceTimersByTime(16);
+            const secondStep = xAtRelease - camX - firstStep;
+
+            // Dragging right moves the camera left; each frame moves less.
+            expect(firstStep).toBeGreaterThan(0);
+            expect(secondStep).toBeGreaterThan(0);
+            expect(secondStep).toBeLessThan(firstStep);
+            expect(camY).toBe(0);
+
+            vi.advanceTimersByTime(5000);
+            expect(target.flinging).toBe(false);
+            expect(onCameraChange).toHaveBeenCalled();
+        });
+
+        it("glides further with lower friction", () => {
+            const smooth = makeProcessor({ friction: 0.02 });
+            fling(smooth);
+            const xAtRelease = camX;
+            vi.advanceTimersByTime(5000);
+            const smoothDistance = xAtRelease - camX;
+
+            const rough = makeProcessor({ friction: 0.2 });
+            fling(rough);
+            const roughStart = camX;
+            vi.advanceTimersByTime(5000);
+            const roughDistance = roughStart - camX;
+
+            expect(smoothDistance).toBeGreaterThan(roughDistance);
+        });
+
+        it("does not fling when the pointer paused before release", () => {
+            const target = makeProcessor(true);
+            target.handlePointerDown(createPointer(100, 100));
+            vi.advanceTimersByTime(16);
+            target.handlePointerMove(createPointer(150, 100));
+            vi.advanceTimersByTime(300);
+            target.handlePointerUp(createPointer(150, 100));
+
+            expect(target.flinging).toBe(false);
+        });
+
+        it("is cancelled by a new pointer down", () => {
+            const target = makeProcessor(true);
+            fling(target);
+            vi.advanceTimersByTime(16);
+
+            target.handlePointerDown(createPointer(300, 300));
+            const pans = flingPan.mock.calls.length;
+            vi.advanceTimersByTime(500);
+
+            expect(target.flinging).toBe(false);
+            expect(flingPan).toHaveBeenCalledTimes(pans);
+        });
+
+        it("is cancelled by a new touch", () => {
+            const target = makeProcessor(true);
+            fling(target);
+
+            target.handleTouchStart([createPointer(300, 300)]);
+
+            expect(target.flinging).toBe(false);
+        });
+
+        it("flings after a touch drag too", () => {
+            const target = makeProcessor(true);
+            target.handleTouchStart([createPointer(100, 100)]);
+            for (let i = 1; i <= 5; i++) {
+                vi.advanceTimersByTime(16);
+                target.handleTouchMove([createPointer(100, 100 + i * 10)]);
+            }
+            target.handleTouchEnd([], createPointer(100, 150));
+
+            expect(target.flinging).toBe(true);
+            const yAtRelease = camY;
+            vi.advanceTimersByTime(16);
+            expect(camY).toBeLessThan(yAtRelease);
+        });
+
+        it("stops at a camera bound instead of pushing against it", () => {
+            const target = makeProcessor(true);
+            fling(target);
+            // Simulate the camera hitting a bound: pans stop moving it.
+            flingPan.mockImplementation(() => {});
+
+            vi.advanceTimersByTime(16);
+
+            expect(target.flinging).toBe(false);
+        });
+
+        it("yields when something else moves the camera", () => {
+            const target = makeProcessor(true);
+            fling(target);
+            vi.advanceTimersByTime(16);
+
+            // A programmatic move lands between two fling frames.
+            camX = 500;
+            const pans = flingPan.mock.calls.length;
+            vi.advanceTimersByTime(16);
+
+            expect(target.flinging).toBe(false);
+            expect(flingPan).toHaveBeenCalledTimes(pans);
+            expect(camX).toBe(500);
+        });
+
+        it("does not fling under reduced motion, and stops if it turns on mid-flight", () => {
+            const target = makeProcessor(true);
+            reducedMotion = true;
+            fling(target);
+            expect(target.flinging).toBe(false);
+
+            reducedMotion = false;
+            fling(target);
+            expect(target.flinging).toBe(true);
+            reducedMotion = true;
+            vi.advanceTimersByTime(16);
+            expect(target.flinging).toBe(false);
+        });
+
+        it("stopInertia halts the fling where it is", () => {
+            const target = makeProcessor(true);
+            fling(target);
+            vi.advanceTimersByTime(16);
+            const x = camX;
+
+            target.stopInertia();
+            vi.advanceTimersByTime(500);
+
+            expect(camX).toBe(x);
+            expect(target.flinging).toBe(false);
+        });
+
+        it("rejects an invalid friction", () => {
+            expect(() => makeProcessor({ friction: 0 })).toThrow("eventHandlers.inertia.friction");
+            expect(() => makeProcessor({ friction: 1.5 })).toThrow("eventHandlers.inertia.friction");
+        });
+    });
+
+    describe("rubber-band overscroll and zoom-level settling", () => {
+        // A real camera: the stretch and the spring-back live in its limits.
+        let camera: Camera;
+        let reducedMotion: boolean;
+
+        const makeProcessor = (rubberBand: boolean, drag = true) => {
+            const viewport = new ViewportState(800, 600);
+            // Top-left x may travel over [0, 200] at scale 1; scale limits [0.5, 2]
+            camera = new Camera({ x: 0, y: 0 }, 1, 0.5, 2, viewport);
+            camera.setBounds({ minX: 0, maxX: 1000, minY: 0, maxY: 1000 });
+            camera.setCenter({ x: 500, y: 500 }, 800, 600);
+            const cfg = new Config({
+                scale: 1,
+                minScale: 0.5,
+                maxScale: 2,
+                size: { width: 800, height: 600 },
+                eventHandlers: { drag, zoom: true, rubberBand },
+            });
+            reducedMotion = false;
+            vi.spyOn(cfg, "getReducedMotion").mockImplementation(() => reducedMotion);
+            return new GestureProcessor(
+                camera,
+                cfg,
+                new CoordinateTransformer(camera, viewport),
+                () => canvasBounds,
+                onCameraChange,
+            );
+        };
+
+        // Drag 400px left: 100px reaches the right edge, the rest is overscroll.
+        const dragPastEdge = (target: GestureProcessor) => {
+            target.handlePointerDown(createPointer(500, 300));
+            target.handlePointerMove(createPointer(100, 300));
+        };
+
+        beforeEach(() => {
+            vi.useFakeTimers();
+            let frameId = 0;
+            const frameTimers = new Map<number, ReturnType<typeof setTimeout>>();
+            vi.stubGlobal("requestAnimationFrame", (cb: FrameRequestCallback) => {
+                const id = ++frameId;
+                frameTimers.set(
+                    id,
+                    setTimeout(() => {
+                        frameTimers.delete(id);
+                        cb(performance.now());
+                    }, 16),
+                );
+                return id;
+            });
+            vi.stubGlobal("cancelAnimationFrame", (id: number) => {
+                const timer = frameTimers.get(id);
+                if (timer !== undefined) {
+                    clearTimeout(timer);
+                    frameTimers.delete(id);
+                }
+            });
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+            vi.unstubAllGlobals();
+        });
+
+        it("is off by default: a drag stops hard at the bounds", () => {
+            const target = makeProcessor(false);
+            dragPastEdge(target);
+            expect(camera.x).toBe(200);
+        });
+
+        it("lets a drag stretch past the bounds with resistance", () => {
+            const target = makeProcessor(true);
+            dragPastEdge(target);
+            expect(camera.x).toBeGreaterThan(200);
+            expect(camera.x).toBeLessThan(200 + 300 * 0.55);
+        });
+
+        it("springs back into the bounds on release instead of flinging", () => {
+            const target = makeProcessor(true);
+            dragPastEdge(target);
+            const stretched = camera.x;
+            target.handlePointerUp(createPointer(100, 300));
+
+            vi.advanceTimersByTime(32);
+            expect(camera.x).toBeLessThan(stretched);
+            expect(camera.x).toBeGreaterThan(200);
+
+            vi.advanceTimersByTime(2000);
+            expect(camera.x).toBeCloseTo(200);
+            expect(target.flinging).toBe(false);
+
+            // Hard limits are back once settled
+            camera.pan(-100, 0);
+            expect(camera.x).toBeCloseTo(200);
+        });
+
+        it("snaps back at once under reduced motion", () => {
+            const target = makeProcessor(true);
+            reducedMotion = true;
+            dragPastEdge(target);
+            target.handlePointerUp(createPointer(100, 300));
+            expect(camera.x).toBeCloseTo(200);
+        });
+
+        it("is caught where it is by a new pointer down", () => {
+            const target = makeProcessor(true);
+            dragPastEdge(target);
+            target.handlePointerUp(createPointer(100, 300));
+            vi.advanceTimersByTime(32);
+
+            target.handlePointerDown(createPointer(400, 300));
+            const caught = camera.x;
+            vi.advanceTimersByTime(500);
+            expect(camera.x).toBe(caught);
+            expect(camera.x).toBeGreaterThan(200);
+
+            target.handlePointerUp(createPointer(400, 300));
+            vi.advanceTimersByTime(2000);
+            expect(camera.x).toBeCloseTo(200);
+        });
+
+        it("yields to a programmatic camera move during the spring-back", () => {
+            const target = makeProcessor(true);
+            dragPastEdge(target);
+            target.handlePointerUp(createPointer(100, 300));
+            vi.advanceTimersByTime(16);
+
+            camera.setCenter({ x: 500, y: 500 }, 800, 600);
+            vi.advanceTimersByTime(2000);
+            expect(camera.getCenter(800, 600).x).toBeCloseTo(500);
+        });
+
+        it("settles a pinch on the nearest zoom level", () => {
+            const target = makeProcessor(false);
+            camera.setZoomLevels("integers");
+            const onZoom = vi.fn();
+            target.onZoom = onZoom;
+
+            // Fingers 100px apart spread to 170px: scale 1.7, nearer 2 than 1
+            target.handleTouchStart([createPointer(350, 300), createPointer(450, 300)]);
+            target.handleTouchMove([createPointer(315, 300), createPointer(485, 300)]);
+            expect(camera.scale).toBeCloseTo(1.7);
+
+            target.handleTouchEnd([], createPointer(485, 300));
+            vi.advanceTimersByTime(16);
+            expect(camera.scale).toBeGreaterThan(1.7);
+            expect(camera.scale).toBeLessThan(2);
+
+            vi.advanceTimersByTime(2000);
+            expect(camera.scale).toBe(2);
+            expect(onZoom).toHaveBeenLastCalledWith(2);
+        });
+
+        it("snaps a pinch onto a zoom level at once under reduced motion", () => {
+            const target = makeProcessor(false);
+            camera.setZoomLevels("integers");
+            reducedMotion = true;
+
+            target.handleTouchStart([createPointer(350, 300), createPointer(450, 300)]);
+            target.handleTouchMove([createPointer(330, 300), createPointer(470, 300)]);
+            target.handleTouchEnd([], createPointer(470, 300));
+
+            expect(camera.scale).toBe(1);
+        });
+
+        it("steps keyboard zoom through the zoom levels", () => {
+            const cfg = new Config({
+                scale: 1,
+                minScale: 0.5,
+                maxScale: 2,
+                size: { width: 800, height: 600 },
+                eventHandlers: { keyboard: true },
+            });
+            const viewport = new ViewportState(800, 600);
+            const levelled = new Camera({ x: 0, y: 0 }, 1, 0.5, 2, viewport);
+            levelled.setZoomLevels([0.5, 1, 2]);
+            const target = new GestureProcessor(
+                levelled,
+                cfg,
+                new CoordinateTransformer(levelled, viewport),
+                () => canvasBounds,
+                onCameraChange,
+            );
+
+            target.handleKeyDown("+");
+            expect(levelled.scale).toBe(2);
+            target.handleKeyDown("-");
+            expect(levelled.scale).toBe(1);
+        });
+
+        it("springs a pinch past maxScale back to it, reporting the zoom", () => {
+            const target = makeProcessor(true);
+            const onZoom = vi.fn();
+            target.onZoom = onZoom;
+
+            target.handleTouchStart([createPointer(350, 300), createPointer(450, 300)]);
+            target.handleTouchMove([createPointer(150, 300), createPointer(650, 300)]);
+            expect(camera.scale).toBeGreaterThan(2);
+            expect(camera.scale).toBeLessThan(3);
+
+            target.handleTouchEnd([], createPointer(650, 300));
+            vi.advanceTimersByTime(2000);
+            expect(camera.scale).toBe(2);
+            expect(onZoom).toHaveBeenLastCalledWith(2);
+        });
+    });
+
+    describe("double click, two-finger tap and long press", () => {
+        const makeProcessor = (
+            doubleClick: boolean | DoubleClickOptions = false,
+            longPress: boolean | LongPressOptions = false,
+        ) =>
+            new GestureProcessor(
+                mockCamera,
+                new Config({
+                    scale: 1,
+                    size: { width: 800, height: 600 },
+                    eventHandlers: { click: true, drag: true, zoom: true, doubleClick, longPress },
+                }),
+                transformer,
+                () => canvasBounds,
+                onCameraChange,
+            );
+
+        beforeEach(() => {
+            vi.useFakeTimers();
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it("fires onDoubleClick on the second of two quick clicks, after its onClick", () => {
+            const target = makeProcessor(true);
+            const calls: string[] = [];
+            target.onClick = () => calls.push("click");
+            target.onDoubleClick = () => calls.push("double");
+
+            target.handleClick(createPointer(100, 100));
+            vi.advanceTimersByTime(200);
+            target.handleClick(createPointer(104, 103));
+            // A third click starts a new pair
+            target.handleClick(createPointer(104, 103));
+
+            expect(calls).toEqual(["click", "click", "double", "click"]);
+            expect(mockCamera.zoomByFactor).not.toHaveBeenCalled();
+        });
+
+        it("pairs touch taps the same way", () => {
+            const target = makeProcessor(true);
+            const onDoubleClick = vi.fn();
+            target.onDoubleClick = onDoubleClick;
+
+            for (let i = 0; i < 2; i++) {
+                target.handleTouchStart([createPointer(100, 100)]);
+                target.handleTouchEnd([], createPointer(100, 100));
+            }
+
+            expect(onDoubleClick).toHaveBeenCalledTimes(1);
+        });
+
+        it("does not pair clicks that are too slow, too far apart, or while double-click is off", () => {
+            const onDoubleClick = vi.fn();
+            const target = makeProcessor({ intervalMs: 200, tolerancePx: 5 });
+            target.onDoubleClick = onDoubleClick;
+
+            target.handleClick(createPointer(100, 100));
+            vi.advanceTimersByTime(250);
+            target.handleClick(createPointer(100, 100));
+            target.handleClick(createPointer(110, 100));
+            expect(onDoubleClick).not.toHaveBeenCalled();
+
+            processor.onDoubleClick = onDoubleClick;
+            processor.handleClick(createPointer(100, 100));
+            processor.handleClick(createPointer(100, 100));
+            expect(onDoubleClick).not.toHaveBeenCalled();
+        });
+
+        it("zooms in at a double-tap and out at a two-finger tap when zoom is on", () => {
+            const target = makeProcessor({ zoom: true, zoomFactor: 3 });
+            const onZoom = vi.fn();
+            target.onZoom = onZoom;
+
+            target.handleClick(createPointer(100, 100));
+            target.handleClick(createPointer(100, 100));
+            expect(mockCamera.zoomByFactor).toHaveBeenLastCalledWith(3, 100, 100);
+            expect(onZoom).toHaveBeenLastCalledWith(3);
+
+            target.handleTouchStart([createPointer(200, 200), createPointer(300, 200)]);
+            target.handleTouchEnd([createPointer(300, 200)]);
+            target.handleTouchEnd([]);
+            expect(mockCamera.zoomByFactor).toHaveBeenLastCalledWith(1 / 3, 250, 200);
+            expect(onZoom).toHaveBeenLastCalledWith(1);
+            expect(onCameraChange).toHaveBeenCalledTimes(2);
+        });
+
+        it("does not treat a pinch or a slow two-finger touch as a tap", () => {
+            const target = makeProcessor({ zoom: true });
+
+            target.handleTouchStart([createPointer(200, 200), createPointer(300, 200)]);
+            target.handleTouchMove([createPointer(180, 200), createPointer(320, 200)]);
+            target.handleTouchEnd([]);
+            const pinchZooms = vi.mocked(mockCamera.zoomByFactor).mock.calls.length;
+
+            target.handleTouchStart([createPointer(200, 200), createPointer(300, 200)]);
+            vi.advanceTimersByTime(400);
+            target.handleTouchEnd([]);
+
+            expect(mockCamera.zoomByFactor).toHaveBeenCalledTimes(pinchZooms);
+        });
+
+        it("fires onLongPress when a press holds still, and its release is no click", () => {
+            const target = makeProcessor(false, { delayMs: 400 });
+            const onLongPress = vi.fn();
+            const onClick = vi.fn();
+            target.onLongPress = onLongPress;
+            target.onClick = onClick;
+
+            target.handlePointerDown(createPointer(100, 100));
+            target.handlePointerMove(createPointer(103, 102));
+            vi.advanceTimersByTime(399);
+            expect(onLongPress).not.toHaveBeenCalled();
+            vi.advanceTimersByTime(1);
+            expect(onLongPress).toHaveBeenCalledTimes(1);
+            expect(onLongPress.mock.calls[0][2].raw).toEqual({ x: 103, y: 102 });
+
+            target.handlePointerUp(createPointer(103, 102));
+            target.handleClick(createPointer(103, 102));
+            expect(onClick).not.toHaveBeenCalled();
+
+            // The next press clicks normally again
+            target.handlePointerDown(createPointer(100, 100));
+            target.handlePointerUp(createPointer(100, 100));
+            target.handleClick(createPointer(100, 100));
+            expect(onClick).toHaveBeenCalledTimes(1);
+        });
+
+        it("cancels the long press on movement past the tolerance, release or a second finger", () => {
+            const target = makeProcessor(false, { tolerancePx: 4 });
+            const onLongPress = vi.fn();
+            target.onLongPress = onLongPress;
+
+            target.handlePointerDown(createPointer(100, 100));
+            target.handlePointerMove(createPointer(105, 100));
+            vi.advanceTimersByTime(1000);
+
+            target.handlePointerDown(createPointer(100, 100));
+            target.handlePointerUp(createPointer(100, 100));
+            vi.advanceTimersByTime(1000);
+
+            target.handleTouchStart([createPointer(100, 100)]);
+            target.handleTouchStart([createPointer(100, 100), createPointer(200, 100)]);
+            vi.advanceTimersByTime(1000);
+
+            expect(onLongPress).not.toHaveBeenCalled();
+
+            target.handleTouchEnd([]);
+            target.handleTouchStart([createPointer(100, 100)]);
+            vi.advanceTimersByTime(500);
+            expect(onLongPress).toHaveBeenCalledTimes(1);
+        });
+
+        it("stops a pending long press on destroy", () => {
+            const target = makeProcessor(false, true);
+            const onLongPress = vi.fn();
+            target.onLongPress = onLongPress;
+
+            target.handlePointerDown(createPointer(100, 100));
+            target.destroy();
+            vi.advanceTimersByTime(1000);
+
+            expect(onLongPress).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("handleKeyDown (keyboard navigation)", () => {
+        const makeProcessor = (keyboard: boolean | KeyboardOptions) =>
+            new GestureProcessor(
+                mockCamera,
+                new Config({ scale: 1, size: { width: 800, height: 600 }, eventHandlers: { keyboard } }),
+                transformer,
+                () => canvasBounds,
+                onCameraChange,
+            );
+
+        it("ignores keys while keyboard navigation is off", () => {
+            expect(processor.handleKeyDown("ArrowRight")).toBe(false);
+            expect(panMock).not.toHaveBeenCalled();
+            expect(onCameraChange).not.toHaveBeenCalled();
+        });
+
+        it("pans by the default step with arrows and WASD, moving the view toward the key", () => {
+            const target = makeProcessor(true);
+
+            expect(target.handleKeyDown("ArrowRight")).toBe(true);
+            expect(panMock).toHaveBeenLastCalledWith(-64, 0);
+            target.handleKeyDown("a");
+            expect(panMock).toHaveBeenLastCalledWith(64, 0);
+            target.handleKeyDown("W");
+            expect(panMock).toHaveBeenLastCalledWith(0, 64);
+            target.handleKeyDown("ArrowDown");
+            expect(panMock).toHaveBeenLastCalledWith(0, -64);
+            expect(onCameraChange).toHaveBeenCalledTimes(4);
+        });
+
+        it("zooms around the viewport center and reports the new scale", () => {
+            const target = makeProcessor(true);
+            const onZoom = vi.fn();
+            target.onZoom = onZoom;
+
+            target.handleKeyDown("+");
+            expect(zoomByFactorMock).toHaveBeenLastCalledWith(1.5, 400, 300);
+            expect(onZoom).toHaveBeenLastCalledWith(1.5);
+
+            target.handleKeyDown("-");
+            expect(zoomByFactorMock).toHaveBeenLastCalledWith(1 / 1.5, 400, 300);
+        });
+
+        it("stays silent on onZoom when zooming at a scale limit", () => {
+            const target = makeProcessor(true);
+            const onZoom = vi.fn();
+            target.onZoom = onZoom;
+            cameraScale = MAX_SCALE;
+
+            expect(target.handleKeyDown("=")).toBe(true);
+            expect(onZoom).not.toHaveBeenCalled();
+        });
+
+        it("honors custom step, factor and bindings", () => {
+            const target = makeProcessor({ panStep: 10, zoomFactor: 2, bindings: { panRight: ["l"], zoomIn: [] } });
+
+            expect(target.handleKeyDown("ArrowRight")).toBe(false);
+            expect(target.handleKeyDown("L")).toBe(true);
+            expect(panMock).toHaveBeenLastCalledWith(-10, 0);
+            expect(target.handleKeyDown("+")).toBe(false);
+            target.handleKeyDown("-");
+            expect(zoomByFactorMock).toHaveBeenLastCalledWith(0.5, 400, 300);
+        });
+
+        it("resets to the initial view by default", () => {
+            vi.mocked(mockCamera.getCenter).mockReturnValue({ x: 12, y: 34 });
+            const target = makeProcessor(true);
+
+            expect(target.handleKeyDown("Home")).toBe(true);
+
+            expect(mockCamera.setScale).toHaveBeenCalledWith(1);
+            expect(mockCamera.setCenter).toHaveBeenCalledWith({ x: 12, y: 34 }, 800, 600);
+        });
+
+        it("resets to a configured home", () => {
+            const target = makeProcessor({ home: { x: 5, y: 6, scale: 2 } });
+
+            target.handleKeyDown("Home");
+
+            expect(mockCamera.setScale).toHaveBeenCalledWith(2);
+            expect(mockCamera.setCenter).toHaveBeenCalledWith({ x: 5, y: 6 }, 800, 600);
+        });
+
+        it("leaves unbound keys unhandled", () => {
+            const target = makeProcessor(true);
+            expect(target.handleKeyDown("Enter")).toBe(false);
+            expect(onCameraChange).not.toHaveBeenCalled();
+        });
+    });
+
     describe("state queries", () => {
         it("reports dragging state correctly", () => {
             expect(processor.dragging).toBe(false);
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { HitTester } from "../../src/modules/HitTester";
+import { HitTester, type HitResult } from "../../src/modules/HitTester";
 import type { DrawHandle } from "../../src/types";
 
 const handle = (layer: number): DrawHandle => ({ id: Symbol("h"), layer });
@@ -143,6 +143,7 @@ describe("HitTester ordering and filtering", () => {
         expect(hit?.item).toBe(tile);
         expect(hit?.item.data?.id).toBe("castle");
         expect(hit?.item.data?.hp).toBe(42);
+        expect(hit?.data).toBe(tile.data);
     });
 });
 
@@ -728,3 +729,157 @@ describe("HitTester rect queries", () => {
         expect(hits.map((h) => h.item.data?.i).sort((a, b) => a! - b!)).toEqual([50, 51, 52, 53, 54, 55]);
     });
 });
+
+describe("HitTester quad queries", () => {
+    // The diamond |x| + |y| <= 2: its bounding box [-2, 2]^2 reaches far past its edges
+    const diamond = [
+        { x: 0, y: -2 },
+        { x: 2, y: 0 },
+        { x: 0, y: 2 },
+        { x: -2, y: 0 },
+    ];
+
+    it("follows the quad, not its bounding box", () => {
+        const ht = new HitTester();
+        ht.register(handle(1), "rect", { x: 1.5, y: 1.5, size: 0.5, data: "corner" }, 1);
+        ht.register(handle(2), "rect", { x: 0, y: 0, size: 1, data: "center" }, 1);
+        ht.register(handle(3), "circle", { x: 1.6, y: 1.6, size: 1, data: "near" }, 1);
+        ht.register(handle(4), "circle", { x: 1.2, y: 1.2, size: 1, data: "edge" }, 1);
+        ht.register(handle(5), "line", { from: { x: 3, y: -3 }, to: { x: -3, y: 3 }, data: "through" }, 1);
+        ht.register(handle(6), "line", { from: { x: 2, y: 2 }, to: { x: 3, y: 0 }, data: "off" }, 1);
+
+        const data = (hits: HitResult[]) => hits.map((hit) => hit.item.data).sort();
+        expect(data(ht.hitTestQuad(diamond))).toEqual(["center", "edge", "through"]);
+        expect(data(ht.hitTestQuad(diamond, { mode: "contain" }))).toEqual(["center"]);
+    });
+
+    it("finds a quad inside a filled path or a big box", () => {
+        const ht = new HitTester();
+        ht.register(
+            handle(1),
+            "path",
+            {
+                points: [
+                    { x: -10, y: -10 },
+                    { x: 10, y: -10 },
+                    { x: 10, y: 10 },
+                    { x: -10, y: 10 },
+                ],
+                closed: true,
+                style: { fillStyle: "red" },
+            },
+            1,
+        );
+        ht.register(handle(2), "rect", { x: 0, y: 0, size: 10 }, 2);
+
+        expect(ht.hitTestQuad(diamond)).toHaveLength(2);
+        expect(ht.hitTestQuad(diamond, { mode: "contain" })).toHaveLength(0);
+    });
+});
+
+describe("HitTester isometric projection", () => {
+    const isometric = () => ({ rotation: 0, projection: { type: "isometric" as const, tileRatio: 0.5 } });
+
+    it("tests images against their upright box", () => {
+        const flat = new HitTester();
+        const upright = new HitTester(undefined, isometric);
+        const img = { width: 10, height: 10 };
+        flat.register(handle(1), "image", { x: 0, y: 0, size: 1, img }, 1);
+        upright.register(handle(1), "image", { x: 0, y: 0, size: 1, img }, 1);
+
+        // Straight below the anchor on screen, off the square cell but inside the standing picture
+        expect(flat.hitTestFirst({ x: 0.8, y: 0.8 })).toBeUndefined();
+        expect(upright.hitTestFirst({ x: 0.8, y: 0.8 })).toBeDefined();
+        expect(upright.hitTestFirst({ x: 1.2, y: 1.2 })).toBeUndefined();
+    });
+
+    it("puts items painted in front first, whatever their draw order", () => {
+        const ht = new HitTester(undefined, isometric);
+        const h = handle(1);
+        ht.register(
+            h,
+            "rect",
+            [
+                { x: 1, y: 1, size: 2 },
+                { x: 0, y: 0, size: 2 },
+            ],
+            1,
+        );
+
+        const hits = ht.hitTest({ x: 0.5, y: 0.5 });
+        expect(hits.map((hit) => hit.index)).toEqual([0, 1]);
+    });
+});
+
+describe("HitTester world wrap", () => {
+    const wrap = () => ({ x: 10 });
+
+    it("finds canonical items from any copy of the world", () => {
+        const ht = new HitTester(undefined, undefined, wrap);
+        ht.register(handle(1), "rect", { x: 2, y: 3 }, 1);
+
+        expect(ht.hitTestFirst({ x: 12, y: 3 })).toBeDefined();
+        expect(ht.hitTestFirst({ x: -8, y: 3 })).toBeDefined();
+        expect(ht.hitTestFirst({ x: 13, y: 3 })).toBeUndefined();
+    });
+
+    it("hits items overhanging the seam from the other side, once", () => {
+        const ht = new HitTester(undefined, undefined, wrap);
+        // Last cell, 3 cells wide: spans [7.5, 10.5], a cell past the seam at 9.5
+        ht.register(handle(1), "rect", { x: 9, y: 0, size: 3 }, 1);
+
+        expect(ht.hitTest({ x: 0.3, y: 0 })).toHaveLength(1);
+        expect(ht.hitTest({ x: 0.7, y: 0 })).toHaveLength(0);
+    });
+
+    it("scans every copy a region covers", () => {
+        const ht = new HitTester(undefined, undefined, wrap);
+        ht.register(
+            handle(1),
+            "circle",
+            [
+                { x: 1, y: 0 },
+                { x: 8, y: 0 },
+            ],
+            1,
+        );
+
+        // Straddles the seam between copies 0 and 1: item 8 on the left, item 1 (at 11) on the right
+        const hits = ht.hitTestRect({ minX: 7.5, minY: -0.5, maxX: 11.5, maxY: 0.5 }, { mode: "contain" });
+        expect(hits.map((hit) => hit.index).sort()).toEqual([0, 1]);
+    });
+});
+
+describe("HitTester scale ranges", () => {
+    it("skips registrations outside their scale range, in point and rect queries", () => {
+        let scale = 1;
+        const ht = new HitTester(() => scale);
+        ht.register(handle(1), "rect", { x: 0, y: 0 }, 1, { scaleRange: { minScale: 4, scaleFade: 2 } });
+        const region = { minX: -1, minY: -1, maxX: 1, maxY: 1 };
+
+        // Inside the fade band but below the hard threshold
+        scale = 3.5;
+        expect(ht.hitTestFirst({ x: 0, y: 0 })).toBeUndefined();
+        expect(ht.hitTestRect(region)).toHaveLength(0);
+
+        scale = 4;
+        expect(ht.hitTestFirst({ x: 0, y: 0 })).toBeDefined();
+        expect(ht.hitTestRect(region)).toHaveLength(1);
+    });
+
+    it("applies a layer's range to everything on it until removed, across clearLayer", () => {
+        const ht = new HitTester(() => 10);
+        ht.setLayerScaleRange(2, { maxScale: 5 });
+        ht.register(handle(2), "rect", { x: 0, y: 0 }, 2);
+        ht.register(handle(1), "circle", { x: 0, y: 0 }, 1);
+
+        expect(ht.hitTest({ x: 0, y: 0 }).map((hit) => hit.layer)).toEqual([1]);
+
+        ht.clearLayer(2);
+        ht.register(handle(2), "rect", { x: 0, y: 0 }, 2);
+        expect(ht.hitTest({ x: 0, y: 0 }).map((hit) => hit.layer)).toEqual([1]);
+
+        ht.setLayerScaleRange(2, undefined);
+        expect(ht.hitTest({ x: 0, y: 0 }).map((hit) => hit.layer)).toEqual([2, 1]);
+    });
+});
@@ -0,0 +1,183 @@
+import { describe, expect, it, vi } from "vitest";
+import { CanvasTileEngine } from "../../src/CanvasTileEngine";
+import type { CanvasTileEngineConfig, IRenderer, MinimapOptions } from "../../src/types";
+
+type Mount = Record<string, never>;
+
+function createMockRenderer(withMinimap = true): IRenderer<Mount> {
+    return {
+        init: vi.fn(),
+        setupEvents: vi.fn(),
+        render: vi.fn(),
+        resize: vi.fn(),
+        resizeWithAnimation: vi.fn(),
+        destroy: vi.fn(),
+        getDrawAPI: vi.fn(),
+        getImageLoader: vi.fn(),
+        ...(withMinimap && { renderMinimap: vi.fn() }),
+    } as unknown as IRenderer<Mount>;
+}
+
+// 800x600 at scale 8 shows 100x75 world units.
+const config: CanvasTileEngineConfig = {
+    scale: 8,
+    minScale: 0.1,
+    maxScale: 64,
+    size: { width: 800, height: 600 },
+};
+
+// 400x400 world units fitted into 200x200 pixels: 0.5 px per unit, centered on (200, 200).
+const minimapOptions: MinimapOptions = {
+    size: { width: 200, height: 200 },
+    bounds: { minX: 0, maxX: 400, minY: 0, maxY: 400 },
+};
+
+function setup(options: Partial<MinimapOptions> = {}, overrides: Partial<CanvasTileEngineConfig> = {}) {
+    const renderer = createMockRenderer();
+    const engine = new CanvasTileEngine<Mount>({}, { ...config, ...overrides }, renderer);
+    engine.setCenter({ x: 200, y: 200 });
+    const minimap = engine.createMinimap({ ...minimapOptions, ...options });
+    return { engine, renderer, minimap };
+}
+
+describe("Minimap", () => {
+    it("fits its area into its size and outlines the main viewport", () => {
+        const { minimap } = setup();
+        const frame = minimap.getFrame();
+
+        expect(frame.view).toEqual({
+            center: { x: 200, y: 200 },
+            scale: 0.5,
+            rotation: 0,
+            size: { width: 200, height: 200 },
+        });
+        // World (150, 162.5)-(250, 237.5), clockwise from the top-left
+        expect(frame.viewport).toEqual([
+            { x: 75, y: 81.25 },
+            { x: 125, y: 81.25 },
+            { x: 125, y: 118.75 },
+            { x: 75, y: 118.75 },
+        ]);
+        expect(frame.viewportStyle).toEqual({
+            fillStyle: "rgba(255, 255, 255, 0.25)",
+            strokeStyle: "#ff3b30",
+            lineWidth: 2,
+        });
+    });
+
+    it("turns the outline with the main rotation", () => {
+        const { engine, minimap } = setup();
+        engine.setRotation(90);
+
+        const xs = minimap.getFrame().viewport.map((p) => p.x);
+        const ys = minimap.getFrame().viewport.map((p) => p.y);
+        // The 100x75 world extent now lies 75 wide and 100 tall
+        expect(Math.max(...xs) - Math.min(...xs)).toBeCloseTo(37.5);
+        expect(Math.max(...ys) - Math.min(...ys)).toBeCloseTo(50);
+    });
+
+    it("converts between minimap pixels and world coordinates", () => {
+        const { minimap } = setup();
+
+        expect(minimap.toWorld(0, 0)).toEqual({ x: 0, y: 0 });
+        expect(minimap.toWorld(150, 50)).toEqual({ x: 300, y: 100 });
+        expect(minimap.toMinimap({ x: 300, y: 100 })).toEqual({ x: 150, y: 50 });
+    });
+
+    it("recenters the main camera on a press outside the outline, keeping the scale", () => {
+        const { engine, minimap } = setup();
+
+        expect(minimap.pointerDown(20, 30)).toBe(true);
+
+        expect(engine.getCenter().x).toBeCloseTo(40);
+        expect(engine.getCenter().y).toBeCloseTo(60);
+        expect(engine.getScale()).toBe(8);
+    });
+
+    it("drags the outline without a jump", () => {
+        const { engine, minimap } = setup();
+
+        // Inside the outline, off its center: grabbing moves nothing
+        minimap.pointerDown(110, 100);
+        expect(engine.getCenter().x).toBeCloseTo(200);
+        expect(minimap.isDragging()).toBe(true);
+
+        minimap.pointerMove(120, 95);
+        expect(engine.getCenter().x).toBeCloseTo(220);
+        expect(engine.getCenter().y).toBeCloseTo(190);
+
+        minimap.pointerUp();
+        minimap.pointerMove(0, 0);
+        expect(minimap.isDragging()).toBe(false);
+        expect(engine.getCenter().x).toBeCloseTo(220);
+    });
+
+    it("ignores presses while not interactive", () => {
+        const { engine, minimap } = setup({ interactive: false });
+
+        expect(minimap.pointerDown(20, 30)).toBe(false);
+        minimap.pointerMove(40, 40);
+
+        expect(engine.getCenter().x).toBeCloseTo(200);
+    });
+
+    it("falls back to finite camera bounds and rejects an unbounded world", () => {
+        const { minimap } = setup({ bounds: undefined }, { bounds: { minX: -50, maxX: 50, minY: -50, maxY: 50 } });
+        expect(minimap.getFrame().view.center).toEqual({ x: 0, y: 0 });
+        expect(minimap.getFrame().view.scale).toBe(2);
+
+        const engine = new CanvasTileEngine<Mount>({}, config, createMockRenderer());
+        expect(() => engine.createMinimap({ size: { width: 200, height: 200 } })).toThrow(/finite world area/);
+    });
+
+    it("validates options", () => {
+        const engine = new CanvasTileEngine<Mount>({}, config, createMockRenderer());
+        expect(() => engine.createMinimap({ ...minimapOptions, size: { width: 0, height: 100 } })).toThrow(/size/);
+        expect(() => engine.createMinimap({ ...minimapOptions, layers: [Number.NaN] })).toThrow(/layers/);
+
+        const { minimap } = setup();
+        expect(() => minimap.setOptions({ viewportStyle: { lineWidth: -1 } })).toThrow(/lineWidth/);
+    });
+
+    it("paints through the renderer and repaints after engine renders and option changes", () => {
+        const { engine, renderer, minimap } = setup({ layers: [1] });
+        const target = {};
+        const listener = vi.fn();
+        minimap.subscribe(listener);
+
+        minimap.render(target);
+        expect(renderer.renderMinimap).toHaveBeenCalledWith(
+            target,
+            expect.objectContaining({ layers: [1], backgroundColor: engine.getConfig().backgroundColor }),
+        );
+
+        engine.render();
+        minimap.setOptions({ backgroundColor: "#000" });
+        expect(listener).toHaveBeenCalledTimes(2);
+        expect(minimap.getFrame().backgroundColor).toBe("#000");
+    });
+
+    it("stops repainting once destroyed, with the minimap or the engine", () => {
+        const { engine, minimap } = setup();
+        const other = engine.createMinimap(minimapOptions);
+        const listener = vi.fn();
+        const otherListener = vi.fn();
+        minimap.subscribe(listener);
+        other.subscribe(otherListener);
+
+        minimap.destroy();
+        minimap.destroy();
+        engine.render();
+        expect(listener).not.toHaveBeenCalled();
+        expect(otherListener).toHaveBeenCalledTimes(1);
+        expect(minimap.pointerDown(20, 30)).toBe(false);
+
+        engine.destroy();
+        expect(other.pointerDown(20, 30)).toBe(false);
+    });
+
+    it("is unavailable on renderers that cannot paint minimaps", () => {
+        const engine = new CanvasTileEngine<Mount>({}, config, createMockRenderer(false));
+        expect(() => engine.createMinimap(minimapOptions)).toThrow(/does not support minimaps/);
+    });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from "vitest";
+import { Selection } from "../../src/modules/Selection";
+
+describe("Selection", () => {
+    describe("select/deselect/toggle/set/clear", () => {
+        it("tracks ids and reports what each change added and removed", () => {
+            const selection = new Selection<string>(() => {});
+            const listener = vi.fn();
+            selection.subscribe(listener);
+
+            selection.select("a", "b");
+            expect([...selection.ids]).toEqual(["a", "b"]);
+            expect(listener).toHaveBeenLastCalledWith({ ids: selection.ids, added: ["a", "b"], removed: [] });
+
+            selection.toggle("b", "c");
+            expect([...selection.ids]).toEqual(["a", "c"]);
+            expect(listener).toHaveBeenLastCalledWith({ ids: selection.ids, added: ["c"], removed: ["b"] });
+
+            selection.set(["c", "d"]);
+            expect(listener).toHaveBeenLastCalledWith({ ids: selection.ids, added: ["d"], removed: ["a"] });
+
+            selection.deselect("d");
+            expect(selection.has("c")).toBe(true);
+            expect(selection.has("d")).toBe(false);
+
+            selection.clear();
+            expect(selection.size).toBe(0);
+            expect(listener).toHaveBeenCalledTimes(5);
+        });
+
+        it("re-renders and notifies only when the selection actually changes", () => {
+            const onChange = vi.fn();
+            const selection = new Selection<number>(onChange);
+            const listener = vi.fn();
+            selection.subscribe(listener);
+
+            selection.select(1);
+            selection.select(1);
+            selection.deselect(2);
+            selection.set([1]);
+            selection.toggle();
+
+            expect(onChange).toHaveBeenCalledTimes(1);
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it("replaces ids instead of mutating them, so snapshots stay valid", () => {
+            const selection = new Selection<string>(() => {});
+            selection.select("a");
+            const snapshot = selection.ids;
+
+            selection.select("b");
+
+            expect([...snapshot]).toEqual(["a"]);
+            expect(selection.ids).not.toBe(snapshot);
+        });
+
+        it("stops notifying after unsubscribe and destroy", () => {
+            const onChange = vi.fn();
+            const selection = new Selection<string>(onChange);
+            const listener = vi.fn();
+            const unsubscribe = selection.subscribe(listener);
+
+            unsubscribe();
+            selection.select("a");
+            expect(listener).not.toHaveBeenCalled();
+            expect(onChange).toHaveBeenCalledTimes(1);
+
+            selection.subscribe(listener);
+            selection.destroy();
+            selection.select("b");
+            expect(listener).not.toHaveBeenCalled();
+            expect(onChange).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("idOf", () => {
+        it("defaults to the data value itself", () => {
+            const selection = new Selection(() => {});
+            selection.select("tower-3");
+
+            expect(selection.isSelected("tower-3")).toBe(true);
+            expect(selection.isSelected("tower-4")).toBe(false);
+            expect(selection.isSelected(undefined)).toBe(false);
+        });
+
+        it("resolves object data through a custom accessor", () => {
+            const selection = new Selection<number>(() => {});
+            selection.idOf = (data) => (data as { id?: number }).id;
+            selection.select(7);
+
+            expect(selection.isSelected({ id: 7, name: "unit" })).toBe(true);
+            expect(selection.isSelected({ name: "no id" })).toBe(false);
+        });
+    });
+
+    describe("apply", () => {
+        const hits = [{ data: { id: 1 } }, { data: { id: 2 } }, {}];
+
+        function createSelection() {
+            const selection = new Selection<number>(() => {});
+            selection.idOf = (data) => (data as { id: number }).id;
+            selection.select(2, 3);
+            return selection;
+        }
+
+        it("replaces the selection with the hits by default, skipping hits without data", () => {
+            const selection = createSelection();
+            selection.apply(hits);
+            expect([...selection.ids]).toEqual([1, 2]);
+        });
+
+        it("adds or subtracts the hits, following the marquee operation", () => {
+            const added = createSelection();
+            added.apply(hits, "add");
+            expect([...added.ids]).toEqual([2, 3, 1]);
+
+            const subtracted = createSelection();
+            subtracted.apply(hits, "subtract");
+            expect([...subtracted.ids]).toEqual([3]);
+        });
+    });
+
+    describe("decorate", () => {
+        it("overlays the selected style on selected items only", () => {
+            const selection = new Selection<string>(() => {});
+            selection.select("a");
+            const base = { fillStyle: "#000", strokeStyle: "#111" };
+            const selected = { strokeStyle: "#f00" };
+
+            expect(selection.decorate("a", base, selected)).toEqual({ fillStyle: "#000", strokeStyle: "#f00" });
+            expect(selection.decorate("a", undefined, selected)).toBe(selected);
+            expect(selection.decorate("b", base, selected)).toBe(base);
+            expect(selection.decorate("a", base, undefined)).toBe(base);
+        });
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { EASINGS, isSpring, isSpringAtRest, resolveEasing, stepSpring } from "../../src/utils/easing";
+import type { EasingName } from "../../src/types";
+
+describe("EASINGS", () => {
+    it("every preset starts at 0 and ends at 1", () => {
+        for (const name of Object.keys(EASINGS) as EasingName[]) {
+            expect(EASINGS[name](0)).toBeCloseTo(0);
+            expect(EASINGS[name](1)).toBeCloseTo(1);
+        }
+    });
+
+    it("shapes the curve as named", () => {
+        expect(EASINGS.linear(0.25)).toBe(0.25);
+        expect(EASINGS.easeIn(0.25)).toBeLessThan(0.25);
+        expect(EASINGS.easeOut(0.25)).toBeGreaterThan(0.25);
+        expect(EASINGS.easeInOut(0.5)).toBeCloseTo(0.5);
+        expect(EASINGS.easeOutCubic(0.25)).toBeGreaterThan(EASINGS.easeOut(0.25));
+    });
+});
+
+describe("resolveEasing", () => {
+    it("returns a custom function as-is and looks presets up by name", () => {
+        const custom = (t: number) => t;
+        expect(resolveEasing(custom, "easeInOut")).toBe(custom);
+        expect(resolveEasing("easeOut", "easeInOut")).toBe(EASINGS.easeOut);
+    });
+
+    it("falls back when omitted", () => {
+        expect(resolveEasing(undefined, "linear")).toBe(EASINGS.linear);
+    });
+});
+
+describe("isSpring", () => {
+    it("tells springs from curves", () => {
+        expect(isSpring({ type: "spring" })).toBe(true);
+        expect(isSpring("easeOut")).toBe(false);
+        expect(isSpring((t) => t)).toBe(false);
+        expect(isSpring(undefined)).toBe(false);
+    });
+});
+
+describe("stepSpring", () => {
+    it("settles on the target", () => {
+        const state = { value: 0, velocity: 0 };
+        for (let i = 0; i < 120; i++) {
+            stepSpring(state, 100, 16, { type: "spring" });
+        }
+        expect(state.value).toBeCloseTo(100, 1);
+        expect(isSpringAtRest(state, 100, 0.1)).toBe(true);
+    });
+
+    it("overshoots when underdamped", () => {
+        const state = { value: 0, velocity: 0 };
+        let peak = 0;
+        for (let i = 0; i < 120; i++) {
+            stepSpring(state, 100, 16, { type: "spring", stiffness: 300, damping: 5 });
+            peak = Math.max(peak, state.value);
+        }
+        expect(peak).toBeGreaterThan(100);
+    });
+
+    it("stays stable across a long frame", () => {
+        const state = { value: 0, velocity: 0 };
+        stepSpring(state, 100, 1000, { type: "spring", stiffness: 2000, damping: 90 });
+        expect(Number.isFinite(state.value)).toBe(true);
+        expect(state.value).toBeCloseTo(100, 0);
+    });
+});
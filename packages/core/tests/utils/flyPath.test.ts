@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { flyPath } from "../../src/utils/flyPath";
+
+const RHO = Math.SQRT2;
+
+describe("flyPath", () => {
+    it("starts and ends exactly on the given views", () => {
+        const path = flyPath({ center: { x: 0, y: 0 }, width: 80 }, { center: { x: 1000, y: 500 }, width: 40 }, RHO);
+
+        const start = path.at(0);
+        expect(start.center.x).toBeCloseTo(0);
+        expect(start.center.y).toBeCloseTo(0);
+        expect(start.width).toBeCloseTo(80);
+
+        const end = path.at(1);
+        expect(end.center.x).toBeCloseTo(1000);
+        expect(end.center.y).toBeCloseTo(500);
+        expect(end.width).toBeCloseTo(40);
+    });
+
+    it("zooms out mid-flight on a long jump", () => {
+        const path = flyPath({ center: { x: 0, y: 0 }, width: 80 }, { center: { x: 10000, y: 0 }, width: 80 }, RHO);
+
+        expect(path.at(0.5).width).toBeGreaterThan(80 * 10);
+        expect(path.at(0.5).center.x).toBeCloseTo(5000);
+    });
+
+    it("moves monotonically toward the target", () => {
+        const path = flyPath({ center: { x: 0, y: 0 }, width: 80 }, { center: { x: 500, y: 0 }, width: 20 }, RHO);
+
+        let previous = -Infinity;
+        for (let t = 0; t <= 1; t += 0.1) {
+            const x = path.at(t).center.x;
+            expect(x).toBeGreaterThanOrEqual(previous);
+            previous = x;
+        }
+    });
+
+    it("gets longer with distance", () => {
+        const near = flyPath({ center: { x: 0, y: 0 }, width: 80 }, { center: { x: 100, y: 0 }, width: 80 }, RHO);
+        const far = flyPath({ center: { x: 0, y: 0 }, width: 80 }, { center: { x: 10000, y: 0 }, width: 80 }, RHO);
+
+        expect(far.length).toBeGreaterThan(near.length);
+        expect(near.length).toBeGreaterThan(0);
+    });
+
+    it("degenerates to a geometric zoom when the centers coincide", () => {
+        const path = flyPath({ center: { x: 5, y: 5 }, width: 100 }, { center: { x: 5, y: 5 }, width: 25 }, RHO);
+
+        expect(path.length).toBeCloseTo(Math.log(4) / RHO);
+        expect(path.at(0.5).width).toBeCloseTo(50);
+        expect(path.at(0.5).center).toEqual({ x: 5, y: 5 });
+        expect(path.at(1).width).toBeCloseTo(25);
+    });
+});
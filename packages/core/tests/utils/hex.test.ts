@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { axialToHex, hexAt, hexCenter, hexCorners, hexDistance, hexNeighbors, hexToAxial } from "../../src/utils/hex";
+import type { HexLayout } from "../../src/types";
+
+const LAYOUTS: HexLayout[] = [
+    { orientation: "pointy", coordinates: "axial" },
+    { orientation: "pointy", coordinates: "odd" },
+    { orientation: "pointy", coordinates: "even" },
+    { orientation: "flat", coordinates: "axial" },
+    { orientation: "flat", coordinates: "odd" },
+    { orientation: "flat", coordinates: "even" },
+];
+
+const HEXES = [
+    { x: 0, y: 0 },
+    { x: 3, y: -2 },
+    { x: -4, y: 5 },
+    { x: -1, y: -1 },
+];
+
+describe("hexToAxial / axialToHex", () => {
+    it("shifts odd rows for pointy odd offsets", () => {
+        const layout: HexLayout = { orientation: "pointy", coordinates: "odd" };
+        expect(hexToAxial({ x: 0, y: 1 }, layout)).toEqual({ x: 0, y: 1 });
+        expect(hexToAxial({ x: 0, y: 2 }, layout)).toEqual({ x: -1, y: 2 });
+        expect(hexToAxial({ x: 0, y: -1 }, layout)).toEqual({ x: 1, y: -1 });
+    });
+
+    it("shifts columns for flat even offsets", () => {
+        const layout: HexLayout = { orientation: "flat", coordinates: "even" };
+        expect(hexToAxial({ x: 1, y: 0 }, layout)).toEqual({ x: 1, y: -1 });
+        expect(hexToAxial({ x: 2, y: 0 }, layout)).toEqual({ x: 2, y: -1 });
+    });
+
+    it.each(LAYOUTS)("round-trips in %o", (layout) => {
+        for (const hex of HEXES) {
+            expect(axialToHex(hexToAxial(hex, layout), layout)).toEqual(hex);
+        }
+    });
+});
+
+describe("hexCenter / hexAt", () => {
+    it("spaces pointy hexes one unit apart along a row and √3/2 between rows", () => {
+        expect(hexCenter({ x: 1, y: 0 })).toEqual({ x: 1, y: 0 });
+        const below = hexCenter({ x: 0, y: 1 });
+        expect(below.x).toBeCloseTo(0.5);
+        expect(below.y).toBeCloseTo(Math.sqrt(3) / 2);
+    });
+
+    it("lines offset rows up as a rectangular board", () => {
+        const layout: HexLayout = { coordinates: "odd" };
+        // Odd rows are pushed half a hex to the right
+        expect(hexCenter({ x: 0, y: 1 }, layout).x).toBeCloseTo(0.5);
+        expect(hexCenter({ x: 0, y: 2 }, layout).x).toBeCloseTo(0);
+    });
+
+    it.each(LAYOUTS)("finds each hex at its own center and near its corners in %o", (layout) => {
+        for (const hex of HEXES) {
+            expect(hexAt(hexCenter(hex, layout), layout)).toEqual(hex);
+            const center = hexCenter(hex, layout);
+            for (const corner of hexCorners(hex, layout)) {
+                // 90% of the way out to each corner is still inside
+                const inside = { x: center.x + (corner.x - center.x) * 0.9, y: center.y + (corner.y - center.y) * 0.9 };
+                expect(hexAt(inside, layout)).toEqual(hex);
+            }
+        }
+    });
+
+    it("picks the hex across a shared side", () => {
+        // Just right of the side between (0, 0) and (1, 0)
+        expect(hexAt({ x: 0.51, y: 0 })).toEqual({ x: 1, y: 0 });
+        expect(hexAt({ x: 0.49, y: 0 })).toEqual({ x: 0, y: 0 });
+    });
+});
+
+describe("hexCorners", () => {
+    it("puts a pointy corner at the top and flat sides one unit apart", () => {
+        const corners = hexCorners({ x: 0, y: 0 });
+        const xs = corners.map((c) => c.x);
+        const ys = corners.map((c) => c.y);
+        expect(Math.max(...xs) - Math.min(...xs)).toBeCloseTo(1);
+        expect(Math.min(...ys)).toBeCloseTo(-1 / Math.sqrt(3));
+    });
+
+    it("puts flat hexes' flat sides at top and bottom", () => {
+        const corners = hexCorners({ x: 0, y: 0 }, { orientation: "flat" });
+        const ys = corners.map((c) => c.y);
+        expect(Math.max(...ys) - Math.min(...ys)).toBeCloseTo(1);
+    });
+
+    it("shrinks around the center", () => {
+        const corners = hexCorners({ x: 2, y: 0 }, {}, 0.5);
+        const xs = corners.map((c) => c.x);
+        expect(Math.max(...xs) - Math.min(...xs)).toBeCloseTo(0.5);
+        expect((Math.max(...xs) + Math.min(...xs)) / 2).toBeCloseTo(2);
+    });
+});
+
+describe("hexNeighbors / hexDistance", () => {
+    it.each(LAYOUTS)("lists six distinct neighbors one step away in %o", (layout) => {
+        for (const hex of HEXES) {
+            const neighbors = hexNeighbors(hex, layout);
+            expect(new Set(neighbors.map((n) => `${n.x},${n.y}`)).size).toBe(6);
+            for (const neighbor of neighbors) {
+                expect(hexDistance(hex, neighbor, layout)).toBe(1);
+            }
+        }
+    });
+
+    it("counts steps between hexes", () => {
+        expect(hexDistance({ x: 0, y: 0 }, { x: 3, y: -2 })).toBe(3);
+        expect(hexDistance({ x: -2, y: 0 }, { x: 2, y: 0 })).toBe(4);
+        // Offset columns 0 and 2 in the same row of an odd pointy board
+        expect(hexDistance({ x: 0, y: 3 }, { x: 2, y: 3 }, { coordinates: "odd" })).toBe(2);
+    });
+
+    it("lists neighbors in offset coordinates", () => {
+        // Row 1 is odd: pushed right, so both hexes above it are in columns 0 and 1
+        const neighbors = hexNeighbors({ x: 0, y: 1 }, { coordinates: "odd" });
+        expect(neighbors).toContainEqual({ x: 0, y: 0 });
+        expect(neighbors).toContainEqual({ x: 1, y: 0 });
+    });
+});
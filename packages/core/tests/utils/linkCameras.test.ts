@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from "vitest";
+import { CanvasTileEngine } from "../../src/CanvasTileEngine";
+import { linkCameras } from "../../src/utils/linkCameras";
+import type { CanvasTileEngineConfig, IRenderer } from "../../src/types";
+
+type Mount = Record<string, never>;
+
+function createMockRenderer(): IRenderer<Mount> {
+    return {
+        init: vi.fn(),
+        setupEvents: vi.fn(),
+        render: vi.fn(),
+        resize: vi.fn(),
+        resizeWithAnimation: vi.fn(),
+        destroy: vi.fn(),
+        getDrawAPI: vi.fn(),
+        getImageLoader: vi.fn(),
+    } as unknown as IRenderer<Mount>;
+}
+
+const config: CanvasTileEngineConfig = {
+    scale: 1,
+    minScale: 0.1,
+    maxScale: 10,
+    size: { width: 800, height: 600 },
+};
+
+function createEngine(overrides: Partial<CanvasTileEngineConfig> = {}) {
+    return new CanvasTileEngine<Mount>({}, { ...config, ...overrides }, createMockRenderer());
+}
+
+describe("linkCameras", () => {
+    it("center+scale (default) aligns to the first engine and moves every engine together", () => {
+        const a = createEngine();
+        const b = createEngine({ scale: 4 });
+        a.setCenter({ x: 10, y: 20 });
+
+        linkCameras(a, b);
+        expect(b.getScale()).toBe(1);
+        expect(b.getCenter().x).toBeCloseTo(10);
+
+        b.setScale(2);
+        expect(a.getScale()).toBe(2);
+        a.setCenter({ x: -5, y: 7 });
+        expect(b.getCenter().x).toBeCloseTo(-5);
+        expect(b.getCenter().y).toBeCloseTo(7);
+    });
+
+    it("center mode leaves each engine its own scale", () => {
+        const a = createEngine();
+        const b = createEngine({ scale: 4 });
+
+        linkCameras(a, b, { mode: "center" });
+        a.setScale(2);
+        a.setCenter({ x: 30, y: 40 });
+
+        expect(b.getScale()).toBe(4);
+        expect(b.getCenter().x).toBeCloseTo(30);
+        expect(b.getCenter().y).toBeCloseTo(40);
+    });
+
+    it("offset mode keeps the center offset and scale ratio from when linked", () => {
+        const a = createEngine();
+        const b = createEngine({ scale: 2 });
+        b.setCenter({ x: 100, y: 0 });
+
+        linkCameras(a, b, { mode: "offset" });
+        // Linking moves nothing.
+        expect(b.getCenter().x).toBeCloseTo(100);
+
+        a.setCenter({ x: 5, y: 5 });
+        expect(b.getCenter().x).toBeCloseTo(105);
+        expect(b.getCenter().y).toBeCloseTo(5);
+
+        b.setScale(4);
+        expect(a.getScale()).toBeCloseTo(2);
+    });
+
+    it("links more than two engines without feedback loops", () => {
+        const engines = [createEngine(), createEngine(), createEngine()];
+        linkCameras(...engines);
+        const moves = engines.map((engine) => {
+            const listener = vi.fn();
+            engine.subscribeViewState(listener);
+            return listener;
+        });
+
+        engines[1].setCenter({ x: 3, y: 4 });
+
+        // One camera change each: the followers' changes do not echo back.
+        moves.forEach((listener) => expect(listener).toHaveBeenCalledTimes(1));
+        engines.forEach((engine) => expect(engine.getCenter().x).toBeCloseTo(3));
+    });
+
+    it("each engine keeps its own scale limits", () => {
+        const a = createEngine();
+        const b = createEngine({ maxScale: 2 });
+
+        linkCameras(a, b);
+        a.setScale(5);
+
+        expect(a.getScale()).toBe(5);
+        expect(b.getScale()).toBe(2);
+    });
+
+    it("does not link the rotation", () => {
+        const a = createEngine();
+        const b = createEngine();
+
+        linkCameras(a, b);
+        a.setRotation(90);
+
+        expect(b.getRotation()).toBe(0);
+    });
+
+    it("unlink lets the engines move independently again", () => {
+        const a = createEngine();
+        const b = createEngine();
+
+        const unlink = linkCameras(a, b);
+        unlink();
+        a.setCenter({ x: 50, y: 50 });
+
+        expect(b.getCenter().x).toBeCloseTo(0);
+    });
+
+    it("rejects fewer than two engines and unknown modes", () => {
+        const a = createEngine();
+        expect(() => linkCameras(a)).toThrow(/at least two engines/);
+        expect(() => linkCameras(a, createEngine(), { mode: "zoom" as never })).toThrow(/mode/);
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { itemAnchor, translatedFields } from "../../src/utils/moveItem";
+import type { Line, PathItem, Rect } from "../../src/types";
+
+describe("itemAnchor", () => {
+    it("reads x/y of anchored items, from of lines, and the first vertex of paths", () => {
+        expect(itemAnchor({ x: 3, y: 4, size: 2 })).toEqual({ x: 3, y: 4 });
+        expect(itemAnchor({ from: { x: 1, y: 2 }, to: { x: 5, y: 6 } })).toEqual({ x: 1, y: 2 });
+        expect(
+            itemAnchor({
+                points: [
+                    { x: 7, y: 8 },
+                    { x: 9, y: 9 },
+                ],
+            }),
+        ).toEqual({ x: 7, y: 8 });
+        expect(
+            itemAnchor({
+                commands: [
+                    { type: "moveTo", x: -1, y: 2 },
+                    { type: "lineTo", x: 4, y: 2 },
+                ],
+            }),
+        ).toEqual({ x: -1, y: 2 });
+    });
+
+    it("returns null for items without geometry", () => {
+        expect(itemAnchor({ points: [] })).toBeNull();
+        expect(itemAnchor({ commands: [{ type: "closePath" }] })).toBeNull();
+    });
+});
+
+describe("translatedFields", () => {
+    it("moves anchored items and both line endpoints", () => {
+        const rect: Rect = { x: 1, y: 1, size: 2 };
+        expect(translatedFields(rect, { x: 2, y: -1 })).toEqual({ x: 3, y: 0 });
+
+        const line: Line = { from: { x: 0, y: 0 }, to: { x: 2, y: 2 } };
+        expect(translatedFields(line, { x: 1, y: 1 })).toEqual({ from: { x: 1, y: 1 }, to: { x: 3, y: 3 } });
+    });
+
+    it("moves every path vertex and command point, control points included", () => {
+        const polyline: PathItem = {
+            points: [
+                { x: 0, y: 0 },
+                { x: 1, y: 0 },
+            ],
+        };
+        expect(translatedFields(polyline, { x: 1, y: 2 })).toEqual({
+            points: [
+                { x: 1, y: 2 },
+                { x: 2, y: 2 },
+            ],
+        });
+
+        const curved: PathItem = {
+            commands: [
+                { type: "moveTo", x: 0, y: 0 },
+                { type: "quadraticCurveTo", cpx: 1, cpy: 1, x: 2, y: 0 },
+                { type: "bezierCurveTo", cp1x: 2, cp1y: 1, cp2x: 3, cp2y: 1, x: 4, y: 0 },
+                { type: "arc", x: 5, y: 0, radius: 1, startAngle: 0, endAngle: 90 },
+                { type: "closePath" },
+            ],
+        };
+        expect(translatedFields(curved, { x: 10, y: 0 })).toEqual({
+            commands: [
+                { type: "moveTo", x: 10, y: 0 },
+                { type: "quadraticCurveTo", cpx: 11, cpy: 1, x: 12, y: 0 },
+                { type: "bezierCurveTo", cp1x: 12, cp1y: 1, cp2x: 13, cp2y: 1, x: 14, y: 0 },
+                { type: "arc", x: 15, y: 0, radius: 1, startAngle: 0, endAngle: 90 },
+                { type: "closePath" },
+            ],
+        });
+    });
+
+    it("replaces shared arrays instead of mutating them", () => {
+        const points = [
+            { x: 0, y: 0 },
+            { x: 1, y: 1 },
+        ];
+        const path: PathItem = { points };
+        Object.assign(path, translatedFields(path, { x: 1, y: 1 }));
+
+        expect(path.points).not.toBe(points);
+        expect(points[0]).toEqual({ x: 0, y: 0 });
+    });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+    depthSorted,
+    invertMatrix,
+    projectionMatrix,
+    screenToViewAround,
+    transformAround,
+    viewHalfExtents,
+    viewMatrix,
+    viewToScreenAround,
+} from "../../src/utils/projection";
+import { rotateAround, rotatedHalfExtents } from "../../src/utils/viewport";
+import type { Projection } from "../../src/types";
+
+const ISOMETRIC: Projection = { type: "isometric" };
+
+describe("projectionMatrix", () => {
+    it("is the identity for orthogonal or missing projections", () => {
+        expect(projectionMatrix()).toEqual({ a: 1, b: 0, c: 0, d: 1 });
+        expect(projectionMatrix({ type: "orthogonal" })).toEqual({ a: 1, b: 0, c: 0, d: 1 });
+    });
+
+    it("maps a square cell onto a 2:1 diamond by default", () => {
+        const m = projectionMatrix(ISOMETRIC);
+        // A 10px cell: x edge to (5, 2.5), y edge to (-5, 2.5) — 10px wide, 5px tall
+        expect(transformAround({ x: 10, y: 0 }, { x: 0, y: 0 }, m)).toEqual({ x: 5, y: 2.5 });
+        expect(transformAround({ x: 0, y: 10 }, { x: 0, y: 0 }, m)).toEqual({ x: -5, y: 2.5 });
+    });
+
+    it("honors the tile ratio", () => {
+        const m = projectionMatrix({ type: "isometric", tileRatio: 0.75 });
+        expect(transformAround({ x: 10, y: 10 }, { x: 0, y: 0 }, m)).toEqual({ x: 0, y: 7.5 });
+    });
+});
+
+describe("viewMatrix", () => {
+    it("is the bare projection without a rotation", () => {
+        const m = viewMatrix(0, ISOMETRIC);
+        const p = projectionMatrix(ISOMETRIC);
+        expect(m.a).toBeCloseTo(p.a);
+        expect(m.b).toBeCloseTo(p.b);
+        expect(m.c).toBeCloseTo(p.c);
+        expect(m.d).toBeCloseTo(p.d);
+    });
+
+    it("rotates after projecting", () => {
+        // The x edge (5, 2.5) turned a quarter clockwise lands on (-2.5, 5)
+        const point = transformAround({ x: 10, y: 0 }, { x: 0, y: 0 }, viewMatrix(90, ISOMETRIC));
+        expect(point.x).toBeCloseTo(-2.5);
+        expect(point.y).toBeCloseTo(5);
+    });
+
+    it("inverts exactly", () => {
+        const m = viewMatrix(33, { type: "isometric", tileRatio: 0.6 });
+        const there = transformAround({ x: 7, y: -3 }, { x: 1, y: 2 }, m);
+        const back = transformAround(there, { x: 1, y: 2 }, invertMatrix(m));
+        expect(back.x).toBeCloseTo(7);
+        expect(back.y).toBeCloseTo(-3);
+    });
+});
+
+describe("viewToScreenAround / screenToViewAround", () => {
+    const pivot = { x: 100, y: 50 };
+
+    it("only rotate for orthogonal views", () => {
+        const point = { x: 130, y: 20 };
+        expect(viewToScreenAround(point, pivot, 45)).toEqual(rotateAround(point, pivot, 45));
+        expect(screenToViewAround(point, pivot, 45)).toEqual(rotateAround(point, pivot, -45));
+    });
+
+    it("round-trip under an isometric projection", () => {
+        const screen = viewToScreenAround({ x: 130, y: 20 }, pivot, 15, ISOMETRIC);
+        const view = screenToViewAround(screen, pivot, 15, ISOMETRIC);
+        expect(view.x).toBeCloseTo(130);
+        expect(view.y).toBeCloseTo(20);
+    });
+});
+
+describe("viewHalfExtents", () => {
+    it("matches rotatedHalfExtents for orthogonal views", () => {
+        expect(viewHalfExtents(40, 30, 30)).toEqual(rotatedHalfExtents(40, 30, 30));
+    });
+
+    it("covers the whole diamond a projected viewport shows", () => {
+        // The inverse 2:1 projection is [[1, 2], [-1, 2]]
+        expect(viewHalfExtents(200, 150, 0, ISOMETRIC)).toEqual({ x: 500, y: 500 });
+    });
+});
+
+describe("depthSorted", () => {
+    const items = [
+        { id: "front", x: 3, y: 3 },
+        { id: "back", x: 0, y: 0 },
+        { id: "middle-a", x: 2, y: 1 },
+        { id: "middle-b", x: 1, y: 2 },
+    ];
+
+    it("returns the list untouched for orthogonal views", () => {
+        expect(depthSorted(items, 0)).toBe(items);
+    });
+
+    it("orders back to front by row, keeping ties in draw order", () => {
+        expect(depthSorted(items, 0, ISOMETRIC).map((item) => item.id)).toEqual([
+            "back",
+            "middle-a",
+            "middle-b",
+            "front",
+        ]);
+    });
+
+    it("follows the rotated rows", () => {
+        // A half turn puts the far corner of the grid in front
+        expect(depthSorted(items, 180, ISOMETRIC).map((item) => item.id)).toEqual([
+            "front",
+            "middle-a",
+            "middle-b",
+            "back",
+        ]);
+    });
+});
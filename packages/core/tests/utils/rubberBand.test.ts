@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { rubberBand, stretchOverscroll } from "../../src/utils/rubberBand";
+
+describe("rubberBand", () => {
+    it("starts at the resistance slope and never reaches the limit", () => {
+        expect(rubberBand(0, 100, 0.5)).toBe(0);
+        expect(rubberBand(1, 100, 0.5)).toBeCloseTo(0.5, 2);
+        expect(rubberBand(1e6, 100, 0.5)).toBeLessThan(100);
+        expect(rubberBand(1e6, 100, 0.5)).toBeGreaterThan(99);
+    });
+});
+
+describe("stretchOverscroll", () => {
+    const LIMIT = 100;
+    const RESISTANCE = 0.5;
+
+    it("resists only the part past the limit when crossing into overscroll", () => {
+        expect(stretchOverscroll(0, 40, LIMIT, RESISTANCE)).toBeCloseTo(rubberBand(40, LIMIT, RESISTANCE));
+        expect(stretchOverscroll(0, -40, LIMIT, RESISTANCE)).toBeCloseTo(-rubberBand(40, LIMIT, RESISTANCE));
+    });
+
+    it("continues along the curve: many small pulls equal one big pull", () => {
+        let shown = 0;
+        for (let i = 0; i < 30; i++) {
+            shown = stretchOverscroll(shown, shown + 10, LIMIT, RESISTANCE);
+        }
+        expect(shown).toBeCloseTo(rubberBand(300, LIMIT, RESISTANCE), 6);
+    });
+
+    it("moves back toward the limit without resistance", () => {
+        expect(stretchOverscroll(30, 10, LIMIT, RESISTANCE)).toBe(10);
+        expect(stretchOverscroll(-30, 0, LIMIT, RESISTANCE)).toBe(0);
+    });
+
+    it("restarts the curve when the overscroll flips side", () => {
+        expect(stretchOverscroll(20, -20, LIMIT, RESISTANCE)).toBeCloseTo(-rubberBand(20, LIMIT, RESISTANCE));
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { inScaleRange, scaleRangeOpacity } from "../../src/utils/scaleRange";
+
+describe("inScaleRange", () => {
+    it("includes both thresholds", () => {
+        const range = { minScale: 2, maxScale: 8 };
+
+        expect(inScaleRange(1.99, range)).toBe(false);
+        expect(inScaleRange(2, range)).toBe(true);
+        expect(inScaleRange(8, range)).toBe(true);
+        expect(inScaleRange(8.01, range)).toBe(false);
+    });
+
+    it("ignores the fade band", () => {
+        expect(inScaleRange(1.5, { minScale: 2, scaleFade: 2 })).toBe(false);
+    });
+
+    it("passes without a range or with an open end", () => {
+        expect(inScaleRange(100, undefined)).toBe(true);
+        expect(inScaleRange(100, { minScale: 2 })).toBe(true);
+        expect(inScaleRange(0.01, { maxScale: 2 })).toBe(true);
+    });
+});
+
+describe("scaleRangeOpacity", () => {
+    it("switches at the thresholds without a fade", () => {
+        const range = { minScale: 2, maxScale: 8 };
+
+        expect(scaleRangeOpacity(1.99, range)).toBe(0);
+        expect(scaleRangeOpacity(2, range)).toBe(1);
+        expect(scaleRangeOpacity(8, range)).toBe(1);
+        expect(scaleRangeOpacity(8.01, range)).toBe(0);
+    });
+
+    it("ramps across a band centered on each threshold", () => {
+        const range = { minScale: 10, maxScale: 30, scaleFade: 4 };
+
+        expect(scaleRangeOpacity(8, range)).toBe(0);
+        expect(scaleRangeOpacity(9, range)).toBeCloseTo(0.25);
+        expect(scaleRangeOpacity(10, range)).toBeCloseTo(0.5);
+        expect(scaleRangeOpacity(12, range)).toBe(1);
+        expect(scaleRangeOpacity(30, range)).toBeCloseTo(0.5);
+        expect(scaleRangeOpacity(32, range)).toBe(0);
+    });
+
+    it("cross-fades a coarse and a detail range meeting at one threshold", () => {
+        const coarse = { maxScale: 20, scaleFade: 4 };
+        const detail = { minScale: 20, scaleFade: 4 };
+
+        for (const scale of [18, 19, 20, 21.5, 22]) {
+            expect(scaleRangeOpacity(scale, coarse) + scaleRangeOpacity(scale, detail)).toBeCloseTo(1);
+        }
+    });
+
+    it("is 1 without a range", () => {
+        expect(scaleRangeOpacity(3, undefined)).toBe(1);
+        expect(scaleRangeOpacity(3, {})).toBe(1);
+    });
+});
@@ -0,0 +1,199 @@
+import { describe, expect, it, vi } from "vitest";
+import { marqueeBox } from "../../src/modules/Marquee";
+import { Selection } from "../../src/modules/Selection";
+import { paintCellsTool, panTool, selectTool } from "../../src/utils/tools";
+import type { HitResult } from "../../src/modules/HitTester";
+import type { Coords, PointerInfo, ToolContext, ToolPointerEvent, WorldWrap } from "../../src/types";
+import { wrapCoords } from "../../src/utils/wrap";
+
+/** 10 px cells, no camera offset: pixel (x, y) is world (x / 10, y / 10). */
+const CELL_PX = 10;
+
+const createContext = (hits: HitResult[] = [], wrap: WorldWrap = {}) => {
+    const selection = new Selection(() => {});
+    const context = {
+        hitTestRect: vi.fn(() => hits),
+        cellAt: vi.fn((pixel: Coords) => ({ x: Math.floor(pixel.x / CELL_PX), y: Math.floor(pixel.y / CELL_PX) })),
+        boxBetween: (from: Coords, to: Coords) =>
+            marqueeBox(from, to, (x, y) => ({ x: x / CELL_PX, y: y / CELL_PX }), wrap),
+        hitTestBox: vi.fn(() => hits),
+        selection,
+        drawBox: vi.fn(() => Symbol("box") as never),
+        removeBox: vi.fn(),
+        render: vi.fn(),
+    } satisfies ToolContext;
+    return { context, selection };
+};
+
+const event = (
+    px: number,
+    py: number,
+    {
+        pressed = true,
+        hit,
+        keys = {},
+        wrap = {},
+    }: { pressed?: boolean; hit?: HitResult; keys?: Partial<PointerInfo>; wrap?: WorldWrap } = {},
+): ToolPointerEvent => {
+    const world = { x: px / CELL_PX, y: py / CELL_PX };
+    const raw = wrapCoords(world, wrap);
+    const pixel = { x: px, y: py };
+    return {
+        coords: { raw, snapped: { x: Math.floor(raw.x), y: Math.floor(raw.y) } },
+        world,
+        mouse: { raw: pixel, snapped: pixel },
+        client: { raw: pixel, snapped: pixel },
+        pointer: {
+            pointerId: 1,
+            pointerType: "mouse",
+            pressure: 0.5,
+            tiltX: 0,
+            tiltY: 0,
+            shiftKey: false,
+            altKey: false,
+            ctrlKey: false,
+            metaKey: false,
+            ...keys,
+        },
+        hit,
+        pressed,
+    };
+};
+
+const hitOf = (data: string, layer = 1) => ({ data, layer }) as HitResult;
+
+describe("panTool", () => {
+    it("claims nothing, leaving drags to the camera", () => {
+        const tool = panTool();
+        expect(tool).toEqual({ name: "pan", cursor: "grab" });
+        expect(tool.onPointerDown).toBeUndefined();
+    });
+});
+
+describe("paintCellsTool", () => {
+    it("paints every crossed cell once per stroke and reports the stroke", () => {
+        const onPaint = vi.fn();
+        const onStrokeEnd = vi.fn();
+        const tool = paintCellsTool({ onPaint, onStrokeEnd });
+        const { context } = createContext();
+
+        expect(tool.onPointerDown?.(event(5, 5), context)).toBe(true);
+        // Hovering does not paint
+        tool.onPointerMove?.(event(45, 5, { pressed: false }), context);
+        // A fast move fills the cells between the two events
+        tool.onPointerMove?.(event(45, 5), context);
+        // Back over painted cells
+        tool.onPointerMove?.(event(15, 5), context);
+        tool.onPointerUp?.(event(15, 5, { pressed: false }), context);
+
+        const painted = onPaint.mock.calls.map(([cell]) => cell);
+        expect(painted).toEqual([0, 1, 2, 3, 4].map((x) => ({ x, y: 0 })));
+        expect(onStrokeEnd).toHaveBeenCalledExactlyOnceWith(painted);
+
+        // A new stroke paints the same cells again
+        tool.onPointerDown?.(event(5, 5), context);
+        tool.onPointerCancel?.(context);
+        expect(onPaint).toHaveBeenCalledTimes(6);
+        expect(onStrokeEnd).toHaveBeenLastCalledWith([{ x: 0, y: 0 }]);
+    });
+
+    it("defaults to a crosshair cursor", () => {
+        expect(paintCellsTool({ onPaint: () => {} }).cursor).toBe("crosshair");
+        expect(paintCellsTool({ onPaint: () => {}, cursor: "cell" }).cursor).toBe("cell");
+    });
+
+    it("rejects invalid options", () => {
+        expect(() => paintCellsTool({} as never)).toThrow(/onPaint/);
+        expect(() => paintCellsTool({ onPaint: () => {}, onStrokeEnd: 1 as never })).toThrow(/onStrokeEnd/);
+    });
+});
+
+describe("selectTool", () => {
+    it("selects the clicked item, adds with Shift and clears on empty space", () => {
+        const tool = selectTool();
+        const { context, selection } = createContext();
+
+        tool.onPointerDown?.(event(5, 5), context);
+        tool.onPointerUp?.(event(5, 5, { pressed: false, hit: hitOf("a") }), context);
+        expect([...selection.ids]).toEqual(["a"]);
+
+        const shift = { keys: { shiftKey: true } };
+        tool.onPointerDown?.(event(25, 5, shift), context);
+        tool.onPointerUp?.(event(25, 5, { ...shift, pressed: false, hit: hitOf("b") }), context);
+        expect([...selection.ids]).toEqual(["a", "b"]);
+
+        tool.onPointerDown?.(event(45, 5), context);
+        tool.onPointerUp?.(event(45, 5, { pressed: false }), context);
+        expect(selection.size).toBe(0);
+        expect(context.drawBox).not.toHaveBeenCalled();
+    });
+
+    it("ignores clicked items on other layers", () => {
+        const tool = selectTool({ layer: 2 });
+        const { context, selection } = createContext();
+
+        tool.onPointerDown?.(event(5, 5), context);
+        tool.onPointerUp?.(event(5, 5, { pressed: false, hit: hitOf("a", 1) }), context);
+        expect(selection.size).toBe(0);
+    });
+
+    it("selects the items in a dragged box", () => {
+        const tool = selectTool({ mode: "contain", style: { lineWidthPx: 2 } });
+        const { context, selection } = createContext([hitOf("a"), hitOf("b")]);
+
+        tool.onPointerDown?.(event(30, 30), context);
+        tool.onPointerMove?.(event(20, 40), context);
+        tool.onPointerMove?.(event(10, 50), context);
+        expect(context.drawBox).toHaveBeenCalledTimes(2);
+        expect(context.removeBox).toHaveBeenCalledTimes(1);
+
+        tool.onPointerUp?.(event(10, 50, { pressed: false }), context);
+        expect(context.hitTestBox).toHaveBeenCalledWith(
+            {
+                screen: { minX: 10, minY: 30, maxX: 30, maxY: 50 },
+                corners: [
+                    { x: 1, y: 3 },
+                    { x: 3, y: 3 },
+                    { x: 3, y: 5 },
+                    { x: 1, y: 5 },
+                ],
+                bounds: { minX: 1, minY: 3, maxX: 3, maxY: 5 },
+            },
+            { mode: "contain", style: { lineWidthPx: 2 } },
+        );
+        expect(context.removeBox).toHaveBeenCalledTimes(2);
+        expect([...selection.ids]).toEqual(["a", "b"]);
+    });
+
+    it("selects the strip a box sweeps across a wrapped world's seam", () => {
+        const wrap = { x: 100 };
+        const tool = selectTool();
+        const { context } = createContext([], wrap);
+
+        tool.onPointerDown?.(event(950, 0, { wrap }), context);
+        tool.onPointerMove?.(event(1050, 30, { wrap }), context);
+        tool.onPointerUp?.(event(1050, 30, { pressed: false, wrap }), context);
+        const box = expect.objectContaining({ bounds: { minX: 95, minY: 0, maxX: 105, maxY: 3 } });
+        expect(context.drawBox).toHaveBeenCalledWith(box, undefined);
+        expect(context.hitTestBox).toHaveBeenCalledWith(box, {});
+    });
+
+    it("removes the box without selecting when cancelled", () => {
+        const tool = selectTool();
+        const { context, selection } = createContext([hitOf("a")]);
+
+        tool.onPointerDown?.(event(0, 0), context);
+        tool.onPointerMove?.(event(20, 20), context);
+        tool.onPointerCancel?.(context);
+        tool.onPointerUp?.(event(20, 20, { pressed: false }), context);
+
+        expect(context.removeBox).toHaveBeenCalledTimes(1);
+        expect(context.hitTestBox).not.toHaveBeenCalled();
+        expect(selection.size).toBe(0);
+    });
+
+    it("rejects invalid options", () => {
+        expect(() => selectTool({ mode: "touch" as never })).toThrow(/mode/);
+        expect(() => selectTool({ style: { lineWidthPx: -1 } })).toThrow(/lineWidthPx/);
+    });
+});
@@ -4,8 +4,11 @@ import {
     validateReducedMotion,
     validateBounds,
     validateCoords,
+    validateEasing,
     validateScale,
     validateScaleLimits,
+    validateScaleRange,
+    validateZoom,
 } from "../../src/utils/validateConfig";
 import { CanvasTileEngineConfig } from "../../src/types";
 
@@ -401,6 +404,52 @@ describe("validateScaleLimits", () => {
     });
 });
 
+describe("validateScaleRange", () => {
+    it("accepts open and closed ranges", () => {
+        expect(() => validateScaleRange({ minScale: 2 })).not.toThrow();
+        expect(() => validateScaleRange({ maxScale: 2, scaleFade: 0.5 })).not.toThrow();
+        expect(() => validateScaleRange({ minScale: 2, maxScale: 2, scaleFade: 0 })).not.toThrow();
+    });
+
+    it("throws on non-positive or non-finite limits", () => {
+        expect(() => validateScaleRange({ minScale: 0 })).toThrow("minScale must be a positive finite number, got 0");
+        expect(() => validateScaleRange({ maxScale: Infinity })).toThrow(
+            "maxScale must be a positive finite number, got Infinity",
+        );
+    });
+
+    it("throws when minScale is greater than maxScale", () => {
+        expect(() => validateScaleRange({ minScale: 3, maxScale: 2 })).toThrow(
+            "minScale (3) cannot be greater than maxScale (2)",
+        );
+    });
+
+    it("throws on a negative fade", () => {
+        expect(() => validateScaleRange({ minScale: 1, scaleFade: -1 })).toThrow(
+            "scaleFade must be a non-negative finite number, got -1",
+        );
+    });
+});
+
+describe("validateZoom", () => {
+    it("accepts booleans, anchors and options", () => {
+        expect(() => validateZoom(true)).not.toThrow();
+        expect(() => validateZoom("center")).not.toThrow();
+        expect(() => validateZoom({})).not.toThrow();
+        expect(() => validateZoom({ anchor: "pointer", wheel: "auto" })).not.toThrow();
+    });
+
+    it("throws on an invalid anchor or wheel mode", () => {
+        expect(() => validateZoom({ anchor: "corner" as "center" })).toThrow(
+            'eventHandlers.zoom.anchor must be "pointer" or "center", got corner',
+        );
+        expect(() => validateZoom({ wheel: "scroll" as "pan" })).toThrow(
+            'eventHandlers.zoom.wheel must be "zoom", "auto" or "pan", got scroll',
+        );
+        expect(() => validateZoom(null as never)).toThrow("eventHandlers.zoom must be a boolean");
+    });
+});
+
 describe("validateReducedMotion", () => {
     it('accepts true, false and "auto"', () => {
         expect(() => validateReducedMotion(true)).not.toThrow();
@@ -423,3 +472,34 @@ describe("validateReducedMotion", () => {
         expect(() => validateConfig({ ...base, accessibility: { reducedMotion: "reduce" as never } })).toThrow();
     });
 });
+
+describe("validateEasing", () => {
+    it("accepts presets, functions and springs", () => {
+        expect(() => validateEasing("linear")).not.toThrow();
+        expect(() => validateEasing("easeInOutCubic")).not.toThrow();
+        expect(() => validateEasing((t: number) => t * t)).not.toThrow();
+        expect(() => validateEasing({ type: "spring" })).not.toThrow();
+        expect(() => validateEasing({ type: "spring", stiffness: 300, damping: 20 })).not.toThrow();
+    });
+
+    it("rejects unknown presets", () => {
+        expect(() => validateEasing("bounce")).toThrow("easing must be one of linear, easeIn, easeOut, easeInOut");
+        expect(() => validateEasing("toString")).toThrow("easing must be one of");
+    });
+
+    it("rejects anything that is not a preset, function or spring", () => {
+        expect(() => validateEasing(null)).toThrow('easing must be a preset name, a function or { type: "spring" }');
+        expect(() => validateEasing(1)).toThrow();
+        expect(() => validateEasing({ type: "bezier" })).toThrow();
+    });
+
+    it("rejects non-positive spring parameters", () => {
+        expect(() => validateEasing({ type: "spring", stiffness: 0 })).toThrow(
+            "spring stiffness must be a positive finite number, got 0",
+        );
+        expect(() => validateEasing({ type: "spring", damping: -1 })).toThrow(
+            "spring damping must be a positive finite number, got -1",
+        );
+        expect(() => validateEasing({ type: "spring", damping: NaN })).toThrow();
+    });
+});
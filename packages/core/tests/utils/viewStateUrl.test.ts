@@ -0,0 +1,279 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { formatViewState, parseViewState, syncViewStateWithUrl } from "../../src/utils/viewStateUrl";
+import type { SetViewStateOptions, ViewState, ViewStateInput, ViewStateTarget } from "../../src/types";
+
+const view = (x: number, y: number, scale: number, rotation = 0): ViewState => ({
+    center: { x, y },
+    scale,
+    rotation,
+    size: { width: 800, height: 600 },
+});
+
+describe("formatViewState / parseViewState", () => {
+    it("writes x,y,scale and leaves out a zero rotation", () => {
+        expect(formatViewState(view(12.5, -3, 32))).toBe("12.5,-3,32");
+    });
+
+    it("rounds coordinates to a thousandth and scales to six significant digits", () => {
+        expect(formatViewState(view(1.23456, 0, 0.000123456789))).toBe("1.235,0,0.000123457");
+    });
+
+    it("writes the rotation when rotated, and rotation plus size with includeSize", () => {
+        expect(formatViewState(view(0, 0, 2, 45))).toBe("0,0,2,45");
+        expect(formatViewState(view(0, 0, 2), { includeSize: true })).toBe("0,0,2,0,800,600");
+    });
+
+    it("round-trips", () => {
+        expect(parseViewState("12.5,-3,32")).toEqual({ center: { x: 12.5, y: -3 }, scale: 32 });
+        expect(parseViewState("0,0,2,45")).toEqual({ center: { x: 0, y: 0 }, scale: 2, rotation: 45 });
+        expect(parseViewState("0,0,2,0,800,600")).toEqual({
+            center: { x: 0, y: 0 },
+            scale: 2,
+            rotation: 0,
+            size: { width: 800, height: 600 },
+        });
+    });
+
+    it("returns undefined for malformed values", () => {
+        expect(parseViewState("")).toBeUndefined();
+        expect(parseViewState("1,2")).toBeUndefined();
+        expect(parseViewState("1,2,3,4,5")).toBeUndefined();
+        expect(parseViewState("1,abc,3")).toBeUndefined();
+        expect(parseViewState("1,2,0")).toBeUndefined();
+        expect(parseViewState("1,2,3,0,0,600")).toBeUndefined();
+    });
+});
+
+/** A window with just the location, history and events the sync uses. */
+function createFakeWindow(href: string) {
+    const listeners = new Map<string, Set<() => void>>();
+    const entries = [href];
+    let index = 0;
+    const location = {
+        get href() {
+            return entries[index];
+        },
+        get hash() {
+            return new URL(entries[index]).hash;
+        },
+        get search() {
+            return new URL(entries[index]).search;
+        },
+    };
+    const fire = (type: string) => listeners.get(type)?.forEach((listener) => listener());
+    const win = {
+        location,
+        history: {
+            state: null,
+            replaceState: vi.fn((_state: unknown, _title: string, url: string) => {
+                entries[index] = url;
+            }),
+            pushState: vi.fn((_state: unknown, _title: string, url: string) => {
+                entries.splice(index + 1, entries.length, url);
+                index++;
+            }),
+        },
+        addEventListener: (type: string, listener: () => void) => {
+            if (!listeners.has(type)) {
+                listeners.set(type, new Set());
+            }
+            listeners.get(type)!.add(listener);
+        },
+        removeEventListener: (type: string, listener: () => void) => listeners.get(type)?.delete(listener),
+    };
+    return {
+        win,
+        listenerCount: () => [...listeners.values()].reduce((sum, set) => sum + set.size, 0),
+        /** Browser back: popstate, plus hashchange when only the hash differs. */
+        back() {
+            const before = location.hash;
+            index--;
+            fire("popstate");
+            if (location.hash !== before) {
+                fire("hashchange");
+            }
+        },
+        /** The user edits the hash in the address bar. */
+        editHash(hash: string) {
+            const url = new URL(entries[index]);
+            url.hash = hash;
+            entries.splice(index + 1, entries.length, url.href);
+            index++;
+            fire("popstate");
+            fire("hashchange");
+        },
+    };
+}
+
+function createTarget(initial: ViewState) {
+    let state = initial;
+    const listeners = new Set<(state: ViewState) => void>();
+    const target: ViewStateTarget = {
+        getViewState: () => state,
+        setViewState: vi.fn((next: ViewStateInput, _options?: SetViewStateOptions) => {
+            state = { ...state, ...next, rotation: next.rotation ?? state.rotation, size: state.size };
+            listeners.forEach((listener) => listener(state));
+        }),
+        subscribeViewState: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+    };
+    return {
+        target,
+        /** A gesture or programmatic move on the engine side. */
+        move(next: ViewState) {
+            state = next;
+            listeners.forEach((listener) => listener(state));
+        },
+    };
+}
+
+describe("syncViewStateWithUrl", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    it("does nothing without a window", () => {
+        const { target } = createTarget(view(0, 0, 1));
+        const stop = syncViewStateWithUrl(target);
+        expect(target.setViewState).not.toHaveBeenCalled();
+        stop();
+    });
+
+    it("restores the view found in the hash on start", () => {
+        const { win } = createFakeWindow("https://example.com/map#view=10,20,4");
+        vi.stubGlobal("window", win);
+        const { target } = createTarget(view(0, 0, 1));
+
+        syncViewStateWithUrl(target);
+
+        expect(target.setViewState).toHaveBeenCalledWith(
+            { center: { x: 10, y: 20 }, scale: 4 },
+            { durationMs: 0, match: "scale" },
+        );
+        // Applying the URL's own view does not write it back.
+        vi.runAllTimers();
+        expect(win.history.replaceState).not.toHaveBeenCalled();
+    });
+
+    it("ignores a malformed hash and skips restoring with restore: false", () => {
+        const { win } = createFakeWindow("https://example.com/#view=oops");
+        vi.stubGlobal("window", win);
+        const first = createTarget(view(0, 0, 1));
+        syncViewStateWithUrl(first.target);
+        expect(first.target.setViewState).not.toHaveBeenCalled();
+
+        const { win: valid } = createFakeWindow("https://example.com/#view=1,2,3");
+        vi.stubGlobal("window", valid);
+        const second = createTarget(view(0, 0, 1));
+        syncViewStateWithUrl(second.target, { restore: false });
+        expect(second.target.setViewState).not.toHaveBeenCalled();
+    });
+
+    it("writes view changes once they settle, keeping other parameters", () => {
+        const { win } = createFakeWindow("https://example.com/map#layer=roads");
+        vi.stubGlobal("window", win);
+        const { target, move } = createTarget(view(0, 0, 1));
+
+        syncViewStateWithUrl(target);
+        move(view(1, 1, 2));
+        move(view(5, 6, 2));
+        vi.advanceTimersByTime(299);
+        expect(win.history.replaceState).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(1);
+        expect(win.history.replaceState).toHaveBeenCalledTimes(1);
+        expect(win.location.href).toBe("https://example.com/map#layer=roads&view=5,6,2");
+    });
+
+    it("writes to the query string in query mode", () => {
+        const { win } = createFakeWindow("https://example.com/map?debug=1");
+        vi.stubGlobal("window", win);
+        const { target, move } = createTarget(view(0, 0, 1));
+
+        syncViewStateWithUrl(target, { mode: "query", param: "v", debounceMs: 0 });
+        move(view(5, 6, 2, 90));
+        vi.runAllTimers();
+
+        expect(win.location.href).toBe("https://example.com/map?debug=1&v=5,6,2,90");
+    });
+
+    it("writes the viewport size and restores by extent with matchExtent", () => {
+        const { win } = createFakeWindow("https://example.com/#view=0,0,10,0,400,300");
+        vi.stubGlobal("window", win);
+        const { target, move } = createTarget(view(0, 0, 1));
+
+        syncViewStateWithUrl(target, { matchExtent: true });
+        expect(target.setViewState).toHaveBeenCalledWith(
+            { center: { x: 0, y: 0 }, scale: 10, rotation: 0, size: { width: 400, height: 300 } },
+            { durationMs: 0, match: "extent" },
+        );
+
+        move(view(1, 2, 3));
+        vi.runAllTimers();
+        expect(win.location.hash).toBe("#view=1,2,3,0,800,600");
+    });
+
+    it("follows back navigation in push mode, back to the initial view", () => {
+        const fake = createFakeWindow("https://example.com/");
+        vi.stubGlobal("window", fake.win);
+        const { target, move } = createTarget(view(0, 0, 1));
+
+        syncViewStateWithUrl(target, { history: "push" });
+        move(view(5, 5, 2));
+        vi.runAllTimers();
+        move(view(9, 9, 4));
+        vi.runAllTimers();
+        expect(fake.win.history.pushState).toHaveBeenCalledTimes(2);
+
+        fake.back();
+        // popstate and hashchange both fired; the view is applied once.
+        expect(target.setViewState).toHaveBeenCalledTimes(1);
+        expect(target.getViewState().center).toEqual({ x: 5, y: 5 });
+
+        fake.back();
+        expect(target.getViewState()).toEqual(view(0, 0, 1));
+        // Navigating never pushes entries of its own.
+        vi.runAllTimers();
+        expect(fake.win.history.pushState).toHaveBeenCalledTimes(2);
+    });
+
+    it("applies a hand-edited hash with the navigation duration", () => {
+        const fake = createFakeWindow("https://example.com/");
+        vi.stubGlobal("window", fake.win);
+        const { target } = createTarget(view(0, 0, 1));
+
+        syncViewStateWithUrl(target, { navigationDurationMs: 400 });
+        fake.editHash("view=7,8,2");
+
+        expect(target.setViewState).toHaveBeenCalledWith(
+            { center: { x: 7, y: 8 }, scale: 2 },
+            { durationMs: 400, match: "scale" },
+        );
+        vi.runAllTimers();
+        expect(fake.win.history.replaceState).not.toHaveBeenCalled();
+    });
+
+    it("stop detaches every listener and writes a pending change at once", () => {
+        const fake = createFakeWindow("https://example.com/");
+        vi.stubGlobal("window", fake.win);
+        const { target, move } = createTarget(view(0, 0, 1));
+
+        const stop = syncViewStateWithUrl(target);
+        expect(fake.listenerCount()).toBe(2);
+        move(view(3, 3, 3));
+        stop();
+
+        expect(fake.listenerCount()).toBe(0);
+        expect(fake.win.location.hash).toBe("#view=3,3,3");
+        move(view(4, 4, 4));
+        vi.runAllTimers();
+        expect(fake.win.history.replaceState).toHaveBeenCalledTimes(1);
+    });
+});
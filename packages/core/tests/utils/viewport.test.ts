@@ -1,6 +1,15 @@
 import { describe, expect, it } from "vitest";
 import { DEFAULT_VALUES } from "../../src/constants";
-import { computePan, computeZoom, screenToWorld, snapCenterToGrid, worldToScreen } from "../../src/utils/viewport";
+import {
+    computePan,
+    computeZoom,
+    normalizeDegrees,
+    rotateAround,
+    rotatedHalfExtents,
+    screenToWorld,
+    snapCenterToGrid,
+    worldToScreen,
+} from "../../src/utils/viewport";
 
 describe("snapCenterToGrid", () => {
     it("snaps to the nearest half-integer for even tile counts", () => {
@@ -90,3 +99,30 @@ describe("coordinate conversions", () => {
         expect(world).toEqual({ x: -3, y: 9 });
     });
 });
+
+describe("rotation helpers", () => {
+    it("rotateAround turns clockwise on a y-down screen", () => {
+        const p = rotateAround({ x: 10, y: 0 }, { x: 0, y: 0 }, 90);
+        expect(p.x).toBeCloseTo(0);
+        expect(p.y).toBeCloseTo(10);
+    });
+
+    it("rotateAround returns the point unchanged for 0°", () => {
+        const point = { x: 3, y: 4 };
+        expect(rotateAround(point, { x: 1, y: 1 }, 0)).toBe(point);
+    });
+
+    it("rotatedHalfExtents swaps the axes at a quarter turn", () => {
+        const e = rotatedHalfExtents(40, 30, 90);
+        expect(e.x).toBeCloseTo(30);
+        expect(e.y).toBeCloseTo(40);
+        expect(rotatedHalfExtents(40, 30, 0)).toEqual({ x: 40, y: 30 });
+    });
+
+    it("normalizeDegrees wraps into [0, 360)", () => {
+        expect(normalizeDegrees(-90)).toBe(270);
+        expect(normalizeDegrees(720)).toBe(0);
+        expect(normalizeDegrees(-360)).toBe(0);
+        expect(normalizeDegrees(45)).toBe(45);
+    });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { wheelSource, type WheelInput } from "../../src/utils/wheel";
+
+const wheel = (input: Partial<WheelInput>): WheelInput => ({
+    deltaX: 0,
+    deltaY: 0,
+    deltaMode: 0,
+    ctrlKey: false,
+    ...input,
+});
+
+describe("wheelSource", () => {
+    it("reports Ctrl+wheel as a pinch, even mid-burst", () => {
+        expect(wheelSource(wheel({ deltaY: 3, ctrlKey: true }), 0)).toBe("pinch");
+        expect(wheelSource(wheel({ deltaY: 100, ctrlKey: true }), 10, { source: "wheel", time: 0 })).toBe("pinch");
+    });
+
+    it("reports line and page deltas as a mouse wheel", () => {
+        expect(wheelSource(wheel({ deltaY: 3, deltaMode: 1 }), 0)).toBe("wheel");
+        expect(wheelSource(wheel({ deltaY: 1, deltaMode: 2 }), 0)).toBe("wheel");
+    });
+
+    it("reads the legacy wheelDeltaY when present", () => {
+        // Chromium trackpad: wheelDeltaY is exactly -3 × deltaY
+        expect(wheelSource(wheel({ deltaY: 4, wheelDeltaY: -12 }), 0)).toBe("trackpad");
+        expect(wheelSource(wheel({ deltaY: 2.5, wheelDeltaY: -8 }), 0)).toBe("trackpad");
+        // macOS mouse: small deltas, notch-sized wheelDeltaY
+        expect(wheelSource(wheel({ deltaY: 4.000244140625, wheelDeltaY: -120 }), 0)).toBe("wheel");
+        expect(wheelSource(wheel({ deltaY: 100, wheelDeltaY: -120 }), 0)).toBe("wheel");
+    });
+
+    it("falls back to the horizontal delta and the delta size", () => {
+        expect(wheelSource(wheel({ deltaX: 2, deltaY: 1 }), 0)).toBe("trackpad");
+        expect(wheelSource(wheel({ deltaY: 6 }), 0)).toBe("trackpad");
+        expect(wheelSource(wheel({ deltaY: -100 }), 0)).toBe("wheel");
+    });
+
+    it("keeps a burst's device until the wheel pauses", () => {
+        const burst = { source: "trackpad" as const, time: 1000 };
+        expect(wheelSource(wheel({ deltaY: 120 }), 1100, burst)).toBe("trackpad");
+        expect(wheelSource(wheel({ deltaY: 120 }), 1200, burst)).toBe("wheel");
+    });
+});
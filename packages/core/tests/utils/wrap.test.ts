@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { wrapCoords, wrapCopies } from "../../src/utils/wrap";
+
+describe("wrapCoords", () => {
+    it("moves points into [0, period) on wrapped axes only", () => {
+        expect(wrapCoords({ x: 23.5, y: 23.5 }, { x: 10 })).toEqual({ x: 3.5, y: 23.5 });
+        expect(wrapCoords({ x: -0.5, y: -12 }, { x: 10, y: 5 })).toEqual({ x: 9.5, y: 3 });
+        expect(wrapCoords({ x: 10, y: 0 }, { x: 10 })).toEqual({ x: 0, y: 0 });
+    });
+
+    it("never returns the period itself", () => {
+        expect(wrapCoords({ x: -1e-17, y: 0 }, { x: 10 }).x).toBe(0);
+    });
+
+    it("passes points through without a wrap", () => {
+        expect(wrapCoords({ x: -40, y: 1e6 }, {})).toEqual({ x: -40, y: 1e6 });
+    });
+});
+
+describe("wrapCopies", () => {
+    it("is the world itself without a wrap", () => {
+        expect(wrapCopies({ minX: -100, minY: -100, maxX: 100, maxY: 100 }, {})).toEqual([{ x: 0, y: 0 }]);
+    });
+
+    it("lists each copy the bounds overlap", () => {
+        expect(wrapCopies({ minX: 8, minY: 0, maxX: 12, maxY: 5 }, { x: 10 })).toEqual([
+            { x: 0, y: 0 },
+            { x: 10, y: 0 },
+        ]);
+        expect(wrapCopies({ minX: -25, minY: 0, maxX: -21, maxY: 5 }, { x: 10 })).toEqual([{ x: -30, y: 0 }]);
+    });
+
+    it("crosses both axes", () => {
+        const copies = wrapCopies({ minX: 9, minY: 4, maxX: 11, maxY: 6 }, { x: 10, y: 5 });
+        expect(copies).toEqual([
+            { x: 0, y: 0 },
+            { x: 10, y: 0 },
+            { x: 0, y: 5 },
+            { x: 10, y: 5 },
+        ]);
+    });
+});
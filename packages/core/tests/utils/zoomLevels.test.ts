@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { nearestZoomLevel, nextZoomLevel } from "../../src/utils/zoomLevels";
+
+describe("nearestZoomLevel", () => {
+    it("snaps to the nearest listed level in log space", () => {
+        const levels = [1, 2, 4, 8];
+        expect(nearestZoomLevel(levels, 1.3, 0.1, 100)).toBe(1);
+        // 2.9 is nearer 4 than 2 by ratio (4/2.9 < 2.9/2)
+        expect(nearestZoomLevel(levels, 2.9, 0.1, 100)).toBe(4);
+        expect(nearestZoomLevel(levels, 0.2, 0.1, 100)).toBe(1);
+        expect(nearestZoomLevel(levels, 50, 0.1, 100)).toBe(8);
+    });
+
+    it("follows the integer and power-of-two rules", () => {
+        expect(nearestZoomLevel("integers", 3.4, 0.1, 100)).toBe(3);
+        expect(nearestZoomLevel("integers", 0.3, 0.1, 100)).toBe(1);
+        expect(nearestZoomLevel("powers-of-two", 0.3, 0.1, 100)).toBe(0.25);
+        expect(nearestZoomLevel("powers-of-two", 6, 0.1, 100)).toBe(8);
+    });
+
+    it("ignores levels outside the scale limits", () => {
+        expect(nearestZoomLevel([1, 2, 4, 8], 7, 0.5, 5)).toBe(4);
+        expect(nearestZoomLevel("powers-of-two", 100, 0.5, 5)).toBe(4);
+    });
+
+    it("falls back to the clamped scale when no level is in range", () => {
+        expect(nearestZoomLevel([1, 2], 7, 4, 8)).toBe(7);
+        expect(nearestZoomLevel([1, 2], 12, 4, 8)).toBe(8);
+    });
+});
+
+describe("nextZoomLevel", () => {
+    it("steps one level in either direction", () => {
+        expect(nextZoomLevel([1, 2, 4], 2, 1, 0.1, 100)).toBe(4);
+        expect(nextZoomLevel([1, 2, 4], 2, -1, 0.1, 100)).toBe(1);
+        expect(nextZoomLevel("integers", 3, 1, 0.1, 100)).toBe(4);
+        expect(nextZoomLevel("powers-of-two", 0.5, -1, 0.1, 100)).toBe(0.25);
+    });
+
+    it("steps to the adjacent level from between levels", () => {
+        expect(nextZoomLevel([1, 2, 4], 2.5, 1, 0.1, 100)).toBe(4);
+        expect(nextZoomLevel([1, 2, 4], 2.5, -1, 0.1, 100)).toBe(2);
+    });
+
+    it("treats float noise around a level as on it", () => {
+        expect(nextZoomLevel("integers", 2 - 1e-12, 1, 0.1, 100)).toBe(3);
+        expect(nextZoomLevel("integers", 2 + 1e-12, -1, 0.1, 100)).toBe(1);
+    });
+
+    it("stays put past the last level in range", () => {
+        expect(nextZoomLevel([1, 2, 4, 8], 4, 1, 0.5, 5)).toBe(4);
+        expect(nextZoomLevel([1, 2, 4, 8], 1, -1, 1, 5)).toBe(1);
+        expect(nextZoomLevel("powers-of-two", 5, 1, 0.5, 5)).toBe(5);
+    });
+});
@@ -24,11 +24,13 @@ import {
     Line,
     Text,
     Path,
+    Hex,
     StaticRect,
     StaticCircle,
     StaticImage,
     DrawFunction,
 } from "./draw";
+import { Minimap } from "./Minimap";
 
 // Tap heuristics: a touch that moves less than this (dp) and lasts less than
 // this (ms) is treated as a tap/click.
@@ -59,6 +61,8 @@ const toPointer = (t: TouchData): NormalizedPointer => ({
     y: t.y,
     clientX: t.x,
     clientY: t.y,
+    pointerId: t.id,
+    pointerType: "touch",
 });
 
 // Pointers that remain on screen after this event: on up events some
@@ -117,6 +121,8 @@ function CanvasTileEngineBase({
     children,
     onCoordsChange,
     onClick,
+    onDoubleClick,
+    onLongPress,
     onRightClick,
     onHover,
     onMouseDown,
@@ -126,6 +132,8 @@ function CanvasTileEngineBase({
     onResize,
     onZoom,
     onWheel,
+    onMarqueeChange,
+    onMarqueeEnd,
 }: CanvasTileEngineProps) {
     const [picture, setPicture] = useState<SkPicture | null>(null);
     const [size, setSize] = useState({ width: 0, height: 0 });
@@ -150,6 +158,8 @@ function CanvasTileEngineBase({
     const callbacksRef = useRef({
         onCoordsChange,
         onClick,
+        onDoubleClick,
+        onLongPress,
         onRightClick,
         onHover,
         onMouseDown,
@@ -159,11 +169,15 @@ function CanvasTileEngineBase({
         onResize,
         onZoom,
         onWheel,
+        onMarqueeChange,
+        onMarqueeEnd,
     });
     useEffect(() => {
         callbacksRef.current = {
             onCoordsChange,
             onClick,
+            onDoubleClick,
+            onLongPress,
             onRightClick,
             onHover,
             onMouseDown,
@@ -173,6 +187,8 @@ function CanvasTileEngineBase({
             onResize,
             onZoom,
             onWheel,
+            onMarqueeChange,
+            onMarqueeEnd,
         };
     });
 
@@ -219,6 +235,8 @@ function CanvasTileEngineBase({
     const wireCallbacks = useCallback((instance: CanvasTileEngineCore<SkiaMount, SkImage>) => {
         instance.onCoordsChange = (coords) => callbacksRef.current.onCoordsChange?.(coords);
         instance.onClick = (...args) => callbacksRef.current.onClick?.(...args);
+        instance.onDoubleClick = (...args) => callbacksRef.current.onDoubleClick?.(...args);
+        instance.onLongPress = (...args) => callbacksRef.current.onLongPress?.(...args);
         instance.onRightClick = (...args) => callbacksRef.current.onRightClick?.(...args);
         instance.onHover = (...args) => callbacksRef.current.onHover?.(...args);
         instance.onMouseDown = (...args) => callbacksRef.current.onMouseDown?.(...args);
@@ -228,6 +246,8 @@ function CanvasTileEngineBase({
         instance.onResize = () => callbacksRef.current.onResize?.();
         instance.onZoom = (scale) => callbacksRef.current.onZoom?.(scale);
         instance.onWheel = (...args) => callbacksRef.current.onWheel?.(...args);
+        instance.onMarqueeChange = (...args) => callbacksRef.current.onMarqueeChange?.(...args);
+        instance.onMarqueeEnd = (...args) => callbacksRef.current.onMarqueeEnd?.(...args);
     }, []);
 
     // React Native's reduced-motion signal. Pushed into the engine rather than
@@ -368,7 +388,14 @@ function CanvasTileEngineBase({
             return false;
         }
         const eventHandlers = instance.getConfig().eventHandlers;
-        if (eventHandlers.click || eventHandlers.drag || eventHandlers.zoom || eventHandlers.hover) {
+        if (
+            eventHandlers.click ||
+            eventHandlers.drag ||
+            eventHandlers.zoom ||
+            eventHandlers.hover ||
+            eventHandlers.doubleClick ||
+            eventHandlers.longPress
+        ) {
             return true;
         }
         return Boolean(callbacksRef.current.onMouseDown || callbacksRef.current.onMouseUp);
@@ -570,8 +597,10 @@ export const CanvasTileEngine = Object.assign(CanvasTileEngineBase, {
     Line,
     Text,
     Path,
+    Hex,
     StaticRect,
     StaticCircle,
     StaticImage,
     DrawFunction,
+    Minimap,
 });
@@ -0,0 +1,146 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { ViewStyle } from "react-native";
+import { Gesture, GestureDetector, type GestureTouchEvent } from "react-native-gesture-handler";
+import { Canvas, createPicture, Picture, type SkPicture } from "@shopify/react-native-skia";
+import type { Minimap as MinimapCore, MinimapOptions } from "@canvas-tile-engine/core";
+import { useOptionalEngineContext } from "../context";
+import type { EngineHandle } from "../hooks/useCanvasTileEngine";
+
+export interface MinimapProps extends MinimapOptions {
+    /**
+     * Engine to show. Defaults to the enclosing `<CanvasTileEngine>`; pass it
+     * to render the minimap elsewhere on screen.
+     */
+    engine?: EngineHandle;
+    style?: ViewStyle;
+}
+
+/**
+ * Overview inset: paints the selected layers of an engine downscaled into
+ * its own Skia canvas, outlines the main viewport, and moves the main camera
+ * on tap and drag. Renders nothing, with a console warning, when the
+ * minimap cannot be created or its props are invalid (no `bounds` under
+ * unbounded camera bounds, a bad size).
+ *
+ * `bounds`, `layers` and `viewportStyle` are compared by reference: keep
+ * them stable (module constants or useMemo) so a re-render does not repaint
+ * the minimap.
+ * @example
+ * ```tsx
+ * <CanvasTileEngine engine={engine} config={config} renderer={renderer} style={{ flex: 1 }}>
+ *     <CanvasTileEngine.Rect items={tiles} layer={1} />
+ *     <CanvasTileEngine.Minimap
+ *         size={{ width: 120, height: 90 }}
+ *         layers={MINIMAP_LAYERS}
+ *         style={{ position: "absolute", right: 12, bottom: 12 }}
+ *     />
+ * </CanvasTileEngine>
+ * ```
+ */
+export function Minimap({ engine: engineProp, style, ...options }: MinimapProps) {
+    const context = useOptionalEngineContext();
+    const engine = engineProp ?? context?.engine;
+    if (!engine) {
+        throw new Error("Minimap must be used within a CanvasTileEngine component or be given an engine");
+    }
+
+    const [picture, setPicture] = useState<SkPicture | null>(null);
+    // The engine instance the minimap could not be created or updated for
+    const [failedFor, setFailedFor] = useState<unknown>(null);
+    const minimapRef = useRef<MinimapCore | null>(null);
+    const optionsRef = useRef(options);
+    useEffect(() => {
+        optionsRef.current = options;
+    });
+
+    // Option changes after creation. Declared before the creation effect so
+    // the first commit does not re-apply the options it was created with.
+    // An invalid size, or `bounds` removed under unbounded camera bounds,
+    // makes setOptions throw: the minimap is dropped like a failed creation.
+    const instance = engine.instance;
+    const { size, bounds, layers, backgroundColor, viewportStyle, interactive, durationMs } = options;
+    useEffect(() => {
+        const minimap = minimapRef.current;
+        if (!minimap) {
+            return;
+        }
+        try {
+            minimap.setOptions({
+                size: { width: size.width, height: size.height },
+                bounds,
+                layers,
+                backgroundColor,
+                viewportStyle,
+                interactive,
+                durationMs,
+            });
+        } catch (error) {
+            console.warn("[CanvasTileEngine] Minimap not shown:", error);
+            minimap.destroy();
+            minimapRef.current = null;
+            setFailedFor(instance);
+        }
+    }, [instance, size.width, size.height, bounds, layers, backgroundColor, viewportStyle, interactive, durationMs]);
+
+    useEffect(() => {
+        if (!instance) {
+            return;
+        }
+        let minimap: MinimapCore;
+        try {
+            minimap = instance.createMinimap(optionsRef.current);
+        } catch (error) {
+            // Thrown from an effect it would unmount the whole tree; the
+            // camera is unbounded by default, so a missing `bounds` lands here
+            console.warn("[CanvasTileEngine] Minimap not shown:", error);
+            setFailedFor(instance);
+            return;
+        }
+        minimapRef.current = minimap;
+        const paint = () => {
+            const { width, height } = optionsRef.current.size;
+            setPicture(createPicture((canvas) => minimap.render(canvas), { width, height }));
+        };
+        const unsubscribe = minimap.subscribe(paint);
+        paint();
+        return () => {
+            unsubscribe();
+            minimap.destroy();
+            minimapRef.current = null;
+        };
+    }, [instance]);
+
+    // One finger drives the minimap; further fingers are ignored. Handlers
+    // read the minimap through its ref, so the gesture is built once.
+    const gesture = useMemo(() => {
+        const first = (e: GestureTouchEvent) => e.allTouches[0] ?? e.changedTouches[0];
+        return Gesture.Manual()
+            .runOnJS(true)
+            .onTouchesDown((e) => {
+                const touch = first(e);
+                if (touch && !minimapRef.current?.isDragging()) {
+                    minimapRef.current?.pointerDown(touch.x, touch.y);
+                }
+            })
+            .onTouchesMove((e) => {
+                const touch = first(e);
+                if (touch) {
+                    minimapRef.current?.pointerMove(touch.x, touch.y);
+                }
+            })
+            .onTouchesUp(() => minimapRef.current?.pointerUp())
+            .onTouchesCancelled(() => minimapRef.current?.pointerUp());
+    }, []);
+
+    if (instance && failedFor === instance) {
+        return null;
+    }
+
+    return (
+        <GestureDetector gesture={gesture}>
+            <Canvas style={[{ width: size.width, height: size.height }, style]}>
+                {picture && <Picture picture={picture} />}
+            </Canvas>
+        </GestureDetector>
+    );
+}
@@ -19,6 +19,7 @@ export {
     Line,
     Text,
     Path,
+    Hex,
     StaticRect,
     StaticCircle,
     type RectProps,
@@ -27,6 +28,7 @@ export {
     type LineProps,
     type TextProps,
     type PathProps,
+    type HexProps,
     type StaticRectProps,
     type StaticCircleProps,
 } from "@canvas-tile-engine/react-shared";
@@ -1,4 +1,5 @@
 export { CanvasTileEngine } from "./CanvasTileEngine";
+export { Minimap, type MinimapProps } from "./Minimap";
 
 // Draw components export
 export {
@@ -10,6 +11,7 @@ export {
     Line,
     Text,
     Path,
+    Hex,
     StaticRect,
     StaticCircle,
     StaticImage,
@@ -22,6 +24,7 @@ export {
     type LineProps,
     type TextProps,
     type PathProps,
+    type HexProps,
     type StaticRectProps,
     type StaticCircleProps,
     type StaticImageProps,
@@ -1,6 +1,7 @@
 import {
     EngineContext,
     useEngineContext as useEngineContextBase,
+    useOptionalEngineContext as useOptionalEngineContextBase,
     type EngineContextValue as EngineContextValueBase,
 } from "@canvas-tile-engine/react-shared";
 import type { EngineHandle } from "../hooks/useCanvasTileEngine";
@@ -17,3 +18,8 @@ export type EngineContextValue = EngineContextValueBase<EngineHandle>;
 export function useEngineContext(): EngineContextValue {
     return useEngineContextBase<EngineHandle>();
 }
+
+/** Engine context, or `null` outside a CanvasTileEngine component. */
+export function useOptionalEngineContext(): EngineContextValue | null {
+    return useOptionalEngineContextBase<EngineHandle>();
+}
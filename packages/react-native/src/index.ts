@@ -1,6 +1,9 @@
 // Main component
 export { CanvasTileEngine } from "./components";
 
+// Minimap
+export { Minimap, type MinimapProps } from "./components";
+
 // Draw components
 export {
     type RectProps,
@@ -11,6 +14,7 @@ export {
     type LineProps,
     type TextProps,
     type PathProps,
+    type HexProps,
     type StaticRectProps,
     type StaticCircleProps,
     type StaticImageProps,
@@ -31,12 +35,33 @@ export type {
     DrawObject,
     EventHandlers,
     onClickCallback,
+    onDoubleClickCallback,
+    DoubleClickOptions,
+    onLongPressCallback,
+    LongPressOptions,
+    CursorOptions,
+    PointerInfo,
+    PointerType,
     onRightClickCallback,
     onHoverCallback,
     onMouseDownCallback,
     onMouseUpCallback,
     onMouseLeaveCallback,
     onWheelCallback,
+    onItemEventCallback,
+    ItemEventHandlers,
+    onItemDragCallback,
+    ItemDragHandlers,
+    ItemDragInfo,
+    DraggableOptions,
+    DraggableDrawOptions,
+    onMarqueeCallback,
+    MarqueeBox,
+    MarqueeInfo,
+    MarqueeOperation,
+    MarqueeOptions,
+    MarqueeStyle,
+    ModifierKey,
     onZoomCallback,
     onDrawCallback,
     WheelInfo,
@@ -46,6 +71,7 @@ export type {
     Circle,
     Text,
     PathItem,
+    HexItem,
     PathStyle,
     PathCommand,
     ImageItem,
@@ -78,6 +104,20 @@ export {
     pathCommandsBounds,
     SpriteSheet,
     SpriteAnimator,
+    formatViewState,
+    parseViewState,
+    linkCameras,
+    hexToAxial,
+    axialToHex,
+    hexCenter,
+    hexAt,
+    hexCorners,
+    hexNeighbors,
+    hexDistance,
+    wrapCoords,
+    panTool,
+    paintCellsTool,
+    selectTool,
 } from "@canvas-tile-engine/core";
 export type {
     BoundedItem,
@@ -86,4 +126,28 @@ export type {
     SpriteRect,
     SpriteSheetOptions,
     SpriteAnimation,
+    ViewState,
+    ViewStateInput,
+    SetViewStateOptions,
+    LinkCamerasOptions,
+    CameraLinkMode,
+    MinimapOptions,
+    MinimapViewportStyle,
+    GridLayout,
+    HexLayout,
+    HexDrawOptions,
+    WorldWrap,
+    ScaleRange,
+    HitResult,
+    HitKind,
+    Selection,
+    SelectionChange,
+    SelectionListener,
+    Tool,
+    ToolContext,
+    ToolPointerEvent,
+    ToolWheelEvent,
+    ToolKeyEvent,
+    PaintCellsToolOptions,
+    SelectToolOptions,
 } from "@canvas-tile-engine/core";
@@ -5,12 +5,33 @@ import type {
     DrawObject,
     EventHandlers,
     onClickCallback,
+    onDoubleClickCallback,
+    DoubleClickOptions,
+    onLongPressCallback,
+    LongPressOptions,
+    CursorOptions,
+    PointerInfo,
+    PointerType,
     onRightClickCallback,
     onHoverCallback,
     onMouseDownCallback,
     onMouseUpCallback,
     onMouseLeaveCallback,
     onWheelCallback,
+    onItemEventCallback,
+    ItemEventHandlers,
+    onItemDragCallback,
+    ItemDragHandlers,
+    ItemDragInfo,
+    DraggableOptions,
+    DraggableDrawOptions,
+    onMarqueeCallback,
+    MarqueeBox,
+    MarqueeInfo,
+    MarqueeOperation,
+    MarqueeOptions,
+    MarqueeStyle,
+    ModifierKey,
     onZoomCallback,
     onDrawCallback,
     Rect,
@@ -18,6 +39,7 @@ import type {
     LineStyle,
     Circle,
     PathItem,
+    HexItem,
     PathStyle,
     PathCommand,
     Text,
@@ -45,12 +67,33 @@ export type {
     DrawObject,
     EventHandlers,
     onClickCallback,
+    onDoubleClickCallback,
+    DoubleClickOptions,
+    onLongPressCallback,
+    LongPressOptions,
+    CursorOptions,
+    PointerInfo,
+    PointerType,
     onRightClickCallback,
     onHoverCallback,
     onMouseDownCallback,
     onMouseUpCallback,
     onMouseLeaveCallback,
     onWheelCallback,
+    onItemEventCallback,
+    ItemEventHandlers,
+    onItemDragCallback,
+    ItemDragHandlers,
+    ItemDragInfo,
+    DraggableOptions,
+    DraggableDrawOptions,
+    onMarqueeCallback,
+    MarqueeBox,
+    MarqueeInfo,
+    MarqueeOperation,
+    MarqueeOptions,
+    MarqueeStyle,
+    ModifierKey,
     onZoomCallback,
     onDrawCallback,
     Rect,
@@ -59,6 +102,7 @@ export type {
     Circle,
     Text,
     PathItem,
+    HexItem,
     PathStyle,
     PathCommand,
     ImageItem,
@@ -80,7 +80,9 @@ describe("touch transport (react-native-gesture-handler)", () => {
 
         down(touchEvent([{ id: 0, x: 40, y: 60 }]));
 
-        expect(fake.dispatchTouchStart).toHaveBeenCalledWith([{ x: 40, y: 60, clientX: 40, clientY: 60 }]);
+        expect(fake.dispatchTouchStart).toHaveBeenCalledWith([
+            { x: 40, y: 60, clientX: 40, clientY: 60, pointerId: 0, pointerType: "touch" },
+        ]);
     });
 
     it("reports a tap as touchStart, touchEnd([]) and dispatchTap for the lifted pointer", () => {
@@ -93,8 +95,22 @@ describe("touch transport (react-native-gesture-handler)", () => {
         // touchEnd carries no changed pointer: the engine's own touch-end click
         // path would double-fire alongside dispatchTap below.
         expect(fake.dispatchTouchEnd).toHaveBeenCalledWith([]);
-        expect(fake.dispatchPointerUp).toHaveBeenCalledWith({ x: 42, y: 61, clientX: 42, clientY: 61 });
-        expect(fake.dispatchTap).toHaveBeenCalledWith({ x: 42, y: 61, clientX: 42, clientY: 61 });
+        expect(fake.dispatchPointerUp).toHaveBeenCalledWith({
+            x: 42,
+            y: 61,
+            clientX: 42,
+            clientY: 61,
+            pointerId: 0,
+            pointerType: "touch",
+        });
+        expect(fake.dispatchTap).toHaveBeenCalledWith({
+            x: 42,
+            y: 61,
+            clientX: 42,
+            clientY: 61,
+            pointerId: 0,
+            pointerType: "touch",
+        });
     });
 
     it("does not tap when the finger travelled past the move threshold", () => {
@@ -104,7 +120,9 @@ describe("touch transport (react-native-gesture-handler)", () => {
         move(touchEvent([{ id: 0, x: 80, y: 60 }]));
         up(touchEvent([{ id: 0, x: 80, y: 60 }]));
 
-        expect(fake.dispatchTouchMove).toHaveBeenCalledWith([{ x: 80, y: 60, clientX: 80, clientY: 60 }]);
+        expect(fake.dispatchTouchMove).toHaveBeenCalledWith([
+            { x: 80, y: 60, clientX: 80, clientY: 60, pointerId: 0, pointerType: "touch" },
+        ]);
         expect(fake.dispatchTap).not.toHaveBeenCalled();
         // The lift is still reported so onMouseUp fires.
         expect(fake.dispatchPointerUp).toHaveBeenCalledTimes(1);
@@ -138,7 +156,9 @@ describe("touch transport (react-native-gesture-handler)", () => {
                 [{ id: 0, x: 40, y: 60 }],
             ),
         );
-        expect(fake.dispatchTouchEnd).toHaveBeenCalledWith([{ x: 100, y: 60, clientX: 100, clientY: 60 }]);
+        expect(fake.dispatchTouchEnd).toHaveBeenCalledWith([
+            { x: 100, y: 60, clientX: 100, clientY: 60, pointerId: 1, pointerType: "touch" },
+        ]);
 
         // Final lift: multi-touch disqualifies both the tap and the pointer-up.
         up(touchEvent([{ id: 1, x: 100, y: 60 }]));
@@ -198,4 +218,17 @@ describe("touch transport (react-native-gesture-handler)", () => {
         down(touchEvent([{ id: 0, x: 40, y: 60 }]));
         expect(fake.dispatchTouchStart).toHaveBeenCalledTimes(1);
     });
+
+    it("claims the stream for double-click and long-press alone", () => {
+        for (const eventHandlers of [{ doubleClick: true }, { longPress: true }]) {
+            const { fake } = mountEngine({ ...INERT, eventHandlers: { ...INERT.eventHandlers, ...eventHandlers } });
+
+            expect(blockerGesture().isEnabled).toBe(true);
+            down(touchEvent([{ id: 0, x: 40, y: 60 }]));
+            expect(fake.dispatchTouchStart).toHaveBeenCalledTimes(1);
+
+            cleanup();
+            resetGestureMock();
+        }
+    });
 });
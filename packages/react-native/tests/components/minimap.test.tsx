@@ -0,0 +1,175 @@
+import { useEffect } from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { act, cleanup, render } from "@testing-library/react";
+import type { CanvasTileEngineConfig } from "@canvas-tile-engine/core";
+import { CanvasTileEngine } from "../../src/components/CanvasTileEngine";
+import { useCanvasTileEngine, type EngineHandle } from "../../src/hooks/useCanvasTileEngine";
+import { createFakeRenderer } from "../helpers/fakeRenderer";
+import { emitLayout, resetReactNativeMock } from "../mocks/react-native";
+import { presentedPictures, resetSkiaMock } from "../mocks/react-native-skia";
+import {
+    detectedGestures,
+    resetGestureMock,
+    touchEvent,
+    type ManualGestureMock,
+} from "../mocks/react-native-gesture-handler";
+
+// 30x20 world units on screen once laid out at 300x200, inside a 100x100 world
+const CONFIG: CanvasTileEngineConfig = {
+    scale: 10,
+    size: { width: 0, height: 0 },
+    bounds: { minX: 0, maxX: 100, minY: 0, maxY: 100 },
+};
+const SIZE = { width: 50, height: 50 };
+
+function mountWithMinimap() {
+    const fake = createFakeRenderer();
+    let captured: EngineHandle | null = null;
+
+    function Harness() {
+        const engine = useCanvasTileEngine();
+        captured = engine;
+        return (
+            <CanvasTileEngine engine={engine} config={CONFIG} renderer={fake.renderer}>
+                <CanvasTileEngine.Minimap size={SIZE} />
+            </CanvasTileEngine>
+        );
+    }
+
+    const utils = render(<Harness />);
+    act(() => emitLayout(300, 200));
+    return { fake, engine: () => captured!, ...utils };
+}
+
+/** The minimap's touch transport: the newest bare Manual gesture. */
+const minimapGesture = () =>
+    [...detectedGestures].reverse().find((g) => (g as unknown as ManualGestureMock).kind === "manual") as unknown as
+        | ManualGestureMock
+        | undefined;
+
+afterEach(() => {
+    cleanup();
+    resetReactNativeMock();
+    resetSkiaMock();
+    resetGestureMock();
+    vi.restoreAllMocks();
+});
+
+describe("Minimap (React Native)", () => {
+    it("records a picture through the renderer and re-records after engine renders", () => {
+        const { fake, engine } = mountWithMinimap();
+
+        expect(fake.renderMinimap).toHaveBeenCalledTimes(1);
+        expect(fake.renderMinimap).toHaveBeenLastCalledWith(
+            expect.anything(),
+            expect.objectContaining({ view: expect.objectContaining({ scale: 0.5 }) }),
+        );
+        expect(presentedPictures.length).toBeGreaterThan(0);
+
+        act(() => engine().render());
+        expect(fake.renderMinimap).toHaveBeenCalledTimes(2);
+    });
+
+    it("moves the main camera on tap and drag", () => {
+        const { engine } = mountWithMinimap();
+        const gesture = minimapGesture()!;
+        expect(gesture.jsThread).toBe(true);
+
+        // 0.5 px per world unit: minimap (40, 10) is world (80, 20)
+        act(() => gesture.onTouchesDownHandler!(touchEvent([{ id: 1, x: 40, y: 10 }])));
+        expect(engine().getCenter().x).toBeCloseTo(80);
+        expect(engine().getCenter().y).toBeCloseTo(20);
+
+        act(() => gesture.onTouchesMoveHandler!(touchEvent([{ id: 1, x: 30, y: 20 }])));
+        act(() => gesture.onTouchesUpHandler!(touchEvent([], [{ id: 1, x: 30, y: 20 }])));
+        act(() => gesture.onTouchesMoveHandler!(touchEvent([{ id: 1, x: 0, y: 0 }])));
+        expect(engine().getCenter().x).toBeCloseTo(60);
+        expect(engine().getCenter().y).toBeCloseTo(40);
+    });
+
+    it("detaches from the engine when unmounted", () => {
+        const fake = createFakeRenderer();
+        let captured: EngineHandle | null = null;
+
+        function Harness({ show }: { show: boolean }) {
+            const engine = useCanvasTileEngine();
+            captured = engine;
+            return (
+                <CanvasTileEngine engine={engine} config={CONFIG} renderer={fake.renderer}>
+                    {show && <CanvasTileEngine.Minimap size={SIZE} />}
+                </CanvasTileEngine>
+            );
+        }
+
+        const { rerender } = render(<Harness show />);
+        act(() => emitLayout(300, 200));
+        expect(fake.renderMinimap).toHaveBeenCalledTimes(1);
+
+        rerender(<Harness show={false} />);
+        act(() => captured!.render());
+        expect(fake.renderMinimap).toHaveBeenCalledTimes(1);
+    });
+
+    it("renders nothing and keeps the tree mounted without bounds under an unbounded camera", () => {
+        const fake = createFakeRenderer();
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const unmounted = vi.fn();
+        function Sibling() {
+            useEffect(() => unmounted, []);
+            return null;
+        }
+
+        function Harness() {
+            const engine = useCanvasTileEngine();
+            return (
+                <CanvasTileEngine
+                    engine={engine}
+                    config={{ scale: 10, size: { width: 0, height: 0 } }}
+                    renderer={fake.renderer}
+                >
+                    <CanvasTileEngine.Minimap size={SIZE} />
+                    <Sibling />
+                </CanvasTileEngine>
+            );
+        }
+
+        render(<Harness />);
+        act(() => emitLayout(300, 200));
+        expect(warn).toHaveBeenCalledWith("[CanvasTileEngine] Minimap not shown:", expect.any(Error));
+        expect(fake.renderMinimap).not.toHaveBeenCalled();
+        expect(unmounted).not.toHaveBeenCalled();
+    });
+
+    it("drops the minimap, keeping the tree mounted, when a prop change is invalid", () => {
+        const fake = createFakeRenderer();
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const unmounted = vi.fn();
+        let captured: EngineHandle | null = null;
+        function Sibling() {
+            useEffect(() => unmounted, []);
+            return null;
+        }
+
+        function Harness({ width }: { width: number }) {
+            const engine = useCanvasTileEngine();
+            captured = engine;
+            return (
+                <CanvasTileEngine engine={engine} config={CONFIG} renderer={fake.renderer}>
+                    <CanvasTileEngine.Minimap size={{ width, height: 50 }} />
+                    <Sibling />
+                </CanvasTileEngine>
+            );
+        }
+
+        const { rerender } = render(<Harness width={50} />);
+        act(() => emitLayout(300, 200));
+        expect(fake.renderMinimap).toHaveBeenCalledTimes(1);
+
+        rerender(<Harness width={-1} />);
+        expect(warn).toHaveBeenCalledWith("[CanvasTileEngine] Minimap not shown:", expect.any(Error));
+        expect(unmounted).not.toHaveBeenCalled();
+        // Detached: engine renders no longer repaint it
+        act(() => captured!.render());
+        expect(fake.renderMinimap).toHaveBeenCalledTimes(1);
+    });
+});
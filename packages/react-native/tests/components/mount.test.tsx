@@ -151,7 +151,7 @@ describe("CanvasTileEngine mount component (React Native)", () => {
 
         expect(captured!.instance).toBe(instance);
         // Instant resize (0ms) — a rotation must not animate.
-        expect(fake.resizeWithAnimation).toHaveBeenCalledWith(400, 200, 0, undefined);
+        expect(fake.resizeWithAnimation).toHaveBeenCalledWith(400, 200, 0, undefined, undefined);
         expect(captured!.getSize()).toEqual({ width: 400, height: 200 });
 
         // An identical layout pass is a no-op.
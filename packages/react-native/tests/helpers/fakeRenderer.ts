@@ -38,6 +38,7 @@ export function createFakeRenderer() {
         drawStaticImage: () => makeHandle(),
         removeDrawHandle: () => {},
         clearLayer: () => {},
+        setLayerScaleRange: () => {},
         clearAll: () => {},
         clearStaticCache: () => {},
         destroy: () => {},
@@ -74,6 +75,7 @@ export function createFakeRenderer() {
         },
     );
     const destroy: Mock = vi.fn();
+    const renderMinimap: Mock = vi.fn();
 
     const dispatchTap: Mock = vi.fn();
     const dispatchPointerDown: Mock = vi.fn();
@@ -96,6 +98,7 @@ export function createFakeRenderer() {
         getDrawAPI: () => drawAPI,
         getImageLoader: () => imageLoader,
         setupEvents: () => {},
+        renderMinimap,
         dispatchTap,
         dispatchPointerDown,
         dispatchPointerMove,
@@ -114,6 +117,7 @@ export function createFakeRenderer() {
         resize,
         resizeWithAnimation,
         destroy,
+        renderMinimap,
         dispatchTap,
         dispatchPointerDown,
         dispatchPointerMove,
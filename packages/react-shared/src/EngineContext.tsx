@@ -30,3 +30,13 @@ export function useEngineContext<THandle extends AnyEngineHandle = AnyEngineHand
 
     return context as EngineContextValue<THandle>;
 }
+
+/**
+ * Like {@link useEngineContext}, but returns `null` outside a
+ * CanvasTileEngine component, for components that also accept an engine prop.
+ */
+export function useOptionalEngineContext<
+    THandle extends AnyEngineHandle = AnyEngineHandle,
+>(): EngineContextValue<THandle> | null {
+    return useContext(EngineContext) as EngineContextValue<THandle> | null;
+}
@@ -1,8 +1,8 @@
 import { useEffect, useRef, memo } from "react";
 import { useEngineContext } from "../EngineContext";
-import type { CanvasTileEngineConfig, Coords, DrawTransform } from "@canvas-tile-engine/core";
+import type { CanvasTileEngineConfig, Coords, DrawTransform, ScaleRange } from "@canvas-tile-engine/core";
 
-export interface DrawFunctionProps<TCtx = unknown> {
+export interface DrawFunctionProps<TCtx = unknown> extends ScaleRange {
     /** The draw function to execute, receiving the platform's draw context; `transform.worldToScreen(x, y)` maps world coordinates to canvas pixels. */
     children: (ctx: TCtx, coords: Coords, config: Required<CanvasTileEngineConfig>, transform: DrawTransform) => void;
     layer?: number;
@@ -24,7 +24,13 @@ export interface DrawFunctionProps<TCtx = unknown> {
  * </DrawFunction>
  * ```
  */
-export const DrawFunction = memo(function DrawFunction({ children, layer = 1 }: DrawFunctionProps) {
+export const DrawFunction = memo(function DrawFunction({
+    children,
+    layer = 1,
+    minScale,
+    maxScale,
+    scaleFade,
+}: DrawFunctionProps) {
     const { engine, requestRender } = useEngineContext();
     const fnRef = useRef(children);
 
@@ -40,9 +46,13 @@ export const DrawFunction = memo(function DrawFunction({ children, layer = 1 }:
     });
 
     useEffect(() => {
-        const handle = engine.addDrawFunction((ctx, coords, config, transform) => {
-            fnRef.current(ctx, coords, config, transform);
-        }, layer);
+        const handle = engine.addDrawFunction(
+            (ctx, coords, config, transform) => {
+                fnRef.current(ctx, coords, config, transform);
+            },
+            layer,
+            { minScale, maxScale, scaleFade },
+        );
         requestRender();
 
         return () => {
@@ -53,7 +63,7 @@ export const DrawFunction = memo(function DrawFunction({ children, layer = 1 }:
                 requestRender();
             }
         };
-    }, [engine, layer, requestRender]);
+    }, [engine, layer, minScale, maxScale, scaleFade, requestRender]);
 
     return null;
 });
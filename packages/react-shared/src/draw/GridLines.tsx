@@ -1,7 +1,8 @@
 import { useEffect, memo } from "react";
 import { useEngineContext } from "../EngineContext";
+import type { ScaleRange } from "@canvas-tile-engine/core";
 
-export interface GridLinesProps {
+export interface GridLinesProps extends ScaleRange {
     cellSize: number;
     lineWidth?: number;
     strokeStyle?: string;
@@ -17,11 +18,14 @@ export const GridLines = memo(function GridLines({
     lineWidth = 1,
     strokeStyle = "black",
     layer = 0,
+    minScale,
+    maxScale,
+    scaleFade,
 }: GridLinesProps) {
     const { engine, requestRender } = useEngineContext();
 
     useEffect(() => {
-        const handle = engine.drawGridLines(cellSize, lineWidth, strokeStyle, layer);
+        const handle = engine.drawGridLines(cellSize, lineWidth, strokeStyle, layer, { minScale, maxScale, scaleFade });
         requestRender();
         return () => {
             if (handle) {
@@ -31,7 +35,7 @@ export const GridLines = memo(function GridLines({
                 requestRender();
             }
         };
-    }, [engine, cellSize, lineWidth, strokeStyle, layer, requestRender]);
+    }, [engine, cellSize, lineWidth, strokeStyle, layer, minScale, maxScale, scaleFade, requestRender]);
 
     return null;
 });
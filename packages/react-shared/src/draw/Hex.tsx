@@ -0,0 +1,143 @@
+import { useEffect, useRef, memo } from "react";
+import { useEngineContext } from "../EngineContext";
+import { useItemEvents, type DraggableProps, type ItemEventProps } from "./useItemEvents";
+import type {
+    HexItem,
+    PathDecorationStyle,
+    StyleOf,
+    VisibleOf,
+    InteractiveOf,
+    CursorOf,
+    ScaleRange,
+} from "@canvas-tile-engine/core";
+
+export interface HexProps extends ScaleRange, ItemEventProps, DraggableProps {
+    /**
+     * Items to draw: `HexItem` objects (`{ x, y, size, style, data }`, in
+     * the grid's hex coordinates). Compared by reference: a new array
+     * identity re-registers the draw callback, so keep it stable with
+     * useMemo/useState instead of an inline literal.
+     */
+    items: HexItem | HexItem[];
+    layer?: number;
+    /**
+     * Paint-time decoration: the returned fields overlay the item's own
+     * `style` each frame (`undefined` leaves the item as-is). Unlike `items`,
+     * this prop is read through a ref — its identity may change on every
+     * render at no cost (an inline arrow is fine), and a change only repaints,
+     * never re-registers. Stroke width and corner radius are excluded: they
+     * feed hit-test geometry resolved at registration time.
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    styleOf?: StyleOf<HexItem<any>, PathDecorationStyle>;
+    /**
+     * Selection highlight: overlaid on top of `styleOf` for items whose
+     * `data` is selected in `engine.selection`. Read through a ref like
+     * `styleOf`, so an inline object literal is fine.
+     */
+    selectedStyle?: PathDecorationStyle;
+    /**
+     * Per-item visibility: return `false` to skip an item for the frame — it
+     * is neither painted nor hit-testable. Read through a ref like `styleOf`:
+     * identity changes only repaint, never re-register. Use it to toggle
+     * categories or filter without a new `items` array.
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    visibleOf?: VisibleOf<HexItem<any>>;
+    /**
+     * Per-item hit-test opt-out: return `false` to keep an item out of hit
+     * queries while it stays painted (queries fall through to items below) —
+     * the item-level `hitTest={false}`. Items hidden by `visibleOf` never
+     * hit-test regardless. Read through a ref: identity changes never
+     * re-register.
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    interactiveOf?: InteractiveOf<HexItem<any>>;
+    /**
+     * Per-item hover cursor: return a CSS cursor (`"pointer"`, `"move"`, …)
+     * to show while the item is the topmost hit, or `undefined` for the idle
+     * cursor. Needs `eventHandlers.cursor`. Read through a ref
+     * like `interactiveOf`.
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    cursorOf?: CursorOf<HexItem<any>>;
+    /**
+     * Set to `false` to keep these items out of hit testing — the
+     * `pointer-events: none` of the draw API, for decorative content like
+     * background terrain. Default `true`.
+     */
+    hitTest?: boolean;
+}
+
+/**
+ * Fills and/or outlines hex cells on a hex grid (`grid: { type: "hex" }` in
+ * the config), drawn and hit-tested like closed paths. With `draggable`,
+ * items move from hex to hex and their `x`/`y` follow.
+ */
+export const Hex = memo(function Hex({
+    items,
+    layer = 1,
+    styleOf,
+    selectedStyle,
+    visibleOf,
+    interactiveOf,
+    cursorOf,
+    hitTest,
+    minScale,
+    maxScale,
+    scaleFade,
+    ...events
+}: HexProps) {
+    const { engine, requestRender } = useEngineContext();
+    const itemEvents = useItemEvents(events);
+
+    // Read through refs so callback identity changes never re-register.
+    const styleOfRef = useRef(styleOf);
+    const selectedStyleRef = useRef(selectedStyle);
+    const visibleOfRef = useRef(visibleOf);
+    const interactiveOfRef = useRef(interactiveOf);
+    const cursorOfRef = useRef(cursorOf);
+
+    useEffect(() => {
+        styleOfRef.current = styleOf;
+        selectedStyleRef.current = selectedStyle;
+        visibleOfRef.current = visibleOf;
+        // A new closure may capture new state (e.g. a changed selection set),
+        // so repaint — that is how decoration updates reach the canvas.
+        requestRender();
+    }, [styleOf, selectedStyle, visibleOf, requestRender]);
+
+    // Hit queries read the refs live at query time — no repaint needed.
+    useEffect(() => {
+        interactiveOfRef.current = interactiveOf;
+        cursorOfRef.current = cursorOf;
+    }, [interactiveOf, cursorOf]);
+
+    useEffect(() => {
+        const handle = engine.drawHex(items, layer, {
+            styleOf: (item) => {
+                const style = styleOfRef.current?.(item);
+                return engine.selection?.decorate(item.data, style, selectedStyleRef.current) ?? style;
+            },
+            visibleOf: (item) => visibleOfRef.current?.(item),
+            interactiveOf: (item) => interactiveOfRef.current?.(item),
+            cursorOf: (item) => cursorOfRef.current?.(item),
+            hitTest,
+            minScale,
+            maxScale,
+            scaleFade,
+            ...itemEvents,
+        });
+        requestRender();
+        return () => {
+            if (handle) {
+                engine.removeDrawHandle(handle);
+                // Repaint so the removed items disappear immediately; safe on
+                // full unmount too — the handle no-ops once the engine is gone.
+                requestRender();
+            }
+        };
+    }, [engine, items, layer, hitTest, minScale, maxScale, scaleFade, itemEvents, requestRender]);
+
+    return null;
+});
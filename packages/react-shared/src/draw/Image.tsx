@@ -1,8 +1,9 @@
 import { useEffect, useRef, memo } from "react";
 import { useEngineContext } from "../EngineContext";
-import type { ImageItem, VisibleOf, InteractiveOf } from "@canvas-tile-engine/core";
+import { useItemEvents, type DraggableProps, type ItemEventProps } from "./useItemEvents";
+import type { ImageItem, VisibleOf, InteractiveOf, CursorOf, ScaleRange } from "@canvas-tile-engine/core";
 
-export interface ImageProps<TImage = unknown> {
+export interface ImageProps<TImage = unknown> extends ScaleRange, ItemEventProps, DraggableProps {
     /**
      * Items to draw. Compared by reference: a new array identity re-registers
      * the draw callback (and rebuilds the spatial index for 500+ items), so
@@ -27,6 +28,14 @@ export interface ImageProps<TImage = unknown> {
      */
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     interactiveOf?: InteractiveOf<ImageItem<any, any>>;
+    /**
+     * Per-item hover cursor: return a CSS cursor (`"pointer"`, `"move"`, …)
+     * to show while the item is the topmost hit, or `undefined` for the idle
+     * cursor. Needs `eventHandlers.cursor`. Read through a ref
+     * like `interactiveOf`.
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    cursorOf?: CursorOf<ImageItem<any, any>>;
     /**
      * Set to `false` to keep these items out of hit testing — the
      * `pointer-events: none` of the draw API, for decorative content like
@@ -38,12 +47,25 @@ export interface ImageProps<TImage = unknown> {
 /**
  * Draws images on the canvas.
  */
-export const Image = memo(function Image({ items, layer = 1, visibleOf, interactiveOf, hitTest }: ImageProps) {
+export const Image = memo(function Image({
+    items,
+    layer = 1,
+    visibleOf,
+    interactiveOf,
+    cursorOf,
+    hitTest,
+    minScale,
+    maxScale,
+    scaleFade,
+    ...events
+}: ImageProps) {
     const { engine, requestRender } = useEngineContext();
+    const itemEvents = useItemEvents(events);
 
     // Read through refs so callback identity changes never re-register.
     const visibleOfRef = useRef(visibleOf);
     const interactiveOfRef = useRef(interactiveOf);
+    const cursorOfRef = useRef(cursorOf);
 
     useEffect(() => {
         visibleOfRef.current = visibleOf;
@@ -52,16 +74,22 @@ export const Image = memo(function Image({ items, layer = 1, visibleOf, interact
         requestRender();
     }, [visibleOf, requestRender]);
 
-    // Hit queries read the ref live at query time — no repaint needed.
+    // Hit queries read the refs live at query time — no repaint needed.
     useEffect(() => {
         interactiveOfRef.current = interactiveOf;
-    }, [interactiveOf]);
+        cursorOfRef.current = cursorOf;
+    }, [interactiveOf, cursorOf]);
 
     useEffect(() => {
         const handle = engine.drawImage(items, layer, {
             visibleOf: (item) => visibleOfRef.current?.(item),
             interactiveOf: (item) => interactiveOfRef.current?.(item),
+            cursorOf: (item) => cursorOfRef.current?.(item),
             hitTest,
+            minScale,
+            maxScale,
+            scaleFade,
+            ...itemEvents,
         });
         requestRender();
         return () => {
@@ -72,7 +100,7 @@ export const Image = memo(function Image({ items, layer = 1, visibleOf, interact
                 requestRender();
             }
         };
-    }, [engine, items, layer, hitTest, requestRender]);
+    }, [engine, items, layer, hitTest, minScale, maxScale, scaleFade, itemEvents, requestRender]);
 
     return null;
 });
@@ -1,8 +1,17 @@
 import { useEffect, useRef, memo } from "react";
 import { useEngineContext } from "../EngineContext";
-import type { PathItem, PathDecorationStyle, StyleOf, VisibleOf, InteractiveOf } from "@canvas-tile-engine/core";
+import { useItemEvents, type DraggableProps, type ItemEventProps } from "./useItemEvents";
+import type {
+    PathItem,
+    PathDecorationStyle,
+    StyleOf,
+    VisibleOf,
+    InteractiveOf,
+    CursorOf,
+    ScaleRange,
+} from "@canvas-tile-engine/core";
 
-export interface PathProps {
+export interface PathProps extends ScaleRange, ItemEventProps, DraggableProps {
     /**
      * Items to draw: `PathItem` objects (`{ points, closed, fillRule, style,
      * data }`). Compared by reference: a new array identity re-registers the
@@ -21,6 +30,12 @@ export interface PathProps {
      */
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     styleOf?: StyleOf<PathItem<any>, PathDecorationStyle>;
+    /**
+     * Selection highlight: overlaid on top of `styleOf` for items whose
+     * `data` is selected in `engine.selection`. Read through a ref like
+     * `styleOf`, so an inline object literal is fine.
+     */
+    selectedStyle?: PathDecorationStyle;
     /**
      * Per-item visibility: return `false` to skip an item for the frame — it
      * is neither painted nor hit-testable. Read through a ref like `styleOf`:
@@ -38,6 +53,14 @@ export interface PathProps {
      */
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     interactiveOf?: InteractiveOf<PathItem<any>>;
+    /**
+     * Per-item hover cursor: return a CSS cursor (`"pointer"`, `"move"`, …)
+     * to show while the item is the topmost hit, or `undefined` for the idle
+     * cursor. Needs `eventHandlers.cursor`. Read through a ref
+     * like `interactiveOf`.
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    cursorOf?: CursorOf<PathItem<any>>;
     /**
      * Set to `false` to keep these items out of hit testing — the
      * `pointer-events: none` of the draw API, for decorative content like
@@ -50,33 +73,59 @@ export interface PathProps {
  * Draws free-form paths: open or closed polylines, filled shapes with a fill
  * rule, per-item stroke/dash/corner styling, and hit-testable geometry.
  */
-export const Path = memo(function Path({ items, layer = 1, styleOf, visibleOf, interactiveOf, hitTest }: PathProps) {
+export const Path = memo(function Path({
+    items,
+    layer = 1,
+    styleOf,
+    selectedStyle,
+    visibleOf,
+    interactiveOf,
+    cursorOf,
+    hitTest,
+    minScale,
+    maxScale,
+    scaleFade,
+    ...events
+}: PathProps) {
     const { engine, requestRender } = useEngineContext();
+    const itemEvents = useItemEvents(events);
 
     // Read through refs so callback identity changes never re-register.
     const styleOfRef = useRef(styleOf);
+    const selectedStyleRef = useRef(selectedStyle);
     const visibleOfRef = useRef(visibleOf);
     const interactiveOfRef = useRef(interactiveOf);
+    const cursorOfRef = useRef(cursorOf);
 
     useEffect(() => {
         styleOfRef.current = styleOf;
+        selectedStyleRef.current = selectedStyle;
         visibleOfRef.current = visibleOf;
         // A new closure may capture new state (e.g. a changed selection set),
         // so repaint — that is how decoration updates reach the canvas.
         requestRender();
-    }, [styleOf, visibleOf, requestRender]);
+    }, [styleOf, selectedStyle, visibleOf, requestRender]);
 
-    // Hit queries read the ref live at query time — no repaint needed.
+    // Hit queries read the refs live at query time — no repaint needed.
     useEffect(() => {
         interactiveOfRef.current = interactiveOf;
-    }, [interactiveOf]);
+        cursorOfRef.current = cursorOf;
+    }, [interactiveOf, cursorOf]);
 
     useEffect(() => {
         const handle = engine.drawPath(items, layer, {
-            styleOf: (item) => styleOfRef.current?.(item),
+            styleOf: (item) => {
+                const style = styleOfRef.current?.(item);
+                return engine.selection?.decorate(item.data, style, selectedStyleRef.current) ?? style;
+            },
             visibleOf: (item) => visibleOfRef.current?.(item),
             interactiveOf: (item) => interactiveOfRef.current?.(item),
+            cursorOf: (item) => cursorOfRef.current?.(item),
             hitTest,
+            minScale,
+            maxScale,
+            scaleFade,
+            ...itemEvents,
         });
         requestRender();
         return () => {
@@ -87,7 +136,7 @@ export const Path = memo(function Path({ items, layer = 1, styleOf, visibleOf, i
                 requestRender();
             }
         };
-    }, [engine, items, layer, hitTest, requestRender]);
+    }, [engine, items, layer, hitTest, minScale, maxScale, scaleFade, itemEvents, requestRender]);
 
     return null;
 });
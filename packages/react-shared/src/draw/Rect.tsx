@@ -1,14 +1,17 @@
 import { useEffect, useRef, memo } from "react";
 import { useEngineContext } from "../EngineContext";
+import { useItemEvents, type DraggableProps, type ItemEventProps } from "./useItemEvents";
 import type {
     Rect as RectType,
     ShapeDecorationStyle,
     StyleOf,
     VisibleOf,
     InteractiveOf,
+    CursorOf,
+    ScaleRange,
 } from "@canvas-tile-engine/core";
 
-export interface RectProps {
+export interface RectProps extends ScaleRange, ItemEventProps, DraggableProps {
     /**
      * Items to draw. Compared by reference: a new array identity re-registers
      * the draw callback (and rebuilds the spatial index for 500+ items), so
@@ -26,6 +29,12 @@ export interface RectProps {
      */
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     styleOf?: StyleOf<RectType<any>, ShapeDecorationStyle>;
+    /**
+     * Selection highlight: overlaid on top of `styleOf` for items whose
+     * `data` is selected in `engine.selection`. Read through a ref like
+     * `styleOf`, so an inline object literal is fine.
+     */
+    selectedStyle?: ShapeDecorationStyle;
     /**
      * Per-item visibility: return `false` to skip an item for the frame — it
      * is neither painted nor hit-testable. Read through a ref like `styleOf`:
@@ -44,6 +53,14 @@ export interface RectProps {
      */
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     interactiveOf?: InteractiveOf<RectType<any>>;
+    /**
+     * Per-item hover cursor: return a CSS cursor (`"pointer"`, `"move"`, …)
+     * to show while the item is the topmost hit, or `undefined` for the idle
+     * cursor. Needs `eventHandlers.cursor`. Read through a ref
+     * like `interactiveOf`.
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    cursorOf?: CursorOf<RectType<any>>;
     /**
      * Set to `false` to keep these items out of hit testing — the
      * `pointer-events: none` of the draw API, for decorative content like
@@ -55,33 +72,59 @@ export interface RectProps {
 /**
  * Draws rectangles on the canvas.
  */
-export const Rect = memo(function Rect({ items, layer = 1, styleOf, visibleOf, interactiveOf, hitTest }: RectProps) {
+export const Rect = memo(function Rect({
+    items,
+    layer = 1,
+    styleOf,
+    selectedStyle,
+    visibleOf,
+    interactiveOf,
+    cursorOf,
+    hitTest,
+    minScale,
+    maxScale,
+    scaleFade,
+    ...events
+}: RectProps) {
     const { engine, requestRender } = useEngineContext();
+    const itemEvents = useItemEvents(events);
 
     // Read through refs so callback identity changes never re-register.
     const styleOfRef = useRef(styleOf);
+    const selectedStyleRef = useRef(selectedStyle);
     const visibleOfRef = useRef(visibleOf);
     const interactiveOfRef = useRef(interactiveOf);
+    const cursorOfRef = useRef(cursorOf);
 
     useEffect(() => {
         styleOfRef.current = styleOf;
+        selectedStyleRef.current = selectedStyle;
         visibleOfRef.current = visibleOf;
         // A new closure may capture new state (e.g. a changed selection set),
         // so repaint — that is how decoration updates reach the canvas.
         requestRender();
-    }, [styleOf, visibleOf, requestRender]);
+    }, [styleOf, selectedStyle, visibleOf, requestRender]);
 
-    // Hit queries read the ref live at query time — no repaint needed.
+    // Hit queries read the refs live at query time — no repaint needed.
     useEffect(() => {
         interactiveOfRef.current = interactiveOf;
-    }, [interactiveOf]);
+        cursorOfRef.current = cursorOf;
+    }, [interactiveOf, cursorOf]);
 
     useEffect(() => {
         const handle = engine.drawRect(items, layer, {
-            styleOf: (item) => styleOfRef.current?.(item),
+            styleOf: (item) => {
+                const style = styleOfRef.current?.(item);
+                return engine.selection?.decorate(item.data, style, selectedStyleRef.current) ?? style;
+            },
             visibleOf: (item) => visibleOfRef.current?.(item),
             interactiveOf: (item) => interactiveOfRef.current?.(item),
+            cursorOf: (item) => cursorOfRef.current?.(item),
             hitTest,
+            minScale,
+            maxScale,
+            scaleFade,
+            ...itemEvents,
         });
         requestRender();
         return () => {
@@ -92,7 +135,7 @@ export const Rect = memo(function Rect({ items, layer = 1, styleOf, visibleOf, i
                 requestRender();
             }
         };
-    }, [engine, items, layer, hitTest, requestRender]);
+    }, [engine, items, layer, hitTest, minScale, maxScale, scaleFade, itemEvents, requestRender]);
 
     return null;
 });
@@ -1,9 +1,10 @@
 import { useEffect, useMemo, useRef, memo } from "react";
 import { useEngineContext } from "../EngineContext";
+import { useItemEvents, type DraggableProps, type ItemEventProps } from "./useItemEvents";
 import { SpriteAnimator } from "@canvas-tile-engine/core";
-import type { ImageItem, SpriteRect } from "@canvas-tile-engine/core";
+import type { ImageItem, ScaleRange, SpriteRect } from "@canvas-tile-engine/core";
 
-export interface SpriteProps<TImage = unknown> {
+export interface SpriteProps<TImage = unknown> extends ScaleRange, ItemEventProps, DraggableProps {
     /**
      * Items to draw. All items of one Sprite share the same animation and flip
      * frames in sync. Compared by reference: keep the array stable with
@@ -51,8 +52,13 @@ export const Sprite = memo(function Sprite({
     layer = 1,
     onComplete,
     hitTest,
+    minScale,
+    maxScale,
+    scaleFade,
+    ...events
 }: SpriteProps) {
     const { engine, requestRender } = useEngineContext();
+    const itemEvents = useItemEvents(events);
 
     // Clone so the animation owns the drawn items' `sprite` field without
     // mutating caller-owned objects.
@@ -65,7 +71,7 @@ export const Sprite = memo(function Sprite({
     onCompleteRef.current = onComplete;
 
     useEffect(() => {
-        const handle = engine.drawImage(drawnItems, layer, { hitTest });
+        const handle = engine.drawImage(drawnItems, layer, { hitTest, minScale, maxScale, scaleFade, ...itemEvents });
         requestRender();
         return () => {
             if (handle) {
@@ -75,7 +81,7 @@ export const Sprite = memo(function Sprite({
                 requestRender();
             }
         };
-    }, [engine, drawnItems, layer, hitTest, requestRender]);
+    }, [engine, drawnItems, layer, hitTest, minScale, maxScale, scaleFade, itemEvents, requestRender]);
 
     useEffect(() => {
         if (!playing || frames.length === 0) {
@@ -1,8 +1,8 @@
 import { useEffect, useRef, memo } from "react";
 import { useEngineContext } from "../EngineContext";
-import type { Text as TextType, TextDecorationStyle, StyleOf, VisibleOf } from "@canvas-tile-engine/core";
+import type { Text as TextType, TextDecorationStyle, StyleOf, VisibleOf, ScaleRange } from "@canvas-tile-engine/core";
 
-export interface TextProps {
+export interface TextProps extends ScaleRange {
     /**
      * Items to draw. Compared by reference: a new array identity re-registers
      * the draw callback (and rebuilds the spatial index for 500+ items), so
@@ -20,6 +20,12 @@ export interface TextProps {
      */
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     styleOf?: StyleOf<TextType<any>, TextDecorationStyle>;
+    /**
+     * Selection highlight: overlaid on top of `styleOf` for items whose
+     * `data` is selected in `engine.selection`. Read through a ref like
+     * `styleOf`, so an inline object literal is fine.
+     */
+    selectedStyle?: TextDecorationStyle;
     /**
      * Per-item visibility: return `false` to skip an item for the frame.
      * Read through a ref like `styleOf`: identity changes only repaint,
@@ -45,25 +51,42 @@ export interface TextProps {
  * />
  * ```
  */
-export const Text = memo(function Text({ items, layer = 2, styleOf, visibleOf }: TextProps) {
+export const Text = memo(function Text({
+    items,
+    layer = 2,
+    styleOf,
+    selectedStyle,
+    visibleOf,
+    minScale,
+    maxScale,
+    scaleFade,
+}: TextProps) {
     const { engine, requestRender } = useEngineContext();
 
     // Read through refs so callback identity changes never re-register.
     const styleOfRef = useRef(styleOf);
+    const selectedStyleRef = useRef(selectedStyle);
     const visibleOfRef = useRef(visibleOf);
 
     useEffect(() => {
         styleOfRef.current = styleOf;
+        selectedStyleRef.current = selectedStyle;
         visibleOfRef.current = visibleOf;
         // A new closure may capture new state (e.g. a changed selection set),
         // so repaint — that is how decoration updates reach the canvas.
         requestRender();
-    }, [styleOf, visibleOf, requestRender]);
+    }, [styleOf, selectedStyle, visibleOf, requestRender]);
 
     useEffect(() => {
         const handle = engine.drawText(items, layer, {
-            styleOf: (item) => styleOfRef.current?.(item),
+            styleOf: (item) => {
+                const style = styleOfRef.current?.(item);
+                return engine.selection?.decorate(item.data, style, selectedStyleRef.current) ?? style;
+            },
             visibleOf: (item) => visibleOfRef.current?.(item),
+            minScale,
+            maxScale,
+            scaleFade,
         });
         requestRender();
         return () => {
@@ -74,7 +97,7 @@ export const Text = memo(function Text({ items, layer = 2, styleOf, visibleOf }:
                 requestRender();
             }
         };
-    }, [engine, items, layer, requestRender]);
+    }, [engine, items, layer, minScale, maxScale, scaleFade, requestRender]);
 
     return null;
 });
@@ -0,0 +1,70 @@
+import { useMemo, useRef } from "react";
+import type { Coords, DraggableDrawOptions, ItemEventHandlers } from "@canvas-tile-engine/core";
+
+const ITEM_EVENTS = [
+    "onItemClick",
+    "onItemRightClick",
+    "onItemEnter",
+    "onItemLeave",
+    "onItemDown",
+    "onItemUp",
+    "onItemDragStart",
+    "onItemDragMove",
+    "onItemDragEnd",
+] as const;
+
+/**
+ * Item event props of the draw components: `onItemClick`, `onItemRightClick`,
+ * `onItemEnter`, `onItemLeave`, `onItemDown` and `onItemUp`, for this
+ * component's items only. See `ItemEventHandlers`.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ItemEventProps = ItemEventHandlers<any, any>;
+
+/**
+ * Drag props of the draw components whose items can be dragged: `draggable`
+ * and the `onItemDrag*` lifecycle. See `DraggableDrawOptions`.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type DraggableProps = DraggableDrawOptions<any, any>;
+
+type ItemEventOptions = ItemEventProps & DraggableProps;
+
+/**
+ * Item event and drag props as draw options. Handlers and a `snap` function
+ * are read through a ref, so identity changes never re-register; the
+ * returned object only changes when a handler is added or removed or the
+ * drag settings change. `undefined` when nothing is set, so the registration
+ * costs pointer events nothing.
+ */
+export function useItemEvents(props: ItemEventOptions): ItemEventOptions | undefined {
+    const propsRef = useRef(props);
+    propsRef.current = props;
+
+    const present = ITEM_EVENTS.filter((event) => props[event] !== undefined).join(",");
+    const settings = typeof props.draggable === "object" ? props.draggable : {};
+    const snap = typeof settings.snap === "function" ? "function" : settings.snap;
+    const ghost = settings.ghost;
+    const draggable = Boolean(props.draggable);
+
+    return useMemo(() => {
+        if (!present && !draggable) {
+            return undefined;
+        }
+        const options: ItemEventOptions = {};
+        for (const event of present ? (present.split(",") as Array<(typeof ITEM_EVENTS)[number]>) : []) {
+            options[event] = (...args: unknown[]) =>
+                (propsRef.current[event] as ((...args: unknown[]) => void) | undefined)?.(...args);
+        }
+        if (draggable) {
+            options.draggable = { ghost, snap: snap === "function" ? (position) => snapLatest(position) : snap };
+        }
+        return options;
+
+        function snapLatest(position: Coords): Coords {
+            const latest = propsRef.current.draggable;
+            const fn = typeof latest === "object" ? latest.snap : undefined;
+            return typeof fn === "function" ? fn(position) : position;
+        }
+    }, [present, draggable, snap, ghost]);
+}
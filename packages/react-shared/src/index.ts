@@ -1,5 +1,11 @@
 export { useEngineHandle, type EngineHandleBase } from "./useEngineHandle";
-export { EngineContext, useEngineContext, type EngineContextValue, type AnyEngineHandle } from "./EngineContext";
+export {
+    EngineContext,
+    useEngineContext,
+    useOptionalEngineContext,
+    type EngineContextValue,
+    type AnyEngineHandle,
+} from "./EngineContext";
 export type { CanvasTileEngineBaseProps } from "./types";
 export {
     Rect,
@@ -10,6 +16,7 @@ export {
     Line,
     Text,
     Path,
+    Hex,
     StaticRect,
     StaticCircle,
     StaticImage,
@@ -22,6 +29,7 @@ export {
     type LineProps,
     type TextProps,
     type PathProps,
+    type HexProps,
     type StaticRectProps,
     type StaticCircleProps,
     type StaticImageProps,
@@ -3,12 +3,15 @@ import type {
     CanvasTileEngineConfig,
     Coords,
     onClickCallback,
+    onDoubleClickCallback,
+    onLongPressCallback,
     onRightClickCallback,
     onHoverCallback,
     onMouseDownCallback,
     onMouseUpCallback,
     onMouseLeaveCallback,
     onWheelCallback,
+    onMarqueeCallback,
     onZoomCallback,
     onDrawCallback,
 } from "@canvas-tile-engine/core";
@@ -55,6 +58,7 @@ export interface CanvasTileEngineBaseProps<THandle> {
      * @param coords - World coordinates: `raw` (exact), `snapped` (floored to tile)
      * @param mouse - Canvas-relative position: `raw` (exact), `snapped` (tile-aligned)
      * @param client - Viewport position: `raw` (exact), `snapped` (tile-aligned)
+     * @param pointer - Device: `pointerType`, `pressure`, `tiltX`/`tiltY`, `pointerId` and modifier keys
      * @example
      * ```tsx
      * onClick={(coords) => {
@@ -65,10 +69,43 @@ export interface CanvasTileEngineBaseProps<THandle> {
     onClick?: onClickCallback;
 
     /**
-     * Callback when a tile is right-clicked (or long-pressed on touch).
+     * Callback on the second click of a double-click or tap of a double-tap,
+     * after its `onClick`. Requires `eventHandlers.doubleClick`.
      * @param coords - World coordinates: `raw` (exact), `snapped` (floored to tile)
      * @param mouse - Canvas-relative position: `raw` (exact), `snapped` (tile-aligned)
      * @param client - Viewport position: `raw` (exact), `snapped` (tile-aligned)
+     * @param pointer - Device: `pointerType`, `pressure`, `tiltX`/`tiltY`, `pointerId` and modifier keys
+     * @example
+     * ```tsx
+     * onDoubleClick={(coords) => {
+     *     openTileEditor(coords.snapped.x, coords.snapped.y);
+     * }}
+     * ```
+     */
+    onDoubleClick?: onDoubleClickCallback;
+
+    /**
+     * Callback when a press is held still (mouse or touch); its release fires
+     * no `onClick`. Requires `eventHandlers.longPress`.
+     * @param coords - World coordinates: `raw` (exact), `snapped` (floored to tile)
+     * @param mouse - Canvas-relative position: `raw` (exact), `snapped` (tile-aligned)
+     * @param client - Viewport position: `raw` (exact), `snapped` (tile-aligned)
+     * @param pointer - Device: `pointerType`, `pressure`, `tiltX`/`tiltY`, `pointerId` and modifier keys
+     * @example
+     * ```tsx
+     * onLongPress={(coords) => {
+     *     showContextMenu(coords.snapped.x, coords.snapped.y);
+     * }}
+     * ```
+     */
+    onLongPress?: onLongPressCallback;
+
+    /**
+     * Callback when a tile is right-clicked. On touch, use `onLongPress`.
+     * @param coords - World coordinates: `raw` (exact), `snapped` (floored to tile)
+     * @param mouse - Canvas-relative position: `raw` (exact), `snapped` (tile-aligned)
+     * @param client - Viewport position: `raw` (exact), `snapped` (tile-aligned)
+     * @param pointer - Device: `pointerType`, `pressure`, `tiltX`/`tiltY`, `pointerId` and modifier keys
      * @example
      * ```tsx
      * onRightClick={(coords) => {
@@ -83,6 +120,7 @@ export interface CanvasTileEngineBaseProps<THandle> {
      * @param coords - World coordinates: `raw` (exact), `snapped` (floored to tile)
      * @param mouse - Canvas-relative position: `raw` (exact), `snapped` (tile-aligned)
      * @param client - Viewport position: `raw` (exact), `snapped` (tile-aligned)
+     * @param pointer - Device: `pointerType`, `pressure`, `tiltX`/`tiltY`, `pointerId` and modifier keys
      * @example
      * ```tsx
      * onHover={(coords) => {
@@ -97,6 +135,7 @@ export interface CanvasTileEngineBaseProps<THandle> {
      * @param coords - World coordinates: `raw` (exact), `snapped` (floored to tile)
      * @param mouse - Canvas-relative position: `raw` (exact), `snapped` (tile-aligned)
      * @param client - Viewport position: `raw` (exact), `snapped` (tile-aligned)
+     * @param pointer - Device: `pointerType`, `pressure`, `tiltX`/`tiltY`, `pointerId` and modifier keys
      * @example
      * ```tsx
      * onMouseDown={(coords) => {
@@ -111,6 +150,7 @@ export interface CanvasTileEngineBaseProps<THandle> {
      * @param coords - World coordinates: `raw` (exact), `snapped` (floored to tile)
      * @param mouse - Canvas-relative position: `raw` (exact), `snapped` (tile-aligned)
      * @param client - Viewport position: `raw` (exact), `snapped` (tile-aligned)
+     * @param pointer - Device: `pointerType`, `pressure`, `tiltX`/`tiltY`, `pointerId` and modifier keys
      * @example
      * ```tsx
      * onMouseUp={() => {
@@ -125,6 +165,7 @@ export interface CanvasTileEngineBaseProps<THandle> {
      * @param coords - World coordinates: `raw` (exact), `snapped` (floored to tile)
      * @param mouse - Canvas-relative position: `raw` (exact), `snapped` (tile-aligned)
      * @param client - Viewport position: `raw` (exact), `snapped` (tile-aligned)
+     * @param pointer - Device: `pointerType`, `pressure`, `tiltX`/`tiltY`, `pointerId` and modifier keys
      * @example
      * ```tsx
      * onMouseLeave={() => {
@@ -176,4 +217,24 @@ export interface CanvasTileEngineBaseProps<THandle> {
      * ```
      */
     onWheel?: onWheelCallback;
+
+    /**
+     * Callback on every pointer move of a marquee selection. Requires
+     * `eventHandlers.marquee`.
+     * @param hits - Items the box covers so far
+     * @param marquee - The box `bounds` and the `operation` the modifier keys ask for
+     */
+    onMarqueeChange?: onMarqueeCallback;
+
+    /**
+     * Callback when a marquee selection is released, with the items it
+     * selects; `hits` is empty when `marquee.cancelled`.
+     * @example
+     * ```tsx
+     * onMarqueeEnd={(hits, { operation, cancelled }) => {
+     *     if (!cancelled) applySelection(hits.map((hit) => hit.data), operation);
+     * }}
+     * ```
+     */
+    onMarqueeEnd?: onMarqueeCallback;
 }
@@ -1,6 +1,7 @@
 import { useRef, useState } from "react";
 import { normalizeConfig } from "@canvas-tile-engine/core";
 import type {
+    AnimateOptions,
     CanvasTileEngine as CanvasTileEngineCore,
     CanvasTileEngineConfig,
     Coords,
@@ -8,7 +9,10 @@ import type {
     EventHandlers,
     FitBoundsOptions,
     FitBoundsResult,
+    FlyToOptions,
+    FollowOptions,
     DrawHandle,
+    DrawOptions,
     HitResult,
     HitTestOptions,
     HitTestRectOptions,
@@ -20,14 +24,22 @@ import type {
     LineStyle,
     DrawTransform,
     PathItem,
+    HexItem,
     RectDrawOptions,
     CircleDrawOptions,
     TextDrawOptions,
     LineDrawOptions,
     PathDrawOptions,
+    HexDrawOptions,
     ImageDrawOptions,
     StaticDrawOptions,
+    ScaleRange,
     ReducedMotionSetting,
+    SetViewStateOptions,
+    Tool,
+    ViewState,
+    ViewStateInput,
+    ZoomLevels,
 } from "@canvas-tile-engine/core";
 
 /** Dummy handle returned when engine is not ready */
@@ -105,7 +117,34 @@ export interface EngineHandleBase<TMount, TImage, TCtx> {
     setCenter(center: Coords): void;
 
     /** Animate the view center to target coordinates */
-    goCenter(x: number, y: number, durationMs?: number, onComplete?: () => void): void;
+    goCenter(x: number, y: number, durationMs?: number | AnimateOptions, onComplete?: () => void): void;
+
+    /** Fly to a center and scale along a zoom-out/zoom-in path; user gestures cancel it */
+    flyTo(options: FlyToOptions): void;
+
+    /**
+     * Keep the camera on a moving target every frame until `unfollow()`.
+     * A no-op before mount: call it once `isReady`.
+     */
+    follow(getTarget: () => Coords | null | undefined, options?: FollowOptions): void;
+
+    /** Stop following, leaving the camera where it is */
+    unfollow(): void;
+
+    /** Whether a follow is active (`false` before mount) */
+    isFollowing(): boolean;
+
+    /** Serializable snapshot of the view: center, scale, rotation and viewport size */
+    getViewState(): ViewState;
+
+    /** Restore a view from `getViewState()`; instant unless `durationMs` is given */
+    setViewState(state: ViewStateInput, options?: SetViewStateOptions): void;
+
+    /**
+     * Listen for view changes; returns an unsubscribe function.
+     * A no-op before mount: call it once `isReady`.
+     */
+    subscribeViewState(listener: (state: ViewState) => void): () => void;
 
     /** Get current canvas size */
     getSize(): { width: number; height: number };
@@ -117,7 +156,7 @@ export interface EngineHandleBase<TMount, TImage, TCtx> {
     setScale(newScale: number): void;
 
     /** Animate the canvas scale to a target value, clamped to min/max bounds */
-    goScale(targetScale: number, durationMs?: number, onComplete?: () => void): void;
+    goScale(targetScale: number, durationMs?: number | AnimateOptions, onComplete?: () => void): void;
 
     /** Zoom in by a factor (default: 1.5) */
     zoomIn(factor?: number): void;
@@ -128,6 +167,18 @@ export interface EngineHandleBase<TMount, TImage, TCtx> {
     /** Update the min/max scale limits at runtime, clamping the current scale into the new range */
     setScaleLimits(minScale: number, maxScale: number): void;
 
+    /** Replace the discrete zoom stops wheel, pinch and zoomIn/zoomOut land on; `false` zooms freely */
+    setZoomLevels(zoomLevels: ZoomLevels | false): void;
+
+    /** Get the current view rotation in degrees (positive clockwise, 0–360) */
+    getRotation(): number;
+
+    /** Rotate the view instantly around the viewport center */
+    setRotation(degrees: number): void;
+
+    /** Animate the view rotation to a target angle, turning the shorter way around */
+    goRotation(degrees: number, durationMs?: number, onComplete?: () => void): void;
+
     /**
      * Replace the reduced-motion preference. `"auto"` (the default) follows
      * the platform: `prefers-reduced-motion` on the web, `AccessibilityInfo`
@@ -172,10 +223,23 @@ export interface EngineHandleBase<TMount, TImage, TCtx> {
     /** Dynamically update event handlers at runtime */
     setEventHandlers(handlers: Partial<EventHandlers>): void;
 
+    /** Replace the interaction tool stack with `tool`, or clear it with `null`. No-op before mount. */
+    setTool(tool: Tool<TImage> | null): void;
+
+    /** Activate `tool` over the current one until `popTool`. No-op before mount. */
+    pushTool(tool: Tool<TImage>): void;
+
+    /** Remove the active tool and return it, or `undefined` before mount. */
+    popTool(): Tool<TImage> | undefined;
+
+    /** The active tool, or `undefined` (also before mount). */
+    getTool(): Tool<TImage> | undefined;
+
     /** Register a custom draw function; `transform.worldToScreen(x, y)` maps world coordinates to canvas pixels */
     addDrawFunction(
         fn: (ctx: TCtx, coords: Coords, config: Required<CanvasTileEngineConfig>, transform: DrawTransform) => void,
         layer?: number,
+        options?: DrawOptions,
     ): DrawHandle;
 
     /** Draw rectangles */
@@ -220,6 +284,13 @@ export interface EngineHandleBase<TMount, TImage, TCtx> {
         options?: PathDrawOptions<TData>,
     ): DrawHandle;
 
+    /** Fill and/or outline hex cells on a hex grid */
+    drawHex<TData = unknown>(
+        items: HexItem<TData> | HexItem<TData>[],
+        layer?: number,
+        options?: HexDrawOptions<TData>,
+    ): DrawHandle;
+
     /** Draw images */
     drawImage<TData = unknown>(
         items: ImageItem<TImage, TData> | ImageItem<TImage, TData>[],
@@ -236,11 +307,20 @@ export interface EngineHandleBase<TMount, TImage, TCtx> {
     ): DrawHandle;
 
     /** Draw grid lines */
-    drawGridLines(cellSize: number, lineWidth?: number, strokeStyle?: string, layer?: number): DrawHandle;
+    drawGridLines(
+        cellSize: number,
+        lineWidth?: number,
+        strokeStyle?: string,
+        layer?: number,
+        options?: DrawOptions,
+    ): DrawHandle;
 
     /** Clear a specific layer */
     clearLayer(layer: number): void;
 
+    /** Show a layer only within a zoom range; `undefined` removes the limit */
+    setLayerScaleRange(layer: number, range: ScaleRange | undefined): void;
+
     /** Clear all layers */
     clearAll(): void;
 
@@ -267,6 +347,13 @@ export interface EngineHandleBase<TMount, TImage, TCtx> {
      */
     hitTestRect<TData = unknown>(rect: Bounds, opts?: HitTestRectOptions): HitResult<TImage, TData>[];
 
+    /**
+     * Selection model (undefined until engine mounts): select/toggle/clear
+     * ids and subscribe to changes. Draw components with a `selectedStyle`
+     * highlight what it holds.
+     */
+    readonly selection: CanvasTileEngineCore<TMount, TImage>["selection"] | undefined;
+
     /** Image loader instance (undefined until engine mounts) */
     readonly images: CanvasTileEngineCore<TMount, TImage>["images"] | undefined;
 
@@ -332,6 +419,10 @@ export function useEngineHandle<TMount, TImage, TCtx, TExtras extends object = R
                 return instanceRef.current?.images;
             },
 
+            get selection() {
+                return instanceRef.current?.selection;
+            },
+
             render() {
                 instanceRef.current?.render();
             },
@@ -355,10 +446,45 @@ export function useEngineHandle<TMount, TImage, TCtx, TExtras extends object = R
                 instanceRef.current?.setCenter(center);
             },
 
-            goCenter(x: number, y: number, durationMs?: number, onComplete?: () => void) {
+            goCenter(x: number, y: number, durationMs?: number | AnimateOptions, onComplete?: () => void) {
                 instanceRef.current?.goCenter(x, y, durationMs, onComplete);
             },
 
+            flyTo(options: FlyToOptions) {
+                instanceRef.current?.flyTo(options);
+            },
+
+            follow(getTarget: () => Coords | null | undefined, options?: FollowOptions) {
+                instanceRef.current?.follow(getTarget, options);
+            },
+
+            unfollow() {
+                instanceRef.current?.unfollow();
+            },
+
+            isFollowing() {
+                return instanceRef.current?.isFollowing() ?? false;
+            },
+
+            getViewState() {
+                return (
+                    instanceRef.current?.getViewState() ?? {
+                        center: { x: 0, y: 0 },
+                        scale: 1,
+                        rotation: DEFAULT_CONFIG.rotation,
+                        size: { width: 0, height: 0 },
+                    }
+                );
+            },
+
+            setViewState(state: ViewStateInput, options?: SetViewStateOptions) {
+                instanceRef.current?.setViewState(state, options);
+            },
+
+            subscribeViewState(listener: (state: ViewState) => void) {
+                return instanceRef.current?.subscribeViewState(listener) ?? (() => {});
+            },
+
             getSize() {
                 return instanceRef.current?.getSize() ?? { width: 0, height: 0 };
             },
@@ -371,7 +497,7 @@ export function useEngineHandle<TMount, TImage, TCtx, TExtras extends object = R
                 instanceRef.current?.setScale(newScale);
             },
 
-            goScale(targetScale: number, durationMs?: number, onComplete?: () => void) {
+            goScale(targetScale: number, durationMs?: number | AnimateOptions, onComplete?: () => void) {
                 instanceRef.current?.goScale(targetScale, durationMs, onComplete);
             },
 
@@ -387,6 +513,22 @@ export function useEngineHandle<TMount, TImage, TCtx, TExtras extends object = R
                 instanceRef.current?.setScaleLimits(minScale, maxScale);
             },
 
+            setZoomLevels(zoomLevels: ZoomLevels | false) {
+                instanceRef.current?.setZoomLevels(zoomLevels);
+            },
+
+            getRotation() {
+                return instanceRef.current?.getRotation() ?? DEFAULT_CONFIG.rotation;
+            },
+
+            setRotation(degrees: number) {
+                instanceRef.current?.setRotation(degrees);
+            },
+
+            goRotation(degrees: number, durationMs?: number, onComplete?: () => void) {
+                instanceRef.current?.goRotation(degrees, durationMs, onComplete);
+            },
+
             setReducedMotion(value: ReducedMotionSetting) {
                 instanceRef.current?.setReducedMotion(value);
             },
@@ -411,7 +553,23 @@ export function useEngineHandle<TMount, TImage, TCtx, TExtras extends object = R
                 instanceRef.current?.setEventHandlers(handlers);
             },
 
-            addDrawFunction(fn, layer) {
+            setTool(tool) {
+                instanceRef.current?.setTool(tool);
+            },
+
+            pushTool(tool) {
+                instanceRef.current?.pushTool(tool);
+            },
+
+            popTool() {
+                return instanceRef.current?.popTool();
+            },
+
+            getTool() {
+                return instanceRef.current?.getTool();
+            },
+
+            addDrawFunction(fn, layer, options) {
                 // The core API is renderer-agnostic (`ctx: unknown`); each
                 // platform handle narrows the context type (TCtx), so widen it
                 // back here to keep the cast out of user code.
@@ -424,6 +582,7 @@ export function useEngineHandle<TMount, TImage, TCtx, TExtras extends object = R
                             transform: DrawTransform,
                         ) => void,
                         layer,
+                        options,
                     ) ?? droppedDraw("addDrawFunction")
                 );
             },
@@ -462,6 +621,10 @@ export function useEngineHandle<TMount, TImage, TCtx, TExtras extends object = R
                 return instanceRef.current?.drawPath(items, layer, options) ?? droppedDraw("drawPath");
             },
 
+            drawHex(items, layer, options) {
+                return instanceRef.current?.drawHex(items, layer, options) ?? droppedDraw("drawHex");
+            },
+
             drawImage(items, layer, options) {
                 return instanceRef.current?.drawImage(items, layer, options) ?? droppedDraw("drawImage");
             },
@@ -473,9 +636,9 @@ export function useEngineHandle<TMount, TImage, TCtx, TExtras extends object = R
                 );
             },
 
-            drawGridLines(cellSize, lineWidth, strokeStyle, layer) {
+            drawGridLines(cellSize, lineWidth, strokeStyle, layer, options) {
                 return (
-                    instanceRef.current?.drawGridLines(cellSize, lineWidth, strokeStyle, layer) ??
+                    instanceRef.current?.drawGridLines(cellSize, lineWidth, strokeStyle, layer, options) ??
                     droppedDraw("drawGridLines")
                 );
             },
@@ -484,6 +647,10 @@ export function useEngineHandle<TMount, TImage, TCtx, TExtras extends object = R
                 instanceRef.current?.clearLayer(layer);
             },
 
+            setLayerScaleRange(layer, range) {
+                instanceRef.current?.setLayerScaleRange(layer, range);
+            },
+
             clearAll() {
                 instanceRef.current?.clearAll();
             },
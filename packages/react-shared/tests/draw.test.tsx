@@ -10,11 +10,13 @@ import type {
     Rect as RectType,
     RectDrawOptions,
 } from "@canvas-tile-engine/core";
+import { Selection } from "@canvas-tile-engine/core";
 import {
     Circle,
     DrawFunction,
     EngineContext,
     GridLines,
+    Hex,
     Image,
     Line,
     Path,
@@ -48,6 +50,7 @@ function createFakeHandle() {
         drawLine: vi.fn(() => makeHandle()),
         drawText: vi.fn(() => makeHandle()),
         drawPath: vi.fn(() => makeHandle()),
+        drawHex: vi.fn(() => makeHandle()),
         drawImage: vi.fn((_items: ImageItem<unknown> | ImageItem<unknown>[], layer: number = 1, _options?: unknown) =>
             makeHandle(layer),
         ),
@@ -58,6 +61,7 @@ function createFakeHandle() {
         addDrawFunction: vi.fn((_fn: RegisteredDrawFn, layer: number = 1) => makeHandle(layer)),
         removeDrawHandle: vi.fn(),
         clearStaticCache: vi.fn(),
+        selection: new Selection(() => {}),
     };
 }
 type FakeHandle = ReturnType<typeof createFakeHandle>;
@@ -101,6 +105,7 @@ describe("draw components", () => {
                 />
             ),
         ],
+        ["Hex", "drawHex", () => <Hex items={{ x: 0, y: 0, style: { fillStyle: "#000" } }} />],
         ["GridLines", "drawGridLines", () => <GridLines cellSize={1} />],
         ["Image", "drawImage", () => <Image items={{ x: 0, y: 0, img: "img" }} />],
         ["StaticRect", "drawStaticRect", () => <StaticRect items={[TILE]} cacheKey="sr" />],
@@ -159,6 +164,27 @@ describe("draw components", () => {
         expect(styleA).not.toHaveBeenCalled();
     });
 
+    it("overlays selectedStyle on selected items, reading it through a ref", () => {
+        const engine = createFakeHandle();
+        const items = [
+            { ...TILE, data: "a" },
+            { ...TILE, data: "b" },
+        ];
+        const styleOf = () => ({ fillStyle: "#111", strokeStyle: "#222" });
+
+        const { rerender } = renderWith(
+            engine,
+            <Rect items={items} styleOf={styleOf} selectedStyle={{ strokeStyle: "red" }} />,
+        );
+        rerender(<Rect items={items} styleOf={styleOf} selectedStyle={{ strokeStyle: "blue" }} />);
+        engine.selection.select("b");
+
+        expect(engine.drawRect).toHaveBeenCalledTimes(1);
+        const options = engine.drawRect.mock.calls[0][2];
+        expect(options?.styleOf?.(items[0])).toEqual({ fillStyle: "#111", strokeStyle: "#222" });
+        expect(options?.styleOf?.(items[1])).toEqual({ fillStyle: "#111", strokeStyle: "blue" });
+    });
+
     it("reads interactiveOf through a ref: identity changes neither re-register nor repaint", () => {
         const engine = createFakeHandle();
         const items = [TILE];
@@ -183,6 +209,66 @@ describe("draw components", () => {
         expect(interactiveA).not.toHaveBeenCalled();
     });
 
+    it("reads item event handlers through a ref; only adding or removing one re-registers", () => {
+        const engine = createFakeHandle();
+        const items = [TILE];
+        const clickA = vi.fn();
+        const clickB = vi.fn();
+
+        const { rerender } = renderWith(engine, <Rect items={items} />);
+        // No handlers: nothing for the engine to dispatch to
+        expect(engine.drawRect.mock.calls[0][2]?.onItemClick).toBeUndefined();
+
+        rerender(<Rect items={items} onItemClick={clickA} />);
+        expect(engine.drawRect).toHaveBeenCalledTimes(2);
+        const options = engine.drawRect.mock.calls[1][2];
+
+        rerender(<Rect items={items} onItemClick={clickB} />);
+        expect(engine.drawRect).toHaveBeenCalledTimes(2);
+
+        const hit = { item: TILE, kind: "rect", layer: 1, handle: engine.drawRect.mock.results[1].value, index: 0 };
+        const at = { raw: { x: 0, y: 0 }, snapped: { x: 0, y: 0 } };
+        const pointer = {
+            pointerId: 1,
+            pointerType: "pen",
+            pressure: 0.7,
+            tiltX: 0,
+            tiltY: 0,
+            shiftKey: false,
+            altKey: false,
+            ctrlKey: false,
+            metaKey: false,
+        } as const;
+        options?.onItemClick?.(hit as never, at, at, at, pointer);
+        expect(clickB).toHaveBeenCalledWith(hit, at, at, at, pointer);
+        expect(clickA).not.toHaveBeenCalled();
+    });
+
+    it("passes draggable through and reads a snap function through a ref", () => {
+        const engine = createFakeHandle();
+        const items = [TILE];
+        const snapA = vi.fn((p: { x: number; y: number }) => p);
+        const snapB = vi.fn(() => ({ x: 4, y: 4 }));
+        const end = vi.fn();
+
+        const { rerender } = renderWith(engine, <Rect items={items} draggable={{ snap: snapA }} onItemDragEnd={end} />);
+        const options = engine.drawRect.mock.calls[0][2];
+        expect(options?.draggable).toEqual({ ghost: undefined, snap: expect.any(Function) });
+
+        // A new snap function (inline literal) keeps the registration
+        rerender(<Rect items={items} draggable={{ snap: snapB }} onItemDragEnd={end} />);
+        expect(engine.drawRect).toHaveBeenCalledTimes(1);
+        const snap = (options?.draggable as { snap: (p: { x: number; y: number }) => unknown }).snap;
+        expect(snap({ x: 1, y: 1 })).toEqual({ x: 4, y: 4 });
+        expect(snapA).not.toHaveBeenCalled();
+
+        // Switching to cell snapping re-registers
+        rerender(<Rect items={items} draggable={{ snap: "cell" }} onItemDragEnd={end} />);
+        expect(engine.drawRect).toHaveBeenCalledTimes(2);
+        expect(engine.drawRect.mock.calls[1][2]?.draggable).toEqual({ ghost: undefined, snap: "cell" });
+        expect(engine.drawRect.mock.calls[1][2]?.onItemDragEnd).toEqual(expect.any(Function));
+    });
+
     // All three Static* components carry the same cache lifecycle in separate
     // files; parametrizing keeps them from drifting apart.
     const staticCases = [
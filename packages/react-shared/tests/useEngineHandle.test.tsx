@@ -17,6 +17,7 @@ function createFakeEngine() {
         getCenter: vi.fn(() => ({ x: 7, y: 8 })),
         getConfig: vi.fn(() => ({ scale: 3 })),
         images: { load: vi.fn(() => Promise.resolve("loaded-image")) },
+        selection: { select: vi.fn() },
     };
 }
 
@@ -38,6 +39,8 @@ describe("useEngineHandle", () => {
         expect(handle.isReady).toBe(false);
         expect(handle.instance).toBeNull();
         expect(handle.images).toBeUndefined();
+        expect(handle.selection).toBeUndefined();
+        expect(handle.getTool()).toBeUndefined();
         expect(handle.getCenter()).toEqual({ x: 0, y: 0 });
         expect(handle.getScale()).toBe(1);
 
@@ -91,6 +94,7 @@ describe("useEngineHandle", () => {
         expect(result.current.isReady).toBe(true);
         expect(result.current.instance).toBe(asEngine(fake));
         expect(result.current.images).toBe(fake.images);
+        expect(result.current.selection).toBe(fake.selection);
 
         result.current.render();
         expect(fake.render).toHaveBeenCalledTimes(1);
@@ -176,13 +180,21 @@ describe("useEngineHandle", () => {
         ["zoomIn", [1.2]],
         ["zoomOut", [1.3]],
         ["setScaleLimits", [0.5, 8]],
+        ["setZoomLevels", ["integers"]],
+        ["getViewState", []],
+        ["setViewState", [{ center: { x: 1, y: 2 }, scale: 3 }, { durationMs: 0 }]],
+        ["subscribeViewState", [noop]],
         ["setReducedMotion", ["auto"]],
         ["getReducedMotion", []],
         ["getConfig", []],
         ["setBounds", [{ minX: 0, maxX: 9, minY: 0, maxY: 9 }]],
         ["fitBounds", [{ minX: 0, maxX: 4, minY: 0, maxY: 4 }, {}]],
         ["setEventHandlers", [{ click: true }]],
-        ["addDrawFunction", [noop, 3]],
+        ["setTool", [{ name: "paint" }]],
+        ["pushTool", [{ name: "pan" }]],
+        ["popTool", []],
+        ["getTool", []],
+        ["addDrawFunction", [noop, 3, {}]],
         ["drawRect", [[TILE], 2, {}]],
         ["drawStaticRect", [[TILE], "cache", 2, {}]],
         ["drawCircle", [[{ x: 1, y: 1 }], 2, {}]],
@@ -190,10 +202,12 @@ describe("useEngineHandle", () => {
         ["drawLine", [[{ from: { x: 0, y: 0 }, to: { x: 1, y: 1 } }], { lineWidth: 1 }, 2, {}]],
         ["drawText", [[{ x: 0, y: 0, text: "t" }], 2, {}]],
         ["drawPath", [[{ points: [{ x: 0, y: 0 }] }], 2, {}]],
+        ["drawHex", [[{ x: 0, y: 0 }], 2, {}]],
         ["drawImage", [[{ x: 0, y: 0, img: "img" }], 2, {}]],
         ["drawStaticImage", [[{ x: 0, y: 0, img: "img" }], "cache", 2, {}]],
-        ["drawGridLines", [1, 2, "red", 3]],
+        ["drawGridLines", [1, 2, "red", 3, {}]],
         ["clearLayer", [2]],
+        ["setLayerScaleRange", [2, { minScale: 4 }]],
         ["clearAll", []],
         ["clearStaticCache", ["cache"]],
         ["removeDrawHandle", [{ id: Symbol("h"), layer: 1 }]],
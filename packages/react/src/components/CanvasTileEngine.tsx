@@ -13,11 +13,14 @@ import {
     Line,
     Text,
     Path,
+    Hex,
     StaticRect,
     StaticCircle,
     StaticImage,
     DrawFunction,
 } from "./draw";
+import { Minimap } from "./Minimap";
+import { Html } from "./Html";
 
 /**
  * React component that renders a CanvasTileEngine.
@@ -64,6 +67,8 @@ function CanvasTileEngineBase({
     children,
     onCoordsChange,
     onClick,
+    onDoubleClick,
+    onLongPress,
     onRightClick,
     onHover,
     onMouseDown,
@@ -73,6 +78,8 @@ function CanvasTileEngineBase({
     onResize,
     onZoom,
     onWheel,
+    onMarqueeChange,
+    onMarqueeEnd,
 }: CanvasTileEngineProps) {
     // Children mount gate. This must be component-local state, not
     // `engine.isReady`: the handle outlives this component, so during a
@@ -88,6 +95,8 @@ function CanvasTileEngineBase({
     const callbacksRef = useRef({
         onCoordsChange,
         onClick,
+        onDoubleClick,
+        onLongPress,
         onRightClick,
         onHover,
         onMouseDown,
@@ -97,6 +106,8 @@ function CanvasTileEngineBase({
         onResize,
         onZoom,
         onWheel,
+        onMarqueeChange,
+        onMarqueeEnd,
     });
 
     // Update callback refs
@@ -104,6 +115,8 @@ function CanvasTileEngineBase({
         callbacksRef.current = {
             onCoordsChange,
             onClick,
+            onDoubleClick,
+            onLongPress,
             onRightClick,
             onHover,
             onMouseDown,
@@ -113,6 +126,8 @@ function CanvasTileEngineBase({
             onResize,
             onZoom,
             onWheel,
+            onMarqueeChange,
+            onMarqueeEnd,
         };
     });
 
@@ -163,6 +178,8 @@ function CanvasTileEngineBase({
         // Set up callbacks using stable refs
         instance.onCoordsChange = (coords) => callbacksRef.current.onCoordsChange?.(coords);
         instance.onClick = (...args) => callbacksRef.current.onClick?.(...args);
+        instance.onDoubleClick = (...args) => callbacksRef.current.onDoubleClick?.(...args);
+        instance.onLongPress = (...args) => callbacksRef.current.onLongPress?.(...args);
         instance.onRightClick = (...args) => callbacksRef.current.onRightClick?.(...args);
         instance.onHover = (...args) => callbacksRef.current.onHover?.(...args);
         instance.onMouseDown = (...args) => callbacksRef.current.onMouseDown?.(...args);
@@ -172,6 +189,8 @@ function CanvasTileEngineBase({
         instance.onResize = () => callbacksRef.current.onResize?.();
         instance.onZoom = (scale) => callbacksRef.current.onZoom?.(scale);
         instance.onWheel = (...args) => callbacksRef.current.onWheel?.(...args);
+        instance.onMarqueeChange = (...args) => callbacksRef.current.onMarqueeChange?.(...args);
+        instance.onMarqueeEnd = (...args) => callbacksRef.current.onMarqueeEnd?.(...args);
 
         // Attach to handle, then open the children gate
         engine._setInstance(instance);
@@ -215,8 +234,11 @@ export const CanvasTileEngine = Object.assign(CanvasTileEngineBase, {
     Line,
     Text,
     Path,
+    Hex,
     StaticRect,
     StaticCircle,
     StaticImage,
     DrawFunction,
+    Minimap,
+    Html,
 });
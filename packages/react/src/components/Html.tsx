@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState, type CSSProperties, type ReactNode } from "react";
+import { createPortal } from "react-dom";
+import type { OverlayHandle, OverlayOptions } from "@canvas-tile-engine/core";
+import { useOptionalEngineContext } from "../context";
+import type { EngineHandle } from "../hooks/useCanvasTileEngine";
+
+export interface HtmlProps extends OverlayOptions {
+    /**
+     * Engine to pin to. Defaults to the enclosing `<CanvasTileEngine>`.
+     */
+    engine?: EngineHandle;
+    className?: string;
+    style?: CSSProperties;
+    children?: ReactNode;
+}
+
+/**
+ * React content pinned to a world position above the canvas, through
+ * `engine.addOverlay`. It follows every camera change and is hidden while
+ * the position is off-screen. Canvas and WebGL renderers only.
+ *
+ * The children keep their React context and receive pointer events; the
+ * canvas still gets input everywhere else.
+ * @example
+ * ```tsx
+ * <CanvasTileEngine engine={engine} config={config}>
+ *     <CanvasTileEngine.Html x={12} y={4} anchor="bottom" offsetPx={{ x: 0, y: -8 }}>
+ *         <Tooltip unit={unit} />
+ *     </CanvasTileEngine.Html>
+ * </CanvasTileEngine>
+ * ```
+ */
+export function Html({
+    engine: engineProp,
+    className,
+    style,
+    children,
+    x,
+    y,
+    anchor,
+    offsetPx,
+    scaleWithZoom,
+}: HtmlProps) {
+    const context = useOptionalEngineContext();
+    const engine = engineProp ?? context?.engine;
+    if (!engine) {
+        throw new Error("Html must be used within a CanvasTileEngine component or be given an engine");
+    }
+
+    const [element] = useState(() => document.createElement("div"));
+    const overlayRef = useRef<OverlayHandle | null>(null);
+    const optionsRef = useRef<OverlayOptions>({ x, y, anchor, offsetPx, scaleWithZoom });
+    useEffect(() => {
+        optionsRef.current = { x, y, anchor, offsetPx, scaleWithZoom };
+    });
+
+    // Position changes after creation. Declared before the creation effect
+    // so the first commit does not re-apply the options it was added with.
+    const offsetX = offsetPx?.x;
+    const offsetY = offsetPx?.y;
+    useEffect(() => {
+        overlayRef.current?.update({
+            x,
+            y,
+            anchor,
+            offsetPx: offsetX === undefined || offsetY === undefined ? undefined : { x: offsetX, y: offsetY },
+            scaleWithZoom,
+        });
+    }, [x, y, anchor, offsetX, offsetY, scaleWithZoom]);
+
+    const instance = engine.instance;
+    useEffect(() => {
+        if (!instance) {
+            return;
+        }
+        const overlay = instance.addOverlay(element, optionsRef.current);
+        overlayRef.current = overlay;
+        return () => {
+            overlay.remove();
+            overlayRef.current = null;
+        };
+    }, [instance, element]);
+
+    return createPortal(
+        <div className={className} style={style}>
+            {children}
+        </div>,
+        element,
+    );
+}
@@ -0,0 +1,129 @@
+import { useEffect, useRef, useState, type CSSProperties } from "react";
+import type { Minimap as MinimapCore, MinimapOptions } from "@canvas-tile-engine/core";
+import { useOptionalEngineContext } from "../context";
+import type { EngineHandle } from "../hooks/useCanvasTileEngine";
+
+export interface MinimapProps extends MinimapOptions {
+    /**
+     * Engine to show. Defaults to the enclosing `<CanvasTileEngine>`; pass it
+     * to render the minimap elsewhere in the page.
+     */
+    engine?: EngineHandle;
+    className?: string;
+    style?: CSSProperties;
+}
+
+/**
+ * Overview inset: paints the selected layers of an engine downscaled onto
+ * its own canvas, outlines the main viewport, and moves the main camera on
+ * click and drag. Renders nothing, with a console warning, when the
+ * minimap cannot be created or its props are invalid (a renderer without
+ * minimap support, no `bounds` under unbounded camera bounds, a bad size).
+ *
+ * `bounds`, `layers` and `viewportStyle` are compared by reference: keep
+ * them stable (module constants or useMemo) so a re-render does not repaint
+ * the minimap.
+ * @example
+ * ```tsx
+ * <CanvasTileEngine engine={engine} config={config}>
+ *     <CanvasTileEngine.Rect items={tiles} layer={1} />
+ *     <CanvasTileEngine.Minimap size={{ width: 200, height: 150 }} layers={MINIMAP_LAYERS} />
+ * </CanvasTileEngine>
+ * ```
+ */
+export function Minimap({ engine: engineProp, className, style, ...options }: MinimapProps) {
+    const context = useOptionalEngineContext();
+    const engine = engineProp ?? context?.engine;
+    if (!engine) {
+        throw new Error("Minimap must be used within a CanvasTileEngine component or be given an engine");
+    }
+
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    // The engine instance the minimap could not be created for
+    const [failedFor, setFailedFor] = useState<unknown>(null);
+    const minimapRef = useRef<MinimapCore | null>(null);
+    const optionsRef = useRef(options);
+    useEffect(() => {
+        optionsRef.current = options;
+    });
+
+    // Option changes after creation. Declared before the creation effect so
+    // the first commit does not re-apply the options it was created with.
+    // An invalid size, or `bounds` removed under unbounded camera bounds,
+    // makes setOptions throw: the minimap is dropped like a failed creation.
+    const instance = engine.instance;
+    const { size, bounds, layers, backgroundColor, viewportStyle, interactive, durationMs } = options;
+    useEffect(() => {
+        const minimap = minimapRef.current;
+        if (!minimap) {
+            return;
+        }
+        try {
+            minimap.setOptions({
+                size: { width: size.width, height: size.height },
+                bounds,
+                layers,
+                backgroundColor,
+                viewportStyle,
+                interactive,
+                durationMs,
+            });
+        } catch (error) {
+            console.warn("[CanvasTileEngine] Minimap not shown:", error);
+            minimap.destroy();
+            minimapRef.current = null;
+            setFailedFor(instance);
+        }
+    }, [instance, size.width, size.height, bounds, layers, backgroundColor, viewportStyle, interactive, durationMs]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!instance || !canvas) {
+            return;
+        }
+        let minimap: MinimapCore;
+        try {
+            minimap = instance.createMinimap(optionsRef.current);
+        } catch (error) {
+            // Thrown from an effect it would unmount the whole tree
+            console.warn("[CanvasTileEngine] Minimap not shown:", error);
+            setFailedFor(instance);
+            return;
+        }
+        minimapRef.current = minimap;
+        const unsubscribe = minimap.subscribe(() => minimap.render(canvas));
+        minimap.render(canvas);
+        return () => {
+            unsubscribe();
+            minimap.destroy();
+            minimapRef.current = null;
+        };
+    }, [instance]);
+
+    if (instance && failedFor === instance) {
+        return null;
+    }
+
+    return (
+        <canvas
+            ref={canvasRef}
+            className={className}
+            style={{
+                width: size.width,
+                height: size.height,
+                // Drags move the camera, not the page
+                touchAction: "none",
+                cursor: interactive === false ? undefined : "pointer",
+                ...style,
+            }}
+            onPointerDown={(e) => {
+                if (e.button === 0 && minimapRef.current?.pointerDown(e.nativeEvent.offsetX, e.nativeEvent.offsetY)) {
+                    e.currentTarget.setPointerCapture?.(e.pointerId);
+                }
+            }}
+            onPointerMove={(e) => minimapRef.current?.pointerMove(e.nativeEvent.offsetX, e.nativeEvent.offsetY)}
+            onPointerUp={() => minimapRef.current?.pointerUp()}
+            onPointerCancel={() => minimapRef.current?.pointerUp()}
+        />
+    );
+}
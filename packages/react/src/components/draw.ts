@@ -17,6 +17,7 @@ export {
     Line,
     Text,
     Path,
+    Hex,
     StaticRect,
     StaticCircle,
     DrawFunction,
@@ -26,6 +27,7 @@ export {
     type LineProps,
     type TextProps,
     type PathProps,
+    type HexProps,
     type StaticRectProps,
     type StaticCircleProps,
 } from "@canvas-tile-engine/react-shared";
@@ -1,4 +1,6 @@
 export { CanvasTileEngine } from "./CanvasTileEngine";
+export { Minimap, type MinimapProps } from "./Minimap";
+export { Html, type HtmlProps } from "./Html";
 
 // Draw components export
 export {
@@ -10,6 +12,7 @@ export {
     Line,
     Text,
     Path,
+    Hex,
     StaticRect,
     StaticCircle,
     StaticImage,
@@ -22,6 +25,7 @@ export {
     type LineProps,
     type TextProps,
     type PathProps,
+    type HexProps,
     type StaticRectProps,
     type StaticCircleProps,
     type StaticImageProps,
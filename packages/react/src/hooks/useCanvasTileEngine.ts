@@ -1,4 +1,5 @@
 import { useRef } from "react";
+import type { AnimateOptions } from "@canvas-tile-engine/core";
 import { useEngineHandle, type EngineHandleBase } from "@canvas-tile-engine/react-shared";
 
 /**
@@ -13,7 +14,7 @@ export interface EngineHandle extends EngineHandleBase<HTMLDivElement, HTMLImage
     readonly _containerRef: React.RefObject<HTMLDivElement>;
 
     /** Resize the canvas */
-    resize(width: number, height: number, durationMs?: number, onComplete?: () => void): void;
+    resize(width: number, height: number, durationMs?: number | AnimateOptions, onComplete?: () => void): void;
 }
 
 /**
@@ -52,7 +53,7 @@ export function useCanvasTileEngine(): EngineHandle {
     return useEngineHandle<HTMLDivElement, HTMLImageElement, unknown, Pick<EngineHandle, "_containerRef" | "resize">>(
         (instanceRef) => ({
             _containerRef: containerRef,
-            resize(width: number, height: number, durationMs?: number, onComplete?: () => void) {
+            resize(width: number, height: number, durationMs?: number | AnimateOptions, onComplete?: () => void) {
                 instanceRef.current?.resize(width, height, durationMs, onComplete);
             },
         }),
@@ -1,6 +1,12 @@
 // Main component
 export { CanvasTileEngine } from "./components";
 
+// Minimap
+export { Minimap, type MinimapProps } from "./components";
+
+// HTML overlays
+export { Html, type HtmlProps } from "./components";
+
 // Draw components
 export {
     type RectProps,
@@ -11,6 +17,7 @@ export {
     type LineProps,
     type TextProps,
     type PathProps,
+    type HexProps,
     type StaticRectProps,
     type StaticCircleProps,
     type StaticImageProps,
@@ -31,12 +38,33 @@ export type {
     DrawObject,
     EventHandlers,
     onClickCallback,
+    onDoubleClickCallback,
+    DoubleClickOptions,
+    onLongPressCallback,
+    LongPressOptions,
+    CursorOptions,
+    PointerInfo,
+    PointerType,
     onRightClickCallback,
     onHoverCallback,
     onMouseDownCallback,
     onMouseUpCallback,
     onMouseLeaveCallback,
     onWheelCallback,
+    onItemEventCallback,
+    ItemEventHandlers,
+    onItemDragCallback,
+    ItemDragHandlers,
+    ItemDragInfo,
+    DraggableOptions,
+    DraggableDrawOptions,
+    onMarqueeCallback,
+    MarqueeBox,
+    MarqueeInfo,
+    MarqueeOperation,
+    MarqueeOptions,
+    MarqueeStyle,
+    ModifierKey,
     onZoomCallback,
     onDrawCallback,
     WheelInfo,
@@ -46,6 +74,7 @@ export type {
     Circle,
     Text,
     PathItem,
+    HexItem,
     PathStyle,
     PathCommand,
     ImageItem,
@@ -63,6 +92,21 @@ export {
     pathCommandsBounds,
     SpriteSheet,
     SpriteAnimator,
+    syncViewStateWithUrl,
+    formatViewState,
+    parseViewState,
+    linkCameras,
+    hexToAxial,
+    axialToHex,
+    hexCenter,
+    hexAt,
+    hexCorners,
+    hexNeighbors,
+    hexDistance,
+    wrapCoords,
+    panTool,
+    paintCellsTool,
+    selectTool,
 } from "@canvas-tile-engine/core";
 export type {
     BoundedItem,
@@ -71,4 +115,32 @@ export type {
     SpriteRect,
     SpriteSheetOptions,
     SpriteAnimation,
+    ViewState,
+    ViewStateInput,
+    SetViewStateOptions,
+    LinkCamerasOptions,
+    CameraLinkMode,
+    ViewStateUrlOptions,
+    MinimapOptions,
+    MinimapViewportStyle,
+    OverlayOptions,
+    OverlayAnchor,
+    OverlayHandle,
+    GridLayout,
+    HexLayout,
+    HexDrawOptions,
+    WorldWrap,
+    ScaleRange,
+    HitResult,
+    HitKind,
+    Selection,
+    SelectionChange,
+    SelectionListener,
+    Tool,
+    ToolContext,
+    ToolPointerEvent,
+    ToolWheelEvent,
+    ToolKeyEvent,
+    PaintCellsToolOptions,
+    SelectToolOptions,
 } from "@canvas-tile-engine/core";
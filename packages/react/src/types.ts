@@ -4,12 +4,33 @@ import type {
     DrawObject,
     EventHandlers,
     onClickCallback,
+    onDoubleClickCallback,
+    DoubleClickOptions,
+    onLongPressCallback,
+    LongPressOptions,
+    CursorOptions,
+    PointerInfo,
+    PointerType,
     onRightClickCallback,
     onHoverCallback,
     onMouseDownCallback,
     onMouseUpCallback,
     onMouseLeaveCallback,
     onWheelCallback,
+    onItemEventCallback,
+    ItemEventHandlers,
+    onItemDragCallback,
+    ItemDragHandlers,
+    ItemDragInfo,
+    DraggableOptions,
+    DraggableDrawOptions,
+    onMarqueeCallback,
+    MarqueeBox,
+    MarqueeInfo,
+    MarqueeOperation,
+    MarqueeOptions,
+    MarqueeStyle,
+    ModifierKey,
     onZoomCallback,
     onDrawCallback,
     Rect,
@@ -17,6 +38,7 @@ import type {
     LineStyle,
     Circle,
     PathItem,
+    HexItem,
     PathStyle,
     PathCommand,
     Text,
@@ -44,12 +66,33 @@ export type {
     DrawObject,
     EventHandlers,
     onClickCallback,
+    onDoubleClickCallback,
+    DoubleClickOptions,
+    onLongPressCallback,
+    LongPressOptions,
+    CursorOptions,
+    PointerInfo,
+    PointerType,
     onRightClickCallback,
     onHoverCallback,
     onMouseDownCallback,
     onMouseUpCallback,
     onMouseLeaveCallback,
     onWheelCallback,
+    onItemEventCallback,
+    ItemEventHandlers,
+    onItemDragCallback,
+    ItemDragHandlers,
+    ItemDragInfo,
+    DraggableOptions,
+    DraggableDrawOptions,
+    onMarqueeCallback,
+    MarqueeBox,
+    MarqueeInfo,
+    MarqueeOperation,
+    MarqueeOptions,
+    MarqueeStyle,
+    ModifierKey,
     onZoomCallback,
     onDrawCallback,
     Rect,
@@ -58,6 +101,7 @@ export type {
     Circle,
     Text,
     PathItem,
+    HexItem,
     PathStyle,
     PathCommand,
     ImageItem,
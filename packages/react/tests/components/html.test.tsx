@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, render } from "@testing-library/react";
+import { CanvasTileEngine, useCanvasTileEngine } from "../../src";
+import { createFakeRenderer } from "../helpers/fakeRenderer";
+
+const CONFIG = { scale: 10, size: { width: 100, height: 100 } };
+
+afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+});
+
+describe("Html", () => {
+    function Harness({
+        fake,
+        x,
+        show = true,
+    }: {
+        fake: ReturnType<typeof createFakeRenderer>;
+        x: number;
+        show?: boolean;
+    }) {
+        const engine = useCanvasTileEngine();
+        return (
+            <CanvasTileEngine engine={engine} config={CONFIG} renderer={fake.renderer}>
+                {show && (
+                    <CanvasTileEngine.Html x={x} y={4} anchor="bottom" className="popup">
+                        <span>Tower</span>
+                    </CanvasTileEngine.Html>
+                )}
+            </CanvasTileEngine>
+        );
+    }
+
+    it("adds its children as an overlay at the world position", () => {
+        const fake = createFakeRenderer();
+        render(<Harness fake={fake} x={12} />);
+
+        expect(fake.addOverlay).toHaveBeenCalledTimes(1);
+        const [element, options] = fake.addOverlay.mock.calls[0];
+        expect(options).toEqual(expect.objectContaining({ x: 12, y: 4, anchor: "bottom" }));
+        expect((element as HTMLElement).querySelector(".popup")?.textContent).toBe("Tower");
+        // The first commit does not re-apply the options it was added with
+        expect(fake.overlay.update).not.toHaveBeenCalled();
+    });
+
+    it("updates the position on prop changes and removes on unmount", () => {
+        const fake = createFakeRenderer();
+        const { rerender } = render(<Harness fake={fake} x={12} />);
+
+        rerender(<Harness fake={fake} x={13} />);
+        expect(fake.overlay.update).toHaveBeenLastCalledWith(expect.objectContaining({ x: 13, y: 4 }));
+        expect(fake.addOverlay).toHaveBeenCalledTimes(1);
+
+        rerender(<Harness fake={fake} x={13} show={false} />);
+        expect(fake.overlay.remove).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { act, cleanup, render } from "@testing-library/react";
+import { CanvasTileEngine, Minimap, useCanvasTileEngine, type EngineHandle } from "../../src";
+import { createFakeRenderer } from "../helpers/fakeRenderer";
+
+// 10x10 world units on screen, inside a 100x100 world
+const CONFIG = {
+    scale: 10,
+    size: { width: 100, height: 100 },
+    bounds: { minX: 0, maxX: 100, minY: 0, maxY: 100 },
+};
+const SIZE = { width: 50, height: 50 };
+
+/** A pointer event at minimap pixels; jsdom leaves offsetX/offsetY out. */
+function pointer(canvas: HTMLCanvasElement, type: string, x: number, y: number) {
+    const event = new MouseEvent(type, { bubbles: true, button: 0 });
+    Object.defineProperty(event, "offsetX", { value: x });
+    Object.defineProperty(event, "offsetY", { value: y });
+    act(() => {
+        canvas.dispatchEvent(event);
+    });
+}
+
+afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+});
+
+describe("Minimap", () => {
+    it("paints onto its canvas and repaints after every engine render", () => {
+        const fake = createFakeRenderer();
+        let captured: EngineHandle | null = null;
+
+        function Harness() {
+            const engine = useCanvasTileEngine();
+            captured = engine;
+            return (
+                <CanvasTileEngine engine={engine} config={CONFIG} renderer={fake.renderer}>
+                    <CanvasTileEngine.Minimap size={SIZE} className="minimap" />
+                </CanvasTileEngine>
+            );
+        }
+
+        const { container } = render(<Harness />);
+        const canvas = container.querySelector<HTMLCanvasElement>("canvas.minimap")!;
+
+        expect(fake.renderMinimap).toHaveBeenCalledTimes(1);
+        expect(fake.renderMinimap).toHaveBeenLastCalledWith(
+            canvas,
+            expect.objectContaining({ view: expect.objectContaining({ scale: 0.5 }) }),
+        );
+
+        captured!.render();
+        expect(fake.renderMinimap).toHaveBeenCalledTimes(2);
+    });
+
+    it("moves the main camera on click and drag", () => {
+        const fake = createFakeRenderer();
+        let captured: EngineHandle | null = null;
+
+        function Harness() {
+            const engine = useCanvasTileEngine();
+            captured = engine;
+            return (
+                <CanvasTileEngine engine={engine} config={CONFIG} renderer={fake.renderer}>
+                    <CanvasTileEngine.Minimap size={SIZE} className="minimap" />
+                </CanvasTileEngine>
+            );
+        }
+
+        const { container } = render(<Harness />);
+        const canvas = container.querySelector<HTMLCanvasElement>("canvas.minimap")!;
+
+        // 0.5 px per world unit: minimap (40, 10) is world (80, 20)
+        pointer(canvas, "pointerdown", 40, 10);
+        expect(captured!.getCenter().x).toBeCloseTo(80);
+        expect(captured!.getCenter().y).toBeCloseTo(20);
+
+        pointer(canvas, "pointermove", 30, 20);
+        pointer(canvas, "pointerup", 30, 20);
+        pointer(canvas, "pointermove", 0, 0);
+        expect(captured!.getCenter().x).toBeCloseTo(60);
+        expect(captured!.getCenter().y).toBeCloseTo(40);
+    });
+
+    it("applies prop changes and detaches on unmount", () => {
+        const fake = createFakeRenderer();
+        let captured: EngineHandle | null = null;
+
+        function Harness({ show, backgroundColor }: { show: boolean; backgroundColor: string }) {
+            const engine = useCanvasTileEngine();
+            captured = engine;
+            return (
+                <>
+                    <CanvasTileEngine engine={engine} config={CONFIG} renderer={fake.renderer} />
+                    {/* Outside the engine component: the handle is passed in */}
+                    {show && <Minimap engine={engine} size={SIZE} backgroundColor={backgroundColor} />}
+                </>
+            );
+        }
+
+        const { rerender } = render(<Harness show backgroundColor="#000" />);
+        expect(fake.renderMinimap).toHaveBeenLastCalledWith(
+            expect.anything(),
+            expect.objectContaining({ backgroundColor: "#000" }),
+        );
+
+        rerender(<Harness show backgroundColor="#fff" />);
+        expect(fake.renderMinimap).toHaveBeenLastCalledWith(
+            expect.anything(),
+            expect.objectContaining({ backgroundColor: "#fff" }),
+        );
+
+        rerender(<Harness show={false} backgroundColor="#fff" />);
+        const calls = fake.renderMinimap.mock.calls.length;
+        captured!.render();
+        expect(fake.renderMinimap).toHaveBeenCalledTimes(calls);
+    });
+
+    it("renders nothing and keeps the tree mounted when the renderer cannot paint minimaps", () => {
+        const fake = createFakeRenderer();
+        delete fake.renderer.renderMinimap;
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+        function Harness() {
+            const engine = useCanvasTileEngine();
+            return (
+                <CanvasTileEngine engine={engine} config={CONFIG} renderer={fake.renderer}>
+                    <CanvasTileEngine.Minimap size={SIZE} className="minimap" />
+                    <span className="sibling" />
+                </CanvasTileEngine>
+            );
+        }
+
+        const { container } = render(<Harness />);
+        expect(container.querySelector("canvas.minimap")).toBeNull();
+        expect(container.querySelector(".sibling")).not.toBeNull();
+        expect(warn).toHaveBeenCalledWith("[CanvasTileEngine] Minimap not shown:", expect.any(Error));
+    });
+
+    it("drops the minimap, keeping the tree mounted, when a prop change is invalid", () => {
+        const fake = createFakeRenderer();
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+        function Harness({ width }: { width: number }) {
+            const engine = useCanvasTileEngine();
+            return (
+                <CanvasTileEngine engine={engine} config={CONFIG} renderer={fake.renderer}>
+                    <CanvasTileEngine.Minimap size={{ width, height: 50 }} className="minimap" />
+                    <span className="sibling" />
+                </CanvasTileEngine>
+            );
+        }
+
+        const { container, rerender } = render(<Harness width={50} />);
+        expect(container.querySelector("canvas.minimap")).not.toBeNull();
+
+        rerender(<Harness width={-1} />);
+        expect(container.querySelector("canvas.minimap")).toBeNull();
+        expect(container.querySelector(".sibling")).not.toBeNull();
+        expect(warn).toHaveBeenCalledWith("[CanvasTileEngine] Minimap not shown:", expect.any(Error));
+    });
+});
@@ -147,7 +147,7 @@ describe("CanvasTileEngine mount component", () => {
         act(() => captured!.resize(200, 150, 0, done));
 
         // Core routes resize through the renderer's animated path.
-        expect(fake.resizeWithAnimation).toHaveBeenCalledWith(200, 150, 0, done);
+        expect(fake.resizeWithAnimation).toHaveBeenCalledWith(200, 150, 0, done, undefined);
         expect(done).toHaveBeenCalledTimes(1);
     });
 });
@@ -28,6 +28,7 @@ export function createFakeRenderer() {
         drawStaticImage: () => makeHandle(),
         removeDrawHandle: () => {},
         clearLayer: () => {},
+        setLayerScaleRange: () => {},
         clearAll: () => {},
         clearStaticCache: () => {},
     } as unknown as IDrawAPI;
@@ -48,6 +49,9 @@ export function createFakeRenderer() {
         onComplete?.(),
     );
     const destroy: Mock = vi.fn();
+    const renderMinimap: Mock = vi.fn();
+    const overlay: { update: Mock; remove: Mock } = { update: vi.fn(), remove: vi.fn() };
+    const addOverlay: Mock = vi.fn(() => overlay);
 
     const renderer: IRenderer = {
         init: () => {},
@@ -58,7 +62,19 @@ export function createFakeRenderer() {
         getDrawAPI: () => drawAPI,
         getImageLoader: () => imageLoader,
         setupEvents: () => {},
+        renderMinimap,
+        addOverlay,
     };
 
-    return { renderer, drawRectCalls, render, resize, resizeWithAnimation, destroy };
+    return {
+        renderer,
+        drawRectCalls,
+        render,
+        resize,
+        resizeWithAnimation,
+        destroy,
+        renderMinimap,
+        addOverlay,
+        overlay,
+    };
 }
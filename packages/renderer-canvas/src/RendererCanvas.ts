@@ -3,35 +3,50 @@ import {
     Config,
     CoordinateTransformer,
     Coords,
+    Easing,
     GestureProcessor,
     ICamera,
     IDrawAPI,
     IImageLoader,
     IRenderer,
+    MinimapFrame,
     NormalizedPointer,
     onClickCallback,
+    onDoubleClickCallback,
     onDrawCallback,
     onHoverCallback,
+    onLongPressCallback,
     onMouseDownCallback,
     onMouseLeaveCallback,
     onMouseUpCallback,
     onRightClickCallback,
     onWheelCallback,
+    PointerCapture,
     onZoomCallback,
+    OverlayHandle,
+    OverlayOptions,
     RendererDependencies,
     ViewportState,
     DrawTransform,
 } from "@canvas-tile-engine/core";
-import { CoordinateOverlayRenderer, DebugOverlay } from "@canvas-tile-engine/renderer-shared/canvas2d";
-import { DrawContext, Layer } from "@canvas-tile-engine/renderer-shared/scene";
+import {
+    CoordinateOverlayRenderer,
+    DebugOverlay,
+    applyViewRotation,
+    fadeCanvas2D,
+} from "@canvas-tile-engine/renderer-shared/canvas2d";
+import { DrawContext, Layer, withMinimapView } from "@canvas-tile-engine/renderer-shared/scene";
 import {
     EventBinder,
+    PointerRouter,
+    HtmlOverlayLayer,
     ImageLoader,
     ResizeWatcher,
     ResponsiveWatcher,
     ReducedMotionWatcher,
     SizeController,
     initStyles,
+    type SafariGestureEvent,
 } from "@canvas-tile-engine/renderer-shared/dom";
 import { BrowserCanvasDraw, BrowserContext2D, createBrowserCanvasDraw } from "./modules/createCanvasDraw";
 
@@ -71,11 +86,14 @@ export class RendererCanvas implements IRenderer {
     private drawAPI!: BrowserCanvasDraw;
     private transformer!: CoordinateTransformer;
     private coordinateOverlayRenderer!: CoordinateOverlayRenderer<CanvasRenderingContext2D>;
+    /** `addOverlay` elements, repositioned after every frame. */
+    private htmlOverlays!: HtmlOverlayLayer;
     private debugOverlay?: DebugOverlay<CanvasRenderingContext2D>;
 
     // Event handling
     private gestureProcessor!: GestureProcessor;
     private eventBinder!: EventBinder;
+    private pointerRouter!: PointerRouter;
     private resizeWatcher?: ResizeWatcher;
     private responsiveWatcher?: ResponsiveWatcher;
     private reducedMotionWatcher?: ReducedMotionWatcher;
@@ -112,6 +130,24 @@ export class RendererCanvas implements IRenderer {
         }
     }
 
+    get onDoubleClick(): onDoubleClickCallback | undefined {
+        return this.gestureProcessor?.onDoubleClick;
+    }
+    set onDoubleClick(cb: onDoubleClickCallback | undefined) {
+        if (this.gestureProcessor) {
+            this.gestureProcessor.onDoubleClick = cb;
+        }
+    }
+
+    get onLongPress(): onLongPressCallback | undefined {
+        return this.gestureProcessor?.onLongPress;
+    }
+    set onLongPress(cb: onLongPressCallback | undefined) {
+        if (this.gestureProcessor) {
+            this.gestureProcessor.onLongPress = cb;
+        }
+    }
+
     get onRightClick(): onRightClickCallback | undefined {
         return this.gestureProcessor?.onRightClick;
     }
@@ -175,9 +211,22 @@ export class RendererCanvas implements IRenderer {
         }
     }
 
+    /** Engine hook that claims pointer drags from the camera (item dragging). */
+    get pointerCapture(): PointerCapture | undefined {
+        return this.gestureProcessor?.pointerCapture;
+    }
+    set pointerCapture(capture: PointerCapture | undefined) {
+        if (this.gestureProcessor) {
+            this.gestureProcessor.pointerCapture = capture;
+        }
+    }
+
     /** Callback fired when camera position changes (drag/zoom). */
     public onCameraChange?: () => void;
 
+    /** Engine hook fired when a user drag starts panning the camera. */
+    public onDragStart?: () => void;
+
     init(deps: RendererDependencies) {
         this.config = deps.config;
         // Initialize canvas
@@ -204,7 +253,13 @@ export class RendererCanvas implements IRenderer {
         this.transformer = deps.transformer;
         this.viewport = deps.viewport;
         this.camera = deps.camera;
-        this.layers = new Layer();
+        this.htmlOverlays = new HtmlOverlayLayer(this.canvasWrapper, {
+            worldToScreen: (x, y) => this.transformer.worldToScreen(x, y),
+            size: () => this.viewport.getSize(),
+            scale: () => this.camera.scale,
+            baseScale: () => this.config.get().scale,
+        });
+        this.layers = new Layer<DrawContext<BrowserContext2D>>(fadeCanvas2D);
         this.drawAPI = createBrowserCanvasDraw(this.layers, deps.transformer, deps.camera);
 
         this.applyCanvasSize();
@@ -235,19 +290,21 @@ export class RendererCanvas implements IRenderer {
                 this.onCameraChange?.();
             },
         );
+        this.gestureProcessor.onDragStart = () => this.onDragStart?.();
+
+        this.pointerRouter = new PointerRouter(this.canvas, this.gestureProcessor, this.config, (e) =>
+            this.normalizePointer(e),
+        );
 
         // Initialize EventBinder with normalized handlers
         this.eventBinder = new EventBinder(this.canvas, {
-            click: this.handleClick,
+            ...this.pointerRouter.handlers,
             contextmenu: this.handleContextMenu,
-            mousedown: this.handleMouseDown,
-            mousemove: this.handleMouseMove,
-            mouseup: this.handleMouseUp,
-            mouseleave: this.handleMouseLeave,
             wheel: this.handleWheel,
-            touchstart: this.handleTouchStart,
-            touchmove: this.handleTouchMove,
-            touchend: this.handleTouchEnd,
+            keydown: this.handleKeyDown,
+            gesturestart: this.handleGestureStart,
+            gesturechange: this.handleGestureChange,
+            gestureend: this.handleGestureEnd,
         });
 
         // Initialize AnimationController and SizeController
@@ -276,6 +333,13 @@ export class RendererCanvas implements IRenderer {
         this.eventBinder.attach();
         this.eventsAttached = true;
 
+        // Keyboard navigation needs focus. Decided once, like the resize
+        // watcher: toggling `keyboard` later only enables/disables the keys,
+        // and an app can still set tabIndex itself.
+        if (this.config.get().eventHandlers.keyboard && this.canvas.tabIndex < 0) {
+            this.canvas.tabIndex = 0;
+        }
+
         // Unconditional: reduced motion is an accessibility preference,
         // not one of the opt-in eventHandlers.
         this.reducedMotionWatcher = new ReducedMotionWatcher(this.config);
@@ -330,25 +394,32 @@ export class RendererCanvas implements IRenderer {
 
     // ─── Normalize Helpers ───
 
-    private normalizePointer(e: MouseEvent | Touch): NormalizedPointer {
+    private normalizePointer(e: PointerEvent | MouseEvent | SafariGestureEvent): NormalizedPointer {
         const rect = this.canvas.getBoundingClientRect();
         return {
             x: e.clientX - rect.left,
             y: e.clientY - rect.top,
             clientX: e.clientX,
             clientY: e.clientY,
+            // Safari gesture events carry no modifier state; mouse and pointer events do
+            ...("shiftKey" in e
+                ? { modifiers: { shiftKey: e.shiftKey, altKey: e.altKey, ctrlKey: e.ctrlKey, metaKey: e.metaKey } }
+                : {}),
+            // Device fields come with pointer events only (wheel and older browsers' click events lack them)
+            ...("pointerId" in e
+                ? {
+                      pointerId: e.pointerId,
+                      pointerType: e.pointerType === "pen" || e.pointerType === "touch" ? e.pointerType : "mouse",
+                      pressure: e.pressure,
+                      tiltX: e.tiltX,
+                      tiltY: e.tiltY,
+                  }
+                : {}),
         };
     }
 
-    private normalizeTouches(touches: TouchList): NormalizedPointer[] {
-        return Array.from(touches).map((t) => this.normalizePointer(t));
-    }
-
     // ─── Event Handlers (DOM → Normalize → GestureProcessor) ───
-
-    private handleClick = (e: MouseEvent): void => {
-        this.gestureProcessor.handleClick(this.normalizePointer(e));
-    };
+    // Click, pointer and touch events go through the PointerRouter.
 
     private handleContextMenu = (e: MouseEvent): void => {
         // Claim the event only when right-click handling is opted into;
@@ -360,84 +431,51 @@ export class RendererCanvas implements IRenderer {
         this.gestureProcessor.handleRightClick(this.normalizePointer(e));
     };
 
-    private handleMouseDown = (e: MouseEvent): void => {
-        // Primary button only: the right button belongs to the context-menu
-        // path (onRightClick) and the middle button to the browser
-        // (autoscroll) — neither should start a drag or fire onMouseDown.
-        if (e.button !== 0) {
-            return;
+    private handleWheel = (e: WheelEvent): void => {
+        // Wheel input the engine does not use (zoom off, or a scroll pan
+        // without drag) must keep scrolling the page.
+        if (this.gestureProcessor.handleWheel(this.normalizePointer(e), e.deltaY, e)) {
+            e.preventDefault();
         }
-        this.gestureProcessor.handlePointerDown(this.normalizePointer(e));
-    };
-
-    private handleMouseMove = (e: MouseEvent): void => {
-        this.gestureProcessor.handlePointerMove(this.normalizePointer(e));
     };
 
-    private handleMouseUp = (e: MouseEvent): void => {
-        // Primary button only, so releasing a secondary button mid-drag
-        // does not end the primary-button drag or fire onMouseUp.
-        if (e.button !== 0) {
-            return;
+    // Safari reports trackpad pinches as gesture events; claimed ones must
+    // not also zoom the page.
+    private handleGestureStart = (e: Event): void => {
+        if (this.gestureProcessor.handleGestureStart()) {
+            e.preventDefault();
         }
-        this.gestureProcessor.handlePointerUp(this.normalizePointer(e));
     };
 
-    private handleMouseLeave = (e: MouseEvent): void => {
-        this.gestureProcessor.handlePointerLeave(this.normalizePointer(e));
-    };
-
-    private handleWheel = (e: WheelEvent): void => {
-        // Without zoom opted in, the wheel must keep scrolling the page.
-        if (!this.config.get().eventHandlers.zoom) {
-            return;
+    private handleGestureChange = (e: Event): void => {
+        const gesture = e as SafariGestureEvent;
+        if (this.gestureProcessor.handleGestureChange(this.normalizePointer(gesture), gesture.scale)) {
+            e.preventDefault();
         }
-        e.preventDefault();
-        this.gestureProcessor.handleWheel(this.normalizePointer(e), e.deltaY);
     };
 
-    // Touch events are claimed only while some touch-driven interaction is
-    // enabled (checked per event: setEventHandlers can toggle at runtime).
-    // While claimed, preventDefault stays unconditional: it stops page
-    // scrolling mid-gesture and suppresses the synthetic mouse events that
-    // would double-fire click/mouse callbacks. When nothing is enabled the
-    // events are left alone so the page scrolls, and taps still reach the
-    // mouse callbacks via the browser's synthetic mouse events.
-    private touchInteractionsEnabled(): boolean {
-        const eventHandlers = this.config.get().eventHandlers;
-        return Boolean(eventHandlers.click || eventHandlers.drag || eventHandlers.zoom || eventHandlers.hover);
-    }
-
-    private handleTouchStart = (e: TouchEvent): void => {
-        if (!this.touchInteractionsEnabled()) {
-            return;
+    private handleGestureEnd = (e: Event): void => {
+        if (this.gestureProcessor.handleGestureEnd()) {
+            e.preventDefault();
         }
-        e.preventDefault();
-        this.gestureProcessor.handleTouchStart(this.normalizeTouches(e.touches));
     };
 
-    private handleTouchMove = (e: TouchEvent): void => {
-        if (!this.touchInteractionsEnabled()) {
+    private handleKeyDown = (e: KeyboardEvent): void => {
+        // Modified presses (Ctrl/Cmd + "+" page zoom, Alt+arrow history)
+        // belong to the browser.
+        if (e.ctrlKey || e.metaKey || e.altKey) {
             return;
         }
-        e.preventDefault();
-        this.gestureProcessor.handleTouchMove(this.normalizeTouches(e.touches));
-    };
-
-    private handleTouchEnd = (e: TouchEvent): void => {
-        if (!this.touchInteractionsEnabled()) {
-            // Handlers may have been disabled mid-gesture: reset the
-            // processor's drag/pinch state (no changed pointer → no
-            // callbacks) without claiming the event.
-            this.gestureProcessor.handleTouchEnd(this.normalizeTouches(e.touches));
-            return;
+        if (this.gestureProcessor.handleKeyDown(e.key)) {
+            e.preventDefault();
         }
-        e.preventDefault();
-        const remaining = this.normalizeTouches(e.touches);
-        const changed = e.changedTouches.length > 0 ? this.normalizePointer(e.changedTouches[0]) : undefined;
-        this.gestureProcessor.handleTouchEnd(remaining, changed);
     };
 
+    /** Show a CSS cursor over the canvas; set by the engine (`eventHandlers.cursor`). */
+    setCursor(cursor: string): void {
+        this.canvas.style.cursor = cursor;
+    }
+
     getDrawAPI(): IDrawAPI {
         return this.drawAPI;
     }
@@ -460,7 +498,9 @@ export class RendererCanvas implements IRenderer {
         this.canvasContext.fillStyle = config.backgroundColor;
         this.canvasContext.fillRect(0, 0, config.size.width, config.size.height);
 
-        // Draw engine layers
+        // Draw engine layers, drawn in view space under the camera rotation and projection
+        this.canvasContext.save();
+        applyViewRotation(this.canvasContext, size, this.camera.rotation ?? 0, this.camera.projection);
         this.layers.drawAll({
             ctx: this.canvasContext,
             camera: this.camera,
@@ -468,6 +508,7 @@ export class RendererCanvas implements IRenderer {
             config,
             topLeft,
         });
+        this.canvasContext.restore();
 
         // User custom draw callback (optional)
         this.onDraw?.(this.canvasContext, topLeft, config, this.drawTransform);
@@ -485,6 +526,79 @@ export class RendererCanvas implements IRenderer {
             }
             this.debugOverlay.draw();
         }
+
+        // HTML overlays follow the frame's camera
+        this.htmlOverlays.update();
+    }
+
+    // ─── Overlays ───
+
+    /**
+     * Place an element in the HTML overlay layer above the canvas; see
+     * `CanvasTileEngine.addOverlay`.
+     */
+    addOverlay(element: unknown, options: OverlayOptions): OverlayHandle {
+        return this.htmlOverlays.add(element as HTMLElement, options);
+    }
+
+    // ─── Minimap ───
+
+    /**
+     * Paint a minimap frame onto its own canvas: the selected layers under
+     * the minimap's view, then the main viewport outline.
+     * @param target The minimap's `HTMLCanvasElement`, sized here to the frame.
+     * @param frame Frame from `minimap.getFrame()`.
+     */
+    renderMinimap(target: unknown, frame: MinimapFrame): void {
+        const canvas = target as HTMLCanvasElement;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) {
+            return;
+        }
+        const { view } = frame;
+        const { width, height } = view.size;
+        const dpr = this.viewport.dpr;
+        if (canvas.width !== width * dpr || canvas.height !== height * dpr) {
+            canvas.width = width * dpr;
+            canvas.height = height * dpr;
+            canvas.style.width = `${width}px`;
+            canvas.style.height = `${height}px`;
+        }
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+        ctx.clearRect(0, 0, width, height);
+        ctx.fillStyle = frame.backgroundColor;
+        ctx.fillRect(0, 0, width, height);
+
+        ctx.save();
+        withMinimapView(this.camera, this.viewport, view, (topLeft) => {
+            this.layers.drawAll(
+                {
+                    ctx,
+                    camera: this.camera,
+                    transformer: this.transformer,
+                    config: { ...this.config.get(), size: { width, height }, scale: view.scale },
+                    topLeft,
+                },
+                frame.layers,
+            );
+        });
+        ctx.restore();
+
+        // Main viewport outline
+        const { fillStyle, strokeStyle, lineWidth } = frame.viewportStyle;
+        ctx.beginPath();
+        frame.viewport.forEach((corner, i) =>
+            i === 0 ? ctx.moveTo(corner.x, corner.y) : ctx.lineTo(corner.x, corner.y),
+        );
+        ctx.closePath();
+        ctx.fillStyle = fillStyle;
+        ctx.fill();
+        if (lineWidth > 0) {
+            ctx.strokeStyle = strokeStyle;
+            ctx.lineWidth = lineWidth;
+            ctx.stroke();
+        }
     }
 
     resize(width: number, height: number): void {
@@ -504,7 +618,13 @@ export class RendererCanvas implements IRenderer {
         this.canvasContext.setTransform(dpr, 0, 0, dpr, 0, 0);
     }
 
-    resizeWithAnimation(width: number, height: number, durationMs: number, onComplete?: () => void): void {
+    resizeWithAnimation(
+        width: number,
+        height: number,
+        durationMs: number,
+        onComplete?: () => void,
+        easing?: Easing,
+    ): void {
         if (this.config.get().responsive) {
             console.warn(
                 "Canvas Tile Engine: resizeWithAnimation() is disabled when responsive mode is enabled. " +
@@ -512,11 +632,18 @@ export class RendererCanvas implements IRenderer {
             );
             return;
         }
-        this.sizeController.resizeWithAnimation(width, height, durationMs, this.animationController, () => {
-            // Trigger onResize callback after programmatic resize completes
-            this.onResize?.();
-            onComplete?.();
-        });
+        this.sizeController.resizeWithAnimation(
+            width,
+            height,
+            durationMs,
+            this.animationController,
+            () => {
+                // Trigger onResize callback after programmatic resize completes
+                this.onResize?.();
+                onComplete?.();
+            },
+            easing,
+        );
     }
 
     destroy(): void {
@@ -525,6 +652,7 @@ export class RendererCanvas implements IRenderer {
             this.eventBinder.detach();
             this.eventsAttached = false;
         }
+        this.pointerRouter.reset();
         this.resizeWatcher?.stop();
         this.resizeWatcher = undefined;
         this.responsiveWatcher?.stop();
@@ -534,11 +662,13 @@ export class RendererCanvas implements IRenderer {
 
         // Cancel animations
         this.animationController.cancelAll();
+        this.gestureProcessor.destroy();
 
         // Cleanup drawing
         this.drawAPI.destroy();
         this.layers.clear();
         this.debugOverlay?.destroy();
+        this.htmlOverlays.destroy();
         this.imageLoader.clear();
     }
 
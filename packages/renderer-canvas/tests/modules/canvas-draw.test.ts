@@ -1055,3 +1055,61 @@ describe("CanvasDraw per-item line style", () => {
         expect(strokes[0].strokeStyle).toBe("#0f0");
     });
 });
+
+describe("CanvasDraw isometric projection", () => {
+    function setupIsometric() {
+        const camera = {
+            x: 0,
+            y: 0,
+            scale: 10,
+            rotation: 0,
+            projection: { type: "isometric", tileRatio: 0.5 },
+        } as unknown as ICamera;
+        const transformer = new CoordinateTransformer(camera);
+        const layers = new Layer<DrawContext<BrowserContext2D>>();
+        const draw = createBrowserCanvasDraw(layers, transformer, camera);
+        const config = { size: { width: 100, height: 100 }, scale: 10 } as never;
+        const render = (ctx: CanvasRenderingContext2D) =>
+            layers.drawAll({ ctx, camera, transformer, config, topLeft: { x: 0, y: 0 } });
+        return { draw, render };
+    }
+
+    it("paints back to front by screen row, keeping ties in draw order", () => {
+        const { draw, render } = setupIsometric();
+        const painted: string[] = [];
+        const { ctx } = makeRecordingCtx();
+        Object.assign(ctx, {
+            fill() {
+                painted.push(ctx.fillStyle as string);
+            },
+        });
+
+        draw.drawRect([
+            { x: 3, y: 3, size: 1, style: { fillStyle: "front" } },
+            { x: 2, y: 1, size: 1, style: { fillStyle: "middle-a" } },
+            { x: 1, y: 1, size: 1, style: { fillStyle: "back" } },
+            { x: 1, y: 2, size: 1, style: { fillStyle: "middle-b" } },
+        ]);
+        render(ctx);
+
+        expect(painted).toEqual(["back", "middle-a", "middle-b", "front"]);
+    });
+
+    it("stands text upright by undoing the projection around its anchor", () => {
+        const { draw, render } = setupIsometric();
+        const transforms: number[][] = [];
+        const { ctx, texts } = makeTextRecordingCtx();
+        Object.assign(ctx, {
+            transform(...args: number[]) {
+                transforms.push(args);
+            },
+        });
+
+        draw.drawText([{ x: 1, y: 1, text: "label" }]);
+        render(ctx);
+
+        expect(texts.map((t) => t.text)).toEqual(["label"]);
+        // The inverse of the 2:1 projection
+        expect(transforms).toEqual([[1, -1, 2, 2, 0, 0]]);
+    });
+});
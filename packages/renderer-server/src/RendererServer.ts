@@ -7,8 +7,10 @@ import {
     IImageLoader,
     IRenderer,
     onClickCallback,
+    onDoubleClickCallback,
     onDrawCallback,
     onHoverCallback,
+    onLongPressCallback,
     onMouseDownCallback,
     onMouseLeaveCallback,
     onMouseUpCallback,
@@ -19,7 +21,11 @@ import {
     DrawTransform,
 } from "@canvas-tile-engine/core";
 import { createCanvas, type Canvas, type Image, type SKRSContext2D } from "@napi-rs/canvas";
-import { CoordinateOverlayRenderer } from "@canvas-tile-engine/renderer-shared/canvas2d";
+import {
+    CoordinateOverlayRenderer,
+    applyViewRotation,
+    fadeCanvas2D,
+} from "@canvas-tile-engine/renderer-shared/canvas2d";
 import { DrawContext, Layer } from "@canvas-tile-engine/renderer-shared/scene";
 import { createServerCanvasDraw, type ServerCanvasDraw } from "./modules/createCanvasDraw";
 import { ImageLoaderServer } from "./modules/ImageLoaderServer";
@@ -70,6 +76,8 @@ export class RendererServer implements IRenderer<ServerMount, Image> {
 
     // Interaction callbacks are part of IRenderer but never fire on the server.
     public onClick?: onClickCallback;
+    public onDoubleClick?: onDoubleClickCallback;
+    public onLongPress?: onLongPressCallback;
     public onRightClick?: onRightClickCallback;
     public onHover?: onHoverCallback;
     public onMouseDown?: onMouseDownCallback;
@@ -96,7 +104,7 @@ export class RendererServer implements IRenderer<ServerMount, Image> {
         }
         this.ctx = ctx;
 
-        this.layers = new Layer();
+        this.layers = new Layer<DrawContext<SKRSContext2D>>(fadeCanvas2D);
         this.drawAPI = createServerCanvasDraw(this.layers, this.transformer, this.camera);
         this.coordinateOverlay = new CoordinateOverlayRenderer(this.ctx, this.camera, this.config, this.viewport);
 
@@ -128,7 +136,9 @@ export class RendererServer implements IRenderer<ServerMount, Image> {
         this.ctx.fillStyle = config.backgroundColor;
         this.ctx.fillRect(0, 0, config.size.width, config.size.height);
 
-        // Engine layers
+        // Engine layers, drawn in view space under the camera rotation and projection
+        this.ctx.save();
+        applyViewRotation(this.ctx, size, this.camera.rotation ?? 0, this.camera.projection);
         this.layers.drawAll({
             ctx: this.ctx,
             camera: this.camera,
@@ -136,6 +146,7 @@ export class RendererServer implements IRenderer<ServerMount, Image> {
             config,
             topLeft,
         });
+        this.ctx.restore();
 
         // User custom draw callback (optional)
         this.onDraw?.(this.ctx, topLeft, config, this.drawTransform);
@@ -27,6 +27,11 @@ import {
     itemsBounds,
     pathItemBounds,
     DrawTransform,
+    depthSorted,
+    invertMatrix,
+    isIsometric,
+    projectionMatrix,
+    type ViewMatrix,
 } from "@canvas-tile-engine/core";
 import type {
     AnchoredItem,
@@ -35,11 +40,13 @@ import type {
     PathDecorationStyle,
     RendererDrawOptions,
     RendererImageDrawOptions,
+    ScaleRange,
     ShapeDecorationStyle,
     TextDecorationStyle,
 } from "@canvas-tile-engine/core";
 import { DrawContext, Layer } from "../scene/Layer";
-import { getViewportBounds, isVisible } from "../geometry/culling";
+import { getViewRect, getViewportBounds, isVisible } from "../geometry/culling";
+import { forEachHexGridEdge } from "../geometry/hexGrid";
 import { applyLineWidth } from "./applyLineWidth";
 import type { Canvas2DContextLike, CanvasImageSourceLike, OffscreenCanvasFactory } from "./types";
 
@@ -58,7 +65,7 @@ interface StaticCache<TContext, TCanvas> {
 
 /**
  * The Canvas2D drawing pipeline (culling, spatial index, origin, rotation,
- * static caching) shared by the browser Canvas2D renderer and the headless
+ * isometric depth order, static caching) shared by the browser Canvas2D renderer and the headless
  * server renderer, generic over the platform's context, image, and offscreen
  * canvas types.
  * @internal
@@ -68,10 +75,14 @@ export class CanvasDraw<
     TImage extends CanvasImageSourceLike,
     TCanvas extends CanvasImageSourceLike,
 > implements IDrawAPI<TImage> {
-    /** Transform helpers handed to custom draw callbacks. */
+    /**
+     * Transform helpers handed to custom draw callbacks. Layer callbacks run
+     * under the renderer's view rotation, so they map to unrotated view
+     * pixels — identical to screen pixels while the camera is not rotated.
+     */
     private drawTransform: DrawTransform = {
-        worldToScreen: (x, y) => this.transformer.worldToScreen(x, y),
-        screenToWorld: (x, y) => this.transformer.screenToWorld(x, y),
+        worldToScreen: (x, y) => this.transformer.worldToView(x, y),
+        screenToWorld: (x, y) => this.transformer.viewToWorld(x, y),
     };
     private staticCaches = new Map<string, StaticCache<TContext, TCanvas>>();
     private warnedStaticCacheDisabled = false;
@@ -96,10 +107,15 @@ export class CanvasDraw<
     addDrawFunction(
         fn: (ctx: TContext, coords: Coords, config: Required<CanvasTileEngineConfig>, transform: DrawTransform) => void,
         layer: number = 1,
+        options?: ScaleRange,
     ): DrawHandle {
-        return this.layers.add(layer, ({ ctx, config, topLeft }) => {
-            fn(ctx, topLeft, config, this.drawTransform);
-        });
+        return this.layers.add(
+            layer,
+            ({ ctx, config, topLeft }) => {
+                fn(ctx, topLeft, config, this.drawTransform);
+            },
+            options,
+        );
     }
 
     drawRect(
@@ -115,78 +131,82 @@ export class CanvasDraw<
         const useSpatialIndex = list.length > SPATIAL_INDEX_THRESHOLD;
         const spatialIndex = useSpatialIndex ? SpatialIndex.fromArray(list) : null;
 
-        return this.layers.add(layer, ({ ctx, config, topLeft }) => {
-            const bounds = getViewportBounds(topLeft, config);
-            const visibleItems = spatialIndex
-                ? spatialIndex.query(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY)
-                : list;
-
-            ctx.save();
-            let lastFillStyle: string | undefined;
-            let lastStrokeStyle: string | undefined;
-
-            for (const item of visibleItems) {
-                if (visibleOf?.(item) === false) {
-                    continue;
-                }
-                const size = item.size ?? 1;
-                const w = item.width ?? size;
-                const h = item.height ?? size;
-                const origin = resolveOrigin(item.origin);
-                const deco = styleOf?.(item);
-                const style = deco ? { ...item.style, ...deco } : item.style;
+        return this.layers.add(
+            layer,
+            ({ ctx, config, topLeft }) => {
+                const bounds = getViewportBounds(topLeft, config);
+                const visibleItems = spatialIndex
+                    ? spatialIndex.query(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY)
+                    : list;
 
-                // Skip visibility check if using spatial index (already filtered)
-                if (!spatialIndex && !isVisible(item.x, item.y, Math.max(w, h) / 2, topLeft, config)) {
-                    continue;
-                }
+                ctx.save();
+                let lastFillStyle: string | undefined;
+                let lastStrokeStyle: string | undefined;
 
-                const pos = this.transformer.worldToScreen(item.x, item.y);
-                const pxW = w * this.camera.scale;
-                const pxH = h * this.camera.scale;
-                const { x: drawX, y: drawY } = computeOriginOffset(pos, pxW, pxH, origin, this.camera.scale);
+                for (const item of this.paintOrder(visibleItems)) {
+                    if (visibleOf?.(item) === false) {
+                        continue;
+                    }
+                    const size = item.size ?? 1;
+                    const w = item.width ?? size;
+                    const h = item.height ?? size;
+                    const origin = resolveOrigin(item.origin);
+                    const deco = styleOf?.(item);
+                    const style = deco ? { ...item.style, ...deco } : item.style;
+
+                    // Skip visibility check if using spatial index (already filtered)
+                    if (!spatialIndex && !isVisible(item.x, item.y, Math.max(w, h) / 2, topLeft, config)) {
+                        continue;
+                    }
 
-                // Only update style when changed (reduces state changes)
-                if (style?.fillStyle && style.fillStyle !== lastFillStyle) {
-                    ctx.fillStyle = style.fillStyle;
-                    lastFillStyle = style.fillStyle;
-                }
-                if (style?.strokeStyle && style.strokeStyle !== lastStrokeStyle) {
-                    ctx.strokeStyle = style.strokeStyle;
-                    lastStrokeStyle = style.strokeStyle;
-                }
+                    const pos = this.transformer.worldToView(item.x, item.y);
+                    const pxW = w * this.camera.scale;
+                    const pxH = h * this.camera.scale;
+                    const { x: drawX, y: drawY } = computeOriginOffset(pos, pxW, pxH, origin, this.camera.scale);
 
-                const rotationDeg = item.rotate ?? 0;
-                const rotation = rotationDeg * (Math.PI / 180);
+                    // Only update style when changed (reduces state changes)
+                    if (style?.fillStyle && style.fillStyle !== lastFillStyle) {
+                        ctx.fillStyle = style.fillStyle;
+                        lastFillStyle = style.fillStyle;
+                    }
+                    if (style?.strokeStyle && style.strokeStyle !== lastStrokeStyle) {
+                        ctx.strokeStyle = style.strokeStyle;
+                        lastStrokeStyle = style.strokeStyle;
+                    }
 
-                const radius = resolveRadiusPx(item.radius, this.camera.scale);
+                    const rotationDeg = item.rotate ?? 0;
+                    const rotation = rotationDeg * (Math.PI / 180);
 
-                if (rotationDeg !== 0) {
-                    const centerX = drawX + pxW / 2;
-                    const centerY = drawY + pxH / 2;
-                    ctx.save();
-                    ctx.translate(centerX, centerY);
-                    ctx.rotate(rotation);
-                    ctx.beginPath();
-                    if (radius && ctx.roundRect) {
-                        ctx.roundRect(-pxW / 2, -pxH / 2, pxW, pxH, radius);
-                    } else {
-                        ctx.rect(-pxW / 2, -pxH / 2, pxW, pxH);
-                    }
-                    this.fillStrokePath(ctx, style, this.camera.scale);
-                    ctx.restore();
-                } else {
-                    ctx.beginPath();
-                    if (radius && ctx.roundRect) {
-                        ctx.roundRect(drawX, drawY, pxW, pxH, radius);
+                    const radius = resolveRadiusPx(item.radius, this.camera.scale);
+
+                    if (rotationDeg !== 0) {
+                        const centerX = drawX + pxW / 2;
+                        const centerY = drawY + pxH / 2;
+                        ctx.save();
+                        ctx.translate(centerX, centerY);
+                        ctx.rotate(rotation);
+                        ctx.beginPath();
+                        if (radius && ctx.roundRect) {
+                            ctx.roundRect(-pxW / 2, -pxH / 2, pxW, pxH, radius);
+                        } else {
+                            ctx.rect(-pxW / 2, -pxH / 2, pxW, pxH);
+                        }
+                        this.fillStrokePath(ctx, style, this.camera.scale);
+                        ctx.restore();
                     } else {
-                        ctx.rect(drawX, drawY, pxW, pxH);
+                        ctx.beginPath();
+                        if (radius && ctx.roundRect) {
+                            ctx.roundRect(drawX, drawY, pxW, pxH, radius);
+                        } else {
+                            ctx.rect(drawX, drawY, pxW, pxH);
+                        }
+                        this.fillStrokePath(ctx, style, this.camera.scale);
                     }
-                    this.fillStrokePath(ctx, style, this.camera.scale);
                 }
-            }
-            ctx.restore();
-        });
+                ctx.restore();
+            },
+            options,
+        );
     }
 
     drawLine(
@@ -199,86 +219,91 @@ export class CanvasDraw<
         const styleOf = options?.styleOf;
         const visibleOf = options?.visibleOf;
 
-        return this.layers.add(layer, ({ ctx, config, topLeft }) => {
-            ctx.save();
-            const baseStroke = style?.strokeStyle ?? "#000000";
-            ctx.strokeStyle = baseStroke;
-
-            const baseWidthPx = resolveLineWidthPx(style, this.camera.scale);
-            const resetAlpha = applyLineWidth(ctx, baseWidthPx);
-            const baseDash = resolveLineDashPx(style, this.camera.scale);
-            if (baseDash) {
-                ctx.setLineDash(baseDash);
-            }
-
-            // Contiguous batching keeps the array's paint order (later items
-            // draw on top): runs on the shared batch style share one stroke;
-            // an item with its own `style` or a styleOf decoration flushes
-            // the open run, strokes on its own with the merged style, and
-            // the next run starts fresh.
-            let open = false;
-            const flush = () => {
-                if (!open) {
-                    return;
+        return this.layers.add(
+            layer,
+            ({ ctx, config, topLeft }) => {
+                ctx.save();
+                const baseStroke = style?.strokeStyle ?? "#000000";
+                ctx.strokeStyle = baseStroke;
+
+                const baseWidthPx = resolveLineWidthPx(style, this.camera.scale);
+                const resetAlpha = applyLineWidth(ctx, baseWidthPx);
+                const baseDash = resolveLineDashPx(style, this.camera.scale);
+                if (baseDash) {
+                    ctx.setLineDash(baseDash);
                 }
-                ctx.stroke();
-                open = false;
-            };
 
-            for (const item of list) {
-                if (visibleOf?.(item) === false) {
-                    continue;
-                }
-                const centerX = (item.from.x + item.to.x) / 2;
-                const centerY = (item.from.y + item.to.y) / 2;
-                const halfExtent = Math.max(Math.abs(item.from.x - item.to.x), Math.abs(item.from.y - item.to.y)) / 2;
-                if (!isVisible(centerX, centerY, halfExtent, topLeft, config)) {
-                    continue;
-                }
+                // Contiguous batching keeps the array's paint order (later items
+                // draw on top): runs on the shared batch style share one stroke;
+                // an item with its own `style` or a styleOf decoration flushes
+                // the open run, strokes on its own with the merged style, and
+                // the next run starts fresh.
+                let open = false;
+                const flush = () => {
+                    if (!open) {
+                        return;
+                    }
+                    ctx.stroke();
+                    open = false;
+                };
 
-                const a = this.transformer.worldToScreen(item.from.x, item.from.y);
-                const b = this.transformer.worldToScreen(item.to.x, item.to.y);
-
-                const deco = styleOf?.(item);
-                if (deco || item.style) {
-                    flush();
-                    // Width resolves from the registration-time layers only
-                    // (call style + item.style) — the same layers hit testing
-                    // reads — so a width smuggled past the decoration types
-                    // (JS callers, non-literal returns) can never desync the
-                    // painted stroke from the hit corridor. Color and dash
-                    // take the full merge including the decoration.
-                    const registration = overlayLineStyle(style, item.style);
-                    const merged = overlayLineStyle(registration, deco);
-                    ctx.strokeStyle = merged.strokeStyle ?? "#000000";
-                    ctx.setLineDash(resolveLineDashPx(merged, this.camera.scale) ?? []);
-                    // Clear the batch's sub-pixel alpha before applying the
-                    // item width so the two cannot compound.
-                    resetAlpha();
-                    const resetItemAlpha = applyLineWidth(ctx, resolveLineWidthPx(registration, this.camera.scale));
-                    ctx.beginPath();
+                for (const item of list) {
+                    if (visibleOf?.(item) === false) {
+                        continue;
+                    }
+                    const centerX = (item.from.x + item.to.x) / 2;
+                    const centerY = (item.from.y + item.to.y) / 2;
+                    const halfExtent =
+                        Math.max(Math.abs(item.from.x - item.to.x), Math.abs(item.from.y - item.to.y)) / 2;
+                    if (!isVisible(centerX, centerY, halfExtent, topLeft, config)) {
+                        continue;
+                    }
+
+                    const a = this.transformer.worldToView(item.from.x, item.from.y);
+                    const b = this.transformer.worldToView(item.to.x, item.to.y);
+
+                    const deco = styleOf?.(item);
+                    if (deco || item.style) {
+                        flush();
+                        // Width resolves from the registration-time layers only
+                        // (call style + item.style) — the same layers hit testing
+                        // reads — so a width smuggled past the decoration types
+                        // (JS callers, non-literal returns) can never desync the
+                        // painted stroke from the hit corridor. Color and dash
+                        // take the full merge including the decoration.
+                        const registration = overlayLineStyle(style, item.style);
+                        const merged = overlayLineStyle(registration, deco);
+                        ctx.strokeStyle = merged.strokeStyle ?? "#000000";
+                        ctx.setLineDash(resolveLineDashPx(merged, this.camera.scale) ?? []);
+                        // Clear the batch's sub-pixel alpha before applying the
+                        // item width so the two cannot compound.
+                        resetAlpha();
+                        const resetItemAlpha = applyLineWidth(ctx, resolveLineWidthPx(registration, this.camera.scale));
+                        ctx.beginPath();
+                        ctx.moveTo(a.x, a.y);
+                        ctx.lineTo(b.x, b.y);
+                        ctx.stroke();
+                        resetItemAlpha();
+                        applyLineWidth(ctx, baseWidthPx);
+                        ctx.strokeStyle = baseStroke;
+                        ctx.setLineDash(baseDash ?? []);
+                        continue;
+                    }
+
+                    if (!open) {
+                        ctx.beginPath();
+                        open = true;
+                    }
                     ctx.moveTo(a.x, a.y);
                     ctx.lineTo(b.x, b.y);
-                    ctx.stroke();
-                    resetItemAlpha();
-                    applyLineWidth(ctx, baseWidthPx);
-                    ctx.strokeStyle = baseStroke;
-                    ctx.setLineDash(baseDash ?? []);
-                    continue;
                 }
+                flush();
 
-                if (!open) {
-                    ctx.beginPath();
-                    open = true;
-                }
-                ctx.moveTo(a.x, a.y);
-                ctx.lineTo(b.x, b.y);
-            }
-            flush();
-
-            resetAlpha?.();
-            ctx.restore();
-        });
+                resetAlpha?.();
+                ctx.restore();
+            },
+            options,
+        );
     }
 
     drawCircle(
@@ -297,58 +322,62 @@ export class CanvasDraw<
         // the anchor-index query is padded by this per frame (scale-divided).
         const maxSizePx = list.reduce((max, item) => Math.max(max, item.sizePx ?? 0), 0);
 
-        return this.layers.add(layer, ({ ctx, config, topLeft }) => {
-            const bounds = getViewportBounds(topLeft, config);
-            const sizePxPad = maxSizePx / this.camera.scale;
-            const visibleItems = spatialIndex
-                ? spatialIndex.query(
-                      bounds.minX - sizePxPad,
-                      bounds.minY - sizePxPad,
-                      bounds.maxX + sizePxPad,
-                      bounds.maxY + sizePxPad,
-                  )
-                : list;
-
-            ctx.save();
-            let lastFillStyle: string | undefined;
-            let lastStrokeStyle: string | undefined;
-
-            for (const item of visibleItems) {
-                if (visibleOf?.(item) === false) {
-                    continue;
-                }
-                // sizePx wins over size, resolved against the live scale
-                const sizeWorld = resolveSizeWorld(item, this.camera.scale);
-                const origin = resolveOrigin(item.origin);
-                const deco = styleOf?.(item);
-                const style = deco ? { ...item.style, ...deco } : item.style;
+        return this.layers.add(
+            layer,
+            ({ ctx, config, topLeft }) => {
+                const bounds = getViewportBounds(topLeft, config);
+                const sizePxPad = maxSizePx / this.camera.scale;
+                const visibleItems = spatialIndex
+                    ? spatialIndex.query(
+                          bounds.minX - sizePxPad,
+                          bounds.minY - sizePxPad,
+                          bounds.maxX + sizePxPad,
+                          bounds.maxY + sizePxPad,
+                      )
+                    : list;
 
-                // Skip visibility check if using spatial index (already filtered)
-                if (!spatialIndex && !isVisible(item.x, item.y, sizeWorld / 2, topLeft, config)) {
-                    continue;
-                }
+                ctx.save();
+                let lastFillStyle: string | undefined;
+                let lastStrokeStyle: string | undefined;
+
+                for (const item of this.paintOrder(visibleItems)) {
+                    if (visibleOf?.(item) === false) {
+                        continue;
+                    }
+                    // sizePx wins over size, resolved against the live scale
+                    const sizeWorld = resolveSizeWorld(item, this.camera.scale);
+                    const origin = resolveOrigin(item.origin);
+                    const deco = styleOf?.(item);
+                    const style = deco ? { ...item.style, ...deco } : item.style;
+
+                    // Skip visibility check if using spatial index (already filtered)
+                    if (!spatialIndex && !isVisible(item.x, item.y, sizeWorld / 2, topLeft, config)) {
+                        continue;
+                    }
 
-                const pos = this.transformer.worldToScreen(item.x, item.y);
-                const pxSize = sizeWorld * this.camera.scale;
-                const radius = pxSize / 2;
-                const { x: drawX, y: drawY } = computeOriginOffset(pos, pxSize, pxSize, origin, this.camera.scale);
+                    const pos = this.transformer.worldToView(item.x, item.y);
+                    const pxSize = sizeWorld * this.camera.scale;
+                    const radius = pxSize / 2;
+                    const { x: drawX, y: drawY } = computeOriginOffset(pos, pxSize, pxSize, origin, this.camera.scale);
 
-                // Only update style when changed
-                if (style?.fillStyle && style.fillStyle !== lastFillStyle) {
-                    ctx.fillStyle = style.fillStyle;
-                    lastFillStyle = style.fillStyle;
-                }
-                if (style?.strokeStyle && style.strokeStyle !== lastStrokeStyle) {
-                    ctx.strokeStyle = style.strokeStyle;
-                    lastStrokeStyle = style.strokeStyle;
-                }
+                    // Only update style when changed
+                    if (style?.fillStyle && style.fillStyle !== lastFillStyle) {
+                        ctx.fillStyle = style.fillStyle;
+                        lastFillStyle = style.fillStyle;
+                    }
+                    if (style?.strokeStyle && style.strokeStyle !== lastStrokeStyle) {
+                        ctx.strokeStyle = style.strokeStyle;
+                        lastStrokeStyle = style.strokeStyle;
+                    }
 
-                ctx.beginPath();
-                ctx.arc(drawX + radius, drawY + radius, radius, 0, Math.PI * 2);
-                this.fillStrokePath(ctx, style, this.camera.scale);
-            }
-            ctx.restore();
-        });
+                    ctx.beginPath();
+                    ctx.arc(drawX + radius, drawY + radius, radius, 0, Math.PI * 2);
+                    this.fillStrokePath(ctx, style, this.camera.scale);
+                }
+                ctx.restore();
+            },
+            options,
+        );
     }
 
     drawText(
@@ -364,56 +393,67 @@ export class CanvasDraw<
         const useSpatialIndex = list.length > SPATIAL_INDEX_THRESHOLD;
         const spatialIndex = useSpatialIndex ? SpatialIndex.fromArray(list) : null;
 
-        return this.layers.add(layer, ({ ctx, config, topLeft }) => {
-            const bounds = getViewportBounds(topLeft, config);
-            const visibleItems = spatialIndex
-                ? spatialIndex.query(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY)
-                : list;
+        return this.layers.add(
+            layer,
+            ({ ctx, config, topLeft }) => {
+                const bounds = getViewportBounds(topLeft, config);
+                const visibleItems = spatialIndex
+                    ? spatialIndex.query(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY)
+                    : list;
+                const upright = this.uprightMatrix();
 
-            ctx.save();
+                ctx.save();
 
-            for (const item of visibleItems) {
-                if (visibleOf?.(item) === false) {
-                    continue;
-                }
-                const size = item.size ?? 1;
-                const deco = styleOf?.(item);
-                const style = deco ? { ...item.style, ...deco } : item.style;
+                for (const item of this.paintOrder(visibleItems)) {
+                    if (visibleOf?.(item) === false) {
+                        continue;
+                    }
+                    const size = item.size ?? 1;
+                    const deco = styleOf?.(item);
+                    const style = deco ? { ...item.style, ...deco } : item.style;
 
-                // fontPx is zoom-independent; its world-space extent shrinks as scale grows
-                const extentWorld = item.fontPx !== undefined ? item.fontPx / this.camera.scale : size;
+                    // fontPx is zoom-independent; its world-space extent shrinks as scale grows
+                    const extentWorld = item.fontPx !== undefined ? item.fontPx / this.camera.scale : size;
 
-                // Skip visibility check if using spatial index (already filtered)
-                if (!spatialIndex && !isVisible(item.x, item.y, extentWorld, topLeft, config)) {
-                    continue;
-                }
+                    // Skip visibility check if using spatial index (already filtered)
+                    if (!spatialIndex && !isVisible(item.x, item.y, extentWorld, topLeft, config)) {
+                        continue;
+                    }
 
-                const pxSize = item.fontPx ?? size * this.camera.scale;
-                const family = style?.fontFamily ?? "sans-serif";
-                ctx.font = `${pxSize}px ${family}`;
+                    const pxSize = item.fontPx ?? size * this.camera.scale;
+                    const family = style?.fontFamily ?? "sans-serif";
+                    ctx.font = `${pxSize}px ${family}`;
 
-                if (style?.fillStyle) {
-                    ctx.fillStyle = style.fillStyle;
-                }
-                ctx.textAlign = style?.textAlign ?? "center";
-                ctx.textBaseline = style?.textBaseline ?? "middle";
+                    if (style?.fillStyle) {
+                        ctx.fillStyle = style.fillStyle;
+                    }
+                    ctx.textAlign = style?.textAlign ?? "center";
+                    ctx.textBaseline = style?.textBaseline ?? "middle";
 
-                const pos = this.transformer.worldToScreen(item.x, item.y);
+                    const pos = this.transformer.worldToView(item.x, item.y);
 
-                const rotationDeg = item.rotate ?? 0;
-                if (rotationDeg !== 0) {
-                    const rotation = rotationDeg * (Math.PI / 180);
-                    ctx.save();
-                    ctx.translate(pos.x, pos.y);
-                    ctx.rotate(rotation);
-                    ctx.fillText(item.text, 0, 0);
-                    ctx.restore();
-                } else {
-                    ctx.fillText(item.text, pos.x, pos.y);
+                    if (upright) {
+                        this.standUpright(ctx, pos, upright);
+                    }
+                    const rotationDeg = item.rotate ?? 0;
+                    if (rotationDeg !== 0) {
+                        const rotation = rotationDeg * (Math.PI / 180);
+                        ctx.save();
+                        ctx.translate(pos.x, pos.y);
+                        ctx.rotate(rotation);
+                        ctx.fillText(item.text, 0, 0);
+                        ctx.restore();
+                    } else {
+                        ctx.fillText(item.text, pos.x, pos.y);
+                    }
+                    if (upright) {
+                        ctx.restore();
+                    }
                 }
-            }
-            ctx.restore();
-        });
+                ctx.restore();
+            },
+            options,
+        );
     }
 
     drawPath(
@@ -426,74 +466,104 @@ export class CanvasDraw<
         // Conservative world bounds per item for culling, computed once.
         const itemBounds = items.map((item) => pathItemBounds(item));
 
-        return this.layers.add(layer, ({ ctx, config, topLeft }) => {
-            for (let n = 0; n < items.length; n++) {
-                const item = items[n];
-                const bounds = itemBounds[n];
-                if (!bounds || visibleOf?.(item) === false) {
-                    continue;
-                }
+        return this.layers.add(
+            layer,
+            ({ ctx, config, topLeft }) => {
+                for (let n = 0; n < items.length; n++) {
+                    const item = items[n];
+                    const bounds = itemBounds[n];
+                    if (!bounds || visibleOf?.(item) === false) {
+                        continue;
+                    }
 
-                const centerX = (bounds.minX + bounds.maxX) / 2;
-                const centerY = (bounds.minY + bounds.maxY) / 2;
-                const halfExtent = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) / 2;
-                if (!isVisible(centerX, centerY, halfExtent, topLeft, config)) {
-                    continue;
-                }
+                    const centerX = (bounds.minX + bounds.maxX) / 2;
+                    const centerY = (bounds.minY + bounds.maxY) / 2;
+                    const halfExtent = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) / 2;
+                    if (!isVisible(centerX, centerY, halfExtent, topLeft, config)) {
+                        continue;
+                    }
 
-                const deco = styleOf?.(item);
-                const style = deco ? { ...item.style, ...deco } : item.style;
-                const filled = style?.fillStyle !== undefined;
+                    const deco = styleOf?.(item);
+                    const style = deco ? { ...item.style, ...deco } : item.style;
+                    const filled = style?.fillStyle !== undefined;
 
-                ctx.save();
-                ctx.beginPath();
-                if (item.commands !== undefined) {
-                    // Free-form commands replay natively (curves stay curves);
-                    // degrees→radians and world→screen convert in core so all
-                    // renderers trace identical geometry.
-                    traceCommands(
-                        ctx,
-                        item.commands,
-                        (x, y) => this.transformer.worldToScreen(x, y),
-                        this.camera.scale,
-                    );
-                } else {
-                    const pts = item.points!.map((p) => this.transformer.worldToScreen(p.x, p.y));
-                    // Corner radius from item.style: registration-time only (see
-                    // the stroke-width note below).
-                    traceRoundedPath(
-                        ctx,
-                        pts,
-                        item.closed === true,
-                        resolveCornerRadiusPx(item.style, this.camera.scale),
-                    );
-                }
+                    ctx.save();
+                    ctx.beginPath();
+                    if (item.commands !== undefined) {
+                        // Free-form commands replay natively (curves stay curves);
+                        // degrees→radians and world→screen convert in core so all
+                        // renderers trace identical geometry.
+                        traceCommands(
+                            ctx,
+                            item.commands,
+                            (x, y) => this.transformer.worldToView(x, y),
+                            this.camera.scale,
+                        );
+                    } else {
+                        const pts = item.points!.map((p) => this.transformer.worldToView(p.x, p.y));
+                        // Corner radius from item.style: registration-time only (see
+                        // the stroke-width note below).
+                        traceRoundedPath(
+                            ctx,
+                            pts,
+                            item.closed === true,
+                            resolveCornerRadiusPx(item.style, this.camera.scale),
+                        );
+                    }
 
-                if (filled) {
-                    ctx.fillStyle = style!.fillStyle!;
-                    ctx.fill(item.fillRule ?? "nonzero");
-                }
-                // A fill-only item draws no outline; everything else strokes
-                // (defaulting to a hairline, matching the legacy behavior).
-                if (style?.strokeStyle !== undefined || !filled) {
-                    if (style?.strokeStyle) {
-                        ctx.strokeStyle = style.strokeStyle;
+                    if (filled) {
+                        ctx.fillStyle = style!.fillStyle!;
+                        ctx.fill(item.fillRule ?? "nonzero");
                     }
-                    // Stroke width from item.style, not the decorated merge:
-                    // hit testing reads the registration-time style, and the
-                    // decoration types' width exclusion is only type-level —
-                    // a smuggled width must not desync paint from hit.
-                    const resetAlpha = applyLineWidth(ctx, resolveLineWidthPx(item.style, this.camera.scale));
-                    const dash = resolveLineDashPx(style, this.camera.scale);
-                    if (dash) {
-                        ctx.setLineDash(dash);
+                    // A fill-only item draws no outline; everything else strokes
+                    // (defaulting to a hairline, matching the legacy behavior).
+                    if (style?.strokeStyle !== undefined || !filled) {
+                        if (style?.strokeStyle) {
+                            ctx.strokeStyle = style.strokeStyle;
+                        }
+                        // Stroke width from item.style, not the decorated merge:
+                        // hit testing reads the registration-time style, and the
+                        // decoration types' width exclusion is only type-level —
+                        // a smuggled width must not desync paint from hit.
+                        const resetAlpha = applyLineWidth(ctx, resolveLineWidthPx(item.style, this.camera.scale));
+                        const dash = resolveLineDashPx(style, this.camera.scale);
+                        if (dash) {
+                            ctx.setLineDash(dash);
+                        }
+                        ctx.stroke();
+                        resetAlpha?.();
                     }
-                    ctx.stroke();
-                    resetAlpha?.();
+                    ctx.restore();
                 }
-                ctx.restore();
-            }
-        });
+            },
+            options,
+        );
+    }
+
+    /** Visible anchored items in paint order: back to front by row under an isometric projection. */
+    private paintOrder<T extends Coords>(items: readonly T[]): readonly T[] {
+        return depthSorted(items, this.camera.rotation ?? 0, this.camera.projection);
+    }
+
+    /**
+     * The inverse projection images and text are drawn under to stand
+     * upright, or `null` for an orthogonal view.
+     */
+    private uprightMatrix(): ViewMatrix | null {
+        const projection = this.camera.projection;
+        return isIsometric(projection) ? invertMatrix(projectionMatrix(projection)) : null;
+    }
+
+    /**
+     * Save the context and undo the projection around a view-space anchor,
+     * so what is drawn next stands upright (still turned with the view
+     * rotation). The caller restores.
+     */
+    private standUpright(ctx: TContext, pos: Coords, upright: ViewMatrix) {
+        ctx.save();
+        ctx.translate(pos.x, pos.y);
+        ctx.transform(upright.a, upright.b, upright.c, upright.d, 0, 0);
+        ctx.translate(-pos.x, -pos.y);
     }
 
     /**
@@ -509,8 +579,10 @@ export class CanvasDraw<
         dh: number,
         opacity: number = 1,
     ) {
+        // Multiplies into a faded layer's alpha rather than replacing it
+        const base = ctx.globalAlpha;
         if (opacity !== 1) {
-            ctx.globalAlpha = opacity;
+            ctx.globalAlpha = base * opacity;
         }
         if (sprite) {
             ctx.drawImage(img, sprite.x, sprite.y, sprite.w, sprite.h, dx, dy, dw, dh);
@@ -518,7 +590,7 @@ export class CanvasDraw<
             ctx.drawImage(img, dx, dy, dw, dh);
         }
         if (opacity !== 1) {
-            ctx.globalAlpha = 1;
+            ctx.globalAlpha = base;
         }
     }
 
@@ -537,118 +609,156 @@ export class CanvasDraw<
         // the anchor-index query is padded by this per frame (scale-divided).
         const maxSizePx = list.reduce((max, item) => Math.max(max, item.sizePx ?? 0), 0);
 
-        return this.layers.add(layer, ({ ctx, config, topLeft }) => {
-            const bounds = getViewportBounds(topLeft, config);
-            const sizePxPad = maxSizePx / this.camera.scale;
-            const visibleItems = spatialIndex
-                ? spatialIndex.query(
-                      bounds.minX - sizePxPad,
-                      bounds.minY - sizePxPad,
-                      bounds.maxX + sizePxPad,
-                      bounds.maxY + sizePxPad,
-                  )
-                : list;
-
-            for (const item of visibleItems) {
-                if (visibleOf?.(item) === false) {
-                    continue;
-                }
-                // sizePx wins over size, resolved against the live scale
-                const sizeWorld = resolveSizeWorld(item, this.camera.scale);
-                const origin = resolveOrigin(item.origin);
+        return this.layers.add(
+            layer,
+            ({ ctx, config, topLeft }) => {
+                const bounds = getViewportBounds(topLeft, config);
+                const sizePxPad = maxSizePx / this.camera.scale;
+                const visibleItems = spatialIndex
+                    ? spatialIndex.query(
+                          bounds.minX - sizePxPad,
+                          bounds.minY - sizePxPad,
+                          bounds.maxX + sizePxPad,
+                          bounds.maxY + sizePxPad,
+                      )
+                    : list;
+                const upright = this.uprightMatrix();
+
+                for (const item of this.paintOrder(visibleItems)) {
+                    if (visibleOf?.(item) === false) {
+                        continue;
+                    }
+                    // sizePx wins over size, resolved against the live scale
+                    const sizeWorld = resolveSizeWorld(item, this.camera.scale);
+                    const origin = resolveOrigin(item.origin);
 
-                // Skip visibility check if using spatial index (already filtered)
-                if (!spatialIndex && !isVisible(item.x, item.y, sizeWorld / 2, topLeft, config)) {
-                    continue;
-                }
+                    // Skip visibility check if using spatial index (already filtered)
+                    if (!spatialIndex && !isVisible(item.x, item.y, sizeWorld / 2, topLeft, config)) {
+                        continue;
+                    }
 
-                const pos = this.transformer.worldToScreen(item.x, item.y);
-                const pxSize = sizeWorld * this.camera.scale;
+                    const pos = this.transformer.worldToView(item.x, item.y);
+                    const pxSize = sizeWorld * this.camera.scale;
 
-                // preserve aspect (of the sprite frame when one is set)
-                const srcW = item.sprite?.w ?? item.img.width;
-                const srcH = item.sprite?.h ?? item.img.height;
-                const aspect = srcW / srcH;
+                    // preserve aspect (of the sprite frame when one is set)
+                    const srcW = item.sprite?.w ?? item.img.width;
+                    const srcH = item.sprite?.h ?? item.img.height;
+                    const aspect = srcW / srcH;
 
-                let drawW = pxSize;
-                let drawH = pxSize;
+                    let drawW = pxSize;
+                    let drawH = pxSize;
 
-                if (aspect > 1) {
-                    drawH = pxSize / aspect;
-                } else {
-                    drawW = pxSize * aspect;
-                }
+                    if (aspect > 1) {
+                        drawH = pxSize / aspect;
+                    } else {
+                        drawW = pxSize * aspect;
+                    }
 
-                // origin SELF/CELL
-                const { x: baseX, y: baseY } = computeOriginOffset(pos, pxSize, pxSize, origin, this.camera.scale);
+                    // origin SELF/CELL
+                    const { x: baseX, y: baseY } = computeOriginOffset(pos, pxSize, pxSize, origin, this.camera.scale);
 
-                const offsetX = baseX + (pxSize - drawW) / 2;
-                const offsetY = baseY + (pxSize - drawH) / 2;
+                    const offsetX = baseX + (pxSize - drawW) / 2;
+                    const offsetY = baseY + (pxSize - drawH) / 2;
 
-                const rotationDeg = item.rotate ?? 0;
-                const rotation = rotationDeg * (Math.PI / 180);
-                const flipX = item.flipX === true;
-                const flipY = item.flipY === true;
+                    const rotationDeg = item.rotate ?? 0;
+                    const rotation = rotationDeg * (Math.PI / 180);
+                    const flipX = item.flipX === true;
+                    const flipY = item.flipY === true;
 
-                const opacity = item.opacity ?? 1;
+                    const opacity = item.opacity ?? 1;
 
-                if (rotationDeg !== 0 || flipX || flipY) {
-                    const centerX = offsetX + drawW / 2;
-                    const centerY = offsetY + drawH / 2;
-                    ctx.save();
-                    ctx.translate(centerX, centerY);
-                    if (rotationDeg !== 0) {
-                        ctx.rotate(rotation);
+                    if (upright) {
+                        this.standUpright(ctx, pos, upright);
                     }
-                    // Innermost transform: the image is mirrored first, then
-                    // the mirrored image rotates.
-                    if (flipX || flipY) {
-                        ctx.scale(flipX ? -1 : 1, flipY ? -1 : 1);
+                    if (rotationDeg !== 0 || flipX || flipY) {
+                        const centerX = offsetX + drawW / 2;
+                        const centerY = offsetY + drawH / 2;
+                        ctx.save();
+                        ctx.translate(centerX, centerY);
+                        if (rotationDeg !== 0) {
+                            ctx.rotate(rotation);
+                        }
+                        // Innermost transform: the image is mirrored first, then
+                        // the mirrored image rotates.
+                        if (flipX || flipY) {
+                            ctx.scale(flipX ? -1 : 1, flipY ? -1 : 1);
+                        }
+                        this.blitImage(ctx, item.img, item.sprite, -drawW / 2, -drawH / 2, drawW, drawH, opacity);
+                        ctx.restore();
+                    } else {
+                        this.blitImage(ctx, item.img, item.sprite, offsetX, offsetY, drawW, drawH, opacity);
+                    }
+                    if (upright) {
+                        ctx.restore();
                     }
-                    this.blitImage(ctx, item.img, item.sprite, -drawW / 2, -drawH / 2, drawW, drawH, opacity);
-                    ctx.restore();
-                } else {
-                    this.blitImage(ctx, item.img, item.sprite, offsetX, offsetY, drawW, drawH, opacity);
                 }
-            }
-        });
+            },
+            options,
+        );
     }
 
-    drawGridLines(cellSize: number, style: { strokeStyle: string; lineWidth: number }, layer: number = 0): DrawHandle {
-        return this.layers.add(layer, ({ ctx, config, topLeft }) => {
-            const viewW = config.size.width / config.scale;
-            const viewH = config.size.height / config.scale;
+    drawGridLines(
+        cellSize: number,
+        style: { strokeStyle: string; lineWidth: number },
+        layer: number = 0,
+        options?: ScaleRange,
+    ): DrawHandle {
+        // Grid lines span the whole view, so they draw once rather than per copy of a wrapped world
+        return this.layers.add(
+            layer,
+            ({ ctx, config, topLeft }) => {
+                const view = getViewRect(topLeft, config);
+
+                // Per-frame configs built by hand (tests, custom renderers) may omit the grid
+                if (config.grid?.type === "hex") {
+                    ctx.save();
+                    ctx.strokeStyle = style.strokeStyle;
+                    const resetAlpha = applyLineWidth(ctx, style.lineWidth);
+                    ctx.beginPath();
+                    forEachHexGridEdge(view, config.grid, (from, to) => {
+                        const p1 = this.transformer.worldToView(from.x, from.y);
+                        const p2 = this.transformer.worldToView(to.x, to.y);
+                        ctx.moveTo(p1.x, p1.y);
+                        ctx.lineTo(p2.x, p2.y);
+                    });
+                    ctx.stroke();
+                    resetAlpha();
+                    ctx.restore();
+                    return;
+                }
 
-            const startX = Math.floor(topLeft.x / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
-            const endX = Math.ceil((topLeft.x + viewW) / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
-            const startY = Math.floor(topLeft.y / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
-            const endY = Math.ceil((topLeft.y + viewH) / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
+                const startX = Math.floor(view.minX / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
+                const endX = Math.ceil(view.maxX / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
+                const startY = Math.floor(view.minY / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
+                const endY = Math.ceil(view.maxY / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
 
-            ctx.save();
+                ctx.save();
 
-            ctx.strokeStyle = style.strokeStyle;
-            const resetAlpha = applyLineWidth(ctx, style.lineWidth);
+                ctx.strokeStyle = style.strokeStyle;
+                const resetAlpha = applyLineWidth(ctx, style.lineWidth);
 
-            ctx.beginPath();
+                ctx.beginPath();
 
-            for (let x = startX; x <= endX; x += cellSize) {
-                const p1 = this.transformer.worldToScreen(x, startY);
-                const p2 = this.transformer.worldToScreen(x, endY);
-                ctx.moveTo(p1.x, p1.y);
-                ctx.lineTo(p2.x, p2.y);
-            }
+                for (let x = startX; x <= endX; x += cellSize) {
+                    const p1 = this.transformer.worldToView(x, startY);
+                    const p2 = this.transformer.worldToView(x, endY);
+                    ctx.moveTo(p1.x, p1.y);
+                    ctx.lineTo(p2.x, p2.y);
+                }
 
-            for (let y = startY; y <= endY; y += cellSize) {
-                const p1 = this.transformer.worldToScreen(startX, y);
-                const p2 = this.transformer.worldToScreen(endX, y);
-                ctx.moveTo(p1.x, p1.y);
-                ctx.lineTo(p2.x, p2.y);
-            }
+                for (let y = startY; y <= endY; y += cellSize) {
+                    const p1 = this.transformer.worldToView(startX, y);
+                    const p2 = this.transformer.worldToView(endX, y);
+                    ctx.moveTo(p1.x, p1.y);
+                    ctx.lineTo(p2.x, p2.y);
+                }
 
-            ctx.stroke();
-            resetAlpha();
-            ctx.restore();
-        });
+                ctx.stroke();
+                resetAlpha();
+                ctx.restore();
+            },
+            { ...options, wrap: false },
+        );
     }
 
     /**
@@ -801,24 +911,30 @@ export class CanvasDraw<
         const cachedScale = cache.scale;
 
         return this.layers.add(layer, ({ ctx, config, topLeft }) => {
-            const viewportWidth = config.size.width / config.scale;
-            const viewportHeight = config.size.height / config.scale;
+            // The world region to copy: the viewport itself, or the box around
+            // it when the view is rotated (the layer draws in unrotated view
+            // space, so the rotated-in corners lie outside the viewport rect).
+            const view = getViewRect(topLeft, config);
+            const viewportWidth = view.maxX - view.minX;
+            const viewportHeight = view.maxY - view.minY;
 
             // === Source Rectangle (cached canvas coordinates) ===
             // These define which region of the offscreen cache canvas to copy FROM
             // Calculated by finding viewport position relative to cache origin, then scaling to cache resolution
-            let cacheSourceX = (topLeft.x - cachedBounds.minX) * cachedScale;
-            let cacheSourceY = (topLeft.y - cachedBounds.minY) * cachedScale;
+            let cacheSourceX = (view.minX - cachedBounds.minX) * cachedScale;
+            let cacheSourceY = (view.minY - cachedBounds.minY) * cachedScale;
             let cacheSourceWidth = viewportWidth * cachedScale;
             let cacheSourceHeight = viewportHeight * cachedScale;
 
             // === Destination Rectangle (screen coordinates) ===
             // These define where to draw the copied region TO on the visible canvas
             // Note: These values get adjusted below when viewport extends beyond cached bounds
-            let screenDestX = 0;
-            let screenDestY = 0;
-            let screenDestWidth = config.size.width;
-            let screenDestHeight = config.size.height;
+            const viewOriginX = (view.minX - topLeft.x) * config.scale;
+            const viewOriginY = (view.minY - topLeft.y) * config.scale;
+            let screenDestX = viewOriginX;
+            let screenDestY = viewOriginY;
+            let screenDestWidth = viewportWidth * config.scale;
+            let screenDestHeight = viewportHeight * config.scale;
 
             // === Bounds Clamping ===
             // Problem: When viewport pans beyond the cached area, source coordinates become invalid
@@ -833,15 +949,15 @@ export class CanvasDraw<
             // Shift destination right/down to compensate for the missing cached area
             if (cacheSourceX < 0) {
                 const offsetWorld = -cacheSourceX / cachedScale;
-                screenDestX = offsetWorld * config.scale;
-                screenDestWidth -= screenDestX;
+                screenDestX = viewOriginX + offsetWorld * config.scale;
+                screenDestWidth -= offsetWorld * config.scale;
                 cacheSourceWidth += cacheSourceX;
                 cacheSourceX = 0;
             }
             if (cacheSourceY < 0) {
                 const offsetWorld = -cacheSourceY / cachedScale;
-                screenDestY = offsetWorld * config.scale;
-                screenDestHeight -= screenDestY;
+                screenDestY = viewOriginY + offsetWorld * config.scale;
+                screenDestHeight -= offsetWorld * config.scale;
                 cacheSourceHeight += cacheSourceY;
                 cacheSourceY = 0;
             }
@@ -1093,6 +1209,14 @@ export class CanvasDraw<
         this.layers.clear();
     }
 
+    /**
+     * Limit a whole layer to a zoom range; `undefined` removes the limit.
+     * Kept across `clearLayer`/`clearAll`.
+     */
+    setLayerScaleRange(layer: number, range: ScaleRange | undefined) {
+        this.layers.setScaleRange(layer, range);
+    }
+
     /**
      * Release cached canvases and layer callbacks.
      */
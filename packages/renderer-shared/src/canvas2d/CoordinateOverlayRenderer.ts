@@ -56,7 +56,12 @@ export class CoordinateOverlayRenderer<TContext extends Canvas2DContextLike> {
         this.ctx.textAlign = "center";
         this.ctx.textBaseline = "middle";
 
-        forEachCoordinateLabel(this.camera, size, (text, x, y) => this.ctx.fillText(text, x, y));
+        forEachCoordinateLabel(
+            this.camera,
+            size,
+            (text, x, y) => this.ctx.fillText(text, x, y),
+            this.config.get().wrap,
+        );
 
         // Restore the canvas state
         this.ctx.restore();
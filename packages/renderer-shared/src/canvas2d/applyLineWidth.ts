@@ -4,9 +4,12 @@
  * lineWidth at 1. This ensures consistent rendering across browsers, DPR
  * settings, and the server renderer.
  *
+ * The alpha multiplies into the context's current `globalAlpha`, so a faded
+ * layer (see `Layer`) stays faded.
+ *
  * @param ctx Canvas rendering context (any Canvas2D-shaped context).
  * @param lineWidth Desired line width (can be < 1 for semi-transparent thin lines).
- * @returns Cleanup function that resets globalAlpha to 1.
+ * @returns Cleanup function that restores the previous globalAlpha.
  */
 export function applyLineWidth(ctx: { lineWidth: number; globalAlpha: number }, lineWidth: number): () => void {
     if (lineWidth >= 1) {
@@ -16,10 +19,11 @@ export function applyLineWidth(ctx: { lineWidth: number; globalAlpha: number },
 
     // For lineWidth < 1, use alpha to simulate thinner lines
     const alpha = Math.max(0, Math.min(lineWidth, 1));
+    const base = ctx.globalAlpha;
     ctx.lineWidth = 1;
-    ctx.globalAlpha = alpha;
+    ctx.globalAlpha = base * alpha;
 
     return () => {
-        ctx.globalAlpha = 1;
+        ctx.globalAlpha = base;
     };
 }
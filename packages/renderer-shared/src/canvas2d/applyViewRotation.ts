@@ -0,0 +1,41 @@
+import { isIsometric, viewMatrix, type Projection } from "@canvas-tile-engine/core";
+
+/**
+ * Rotate a Canvas2D-style context by the camera's view rotation around the
+ * viewport center, so layers drawn in unrotated view space land rotated on
+ * screen. Callers bracket it with `save()`/`restore()` and restore before
+ * drawing anything screen-anchored (onDraw, overlays, HUD).
+ *
+ * An isometric projection is applied here too, around the same center and
+ * before the rotation, so square view-space cells land as diamonds.
+ *
+ * @param ctx Canvas rendering context (any Canvas2D-shaped context).
+ * @param size Viewport size in logical pixels.
+ * @param degrees View rotation in degrees, positive clockwise.
+ * @param projection Grid projection; missing means orthogonal.
+ */
+export function applyViewRotation(
+    ctx: {
+        translate(x: number, y: number): void;
+        rotate(angle: number): void;
+        transform(a: number, b: number, c: number, d: number, e: number, f: number): void;
+    },
+    size: { width: number; height: number },
+    degrees: number,
+    projection?: Projection,
+): void {
+    const isometric = isIsometric(projection);
+    if (!degrees && !isometric) {
+        return;
+    }
+    const cx = size.width / 2;
+    const cy = size.height / 2;
+    ctx.translate(cx, cy);
+    if (isometric) {
+        const m = viewMatrix(degrees, projection);
+        ctx.transform(m.a, m.b, m.c, m.d, 0, 0);
+    } else {
+        ctx.rotate(degrees * (Math.PI / 180));
+    }
+    ctx.translate(-cx, -cy);
+}
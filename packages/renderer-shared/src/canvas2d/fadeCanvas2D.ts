@@ -0,0 +1,9 @@
+/**
+ * Scale-range fade for Canvas2D contexts (the `applyOpacity` of their
+ * `Layer`): multiplies `globalAlpha`, which the layer's save/restore puts
+ * back. The pipeline's own alpha tricks (`applyLineWidth`, image `opacity`)
+ * multiply into it rather than overwrite it.
+ */
+export function fadeCanvas2D({ ctx }: { ctx: { globalAlpha: number } }, opacity: number): void {
+    ctx.globalAlpha *= opacity;
+}
@@ -3,4 +3,6 @@ export { CanvasDraw } from "./CanvasDraw";
 export { CoordinateOverlayRenderer } from "./CoordinateOverlayRenderer";
 export { DebugOverlay } from "./DebugOverlay";
 export { applyLineWidth } from "./applyLineWidth";
+export { fadeCanvas2D } from "./fadeCanvas2D";
+export { applyViewRotation } from "./applyViewRotation";
 export type { Canvas2DContextLike, CanvasImageSourceLike, OffscreenCanvasFactory } from "./types";
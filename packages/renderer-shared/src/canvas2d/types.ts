@@ -33,6 +33,7 @@ export interface Canvas2DContextLike<TDrawable = never> extends CommandTraceTarg
     translate(x: number, y: number): void;
     rotate(angle: number): void;
     scale(x: number, y: number): void;
+    transform(a: number, b: number, c: number, d: number, e: number, f: number): void;
     fillRect(x: number, y: number, w: number, h: number): void;
     fillText(text: string, x: number, y: number): void;
     drawImage(image: TDrawable, dx: number, dy: number, dw: number, dh: number): void;
@@ -1,16 +1,36 @@
 type HandlerMap = {
     click?: (e: MouseEvent) => void;
     contextmenu?: (e: MouseEvent) => void;
-    mousedown?: (e: MouseEvent) => void;
-    mousemove?: (e: MouseEvent) => void;
-    mouseup?: (e: MouseEvent) => void;
-    mouseleave?: (e: MouseEvent) => void;
+    pointerdown?: (e: PointerEvent) => void;
+    pointermove?: (e: PointerEvent) => void;
+    pointerup?: (e: PointerEvent) => void;
+    pointercancel?: (e: PointerEvent) => void;
+    pointerleave?: (e: PointerEvent) => void;
     wheel?: (e: WheelEvent) => void;
+    // Touch events only guard against page scrolling; input is read from pointer events
     touchstart?: (e: TouchEvent) => void;
     touchmove?: (e: TouchEvent) => void;
-    touchend?: (e: TouchEvent) => void;
+    keydown?: (e: KeyboardEvent) => void;
+    // Safari trackpad pinches; read them as SafariGestureEvent
+    gesturestart?: (e: Event) => void;
+    gesturechange?: (e: Event) => void;
+    gestureend?: (e: Event) => void;
 };
 
+/**
+ * Safari's non-standard trackpad pinch event, fired as `gesturestart`,
+ * `gesturechange` and `gestureend` instead of Ctrl+wheel.
+ * @internal
+ */
+export type SafariGestureEvent = UIEvent & {
+    /** Pinch scale since `gesturestart`. */
+    scale: number;
+    clientX: number;
+    clientY: number;
+};
+
+const GESTURE_EVENTS = ["gesturestart", "gesturechange", "gestureend"] as const;
+
 /**
  * Thin wrapper to attach/detach DOM event listeners on the canvas.
  * @internal
@@ -30,20 +50,24 @@ export class EventBinder {
             this.canvas.addEventListener("contextmenu", this.handlers.contextmenu);
         }
 
-        if (this.handlers.mousedown) {
-            this.canvas.addEventListener("mousedown", this.handlers.mousedown);
+        if (this.handlers.pointerdown) {
+            this.canvas.addEventListener("pointerdown", this.handlers.pointerdown);
+        }
+
+        if (this.handlers.pointermove) {
+            this.canvas.addEventListener("pointermove", this.handlers.pointermove);
         }
 
-        if (this.handlers.mousemove) {
-            this.canvas.addEventListener("mousemove", this.handlers.mousemove);
+        if (this.handlers.pointerup) {
+            this.canvas.addEventListener("pointerup", this.handlers.pointerup);
         }
 
-        if (this.handlers.mouseup) {
-            this.canvas.addEventListener("mouseup", this.handlers.mouseup);
+        if (this.handlers.pointercancel) {
+            this.canvas.addEventListener("pointercancel", this.handlers.pointercancel);
         }
 
-        if (this.handlers.mouseleave) {
-            this.canvas.addEventListener("mouseleave", this.handlers.mouseleave);
+        if (this.handlers.pointerleave) {
+            this.canvas.addEventListener("pointerleave", this.handlers.pointerleave);
         }
 
         if (this.handlers.wheel) {
@@ -58,8 +82,15 @@ export class EventBinder {
             this.canvas.addEventListener("touchmove", this.handlers.touchmove, { passive: false });
         }
 
-        if (this.handlers.touchend) {
-            this.canvas.addEventListener("touchend", this.handlers.touchend, { passive: false });
+        if (this.handlers.keydown) {
+            this.canvas.addEventListener("keydown", this.handlers.keydown);
+        }
+
+        for (const event of GESTURE_EVENTS) {
+            const handler = this.handlers[event];
+            if (handler) {
+                this.canvas.addEventListener(event, handler, { passive: false });
+            }
         }
     }
 
@@ -72,20 +103,24 @@ export class EventBinder {
             this.canvas.removeEventListener("contextmenu", this.handlers.contextmenu);
         }
 
-        if (this.handlers.mousedown) {
-            this.canvas.removeEventListener("mousedown", this.handlers.mousedown);
+        if (this.handlers.pointerdown) {
+            this.canvas.removeEventListener("pointerdown", this.handlers.pointerdown);
         }
 
-        if (this.handlers.mousemove) {
-            this.canvas.removeEventListener("mousemove", this.handlers.mousemove);
+        if (this.handlers.pointermove) {
+            this.canvas.removeEventListener("pointermove", this.handlers.pointermove);
         }
 
-        if (this.handlers.mouseup) {
-            this.canvas.removeEventListener("mouseup", this.handlers.mouseup);
+        if (this.handlers.pointerup) {
+            this.canvas.removeEventListener("pointerup", this.handlers.pointerup);
         }
 
-        if (this.handlers.mouseleave) {
-            this.canvas.removeEventListener("mouseleave", this.handlers.mouseleave);
+        if (this.handlers.pointercancel) {
+            this.canvas.removeEventListener("pointercancel", this.handlers.pointercancel);
+        }
+
+        if (this.handlers.pointerleave) {
+            this.canvas.removeEventListener("pointerleave", this.handlers.pointerleave);
         }
 
         if (this.handlers.wheel) {
@@ -100,8 +135,15 @@ export class EventBinder {
             this.canvas.removeEventListener("touchmove", this.handlers.touchmove);
         }
 
-        if (this.handlers.touchend) {
-            this.canvas.removeEventListener("touchend", this.handlers.touchend);
+        if (this.handlers.keydown) {
+            this.canvas.removeEventListener("keydown", this.handlers.keydown);
+        }
+
+        for (const event of GESTURE_EVENTS) {
+            const handler = this.handlers[event];
+            if (handler) {
+                this.canvas.removeEventListener(event, handler);
+            }
         }
     }
 }
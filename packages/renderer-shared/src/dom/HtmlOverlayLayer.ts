@@ -0,0 +1,131 @@
+import type { Coords, OverlayAnchor, OverlayHandle, OverlayOptions } from "@canvas-tile-engine/core";
+
+/** What the HTML overlay layer reads from its renderer. */
+export interface HtmlOverlayLayerHost {
+    /** Item-space world point → screen pixels (rotation and projection included). */
+    worldToScreen(x: number, y: number): Coords;
+    /** Viewport size in CSS pixels. */
+    size(): { width: number; height: number };
+    /** Current camera scale. */
+    scale(): number;
+    /** Scale at which `scaleWithZoom: true` shows an element at its own size. */
+    baseScale(): number;
+}
+
+/** Anchor point as a fraction of the element's box. */
+const ANCHOR_FRACTIONS: Record<OverlayAnchor, Coords> = {
+    center: { x: 0.5, y: 0.5 },
+    top: { x: 0.5, y: 0 },
+    bottom: { x: 0.5, y: 1 },
+    left: { x: 0, y: 0.5 },
+    right: { x: 1, y: 0.5 },
+    "top-left": { x: 0, y: 0 },
+    "top-right": { x: 1, y: 0 },
+    "bottom-left": { x: 0, y: 1 },
+    "bottom-right": { x: 1, y: 1 },
+};
+
+type OverlayEntry = { element: HTMLElement; options: OverlayOptions };
+
+/**
+ * DOM layer above the canvas holding the `addOverlay` elements, each pinned
+ * to a world position. The renderer calls {@link update} after every frame,
+ * so overlays follow every camera change. Shared by the Canvas2D and WebGL
+ * renderers.
+ *
+ * Elements are placed with a CSS transform (anchoring uses percentages, so
+ * nothing is measured) and hidden with `visibility` while their world point
+ * is outside the viewport. The layer is created with the first overlay and
+ * lets pointer input through to the canvas; the overlays themselves keep it.
+ * @internal
+ */
+export class HtmlOverlayLayer {
+    private layer?: HTMLDivElement;
+    private entries = new Set<OverlayEntry>();
+
+    constructor(
+        private wrapper: HTMLElement,
+        private host: HtmlOverlayLayerHost,
+    ) {}
+
+    add(element: HTMLElement, options: OverlayOptions): OverlayHandle {
+        const entry: OverlayEntry = { element, options: { ...options } };
+        this.entries.add(entry);
+        Object.assign(element.style, {
+            position: "absolute",
+            left: "0",
+            top: "0",
+            transformOrigin: "0 0",
+            pointerEvents: "auto",
+        });
+        this.ensureLayer().appendChild(element);
+        this.place(entry);
+        return {
+            update: (next) => {
+                if (!this.entries.has(entry)) {
+                    return;
+                }
+                entry.options = { ...entry.options, ...next };
+                this.place(entry);
+            },
+            remove: () => {
+                if (this.entries.delete(entry)) {
+                    element.remove();
+                }
+            },
+        };
+    }
+
+    /** Reposition every overlay for the current camera. */
+    update(): void {
+        for (const entry of this.entries) {
+            this.place(entry);
+        }
+    }
+
+    /** Remove the layer and every overlay in it. */
+    destroy(): void {
+        this.entries.clear();
+        this.layer?.remove();
+        this.layer = undefined;
+    }
+
+    private ensureLayer(): HTMLDivElement {
+        if (!this.layer) {
+            const layer = document.createElement("div");
+            Object.assign(layer.style, {
+                position: "absolute",
+                top: "0",
+                left: "0",
+                width: "100%",
+                height: "100%",
+                overflow: "hidden",
+                pointerEvents: "none",
+            });
+            // After the canvas, so it stacks above it
+            this.wrapper.appendChild(layer);
+            this.layer = layer;
+        }
+        return this.layer;
+    }
+
+    private place({ element, options }: OverlayEntry) {
+        const point = this.host.worldToScreen(options.x, options.y);
+        const { width, height } = this.host.size();
+        const visible = point.x >= 0 && point.x <= width && point.y >= 0 && point.y <= height;
+        element.style.visibility = visible ? "" : "hidden";
+        if (!visible) {
+            return;
+        }
+        const anchor = ANCHOR_FRACTIONS[options.anchor ?? "center"];
+        const x = point.x + (options.offsetPx?.x ?? 0);
+        const y = point.y + (options.offsetPx?.y ?? 0);
+        const zoom = options.scaleWithZoom;
+        const scale = zoom ? this.host.scale() / (zoom === true ? this.host.baseScale() : zoom) : 1;
+        // Right to left: the anchor point to the origin, scale around it, then onto the world point
+        element.style.transform =
+            `translate(${x}px, ${y}px)` +
+            (scale === 1 ? "" : ` scale(${scale})`) +
+            ` translate(${-anchor.x * 100}%, ${-anchor.y * 100}%)`;
+    }
+}
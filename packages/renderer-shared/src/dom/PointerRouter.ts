@@ -0,0 +1,174 @@
+import type { Config, GestureProcessor, NormalizedPointer } from "@canvas-tile-engine/core";
+
+/**
+ * Routes the canvas's pointer events to a {@link GestureProcessor}. Mouse and
+ * pen pointers drive the processor's pointer handlers, touch pointers its
+ * touch handlers — the same split the separate mouse and touch events used
+ * to make, so callbacks keep their semantics. Shared by the Canvas2D and
+ * WebGL renderers; they bind {@link handlers} through the EventBinder.
+ *
+ * Touches are claimed only while some touch-driven interaction is enabled
+ * (checked per touch: setEventHandlers can toggle at runtime). While
+ * claimed, the touch events' preventDefault stays unconditional: it stops
+ * page scrolling mid-gesture and suppresses the compatibility mouse events
+ * and click. When nothing is enabled the page scrolls, and a tap still
+ * reaches the mouse callbacks, as those compatibility events used to
+ * deliver it.
+ * @internal
+ */
+export class PointerRouter {
+    // Touch pointers down, by pointerId in landing order: the processor's
+    // touch handlers take every finger on each event. Unclaimed touches
+    // (no touch interaction enabled when they landed) are kept apart.
+    private touches = new Map<number, NormalizedPointer>();
+    private unclaimedTouches = new Set<number>();
+
+    /**
+     * @param canvas Canvas the events come from; mouse and pen presses capture their pointer on it.
+     * @param processor Processor the routed input goes to.
+     * @param config Engine config, read for the enabled event handlers.
+     * @param normalize DOM event → engine pointer, in canvas pixels.
+     */
+    constructor(
+        private canvas: HTMLCanvasElement,
+        private processor: GestureProcessor,
+        private config: Config,
+        private normalize: (e: PointerEvent | MouseEvent) => NormalizedPointer,
+    ) {}
+
+    /** Listeners for the EventBinder, by event name. */
+    readonly handlers = {
+        click: (e: MouseEvent): void => {
+            // A claimed tap already reached the processor through the touch path
+            if ((e as PointerEvent).pointerType === "touch" && this.touchInteractionsEnabled()) {
+                return;
+            }
+            this.processor.handleClick(this.normalize(e));
+        },
+
+        pointerdown: (e: PointerEvent): void => {
+            if (e.pointerType === "touch") {
+                this.touchDown(e);
+                return;
+            }
+            // Primary button (or pen contact) only: the right button belongs to
+            // the context-menu path (onRightClick) and the middle button to the
+            // browser (autoscroll) — neither should start a drag or fire
+            // onMouseDown.
+            if (e.button !== 0) {
+                return;
+            }
+            // Keep receiving the drag's moves and release outside the canvas
+            this.canvas.setPointerCapture(e.pointerId);
+            this.processor.handlePointerDown(this.normalize(e));
+        },
+
+        pointermove: (e: PointerEvent): void => {
+            if (e.pointerType === "touch") {
+                this.touchMove(e);
+                return;
+            }
+            this.processor.handlePointerMove(this.normalize(e));
+        },
+
+        pointerup: (e: PointerEvent): void => {
+            if (e.pointerType === "touch") {
+                this.touchUp(e, false);
+                return;
+            }
+            // Primary button only, so releasing a secondary button mid-drag
+            // does not end the primary-button drag or fire onMouseUp.
+            if (e.button !== 0) {
+                return;
+            }
+            this.processor.handlePointerUp(this.normalize(e));
+        },
+
+        pointercancel: (e: PointerEvent): void => {
+            if (e.pointerType === "touch") {
+                this.touchUp(e, true);
+                return;
+            }
+            // The browser took the pointer (a pen's palm rejection, say): end the
+            // press as if the pointer left the canvas
+            this.processor.handlePointerLeave(this.normalize(e));
+        },
+
+        pointerleave: (e: PointerEvent): void => {
+            // A touch pointer leaves when it lifts, which pointerup handled
+            if (e.pointerType === "touch") {
+                return;
+            }
+            this.processor.handlePointerLeave(this.normalize(e));
+        },
+
+        touchstart: (e: TouchEvent): void => this.touchGuard(e),
+        touchmove: (e: TouchEvent): void => this.touchGuard(e),
+    };
+
+    /** Forget the touches down; for the renderer's destroy. */
+    reset(): void {
+        this.touches.clear();
+        this.unclaimedTouches.clear();
+    }
+
+    private touchInteractionsEnabled(): boolean {
+        const eventHandlers = this.config.get().eventHandlers;
+        return Boolean(
+            eventHandlers.click ||
+            eventHandlers.drag ||
+            eventHandlers.zoom ||
+            eventHandlers.hover ||
+            eventHandlers.doubleClick ||
+            eventHandlers.longPress,
+        );
+    }
+
+    private touchGuard(e: TouchEvent): void {
+        if (this.touchInteractionsEnabled()) {
+            e.preventDefault();
+        }
+    }
+
+    private touchDown(e: PointerEvent): void {
+        if (!this.touchInteractionsEnabled()) {
+            this.unclaimedTouches.add(e.pointerId);
+            return;
+        }
+        this.touches.set(e.pointerId, this.normalize(e));
+        this.processor.handleTouchStart([...this.touches.values()]);
+    }
+
+    private touchMove(e: PointerEvent): void {
+        if (!this.touches.has(e.pointerId)) {
+            return;
+        }
+        this.touches.set(e.pointerId, this.normalize(e));
+        if (this.touchInteractionsEnabled()) {
+            this.processor.handleTouchMove([...this.touches.values()]);
+        }
+    }
+
+    private touchUp(e: PointerEvent, cancelled: boolean): void {
+        const pointer = this.normalize(e);
+        if (this.unclaimedTouches.delete(e.pointerId)) {
+            if (!cancelled) {
+                this.processor.handlePointerDown(pointer);
+                this.processor.handlePointerUp(pointer);
+            }
+            return;
+        }
+        if (!this.touches.delete(e.pointerId)) {
+            return;
+        }
+        const remaining = [...this.touches.values()];
+        if (cancelled || !this.touchInteractionsEnabled()) {
+            // Cancelled, or handlers were disabled mid-gesture: reset the
+            // processor's drag/pinch state (no changed pointer → no
+            // callbacks).
+            this.processor.handleTouchEnd(remaining);
+            return;
+        }
+        this.processor.handleTouchEnd(remaining, pointer);
+    }
+}
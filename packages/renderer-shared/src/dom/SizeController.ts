@@ -1,4 +1,4 @@
-import { AnimationController, Config, Coords, ICamera, ViewportState } from "@canvas-tile-engine/core";
+import { AnimationController, Config, Coords, Easing, ICamera, ViewportState } from "@canvas-tile-engine/core";
 
 /**
  * Controls canvas size and handles resize animations.
@@ -23,6 +23,7 @@ export class SizeController {
      * @param durationMs Animation duration in ms (default 500). Use 0 for instant resize.
      * @param animationController AnimationController instance to handle the animation.
      * @param onComplete Optional callback fired when resize animation completes.
+     * @param easing Optional easing or spring (default: linear).
      */
     resizeWithAnimation(
         width: number,
@@ -30,6 +31,7 @@ export class SizeController {
         durationMs: number,
         animationController: AnimationController,
         onComplete?: () => void,
+        easing?: Easing,
     ) {
         if (width <= 0 || height <= 0) {
             return;
@@ -58,6 +60,7 @@ export class SizeController {
             durationMs,
             (w: number, h: number, center: Coords) => this.applySize(w, h, center),
             onComplete,
+            easing,
         );
     }
 
@@ -1,5 +1,6 @@
 // Browser plumbing shared by renderer-canvas and renderer-webgl.
-export { EventBinder } from "./EventBinder";
+export { EventBinder, type SafariGestureEvent } from "./EventBinder";
+export { PointerRouter } from "./PointerRouter";
 export { ImageLoader } from "./ImageLoader";
 export type { ImageCrossOrigin, ImageLoaderOptions } from "./ImageLoader";
 export { SizeController } from "./SizeController";
@@ -7,3 +8,4 @@ export { ResizeWatcher } from "./ResizeWatcher";
 export { ResponsiveWatcher } from "./ResponsiveWatcher";
 export { ReducedMotionWatcher } from "./ReducedMotionWatcher";
 export { initStyles } from "./initStyles";
+export { HtmlOverlayLayer, type HtmlOverlayLayerHost } from "./HtmlOverlayLayer";
@@ -1,22 +1,46 @@
-import { VISIBILITY_BUFFER } from "@canvas-tile-engine/core";
+import { VISIBILITY_BUFFER, viewHalfExtents } from "@canvas-tile-engine/core";
 import type { Bounds, CanvasTileEngineConfig, Coords } from "@canvas-tile-engine/core";
 
+/**
+ * The world rectangle the viewport covers, without any buffer. For a rotated
+ * or isometric view this is the axis-aligned box around what the viewport
+ * shows of the world, so grid lines and static-cache blits reach into the
+ * corners the rotation or projection exposes.
+ *
+ * Same space as `topLeft` (the camera's world position); with no rotation and
+ * an orthogonal projection it is exactly `topLeft` plus the viewport size in
+ * world units.
+ */
+export function getViewRect(topLeft: Coords, config: Required<CanvasTileEngineConfig>): Bounds {
+    const halfW = config.size.width / (2 * config.scale);
+    const halfH = config.size.height / (2 * config.scale);
+    // Per-frame configs built by hand (tests, custom renderers) may omit them.
+    const extent = viewHalfExtents(halfW, halfH, config.rotation ?? 0, config.projection);
+    const centerX = topLeft.x + halfW;
+    const centerY = topLeft.y + halfH;
+    return {
+        minX: centerX - extent.x,
+        minY: centerY - extent.y,
+        maxX: centerX + extent.x,
+        maxY: centerY + extent.y,
+    };
+}
+
 /**
  * The world rectangle every renderer culls against: the visible viewport in
- * world units, grown by the tile buffer so items just off-screen still paint
+ * world units ({@link getViewRect}), grown by the tile buffer so items just off-screen still paint
  * (and partially visible ones are never dropped mid-pan).
  *
  * `topLeft` is the camera's world position; `config.size` is in logical pixels
  * and `config.scale` is pixels per world unit.
  */
 export function getViewportBounds(topLeft: Coords, config: Required<CanvasTileEngineConfig>): Bounds {
-    const viewW = config.size.width / config.scale;
-    const viewH = config.size.height / config.scale;
+    const rect = getViewRect(topLeft, config);
     return {
-        minX: topLeft.x - VISIBILITY_BUFFER.TILE_BUFFER,
-        minY: topLeft.y - VISIBILITY_BUFFER.TILE_BUFFER,
-        maxX: topLeft.x + viewW + VISIBILITY_BUFFER.TILE_BUFFER,
-        maxY: topLeft.y + viewH + VISIBILITY_BUFFER.TILE_BUFFER,
+        minX: rect.minX - VISIBILITY_BUFFER.TILE_BUFFER,
+        minY: rect.minY - VISIBILITY_BUFFER.TILE_BUFFER,
+        maxX: rect.maxX + VISIBILITY_BUFFER.TILE_BUFFER,
+        maxY: rect.maxY + VISIBILITY_BUFFER.TILE_BUFFER,
     };
 }
 
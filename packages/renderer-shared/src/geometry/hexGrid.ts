@@ -0,0 +1,49 @@
+import { DEFAULT_VALUES, hexAt, hexCenter, hexCorners } from "@canvas-tile-engine/core";
+import type { Bounds, Coords, HexLayout } from "@canvas-tile-engine/core";
+
+/**
+ * Visit every hex edge that touches `view`, each exactly once, for hex grid
+ * lines. `view` is in the same space as `topLeft` ({@link getViewRect});
+ * the visited endpoints are item-space world coordinates, ready for
+ * `worldToView`.
+ *
+ * Each hex contributes three consecutive edges; its neighbors on the other
+ * three sides contribute the rest, so shared edges are never stroked twice
+ * (which would double translucent lines).
+ */
+export function forEachHexGridEdge(view: Bounds, layout: HexLayout, visit: (from: Coords, to: Coords) => void): void {
+    const axial: HexLayout = { orientation: layout.orientation, coordinates: "axial" };
+    const minX = view.minX - DEFAULT_VALUES.CELL_CENTER_OFFSET;
+    const maxX = view.maxX - DEFAULT_VALUES.CELL_CENTER_OFFSET;
+    const minY = view.minY - DEFAULT_VALUES.CELL_CENTER_OFFSET;
+    const maxY = view.maxY - DEFAULT_VALUES.CELL_CENTER_OFFSET;
+
+    // The axial range spanned by the view corners, padded by one hex so
+    // hexes poking in past a corner are included
+    const corners = [
+        hexAt({ x: minX, y: minY }, axial),
+        hexAt({ x: maxX, y: minY }, axial),
+        hexAt({ x: minX, y: maxY }, axial),
+        hexAt({ x: maxX, y: maxY }, axial),
+    ];
+    const minQ = Math.min(...corners.map((c) => c.x)) - 1;
+    const maxQ = Math.max(...corners.map((c) => c.x)) + 1;
+    const minR = Math.min(...corners.map((c) => c.y)) - 1;
+    const maxR = Math.max(...corners.map((c) => c.y)) + 1;
+
+    for (let r = minR; r <= maxR; r++) {
+        for (let q = minQ; q <= maxQ; q++) {
+            const hex = { x: q, y: r };
+            const center = hexCenter(hex, axial);
+            // The axial range is a parallelogram; skip the hexes it adds
+            // beyond the view (a hex reaches at most one unit from its center)
+            if (center.x < minX - 1 || center.x > maxX + 1 || center.y < minY - 1 || center.y > maxY + 1) {
+                continue;
+            }
+            const points = hexCorners(hex, axial);
+            for (let i = 0; i < 3; i++) {
+                visit(points[i], points[i + 1]);
+            }
+        }
+    }
+}
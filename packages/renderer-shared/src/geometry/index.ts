@@ -3,4 +3,5 @@
 //
 // Item-bounds helpers live in core instead (`itemsBounds`, `pathItemBounds`):
 // app code needs those, so they are part of the public API.
-export { getViewportBounds, isVisible } from "./culling";
+export { getViewRect, getViewportBounds, isVisible } from "./culling";
+export { forEachHexGridEdge } from "./hexGrid";
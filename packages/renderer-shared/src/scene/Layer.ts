@@ -1,4 +1,14 @@
-import { CanvasTileEngineConfig, CoordinateTransformer, Coords, DrawHandle, ICamera } from "@canvas-tile-engine/core";
+import {
+    CanvasTileEngineConfig,
+    CoordinateTransformer,
+    Coords,
+    DrawHandle,
+    ICamera,
+    ScaleRange,
+    scaleRangeOpacity,
+    wrapCopies,
+} from "@canvas-tile-engine/core";
+import { getViewportBounds } from "../geometry/culling";
 
 /** @internal */
 export type DrawContext<TContext> = {
@@ -27,29 +37,86 @@ export interface LayerContext {
     restoreToCount?(count: number): void;
 }
 
+/**
+ * Fades a draw context to `opacity` (0..1, exclusive) for one callback — the
+ * renderer-specific half of scale-range cross-fades. Runs between the
+ * layer's save and restore; return a cleanup for state the context's
+ * restore does not cover.
+ * @internal
+ */
+export type ApplyOpacity<TDrawContext> = (dc: TDrawContext, opacity: number) => (() => void) | void;
+
+/** @internal */
+export type LayerCallbackOptions = ScaleRange & {
+    /**
+     * `false` for callbacks that paint the whole view themselves (grid
+     * lines): they run once per frame instead of once per copy of a wrapped
+     * world. Default `true`.
+     */
+    wrap?: boolean;
+    /** Opacity (0..1) of the callback, multiplied into any scale-range fade. Default `1`. */
+    opacity?: number;
+    /**
+     * Register in place of this callback of the same layer: the new callback
+     * keeps its draw order and id, so the returned handle equals `replace`.
+     * Re-registers items whose positions changed in place (item dragging)
+     * without invalidating handles the engine has handed out. Added normally
+     * when the handle is gone.
+     */
+    replace?: DrawHandle;
+};
+
 /**
  * Manages ordered draw callbacks, generic over the full draw context handed to
  * callbacks. Plain Canvas2D renderers use {@link DrawContext}; renderers with
  * extra per-frame state (e.g. WebGL's batched GL renderer alongside its 2D
  * overlay) intersect their own fields onto it. The Skia renderer uses it too —
  * nothing here touches a drawing API beyond save/restore.
+ *
+ * On a wrapped world (`config.wrap`) each callback runs once per copy of the
+ * world overlapping the view, with the camera and `topLeft` shifted by the
+ * copy's offset. Callbacks cull against `topLeft` as usual, so every pass
+ * only queries its own copy's slice of the spatial index.
+ *
+ * Callbacks registered with a scale range (`minScale`/`maxScale`), or on a
+ * layer given one via {@link Layer.setScaleRange}, are skipped while the
+ * camera scale is outside it and faded through `applyOpacity` inside the
+ * `scaleFade` band. A callback's own `opacity` fades it the same way.
  * @internal
  */
-export class Layer<TDrawContext extends { ctx: LayerContext }> {
-    private layers = new Map<number, { id: symbol; fn: DrawCallback<TDrawContext> }[]>();
+export class Layer<TDrawContext extends { ctx: LayerContext } & Partial<DrawContext<LayerContext>>> {
+    private layers = new Map<
+        number,
+        { id: symbol; fn: DrawCallback<TDrawContext>; wrap: boolean; scaleRange?: ScaleRange; opacity: number }[]
+    >();
+    private scaleRanges = new Map<number, ScaleRange>();
+
+    /** @param applyOpacity How this renderer fades a callback; without it, fade bands draw at full opacity. */
+    constructor(private applyOpacity?: ApplyOpacity<TDrawContext>) {}
 
     /**
      * Register a draw callback at a specific layer index.
      * @param layer Layer order; lower numbers draw first.
      * @param fn Callback receiving drawing context.
+     * @param options See {@link LayerCallbackOptions}.
      */
-    add(layer: number, fn: DrawCallback<TDrawContext>): DrawHandle {
-        const id = Symbol("layer-callback");
-        const entry = { id, fn };
+    add(layer: number, fn: DrawCallback<TDrawContext>, options?: LayerCallbackOptions): DrawHandle {
+        const scaleRange =
+            options?.minScale !== undefined || options?.maxScale !== undefined
+                ? { minScale: options.minScale, maxScale: options.maxScale, scaleFade: options.scaleFade }
+                : undefined;
         if (!this.layers.has(layer)) {
             this.layers.set(layer, []);
         }
-        this.layers.get(layer)!.push(entry);
+        const list = this.layers.get(layer)!;
+        const replaced = options?.replace ? list.findIndex((entry) => entry.id === options.replace!.id) : -1;
+        const id = replaced >= 0 ? list[replaced].id : Symbol("layer-callback");
+        const entry = { id, fn, wrap: options?.wrap ?? true, scaleRange, opacity: options?.opacity ?? 1 };
+        if (replaced >= 0) {
+            list[replaced] = entry;
+        } else {
+            list.push(entry);
+        }
         return { layer, id };
     }
 
@@ -68,6 +135,18 @@ export class Layer<TDrawContext extends { ctx: LayerContext }> {
         );
     }
 
+    /**
+     * Limit a whole layer to a zoom range, on top of its callbacks' own
+     * ranges; `undefined` removes the limit. Not affected by {@link clear}.
+     */
+    setScaleRange(layer: number, range: ScaleRange | undefined) {
+        if (range) {
+            this.scaleRanges.set(layer, range);
+        } else {
+            this.scaleRanges.delete(layer);
+        }
+    }
+
     /**
      * Clear callbacks for a layer or all layers.
      * @param layer Layer to clear; clears all when omitted.
@@ -83,23 +162,77 @@ export class Layer<TDrawContext extends { ctx: LayerContext }> {
     /**
      * Draw all registered callbacks in layer order.
      * @param dc Drawing context shared with callbacks.
+     * @param only Draw just these layers (still in layer order); every layer when omitted.
      */
-    drawAll(dc: TDrawContext) {
-        const keys = [...this.layers.keys()].sort((a, b) => a - b);
+    drawAll(dc: TDrawContext, only?: readonly number[]) {
+        const keys = [...this.layers.keys()]
+            .filter((layer) => only === undefined || only.includes(layer))
+            .sort((a, b) => a - b);
+        const copies = this.wrapCopies(dc);
         for (const layer of keys) {
             const fns = this.layers.get(layer);
             if (!fns) {
                 continue;
             }
-            for (const { fn } of fns) {
-                const count = dc.ctx.save();
-                fn(dc);
-                if (typeof count === "number" && dc.ctx.restoreToCount) {
-                    dc.ctx.restoreToCount(count);
-                } else {
-                    dc.ctx.restore();
+            const layerRange = this.scaleRanges.get(layer);
+            for (const { fn, wrap, scaleRange, opacity: own } of fns) {
+                const opacity = own * this.opacityOf(dc, scaleRange, layerRange);
+                if (opacity <= 0) {
+                    continue;
+                }
+                if (!copies || !wrap) {
+                    this.drawOne(dc, fn, opacity);
+                    continue;
+                }
+                const { camera, topLeft } = dc as TDrawContext & DrawContext<LayerContext>;
+                for (const offset of copies) {
+                    // Canonical content at p shows at p + offset: look from a camera moved back by it
+                    const shifted = { x: topLeft.x - offset.x, y: topLeft.y - offset.y };
+                    camera.withView!(
+                        {
+                            x: camera.x - offset.x,
+                            y: camera.y - offset.y,
+                            scale: camera.scale,
+                            rotation: camera.rotation ?? 0,
+                        },
+                        () => this.drawOne({ ...dc, topLeft: shifted }, fn, opacity),
+                    );
                 }
             }
         }
     }
+
+    /**
+     * Offsets of the world copies overlapping the view, or `null` when the
+     * world does not wrap (or the context lacks what repetition needs).
+     */
+    private wrapCopies(dc: TDrawContext): Coords[] | null {
+        const { camera, config, topLeft } = dc;
+        const wrap = config?.wrap;
+        if (!camera?.withView || !config || !topLeft || !wrap || (wrap.x === undefined && wrap.y === undefined)) {
+            return null;
+        }
+        return wrapCopies(getViewportBounds(topLeft, config), wrap);
+    }
+
+    /** Combined opacity of a callback's and its layer's scale ranges at the camera's scale. */
+    private opacityOf(dc: TDrawContext, own: ScaleRange | undefined, layer: ScaleRange | undefined): number {
+        const scale = dc.camera?.scale;
+        if (scale === undefined || (!own && !layer)) {
+            return 1;
+        }
+        return scaleRangeOpacity(scale, own) * scaleRangeOpacity(scale, layer);
+    }
+
+    private drawOne(dc: TDrawContext, fn: DrawCallback<TDrawContext>, opacity: number) {
+        const count = dc.ctx.save();
+        const cleanup = opacity < 1 ? this.applyOpacity?.(dc, opacity) : undefined;
+        fn(dc);
+        cleanup?.();
+        if (typeof count === "number" && dc.ctx.restoreToCount) {
+            dc.ctx.restoreToCount(count);
+        } else {
+            dc.ctx.restore();
+        }
+    }
 }
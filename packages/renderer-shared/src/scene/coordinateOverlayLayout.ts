@@ -1,5 +1,5 @@
-import { COORDINATE_OVERLAY } from "@canvas-tile-engine/core";
-import type { CanvasTileEngineConfig } from "@canvas-tile-engine/core";
+import { COORDINATE_OVERLAY, DEFAULT_VALUES, isIsometric, screenToViewAround } from "@canvas-tile-engine/core";
+import type { CanvasTileEngineConfig, Projection, WorldWrap } from "@canvas-tile-engine/core";
 import type { ScreenRect, ScreenSize } from "./types";
 
 /** Distance from the gutter's outer edge to the center of its labels. */
@@ -21,6 +21,10 @@ export interface OverlayCamera {
     readonly x: number;
     readonly y: number;
     readonly scale: number;
+    /** View rotation in degrees; missing means an axis-aligned view. */
+    readonly rotation?: number;
+    /** Grid projection; missing means orthogonal. */
+    readonly projection?: Projection;
 }
 
 /** The two gutters the labels sit in. */
@@ -83,23 +87,73 @@ export function coordinateOverlayBorders(size: ScreenSize): CoordinateOverlayBor
  * visible span in world units — it grows without bound as the camera scale
  * approaches the low end of the configured `shownScaleRange`, so materializing
  * the list would cost more than drawing it.
+ *
+ * A rotated or isometric view has no world axis running along either gutter,
+ * so the labels are instead sampled one cell-width apart along each gutter and
+ * show the world coordinate under that point.
+ *
+ * On a wrapped world (`wrap`) labels show the cell in the canonical copy, so
+ * they count back up from `0` past each seam.
  */
 export function forEachCoordinateLabel(
     camera: OverlayCamera,
     size: ScreenSize,
     visit: (text: string, x: number, y: number) => void,
+    wrap: WorldWrap = {},
 ): void {
+    const labelVisit = (axis: "x" | "y", cell: number, x: number, y: number) =>
+        visit(wrappedCell(Math.round(cell), wrap[axis]).toString(), x, y);
+
+    if (camera.rotation || isIsometric(camera.projection)) {
+        forEachTransformedCoordinateLabel(camera, size, labelVisit);
+        return;
+    }
+
     const cordGap = camera.scale;
     const visibleAreaWidthInCords = size.width / cordGap;
     const visibleAreaHeightInCords = size.height / cordGap;
 
     // Y coordinates (left gutter)
     for (let i = 0 - (camera.y % 1); i <= visibleAreaHeightInCords + 1; i++) {
-        visit(Math.round(camera.y + i).toString(), LABEL_INSET, cordGap * i + cordGap / 2);
+        labelVisit("y", camera.y + i, LABEL_INSET, cordGap * i + cordGap / 2);
     }
 
     // X coordinates (bottom gutter)
     for (let i = 0 - (camera.x % 1); i <= visibleAreaWidthInCords + 1; i++) {
-        visit(Math.round(camera.x + i).toString(), cordGap * i + cordGap / 2, size.height - LABEL_INSET);
+        labelVisit("x", camera.x + i, cordGap * i + cordGap / 2, size.height - LABEL_INSET);
+    }
+}
+
+/** A cell index moved into `[0, period)`; unchanged when the axis does not wrap. */
+function wrappedCell(cell: number, period: number | undefined): number {
+    return period ? cell - Math.floor(cell / period) * period : cell;
+}
+
+function forEachTransformedCoordinateLabel(
+    camera: OverlayCamera,
+    size: ScreenSize,
+    visit: (axis: "x" | "y", cell: number, x: number, y: number) => void,
+): void {
+    const cordGap = camera.scale;
+    const pivot = { x: size.width / 2, y: size.height / 2 };
+    // Screen point -> item-space world coordinate under it.
+    const worldAt = (x: number, y: number) => {
+        const view = screenToViewAround({ x, y }, pivot, camera.rotation ?? 0, camera.projection);
+        return {
+            x: camera.x + view.x / cordGap - DEFAULT_VALUES.CELL_CENTER_OFFSET,
+            y: camera.y + view.y / cordGap - DEFAULT_VALUES.CELL_CENTER_OFFSET,
+        };
+    };
+
+    // Y coordinates (left gutter)
+    for (let i = 0; i <= size.height / cordGap; i++) {
+        const y = cordGap * i + cordGap / 2;
+        visit("y", worldAt(LABEL_INSET, y).y, LABEL_INSET, y);
+    }
+
+    // X coordinates (bottom gutter)
+    for (let i = 0; i <= size.width / cordGap; i++) {
+        const x = cordGap * i + cordGap / 2;
+        visit("x", worldAt(x, size.height - LABEL_INSET).x, x, size.height - LABEL_INSET);
     }
 }
@@ -1,8 +1,16 @@
 // Platform-free per-frame plumbing shared by every renderer: layer ordering,
 // FPS sampling, and the debug HUD / coordinate overlay layout. Nothing here
 // touches a drawing context — renderers paint what these modules compute.
-export { Layer, type DrawContext, type DrawCallback, type LayerContext } from "./Layer";
+export {
+    Layer,
+    type ApplyOpacity,
+    type DrawContext,
+    type DrawCallback,
+    type LayerCallbackOptions,
+    type LayerContext,
+} from "./Layer";
 export { FpsSampler } from "./FpsSampler";
+export { withMinimapView } from "./minimapView";
 export { computeHudLayout, HUD_STYLE, type HudCamera, type HudLayout, type HudTextLine } from "./hudLayout";
 export {
     coordinateOverlayBorders,
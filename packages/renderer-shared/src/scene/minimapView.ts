@@ -0,0 +1,45 @@
+import {
+    DEFAULT_VALUES,
+    type Coords,
+    type ICamera,
+    type ViewState,
+    type ViewportState,
+} from "@canvas-tile-engine/core";
+
+/**
+ * Run `draw` with the camera and viewport showing a minimap's view, then put
+ * both back. Layer callbacks read the camera live, so the scene's own layers
+ * paint the minimap unchanged, culled to what the minimap shows. The
+ * minimap always shows the world top-down, whatever the main projection.
+ * @param camera The engine camera; must offer `withView`.
+ * @param viewport The engine viewport, resized to the minimap for the draw.
+ * @param view The minimap's view (`MinimapFrame.view`).
+ * @param draw Paints the layers; receives the borrowed top-left.
+ * @internal
+ */
+export function withMinimapView(
+    camera: ICamera,
+    viewport: ViewportState,
+    view: ViewState,
+    draw: (topLeft: Coords) => void,
+): void {
+    if (!camera.withView) {
+        throw new Error("[CanvasTileEngine] The camera cannot lend its view to a minimap");
+    }
+    const { width, height } = view.size;
+    // Same top-left convention as Camera.setCenter
+    const topLeft = {
+        x: view.center.x - width / (2 * view.scale) + DEFAULT_VALUES.CELL_CENTER_OFFSET,
+        y: view.center.y - height / (2 * view.scale) + DEFAULT_VALUES.CELL_CENTER_OFFSET,
+    };
+    const saved = viewport.getSize();
+    viewport.setSize(width, height);
+    try {
+        camera.withView(
+            { ...topLeft, scale: view.scale, rotation: view.rotation, projection: { type: "orthogonal" } },
+            () => draw(topLeft),
+        );
+    } finally {
+        viewport.setSize(saved.width, saved.height);
+    }
+}
@@ -62,4 +62,15 @@ describe("applyLineWidth", () => {
 
         expect(ctx.globalAlpha).toBe(0.5);
     });
+
+    it("multiplies into the current globalAlpha and restores it", () => {
+        const ctx = createMockContext() as unknown as CanvasRenderingContext2D;
+        ctx.globalAlpha = 0.5;
+        const cleanup = applyLineWidth(ctx, 0.5);
+
+        expect(ctx.globalAlpha).toBe(0.25);
+
+        cleanup();
+        expect(ctx.globalAlpha).toBe(0.5);
+    });
 });
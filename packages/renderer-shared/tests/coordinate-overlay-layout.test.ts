@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { COORDINATE_OVERLAY } from "@canvas-tile-engine/core";
-import type { CanvasTileEngineConfig } from "@canvas-tile-engine/core";
+import type { CanvasTileEngineConfig, Projection } from "@canvas-tile-engine/core";
 import {
     coordinateOverlayBorders,
     coordinateOverlayFontSize,
@@ -16,7 +16,10 @@ interface Label {
     y: number;
 }
 
-function labels(camera: { x: number; y: number; scale: number }, viewport = size): Label[] {
+function labels(
+    camera: { x: number; y: number; scale: number; rotation?: number; projection?: Projection },
+    viewport = size,
+): Label[] {
     const collected: Label[] = [];
     forEachCoordinateLabel(camera, viewport, (text, x, y) => collected.push({ text, x, y }));
     return collected;
@@ -121,3 +124,42 @@ describe("forEachCoordinateLabel", () => {
         expect(labels({ x: 0, y: 0, scale: 20 })).toHaveLength(2 * 7);
     });
 });
+
+describe("forEachCoordinateLabel with a rotated view", () => {
+    it("labels each gutter sample with the world coordinate under it", () => {
+        // Half turn: the world runs backwards along both gutters.
+        const rotated = labels({ x: 0, y: 0, scale: 10, rotation: 180 });
+        const xLabels = rotated.filter((l) => l.y === size.height - COORDINATE_OVERLAY.BORDER_WIDTH / 2);
+        expect(xLabels[0]).toEqual({ text: "9", x: 5, y: size.height - COORDINATE_OVERLAY.BORDER_WIDTH / 2 });
+        expect(xLabels[9].text).toBe("0");
+    });
+
+    it("matches the axis-aligned labels at 0°", () => {
+        const camera = { x: 0.25, y: 0.75, scale: 10 };
+        expect(labels({ ...camera, rotation: 0 })).toEqual(labels(camera));
+    });
+});
+
+describe("forEachCoordinateLabel with an isometric view", () => {
+    it("labels each gutter sample with the world coordinate under it", () => {
+        const projected = labels({ x: 0, y: 0, scale: 10, projection: { type: "isometric", tileRatio: 0.5 } });
+        const xLabels = projected.filter((l) => l.y === size.height - COORDINATE_OVERLAY.BORDER_WIDTH / 2);
+        // 40px below the center the diamond rows are 8 cells further on both axes:
+        // screen (55, 90) sits over world (13, 12) once the half-cell offset is taken off.
+        expect(xLabels[5]).toEqual({ text: "13", x: 55, y: size.height - COORDINATE_OVERLAY.BORDER_WIDTH / 2 });
+        expect(xLabels[4].text).toBe("12");
+    });
+});
+
+describe("forEachCoordinateLabel on a wrapped world", () => {
+    it("labels the wrapped axis with cells in the canonical copy", () => {
+        const collected: string[] = [];
+        forEachCoordinateLabel({ x: 8, y: 0, scale: 10 }, size, (text) => collected.push(text), { x: 10 });
+        const rows = collected.slice(0, 12);
+        const columns = collected.slice(12);
+
+        expect(columns.slice(0, 5)).toEqual(["8", "9", "0", "1", "2"]);
+        // y does not wrap
+        expect(rows.slice(9, 12)).toEqual(["9", "10", "11"]);
+    });
+});
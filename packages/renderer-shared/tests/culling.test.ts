@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import type { CanvasTileEngineConfig } from "@canvas-tile-engine/core";
-import { getViewportBounds, isVisible } from "../src/geometry/culling";
+import { getViewRect, getViewportBounds, isVisible } from "../src/geometry/culling";
 
 // 100x100 px at scale 10 = 10x10 world units, plus the 1-unit tile buffer.
 const config = { size: { width: 100, height: 100 }, scale: 10 } as Required<CanvasTileEngineConfig>;
@@ -20,6 +20,39 @@ describe("getViewportBounds", () => {
     });
 });
 
+describe("getViewRect", () => {
+    it("is the bare viewport when the view is not rotated", () => {
+        expect(getViewRect({ x: 0, y: 0 }, config)).toEqual({ minX: 0, minY: 0, maxX: 10, maxY: 10 });
+    });
+
+    it("encloses the rotated viewport around its center", () => {
+        const rotated = { ...config, rotation: 45 } as Required<CanvasTileEngineConfig>;
+        const rect = getViewRect({ x: 0, y: 0 }, rotated);
+        // A 10x10 square turned 45° spans its diagonal, 10 * sqrt(2).
+        const half = 5 * Math.SQRT2;
+        expect(rect.minX).toBeCloseTo(5 - half);
+        expect(rect.maxX).toBeCloseTo(5 + half);
+        expect(rect.minY).toBeCloseTo(5 - half);
+        expect(rect.maxY).toBeCloseTo(5 + half);
+    });
+
+    it("widens getViewportBounds so rotated-in corners are not culled", () => {
+        const rotated = { ...config, rotation: 45 } as Required<CanvasTileEngineConfig>;
+        expect(isVisible(12, 5, 0, { x: 0, y: 0 }, config)).toBe(false);
+        expect(isVisible(12, 5, 0, { x: 0, y: 0 }, rotated)).toBe(true);
+        expect(getViewportBounds({ x: 0, y: 0 }, rotated).maxX).toBeCloseTo(5 + 5 * Math.SQRT2 + 1);
+    });
+
+    it("encloses the world diamond an isometric viewport shows", () => {
+        const isometric = {
+            ...config,
+            projection: { type: "isometric", tileRatio: 0.5 },
+        } as Required<CanvasTileEngineConfig>;
+        // The 2:1 inverse maps the 5x5 half-viewport to 5 + 2 x 5 units on each axis.
+        expect(getViewRect({ x: 0, y: 0 }, isometric)).toEqual({ minX: -10, minY: -10, maxX: 20, maxY: 20 });
+    });
+});
+
 describe("isVisible", () => {
     it("accepts an item inside the viewport", () => {
         expect(isVisible(5, 5, 0.5, { x: 0, y: 0 }, config)).toBe(true);
@@ -17,27 +17,31 @@ describe("EventBinder", () => {
         const handlers = {
             click: vi.fn(),
             contextmenu: vi.fn(),
-            mousedown: vi.fn(),
-            mousemove: vi.fn(),
-            mouseup: vi.fn(),
-            mouseleave: vi.fn(),
+            pointerdown: vi.fn(),
+            pointermove: vi.fn(),
+            pointerup: vi.fn(),
+            pointercancel: vi.fn(),
+            pointerleave: vi.fn(),
+            keydown: vi.fn(),
         };
 
         new EventBinder(canvas, handlers).attach();
 
-        expect(canvas.addEventListener).toHaveBeenCalledTimes(6);
+        expect(canvas.addEventListener).toHaveBeenCalledTimes(8);
         for (const [event, handler] of Object.entries(handlers)) {
             expect(canvas.addEventListener).toHaveBeenCalledWith(event, handler);
         }
     });
 
-    it("attaches wheel and touch handlers as non-passive so they can preventDefault", () => {
+    it("attaches wheel, touch and Safari gesture handlers as non-passive so they can preventDefault", () => {
         const canvas = createFakeCanvas();
         const handlers = {
             wheel: vi.fn(),
             touchstart: vi.fn(),
             touchmove: vi.fn(),
-            touchend: vi.fn(),
+            gesturestart: vi.fn(),
+            gesturechange: vi.fn(),
+            gestureend: vi.fn(),
         };
 
         new EventBinder(canvas, handlers).attach();
@@ -57,13 +61,14 @@ describe("EventBinder", () => {
 
     it("detaches exactly the handler references it attached", () => {
         const canvas = createFakeCanvas();
-        const handlers = { click: vi.fn(), wheel: vi.fn(), touchstart: vi.fn() };
+        const handlers = { click: vi.fn(), wheel: vi.fn(), touchstart: vi.fn(), gesturechange: vi.fn() };
         const binder = new EventBinder(canvas, handlers);
 
         binder.attach();
         binder.detach();
 
-        expect(canvas.removeEventListener).toHaveBeenCalledTimes(3);
+        expect(canvas.removeEventListener).toHaveBeenCalledTimes(4);
+        expect(canvas.removeEventListener).toHaveBeenCalledWith("gesturechange", handlers.gesturechange);
         expect(canvas.removeEventListener).toHaveBeenCalledWith("click", handlers.click);
         expect(canvas.removeEventListener).toHaveBeenCalledWith("wheel", handlers.wheel);
         expect(canvas.removeEventListener).toHaveBeenCalledWith("touchstart", handlers.touchstart);
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { hexCorners } from "@canvas-tile-engine/core";
+import type { Coords, HexLayout } from "@canvas-tile-engine/core";
+import { forEachHexGridEdge } from "../src/geometry/hexGrid";
+
+// Undirected, rounding away float noise so shared edges compare equal
+function pointKey(point: Coords): string {
+    return `${Math.round(point.x * 1e6) + 0},${Math.round(point.y * 1e6) + 0}`;
+}
+
+function edgeKey(from: Coords, to: Coords): string {
+    const a = pointKey(from);
+    const b = pointKey(to);
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function collect(layout: HexLayout): string[] {
+    const edges: string[] = [];
+    forEachHexGridEdge({ minX: -2, minY: -3, maxX: 6, maxY: 4 }, layout, (from, to) => edges.push(edgeKey(from, to)));
+    return edges;
+}
+
+describe.each<HexLayout>([{ orientation: "pointy" }, { orientation: "flat" }])("forEachHexGridEdge %o", (layout) => {
+    it("visits each edge once", () => {
+        const edges = collect(layout);
+        expect(new Set(edges).size).toBe(edges.length);
+    });
+
+    it("outlines every hex inside the view", () => {
+        const edges = new Set(collect(layout));
+        // Item-space hexes well inside the view (which is in topLeft space)
+        for (const hex of [
+            { x: 0, y: 0 },
+            { x: 2, y: 1 },
+            { x: -1, y: 2 },
+            { x: 4, y: -2 },
+        ]) {
+            const corners = hexCorners(hex, layout);
+            for (let i = 0; i < 6; i++) {
+                expect(edges.has(edgeKey(corners[i], corners[(i + 1) % 6]))).toBe(true);
+            }
+        }
+    });
+});
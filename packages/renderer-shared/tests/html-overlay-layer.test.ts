@@ -0,0 +1,90 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { HtmlOverlayLayer } from "../src/dom/HtmlOverlayLayer";
+
+/** 10 px per world unit, world (0, 0) at the top-left pixel; 100x100 viewport. */
+function createLayer() {
+    const wrapper = document.createElement("div");
+    wrapper.appendChild(document.createElement("canvas"));
+    const camera = { x: 0, y: 0, scale: 10 };
+    const layer = new HtmlOverlayLayer(wrapper, {
+        worldToScreen: (x, y) => ({ x: (x - camera.x) * camera.scale, y: (y - camera.y) * camera.scale }),
+        size: () => ({ width: 100, height: 100 }),
+        scale: () => camera.scale,
+        baseScale: () => 10,
+    });
+    return { wrapper, camera, layer };
+}
+
+describe("HtmlOverlayLayer", () => {
+    it("creates the layer above the canvas with the first overlay, letting pointer input through", () => {
+        const { wrapper, layer } = createLayer();
+        expect(wrapper.children).toHaveLength(1);
+
+        const element = document.createElement("div");
+        layer.add(element, { x: 2, y: 3 });
+
+        const overlayLayer = wrapper.lastElementChild as HTMLDivElement;
+        expect(overlayLayer.style.pointerEvents).toBe("none");
+        expect(element.parentElement).toBe(overlayLayer);
+        expect(element.style.pointerEvents).toBe("auto");
+    });
+
+    it("places the anchor point on the world position, plus the pixel offset", () => {
+        const { layer } = createLayer();
+        const element = document.createElement("div");
+        layer.add(element, { x: 2, y: 3, anchor: "bottom", offsetPx: { x: 0, y: -8 } });
+
+        expect(element.style.transform).toBe("translate(20px, 22px) translate(-50%, -100%)");
+    });
+
+    it("follows the camera on update and hides while the point is off-screen", () => {
+        const { camera, layer } = createLayer();
+        const element = document.createElement("div");
+        layer.add(element, { x: 2, y: 3, anchor: "top-left" });
+
+        camera.x = 1;
+        layer.update();
+        expect(element.style.transform).toBe("translate(10px, 30px) translate(0%, 0%)");
+
+        camera.x = 5;
+        layer.update();
+        expect(element.style.visibility).toBe("hidden");
+
+        camera.x = 0;
+        layer.update();
+        expect(element.style.visibility).toBe("");
+    });
+
+    it("scales with zoom relative to the base scale or a given one", () => {
+        const { camera, layer } = createLayer();
+        const base = document.createElement("div");
+        const fixed = document.createElement("div");
+        layer.add(base, { x: 0, y: 0, scaleWithZoom: true });
+        layer.add(fixed, { x: 0, y: 0, scaleWithZoom: 5 });
+
+        camera.scale = 20;
+        layer.update();
+        expect(base.style.transform).toBe("translate(0px, 0px) scale(2) translate(-50%, -50%)");
+        expect(fixed.style.transform).toBe("translate(0px, 0px) scale(4) translate(-50%, -50%)");
+    });
+
+    it("updates, removes, and drops everything on destroy", () => {
+        const { wrapper, layer } = createLayer();
+        const element = document.createElement("div");
+        const overlay = layer.add(element, { x: 2, y: 3 });
+
+        overlay.update({ x: 4 });
+        expect(element.style.transform).toBe("translate(40px, 30px) translate(-50%, -50%)");
+
+        overlay.remove();
+        expect(element.parentElement).toBeNull();
+        // A removed overlay stays out
+        overlay.update({ x: 5 });
+        expect(element.style.transform).toBe("translate(40px, 30px) translate(-50%, -50%)");
+
+        layer.add(document.createElement("div"), { x: 1, y: 1 });
+        layer.destroy();
+        expect(wrapper.children).toHaveLength(1);
+    });
+});
@@ -1,4 +1,5 @@
 import { describe, expect, it } from "vitest";
+import type { CanvasTileEngineConfig, Coords, ICamera, WorldWrap } from "@canvas-tile-engine/core";
 import { Layer } from "../src/scene/Layer";
 
 /** Canvas2D-shaped target: `save()` returns nothing, so the layer pairs it with `restore()`. */
@@ -51,6 +52,19 @@ describe("Layer", () => {
         expect(order).toEqual(["zero", "two", "five"]);
     });
 
+    it("draws only the requested layers, still in layer order", () => {
+        const layer = new Layer<{ ctx: { save(): void; restore(): void } }>();
+        const order: string[] = [];
+
+        layer.add(0, () => order.push("zero"));
+        layer.add(1, () => order.push("one"));
+        layer.add(2, () => order.push("two"));
+
+        layer.drawAll({ ctx: canvas2dContext().ctx }, [2, 0]);
+
+        expect(order).toEqual(["zero", "two"]);
+    });
+
     it("keeps registration order within a layer", () => {
         const layer = new Layer<{ ctx: { save(): void; restore(): void } }>();
         const order: string[] = [];
@@ -125,6 +139,26 @@ describe("Layer", () => {
         expect(order).toEqual(["kept"]);
     });
 
+    it("replaces a callback in place, keeping its handle and draw order", () => {
+        const layer = new Layer<{ ctx: { save(): void; restore(): void } }>();
+        const order: string[] = [];
+
+        const handle = layer.add(1, () => order.push("old"));
+        layer.add(1, () => order.push("after"));
+        const replaced = layer.add(1, () => order.push("new"), { replace: handle });
+        layer.drawAll({ ctx: canvas2dContext().ctx });
+
+        expect(replaced).toEqual(handle);
+        expect(order).toEqual(["new", "after"]);
+
+        // A removed handle has nothing to replace: the callback is added
+        layer.remove(handle);
+        order.length = 0;
+        layer.add(1, () => order.push("added"), { replace: handle });
+        layer.drawAll({ ctx: canvas2dContext().ctx });
+        expect(order).toEqual(["after", "added"]);
+    });
+
     it("clears one layer or all of them", () => {
         const layer = new Layer<{ ctx: { save(): void; restore(): void } }>();
         const order: string[] = [];
@@ -140,4 +174,152 @@ describe("Layer", () => {
         layer.drawAll({ ctx: canvas2dContext().ctx });
         expect(order).toEqual([]);
     });
+
+    describe("world wrap", () => {
+        type WrapContext = {
+            ctx: { save(): void; restore(): void };
+            camera: ICamera;
+            config: Required<CanvasTileEngineConfig>;
+            topLeft: Coords;
+        };
+
+        /** A camera whose `withView` swaps its position in for the duration of `fn`, like the real one. */
+        function wrapContext(wrap: WorldWrap): WrapContext {
+            const camera = { x: 5, y: 0, scale: 10, rotation: 0 } as ICamera;
+            camera.withView = (view, fn) => {
+                const saved = { x: camera.x, y: camera.y };
+                Object.assign(camera, { x: view.x, y: view.y });
+                try {
+                    return fn();
+                } finally {
+                    Object.assign(camera, saved);
+                }
+            };
+            const config = { size: { width: 100, height: 100 }, scale: 10, wrap } as Required<CanvasTileEngineConfig>;
+            return { ctx: canvas2dContext().ctx, camera, config, topLeft: { x: 5, y: 0 } };
+        }
+
+        it("runs a callback once per copy of the world in view, with the view shifted", () => {
+            const layer = new Layer<WrapContext>();
+            const seen: { topLeft: number; camera: number }[] = [];
+
+            layer.add(0, ({ topLeft, camera }) => seen.push({ topLeft: topLeft.x, camera: camera.x }));
+            // View spans x 5..15 on a world 10 wide: the canonical copy and the one east of it
+            layer.drawAll(wrapContext({ x: 10 }));
+
+            expect(seen).toEqual([
+                { topLeft: 5, camera: 5 },
+                { topLeft: -5, camera: -5 },
+            ]);
+        });
+
+        it("runs wrap: false callbacks once", () => {
+            const layer = new Layer<WrapContext>();
+            let calls = 0;
+
+            layer.add(0, () => calls++, { wrap: false });
+            layer.drawAll(wrapContext({ x: 10 }));
+
+            expect(calls).toBe(1);
+        });
+
+        it("draws once when the world does not wrap", () => {
+            const layer = new Layer<WrapContext>();
+            let calls = 0;
+
+            layer.add(0, () => calls++);
+            layer.drawAll(wrapContext({}));
+
+            expect(calls).toBe(1);
+        });
+    });
+
+    describe("scale ranges", () => {
+        type ScaleContext = { ctx: { save(): void; restore(): void }; camera: ICamera; calls: string[] };
+
+        function scaleContext(scale: number): ScaleContext {
+            const target = canvas2dContext();
+            return { ctx: target.ctx, camera: { scale } as ICamera, calls: target.calls };
+        }
+
+        /** A layer whose fade records the opacity and its cleanup into the context's call log. */
+        function fadingLayer() {
+            return new Layer<ScaleContext>(({ calls }, opacity) => {
+                calls.push(`fade ${opacity}`);
+                return () => calls.push("unfade");
+            });
+        }
+
+        it("skips a callback outside its range", () => {
+            const layer = fadingLayer();
+            const dc = scaleContext(5);
+
+            layer.add(0, () => dc.calls.push("detail"), { minScale: 10 });
+            layer.add(0, () => dc.calls.push("overview"), { maxScale: 10 });
+            layer.drawAll(dc);
+
+            expect(dc.calls).toEqual(["save", "overview", "restore"]);
+        });
+
+        it("fades a callback inside the band, undoing it before restore", () => {
+            const layer = fadingLayer();
+            const dc = scaleContext(10);
+
+            layer.add(0, () => dc.calls.push("detail"), { minScale: 10, scaleFade: 4 });
+            layer.drawAll(dc);
+
+            expect(dc.calls).toEqual(["save", "fade 0.5", "detail", "unfade", "restore"]);
+        });
+
+        it("combines a layer's range with its callbacks' and keeps it across clear", () => {
+            const layer = fadingLayer();
+            const dc = scaleContext(10);
+
+            layer.setScaleRange(1, { maxScale: 8 });
+            layer.add(1, () => dc.calls.push("hidden"));
+            layer.drawAll(dc);
+            expect(dc.calls).toEqual([]);
+
+            layer.clear();
+            layer.add(1, () => dc.calls.push("still hidden"));
+            layer.drawAll(dc);
+            expect(dc.calls).toEqual([]);
+
+            layer.setScaleRange(1, { maxScale: 12, scaleFade: 8 });
+            layer.drawAll(dc);
+            expect(dc.calls).toEqual(["save", "fade 0.75", "still hidden", "unfade", "restore"]);
+        });
+
+        it("multiplies a callback's own opacity into its fade", () => {
+            const layer = fadingLayer();
+            const dc = scaleContext(10);
+
+            layer.add(0, () => dc.calls.push("ghost"), { opacity: 0.5 });
+            layer.add(0, () => dc.calls.push("faded ghost"), { opacity: 0.5, minScale: 10, scaleFade: 4 });
+            layer.drawAll(dc);
+
+            expect(dc.calls).toEqual([
+                "save",
+                "fade 0.5",
+                "ghost",
+                "unfade",
+                "restore",
+                "save",
+                "fade 0.25",
+                "faded ghost",
+                "unfade",
+                "restore",
+            ]);
+        });
+
+        it("draws every callback without a camera to read the scale from", () => {
+            const layer = new Layer<{ ctx: { save(): void; restore(): void } }>();
+            const order: string[] = [];
+
+            layer.add(0, () => order.push("ranged"), { minScale: 10 });
+            layer.drawAll({ ctx: canvas2dContext().ctx });
+
+            expect(order).toEqual(["ranged"]);
+        });
+    });
 });
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { ICamera, ViewportState } from "@canvas-tile-engine/core";
+import { withMinimapView } from "../src/scene/minimapView";
+
+/** A camera stand-in whose view can be borrowed, like the core Camera's. */
+function createCamera() {
+    const state = { x: 3, y: 4, scale: 10, rotation: 30 };
+    const camera = {
+        get x() {
+            return state.x;
+        },
+        get y() {
+            return state.y;
+        },
+        get scale() {
+            return state.scale;
+        },
+        get rotation() {
+            return state.rotation;
+        },
+        withView<T>(view: typeof state, fn: () => T): T {
+            const saved = { ...state };
+            Object.assign(state, view);
+            try {
+                return fn();
+            } finally {
+                Object.assign(state, saved);
+            }
+        },
+    } as unknown as ICamera;
+    return camera;
+}
+
+describe("withMinimapView", () => {
+    const view = { center: { x: 50, y: 25 }, scale: 2, rotation: 0, size: { width: 200, height: 100 } };
+
+    it("shows the minimap view during the draw and restores the viewport after", () => {
+        const viewport = new ViewportState(800, 600);
+        const camera = createCamera();
+
+        let seen: object | undefined;
+        withMinimapView(camera, viewport, view, (topLeft) => {
+            seen = { topLeft, scale: camera.scale, rotation: camera.rotation, size: viewport.getSize() };
+        });
+
+        // Same top-left convention as Camera.setCenter: center - half size + 0.5
+        expect(seen).toEqual({
+            topLeft: { x: 0.5, y: 0.5 },
+            scale: 2,
+            rotation: 0,
+            size: { width: 200, height: 100 },
+        });
+        expect(camera.scale).toBe(10);
+        expect(viewport.getSize()).toEqual({ width: 800, height: 600 });
+    });
+
+    it("restores the viewport even when the draw throws", () => {
+        const viewport = new ViewportState(800, 600);
+
+        expect(() =>
+            withMinimapView(createCamera(), viewport, view, () => {
+                throw new Error("draw failed");
+            }),
+        ).toThrow("draw failed");
+        expect(viewport.getSize()).toEqual({ width: 800, height: 600 });
+    });
+
+    it("throws for a camera that cannot lend its view", () => {
+        const camera = { x: 0, y: 0, scale: 1 } as unknown as ICamera;
+        expect(() => withMinimapView(camera, new ViewportState(800, 600), view, () => {})).toThrow(/minimap/);
+    });
+});
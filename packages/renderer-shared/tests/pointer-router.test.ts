@@ -0,0 +1,135 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from "vitest";
+import type { Config, EventHandlers, GestureProcessor, NormalizedPointer } from "@canvas-tile-engine/core";
+import { EventBinder } from "../src/dom/EventBinder";
+import { PointerRouter } from "../src/dom/PointerRouter";
+
+function createRouter(eventHandlers: EventHandlers) {
+    const canvas = document.createElement("canvas");
+    canvas.setPointerCapture = vi.fn();
+    const processor = {
+        handleClick: vi.fn(),
+        handlePointerDown: vi.fn(),
+        handlePointerMove: vi.fn(),
+        handlePointerUp: vi.fn(),
+        handlePointerLeave: vi.fn(),
+        handleTouchStart: vi.fn(),
+        handleTouchMove: vi.fn(),
+        handleTouchEnd: vi.fn(),
+    };
+    const config = { get: () => ({ eventHandlers }) } as unknown as Config;
+    const normalize = (e: PointerEvent | MouseEvent): NormalizedPointer => ({
+        x: e.clientX,
+        y: e.clientY,
+        clientX: e.clientX,
+        clientY: e.clientY,
+        pointerId: (e as PointerEvent).pointerId,
+    });
+    const router = new PointerRouter(canvas, processor as unknown as GestureProcessor, config, normalize);
+    new EventBinder(canvas, router.handlers).attach();
+    return { canvas, processor };
+}
+
+/** A pointer event at canvas pixels; jsdom has no PointerEvent, so its fields go on a MouseEvent. */
+function dispatch(
+    canvas: HTMLCanvasElement,
+    type: string,
+    { id = 1, pointerType = "touch", x = 0, y = 0, button = 0 } = {},
+) {
+    const event = new MouseEvent(type, { clientX: x, clientY: y, button, cancelable: true });
+    Object.defineProperty(event, "pointerId", { value: id });
+    Object.defineProperty(event, "pointerType", { value: pointerType });
+    canvas.dispatchEvent(event);
+}
+
+/** What `normalize` makes of a touch at (x, y). */
+const touch = (id: number, x: number, y: number) => ({ x, y, clientX: x, clientY: y, pointerId: id });
+
+describe("PointerRouter", () => {
+    it("feeds a two-finger pinch to the touch handlers with every finger down", () => {
+        const { canvas, processor } = createRouter({ zoom: true });
+
+        dispatch(canvas, "pointerdown", { id: 1, x: 10, y: 10 });
+        dispatch(canvas, "pointerdown", { id: 2, x: 50, y: 50 });
+        dispatch(canvas, "pointermove", { id: 2, x: 70, y: 70 });
+        dispatch(canvas, "pointerup", { id: 2, x: 70, y: 70 });
+        dispatch(canvas, "pointerup", { id: 1, x: 10, y: 10 });
+
+        expect(processor.handleTouchStart.mock.calls).toEqual([
+            [[touch(1, 10, 10)]],
+            [[touch(1, 10, 10), touch(2, 50, 50)]],
+        ]);
+        expect(processor.handleTouchMove).toHaveBeenCalledExactlyOnceWith([touch(1, 10, 10), touch(2, 70, 70)]);
+        expect(processor.handleTouchEnd.mock.calls).toEqual([
+            [[touch(1, 10, 10)], touch(2, 70, 70)],
+            [[], touch(1, 10, 10)],
+        ]);
+        expect(processor.handlePointerDown).not.toHaveBeenCalled();
+        expect(canvas.setPointerCapture).not.toHaveBeenCalled();
+    });
+
+    it("resets the pinch without a changed pointer when a finger is cancelled", () => {
+        const { canvas, processor } = createRouter({ zoom: true });
+
+        dispatch(canvas, "pointerdown", { id: 1, x: 10, y: 10 });
+        dispatch(canvas, "pointerdown", { id: 2, x: 50, y: 50 });
+        dispatch(canvas, "pointercancel", { id: 2, x: 60, y: 60 });
+        // The cancelled finger is forgotten
+        dispatch(canvas, "pointermove", { id: 2, x: 80, y: 80 });
+        dispatch(canvas, "pointercancel", { id: 1, x: 10, y: 10 });
+
+        expect(processor.handleTouchEnd.mock.calls).toEqual([[[touch(1, 10, 10)]], [[]]]);
+        expect(processor.handleTouchMove).not.toHaveBeenCalled();
+        expect(processor.handlePointerLeave).not.toHaveBeenCalled();
+    });
+
+    it("turns an unclaimed tap into one press, release and click, letting the page scroll", () => {
+        const { canvas, processor } = createRouter({ rightClick: true });
+
+        const touchstart = new Event("touchstart", { cancelable: true });
+        canvas.dispatchEvent(touchstart);
+        dispatch(canvas, "pointerdown", { id: 3, x: 20, y: 20 });
+        dispatch(canvas, "pointerup", { id: 3, x: 20, y: 20 });
+        // The browser's click after the tap
+        dispatch(canvas, "click", { id: 3, x: 20, y: 20 });
+
+        expect(touchstart.defaultPrevented).toBe(false);
+        expect(processor.handlePointerDown).toHaveBeenCalledExactlyOnceWith(touch(3, 20, 20));
+        expect(processor.handlePointerUp).toHaveBeenCalledExactlyOnceWith(touch(3, 20, 20));
+        expect(processor.handleClick).toHaveBeenCalledExactlyOnceWith(touch(3, 20, 20));
+        expect(processor.handleTouchStart).not.toHaveBeenCalled();
+        expect(processor.handleTouchEnd).not.toHaveBeenCalled();
+    });
+
+    it("does not fire click twice for a claimed tap", () => {
+        const { canvas, processor } = createRouter({ click: true });
+
+        const touchstart = new Event("touchstart", { cancelable: true });
+        canvas.dispatchEvent(touchstart);
+        dispatch(canvas, "pointerdown", { id: 4, x: 30, y: 30 });
+        dispatch(canvas, "pointerup", { id: 4, x: 30, y: 30 });
+        dispatch(canvas, "click", { id: 4, x: 30, y: 30 });
+
+        expect(touchstart.defaultPrevented).toBe(true);
+        // The processor fires onClick from the touch end; the DOM click is dropped
+        expect(processor.handleTouchEnd).toHaveBeenCalledExactlyOnceWith([], touch(4, 30, 30));
+        expect(processor.handleClick).not.toHaveBeenCalled();
+        expect(processor.handlePointerDown).not.toHaveBeenCalled();
+    });
+
+    it("captures primary mouse presses and leaves other buttons to the browser", () => {
+        const { canvas, processor } = createRouter({ drag: true });
+
+        dispatch(canvas, "pointerdown", { id: 5, pointerType: "mouse", button: 1 });
+        dispatch(canvas, "pointerdown", { id: 5, pointerType: "mouse", x: 5, y: 5 });
+        dispatch(canvas, "pointerup", { id: 5, pointerType: "mouse", button: 2 });
+        dispatch(canvas, "pointerup", { id: 5, pointerType: "mouse", x: 5, y: 5 });
+        dispatch(canvas, "click", { id: 5, pointerType: "mouse", x: 5, y: 5 });
+
+        expect(canvas.setPointerCapture).toHaveBeenCalledExactlyOnceWith(5);
+        expect(processor.handlePointerDown).toHaveBeenCalledTimes(1);
+        expect(processor.handlePointerUp).toHaveBeenCalledTimes(1);
+        expect(processor.handleClick).toHaveBeenCalledTimes(1);
+        expect(processor.handleTouchStart).not.toHaveBeenCalled();
+    });
+});
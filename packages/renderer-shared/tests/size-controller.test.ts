@@ -88,7 +88,7 @@ describe("SizeController", () => {
 
             controller.resizeWithAnimation(100, 5000, 500, animation);
 
-            expect(animateResize).toHaveBeenCalledWith(300, 900, 500, expect.any(Function), undefined);
+            expect(animateResize).toHaveBeenCalledWith(300, 900, 500, expect.any(Function), undefined, undefined);
         });
 
         it("delegates each animation step to applySize", () => {
@@ -97,9 +97,9 @@ describe("SizeController", () => {
             const animation = { animateResize } as unknown as AnimationController;
             const onComplete = () => {};
 
-            controller.resizeWithAnimation(640, 480, 500, animation, onComplete);
+            controller.resizeWithAnimation(640, 480, 500, animation, onComplete, "easeOut");
 
-            expect(animateResize).toHaveBeenCalledWith(640, 480, 500, expect.any(Function), onComplete);
+            expect(animateResize).toHaveBeenCalledWith(640, 480, 500, expect.any(Function), onComplete, "easeOut");
             const step = animateResize.mock.calls[0]![3] as (w: number, h: number, center: Coords) => void;
             step(640, 480, { x: 1, y: 2 });
             expect(viewport.getSize()).toEqual({ width: 640, height: 480 });
@@ -3,32 +3,47 @@ import {
     Config,
     CoordinateTransformer,
     Coords,
+    Easing,
     GestureProcessor,
     ICamera,
     IDrawAPI,
     IImageLoader,
     IRenderer,
+    MinimapFrame,
     NormalizedPointer,
     onClickCallback,
+    onDoubleClickCallback,
     onDrawCallback,
     onHoverCallback,
+    onLongPressCallback,
     onMouseDownCallback,
     onMouseLeaveCallback,
     onMouseUpCallback,
     onRightClickCallback,
     onWheelCallback,
+    PointerCapture,
     onZoomCallback,
     RendererDependencies,
     ViewportState,
     DrawTransform,
+    isIsometric,
+    viewMatrix,
 } from "@canvas-tile-engine/core";
-import { Skia, type SkCanvas, type SkImage, type SkPaint, type SkPicture } from "@shopify/react-native-skia";
-import { Layer } from "@canvas-tile-engine/renderer-shared/scene";
-import { SkiaDraw } from "./modules/SkiaDraw";
+import {
+    PaintStyle,
+    Skia,
+    type SkCanvas,
+    type SkImage,
+    type SkPaint,
+    type SkPicture,
+} from "@shopify/react-native-skia";
+import { Layer, withMinimapView } from "@canvas-tile-engine/renderer-shared/scene";
+import { SkiaDraw, fadeSkia } from "./modules/SkiaDraw";
 import { SkiaImageLoader } from "./modules/SkiaImageLoader";
 import { SkiaCoordinateOverlayRenderer } from "./modules/SkiaCoordinateOverlayRenderer";
 import { SkiaDebug } from "./modules/SkiaDebug";
 import { SkiaMount, SkiaDrawContext } from "./types";
+import { toSkMatrix } from "./utils/matrix";
 
 /**
  * React Native Skia implementation of {@link IRenderer}.
@@ -76,6 +91,9 @@ export class RendererSkia implements IRenderer<SkiaMount, SkImage> {
     /** Callback fired when camera position changes (drag/zoom). */
     public onCameraChange?: () => void;
 
+    /** Engine hook fired when a user drag starts panning the camera. */
+    public onDragStart?: () => void;
+
     // ─── Callback Getters/Setters (proxy to GestureProcessor) ───
 
     get onClick(): onClickCallback | undefined {
@@ -87,6 +105,24 @@ export class RendererSkia implements IRenderer<SkiaMount, SkImage> {
         }
     }
 
+    get onDoubleClick(): onDoubleClickCallback | undefined {
+        return this.gestureProcessor?.onDoubleClick;
+    }
+    set onDoubleClick(cb: onDoubleClickCallback | undefined) {
+        if (this.gestureProcessor) {
+            this.gestureProcessor.onDoubleClick = cb;
+        }
+    }
+
+    get onLongPress(): onLongPressCallback | undefined {
+        return this.gestureProcessor?.onLongPress;
+    }
+    set onLongPress(cb: onLongPressCallback | undefined) {
+        if (this.gestureProcessor) {
+            this.gestureProcessor.onLongPress = cb;
+        }
+    }
+
     get onRightClick(): onRightClickCallback | undefined {
         return this.gestureProcessor?.onRightClick;
     }
@@ -150,6 +186,16 @@ export class RendererSkia implements IRenderer<SkiaMount, SkImage> {
         }
     }
 
+    /** Engine hook that claims pointer drags from the camera (item dragging). */
+    get pointerCapture(): PointerCapture | undefined {
+        return this.gestureProcessor?.pointerCapture;
+    }
+    set pointerCapture(capture: PointerCapture | undefined) {
+        if (this.gestureProcessor) {
+            this.gestureProcessor.pointerCapture = capture;
+        }
+    }
+
     init(deps: RendererDependencies<SkiaMount>): void {
         this.mount = deps.wrapper;
         this.config = deps.config;
@@ -157,7 +203,7 @@ export class RendererSkia implements IRenderer<SkiaMount, SkImage> {
         this.viewport = deps.viewport;
         this.transformer = deps.transformer;
 
-        this.layers = new Layer();
+        this.layers = new Layer<SkiaDrawContext>(fadeSkia);
         this.drawAPI = new SkiaDraw(this.layers, deps.transformer, deps.camera);
 
         this.bgPaint = Skia.Paint();
@@ -189,6 +235,7 @@ export class RendererSkia implements IRenderer<SkiaMount, SkImage> {
                 this.onCameraChange?.();
             },
         );
+        this.gestureProcessor.onDragStart = () => this.onDragStart?.();
 
         this.animationController = new AnimationController(
             this.camera,
@@ -249,7 +296,17 @@ export class RendererSkia implements IRenderer<SkiaMount, SkImage> {
         this.bgPaint.setColor(Skia.Color(config.backgroundColor));
         canvas.drawRect(Skia.XYWHRect(0, 0, size.width, size.height), this.bgPaint);
 
-        // Engine layers
+        // Engine layers, drawn in view space under the camera rotation and projection
+        const count = canvas.save();
+        const rotation = this.camera.rotation ?? 0;
+        const projection = this.camera.projection;
+        if (isIsometric(projection)) {
+            canvas.translate(size.width / 2, size.height / 2);
+            canvas.concat(toSkMatrix(viewMatrix(rotation, projection)));
+            canvas.translate(-size.width / 2, -size.height / 2);
+        } else if (rotation) {
+            canvas.rotate(rotation, size.width / 2, size.height / 2);
+        }
         this.layers.drawAll({
             ctx: canvas,
             camera: this.camera,
@@ -257,6 +314,7 @@ export class RendererSkia implements IRenderer<SkiaMount, SkImage> {
             config,
             topLeft,
         });
+        canvas.restoreToCount(count);
 
         // User custom draw callback (optional) — receives the SkCanvas
         this.onDraw?.(canvas, topLeft, config, this.drawTransform);
@@ -269,12 +327,71 @@ export class RendererSkia implements IRenderer<SkiaMount, SkImage> {
         return recorder.finishRecordingAsPicture();
     }
 
+    // ─── Minimap ───
+
+    /**
+     * Paint a minimap frame: the selected layers under the minimap's view,
+     * then the main viewport outline.
+     * @param target The `SkCanvas` the host records the minimap picture on.
+     * @param frame Frame from `minimap.getFrame()`.
+     */
+    renderMinimap(target: unknown, frame: MinimapFrame): void {
+        const canvas = target as SkCanvas;
+        const { view } = frame;
+        const { width, height } = view.size;
+
+        const background = Skia.Paint();
+        background.setColor(Skia.Color(frame.backgroundColor));
+        canvas.drawRect(Skia.XYWHRect(0, 0, width, height), background);
+
+        const count = canvas.save();
+        withMinimapView(this.camera, this.viewport, view, (topLeft) => {
+            this.layers.drawAll(
+                {
+                    ctx: canvas,
+                    camera: this.camera,
+                    transformer: this.transformer,
+                    config: { ...this.config.get(), size: { width, height }, scale: view.scale },
+                    topLeft,
+                },
+                frame.layers,
+            );
+        });
+        canvas.restoreToCount(count);
+
+        // Main viewport outline
+        const { fillStyle, strokeStyle, lineWidth } = frame.viewportStyle;
+        const path = Skia.Path.Make();
+        frame.viewport.forEach((corner, i) =>
+            i === 0 ? path.moveTo(corner.x, corner.y) : path.lineTo(corner.x, corner.y),
+        );
+        path.close();
+        const fill = Skia.Paint();
+        fill.setStyle(PaintStyle.Fill);
+        fill.setColor(Skia.Color(fillStyle));
+        canvas.drawPath(path, fill);
+        if (lineWidth > 0) {
+            const stroke = Skia.Paint();
+            stroke.setAntiAlias(true);
+            stroke.setStyle(PaintStyle.Stroke);
+            stroke.setStrokeWidth(lineWidth);
+            stroke.setColor(Skia.Color(strokeStyle));
+            canvas.drawPath(path, stroke);
+        }
+    }
+
     resize(width: number, height: number): void {
         this.viewport.setSize(width, height);
         this.render();
     }
 
-    resizeWithAnimation(width: number, height: number, durationMs: number, onComplete?: () => void): void {
+    resizeWithAnimation(
+        width: number,
+        height: number,
+        durationMs: number,
+        onComplete?: () => void,
+        easing?: Easing,
+    ): void {
         this.animationController.animateResize(
             width,
             height,
@@ -288,11 +405,13 @@ export class RendererSkia implements IRenderer<SkiaMount, SkImage> {
                 this.onResize?.();
                 onComplete?.();
             },
+            easing,
         );
     }
 
     destroy(): void {
         this.animationController?.cancelAll();
+        this.gestureProcessor?.destroy();
         this.drawAPI?.destroy();
         this.layers?.clear();
         this.debugOverlay?.destroy();
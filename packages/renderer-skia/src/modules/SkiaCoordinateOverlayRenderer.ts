@@ -50,9 +50,14 @@ export class SkiaCoordinateOverlayRenderer {
 
         const font = this.getFont(coordinateOverlayFontSize(this.camera.scale));
 
-        forEachCoordinateLabel(this.camera, size, (text, x, y) => {
-            this.drawCenteredText(canvas, text, x, y, font);
-        });
+        forEachCoordinateLabel(
+            this.camera,
+            size,
+            (text, x, y) => {
+                this.drawCenteredText(canvas, text, x, y, font);
+            },
+            this.config.get().wrap,
+        );
     }
 
     /**
@@ -27,6 +27,11 @@ import {
     pathItemBounds,
     type CommandTraceTarget,
     DrawTransform,
+    depthSorted,
+    invertMatrix,
+    isIsometric,
+    projectionMatrix,
+    type ViewMatrix,
 } from "@canvas-tile-engine/core";
 import type {
     AnchoredItem,
@@ -35,6 +40,7 @@ import type {
     PathDecorationStyle,
     RendererDrawOptions,
     RendererImageDrawOptions,
+    ScaleRange,
     ShapeDecorationStyle,
     StyleOf,
     TextDecorationStyle,
@@ -54,11 +60,17 @@ import {
     type SkPicture,
     type SkRect,
 } from "@shopify/react-native-skia";
-import { getViewportBounds, isVisible } from "@canvas-tile-engine/renderer-shared/geometry";
+import {
+    forEachHexGridEdge,
+    getViewRect,
+    getViewportBounds,
+    isVisible,
+} from "@canvas-tile-engine/renderer-shared/geometry";
 import { Layer } from "@canvas-tile-engine/renderer-shared/scene";
 import { LruCache } from "@canvas-tile-engine/renderer-shared/cache";
 import type { SkiaDrawContext } from "../types";
 import { DEFAULT_SANS_SERIF } from "../utils/fonts";
+import { toSkMatrix } from "../utils/matrix";
 
 // Threshold for using spatial indexing (below this, linear scan is faster)
 const SPATIAL_INDEX_THRESHOLD = 500;
@@ -83,6 +95,18 @@ const SPATIAL_INDEX_THRESHOLD = 500;
  */
 export const COLOR_CACHE_LIMIT = 8192;
 
+/**
+ * Scale-range fade for Skia layers (the `applyOpacity` of their `Layer`):
+ * records the callback into a save layer composited at `opacity`, which the
+ * layer's `restoreToCount` pops.
+ * @internal
+ */
+export function fadeSkia({ ctx: canvas }: SkiaDrawContext, opacity: number): void {
+    const paint = Skia.Paint();
+    paint.setAlphaf(opacity);
+    canvas.saveLayer(paint);
+}
+
 /**
  * Skia implementation of the engine draw API.
  *
@@ -93,10 +117,14 @@ export const COLOR_CACHE_LIMIT = 8192;
  * @internal
  */
 export class SkiaDraw {
-    /** Transform helpers handed to custom draw callbacks. */
+    /**
+     * Transform helpers handed to custom draw callbacks. Layer callbacks run
+     * under the renderer's view rotation, so they map to unrotated view
+     * pixels — identical to screen pixels while the camera is not rotated.
+     */
     private drawTransform: DrawTransform = {
-        worldToScreen: (x, y) => this.transformer.worldToScreen(x, y),
-        screenToWorld: (x, y) => this.transformer.screenToWorld(x, y),
+        worldToScreen: (x, y) => this.transformer.worldToView(x, y),
+        screenToWorld: (x, y) => this.transformer.viewToWorld(x, y),
     };
     // Reusable paints, mutated per draw call (draws are immediate within a frame).
     private fillPaint: SkPaint;
@@ -132,10 +160,15 @@ export class SkiaDraw {
             transform: DrawTransform,
         ) => void,
         layer: number = 1,
+        options?: ScaleRange,
     ): DrawHandle {
-        return this.layers.add(layer, ({ ctx: canvas, config, topLeft }) => {
-            fn(canvas, topLeft, config, this.drawTransform);
-        });
+        return this.layers.add(
+            layer,
+            ({ ctx: canvas, config, topLeft }) => {
+                fn(canvas, topLeft, config, this.drawTransform);
+            },
+            options,
+        );
     }
 
     drawRect(
@@ -150,27 +183,31 @@ export class SkiaDraw {
         const useSpatialIndex = list.length > SPATIAL_INDEX_THRESHOLD;
         const spatialIndex = useSpatialIndex ? SpatialIndex.fromArray(list) : null;
 
-        return this.layers.add(layer, ({ ctx: canvas, config, topLeft }) => {
-            const bounds = getViewportBounds(topLeft, config);
-            const visibleItems = spatialIndex
-                ? spatialIndex.query(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY)
-                : list;
+        return this.layers.add(
+            layer,
+            ({ ctx: canvas, config, topLeft }) => {
+                const bounds = getViewportBounds(topLeft, config);
+                const visibleItems = spatialIndex
+                    ? spatialIndex.query(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY)
+                    : list;
+
+                for (const item of this.paintOrder(visibleItems)) {
+                    if (visibleOf?.(item) === false) {
+                        continue;
+                    }
+                    const size = item.size ?? 1;
+                    const extent = Math.max(item.width ?? size, item.height ?? size) / 2;
 
-            for (const item of visibleItems) {
-                if (visibleOf?.(item) === false) {
-                    continue;
-                }
-                const size = item.size ?? 1;
-                const extent = Math.max(item.width ?? size, item.height ?? size) / 2;
+                    if (!spatialIndex && !isVisible(item.x, item.y, extent, topLeft, config)) {
+                        continue;
+                    }
 
-                if (!spatialIndex && !isVisible(item.x, item.y, extent, topLeft, config)) {
-                    continue;
+                    const pos = this.transformer.worldToView(item.x, item.y);
+                    this.paintRect(canvas, item, pos, this.camera.scale, styleOf);
                 }
-
-                const pos = this.transformer.worldToScreen(item.x, item.y);
-                this.paintRect(canvas, item, pos, this.camera.scale, styleOf);
-            }
-        });
+            },
+            options,
+        );
     }
 
     /** Paint a single rect at a resolved position; `cellSize` is the pixel
@@ -244,33 +281,37 @@ export class SkiaDraw {
         // the anchor-index query is padded by this per frame (scale-divided).
         const maxSizePx = list.reduce((max, item) => Math.max(max, item.sizePx ?? 0), 0);
 
-        return this.layers.add(layer, ({ ctx: canvas, config, topLeft }) => {
-            const bounds = getViewportBounds(topLeft, config);
-            const sizePxPad = maxSizePx / this.camera.scale;
-            const visibleItems = spatialIndex
-                ? spatialIndex.query(
-                      bounds.minX - sizePxPad,
-                      bounds.minY - sizePxPad,
-                      bounds.maxX + sizePxPad,
-                      bounds.maxY + sizePxPad,
-                  )
-                : list;
-
-            for (const item of visibleItems) {
-                if (visibleOf?.(item) === false) {
-                    continue;
-                }
-                // sizePx wins over size, resolved against the live scale
-                const sizeWorld = resolveSizeWorld(item, this.camera.scale);
+        return this.layers.add(
+            layer,
+            ({ ctx: canvas, config, topLeft }) => {
+                const bounds = getViewportBounds(topLeft, config);
+                const sizePxPad = maxSizePx / this.camera.scale;
+                const visibleItems = spatialIndex
+                    ? spatialIndex.query(
+                          bounds.minX - sizePxPad,
+                          bounds.minY - sizePxPad,
+                          bounds.maxX + sizePxPad,
+                          bounds.maxY + sizePxPad,
+                      )
+                    : list;
+
+                for (const item of this.paintOrder(visibleItems)) {
+                    if (visibleOf?.(item) === false) {
+                        continue;
+                    }
+                    // sizePx wins over size, resolved against the live scale
+                    const sizeWorld = resolveSizeWorld(item, this.camera.scale);
 
-                if (!spatialIndex && !isVisible(item.x, item.y, sizeWorld / 2, topLeft, config)) {
-                    continue;
-                }
+                    if (!spatialIndex && !isVisible(item.x, item.y, sizeWorld / 2, topLeft, config)) {
+                        continue;
+                    }
 
-                const pos = this.transformer.worldToScreen(item.x, item.y);
-                this.paintCircle(canvas, item, pos, this.camera.scale, true, styleOf);
-            }
-        });
+                    const pos = this.transformer.worldToView(item.x, item.y);
+                    this.paintCircle(canvas, item, pos, this.camera.scale, true, styleOf);
+                }
+            },
+            options,
+        );
     }
 
     /** Paint a single circle at a resolved position; `cellSize` is the pixel
@@ -322,58 +363,63 @@ export class SkiaDraw {
         const styleOf = options?.styleOf;
         const visibleOf = options?.visibleOf;
 
-        return this.layers.add(layer, ({ ctx: canvas, config, topLeft }) => {
-            const baseColor = this.color(style?.strokeStyle ?? "#000000");
-            const baseWidth = resolveLineWidthPx(style, this.camera.scale);
-            this.strokePaint.setColor(baseColor);
-            this.strokePaint.setStrokeWidth(baseWidth);
-            const dash = resolveLineDashPx(style, this.camera.scale);
-            const baseDash = dash ? Skia.PathEffect.MakeDash(dash, 0) : null;
-            if (baseDash) {
-                this.strokePaint.setPathEffect(baseDash);
-            }
-
-            for (const item of list) {
-                if (visibleOf?.(item) === false) {
-                    continue;
-                }
-                const centerX = (item.from.x + item.to.x) / 2;
-                const centerY = (item.from.y + item.to.y) / 2;
-                const halfExtent = Math.max(Math.abs(item.from.x - item.to.x), Math.abs(item.from.y - item.to.y)) / 2;
-                if (!isVisible(centerX, centerY, halfExtent, topLeft, config)) {
-                    continue;
+        return this.layers.add(
+            layer,
+            ({ ctx: canvas, config, topLeft }) => {
+                const baseColor = this.color(style?.strokeStyle ?? "#000000");
+                const baseWidth = resolveLineWidthPx(style, this.camera.scale);
+                this.strokePaint.setColor(baseColor);
+                this.strokePaint.setStrokeWidth(baseWidth);
+                const dash = resolveLineDashPx(style, this.camera.scale);
+                const baseDash = dash ? Skia.PathEffect.MakeDash(dash, 0) : null;
+                if (baseDash) {
+                    this.strokePaint.setPathEffect(baseDash);
                 }
 
-                const a = this.transformer.worldToScreen(item.from.x, item.from.y);
-                const b = this.transformer.worldToScreen(item.to.x, item.to.y);
-
-                const deco = styleOf?.(item);
-                if (deco || item.style) {
-                    // Item with its own style (or a decoration): repaint with
-                    // the merged style, then restore the shared paint for the
-                    // rest of the batch. Width resolves from the
-                    // registration-time layers only (call style + item.style)
-                    // — the same layers hit testing reads — so a smuggled
-                    // decoration width cannot desync paint from hit.
-                    const registration = overlayLineStyle(style, item.style);
-                    const merged = overlayLineStyle(registration, deco);
-                    this.strokePaint.setColor(this.color(merged.strokeStyle ?? "#000000"));
-                    this.strokePaint.setStrokeWidth(resolveLineWidthPx(registration, this.camera.scale));
-                    const mergedDash = resolveLineDashPx(merged, this.camera.scale);
-                    this.strokePaint.setPathEffect(mergedDash ? Skia.PathEffect.MakeDash(mergedDash, 0) : null);
+                for (const item of list) {
+                    if (visibleOf?.(item) === false) {
+                        continue;
+                    }
+                    const centerX = (item.from.x + item.to.x) / 2;
+                    const centerY = (item.from.y + item.to.y) / 2;
+                    const halfExtent =
+                        Math.max(Math.abs(item.from.x - item.to.x), Math.abs(item.from.y - item.to.y)) / 2;
+                    if (!isVisible(centerX, centerY, halfExtent, topLeft, config)) {
+                        continue;
+                    }
+
+                    const a = this.transformer.worldToView(item.from.x, item.from.y);
+                    const b = this.transformer.worldToView(item.to.x, item.to.y);
+
+                    const deco = styleOf?.(item);
+                    if (deco || item.style) {
+                        // Item with its own style (or a decoration): repaint with
+                        // the merged style, then restore the shared paint for the
+                        // rest of the batch. Width resolves from the
+                        // registration-time layers only (call style + item.style)
+                        // — the same layers hit testing reads — so a smuggled
+                        // decoration width cannot desync paint from hit.
+                        const registration = overlayLineStyle(style, item.style);
+                        const merged = overlayLineStyle(registration, deco);
+                        this.strokePaint.setColor(this.color(merged.strokeStyle ?? "#000000"));
+                        this.strokePaint.setStrokeWidth(resolveLineWidthPx(registration, this.camera.scale));
+                        const mergedDash = resolveLineDashPx(merged, this.camera.scale);
+                        this.strokePaint.setPathEffect(mergedDash ? Skia.PathEffect.MakeDash(mergedDash, 0) : null);
+                        canvas.drawLine(a.x, a.y, b.x, b.y, this.strokePaint);
+                        this.strokePaint.setColor(baseColor);
+                        this.strokePaint.setStrokeWidth(baseWidth);
+                        this.strokePaint.setPathEffect(baseDash);
+                        continue;
+                    }
+
                     canvas.drawLine(a.x, a.y, b.x, b.y, this.strokePaint);
-                    this.strokePaint.setColor(baseColor);
-                    this.strokePaint.setStrokeWidth(baseWidth);
-                    this.strokePaint.setPathEffect(baseDash);
-                    continue;
                 }
-
-                canvas.drawLine(a.x, a.y, b.x, b.y, this.strokePaint);
-            }
-            if (baseDash) {
-                this.strokePaint.setPathEffect(null);
-            }
-        });
+                if (baseDash) {
+                    this.strokePaint.setPathEffect(null);
+                }
+            },
+            options,
+        );
     }
 
     drawText(
@@ -388,43 +434,52 @@ export class SkiaDraw {
         const useSpatialIndex = list.length > SPATIAL_INDEX_THRESHOLD;
         const spatialIndex = useSpatialIndex ? SpatialIndex.fromArray(list) : null;
 
-        return this.layers.add(layer, ({ ctx: canvas, config, topLeft }) => {
-            const bounds = getViewportBounds(topLeft, config);
-            const visibleItems = spatialIndex
-                ? spatialIndex.query(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY)
-                : list;
-
-            for (const item of visibleItems) {
-                if (visibleOf?.(item) === false) {
-                    continue;
-                }
-                const size = item.size ?? 1;
-                const deco = styleOf?.(item);
-                const style = deco ? { ...item.style, ...deco } : item.style;
+        return this.layers.add(
+            layer,
+            ({ ctx: canvas, config, topLeft }) => {
+                const bounds = getViewportBounds(topLeft, config);
+                const visibleItems = spatialIndex
+                    ? spatialIndex.query(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY)
+                    : list;
+                const upright = this.uprightMatrix();
+
+                for (const item of this.paintOrder(visibleItems)) {
+                    if (visibleOf?.(item) === false) {
+                        continue;
+                    }
+                    const size = item.size ?? 1;
+                    const deco = styleOf?.(item);
+                    const style = deco ? { ...item.style, ...deco } : item.style;
 
-                // fontPx is zoom-independent; its world-space extent shrinks as scale grows
-                const extentWorld = item.fontPx !== undefined ? item.fontPx / this.camera.scale : size;
+                    // fontPx is zoom-independent; its world-space extent shrinks as scale grows
+                    const extentWorld = item.fontPx !== undefined ? item.fontPx / this.camera.scale : size;
 
-                if (!spatialIndex && !isVisible(item.x, item.y, extentWorld, topLeft, config)) {
-                    continue;
-                }
+                    if (!spatialIndex && !isVisible(item.x, item.y, extentWorld, topLeft, config)) {
+                        continue;
+                    }
 
-                // Font sizing matches the Canvas2D renderer: fontPx wins, else size * scale.
-                const pxSize = item.fontPx ?? size * this.camera.scale;
-                const font = this.getFont(style?.fontFamily ?? DEFAULT_SANS_SERIF, pxSize);
-                this.fillPaint.setColor(this.color(style?.fillStyle ?? "#000000"));
+                    // Font sizing matches the Canvas2D renderer: fontPx wins, else size * scale.
+                    const pxSize = item.fontPx ?? size * this.camera.scale;
+                    const font = this.getFont(style?.fontFamily ?? DEFAULT_SANS_SERIF, pxSize);
+                    this.fillPaint.setColor(this.color(style?.fillStyle ?? "#000000"));
 
-                const pos = this.transformer.worldToScreen(item.x, item.y);
-                const { x, y } = this.alignText(item.text, pos, font, style?.textAlign, style?.textBaseline);
+                    const pos = this.transformer.worldToView(item.x, item.y);
+                    const { x, y } = this.alignText(item.text, pos, font, style?.textAlign, style?.textBaseline);
 
-                const rotation = item.rotate ?? 0;
-                const count = rotation !== 0 ? this.withRotation(canvas, rotation, pos.x, pos.y) : -1;
-                canvas.drawText(item.text, x, y, this.fillPaint, font);
-                if (count !== -1) {
-                    canvas.restoreToCount(count);
+                    const uprightCount = upright ? this.standUpright(canvas, pos, upright) : -1;
+                    const rotation = item.rotate ?? 0;
+                    const count = rotation !== 0 ? this.withRotation(canvas, rotation, pos.x, pos.y) : -1;
+                    canvas.drawText(item.text, x, y, this.fillPaint, font);
+                    if (count !== -1) {
+                        canvas.restoreToCount(count);
+                    }
+                    if (uprightCount !== -1) {
+                        canvas.restoreToCount(uprightCount);
+                    }
                 }
-            }
-        });
+            },
+            options,
+        );
     }
 
     /**
@@ -474,73 +529,77 @@ export class SkiaDraw {
         // Conservative world bounds per item for culling, computed once.
         const itemBounds = items.map((item) => pathItemBounds(item));
 
-        return this.layers.add(layer, ({ ctx: canvas, config, topLeft }) => {
-            for (let n = 0; n < items.length; n++) {
-                const item = items[n];
-                const bounds = itemBounds[n];
-                if (!bounds || visibleOf?.(item) === false) {
-                    continue;
-                }
+        return this.layers.add(
+            layer,
+            ({ ctx: canvas, config, topLeft }) => {
+                for (let n = 0; n < items.length; n++) {
+                    const item = items[n];
+                    const bounds = itemBounds[n];
+                    if (!bounds || visibleOf?.(item) === false) {
+                        continue;
+                    }
 
-                const centerX = (bounds.minX + bounds.maxX) / 2;
-                const centerY = (bounds.minY + bounds.maxY) / 2;
-                const halfExtent = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) / 2;
-                if (!isVisible(centerX, centerY, halfExtent, topLeft, config)) {
-                    continue;
-                }
+                    const centerX = (bounds.minX + bounds.maxX) / 2;
+                    const centerY = (bounds.minY + bounds.maxY) / 2;
+                    const halfExtent = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) / 2;
+                    if (!isVisible(centerX, centerY, halfExtent, topLeft, config)) {
+                        continue;
+                    }
 
-                const deco = styleOf?.(item);
-                const style = deco ? { ...item.style, ...deco } : item.style;
-                const filled = style?.fillStyle !== undefined;
-
-                const path = Skia.Path.Make();
-                if (item.commands !== undefined) {
-                    // Free-form commands replay natively (curves stay
-                    // curves); world→screen and degrees→radians convert in
-                    // core so all renderers trace identical geometry.
-                    traceCommands(
-                        this.pathSink(path),
-                        item.commands,
-                        (x, y) => this.transformer.worldToScreen(x, y),
-                        this.camera.scale,
-                    );
-                } else {
-                    const pts = item.points!.map((p) => this.transformer.worldToScreen(p.x, p.y));
-                    // Corner radius from item.style: registration-time
-                    // only (see the stroke-width note below).
-                    traceRoundedPath(
-                        this.pathSink(path),
-                        pts,
-                        item.closed === true,
-                        resolveCornerRadiusPx(item.style, this.camera.scale),
-                    );
-                }
+                    const deco = styleOf?.(item);
+                    const style = deco ? { ...item.style, ...deco } : item.style;
+                    const filled = style?.fillStyle !== undefined;
+
+                    const path = Skia.Path.Make();
+                    if (item.commands !== undefined) {
+                        // Free-form commands replay natively (curves stay
+                        // curves); world→screen and degrees→radians convert in
+                        // core so all renderers trace identical geometry.
+                        traceCommands(
+                            this.pathSink(path),
+                            item.commands,
+                            (x, y) => this.transformer.worldToView(x, y),
+                            this.camera.scale,
+                        );
+                    } else {
+                        const pts = item.points!.map((p) => this.transformer.worldToView(p.x, p.y));
+                        // Corner radius from item.style: registration-time
+                        // only (see the stroke-width note below).
+                        traceRoundedPath(
+                            this.pathSink(path),
+                            pts,
+                            item.closed === true,
+                            resolveCornerRadiusPx(item.style, this.camera.scale),
+                        );
+                    }
 
-                if (filled) {
-                    path.setFillType(item.fillRule === "evenodd" ? FillType.EvenOdd : FillType.Winding);
-                    this.fillPaint.setColor(this.color(style!.fillStyle!));
-                    canvas.drawPath(path, this.fillPaint);
-                }
-                // A fill-only item draws no outline; everything else strokes
-                // (defaulting to a hairline, matching the legacy behavior).
-                if (style?.strokeStyle !== undefined || !filled) {
-                    this.strokePaint.setColor(this.color(style?.strokeStyle ?? "#000000"));
-                    // Width from item.style, not the decorated merge:
-                    // hit testing reads the registration-time style, and
-                    // the decoration types' width exclusion is type-level
-                    // only — a smuggled width must not desync paint & hit.
-                    this.strokePaint.setStrokeWidth(resolveLineWidthPx(item.style, this.camera.scale));
-                    const dash = resolveLineDashPx(style, this.camera.scale);
-                    if (dash) {
-                        this.strokePaint.setPathEffect(Skia.PathEffect.MakeDash(dash, 0));
+                    if (filled) {
+                        path.setFillType(item.fillRule === "evenodd" ? FillType.EvenOdd : FillType.Winding);
+                        this.fillPaint.setColor(this.color(style!.fillStyle!));
+                        canvas.drawPath(path, this.fillPaint);
                     }
-                    canvas.drawPath(path, this.strokePaint);
-                    if (dash) {
-                        this.strokePaint.setPathEffect(null);
+                    // A fill-only item draws no outline; everything else strokes
+                    // (defaulting to a hairline, matching the legacy behavior).
+                    if (style?.strokeStyle !== undefined || !filled) {
+                        this.strokePaint.setColor(this.color(style?.strokeStyle ?? "#000000"));
+                        // Width from item.style, not the decorated merge:
+                        // hit testing reads the registration-time style, and
+                        // the decoration types' width exclusion is type-level
+                        // only — a smuggled width must not desync paint & hit.
+                        this.strokePaint.setStrokeWidth(resolveLineWidthPx(item.style, this.camera.scale));
+                        const dash = resolveLineDashPx(style, this.camera.scale);
+                        if (dash) {
+                            this.strokePaint.setPathEffect(Skia.PathEffect.MakeDash(dash, 0));
+                        }
+                        canvas.drawPath(path, this.strokePaint);
+                        if (dash) {
+                            this.strokePaint.setPathEffect(null);
+                        }
                     }
                 }
-            }
-        });
+            },
+            options,
+        );
     }
 
     drawImage(
@@ -557,33 +616,42 @@ export class SkiaDraw {
         // the anchor-index query is padded by this per frame (scale-divided).
         const maxSizePx = list.reduce((max, item) => Math.max(max, item.sizePx ?? 0), 0);
 
-        return this.layers.add(layer, ({ ctx: canvas, config, topLeft }) => {
-            const bounds = getViewportBounds(topLeft, config);
-            const sizePxPad = maxSizePx / this.camera.scale;
-            const visibleItems = spatialIndex
-                ? spatialIndex.query(
-                      bounds.minX - sizePxPad,
-                      bounds.minY - sizePxPad,
-                      bounds.maxX + sizePxPad,
-                      bounds.maxY + sizePxPad,
-                  )
-                : list;
-
-            for (const item of visibleItems) {
-                if (visibleOf?.(item) === false) {
-                    continue;
-                }
-                // sizePx wins over size, resolved against the live scale
-                const sizeWorld = resolveSizeWorld(item, this.camera.scale);
+        return this.layers.add(
+            layer,
+            ({ ctx: canvas, config, topLeft }) => {
+                const bounds = getViewportBounds(topLeft, config);
+                const sizePxPad = maxSizePx / this.camera.scale;
+                const visibleItems = spatialIndex
+                    ? spatialIndex.query(
+                          bounds.minX - sizePxPad,
+                          bounds.minY - sizePxPad,
+                          bounds.maxX + sizePxPad,
+                          bounds.maxY + sizePxPad,
+                      )
+                    : list;
+                const upright = this.uprightMatrix();
+
+                for (const item of this.paintOrder(visibleItems)) {
+                    if (visibleOf?.(item) === false) {
+                        continue;
+                    }
+                    // sizePx wins over size, resolved against the live scale
+                    const sizeWorld = resolveSizeWorld(item, this.camera.scale);
 
-                if (!spatialIndex && !isVisible(item.x, item.y, sizeWorld / 2, topLeft, config)) {
-                    continue;
-                }
+                    if (!spatialIndex && !isVisible(item.x, item.y, sizeWorld / 2, topLeft, config)) {
+                        continue;
+                    }
 
-                const pos = this.transformer.worldToScreen(item.x, item.y);
-                this.paintImage(canvas, item, pos, this.camera.scale, true);
-            }
-        });
+                    const pos = this.transformer.worldToView(item.x, item.y);
+                    const uprightCount = upright ? this.standUpright(canvas, pos, upright) : -1;
+                    this.paintImage(canvas, item, pos, this.camera.scale, true);
+                    if (uprightCount !== -1) {
+                        canvas.restoreToCount(uprightCount);
+                    }
+                }
+            },
+            options,
+        );
     }
 
     /** Paint a single image at a resolved position; `cellSize` is the pixel
@@ -658,31 +726,49 @@ export class SkiaDraw {
         }
     }
 
-    drawGridLines(cellSize: number, style: { strokeStyle: string; lineWidth: number }, layer: number = 0): DrawHandle {
-        return this.layers.add(layer, ({ ctx: canvas, config, topLeft }) => {
-            const viewW = config.size.width / config.scale;
-            const viewH = config.size.height / config.scale;
+    drawGridLines(
+        cellSize: number,
+        style: { strokeStyle: string; lineWidth: number },
+        layer: number = 0,
+        options?: ScaleRange,
+    ): DrawHandle {
+        // Grid lines span the whole view, so they draw once rather than per copy of a wrapped world
+        return this.layers.add(
+            layer,
+            ({ ctx: canvas, config, topLeft }) => {
+                const view = getViewRect(topLeft, config);
+
+                this.strokePaint.setColor(this.color(style.strokeStyle));
+                this.strokePaint.setStrokeWidth(style.lineWidth);
+
+                if (config.grid?.type === "hex") {
+                    forEachHexGridEdge(view, config.grid, (from, to) => {
+                        const p1 = this.transformer.worldToView(from.x, from.y);
+                        const p2 = this.transformer.worldToView(to.x, to.y);
+                        canvas.drawLine(p1.x, p1.y, p2.x, p2.y, this.strokePaint);
+                    });
+                    return;
+                }
 
-            const startX = Math.floor(topLeft.x / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
-            const endX = Math.ceil((topLeft.x + viewW) / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
-            const startY = Math.floor(topLeft.y / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
-            const endY = Math.ceil((topLeft.y + viewH) / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
+                const startX = Math.floor(view.minX / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
+                const endX = Math.ceil(view.maxX / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
+                const startY = Math.floor(view.minY / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
+                const endY = Math.ceil(view.maxY / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
 
-            this.strokePaint.setColor(this.color(style.strokeStyle));
-            this.strokePaint.setStrokeWidth(style.lineWidth);
-
-            for (let x = startX; x <= endX; x += cellSize) {
-                const p1 = this.transformer.worldToScreen(x, startY);
-                const p2 = this.transformer.worldToScreen(x, endY);
-                canvas.drawLine(p1.x, p1.y, p2.x, p2.y, this.strokePaint);
-            }
+                for (let x = startX; x <= endX; x += cellSize) {
+                    const p1 = this.transformer.worldToView(x, startY);
+                    const p2 = this.transformer.worldToView(x, endY);
+                    canvas.drawLine(p1.x, p1.y, p2.x, p2.y, this.strokePaint);
+                }
 
-            for (let y = startY; y <= endY; y += cellSize) {
-                const p1 = this.transformer.worldToScreen(startX, y);
-                const p2 = this.transformer.worldToScreen(endX, y);
-                canvas.drawLine(p1.x, p1.y, p2.x, p2.y, this.strokePaint);
-            }
-        });
+                for (let y = startY; y <= endY; y += cellSize) {
+                    const p1 = this.transformer.worldToView(startX, y);
+                    const p2 = this.transformer.worldToView(endX, y);
+                    canvas.drawLine(p1.x, p1.y, p2.x, p2.y, this.strokePaint);
+                }
+            },
+            { ...options, wrap: false },
+        );
     }
 
     // ─── Static variants ───
@@ -819,6 +905,10 @@ export class SkiaDraw {
         this.layers.clear();
     }
 
+    setLayerScaleRange(layer: number, range: ScaleRange | undefined) {
+        this.layers.setScaleRange(layer, range);
+    }
+
     destroy() {
         this.layers.clear();
         this.fontCache.clear();
@@ -895,6 +985,33 @@ export class SkiaDraw {
         };
     }
 
+    /** Visible anchored items in paint order: back to front by row under an isometric projection. */
+    private paintOrder<T extends Coords>(items: readonly T[]): readonly T[] {
+        return depthSorted(items, this.camera.rotation ?? 0, this.camera.projection);
+    }
+
+    /**
+     * The inverse projection images and text are drawn under to stand
+     * upright, or `null` for an orthogonal view.
+     */
+    private uprightMatrix(): ViewMatrix | null {
+        const projection = this.camera.projection;
+        return isIsometric(projection) ? invertMatrix(projectionMatrix(projection)) : null;
+    }
+
+    /**
+     * Save the canvas and undo the projection around a view-space anchor, so
+     * what is drawn next stands upright (still turned with the view
+     * rotation). Returns the save count.
+     */
+    private standUpright(canvas: SkCanvas, pos: Coords, upright: ViewMatrix): number {
+        const count = canvas.save();
+        canvas.translate(pos.x, pos.y);
+        canvas.concat(toSkMatrix(upright));
+        canvas.translate(-pos.x, -pos.y);
+        return count;
+    }
+
     /** Save the canvas and rotate (degrees) about a pivot. Returns the save count. */
     private withRotation(canvas: SkCanvas, degrees: number, px: number, py: number): number {
         const count = canvas.save();
@@ -0,0 +1,9 @@
+import type { ViewMatrix } from "@canvas-tile-engine/core";
+
+/**
+ * A 2x2 view matrix as the row-major 3x3 list `SkCanvas.concat` takes.
+ * @internal
+ */
+export function toSkMatrix(m: ViewMatrix): number[] {
+    return [m.a, m.c, 0, m.b, m.d, 0, 0, 0, 1];
+}
@@ -80,6 +80,9 @@ export function makeRecordingCanvas() {
         scale(sx: number, sy: number) {
             ops.push({ op: "scale", sx, sy });
         },
+        concat(m: number[]) {
+            ops.push({ op: "concat", m });
+        },
         drawRect(rect: unknown, paint: MockPaint) {
             ops.push({
                 op: "rect",
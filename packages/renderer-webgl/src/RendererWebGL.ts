@@ -3,36 +3,50 @@ import {
     Config,
     CoordinateTransformer,
     Coords,
+    Easing,
     GestureProcessor,
     ICamera,
     IDrawAPI,
     IImageLoader,
     IRenderer,
+    MinimapFrame,
     NormalizedPointer,
     onClickCallback,
+    onDoubleClickCallback,
     onDrawCallback,
     onHoverCallback,
+    onLongPressCallback,
     onMouseDownCallback,
     onMouseLeaveCallback,
     onMouseUpCallback,
     onRightClickCallback,
     onWheelCallback,
+    PointerCapture,
     onZoomCallback,
+    OverlayHandle,
+    OverlayOptions,
     RendererDependencies,
     ViewportState,
     DrawTransform,
 } from "@canvas-tile-engine/core";
-import { WebGLDraw, type WebGLDrawContext } from "./modules/WebGLDraw";
-import { CoordinateOverlayRenderer, DebugOverlay } from "@canvas-tile-engine/renderer-shared/canvas2d";
-import { Layer } from "@canvas-tile-engine/renderer-shared/scene";
+import { WebGLDraw, fadeWebGL, type WebGLDrawContext } from "./modules/WebGLDraw";
+import {
+    CoordinateOverlayRenderer,
+    DebugOverlay,
+    applyViewRotation,
+} from "@canvas-tile-engine/renderer-shared/canvas2d";
+import { Layer, withMinimapView } from "@canvas-tile-engine/renderer-shared/scene";
 import {
     EventBinder,
+    PointerRouter,
+    HtmlOverlayLayer,
     ImageLoader,
     ResizeWatcher,
     ResponsiveWatcher,
     ReducedMotionWatcher,
     SizeController,
     initStyles,
+    type SafariGestureEvent,
 } from "@canvas-tile-engine/renderer-shared/dom";
 import { GLRenderer } from "./modules/gl/GLRenderer";
 import { ColorParser } from "./utils/color";
@@ -92,12 +106,15 @@ export class RendererWebGL implements IRenderer {
     private drawAPI!: WebGLDraw;
     private transformer!: CoordinateTransformer;
     private coordinateOverlayRenderer!: CoordinateOverlayRenderer<CanvasRenderingContext2D>;
+    /** `addOverlay` elements, repositioned after every frame. */
+    private htmlOverlays!: HtmlOverlayLayer;
     private debugOverlay?: DebugOverlay<CanvasRenderingContext2D>;
     private colorParser = new ColorParser();
 
     // Event handling
     private gestureProcessor!: GestureProcessor;
     private eventBinder!: EventBinder;
+    private pointerRouter!: PointerRouter;
     private resizeWatcher?: ResizeWatcher;
     private responsiveWatcher?: ResponsiveWatcher;
     private reducedMotionWatcher?: ReducedMotionWatcher;
@@ -147,6 +164,24 @@ export class RendererWebGL implements IRenderer {
         }
     }
 
+    get onDoubleClick(): onDoubleClickCallback | undefined {
+        return this.gestureProcessor?.onDoubleClick;
+    }
+    set onDoubleClick(cb: onDoubleClickCallback | undefined) {
+        if (this.gestureProcessor) {
+            this.gestureProcessor.onDoubleClick = cb;
+        }
+    }
+
+    get onLongPress(): onLongPressCallback | undefined {
+        return this.gestureProcessor?.onLongPress;
+    }
+    set onLongPress(cb: onLongPressCallback | undefined) {
+        if (this.gestureProcessor) {
+            this.gestureProcessor.onLongPress = cb;
+        }
+    }
+
     get onRightClick(): onRightClickCallback | undefined {
         return this.gestureProcessor?.onRightClick;
     }
@@ -210,9 +245,22 @@ export class RendererWebGL implements IRenderer {
         }
     }
 
+    /** Engine hook that claims pointer drags from the camera (item dragging). */
+    get pointerCapture(): PointerCapture | undefined {
+        return this.gestureProcessor?.pointerCapture;
+    }
+    set pointerCapture(capture: PointerCapture | undefined) {
+        if (this.gestureProcessor) {
+            this.gestureProcessor.pointerCapture = capture;
+        }
+    }
+
     /** Callback fired when camera position changes (drag/zoom). */
     public onCameraChange?: () => void;
 
+    /** Engine hook fired when a user drag starts panning the camera. */
+    public onDragStart?: () => void;
+
     init(deps: RendererDependencies) {
         this.config = deps.config;
         // Initialize canvas
@@ -247,7 +295,13 @@ export class RendererWebGL implements IRenderer {
         this.transformer = deps.transformer;
         this.viewport = deps.viewport;
         this.camera = deps.camera;
-        this.layers = new Layer();
+        this.htmlOverlays = new HtmlOverlayLayer(this.canvasWrapper, {
+            worldToScreen: (x, y) => this.transformer.worldToScreen(x, y),
+            size: () => this.viewport.getSize(),
+            scale: () => this.camera.scale,
+            baseScale: () => this.config.get().scale,
+        });
+        this.layers = new Layer<WebGLDrawContext>(fadeWebGL);
         this.drawAPI = new WebGLDraw(this.layers, deps.transformer, deps.camera);
 
         this.applyCanvasSize();
@@ -277,19 +331,21 @@ export class RendererWebGL implements IRenderer {
                 this.onCameraChange?.();
             },
         );
+        this.gestureProcessor.onDragStart = () => this.onDragStart?.();
+
+        this.pointerRouter = new PointerRouter(this.canvas, this.gestureProcessor, this.config, (e) =>
+            this.normalizePointer(e),
+        );
 
         // Initialize EventBinder with normalized handlers
         this.eventBinder = new EventBinder(this.canvas, {
-            click: this.handleClick,
+            ...this.pointerRouter.handlers,
             contextmenu: this.handleContextMenu,
-            mousedown: this.handleMouseDown,
-            mousemove: this.handleMouseMove,
-            mouseup: this.handleMouseUp,
-            mouseleave: this.handleMouseLeave,
             wheel: this.handleWheel,
-            touchstart: this.handleTouchStart,
-            touchmove: this.handleTouchMove,
-            touchend: this.handleTouchEnd,
+            keydown: this.handleKeyDown,
+            gesturestart: this.handleGestureStart,
+            gesturechange: this.handleGestureChange,
+            gestureend: this.handleGestureEnd,
         });
 
         // Initialize AnimationController and SizeController
@@ -318,6 +374,13 @@ export class RendererWebGL implements IRenderer {
         this.eventBinder.attach();
         this.eventsAttached = true;
 
+        // Keyboard navigation needs focus. Decided once, like the resize
+        // watcher: toggling `keyboard` later only enables/disables the keys,
+        // and an app can still set tabIndex itself.
+        if (this.config.get().eventHandlers.keyboard && this.canvas.tabIndex < 0) {
+            this.canvas.tabIndex = 0;
+        }
+
         // Unconditional: reduced motion is an accessibility preference,
         // not one of the opt-in eventHandlers.
         this.reducedMotionWatcher = new ReducedMotionWatcher(this.config);
@@ -369,25 +432,32 @@ export class RendererWebGL implements IRenderer {
 
     // ─── Normalize Helpers ───
 
-    private normalizePointer(e: MouseEvent | Touch): NormalizedPointer {
+    private normalizePointer(e: PointerEvent | MouseEvent | SafariGestureEvent): NormalizedPointer {
         const rect = this.canvas.getBoundingClientRect();
         return {
             x: e.clientX - rect.left,
             y: e.clientY - rect.top,
             clientX: e.clientX,
             clientY: e.clientY,
+            // Safari gesture events carry no modifier state; mouse and pointer events do
+            ...("shiftKey" in e
+                ? { modifiers: { shiftKey: e.shiftKey, altKey: e.altKey, ctrlKey: e.ctrlKey, metaKey: e.metaKey } }
+                : {}),
+            // Device fields come with pointer events only (wheel and older browsers' click events lack them)
+            ...("pointerId" in e
+                ? {
+                      pointerId: e.pointerId,
+                      pointerType: e.pointerType === "pen" || e.pointerType === "touch" ? e.pointerType : "mouse",
+                      pressure: e.pressure,
+                      tiltX: e.tiltX,
+                      tiltY: e.tiltY,
+                  }
+                : {}),
         };
     }
 
-    private normalizeTouches(touches: TouchList): NormalizedPointer[] {
-        return Array.from(touches).map((t) => this.normalizePointer(t));
-    }
-
     // ─── Event Handlers (DOM → Normalize → GestureProcessor) ───
-
-    private handleClick = (e: MouseEvent): void => {
-        this.gestureProcessor.handleClick(this.normalizePointer(e));
-    };
+    // Click, pointer and touch events go through the PointerRouter.
 
     private handleContextMenu = (e: MouseEvent): void => {
         // Claim the event only when right-click handling is opted into;
@@ -399,83 +469,163 @@ export class RendererWebGL implements IRenderer {
         this.gestureProcessor.handleRightClick(this.normalizePointer(e));
     };
 
-    private handleMouseDown = (e: MouseEvent): void => {
-        // Primary button only: the right button belongs to the context-menu
-        // path (onRightClick) and the middle button to the browser
-        // (autoscroll) — neither should start a drag or fire onMouseDown.
-        if (e.button !== 0) {
-            return;
+    private handleWheel = (e: WheelEvent): void => {
+        // Wheel input the engine does not use (zoom off, or a scroll pan
+        // without drag) must keep scrolling the page.
+        if (this.gestureProcessor.handleWheel(this.normalizePointer(e), e.deltaY, e)) {
+            e.preventDefault();
         }
-        this.gestureProcessor.handlePointerDown(this.normalizePointer(e));
     };
 
-    private handleMouseMove = (e: MouseEvent): void => {
-        this.gestureProcessor.handlePointerMove(this.normalizePointer(e));
+    // Safari reports trackpad pinches as gesture events; claimed ones must
+    // not also zoom the page.
+    private handleGestureStart = (e: Event): void => {
+        if (this.gestureProcessor.handleGestureStart()) {
+            e.preventDefault();
+        }
     };
 
-    private handleMouseUp = (e: MouseEvent): void => {
-        // Primary button only, so releasing a secondary button mid-drag
-        // does not end the primary-button drag or fire onMouseUp.
-        if (e.button !== 0) {
-            return;
+    private handleGestureChange = (e: Event): void => {
+        const gesture = e as SafariGestureEvent;
+        if (this.gestureProcessor.handleGestureChange(this.normalizePointer(gesture), gesture.scale)) {
+            e.preventDefault();
         }
-        this.gestureProcessor.handlePointerUp(this.normalizePointer(e));
     };
 
-    private handleMouseLeave = (e: MouseEvent): void => {
-        this.gestureProcessor.handlePointerLeave(this.normalizePointer(e));
+    private handleGestureEnd = (e: Event): void => {
+        if (this.gestureProcessor.handleGestureEnd()) {
+            e.preventDefault();
+        }
     };
 
-    private handleWheel = (e: WheelEvent): void => {
-        // Without zoom opted in, the wheel must keep scrolling the page.
-        if (!this.config.get().eventHandlers.zoom) {
+    private handleKeyDown = (e: KeyboardEvent): void => {
+        // Modified presses (Ctrl/Cmd + "+" page zoom, Alt+arrow history)
+        // belong to the browser.
+        if (e.ctrlKey || e.metaKey || e.altKey) {
             return;
         }
-        e.preventDefault();
-        this.gestureProcessor.handleWheel(this.normalizePointer(e), e.deltaY);
+        if (this.gestureProcessor.handleKeyDown(e.key)) {
+            e.preventDefault();
+        }
     };
 
-    // Touch events are claimed only while some touch-driven interaction is
-    // enabled (checked per event: setEventHandlers can toggle at runtime).
-    // While claimed, preventDefault stays unconditional: it stops page
-    // scrolling mid-gesture and suppresses the synthetic mouse events that
-    // would double-fire click/mouse callbacks. When nothing is enabled the
-    // events are left alone so the page scrolls, and taps still reach the
-    // mouse callbacks via the browser's synthetic mouse events.
-    private touchInteractionsEnabled(): boolean {
-        const eventHandlers = this.config.get().eventHandlers;
-        return Boolean(eventHandlers.click || eventHandlers.drag || eventHandlers.zoom || eventHandlers.hover);
+    /** Show a CSS cursor over the canvas; set by the engine (`eventHandlers.cursor`). */
+    setCursor(cursor: string): void {
+        this.canvas.style.cursor = cursor;
+    }
+
+    /**
+     * Place an element in the HTML overlay layer above the canvas; see
+     * `CanvasTileEngine.addOverlay`.
+     */
+    addOverlay(element: unknown, options: OverlayOptions): OverlayHandle {
+        return this.htmlOverlays.add(element as HTMLElement, options);
     }
 
-    private handleTouchStart = (e: TouchEvent): void => {
-        if (!this.touchInteractionsEnabled()) {
+    // ─── Minimap ───
+
+    /**
+     * Paint a minimap frame onto its own canvas: the selected layers under
+     * the minimap's view, then the main viewport outline. The layers are
+     * drawn on the renderer's own surfaces (GL primitives, overlay text on
+     * top) and copied across, then the main frame is painted back over them.
+     * @param target The minimap's `HTMLCanvasElement`, sized here to the frame.
+     * @param frame Frame from `minimap.getFrame()`.
+     */
+    renderMinimap(target: unknown, frame: MinimapFrame): void {
+        const canvas = target as HTMLCanvasElement;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) {
             return;
         }
-        e.preventDefault();
-        this.gestureProcessor.handleTouchStart(this.normalizeTouches(e.touches));
-    };
+        const { view } = frame;
+        const { width, height } = view.size;
+        const dpr = this.viewport.dpr;
+        const physicalWidth = width * dpr;
+        const physicalHeight = height * dpr;
+        if (canvas.width !== physicalWidth || canvas.height !== physicalHeight) {
+            canvas.width = physicalWidth;
+            canvas.height = physicalHeight;
+            canvas.style.width = `${width}px`;
+            canvas.style.height = `${height}px`;
+        }
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+        ctx.clearRect(0, 0, width, height);
+        ctx.fillStyle = frame.backgroundColor;
+        ctx.fillRect(0, 0, width, height);
+
+        // A minimap larger than the main surfaces grows their buffers for the draw
+        const saved = { width: this.canvas.width, height: this.canvas.height };
+        const grow = physicalWidth > saved.width || physicalHeight > saved.height;
+        if (grow) {
+            for (const el of [this.canvas, this.overlayCanvas]) {
+                el.width = Math.max(saved.width, physicalWidth);
+                el.height = Math.max(saved.height, physicalHeight);
+            }
+        }
+        const bufferHeight = this.canvas.height;
+
+        withMinimapView(this.camera, this.viewport, view, (topLeft) => {
+            const rotation = this.camera.rotation ?? 0;
+            this.glRenderer.setSize(physicalWidth, physicalHeight, width, height);
+            this.glRenderer.clear([0, 0, 0, 0]);
+            this.glRenderer.setView(rotation, this.camera.projection);
+            this.overlayCtx.setTransform(dpr, 0, 0, dpr, 0, 0);
+            this.overlayCtx.clearRect(0, 0, width, height);
+            this.overlayCtx.save();
+            applyViewRotation(this.overlayCtx, { width, height }, rotation, this.camera.projection);
+            this.layers.drawAll(
+                {
+                    gl: this.glRenderer,
+                    ctx: this.overlayCtx,
+                    camera: this.camera,
+                    transformer: this.transformer,
+                    config: { ...this.config.get(), size: { width, height }, scale: view.scale },
+                    topLeft,
+                },
+                frame.layers,
+            );
+            this.overlayCtx.restore();
+
+            // The GL viewport sits at the bottom of its buffer, the overlay at the top
+            ctx.drawImage(
+                this.canvas,
+                0,
+                bufferHeight - physicalHeight,
+                physicalWidth,
+                physicalHeight,
+                0,
+                0,
+                width,
+                height,
+            );
+            ctx.drawImage(this.overlayCanvas, 0, 0, physicalWidth, physicalHeight, 0, 0, width, height);
+        });
 
-    private handleTouchMove = (e: TouchEvent): void => {
-        if (!this.touchInteractionsEnabled()) {
-            return;
+        if (grow) {
+            for (const el of [this.canvas, this.overlayCanvas]) {
+                el.width = saved.width;
+                el.height = saved.height;
+            }
         }
-        e.preventDefault();
-        this.gestureProcessor.handleTouchMove(this.normalizeTouches(e.touches));
-    };
+        this.render();
 
-    private handleTouchEnd = (e: TouchEvent): void => {
-        if (!this.touchInteractionsEnabled()) {
-            // Handlers may have been disabled mid-gesture: reset the
-            // processor's drag/pinch state (no changed pointer → no
-            // callbacks) without claiming the event.
-            this.gestureProcessor.handleTouchEnd(this.normalizeTouches(e.touches));
-            return;
+        // Main viewport outline
+        const { fillStyle, strokeStyle, lineWidth } = frame.viewportStyle;
+        ctx.beginPath();
+        frame.viewport.forEach((corner, i) =>
+            i === 0 ? ctx.moveTo(corner.x, corner.y) : ctx.lineTo(corner.x, corner.y),
+        );
+        ctx.closePath();
+        ctx.fillStyle = fillStyle;
+        ctx.fill();
+        if (lineWidth > 0) {
+            ctx.strokeStyle = strokeStyle;
+            ctx.lineWidth = lineWidth;
+            ctx.stroke();
         }
-        e.preventDefault();
-        const remaining = this.normalizeTouches(e.touches);
-        const changed = e.changedTouches.length > 0 ? this.normalizePointer(e.changedTouches[0]) : undefined;
-        this.gestureProcessor.handleTouchEnd(remaining, changed);
-    };
+    }
 
     getDrawAPI(): IDrawAPI {
         return this.drawAPI;
@@ -512,7 +662,13 @@ export class RendererWebGL implements IRenderer {
         this.overlayCtx.setTransform(dpr, 0, 0, dpr, 0, 0);
         this.overlayCtx.clearRect(0, 0, config.size.width, config.size.height);
 
-        // Draw engine layers (GL primitives + overlay text/draw functions)
+        // Draw engine layers (GL primitives + overlay text/draw functions),
+        // in view space: the shaders and the overlay both apply the rotation
+        // and projection
+        const rotation = this.camera.rotation ?? 0;
+        this.glRenderer.setView(rotation, this.camera.projection);
+        this.overlayCtx.save();
+        applyViewRotation(this.overlayCtx, size, rotation, this.camera.projection);
         this.layers.drawAll({
             gl: this.glRenderer,
             ctx: this.overlayCtx,
@@ -521,6 +677,7 @@ export class RendererWebGL implements IRenderer {
             config,
             topLeft,
         });
+        this.overlayCtx.restore();
 
         // User custom draw callback (optional) — receives the 2D overlay context
         this.onDraw?.(this.overlayCtx, topLeft, config, this.drawTransform);
@@ -538,6 +695,9 @@ export class RendererWebGL implements IRenderer {
             }
             this.debugOverlay.draw();
         }
+
+        // HTML overlays follow the frame's camera
+        this.htmlOverlays.update();
     }
 
     resize(width: number, height: number): void {
@@ -556,7 +716,13 @@ export class RendererWebGL implements IRenderer {
         this.glRenderer.setSize(width * dpr, height * dpr, width, height);
     }
 
-    resizeWithAnimation(width: number, height: number, durationMs: number, onComplete?: () => void): void {
+    resizeWithAnimation(
+        width: number,
+        height: number,
+        durationMs: number,
+        onComplete?: () => void,
+        easing?: Easing,
+    ): void {
         if (this.config.get().responsive) {
             console.warn(
                 "Canvas Tile Engine: resizeWithAnimation() is disabled when responsive mode is enabled. " +
@@ -564,10 +730,17 @@ export class RendererWebGL implements IRenderer {
             );
             return;
         }
-        this.sizeController.resizeWithAnimation(width, height, durationMs, this.animationController, () => {
-            this.onResize?.();
-            onComplete?.();
-        });
+        this.sizeController.resizeWithAnimation(
+            width,
+            height,
+            durationMs,
+            this.animationController,
+            () => {
+                this.onResize?.();
+                onComplete?.();
+            },
+            easing,
+        );
     }
 
     destroy(): void {
@@ -576,6 +749,7 @@ export class RendererWebGL implements IRenderer {
             this.eventBinder.detach();
             this.eventsAttached = false;
         }
+        this.pointerRouter.reset();
         this.canvas.removeEventListener("webglcontextlost", this.handleContextLost, false);
         this.canvas.removeEventListener("webglcontextrestored", this.handleContextRestored, false);
         this.resizeWatcher?.stop();
@@ -587,11 +761,13 @@ export class RendererWebGL implements IRenderer {
 
         // Cancel animations
         this.animationController.cancelAll();
+        this.gestureProcessor.destroy();
 
         // Cleanup drawing
         this.drawAPI.destroy();
         this.layers.clear();
         this.debugOverlay?.destroy();
+        this.htmlOverlays.destroy();
         this.imageLoader.clear();
         this.colorParser.clear();
         this.glRenderer.dispose();
@@ -27,6 +27,11 @@ import {
     resolveOrigin,
     computeOriginOffset,
     DrawTransform,
+    depthSorted,
+    invertMatrix,
+    isIsometric,
+    projectionMatrix,
+    type ViewMatrix,
 } from "@canvas-tile-engine/core";
 import type {
     LineStyle,
@@ -34,12 +39,18 @@ import type {
     PathDecorationStyle,
     RendererDrawOptions,
     RendererImageDrawOptions,
+    ScaleRange,
     ShapeDecorationStyle,
     TextDecorationStyle,
 } from "@canvas-tile-engine/core";
 import { appendDashedSegment } from "../utils/dash";
 import { DrawContext, Layer } from "@canvas-tile-engine/renderer-shared/scene";
-import { getViewportBounds, isVisible } from "@canvas-tile-engine/renderer-shared/geometry";
+import {
+    forEachHexGridEdge,
+    getViewRect,
+    getViewportBounds,
+    isVisible,
+} from "@canvas-tile-engine/renderer-shared/geometry";
 import { GLRenderer } from "./gl/GLRenderer";
 import { ImageInstance, LineInstance, ShapeInstance } from "./gl/GLRenderer";
 import { ColorParser, RGBA } from "../utils/color";
@@ -68,11 +79,27 @@ const CIRCLE_STROKE_SEGMENTS = 48;
  */
 export type WebGLDrawContext = DrawContext<CanvasRenderingContext2D> & { gl: GLRenderer };
 
+/**
+ * Scale-range fade for WebGL layers (the `applyOpacity` of their `Layer`):
+ * fades the batched GL primitives and the 2D overlay alike. The overlay's
+ * alpha comes back with the layer's restore; the GL opacity is reset here.
+ * @internal
+ */
+export function fadeWebGL({ ctx, gl }: WebGLDrawContext, opacity: number): () => void {
+    ctx.globalAlpha *= opacity;
+    gl.setOpacity(opacity);
+    return () => gl.setOpacity(1);
+}
+
 export class WebGLDraw {
-    /** Transform helpers handed to custom draw callbacks. */
+    /**
+     * Transform helpers handed to custom draw callbacks. Layer callbacks run
+     * under the renderer's view rotation, so they map to unrotated view
+     * pixels — identical to screen pixels while the camera is not rotated.
+     */
     private drawTransform: DrawTransform = {
-        worldToScreen: (x, y) => this.transformer.worldToScreen(x, y),
-        screenToWorld: (x, y) => this.transformer.screenToWorld(x, y),
+        worldToScreen: (x, y) => this.transformer.worldToView(x, y),
+        screenToWorld: (x, y) => this.transformer.viewToWorld(x, y),
     };
     private colorParser = new ColorParser();
 
@@ -90,10 +117,15 @@ export class WebGLDraw {
             transform: DrawTransform,
         ) => void,
         layer: number = 1,
+        options?: ScaleRange,
     ): DrawHandle {
-        return this.layers.add(layer, ({ ctx, config, topLeft }) => {
-            fn(ctx, topLeft, config, this.drawTransform);
-        });
+        return this.layers.add(
+            layer,
+            ({ ctx, config, topLeft }) => {
+                fn(ctx, topLeft, config, this.drawTransform);
+            },
+            options,
+        );
     }
 
     drawRect(
@@ -108,69 +140,76 @@ export class WebGLDraw {
         const useSpatialIndex = list.length > SPATIAL_INDEX_THRESHOLD;
         const spatialIndex = useSpatialIndex ? SpatialIndex.fromArray(list) : null;
 
-        return this.layers.add(layer, ({ gl, config, topLeft }) => {
-            const bounds = getViewportBounds(topLeft, config);
-            const visibleItems = spatialIndex
-                ? spatialIndex.query(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY)
-                : list;
-
-            const shapes: ShapeInstance[] = [];
-            const lines: LineInstance[] = [];
+        return this.layers.add(
+            layer,
+            ({ gl, config, topLeft }) => {
+                const bounds = getViewportBounds(topLeft, config);
+                const visibleItems = spatialIndex
+                    ? spatialIndex.query(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY)
+                    : list;
+
+                const shapes: ShapeInstance[] = [];
+                const lines: LineInstance[] = [];
+
+                for (const item of this.paintOrder(visibleItems)) {
+                    if (visibleOf?.(item) === false) {
+                        continue;
+                    }
+                    const size = item.size ?? 1;
+                    const w = item.width ?? size;
+                    const h = item.height ?? size;
+                    const origin = resolveOrigin(item.origin);
+                    const deco = styleOf?.(item);
+                    const style = deco ? { ...item.style, ...deco } : item.style;
+
+                    if (!spatialIndex && !isVisible(item.x, item.y, Math.max(w, h) / 2, topLeft, config)) {
+                        continue;
+                    }
 
-            for (const item of visibleItems) {
-                if (visibleOf?.(item) === false) {
-                    continue;
-                }
-                const size = item.size ?? 1;
-                const w = item.width ?? size;
-                const h = item.height ?? size;
-                const origin = resolveOrigin(item.origin);
-                const deco = styleOf?.(item);
-                const style = deco ? { ...item.style, ...deco } : item.style;
-
-                if (!spatialIndex && !isVisible(item.x, item.y, Math.max(w, h) / 2, topLeft, config)) {
-                    continue;
-                }
+                    const pos = this.transformer.worldToView(item.x, item.y);
+                    const pxW = w * this.camera.scale;
+                    const pxH = h * this.camera.scale;
+                    const { x: drawX, y: drawY } = computeOriginOffset(pos, pxW, pxH, origin, this.camera.scale);
+                    const cx = drawX + pxW / 2;
+                    const cy = drawY + pxH / 2;
+                    const rotation = (item.rotate ?? 0) * (Math.PI / 180);
+                    const radius = this.resolveRadius(
+                        resolveRadiusPx(item.radius, this.camera.scale),
+                        Math.min(pxW, pxH),
+                    );
 
-                const pos = this.transformer.worldToScreen(item.x, item.y);
-                const pxW = w * this.camera.scale;
-                const pxH = h * this.camera.scale;
-                const { x: drawX, y: drawY } = computeOriginOffset(pos, pxW, pxH, origin, this.camera.scale);
-                const cx = drawX + pxW / 2;
-                const cy = drawY + pxH / 2;
-                const rotation = (item.rotate ?? 0) * (Math.PI / 180);
-                const radius = this.resolveRadius(resolveRadiusPx(item.radius, this.camera.scale), Math.min(pxW, pxH));
-
-                if (style?.fillStyle) {
-                    shapes.push({
-                        cx,
-                        cy,
-                        halfW: pxW / 2,
-                        halfH: pxH / 2,
-                        radius,
-                        rotation,
-                        color: this.colorParser.parse(style.fillStyle),
-                    });
-                }
+                    if (style?.fillStyle) {
+                        shapes.push({
+                            cx,
+                            cy,
+                            halfW: pxW / 2,
+                            halfH: pxH / 2,
+                            radius,
+                            rotation,
+                            color: this.colorParser.parse(style.fillStyle),
+                        });
+                    }
 
-                if (style?.strokeStyle) {
-                    this.pushRectStroke(
-                        lines,
-                        cx,
-                        cy,
-                        pxW,
-                        pxH,
-                        rotation,
-                        this.colorParser.parse(style.strokeStyle),
-                        resolveLineWidthPx(style, this.camera.scale),
-                        resolveLineDashPx(style, this.camera.scale),
-                    );
+                    if (style?.strokeStyle) {
+                        this.pushRectStroke(
+                            lines,
+                            cx,
+                            cy,
+                            pxW,
+                            pxH,
+                            rotation,
+                            this.colorParser.parse(style.strokeStyle),
+                            resolveLineWidthPx(style, this.camera.scale),
+                            resolveLineDashPx(style, this.camera.scale),
+                        );
+                    }
                 }
-            }
 
-            gl.drawShapes(shapes);
-            gl.drawLines(lines);
-        });
+                gl.drawShapes(shapes);
+                gl.drawLines(lines);
+            },
+            options,
+        );
     }
 
     drawCircle(
@@ -188,70 +227,74 @@ export class WebGLDraw {
         // the anchor-index query is padded by this per frame (scale-divided).
         const maxSizePx = list.reduce((max, item) => Math.max(max, item.sizePx ?? 0), 0);
 
-        return this.layers.add(layer, ({ gl, config, topLeft }) => {
-            const bounds = getViewportBounds(topLeft, config);
-            const sizePxPad = maxSizePx / this.camera.scale;
-            const visibleItems = spatialIndex
-                ? spatialIndex.query(
-                      bounds.minX - sizePxPad,
-                      bounds.minY - sizePxPad,
-                      bounds.maxX + sizePxPad,
-                      bounds.maxY + sizePxPad,
-                  )
-                : list;
-
-            const shapes: ShapeInstance[] = [];
-            const lines: LineInstance[] = [];
-
-            for (const item of visibleItems) {
-                if (visibleOf?.(item) === false) {
-                    continue;
-                }
-                // sizePx wins over size, resolved against the live scale
-                const sizeWorld = resolveSizeWorld(item, this.camera.scale);
-                const origin = resolveOrigin(item.origin);
-                const deco = styleOf?.(item);
-                const style = deco ? { ...item.style, ...deco } : item.style;
-
-                if (!spatialIndex && !isVisible(item.x, item.y, sizeWorld / 2, topLeft, config)) {
-                    continue;
-                }
+        return this.layers.add(
+            layer,
+            ({ gl, config, topLeft }) => {
+                const bounds = getViewportBounds(topLeft, config);
+                const sizePxPad = maxSizePx / this.camera.scale;
+                const visibleItems = spatialIndex
+                    ? spatialIndex.query(
+                          bounds.minX - sizePxPad,
+                          bounds.minY - sizePxPad,
+                          bounds.maxX + sizePxPad,
+                          bounds.maxY + sizePxPad,
+                      )
+                    : list;
+
+                const shapes: ShapeInstance[] = [];
+                const lines: LineInstance[] = [];
+
+                for (const item of this.paintOrder(visibleItems)) {
+                    if (visibleOf?.(item) === false) {
+                        continue;
+                    }
+                    // sizePx wins over size, resolved against the live scale
+                    const sizeWorld = resolveSizeWorld(item, this.camera.scale);
+                    const origin = resolveOrigin(item.origin);
+                    const deco = styleOf?.(item);
+                    const style = deco ? { ...item.style, ...deco } : item.style;
+
+                    if (!spatialIndex && !isVisible(item.x, item.y, sizeWorld / 2, topLeft, config)) {
+                        continue;
+                    }
 
-                const pos = this.transformer.worldToScreen(item.x, item.y);
-                const pxSize = sizeWorld * this.camera.scale;
-                const radius = pxSize / 2;
-                const { x: drawX, y: drawY } = computeOriginOffset(pos, pxSize, pxSize, origin, this.camera.scale);
-                const cx = drawX + radius;
-                const cy = drawY + radius;
-
-                if (style?.fillStyle) {
-                    shapes.push({
-                        cx,
-                        cy,
-                        halfW: radius,
-                        halfH: radius,
-                        radius: [radius, radius, radius, radius],
-                        rotation: 0,
-                        color: this.colorParser.parse(style.fillStyle),
-                    });
-                }
+                    const pos = this.transformer.worldToView(item.x, item.y);
+                    const pxSize = sizeWorld * this.camera.scale;
+                    const radius = pxSize / 2;
+                    const { x: drawX, y: drawY } = computeOriginOffset(pos, pxSize, pxSize, origin, this.camera.scale);
+                    const cx = drawX + radius;
+                    const cy = drawY + radius;
+
+                    if (style?.fillStyle) {
+                        shapes.push({
+                            cx,
+                            cy,
+                            halfW: radius,
+                            halfH: radius,
+                            radius: [radius, radius, radius, radius],
+                            rotation: 0,
+                            color: this.colorParser.parse(style.fillStyle),
+                        });
+                    }
 
-                if (style?.strokeStyle) {
-                    this.pushCircleStroke(
-                        lines,
-                        cx,
-                        cy,
-                        radius,
-                        this.colorParser.parse(style.strokeStyle),
-                        resolveLineWidthPx(style, this.camera.scale),
-                        resolveLineDashPx(style, this.camera.scale),
-                    );
+                    if (style?.strokeStyle) {
+                        this.pushCircleStroke(
+                            lines,
+                            cx,
+                            cy,
+                            radius,
+                            this.colorParser.parse(style.strokeStyle),
+                            resolveLineWidthPx(style, this.camera.scale),
+                            resolveLineDashPx(style, this.camera.scale),
+                        );
+                    }
                 }
-            }
 
-            gl.drawShapes(shapes);
-            gl.drawLines(lines);
-        });
+                gl.drawShapes(shapes);
+                gl.drawLines(lines);
+            },
+            options,
+        );
     }
 
     drawLine(
@@ -264,47 +307,52 @@ export class WebGLDraw {
         const styleOf = options?.styleOf;
         const visibleOf = options?.visibleOf;
 
-        return this.layers.add(layer, ({ gl, config, topLeft }) => {
-            const color = this.colorParser.parse(style?.strokeStyle ?? "#000");
-            const lineWidth = resolveLineWidthPx(style, this.camera.scale);
-            const dash = resolveLineDashPx(style, this.camera.scale);
-            const lines: LineInstance[] = [];
+        return this.layers.add(
+            layer,
+            ({ gl, config, topLeft }) => {
+                const color = this.colorParser.parse(style?.strokeStyle ?? "#000");
+                const lineWidth = resolveLineWidthPx(style, this.camera.scale);
+                const dash = resolveLineDashPx(style, this.camera.scale);
+                const lines: LineInstance[] = [];
+
+                for (const item of list) {
+                    if (visibleOf?.(item) === false) {
+                        continue;
+                    }
+                    const centerX = (item.from.x + item.to.x) / 2;
+                    const centerY = (item.from.y + item.to.y) / 2;
+                    const halfExtent =
+                        Math.max(Math.abs(item.from.x - item.to.x), Math.abs(item.from.y - item.to.y)) / 2;
+                    if (!isVisible(centerX, centerY, halfExtent, topLeft, config)) {
+                        continue;
+                    }
 
-            for (const item of list) {
-                if (visibleOf?.(item) === false) {
-                    continue;
-                }
-                const centerX = (item.from.x + item.to.x) / 2;
-                const centerY = (item.from.y + item.to.y) / 2;
-                const halfExtent = Math.max(Math.abs(item.from.x - item.to.x), Math.abs(item.from.y - item.to.y)) / 2;
-                if (!isVisible(centerX, centerY, halfExtent, topLeft, config)) {
-                    continue;
-                }
+                    let itemColor = color;
+                    let itemWidth = lineWidth;
+                    let itemDash = dash;
+                    const deco = styleOf?.(item);
+                    if (deco || item.style) {
+                        // Width resolves from the registration-time layers only
+                        // (call style + item.style) — the same layers hit testing
+                        // reads — so a smuggled decoration width cannot desync
+                        // paint from hit. Color and dash take the full merge.
+                        const registration = overlayLineStyle(style, item.style);
+                        const merged = overlayLineStyle(registration, deco);
+                        itemColor = this.colorParser.parse(merged.strokeStyle ?? "#000");
+                        itemWidth = resolveLineWidthPx(registration, this.camera.scale);
+                        itemDash = resolveLineDashPx(merged, this.camera.scale);
+                    }
 
-                let itemColor = color;
-                let itemWidth = lineWidth;
-                let itemDash = dash;
-                const deco = styleOf?.(item);
-                if (deco || item.style) {
-                    // Width resolves from the registration-time layers only
-                    // (call style + item.style) — the same layers hit testing
-                    // reads — so a smuggled decoration width cannot desync
-                    // paint from hit. Color and dash take the full merge.
-                    const registration = overlayLineStyle(style, item.style);
-                    const merged = overlayLineStyle(registration, deco);
-                    itemColor = this.colorParser.parse(merged.strokeStyle ?? "#000");
-                    itemWidth = resolveLineWidthPx(registration, this.camera.scale);
-                    itemDash = resolveLineDashPx(merged, this.camera.scale);
+                    const a = this.transformer.worldToView(item.from.x, item.from.y);
+                    const b = this.transformer.worldToView(item.to.x, item.to.y);
+                    // Each Line item is its own subpath: the dash phase restarts.
+                    this.pushSegment(lines, a, b, itemColor, itemWidth, itemDash, 0);
                 }
 
-                const a = this.transformer.worldToScreen(item.from.x, item.from.y);
-                const b = this.transformer.worldToScreen(item.to.x, item.to.y);
-                // Each Line item is its own subpath: the dash phase restarts.
-                this.pushSegment(lines, a, b, itemColor, itemWidth, itemDash, 0);
-            }
-
-            gl.drawLines(lines);
-        });
+                gl.drawLines(lines);
+            },
+            options,
+        );
     }
 
     drawText(
@@ -319,55 +367,69 @@ export class WebGLDraw {
         const useSpatialIndex = list.length > SPATIAL_INDEX_THRESHOLD;
         const spatialIndex = useSpatialIndex ? SpatialIndex.fromArray(list) : null;
 
-        return this.layers.add(layer, ({ ctx, config, topLeft }) => {
-            const bounds = getViewportBounds(topLeft, config);
-            const visibleItems = spatialIndex
-                ? spatialIndex.query(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY)
-                : list;
+        return this.layers.add(
+            layer,
+            ({ ctx, config, topLeft }) => {
+                const bounds = getViewportBounds(topLeft, config);
+                const visibleItems = spatialIndex
+                    ? spatialIndex.query(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY)
+                    : list;
+                const upright = this.uprightMatrix();
+
+                ctx.save();
+
+                for (const item of this.paintOrder(visibleItems)) {
+                    if (visibleOf?.(item) === false) {
+                        continue;
+                    }
+                    const size = item.size ?? 1;
+                    const deco = styleOf?.(item);
+                    const style = deco ? { ...item.style, ...deco } : item.style;
 
-            ctx.save();
+                    // fontPx is zoom-independent; its world-space extent shrinks as scale grows
+                    const extentWorld = item.fontPx !== undefined ? item.fontPx / this.camera.scale : size;
 
-            for (const item of visibleItems) {
-                if (visibleOf?.(item) === false) {
-                    continue;
-                }
-                const size = item.size ?? 1;
-                const deco = styleOf?.(item);
-                const style = deco ? { ...item.style, ...deco } : item.style;
+                    if (!spatialIndex && !isVisible(item.x, item.y, extentWorld, topLeft, config)) {
+                        continue;
+                    }
 
-                // fontPx is zoom-independent; its world-space extent shrinks as scale grows
-                const extentWorld = item.fontPx !== undefined ? item.fontPx / this.camera.scale : size;
+                    const pxSize = item.fontPx ?? size * this.camera.scale;
+                    const family = style?.fontFamily ?? "sans-serif";
+                    ctx.font = `${pxSize}px ${family}`;
 
-                if (!spatialIndex && !isVisible(item.x, item.y, extentWorld, topLeft, config)) {
-                    continue;
-                }
+                    if (style?.fillStyle) {
+                        ctx.fillStyle = style.fillStyle;
+                    }
+                    ctx.textAlign = style?.textAlign ?? "center";
+                    ctx.textBaseline = style?.textBaseline ?? "middle";
 
-                const pxSize = item.fontPx ?? size * this.camera.scale;
-                const family = style?.fontFamily ?? "sans-serif";
-                ctx.font = `${pxSize}px ${family}`;
+                    const pos = this.transformer.worldToView(item.x, item.y);
 
-                if (style?.fillStyle) {
-                    ctx.fillStyle = style.fillStyle;
-                }
-                ctx.textAlign = style?.textAlign ?? "center";
-                ctx.textBaseline = style?.textBaseline ?? "middle";
-
-                const pos = this.transformer.worldToScreen(item.x, item.y);
-
-                const rotationDeg = item.rotate ?? 0;
-                if (rotationDeg !== 0) {
-                    const rotation = rotationDeg * (Math.PI / 180);
-                    ctx.save();
-                    ctx.translate(pos.x, pos.y);
-                    ctx.rotate(rotation);
-                    ctx.fillText(item.text, 0, 0);
-                    ctx.restore();
-                } else {
-                    ctx.fillText(item.text, pos.x, pos.y);
+                    if (upright) {
+                        ctx.save();
+                        ctx.translate(pos.x, pos.y);
+                        ctx.transform(upright.a, upright.b, upright.c, upright.d, 0, 0);
+                        ctx.translate(-pos.x, -pos.y);
+                    }
+                    const rotationDeg = item.rotate ?? 0;
+                    if (rotationDeg !== 0) {
+                        const rotation = rotationDeg * (Math.PI / 180);
+                        ctx.save();
+                        ctx.translate(pos.x, pos.y);
+                        ctx.rotate(rotation);
+                        ctx.fillText(item.text, 0, 0);
+                        ctx.restore();
+                    } else {
+                        ctx.fillText(item.text, pos.x, pos.y);
+                    }
+                    if (upright) {
+                        ctx.restore();
+                    }
                 }
-            }
-            ctx.restore();
-        });
+                ctx.restore();
+            },
+            options,
+        );
     }
 
     drawPath(
@@ -397,85 +459,89 @@ export class WebGLDraw {
             return subpaths;
         };
 
-        return this.layers.add(layer, ({ gl, config, topLeft }) => {
-            const lines: LineInstance[] = [];
-
-            for (let n = 0; n < items.length; n++) {
-                const item = items[n];
-                const bounds = itemBounds[n];
-                if (!bounds || visibleOf?.(item) === false) {
-                    continue;
-                }
+        return this.layers.add(
+            layer,
+            ({ gl, config, topLeft }) => {
+                const lines: LineInstance[] = [];
+
+                for (let n = 0; n < items.length; n++) {
+                    const item = items[n];
+                    const bounds = itemBounds[n];
+                    if (!bounds || visibleOf?.(item) === false) {
+                        continue;
+                    }
 
-                const centerX = (bounds.minX + bounds.maxX) / 2;
-                const centerY = (bounds.minY + bounds.maxY) / 2;
-                const halfExtent = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) / 2;
-                if (!isVisible(centerX, centerY, halfExtent, topLeft, config)) {
-                    continue;
-                }
+                    const centerX = (bounds.minX + bounds.maxX) / 2;
+                    const centerY = (bounds.minY + bounds.maxY) / 2;
+                    const halfExtent = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) / 2;
+                    if (!isVisible(centerX, centerY, halfExtent, topLeft, config)) {
+                        continue;
+                    }
 
-                const deco = styleOf?.(item);
-                const style = deco ? { ...item.style, ...deco } : item.style;
-                const filled = style?.fillStyle !== undefined;
-
-                // Screen-space subpaths: flattened commands, or the (possibly
-                // corner-rounded) points polyline as a single subpath.
-                let subpaths: Array<{ points: Coords[]; closed: boolean }>;
-                if (item.commands !== undefined) {
-                    subpaths = subpathsFor(n, item).map((sub) => ({
-                        points: sub.points.map((p) => this.transformer.worldToScreen(p.x, p.y)),
-                        closed: sub.closed,
-                    }));
-                } else {
-                    const closed = item.closed === true;
-                    // Registration-time only (the layer hit testing reads);
-                    // the decoration types' exclusion is only type-level.
-                    const radiusPx = resolveCornerRadiusPx(item.style, this.camera.scale);
-                    const pts = item.points!.map((p) => this.transformer.worldToScreen(p.x, p.y));
-                    // Corner rounding flattens into a denser polyline, so dash
-                    // tessellation and fills run over it unchanged. Closed
-                    // outlines round every vertex; open ones interior joints.
-                    const outline = closed ? roundedRing(pts, radiusPx) : roundedPolyline(pts, radiusPx);
-                    subpaths = [{ points: outline, closed }];
-                }
+                    const deco = styleOf?.(item);
+                    const style = deco ? { ...item.style, ...deco } : item.style;
+                    const filled = style?.fillStyle !== undefined;
+
+                    // Screen-space subpaths: flattened commands, or the (possibly
+                    // corner-rounded) points polyline as a single subpath.
+                    let subpaths: Array<{ points: Coords[]; closed: boolean }>;
+                    if (item.commands !== undefined) {
+                        subpaths = subpathsFor(n, item).map((sub) => ({
+                            points: sub.points.map((p) => this.transformer.worldToView(p.x, p.y)),
+                            closed: sub.closed,
+                        }));
+                    } else {
+                        const closed = item.closed === true;
+                        // Registration-time only (the layer hit testing reads);
+                        // the decoration types' exclusion is only type-level.
+                        const radiusPx = resolveCornerRadiusPx(item.style, this.camera.scale);
+                        const pts = item.points!.map((p) => this.transformer.worldToView(p.x, p.y));
+                        // Corner rounding flattens into a denser polyline, so dash
+                        // tessellation and fills run over it unchanged. Closed
+                        // outlines round every vertex; open ones interior joints.
+                        const outline = closed ? roundedRing(pts, radiusPx) : roundedPolyline(pts, radiusPx);
+                        subpaths = [{ points: outline, closed }];
+                    }
 
-                if (filled) {
-                    // Like Canvas2D fill(), open subpaths close implicitly.
-                    // Multi-ring stencil-then-cover: winding accumulates
-                    // across subpaths, so holes match Canvas2D/Skia exactly.
-                    const color = this.colorParser.parse(style!.fillStyle!);
-                    gl.fillPath(
-                        subpaths.map((sub) => sub.points),
-                        color,
-                        item.fillRule === "evenodd",
-                    );
-                }
+                    if (filled) {
+                        // Like Canvas2D fill(), open subpaths close implicitly.
+                        // Multi-ring stencil-then-cover: winding accumulates
+                        // across subpaths, so holes match Canvas2D/Skia exactly.
+                        const color = this.colorParser.parse(style!.fillStyle!);
+                        gl.fillPath(
+                            subpaths.map((sub) => sub.points),
+                            color,
+                            item.fillRule === "evenodd",
+                        );
+                    }
 
-                if (style?.strokeStyle !== undefined || !filled) {
-                    const color = this.colorParser.parse(style?.strokeStyle ?? "#000");
-                    // Width from item.style: registration-time only, matching
-                    // the hit corridor (decoration exclusion is type-level).
-                    const lineWidth = resolveLineWidthPx(item.style, this.camera.scale);
-                    const dash = resolveLineDashPx(style, this.camera.scale);
-
-                    for (const sub of subpaths) {
-                        const pts = sub.points;
-                        // The dash phase carries across joints so the pattern
-                        // flows continuously within a subpath, resetting at
-                        // the next one — like ctx subpaths.
-                        let phase = 0;
-                        for (let i = 1; i < pts.length; i++) {
-                            phase = this.pushSegment(lines, pts[i - 1], pts[i], color, lineWidth, dash, phase);
-                        }
-                        if (sub.closed && pts.length > 2) {
-                            this.pushSegment(lines, pts[pts.length - 1], pts[0], color, lineWidth, dash, phase);
+                    if (style?.strokeStyle !== undefined || !filled) {
+                        const color = this.colorParser.parse(style?.strokeStyle ?? "#000");
+                        // Width from item.style: registration-time only, matching
+                        // the hit corridor (decoration exclusion is type-level).
+                        const lineWidth = resolveLineWidthPx(item.style, this.camera.scale);
+                        const dash = resolveLineDashPx(style, this.camera.scale);
+
+                        for (const sub of subpaths) {
+                            const pts = sub.points;
+                            // The dash phase carries across joints so the pattern
+                            // flows continuously within a subpath, resetting at
+                            // the next one — like ctx subpaths.
+                            let phase = 0;
+                            for (let i = 1; i < pts.length; i++) {
+                                phase = this.pushSegment(lines, pts[i - 1], pts[i], color, lineWidth, dash, phase);
+                            }
+                            if (sub.closed && pts.length > 2) {
+                                this.pushSegment(lines, pts[pts.length - 1], pts[0], color, lineWidth, dash, phase);
+                            }
                         }
                     }
                 }
-            }
 
-            gl.drawLines(lines);
-        });
+                gl.drawLines(lines);
+            },
+            options,
+        );
     }
 
     drawImage(
@@ -492,124 +558,153 @@ export class WebGLDraw {
         // the anchor-index query is padded by this per frame (scale-divided).
         const maxSizePx = list.reduce((max, item) => Math.max(max, item.sizePx ?? 0), 0);
 
-        return this.layers.add(layer, ({ gl, config, topLeft }) => {
-            const bounds = getViewportBounds(topLeft, config);
-            const sizePxPad = maxSizePx / this.camera.scale;
-            const visibleItems = spatialIndex
-                ? spatialIndex.query(
-                      bounds.minX - sizePxPad,
-                      bounds.minY - sizePxPad,
-                      bounds.maxX + sizePxPad,
-                      bounds.maxY + sizePxPad,
-                  )
-                : list;
-
-            const images: ImageInstance[] = [];
-
-            for (const item of visibleItems) {
-                if (visibleOf?.(item) === false) {
-                    continue;
-                }
-                // sizePx wins over size, resolved against the live scale
-                const sizeWorld = resolveSizeWorld(item, this.camera.scale);
-                const origin = resolveOrigin(item.origin);
+        return this.layers.add(
+            layer,
+            ({ gl, config, topLeft }) => {
+                const bounds = getViewportBounds(topLeft, config);
+                const sizePxPad = maxSizePx / this.camera.scale;
+                const visibleItems = spatialIndex
+                    ? spatialIndex.query(
+                          bounds.minX - sizePxPad,
+                          bounds.minY - sizePxPad,
+                          bounds.maxX + sizePxPad,
+                          bounds.maxY + sizePxPad,
+                      )
+                    : list;
+
+                const images: ImageInstance[] = [];
+                const upright = this.uprightMatrix();
+
+                for (const item of this.paintOrder(visibleItems)) {
+                    if (visibleOf?.(item) === false) {
+                        continue;
+                    }
+                    // sizePx wins over size, resolved against the live scale
+                    const sizeWorld = resolveSizeWorld(item, this.camera.scale);
+                    const origin = resolveOrigin(item.origin);
 
-                if (!spatialIndex && !isVisible(item.x, item.y, sizeWorld / 2, topLeft, config)) {
-                    continue;
-                }
+                    if (!spatialIndex && !isVisible(item.x, item.y, sizeWorld / 2, topLeft, config)) {
+                        continue;
+                    }
 
-                const texture = gl.getTexture(item.img);
-                if (!texture) {
-                    continue;
-                }
+                    const texture = gl.getTexture(item.img);
+                    if (!texture) {
+                        continue;
+                    }
 
-                const pos = this.transformer.worldToScreen(item.x, item.y);
-                const pxSize = sizeWorld * this.camera.scale;
-
-                // Spritesheet source rect; defaults to the whole image
-                const sprite = item.sprite;
-                const srcW = sprite?.w ?? item.img.width;
-                const srcH = sprite?.h ?? item.img.height;
-
-                // preserve aspect (of the sprite frame when one is set)
-                const aspect = srcW / srcH;
-                let drawW = pxSize;
-                let drawH = pxSize;
-                if (aspect > 1) {
-                    drawH = pxSize / aspect;
-                } else {
-                    drawW = pxSize * aspect;
-                }
+                    const pos = this.transformer.worldToView(item.x, item.y);
+                    const pxSize = sizeWorld * this.camera.scale;
+
+                    // Spritesheet source rect; defaults to the whole image
+                    const sprite = item.sprite;
+                    const srcW = sprite?.w ?? item.img.width;
+                    const srcH = sprite?.h ?? item.img.height;
+
+                    // preserve aspect (of the sprite frame when one is set)
+                    const aspect = srcW / srcH;
+                    let drawW = pxSize;
+                    let drawH = pxSize;
+                    if (aspect > 1) {
+                        drawH = pxSize / aspect;
+                    } else {
+                        drawW = pxSize * aspect;
+                    }
 
-                const { x: baseX, y: baseY } = computeOriginOffset(pos, pxSize, pxSize, origin, this.camera.scale);
-                const offsetX = baseX + (pxSize - drawW) / 2;
-                const offsetY = baseY + (pxSize - drawH) / 2;
-                const rotation = (item.rotate ?? 0) * (Math.PI / 180);
-
-                const instance: ImageInstance = {
-                    texture,
-                    x: offsetX,
-                    y: offsetY,
-                    w: drawW,
-                    h: drawH,
-                    rotation,
-                    alpha: item.opacity ?? 1,
-                };
+                    const { x: baseX, y: baseY } = computeOriginOffset(pos, pxSize, pxSize, origin, this.camera.scale);
+                    const offsetX = baseX + (pxSize - drawW) / 2;
+                    const offsetY = baseY + (pxSize - drawH) / 2;
+                    const rotation = (item.rotate ?? 0) * (Math.PI / 180);
+
+                    const instance: ImageInstance = {
+                        texture,
+                        x: offsetX,
+                        y: offsetY,
+                        w: drawW,
+                        h: drawH,
+                        rotation,
+                        alpha: item.opacity ?? 1,
+                    };
+                    if (upright) {
+                        instance.anchorTransform = { anchor: pos, matrix: upright };
+                    }
 
-                if (sprite) {
-                    // Normalize the pixel rect into 0..1 texcoords
-                    instance.u0 = sprite.x / item.img.width;
-                    instance.v0 = sprite.y / item.img.height;
-                    instance.u1 = (sprite.x + sprite.w) / item.img.width;
-                    instance.v1 = (sprite.y + sprite.h) / item.img.height;
-                }
+                    if (sprite) {
+                        // Normalize the pixel rect into 0..1 texcoords
+                        instance.u0 = sprite.x / item.img.width;
+                        instance.v0 = sprite.y / item.img.height;
+                        instance.u1 = (sprite.x + sprite.w) / item.img.width;
+                        instance.v1 = (sprite.y + sprite.h) / item.img.height;
+                    }
 
-                // Mirroring = swapped texcoords; no vertex transform needed.
-                if (item.flipX === true) {
-                    const u0 = instance.u0 ?? 0;
-                    instance.u0 = instance.u1 ?? 1;
-                    instance.u1 = u0;
-                }
-                if (item.flipY === true) {
-                    const v0 = instance.v0 ?? 0;
-                    instance.v0 = instance.v1 ?? 1;
-                    instance.v1 = v0;
-                }
+                    // Mirroring = swapped texcoords; no vertex transform needed.
+                    if (item.flipX === true) {
+                        const u0 = instance.u0 ?? 0;
+                        instance.u0 = instance.u1 ?? 1;
+                        instance.u1 = u0;
+                    }
+                    if (item.flipY === true) {
+                        const v0 = instance.v0 ?? 0;
+                        instance.v0 = instance.v1 ?? 1;
+                        instance.v1 = v0;
+                    }
 
-                images.push(instance);
-            }
+                    images.push(instance);
+                }
 
-            gl.drawImages(images);
-        });
+                gl.drawImages(images);
+            },
+            options,
+        );
     }
 
-    drawGridLines(cellSize: number, style: { strokeStyle: string; lineWidth: number }, layer: number = 0): DrawHandle {
-        return this.layers.add(layer, ({ gl, config, topLeft }) => {
-            const viewW = config.size.width / config.scale;
-            const viewH = config.size.height / config.scale;
+    drawGridLines(
+        cellSize: number,
+        style: { strokeStyle: string; lineWidth: number },
+        layer: number = 0,
+        options?: ScaleRange,
+    ): DrawHandle {
+        // Grid lines span the whole view, so they draw once rather than per copy of a wrapped world
+        return this.layers.add(
+            layer,
+            ({ gl, config, topLeft }) => {
+                const view = getViewRect(topLeft, config);
+
+                if (config.grid?.type === "hex") {
+                    const color = this.colorParser.parse(style.strokeStyle);
+                    const lines: LineInstance[] = [];
+                    forEachHexGridEdge(view, config.grid, (from, to) => {
+                        const p1 = this.transformer.worldToView(from.x, from.y);
+                        const p2 = this.transformer.worldToView(to.x, to.y);
+                        this.pushLine(lines, p1, p2, color, style.lineWidth);
+                    });
+                    gl.drawLines(lines);
+                    return;
+                }
 
-            const startX = Math.floor(topLeft.x / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
-            const endX = Math.ceil((topLeft.x + viewW) / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
-            const startY = Math.floor(topLeft.y / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
-            const endY = Math.ceil((topLeft.y + viewH) / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
+                const startX = Math.floor(view.minX / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
+                const endX = Math.ceil(view.maxX / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
+                const startY = Math.floor(view.minY / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
+                const endY = Math.ceil(view.maxY / cellSize) * cellSize - DEFAULT_VALUES.CELL_CENTER_OFFSET;
 
-            const color = this.colorParser.parse(style.strokeStyle);
-            const lines: LineInstance[] = [];
+                const color = this.colorParser.parse(style.strokeStyle);
+                const lines: LineInstance[] = [];
 
-            for (let x = startX; x <= endX; x += cellSize) {
-                const p1 = this.transformer.worldToScreen(x, startY);
-                const p2 = this.transformer.worldToScreen(x, endY);
-                this.pushLine(lines, p1, p2, color, style.lineWidth);
-            }
+                for (let x = startX; x <= endX; x += cellSize) {
+                    const p1 = this.transformer.worldToView(x, startY);
+                    const p2 = this.transformer.worldToView(x, endY);
+                    this.pushLine(lines, p1, p2, color, style.lineWidth);
+                }
 
-            for (let y = startY; y <= endY; y += cellSize) {
-                const p1 = this.transformer.worldToScreen(startX, y);
-                const p2 = this.transformer.worldToScreen(endX, y);
-                this.pushLine(lines, p1, p2, color, style.lineWidth);
-            }
+                for (let y = startY; y <= endY; y += cellSize) {
+                    const p1 = this.transformer.worldToView(startX, y);
+                    const p2 = this.transformer.worldToView(endX, y);
+                    this.pushLine(lines, p1, p2, color, style.lineWidth);
+                }
 
-            gl.drawLines(lines);
-        });
+                gl.drawLines(lines);
+            },
+            { ...options, wrap: false },
+        );
     }
 
     // ─── Static variants ───
@@ -658,6 +753,10 @@ export class WebGLDraw {
         this.layers.clear();
     }
 
+    setLayerScaleRange(layer: number, range: ScaleRange | undefined) {
+        this.layers.setScaleRange(layer, range);
+    }
+
     /**
      * Release cached resources and layer callbacks.
      */
@@ -674,6 +773,20 @@ export class WebGLDraw {
      * arrays expand CSS-style, and when adjacent radii overflow an edge all
      * radii are scaled down proportionally.
      */
+    /** Visible anchored items in paint order: back to front by row under an isometric projection. */
+    private paintOrder<T extends Coords>(items: readonly T[]): readonly T[] {
+        return depthSorted(items, this.camera.rotation ?? 0, this.camera.projection);
+    }
+
+    /**
+     * The inverse projection images and text are drawn under to stand
+     * upright, or `null` for an orthogonal view.
+     */
+    private uprightMatrix(): ViewMatrix | null {
+        const projection = this.camera.projection;
+        return isIsometric(projection) ? invertMatrix(projectionMatrix(projection)) : null;
+    }
+
     private resolveRadius(radius: number | number[] | undefined, pxSize: number): [number, number, number, number] {
         if (radius === undefined) {
             return [0, 0, 0, 0];
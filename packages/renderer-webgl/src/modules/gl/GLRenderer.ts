@@ -1,4 +1,4 @@
-import type { Coords } from "@canvas-tile-engine/core";
+import { transformAround, viewMatrix, type Coords, type Projection, type ViewMatrix } from "@canvas-tile-engine/core";
 import { RGBA } from "../../utils/color";
 import {
     LINE_FRAGMENT_SHADER,
@@ -62,6 +62,11 @@ export interface ImageInstance {
     /** Normalized texcoord of the right/bottom edge (default: 1). Used for spritesheet frames. */
     u1?: number;
     v1?: number;
+    /**
+     * Extra linear map applied to the finished quad around an anchor (CSS
+     * pixels). Isometric views use it to stand images upright.
+     */
+    anchorTransform?: { anchor: Coords; matrix: ViewMatrix };
 }
 
 type GL = WebGLRenderingContext;
@@ -78,6 +83,7 @@ interface ShapeProgram {
     a_radius: number;
     a_color: number;
     u_resolution: WebGLUniformLocation | null;
+    u_view: WebGLUniformLocation | null;
 }
 
 interface LineProgram {
@@ -85,6 +91,7 @@ interface LineProgram {
     a_position: number;
     a_color: number;
     u_resolution: WebGLUniformLocation | null;
+    u_view: WebGLUniformLocation | null;
 }
 
 interface TextureProgram {
@@ -92,6 +99,7 @@ interface TextureProgram {
     a_position: number;
     a_texcoord: number;
     u_resolution: WebGLUniformLocation | null;
+    u_view: WebGLUniformLocation | null;
     u_texture: WebGLUniformLocation | null;
     u_alpha: WebGLUniformLocation | null;
 }
@@ -122,6 +130,10 @@ export class GLRenderer {
 
     private cssWidth = 0;
     private cssHeight = 0;
+    /** View rotation and projection as a 2x2 matrix; the identity draws axis-aligned. */
+    private view: ViewMatrix = { a: 1, b: 0, c: 0, d: 1 };
+    /** Multiplier on every primitive's alpha; below 1 while a layer fades. */
+    private opacity = 1;
 
     constructor(gl: GL) {
         this.gl = gl;
@@ -155,6 +167,7 @@ export class GLRenderer {
             a_radius: gl.getAttribLocation(shapeProgram, "a_radius"),
             a_color: gl.getAttribLocation(shapeProgram, "a_color"),
             u_resolution: gl.getUniformLocation(shapeProgram, "u_resolution"),
+            u_view: gl.getUniformLocation(shapeProgram, "u_view"),
         };
 
         const lineProgram = this.createProgram(LINE_VERTEX_SHADER, LINE_FRAGMENT_SHADER);
@@ -163,6 +176,7 @@ export class GLRenderer {
             a_position: gl.getAttribLocation(lineProgram, "a_position"),
             a_color: gl.getAttribLocation(lineProgram, "a_color"),
             u_resolution: gl.getUniformLocation(lineProgram, "u_resolution"),
+            u_view: gl.getUniformLocation(lineProgram, "u_view"),
         };
 
         const textureProgram = this.createProgram(TEXTURE_VERTEX_SHADER, TEXTURE_FRAGMENT_SHADER);
@@ -171,6 +185,7 @@ export class GLRenderer {
             a_position: gl.getAttribLocation(textureProgram, "a_position"),
             a_texcoord: gl.getAttribLocation(textureProgram, "a_texcoord"),
             u_resolution: gl.getUniformLocation(textureProgram, "u_resolution"),
+            u_view: gl.getUniformLocation(textureProgram, "u_view"),
             u_texture: gl.getUniformLocation(textureProgram, "u_texture"),
             u_alpha: gl.getUniformLocation(textureProgram, "u_alpha"),
         };
@@ -203,6 +218,26 @@ export class GLRenderer {
         this.gl.viewport(0, 0, physicalWidth, physicalHeight);
     }
 
+    /**
+     * Set the view rotation and grid projection applied to every primitive,
+     * around the center of the logical viewport.
+     * @param degrees Angle in degrees, positive clockwise.
+     * @param projection Grid projection; missing means orthogonal.
+     */
+    setView(degrees: number, projection?: Projection) {
+        this.view = viewMatrix(degrees, projection);
+    }
+
+    /**
+     * Fade everything drawn until the next call — the scale-range cross-fade
+     * of a layer callback. Each primitive fades on its own, so overlapping
+     * items in a faded callback show through each other.
+     * @param opacity 0..1; `1` draws at full strength.
+     */
+    setOpacity(opacity: number) {
+        this.opacity = opacity;
+    }
+
     /** Clear the framebuffer with a background color. */
     clear(color: RGBA) {
         const gl = this.gl;
@@ -263,12 +298,13 @@ export class GLRenderer {
                 data[o++] = s.color[0];
                 data[o++] = s.color[1];
                 data[o++] = s.color[2];
-                data[o++] = s.color[3];
+                data[o++] = s.color[3] * this.opacity;
             }
         }
 
         gl.useProgram(this.shape.program);
         gl.uniform2f(this.shape.u_resolution, this.cssWidth, this.cssHeight);
+        gl.uniform4f(this.shape.u_view, this.view.a, this.view.b, this.view.c, this.view.d);
         gl.bindBuffer(gl.ARRAY_BUFFER, this.shapeBuffer);
         gl.bufferData(gl.ARRAY_BUFFER, data, gl.DYNAMIC_DRAW);
 
@@ -324,12 +360,13 @@ export class GLRenderer {
                 data[o++] = l.color[0];
                 data[o++] = l.color[1];
                 data[o++] = l.color[2];
-                data[o++] = l.color[3];
+                data[o++] = l.color[3] * this.opacity;
             }
         }
 
         gl.useProgram(this.line.program);
         gl.uniform2f(this.line.u_resolution, this.cssWidth, this.cssHeight);
+        gl.uniform4f(this.line.u_view, this.view.a, this.view.b, this.view.c, this.view.d);
         gl.bindBuffer(gl.ARRAY_BUFFER, this.lineBuffer);
         gl.bufferData(gl.ARRAY_BUFFER, data, gl.DYNAMIC_DRAW);
 
@@ -357,6 +394,7 @@ export class GLRenderer {
 
         gl.useProgram(this.line.program);
         gl.uniform2f(this.line.u_resolution, this.cssWidth, this.cssHeight);
+        gl.uniform4f(this.line.u_view, this.view.a, this.view.b, this.view.c, this.view.d);
         gl.bindBuffer(gl.ARRAY_BUFFER, this.lineBuffer);
         gl.bufferData(gl.ARRAY_BUFFER, data, gl.DYNAMIC_DRAW);
 
@@ -476,7 +514,7 @@ export class GLRenderer {
             quad[o++] = color[0];
             quad[o++] = color[1];
             quad[o++] = color[2];
-            quad[o++] = color[3];
+            quad[o++] = color[3] * this.opacity;
         }
         this.flatTriangles(quad, 6);
 
@@ -498,6 +536,7 @@ export class GLRenderer {
 
         gl.useProgram(this.texture.program);
         gl.uniform2f(this.texture.u_resolution, this.cssWidth, this.cssHeight);
+        gl.uniform4f(this.texture.u_view, this.view.a, this.view.b, this.view.c, this.view.d);
         gl.uniform1i(this.texture.u_texture, 0);
         gl.activeTexture(gl.TEXTURE0);
         gl.bindBuffer(gl.ARRAY_BUFFER, this.textureBuffer);
@@ -545,15 +584,19 @@ export class GLRenderer {
 
                 for (const i of order) {
                     const [lx, ly, u, v] = corners[i];
-                    data[o++] = cx + lx * cos - ly * sin;
-                    data[o++] = cy + lx * sin + ly * cos;
+                    let point = { x: cx + lx * cos - ly * sin, y: cy + lx * sin + ly * cos };
+                    if (item.anchorTransform) {
+                        point = transformAround(point, item.anchorTransform.anchor, item.anchorTransform.matrix);
+                    }
+                    data[o++] = point.x;
+                    data[o++] = point.y;
                     data[o++] = u;
                     data[o++] = v;
                 }
             }
 
             gl.bufferData(gl.ARRAY_BUFFER, data, gl.DYNAMIC_DRAW);
-            gl.uniform1f(this.texture.u_alpha, alpha);
+            gl.uniform1f(this.texture.u_alpha, alpha * this.opacity);
             gl.bindTexture(gl.TEXTURE_2D, texture);
             gl.drawArrays(gl.TRIANGLES, 0, count * 6);
 
@@ -5,6 +5,11 @@
  * pixels (top-left origin, y-down) and projected to clip space using a
  * `u_resolution` uniform. Device pixel ratio is handled by `gl.viewport`, so the
  * shaders themselves never need to know about it.
+ *
+ * The camera's view rotation and grid projection are applied here too:
+ * `u_view` holds the 2x2 view matrix as `(a, b, c, d)` (Canvas2D
+ * `transform` order), and positions are mapped around the viewport center
+ * before the clip-space conversion. `(1, 0, 0, 1)` is the identity.
  * @internal
  */
 
@@ -18,6 +23,7 @@ attribute vec4 a_radius;
 attribute vec4 a_color;
 
 uniform vec2 u_resolution;
+uniform vec4 u_view;
 
 varying vec2 v_local;
 varying vec2 v_halfSize;
@@ -25,7 +31,12 @@ varying vec4 v_radius;
 varying vec4 v_color;
 
 void main() {
-    vec2 clip = (a_position / u_resolution) * 2.0 - 1.0;
+    vec2 centered = a_position - u_resolution * 0.5;
+    vec2 viewed = vec2(
+        centered.x * u_view.x + centered.y * u_view.z,
+        centered.x * u_view.y + centered.y * u_view.w
+    ) + u_resolution * 0.5;
+    vec2 clip = (viewed / u_resolution) * 2.0 - 1.0;
     gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
     v_local = a_local;
     v_halfSize = a_halfSize;
@@ -100,6 +111,7 @@ in vec4 a_radius;
 in vec4 a_color;
 
 uniform vec2 u_resolution;
+uniform vec4 u_view;
 
 out vec2 v_local;
 out vec2 v_halfSize;
@@ -107,7 +119,12 @@ out vec4 v_radius;
 out vec4 v_color;
 
 void main() {
-    vec2 clip = (a_position / u_resolution) * 2.0 - 1.0;
+    vec2 centered = a_position - u_resolution * 0.5;
+    vec2 viewed = vec2(
+        centered.x * u_view.x + centered.y * u_view.z,
+        centered.x * u_view.y + centered.y * u_view.w
+    ) + u_resolution * 0.5;
+    vec2 clip = (viewed / u_resolution) * 2.0 - 1.0;
     gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
     v_local = a_local;
     v_halfSize = a_halfSize;
@@ -150,11 +167,17 @@ attribute vec2 a_position;
 attribute vec4 a_color;
 
 uniform vec2 u_resolution;
+uniform vec4 u_view;
 
 varying vec4 v_color;
 
 void main() {
-    vec2 clip = (a_position / u_resolution) * 2.0 - 1.0;
+    vec2 centered = a_position - u_resolution * 0.5;
+    vec2 viewed = vec2(
+        centered.x * u_view.x + centered.y * u_view.z,
+        centered.x * u_view.y + centered.y * u_view.w
+    ) + u_resolution * 0.5;
+    vec2 clip = (viewed / u_resolution) * 2.0 - 1.0;
     gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
     v_color = a_color;
 }
@@ -175,11 +198,17 @@ attribute vec2 a_position;
 attribute vec2 a_texcoord;
 
 uniform vec2 u_resolution;
+uniform vec4 u_view;
 
 varying vec2 v_texcoord;
 
 void main() {
-    vec2 clip = (a_position / u_resolution) * 2.0 - 1.0;
+    vec2 centered = a_position - u_resolution * 0.5;
+    vec2 viewed = vec2(
+        centered.x * u_view.x + centered.y * u_view.z,
+        centered.x * u_view.y + centered.y * u_view.w
+    ) + u_resolution * 0.5;
+    vec2 clip = (viewed / u_resolution) * 2.0 - 1.0;
     gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
     v_texcoord = a_texcoord;
 }
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { CoordinateTransformer, ICamera } from "@canvas-tile-engine/core";
-import { WebGLDraw, type WebGLDrawContext } from "../../src/modules/WebGLDraw";
+import { WebGLDraw, fadeWebGL, type WebGLDrawContext } from "../../src/modules/WebGLDraw";
 import { Layer } from "@canvas-tile-engine/renderer-shared/scene";
 import type { GLRenderer, LineInstance, ShapeInstance } from "../../src/modules/gl/GLRenderer";
 
@@ -142,3 +142,47 @@ describe("WebGLDraw dashed rect/circle borders", () => {
         expect(lines[0].y1).toBe(15);
     });
 });
+
+describe("WebGLDraw scale ranges", () => {
+    function setupFading() {
+        const camera = { x: 0, y: 0, scale: 10 } as unknown as ICamera;
+        const transformer = new CoordinateTransformer(camera);
+        const layers = new Layer<WebGLDrawContext>(fadeWebGL);
+        const draw = new WebGLDraw(layers, transformer, camera);
+        const config = { size: { width: 100, height: 100 }, scale: 10 } as never;
+        const ctx = { globalAlpha: 1, save() {}, restore() {} } as unknown as CanvasRenderingContext2D;
+        const opacities: number[] = [];
+        const shapes: ShapeInstance[] = [];
+        const gl = {
+            drawShapes(items: ShapeInstance[]) {
+                shapes.push(...items);
+            },
+            drawLines() {},
+            setOpacity(opacity: number) {
+                opacities.push(opacity);
+            },
+        } as unknown as GLRenderer;
+        const render = () => layers.drawAll({ gl, ctx, camera, transformer, config, topLeft: { x: 0, y: 0 } });
+        return { draw, render, ctx, shapes, opacities };
+    }
+
+    it("skips a registration outside its range", () => {
+        const { draw, render, shapes } = setupFading();
+
+        draw.drawRect({ x: 2, y: 2, style: { fillStyle: "#f00" } }, 1, { minScale: 20 });
+        render();
+
+        expect(shapes).toHaveLength(0);
+    });
+
+    it("fades the GL batch and the overlay inside the band, resetting the GL opacity after", () => {
+        const { draw, render, ctx, shapes, opacities } = setupFading();
+
+        draw.drawRect({ x: 2, y: 2, style: { fillStyle: "#f00" } }, 1, { minScale: 10, scaleFade: 4 });
+        render();
+
+        expect(shapes).toHaveLength(1);
+        expect(opacities).toEqual([0.5, 1]);
+        expect(ctx.globalAlpha).toBe(0.5);
+    });
+});